@@ -0,0 +1,19 @@
+/**
+ * Export command router
+ * @module cli/commands/export
+ */
+
+import { Command } from 'commander';
+import { exportIcsCommand } from './export/ics.js';
+
+/**
+ * Create the export command with all subcommands
+ * @returns Configured export command
+ */
+export function exportCommand(): Command {
+  const cmd = new Command('export').alias('ex').description('Export itineraries to other formats');
+
+  cmd.addCommand(exportIcsCommand());
+
+  return cmd;
+}
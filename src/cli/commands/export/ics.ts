@@ -0,0 +1,92 @@
+/**
+ * Export an itinerary as an iCalendar file
+ * @module cli/commands/export/ics
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import * as p from '@clack/prompts';
+import { Command } from 'commander';
+import { type ItineraryId, createItineraryId } from '../../../domain/types/branded.js';
+import { ICSExportService } from '../../../services/ics-export.service.js';
+import { WorkingContextService } from '../../../services/working-context.service.js';
+import { ConfigStorage } from '../../../storage/config-storage.js';
+import { JsonItineraryStorage } from '../../../storage/json-storage.js';
+import { printError, printSuccess } from '../../output/colors.js';
+
+export function exportIcsCommand(): Command {
+  return new Command('ics')
+    .description('Export an itinerary as an iCalendar (.ics) file')
+    .argument('[id]', 'Itinerary ID (uses working itinerary if not specified)')
+    .option('-o, --output <file>', 'Output file (prints to stdout if not specified)')
+    .option(
+      '--check-in-reminder <hours>',
+      'Hours before departure to remind about flight check-in (0 to disable)',
+      '24'
+    )
+    .action(async (id, options) => {
+      const storage = new JsonItineraryStorage();
+      const configStorage = new ConfigStorage();
+      await configStorage.initialize();
+      const workingService = new WorkingContextService(configStorage, storage);
+
+      let itineraryId: string | undefined;
+
+      if (id) {
+        // Find by partial ID match
+        const listResult = await storage.list();
+        if (listResult.success) {
+          const match = listResult.value.find((s) => s.id.startsWith(id));
+          if (match) {
+            itineraryId = match.id;
+          }
+        }
+        if (!itineraryId) {
+          try {
+            itineraryId = createItineraryId(id);
+          } catch (_error) {
+            printError(`Invalid itinerary ID: ${id}`);
+            process.exit(1);
+          }
+        }
+      } else {
+        // Use working itinerary
+        const workingResult = await workingService.getWorkingItinerary();
+        if (!workingResult.success) {
+          printError(workingResult.error.message);
+          process.exit(1);
+        }
+        if (!workingResult.value) {
+          p.note('No working itinerary set. Provide an ID or use "itinerizer itinerary use <id>"');
+          process.exit(1);
+        }
+        itineraryId = workingResult.value.id;
+      }
+
+      const reminderHours = Number(options.checkInReminder);
+      if (!Number.isFinite(reminderHours) || reminderHours < 0) {
+        printError(`Invalid check-in reminder: ${options.checkInReminder}`);
+        process.exit(1);
+      }
+
+      const result = await storage.load(itineraryId as ItineraryId);
+      if (!result.success) {
+        printError(result.error.message);
+        process.exit(1);
+      }
+
+      const calendar = new ICSExportService().exportItinerary(result.value, {
+        checkInReminderMinutes: Math.round(reminderHours * 60),
+      });
+
+      if (!options.output) {
+        process.stdout.write(calendar);
+        return;
+      }
+
+      const outputPath = resolve(options.output);
+      await mkdir(dirname(outputPath), { recursive: true });
+      await writeFile(outputPath, calendar, 'utf-8');
+      printSuccess(`Exported ${result.value.segments.length} event(s) to ${outputPath}`);
+    });
+}
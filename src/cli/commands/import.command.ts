@@ -9,6 +9,7 @@ import { importPreviewCommand } from './import/preview.js';
 import { importCostsCommand } from './import/costs.js';
 import { importTestModelsCommand } from './import/test-models.js';
 import { importConfigCommand } from './import/config.js';
+import { importMailboxCommand } from './import/mailbox.js';
 
 /**
  * Create the import command with all subcommands
@@ -21,6 +22,7 @@ export function importCommand(): Command {
 
   cmd.addCommand(importFileCommand());
   cmd.addCommand(importPreviewCommand());
+  cmd.addCommand(importMailboxCommand());
   cmd.addCommand(importCostsCommand());
   cmd.addCommand(importTestModelsCommand());
   cmd.addCommand(importConfigCommand());
@@ -131,6 +131,17 @@ export function importConfigCommand(): Command {
         `  Log Path: ${colors.dim(config.costTracking?.logPath ?? './data/imports/cost-log.json')}`
       );
 
+      console.log();
+      console.log(colors.heading('Travel Search'));
+      const searchProvider =
+        config.travelSearch?.provider ?? (config.serpapi?.apiKey ? 'serpapi' : 'fixture');
+      console.log(`  Provider: ${colors.cyan(searchProvider)}`);
+      if (searchProvider === 'fixture') {
+        console.log(
+          `  Fixtures: ${colors.dim(config.travelSearch?.fixturePath ?? 'bundled sample offers')}`
+        );
+      }
+
       p.outro('Configuration loaded');
     });
 }
@@ -0,0 +1,197 @@
+/**
+ * Import mailbox command - bulk import bookings from mbox, Maildir or IMAP
+ * @module cli/commands/import/mailbox
+ */
+
+import { stat } from 'node:fs/promises';
+import * as p from '@clack/prompts';
+import { Command } from 'commander';
+import { ImportService } from '../../../services/import/index.js';
+import {
+  ImapMailboxSource,
+  MaildirMailboxSource,
+  MboxMailboxSource,
+} from '../../../services/import/mailbox/index.js';
+import type { MailboxSource } from '../../../services/import/mailbox/index.js';
+import { ItineraryCollectionService } from '../../../services/itinerary-collection.service.js';
+import { MailboxImportService } from '../../../services/mailbox-import.service.js';
+import type { MailboxMessageStatus } from '../../../services/mailbox-import.service.js';
+import { SegmentService } from '../../../services/segment.service.js';
+import { JsonItineraryStorage } from '../../../storage/json-storage.js';
+import { YamlConfigStorage } from '../../../storage/yaml-config.js';
+import { colors, printError, printSuccess, printWarning } from '../../output/colors.js';
+
+const STATUS_LABELS: Record<MailboxMessageStatus, string> = {
+  imported: colors.green('imported'),
+  pending: colors.yellow('pending'),
+  duplicate: colors.dim('duplicate'),
+  no_bookings: colors.dim('no bookings'),
+  failed: colors.red('failed'),
+};
+
+/**
+ * Create the import mailbox command
+ */
+export function importMailboxCommand(): Command {
+  return new Command('mailbox')
+    .argument('[path]', 'Path to an mbox file or Maildir directory')
+    .description('Import bookings from every new message in a mailbox')
+    .option('--imap-host <host>', 'Read an IMAP folder instead of a local mailbox')
+    .option('--imap-port <port>', 'IMAP port (default: 993, or 143 with --no-tls)')
+    .option('--imap-user <user>', 'IMAP user name')
+    .option('--imap-password <password>', 'IMAP password (default: $IMAP_PASSWORD)')
+    .option('--imap-folder <folder>', 'IMAP folder', 'INBOX')
+    .option('--no-tls', 'Connect to IMAP without TLS (local servers only)')
+    .option('--allow-insecure-login', 'With --no-tls, send the password to a remote server')
+    .option('-u, --user <email>', "Match bookings against this user's trips")
+    .option('-i, --itinerary <id>', 'Add every booking to this itinerary')
+    .option('--no-auto-match', 'Report trip matches instead of adding to the best match')
+    .option('-n, --limit <count>', 'Most messages to process in this run')
+    .option('--dry-run', 'Extract bookings without adding them or saving progress', false)
+    .option('--state <path>', 'Watermark state file', './data/imports/mailbox-state.json')
+    .option('--json', 'Output the report as JSON', false)
+    .action(async (path: string | undefined, options) => {
+      if (!options.json) {
+        p.intro(colors.heading('Import Mailbox'));
+      }
+
+      const source = await resolveSource(path, options);
+      if (typeof source === 'string') {
+        printError(source);
+        process.exit(1);
+      }
+
+      const configStorage = new YamlConfigStorage();
+      await configStorage.initialize();
+
+      const configResult = await configStorage.getImportConfig();
+      if (!configResult.success) {
+        printError('Import not configured. Run: itinerizer import config --set-key <key>');
+        printError(configResult.error.message);
+        process.exit(1);
+      }
+
+      const storage = new JsonItineraryStorage();
+      await storage.initialize();
+
+      const importService = new ImportService({
+        apiKey: configResult.value.apiKey,
+        ...(configResult.value.defaultModel ? { model: configResult.value.defaultModel } : {}),
+        itineraryCollection: new ItineraryCollectionService(storage),
+        segmentService: new SegmentService(storage),
+      });
+      const mailboxImport = new MailboxImportService({
+        importService,
+        statePath: options.state,
+      });
+
+      const spinner = options.json ? undefined : p.spinner();
+      spinner?.start(`Reading ${source.id}...`);
+
+      const result = await mailboxImport.importMailbox(source, {
+        ...(options.itinerary ? { itineraryId: options.itinerary } : {}),
+        ...(options.user ? { userId: options.user } : {}),
+        autoMatch: options.autoMatch,
+        dryRun: options.dryRun,
+        ...(options.limit ? { limit: Number.parseInt(options.limit, 10) } : {}),
+      });
+
+      if (!result.success) {
+        spinner?.stop('Mailbox import failed');
+        printError(result.error.message);
+        process.exit(1);
+      }
+
+      const report = result.value;
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+      }
+
+      spinner?.stop(`Processed ${report.messages.length} new message(s)`);
+
+      for (const message of report.messages) {
+        console.log(
+          `  ${STATUS_LABELS[message.status]}  ${message.subject || colors.dim('(no subject)')}`
+        );
+        for (const segment of message.segments) {
+          const confirmation = segment.confirmationNumber ? ` ${segment.confirmationNumber}` : '';
+          console.log(colors.dim(`      • ${segment.type}${confirmation}`));
+        }
+        if (message.itinerary) {
+          console.log(colors.dim(`      → ${message.itinerary.name}`));
+        }
+        for (const match of message.tripMatches?.slice(0, 3) ?? []) {
+          const score = `${Math.round(match.matchScore * 100)}%`;
+          console.log(
+            colors.dim(`      ? ${match.itineraryName} (${match.itineraryId}, ${score})`)
+          );
+        }
+        if (message.duplicates.length > 0) {
+          console.log(colors.dim(`      already imported: ${message.duplicates.join(', ')}`));
+        }
+        for (const error of message.errors ?? []) {
+          console.log(colors.red(`      ${error}`));
+        }
+      }
+
+      const { totals } = report;
+      console.log();
+      console.log(colors.heading('Summary'));
+      console.log(`  Imported: ${colors.green(totals.imported.toString())}`);
+      console.log(`  Pending: ${colors.yellow(totals.pending.toString())}`);
+      console.log(`  Duplicates: ${totals.duplicate}`);
+      console.log(`  No bookings: ${totals.no_bookings}`);
+      console.log(`  Failed: ${colors.red(totals.failed.toString())}`);
+      console.log();
+
+      if (report.dryRun) {
+        printWarning('Dry run: nothing was added and the watermark was not saved');
+      } else if (totals.failed > 0) {
+        printWarning('Failed messages will be retried on the next run');
+      } else {
+        printSuccess('Mailbox is up to date');
+      }
+
+      p.outro(`Watermark: ${report.watermark ?? 'none'}`);
+    });
+}
+
+/**
+ * Build the mailbox source from the path or IMAP options
+ * @returns The source, or an error message
+ */
+async function resolveSource(
+  path: string | undefined,
+  options: Record<string, string | boolean | undefined>
+): Promise<MailboxSource | string> {
+  if (typeof options.imapHost === 'string') {
+    const user = options.imapUser;
+    const password = options.imapPassword ?? process.env.IMAP_PASSWORD;
+    if (typeof user !== 'string' || typeof password !== 'string') {
+      return 'IMAP needs --imap-user and --imap-password (or IMAP_PASSWORD)';
+    }
+    return new ImapMailboxSource({
+      host: options.imapHost,
+      user,
+      password,
+      secure: options.tls !== false,
+      allowInsecureLogin: options.allowInsecureLogin === true,
+      ...(typeof options.imapPort === 'string'
+        ? { port: Number.parseInt(options.imapPort, 10) }
+        : {}),
+      ...(typeof options.imapFolder === 'string' ? { folder: options.imapFolder } : {}),
+    });
+  }
+
+  if (!path) {
+    return 'Give an mbox file or Maildir path, or --imap-host';
+  }
+
+  try {
+    const stats = await stat(path);
+    return stats.isDirectory() ? new MaildirMailboxSource(path) : new MboxMailboxSource(path);
+  } catch {
+    return `Mailbox not found: ${path}`;
+  }
+}
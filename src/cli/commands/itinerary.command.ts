@@ -4,10 +4,15 @@
  */
 
 import { Command } from 'commander';
+import { budgetCommand } from './itinerary/budget.js';
+import { cloneCommand } from './itinerary/clone.js';
 import { createCommand } from './itinerary/create.js';
 import { deleteCommand } from './itinerary/delete.js';
 import { editCommand } from './itinerary/edit.js';
+import { historyCommand } from './itinerary/history.js';
 import { listCommand } from './itinerary/list.js';
+import { restoreCommand } from './itinerary/restore.js';
+import { shiftCommand } from './itinerary/shift.js';
 import { showCommand } from './itinerary/show.js';
 import { useCommand } from './itinerary/use.js';
 import { segmentCommand } from './segment.command.js';
@@ -24,7 +29,12 @@ export function itineraryCommand(): Command {
   cmd.addCommand(showCommand());
   cmd.addCommand(useCommand());
   cmd.addCommand(editCommand());
+  cmd.addCommand(cloneCommand());
+  cmd.addCommand(shiftCommand());
   cmd.addCommand(deleteCommand());
+  cmd.addCommand(budgetCommand());
+  cmd.addCommand(historyCommand());
+  cmd.addCommand(restoreCommand());
   cmd.addCommand(segmentCommand());
 
   return cmd;
@@ -0,0 +1,95 @@
+/**
+ * Itinerary budget command
+ * @module cli/commands/itinerary/budget
+ */
+
+import * as p from '@clack/prompts';
+import { Command } from 'commander';
+import { type ItineraryId, createItineraryId } from '../../../domain/types/branded.js';
+import { BudgetService } from '../../../services/budget.service.js';
+import { loadExchangeRateProvider } from '../../../services/exchange-rate.service.js';
+import { WorkingContextService } from '../../../services/working-context.service.js';
+import { ConfigStorage } from '../../../storage/config-storage.js';
+import { JsonItineraryStorage } from '../../../storage/json-storage.js';
+import { printError } from '../../output/colors.js';
+import { formatBudgetAnalysis } from '../../output/formatters.js';
+
+export function budgetCommand(): Command {
+  return new Command('budget')
+    .description('Compare itinerary spend with the trip budget')
+    .argument('[id]', 'Itinerary ID (uses working itinerary if not specified)')
+    .option(
+      '--rates <file>',
+      'JSON exchange rate table (defaults to EXCHANGE_RATES_FILE, then bundled reference rates)'
+    )
+    .option('--json', 'Output as JSON')
+    .action(async (id, options) => {
+      const storage = new JsonItineraryStorage();
+      const configStorage = new ConfigStorage();
+      await configStorage.initialize();
+      const workingService = new WorkingContextService(configStorage, storage);
+
+      let itineraryId: string | undefined;
+
+      if (id) {
+        // Find by partial ID match
+        const listResult = await storage.list();
+        if (listResult.success) {
+          const match = listResult.value.find((s) => s.id.startsWith(id));
+          if (match) {
+            itineraryId = match.id;
+          }
+        }
+        if (!itineraryId) {
+          try {
+            itineraryId = createItineraryId(id);
+          } catch (_error) {
+            printError(`Invalid itinerary ID: ${id}`);
+            process.exit(1);
+          }
+        }
+      } else {
+        // Use working itinerary
+        const workingResult = await workingService.getWorkingItinerary();
+        if (!workingResult.success) {
+          printError(workingResult.error.message);
+          process.exit(1);
+        }
+        if (!workingResult.value) {
+          p.note('No working itinerary set. Provide an ID or use "itinerizer itinerary use <id>"');
+          process.exit(1);
+        }
+        itineraryId = workingResult.value.id;
+      }
+
+      const result = await storage.load(itineraryId as ItineraryId);
+      if (!result.success) {
+        printError(result.error.message);
+        process.exit(1);
+      }
+
+      const ratesResult = await loadExchangeRateProvider(options.rates);
+      if (!ratesResult.success) {
+        printError(ratesResult.error.message);
+        process.exit(1);
+      }
+
+      const budgetService = new BudgetService(ratesResult.value);
+      const analysis = await budgetService.analyze(result.value);
+      if (!analysis.success) {
+        if (analysis.error.code === 'MISSING_FIELD') {
+          p.note('No budget set for this itinerary. Set one through the trip designer.');
+          process.exit(1);
+        }
+        printError(analysis.error.message);
+        process.exit(1);
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(analysis.value, null, 2));
+        return;
+      }
+
+      console.log(formatBudgetAnalysis(analysis.value));
+    });
+}
@@ -0,0 +1,74 @@
+/**
+ * Itinerary clone command
+ * @module cli/commands/itinerary/clone
+ */
+
+import * as p from '@clack/prompts';
+import { Command } from 'commander';
+import { instantiateRequestSchema } from '../../../domain/schemas/template.schema.js';
+import { type ItineraryId, createItineraryId } from '../../../domain/types/branded.js';
+import { ItineraryCollectionService } from '../../../services/itinerary-collection.service.js';
+import { JsonItineraryStorage } from '../../../storage/json-storage.js';
+import { printError, printSuccess } from '../../output/colors.js';
+
+export function cloneCommand(): Command {
+  return new Command('clone')
+    .description('Copy an itinerary onto a new start date, shifting every segment')
+    .argument('<id>', 'Itinerary ID')
+    .requiredOption('--start <date>', 'First day of the new trip (YYYY-MM-DD)')
+    .option('-t, --title <title>', 'Title of the copy (defaults to the original title)')
+    .action(async (id, options) => {
+      const storage = new JsonItineraryStorage();
+      const collectionService = new ItineraryCollectionService(storage);
+
+      // Find by partial match
+      const listResult = await storage.list();
+      let itineraryId: string | undefined;
+
+      if (listResult.success) {
+        const match = listResult.value.find((s) => s.id.startsWith(id));
+        if (match) {
+          itineraryId = match.id;
+        }
+      }
+
+      if (!itineraryId) {
+        try {
+          itineraryId = createItineraryId(id);
+        } catch (_error) {
+          printError(`Invalid itinerary ID: ${id}`);
+          process.exit(1);
+        }
+      }
+
+      const validation = instantiateRequestSchema.safeParse({
+        startDate: options.start,
+        title: options.title,
+      });
+      if (!validation.success) {
+        printError(`Invalid start date: ${options.start}`);
+        process.exit(1);
+      }
+
+      const result = await collectionService.cloneItinerary(
+        itineraryId as ItineraryId,
+        validation.data
+      );
+
+      if (!result.success) {
+        printError(result.error.message);
+        process.exit(1);
+      }
+
+      const copy = result.value;
+      printSuccess(`Cloned as "${copy.title}"`);
+      p.note(
+        [
+          `ID:       ${copy.id}`,
+          `Dates:    ${copy.startDate?.toISOString().slice(0, 10) ?? '-'} to ${copy.endDate?.toISOString().slice(0, 10) ?? '-'}`,
+          `Segments: ${copy.segments.length} (tentative, confirmation numbers cleared)`,
+        ].join('\n'),
+        'New itinerary'
+      );
+    });
+}
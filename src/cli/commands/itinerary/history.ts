@@ -0,0 +1,109 @@
+/**
+ * Itinerary history command
+ * @module cli/commands/itinerary/history
+ */
+
+import * as p from '@clack/prompts';
+import { Command } from 'commander';
+import { type ItineraryId, createItineraryId } from '../../../domain/types/branded.js';
+import { ItineraryHistoryService } from '../../../services/itinerary-history.service.js';
+import { WorkingContextService } from '../../../services/working-context.service.js';
+import { ConfigStorage } from '../../../storage/config-storage.js';
+import { JsonItineraryStorage } from '../../../storage/json-storage.js';
+import { colors, printError } from '../../output/colors.js';
+import { formatItineraryDiff, formatRevision } from '../../output/formatters.js';
+
+export function historyCommand(): Command {
+  return new Command('history')
+    .description('Show saved revisions of an itinerary, or diff two of them')
+    .argument('[id]', 'Itinerary ID (uses working itinerary if not specified)')
+    .option('--diff <from>', 'Show changes since this revision')
+    .option('--to <to>', 'Revision to diff against (defaults to the latest)')
+    .option('--json', 'Output as JSON')
+    .action(async (id, options) => {
+      const storage = new JsonItineraryStorage();
+      const configStorage = new ConfigStorage();
+      await configStorage.initialize();
+      const workingService = new WorkingContextService(configStorage, storage);
+      const historyService = new ItineraryHistoryService(storage);
+
+      let itineraryId: string | undefined;
+
+      if (id) {
+        // Find by partial ID match
+        const listResult = await storage.list();
+        if (listResult.success) {
+          const match = listResult.value.find((s) => s.id.startsWith(id));
+          if (match) {
+            itineraryId = match.id;
+          }
+        }
+        if (!itineraryId) {
+          try {
+            itineraryId = createItineraryId(id);
+          } catch (_error) {
+            printError(`Invalid itinerary ID: ${id}`);
+            process.exit(1);
+          }
+        }
+      } else {
+        // Use working itinerary
+        const workingResult = await workingService.getWorkingItinerary();
+        if (!workingResult.success) {
+          printError(workingResult.error.message);
+          process.exit(1);
+        }
+        if (!workingResult.value) {
+          p.note('No working itinerary set. Provide an ID or use "itinerizer itinerary use <id>"');
+          process.exit(1);
+        }
+        itineraryId = workingResult.value.id;
+      }
+
+      if (options.diff !== undefined) {
+        const from = Number(options.diff);
+        const to = options.to === undefined ? undefined : Number(options.to);
+        if (!Number.isInteger(from) || (to !== undefined && !Number.isInteger(to))) {
+          printError('Revisions must be numbers (see "itinerizer itinerary history")');
+          process.exit(1);
+        }
+
+        const diffResult = await historyService.diff(itineraryId as ItineraryId, from, to);
+        if (!diffResult.success) {
+          printError(diffResult.error.message);
+          process.exit(1);
+        }
+
+        if (options.json) {
+          console.log(JSON.stringify(diffResult.value, null, 2));
+          return;
+        }
+
+        console.log(formatItineraryDiff(diffResult.value));
+        return;
+      }
+
+      const result = await historyService.listRevisions(itineraryId as ItineraryId);
+      if (!result.success) {
+        printError(result.error.message);
+        process.exit(1);
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(result.value, null, 2));
+        return;
+      }
+
+      if (result.value.length === 0) {
+        p.note('No revisions recorded yet. Revisions are recorded on every save.');
+        return;
+      }
+
+      console.log(colors.heading(`History (${result.value.length} revisions)`));
+      console.log('');
+      // Newest first, like a commit log
+      for (const revision of [...result.value].reverse()) {
+        console.log(formatRevision(revision));
+      }
+    });
+}
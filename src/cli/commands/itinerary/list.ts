@@ -5,34 +5,82 @@
 
 import * as p from '@clack/prompts';
 import { Command } from 'commander';
+import { itineraryQueryParamsSchema } from '../../../domain/schemas/itinerary-query.schema.js';
 import { JsonItineraryStorage } from '../../../storage/json-storage.js';
 import { colors, printError } from '../../output/colors.js';
 import { formatItinerarySummary } from '../../output/formatters.js';
 
+/**
+ * Collect a repeatable option into an array
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
 export function listCommand(): Command {
   return new Command('list')
     .alias('ls')
-    .description('List all itineraries')
-    .option('--status <status>', 'Filter by status')
+    .description('List itineraries, optionally filtered, sorted and paginated')
+    .option('--status <status>', 'Filter by status (comma-separated for several)')
+    .option('--from <date>', 'Only trips that end on or after this date')
+    .option('--to <date>', 'Only trips that start on or before this date')
+    .option('--destination <place>', 'Filter by destination name, city, country or IATA code')
+    .option('--traveler <name>', 'Filter by traveler name or email')
+    .option('--tag <tag>', 'Filter by tag (repeat to require several)', collect, [])
+    .option('--trip-type <type>', 'Filter by trip type (LEISURE, BUSINESS, MIXED)')
+    .option('--has-segment <type>', 'Only trips with a segment of this type (e.g. HOTEL)')
+    .option('--segment-status <status>', 'Only trips with a segment in this status')
+    .option('--unconfirmed', 'Only trips with tentative or waitlisted segments')
+    .option('-s, --search <text>', 'Search itinerary titles')
+    .option('--sort <field>', 'Sort by updatedAt, createdAt, startDate or title')
+    .option('--order <order>', 'Sort order (asc or desc)')
+    .option('--limit <n>', 'Maximum number of itineraries to show')
+    .option('--offset <n>', 'Number of itineraries to skip')
     .option('--json', 'Output as JSON')
     .action(async (options) => {
+      const validation = itineraryQueryParamsSchema.safeParse({
+        status: options.status,
+        from: options.from,
+        to: options.to,
+        destination: options.destination,
+        traveler: options.traveler,
+        tag: options.tag.length > 0 ? options.tag : undefined,
+        tripType: options.tripType,
+        segmentType: options.hasSegment,
+        segmentStatus: options.segmentStatus,
+        unconfirmed: options.unconfirmed ? 'true' : undefined,
+        q: options.search,
+        sortBy: options.sort,
+        sortOrder: options.order,
+        limit: options.limit,
+        offset: options.offset,
+      });
+
+      if (!validation.success) {
+        printError(
+          `Invalid filter: ${validation.error.errors
+            .map((e) => `${e.path.join('.')}: ${e.message}`)
+            .join('; ')}`
+        );
+        process.exit(1);
+      }
+
       const storage = new JsonItineraryStorage();
-      const result = await storage.list();
+      const result = await storage.query(validation.data);
 
       if (!result.success) {
         printError(result.error.message);
         process.exit(1);
       }
 
-      let summaries = result.value;
-
-      // Filter by status if provided
-      if (options.status) {
-        summaries = summaries.filter((s) => s.status === options.status.toUpperCase());
-      }
+      const { items: summaries, total } = result.value;
 
       if (summaries.length === 0) {
-        p.note('No itineraries found. Create one with "itinerizer itinerary create"');
+        p.note(
+          total > 0 || Object.keys(validation.data).length > 0
+            ? 'No itineraries match these filters'
+            : 'No itineraries found. Create one with "itinerizer itinerary create"'
+        );
         return;
       }
 
@@ -41,13 +89,21 @@ export function listCommand(): Command {
         return;
       }
 
+      const offset = validation.data.offset ?? 0;
       console.log(colors.heading('\nItineraries\n'));
       for (let i = 0; i < summaries.length; i++) {
         const summary = summaries[i];
         if (summary) {
-          console.log(formatItinerarySummary(summary, i + 1));
+          console.log(formatItinerarySummary(summary, offset + i + 1));
         }
       }
+      if (summaries.length < total) {
+        console.log(
+          colors.dim(
+            `\nShowing ${offset + 1}-${offset + summaries.length} of ${total} (use --offset for more)`
+          )
+        );
+      }
       console.log();
     });
 }
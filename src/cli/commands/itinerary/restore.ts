@@ -0,0 +1,80 @@
+/**
+ * Itinerary restore command
+ * @module cli/commands/itinerary/restore
+ */
+
+import * as p from '@clack/prompts';
+import { Command } from 'commander';
+import { type ItineraryId, createItineraryId } from '../../../domain/types/branded.js';
+import { ItineraryHistoryService } from '../../../services/itinerary-history.service.js';
+import { JsonItineraryStorage } from '../../../storage/json-storage.js';
+import { printError, printSuccess } from '../../output/colors.js';
+import { formatItineraryDiff } from '../../output/formatters.js';
+import { handleCancel } from '../../prompts/index.js';
+
+export function restoreCommand(): Command {
+  return new Command('restore')
+    .description('Restore an itinerary to a previous revision')
+    .argument('<id>', 'Itinerary ID')
+    .argument('<revision>', 'Revision number (see "itinerary history")')
+    .option('-f, --force', 'Skip confirmation', false)
+    .action(async (id, revisionArg, options) => {
+      const storage = new JsonItineraryStorage();
+      const historyService = new ItineraryHistoryService(storage);
+
+      // Find by partial match
+      const listResult = await storage.list();
+      let itineraryId: string | undefined;
+
+      if (listResult.success) {
+        const match = listResult.value.find((s) => s.id.startsWith(id));
+        if (match) {
+          itineraryId = match.id;
+        }
+      }
+
+      if (!itineraryId) {
+        try {
+          itineraryId = createItineraryId(id);
+        } catch (_error) {
+          printError(`Invalid itinerary ID: ${id}`);
+          process.exit(1);
+        }
+      }
+
+      const revision = Number(revisionArg);
+      if (!Number.isInteger(revision)) {
+        printError(`Invalid revision: ${revisionArg}`);
+        process.exit(1);
+      }
+
+      // Show what the restore will undo before confirming
+      const diffResult = await historyService.diff(itineraryId as ItineraryId, revision);
+      if (!diffResult.success) {
+        printError(diffResult.error.message);
+        process.exit(1);
+      }
+
+      if (!options.force) {
+        console.log(formatItineraryDiff(diffResult.value));
+        console.log('');
+        const confirm = await p.confirm({
+          message: `Undo these changes and restore revision #${revision}?`,
+        });
+        handleCancel(confirm);
+        if (!confirm) {
+          p.cancel('Restore cancelled');
+          return;
+        }
+      }
+
+      const result = await historyService.restore(itineraryId as ItineraryId, revision);
+
+      if (!result.success) {
+        printError(result.error.message);
+        process.exit(1);
+      }
+
+      printSuccess(`Restored "${result.value.title}" to revision #${revision}`);
+    });
+}
@@ -0,0 +1,136 @@
+/**
+ * Itinerary shift command
+ * @module cli/commands/itinerary/shift
+ */
+
+import * as p from '@clack/prompts';
+import { Command } from 'commander';
+import { isVersionConflictError } from '../../../core/errors.js';
+import { rescheduleRequestSchema } from '../../../domain/schemas/reschedule.schema.js';
+import { type ItineraryId, createItineraryId } from '../../../domain/types/branded.js';
+import { ItineraryService } from '../../../services/itinerary.service.js';
+import { JsonItineraryStorage } from '../../../storage/json-storage.js';
+import { printError, printInfo, printSuccess, printWarning } from '../../output/colors.js';
+import { formatDateRange, formatSegment } from '../../output/formatters.js';
+
+/**
+ * Parse an optional integer option
+ */
+function parseInteger(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) {
+    printError(`--${name} must be a whole number: ${value}`);
+    process.exit(1);
+  }
+  return parsed;
+}
+
+export function shiftCommand(): Command {
+  return new Command('shift')
+    .description('Move a trip, a day or selected segments in time (keeps local times)')
+    .argument('<id>', 'Itinerary ID')
+    .option('--days <n>', 'Shift by a number of days (negative = earlier)')
+    .option('--hours <n>', 'Shift by a number of hours (negative = earlier)')
+    .option('--to <date>', 'Move so the trip (or selection) starts on this day (YYYY-MM-DD)')
+    .option('--day <date>', 'Only move segments starting on this day (YYYY-MM-DD)')
+    .option('--segments <ids>', 'Only move these segments (comma-separated IDs or ID prefixes)')
+    .option('--no-cascade', 'Do not move segments that depend on the selection')
+    .option('--dry-run', 'Show what would move without saving', false)
+    .action(async (id, options) => {
+      const storage = new JsonItineraryStorage();
+      const itineraryService = new ItineraryService(storage);
+
+      // Find by partial match
+      const listResult = await storage.list();
+      let itineraryId: string | undefined;
+
+      if (listResult.success) {
+        const match = listResult.value.find((s) => s.id.startsWith(id));
+        if (match) {
+          itineraryId = match.id;
+        }
+      }
+
+      if (!itineraryId) {
+        try {
+          itineraryId = createItineraryId(id);
+        } catch (_error) {
+          printError(`Invalid itinerary ID: ${id}`);
+          process.exit(1);
+        }
+      }
+
+      // Resolve segment ID prefixes against the itinerary
+      let segmentIds: string[] | undefined;
+      if (options.segments) {
+        const loadResult = await storage.load(itineraryId as ItineraryId);
+        if (!loadResult.success) {
+          printError(loadResult.error.message);
+          process.exit(1);
+        }
+        segmentIds = (options.segments as string)
+          .split(',')
+          .map((prefix) => prefix.trim())
+          .filter(Boolean)
+          .map(
+            (prefix) => loadResult.value.segments.find((s) => s.id.startsWith(prefix))?.id ?? prefix
+          );
+      }
+
+      const validation = rescheduleRequestSchema.safeParse({
+        days: parseInteger(options.days, 'days'),
+        hours: parseInteger(options.hours, 'hours'),
+        toStartDate: options.to,
+        day: options.day,
+        segmentIds,
+        cascade: options.cascade,
+        dryRun: options.dryRun,
+      });
+      if (!validation.success) {
+        printError(validation.error.errors.map((e) => e.message).join('; '));
+        process.exit(1);
+      }
+
+      const result = await itineraryService.reschedule(itineraryId as ItineraryId, validation.data);
+
+      if (!result.success) {
+        if (isVersionConflictError(result.error)) {
+          printError('Itinerary was modified by someone else. Please try again.');
+        } else {
+          printError(result.error.message);
+        }
+        process.exit(1);
+      }
+
+      const { itinerary, moved, needsRebooking, dryRun } = result.value;
+      if (moved.length === 0) {
+        printInfo('Nothing to move');
+        return;
+      }
+
+      if (dryRun) {
+        printInfo(`Dry run: ${moved.length} segment(s) would move`);
+      } else {
+        printSuccess(`Moved ${moved.length} segment(s)`);
+      }
+
+      const movedSegments = itinerary.segments.filter((segment) =>
+        moved.some((m) => m.segmentId === segment.id)
+      );
+      console.log(movedSegments.map((segment, i) => formatSegment(segment, i + 1)).join('\n'));
+
+      if (itinerary.startDate && itinerary.endDate) {
+        p.note(formatDateRange(itinerary.startDate, itinerary.endDate), 'Trip dates');
+      }
+
+      if (needsRebooking.length > 0) {
+        printWarning(`${needsRebooking.length} confirmed booking(s) need to be changed:`);
+        for (const segment of needsRebooking) {
+          console.log(
+            `  ${segment.type} ${segment.confirmationNumber ?? segment.segmentId.slice(0, 8)}`
+          );
+        }
+      }
+    });
+}
@@ -26,7 +26,7 @@ export function addCommand(): Command {
     .description('Add a segment to the working itinerary')
     .option(
       '-t, --type <type>',
-      'Segment type (FLIGHT, HOTEL, MEETING, ACTIVITY, TRANSFER, CUSTOM)'
+      'Segment type (FLIGHT, HOTEL, MEETING, ACTIVITY, TRANSFER, RAIL, CAR_RENTAL, CUSTOM)'
     )
     .action(async (options) => {
       p.intro(colors.heading('Add Segment'));
@@ -192,6 +192,55 @@ export function addCommand(): Command {
           break;
         }
 
+        case 'RAIL': {
+          const operator = await promptText('Rail operator (e.g., Eurostar):');
+          const trainNumber = await promptText('Train number (e.g., 9014):');
+          const originName = await promptText('Departure station:');
+          const departurePlatform = await promptOptionalText('Departure platform:');
+          const destName = await promptText('Arrival station:');
+          const arrivalPlatform = await promptOptionalText('Arrival platform:');
+          const fareClass = await promptOptionalText('Fare class (e.g., First, Standard):');
+          const coach = await promptOptionalText('Coach:');
+          const seat = await promptOptionalText('Seat:');
+          const primaryTravelerId = itinerary.primaryTravelerId ?? travelerIds[0];
+
+          typeSpecificData = {
+            operator: { name: operator },
+            trainNumber,
+            origin: { name: originName },
+            destination: { name: destName },
+            ...(departurePlatform ? { departurePlatform } : {}),
+            ...(arrivalPlatform ? { arrivalPlatform } : {}),
+            ...(fareClass ? { fareClass } : {}),
+            ...(coach ? { coach } : {}),
+            ...(seat && primaryTravelerId
+              ? { seatAssignments: { [primaryTravelerId]: seat } }
+              : {}),
+          };
+          break;
+        }
+
+        case 'CAR_RENTAL': {
+          const company = await promptText('Rental company (e.g., Hertz):');
+          const pickupName = await promptText('Pickup office:');
+          const returnName = await promptOptionalText('Return office (blank = same as pickup):');
+          const carClass = await promptOptionalText('Car class (e.g., Compact, SUV):');
+          const primaryDriver = await promptOptionalText('Primary driver:');
+          const includedMileage = await promptOptionalText('Included mileage (e.g., Unlimited):');
+          const confirmationNumber = await promptOptionalText('Confirmation number:');
+
+          typeSpecificData = {
+            rentalCompany: { name: company },
+            pickupLocation: { name: pickupName },
+            returnLocation: { name: returnName || pickupName },
+            ...(carClass ? { carClass } : {}),
+            ...(primaryDriver ? { primaryDriver } : {}),
+            ...(includedMileage ? { includedMileage } : {}),
+            ...(confirmationNumber ? { confirmationNumber } : {}),
+          };
+          break;
+        }
+
         case 'CUSTOM': {
           const title = await promptText('Title:');
           const description = await promptOptionalText('Description:');
@@ -5,6 +5,7 @@
 
 import * as p from '@clack/prompts';
 import { Command } from 'commander';
+import { isVersionConflictError } from '../../../core/errors.js';
 import { type SegmentId, createSegmentId } from '../../../domain/types/branded.js';
 import {
   isActivitySegment,
@@ -200,14 +201,24 @@ export function moveCommand(): Command {
       const updatedItinerary = {
         ...itinerary,
         segments: adjustResult.value,
+        version: itinerary.version + 1,
         updatedAt: new Date(),
       };
 
-      const saveResult = await storage.save(updatedItinerary);
+      // Fail rather than overwrite changes saved elsewhere while the prompt was open
+      const saveResult = await storage.save(
+        updatedItinerary,
+        { author: 'user', cause: 'Segments moved' },
+        itinerary.version
+      );
 
       if (!saveResult.success) {
         spinner.stop('Failed to save changes');
-        printError(saveResult.error.message);
+        printError(
+          isVersionConflictError(saveResult.error)
+            ? 'The itinerary was changed while you were editing it. Run the command again.'
+            : saveResult.error.message
+        );
         process.exit(1);
       }
 
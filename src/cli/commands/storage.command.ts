@@ -0,0 +1,19 @@
+/**
+ * Storage command router
+ * @module cli/commands/storage
+ */
+
+import { Command } from 'commander';
+import { migrateCommand } from './storage/migrate.js';
+
+/**
+ * Create the storage command with all subcommands
+ * @returns Configured storage command
+ */
+export function storageCommand(): Command {
+  const cmd = new Command('storage').description('Manage itinerary storage backends');
+
+  cmd.addCommand(migrateCommand());
+
+  return cmd;
+}
@@ -0,0 +1,106 @@
+/**
+ * Copy itineraries between storage backends
+ * @module cli/commands/storage/migrate
+ */
+
+import * as p from '@clack/prompts';
+import { Command } from 'commander';
+import { StorageMigrationService } from '../../../services/storage-migration.service.js';
+import {
+  ITINERARY_STORAGE_BACKENDS,
+  type ItineraryStorageBackend,
+  createStorageBackend,
+} from '../../../storage/index.js';
+import { colors, printError, printSuccess, printWarning } from '../../output/colors.js';
+
+/**
+ * Check that a CLI value names a storage backend
+ */
+function isStorageBackend(value: string): value is ItineraryStorageBackend {
+  return (ITINERARY_STORAGE_BACKENDS as readonly string[]).includes(value);
+}
+
+export function migrateCommand(): Command {
+  return new Command('migrate')
+    .description('Copy all itineraries and their revision history to another storage backend')
+    .requiredOption('--from <backend>', `Source backend (${ITINERARY_STORAGE_BACKENDS.join(', ')})`)
+    .requiredOption('--to <backend>', `Target backend (${ITINERARY_STORAGE_BACKENDS.join(', ')})`)
+    .option('--json-path <dir>', 'Directory of the JSON backend', './data/itineraries')
+    .option('--sqlite-path <file>', 'Database file of the SQLite backend', './data/itineraries.db')
+    .option('--overwrite', 'Replace itineraries that already exist in the target')
+    .option('--dry-run', 'Show what would be copied without writing anything')
+    .action(async (options) => {
+      const { from, to } = options as { from: string; to: string };
+
+      if (!isStorageBackend(from) || !isStorageBackend(to)) {
+        const unknown = isStorageBackend(from) ? to : from;
+        printError(
+          `Unknown storage backend: ${unknown} (expected ${ITINERARY_STORAGE_BACKENDS.join(', ')})`
+        );
+        process.exit(1);
+      }
+      if (from === to) {
+        printError('Source and target backends must be different');
+        process.exit(1);
+      }
+
+      const locations = { jsonPath: options.jsonPath, sqlitePath: options.sqlitePath };
+      let migration: StorageMigrationService;
+      try {
+        migration = new StorageMigrationService(
+          createStorageBackend(from, locations),
+          createStorageBackend(to, locations)
+        );
+      } catch (error) {
+        printError(error instanceof Error ? error.message : String(error));
+        process.exit(1);
+      }
+
+      p.intro(colors.heading(`Migrate itineraries: ${from} → ${to}`));
+      const spinner = p.spinner();
+      spinner.start('Reading itineraries...');
+
+      const result = await migration.migrate({
+        overwrite: Boolean(options.overwrite),
+        dryRun: Boolean(options.dryRun),
+        onProgress: ({ processed, total, title }) => {
+          spinner.message(`[${processed}/${total}] ${title}`);
+        },
+      });
+
+      if (!result.success) {
+        spinner.stop('Migration failed');
+        printError(result.error.message);
+        process.exit(1);
+      }
+
+      const report = result.value;
+      spinner.stop(report.dryRun ? 'Dry run complete' : 'Migration complete');
+
+      for (const failure of report.failed) {
+        printWarning(`${failure.itineraryId}: ${failure.error}`);
+      }
+      for (const missing of report.missingRevisions) {
+        printWarning(
+          `${missing.itineraryId}: skipped revision ${missing.revision} (${missing.error})`
+        );
+      }
+
+      const verb = report.dryRun ? 'Would copy' : 'Copied';
+      printSuccess(
+        `${verb} ${report.copied.length} of ${report.total} itineraries (${report.revisions} revisions)`
+      );
+      if (report.skipped.length > 0) {
+        console.log(
+          colors.dim(
+            `Skipped ${report.skipped.length} already in ${to} (use --overwrite to replace them)`
+          )
+        );
+      }
+
+      p.outro(report.failed.length > 0 ? `${report.failed.length} failed` : 'Done');
+      if (report.failed.length > 0) {
+        process.exit(1);
+      }
+    });
+}
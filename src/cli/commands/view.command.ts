@@ -8,9 +8,19 @@ import { Command } from 'commander';
 import { mkdir, writeFile } from 'node:fs/promises';
 import { dirname, resolve } from 'node:path';
 import { JsonItineraryStorage } from '../../storage/json-storage.js';
+import { TravelDocumentService } from '../../services/travel-document.service.js';
 import { ViewerService } from '../../services/viewer.service.js';
+import { CalendarViewer } from '../../services/viewers/calendar.viewer.js';
 import { HierarchicalViewer } from '../../services/viewers/hierarchical.viewer.js';
-import type { ViewerConfig, ViewerType, ViewerOutputFormat } from '../../domain/types/viewer.js';
+import { MapViewer } from '../../services/viewers/map.viewer.js';
+import { PrintViewer } from '../../services/viewers/print.viewer.js';
+import { TimelineViewer } from '../../services/viewers/timeline.viewer.js';
+import type {
+  CalendarGridMode,
+  ViewerConfig,
+  ViewerType,
+  ViewerOutputFormat,
+} from '../../domain/types/viewer.js';
 import { colors, printError, printSuccess, printInfo } from '../output/colors.js';
 
 /**
@@ -20,13 +30,19 @@ export function viewCommand(): Command {
   return new Command('view')
     .description('View itinerary in various formats')
     .argument('[id]', 'Itinerary ID (uses working itinerary if not provided)')
-    .option('-t, --type <type>', 'Viewer type (hierarchical, calendar, map, timeline)', 'hierarchical')
-    .option('-f, --format <format>', 'Output format (html, json, markdown)', 'html')
+    .option('-t, --type <type>', 'Viewer type (hierarchical, calendar, map, timeline, print)', 'hierarchical')
+    .option('-f, --format <format>', 'Output format (html, json, markdown, pdf)', 'html')
     .option('-o, --output <path>', 'Output file path (displays in terminal if not provided)')
     .option('--theme <theme>', 'Theme (light, dark)', 'light')
     .option('--no-collapsible', 'Disable collapsible sections')
     .option('--no-inline-styles', 'Separate CSS from HTML')
-    .option('--open', 'Open HTML in browser after generating')
+    .option('--calendar-mode <mode>', 'Calendar grid for the calendar viewer (month, week)', 'month')
+    .option('--brand <name>', 'Brand name on the PDF travel document')
+    .option('--accent-color <hex>', 'Accent color for the PDF travel document (e.g., #0f766e)')
+    .option('--logo <path>', 'PNG or JPEG logo for the PDF travel document cover')
+    .option('--lookup-url <template>', 'URL encoded in PDF QR codes ({confirmation}, {segmentId})')
+    .option('--font <path>', 'TrueType font for the PDF (needed for non-Latin text)')
+    .option('--open', 'Open HTML or PDF after generating')
     .action(async (id, options) => {
       p.intro(colors.heading('View Itinerary'));
 
@@ -76,11 +92,44 @@ export function viewCommand(): Command {
       const itinerary = loadResult.value;
       printInfo(`Loaded: ${itinerary.title}`);
 
+      // PDF is a standalone travel document rather than a viewer plugin format
+      if (options.format === 'pdf') {
+        const spinner = p.spinner();
+        spinner.start('Generating travel document...');
+
+        try {
+          const pdf = await new TravelDocumentService().generate(itinerary, {
+            ...(options.brand ? { brandName: options.brand } : {}),
+            ...(options.accentColor ? { accentColor: options.accentColor } : {}),
+            ...(options.logo ? { logo: resolve(options.logo) } : {}),
+            ...(options.lookupUrl ? { lookupUrlTemplate: options.lookupUrl } : {}),
+            ...(options.font ? { fontPath: resolve(options.font) } : {}),
+          });
+          spinner.stop('Generated successfully');
+
+          const outputPath = resolve(options.output ?? `/tmp/itinerary-${itineraryId}.pdf`);
+          await mkdir(dirname(outputPath), { recursive: true });
+          await writeFile(outputPath, pdf);
+          printSuccess(`PDF saved to: ${outputPath}`);
+
+          if (options.open) {
+            const open = await import('open').then((m) => m.default).catch(() => null);
+            if (open) {
+              await open(outputPath);
+            }
+          }
+
+          p.outro('View complete');
+          return;
+        } catch (error) {
+          spinner.stop('Generation failed');
+          printError(error instanceof Error ? error.message : String(error));
+          process.exit(1);
+        }
+      }
+
       // Initialize viewer service with plugins
-      const viewerService = new ViewerService();
-      viewerService.registerPlugin(new HierarchicalViewer());
-      // Future: viewerService.registerPlugin(new CalendarViewer());
-      // Future: viewerService.registerPlugin(new MapViewer());
+      const viewerService = createViewerService();
 
       // Check if viewer type is available
       const viewerType = options.type as ViewerType;
@@ -91,6 +140,12 @@ export function viewCommand(): Command {
         process.exit(1);
       }
 
+      const calendarMode = options.calendarMode as CalendarGridMode;
+      if (calendarMode !== 'month' && calendarMode !== 'week') {
+        printError(`Calendar mode '${options.calendarMode}' not supported. Use month or week.`);
+        process.exit(1);
+      }
+
       // Build config
       const config: ViewerConfig = {
         type: viewerType,
@@ -100,6 +155,7 @@ export function viewCommand(): Command {
         inlineStyles: options.inlineStyles !== false,
         showDetails: true,
         groupByDay: true,
+        calendarMode,
       };
 
       // Render
@@ -172,8 +228,7 @@ export function viewersCommand(): Command {
   return new Command('viewers')
     .description('List available viewer types')
     .action(() => {
-      const viewerService = new ViewerService();
-      viewerService.registerPlugin(new HierarchicalViewer());
+      const viewerService = createViewerService();
 
       console.log(colors.heading('Available Viewers'));
       console.log();
@@ -204,8 +259,7 @@ export function viewAllCommand(): Command {
       await storage.initialize();
 
       // Initialize viewer service
-      const viewerService = new ViewerService();
-      viewerService.registerPlugin(new HierarchicalViewer());
+      const viewerService = createViewerService();
 
       // List all itineraries
       const listResult = await storage.list();
@@ -287,6 +341,19 @@ export function viewAllCommand(): Command {
     });
 }
 
+/**
+ * Create a viewer service with all built-in viewer plugins registered
+ */
+function createViewerService(): ViewerService {
+  const viewerService = new ViewerService();
+  viewerService.registerPlugin(new HierarchicalViewer());
+  viewerService.registerPlugin(new CalendarViewer());
+  viewerService.registerPlugin(new TimelineViewer());
+  viewerService.registerPlugin(new MapViewer());
+  viewerService.registerPlugin(new PrintViewer());
+  return viewerService;
+}
+
 /**
  * Generate HTML for the gallery page with two-pane layout
  */
@@ -40,6 +40,8 @@ export const colors = {
     MEETING: pc.yellow,
     ACTIVITY: pc.green,
     TRANSFER: pc.cyan,
+    RAIL: pc.red,
+    CAR_RENTAL: pc.white,
     CUSTOM: pc.dim,
   },
 } as const;
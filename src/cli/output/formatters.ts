@@ -4,16 +4,21 @@
  */
 
 import type { Itinerary } from '../../domain/types/itinerary.js';
+import { type Money, toMajorUnits } from '../../domain/types/money.js';
 import type { Segment } from '../../domain/types/segment.js';
 import {
   isActivitySegment,
+  isCarRentalSegment,
   isCustomSegment,
   isFlightSegment,
   isHotelSegment,
   isMeetingSegment,
+  isRailSegment,
   isTransferSegment,
 } from '../../domain/types/segment.js';
-import type { ItinerarySummary } from '../../storage/storage.interface.js';
+import type { BudgetAnalysis, BudgetLine, BudgetStatus } from '../../services/budget.service.js';
+import type { ItineraryDiff } from '../../services/itinerary-history.service.js';
+import type { ItineraryRevision, ItinerarySummary } from '../../storage/storage.interface.js';
 import { colors } from './colors.js';
 
 /**
@@ -104,53 +109,85 @@ export function formatItinerarySummary(summary: ItinerarySummary, index: number)
 }
 
 /**
- * Format a segment for display
- * @param segment - Segment to format
- * @param index - Segment index (1-based)
- * @returns Formatted segment string
+ * Get the one-line, type-specific details of a segment
+ * @param segment - Segment to describe
+ * @returns Details string (empty for segments without details)
  */
-export function formatSegment(segment: Segment, index: number): string {
-  const typeColor =
-    colors.segmentType[segment.type as keyof typeof colors.segmentType] || colors.dim;
-  const header = `${colors.dim(`${index}.`)} ${typeColor(segment.type)}`;
-
-  const startTime = formatDateTime(segment.startDatetime);
-  const endTime = formatDateTime(segment.endDatetime);
-
-  let details = '';
-
+function getSegmentDetails(segment: Segment): string {
   if (isFlightSegment(segment)) {
-    details = [
+    return [
       `${segment.airline.code} ${segment.flightNumber}`,
       `${segment.origin.code} → ${segment.destination.code}`,
       segment.cabinClass || '',
     ]
       .filter(Boolean)
       .join(' | ');
-  } else if (isHotelSegment(segment)) {
-    details = [
+  }
+  if (isHotelSegment(segment)) {
+    return [
       segment.property.name,
       segment.location.name,
       `${segment.roomCount} room${segment.roomCount !== 1 ? 's' : ''}`,
     ]
       .filter(Boolean)
       .join(' | ');
-  } else if (isMeetingSegment(segment)) {
-    details = [segment.title, segment.location.name, `${segment.attendees.length} attendees`]
+  }
+  if (isMeetingSegment(segment)) {
+    return [segment.title, segment.location.name, `${segment.attendees.length} attendees`]
       .filter(Boolean)
       .join(' | ');
-  } else if (isActivitySegment(segment)) {
-    details = [segment.name, segment.location.name, segment.category].filter(Boolean).join(' | ');
-  } else if (isTransferSegment(segment)) {
-    details = [
+  }
+  if (isActivitySegment(segment)) {
+    return [segment.name, segment.location.name, segment.category].filter(Boolean).join(' | ');
+  }
+  if (isTransferSegment(segment)) {
+    return [
       segment.transferType,
       `${segment.pickupLocation.name} → ${segment.dropoffLocation.name}`,
     ]
       .filter(Boolean)
       .join(' | ');
-  } else if (isCustomSegment(segment)) {
-    details = [segment.title, segment.description].filter(Boolean).join(' | ');
   }
+  if (isRailSegment(segment)) {
+    return [
+      `${segment.operator.name} ${segment.trainNumber}`,
+      `${segment.origin.name} → ${segment.destination.name}`,
+      segment.fareClass || '',
+      segment.coach ? `Coach ${segment.coach}` : '',
+    ]
+      .filter(Boolean)
+      .join(' | ');
+  }
+  if (isCarRentalSegment(segment)) {
+    return [
+      segment.rentalCompany.name,
+      `${segment.pickupLocation.name} → ${segment.returnLocation.name}`,
+      segment.carClass || '',
+    ]
+      .filter(Boolean)
+      .join(' | ');
+  }
+  if (isCustomSegment(segment)) {
+    return [segment.title, segment.description].filter(Boolean).join(' | ');
+  }
+  return '';
+}
+
+/**
+ * Format a segment for display
+ * @param segment - Segment to format
+ * @param index - Segment index (1-based)
+ * @returns Formatted segment string
+ */
+export function formatSegment(segment: Segment, index: number): string {
+  const typeColor =
+    colors.segmentType[segment.type as keyof typeof colors.segmentType] || colors.dim;
+  const header = `${colors.dim(`${index}.`)} ${typeColor(segment.type)}`;
+
+  const startTime = formatDateTime(segment.startDatetime);
+  const endTime = formatDateTime(segment.endDatetime);
+
+  const details = getSegmentDetails(segment);
 
   const lines = [header];
   if (details) {
@@ -227,3 +264,188 @@ export function formatItinerary(itinerary: Itinerary): string {
 
   return lines.join('\n');
 }
+
+/**
+ * Color for a budget status
+ */
+const budgetStatusColor: Record<BudgetStatus, (s: string) => string> = {
+  under: colors.success,
+  near: colors.warning,
+  over: colors.error,
+};
+
+/**
+ * Format a budget line as "projected / budget (percent)"
+ * @param line - Budget line to format
+ * @returns Formatted budget line
+ */
+function formatBudgetLine(line: BudgetLine): string {
+  const usage = budgetStatusColor[line.status](`${line.percentUsed}%`);
+  return `${formatMoneyValue(line.projected)} / ${formatMoneyValue(line.budget)} (${usage})`;
+}
+
+/**
+ * Format a Money value stored in minor units
+ * @param money - Money to format
+ * @returns Formatted money string
+ */
+function formatMoneyValue(money: Money): string {
+  return formatMoney(toMajorUnits(money), money.currency);
+}
+
+/**
+ * Format a budget analysis for display
+ * @param analysis - Budget analysis to format
+ * @returns Formatted budget report
+ */
+export function formatBudgetAnalysis(analysis: BudgetAnalysis): string {
+  const lines: string[] = [];
+  const periodLabel = {
+    per_day: 'per day',
+    per_person: 'per person',
+    total: 'total',
+  }[analysis.period];
+
+  lines.push(colors.heading('Budget'));
+  const tripSize = colors.dim(`(${analysis.days} days, ${analysis.travelers} travelers)`);
+  lines.push(`Stated: ${formatMoneyValue(analysis.stated)} ${periodLabel} ${tripSize}`);
+  lines.push(`Trip total: ${formatBudgetLine(analysis.total)}`);
+  if (analysis.period !== 'total') {
+    lines.push(`Average ${periodLabel}: ${formatBudgetLine(analysis.perPeriod)}`);
+  }
+  lines.push(colors.dim(`Confirmed: ${formatMoneyValue(analysis.total.spent)}`));
+  lines.push('');
+
+  if (analysis.byCategory.length > 0) {
+    lines.push(colors.bold('By category:'));
+    for (const line of analysis.byCategory) {
+      const typeColor = colors.segmentType[line.category] || colors.dim;
+      lines.push(`  ${typeColor(line.category.padEnd(10))} ${formatBudgetLine(line)}`);
+    }
+    lines.push('');
+  }
+
+  if (analysis.overruns.length > 0) {
+    lines.push(colors.bold('Overruns:'));
+    for (const overrun of analysis.overruns) {
+      lines.push(`  ${colors.error('•')} ${overrun.message}`);
+    }
+  } else {
+    lines.push(colors.success('Within budget'));
+  }
+
+  if (analysis.unpricedSegmentIds.length > 0) {
+    lines.push('');
+    lines.push(
+      colors.dim(`${analysis.unpricedSegmentIds.length} segment(s) without prices not counted`)
+    );
+  }
+
+  if (analysis.ratesAsOf) {
+    lines.push(colors.dim(`Exchange rates as of ${analysis.ratesAsOf}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a revision log entry for the history list
+ * @param revision - Revision entry
+ * @returns Formatted revision string
+ */
+export function formatRevision(revision: ItineraryRevision): string {
+  const author = revision.actor ? `${revision.author} (${revision.actor})` : revision.author;
+  const segments = `${revision.segmentCount} segment${revision.segmentCount !== 1 ? 's' : ''}`;
+
+  const lines = [
+    `${colors.id(`#${revision.revision}`)} ${colors.date(formatDateTime(revision.savedAt))} ${colors.dim(`v${revision.version}`)} ${author}`,
+    `   ${revision.cause ?? 'Saved'} | ${segments}`,
+  ];
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a value from a field change
+ * @param value - Field value
+ * @returns Short display string
+ */
+function formatChangeValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return colors.dim('(none)');
+  }
+  if (value instanceof Date) {
+    return formatDateTime(value);
+  }
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+/**
+ * Format a one-line segment label for diffs
+ * @param segment - Segment to label
+ * @returns Segment type with its details
+ */
+function formatSegmentLabel(segment: Segment): string {
+  const typeColor =
+    colors.segmentType[segment.type as keyof typeof colors.segmentType] || colors.dim;
+  const details = getSegmentDetails(segment) || segment.id.slice(0, 8);
+  return `${typeColor(segment.type)} ${details}`;
+}
+
+/**
+ * Format a structural diff between two itinerary revisions
+ * @param diff - Itinerary diff
+ * @returns Formatted diff report
+ */
+export function formatItineraryDiff(diff: ItineraryDiff): string {
+  const lines: string[] = [];
+
+  lines.push(colors.heading(`Changes from #${diff.fromRevision} to #${diff.toRevision}`));
+
+  const { added, removed, changed, reordered } = diff.segments;
+  if (
+    diff.fields.length === 0 &&
+    added.length === 0 &&
+    removed.length === 0 &&
+    changed.length === 0 &&
+    !reordered
+  ) {
+    lines.push(colors.dim('No changes'));
+    return lines.join('\n');
+  }
+
+  if (diff.fields.length > 0) {
+    lines.push('');
+    lines.push(colors.bold('Itinerary:'));
+    for (const change of diff.fields) {
+      lines.push(
+        `  ${colors.warning('~')} ${change.path}: ${formatChangeValue(change.before)} → ${formatChangeValue(change.after)}`
+      );
+    }
+  }
+
+  if (added.length > 0 || removed.length > 0 || changed.length > 0 || reordered) {
+    lines.push('');
+    lines.push(colors.bold('Segments:'));
+    for (const segment of added) {
+      lines.push(`  ${colors.success('+')} ${formatSegmentLabel(segment)}`);
+    }
+    for (const segment of removed) {
+      lines.push(`  ${colors.error('-')} ${formatSegmentLabel(segment)}`);
+    }
+    for (const segmentChange of changed) {
+      lines.push(`  ${colors.warning('~')} ${formatSegmentLabel(segmentChange.after)}`);
+      for (const change of segmentChange.changes) {
+        lines.push(
+          `      ${change.path}: ${formatChangeValue(change.before)} → ${formatChangeValue(change.after)}`
+        );
+      }
+    }
+    if (reordered) {
+      lines.push(colors.dim('  Segment order changed'));
+    }
+  }
+
+  return lines.join('\n');
+}
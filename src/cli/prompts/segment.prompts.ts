@@ -22,6 +22,8 @@ export async function promptSegmentType(): Promise<SegmentType> {
       { value: 'MEETING', label: 'Meeting' },
       { value: 'ACTIVITY', label: 'Activity' },
       { value: 'TRANSFER', label: 'Transfer' },
+      { value: 'RAIL', label: 'Train' },
+      { value: 'CAR_RENTAL', label: 'Car Rental' },
       { value: 'CUSTOM', label: 'Custom' },
     ],
   });
@@ -22,7 +22,20 @@ export type StorageError = DomainError & {
     | 'READ_ERROR'
     | 'VALIDATION_ERROR'
     | 'CONNECTION_ERROR'
-    | 'INITIALIZATION_ERROR';
+    | 'INITIALIZATION_ERROR'
+    | 'VERSION_CONFLICT';
+};
+
+/**
+ * Optimistic locking failure: the itinerary was saved by someone else
+ * since the caller loaded it
+ */
+export type VersionConflictError = StorageError & {
+  code: 'VERSION_CONFLICT';
+  /** Version the caller based its changes on */
+  expectedVersion: number;
+  /** Version currently stored */
+  currentVersion: number;
 };
 
 /**
@@ -41,6 +54,42 @@ export type DependencyError = DomainError & {
   affectedSegments?: string[];
 };
 
+/**
+ * Money and currency conversion errors
+ */
+export type MoneyError = DomainError & {
+  code: 'INVALID_CURRENCY' | 'RATE_UNAVAILABLE' | 'RATE_SOURCE_ERROR';
+};
+
+/**
+ * Access errors: the user lacks the role an operation requires
+ */
+export type AccessError = DomainError & {
+  code: 'FORBIDDEN';
+};
+
+/**
+ * Travel search errors
+ * - NOT_CONFIGURED: the selected provider is missing credentials or fixtures
+ * - INVALID_SEARCH: the search cannot be run (e.g., unknown airport)
+ * - PROVIDER_ERROR: the provider failed or returned an error
+ */
+export type TravelSearchError = DomainError & {
+  code: 'NOT_CONFIGURED' | 'INVALID_SEARCH' | 'PROVIDER_ERROR';
+};
+
+/**
+ * Mailbox errors
+ * - NOT_FOUND: the mbox file or Maildir directory does not exist
+ * - READ_ERROR: the mailbox could not be read
+ * - CONNECTION_ERROR: the IMAP server could not be reached or dropped the connection
+ * - AUTH_ERROR: the IMAP server rejected the credentials
+ * - PROTOCOL_ERROR: the IMAP server rejected a command or sent an unexpected response
+ */
+export type MailboxError = DomainError & {
+  code: 'NOT_FOUND' | 'READ_ERROR' | 'CONNECTION_ERROR' | 'AUTH_ERROR' | 'PROTOCOL_ERROR';
+};
+
 /**
  * Creates a storage error
  * @param code - The error code
@@ -60,6 +109,35 @@ export function createStorageError(
   };
 }
 
+/**
+ * Creates a version conflict error
+ * @param id - ID of the itinerary that was being saved
+ * @param expectedVersion - Version the caller based its changes on
+ * @param currentVersion - Version currently stored
+ * @returns A VersionConflictError instance
+ */
+export function createVersionConflictError(
+  id: string,
+  expectedVersion: number,
+  currentVersion: number
+): VersionConflictError {
+  return {
+    code: 'VERSION_CONFLICT',
+    message: `Itinerary ${id} was modified concurrently (expected version ${expectedVersion}, current version ${currentVersion})`,
+    expectedVersion,
+    currentVersion,
+  };
+}
+
+/**
+ * Check whether an error is a version conflict
+ * @param error - Error to check
+ * @returns True if the error is a VersionConflictError
+ */
+export function isVersionConflictError(error: DomainError): error is VersionConflictError {
+  return error.code === 'VERSION_CONFLICT';
+}
+
 /**
  * Creates a validation error
  * @param code - The error code
@@ -100,3 +178,83 @@ export function createDependencyError(
     ...(affectedSegments && { affectedSegments }),
   };
 }
+
+/**
+ * Creates a money error
+ * @param code - The error code
+ * @param message - Human-readable error message
+ * @param details - Optional additional error details
+ * @returns A MoneyError instance
+ */
+export function createMoneyError(
+  code: MoneyError['code'],
+  message: string,
+  details?: Record<string, unknown>
+): MoneyError {
+  return {
+    code,
+    message,
+    ...(details && { details }),
+  };
+}
+
+/**
+ * Creates a travel search error
+ * @param code - The error code
+ * @param message - Human-readable error message
+ * @param details - Optional additional error details
+ * @returns A TravelSearchError instance
+ */
+export function createTravelSearchError(
+  code: TravelSearchError['code'],
+  message: string,
+  details?: Record<string, unknown>
+): TravelSearchError {
+  return {
+    code,
+    message,
+    ...(details && { details }),
+  };
+}
+
+/**
+ * Creates a mailbox error
+ * @param code - The error code
+ * @param message - Human-readable error message
+ * @param details - Optional additional error details
+ * @returns A MailboxError instance
+ */
+export function createMailboxError(
+  code: MailboxError['code'],
+  message: string,
+  details?: Record<string, unknown>
+): MailboxError {
+  return {
+    code,
+    message,
+    ...(details && { details }),
+  };
+}
+
+/**
+ * Creates an access error
+ * @param message - Human-readable error message
+ * @param details - Optional additional error details
+ * @returns An AccessError instance
+ */
+export function createAccessError(message: string, details?: Record<string, unknown>): AccessError {
+  return {
+    code: 'FORBIDDEN',
+    message,
+    ...(details && { details }),
+  };
+}
+
+/**
+ * Check whether an error is an access error
+ * @param error - Error to check
+ * @returns True if the error is an AccessError
+ */
+export function isAccessError(error: DomainError): error is AccessError {
+  return error.code === 'FORBIDDEN';
+}
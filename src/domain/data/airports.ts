@@ -0,0 +1,188 @@
+/**
+ * Bundled airport reference data
+ * @module domain/data/airports
+ *
+ * Offline dataset of major passenger airports. Kept dependency-free so it can
+ * be shared with the web viewer.
+ */
+
+import type { Airport } from '../types/reference.js';
+
+/**
+ * [IATA, ICAO, name, city, country, latitude, longitude, IANA timezone]
+ */
+type AirportRow = [string, string, string, string, string, number, number, string];
+
+// biome-ignore format: keep one airport per row
+const AIRPORT_ROWS: AirportRow[] = [
+  // United States
+  ['ATL', 'KATL', 'Hartsfield-Jackson Atlanta International Airport', 'Atlanta', 'US', 33.6407, -84.4277, 'America/New_York'],
+  ['BOS', 'KBOS', 'Logan International Airport', 'Boston', 'US', 42.3656, -71.0096, 'America/New_York'],
+  ['BWI', 'KBWI', 'Baltimore/Washington International Airport', 'Baltimore', 'US', 39.1754, -76.6684, 'America/New_York'],
+  ['CLT', 'KCLT', 'Charlotte Douglas International Airport', 'Charlotte', 'US', 35.214, -80.9431, 'America/New_York'],
+  ['DCA', 'KDCA', 'Ronald Reagan Washington National Airport', 'Washington', 'US', 38.8512, -77.0402, 'America/New_York'],
+  ['DTW', 'KDTW', 'Detroit Metropolitan Wayne County Airport', 'Detroit', 'US', 42.2162, -83.3554, 'America/Detroit'],
+  ['EWR', 'KEWR', 'Newark Liberty International Airport', 'Newark', 'US', 40.6895, -74.1745, 'America/New_York'],
+  ['FLL', 'KFLL', 'Fort Lauderdale-Hollywood International Airport', 'Fort Lauderdale', 'US', 26.0742, -80.1506, 'America/New_York'],
+  ['IAD', 'KIAD', 'Washington Dulles International Airport', 'Washington', 'US', 38.9531, -77.4565, 'America/New_York'],
+  ['JFK', 'KJFK', 'John F. Kennedy International Airport', 'New York', 'US', 40.6413, -73.7781, 'America/New_York'],
+  ['LGA', 'KLGA', 'LaGuardia Airport', 'New York', 'US', 40.7769, -73.874, 'America/New_York'],
+  ['MCO', 'KMCO', 'Orlando International Airport', 'Orlando', 'US', 28.4312, -81.3081, 'America/New_York'],
+  ['MIA', 'KMIA', 'Miami International Airport', 'Miami', 'US', 25.7959, -80.287, 'America/New_York'],
+  ['PHL', 'KPHL', 'Philadelphia International Airport', 'Philadelphia', 'US', 39.8744, -75.2424, 'America/New_York'],
+  ['TPA', 'KTPA', 'Tampa International Airport', 'Tampa', 'US', 27.9755, -82.5332, 'America/New_York'],
+  ['AUS', 'KAUS', 'Austin-Bergstrom International Airport', 'Austin', 'US', 30.1975, -97.6664, 'America/Chicago'],
+  ['DFW', 'KDFW', 'Dallas/Fort Worth International Airport', 'Dallas', 'US', 32.8998, -97.0403, 'America/Chicago'],
+  ['IAH', 'KIAH', 'George Bush Intercontinental Airport', 'Houston', 'US', 29.9902, -95.3368, 'America/Chicago'],
+  ['MDW', 'KMDW', 'Chicago Midway International Airport', 'Chicago', 'US', 41.7868, -87.7522, 'America/Chicago'],
+  ['MSP', 'KMSP', 'Minneapolis-Saint Paul International Airport', 'Minneapolis', 'US', 44.8848, -93.2223, 'America/Chicago'],
+  ['MSY', 'KMSY', 'Louis Armstrong New Orleans International Airport', 'New Orleans', 'US', 29.9934, -90.258, 'America/Chicago'],
+  ['ORD', 'KORD', "O'Hare International Airport", 'Chicago', 'US', 41.9742, -87.9073, 'America/Chicago'],
+  ['DEN', 'KDEN', 'Denver International Airport', 'Denver', 'US', 39.8561, -104.6737, 'America/Denver'],
+  ['SLC', 'KSLC', 'Salt Lake City International Airport', 'Salt Lake City', 'US', 40.7899, -111.9791, 'America/Denver'],
+  ['PHX', 'KPHX', 'Phoenix Sky Harbor International Airport', 'Phoenix', 'US', 33.4352, -112.0101, 'America/Phoenix'],
+  ['LAS', 'KLAS', 'Harry Reid International Airport', 'Las Vegas', 'US', 36.084, -115.1537, 'America/Los_Angeles'],
+  ['LAX', 'KLAX', 'Los Angeles International Airport', 'Los Angeles', 'US', 33.9416, -118.4085, 'America/Los_Angeles'],
+  ['PDX', 'KPDX', 'Portland International Airport', 'Portland', 'US', 45.5898, -122.5951, 'America/Los_Angeles'],
+  ['SAN', 'KSAN', 'San Diego International Airport', 'San Diego', 'US', 32.7338, -117.1933, 'America/Los_Angeles'],
+  ['SEA', 'KSEA', 'Seattle-Tacoma International Airport', 'Seattle', 'US', 47.4502, -122.3088, 'America/Los_Angeles'],
+  ['SFO', 'KSFO', 'San Francisco International Airport', 'San Francisco', 'US', 37.6213, -122.379, 'America/Los_Angeles'],
+  ['SJC', 'KSJC', 'San Jose Mineta International Airport', 'San Jose', 'US', 37.3639, -121.9289, 'America/Los_Angeles'],
+  ['ANC', 'PANC', 'Ted Stevens Anchorage International Airport', 'Anchorage', 'US', 61.1743, -149.9982, 'America/Anchorage'],
+  ['HNL', 'PHNL', 'Daniel K. Inouye International Airport', 'Honolulu', 'US', 21.3187, -157.9225, 'Pacific/Honolulu'],
+  ['OGG', 'PHOG', 'Kahului Airport', 'Kahului', 'US', 20.8986, -156.4305, 'Pacific/Honolulu'],
+  ['KOA', 'PHKO', 'Ellison Onizuka Kona International Airport', 'Kailua-Kona', 'US', 19.7388, -156.0456, 'Pacific/Honolulu'],
+  ['ITO', 'PHTO', 'Hilo International Airport', 'Hilo', 'US', 19.7214, -155.0485, 'Pacific/Honolulu'],
+  ['LIH', 'PHLI', 'Lihue Airport', 'Lihue', 'US', 21.976, -159.339, 'Pacific/Honolulu'],
+  // Canada, Mexico & Caribbean
+  ['YUL', 'CYUL', 'Montreal-Trudeau International Airport', 'Montreal', 'CA', 45.4706, -73.7408, 'America/Toronto'],
+  ['YYZ', 'CYYZ', 'Toronto Pearson International Airport', 'Toronto', 'CA', 43.6777, -79.6248, 'America/Toronto'],
+  ['YVR', 'CYVR', 'Vancouver International Airport', 'Vancouver', 'CA', 49.1967, -123.1815, 'America/Vancouver'],
+  ['YYC', 'CYYC', 'Calgary International Airport', 'Calgary', 'CA', 51.1215, -114.0076, 'America/Edmonton'],
+  ['MEX', 'MMMX', 'Mexico City International Airport', 'Mexico City', 'MX', 19.4361, -99.0719, 'America/Mexico_City'],
+  ['CUN', 'MMUN', 'Cancun International Airport', 'Cancun', 'MX', 21.0365, -86.8771, 'America/Cancun'],
+  ['HAV', 'MUHA', 'Jose Marti International Airport', 'Havana', 'CU', 22.9892, -82.4091, 'America/Havana'],
+  ['SJU', 'TJSJ', 'Luis Munoz Marin International Airport', 'San Juan', 'PR', 18.4394, -66.0018, 'America/Puerto_Rico'],
+  // Central & South America
+  ['BOG', 'SKBO', 'El Dorado International Airport', 'Bogota', 'CO', 4.7016, -74.1469, 'America/Bogota'],
+  ['EZE', 'SAEZ', 'Ministro Pistarini International Airport', 'Buenos Aires', 'AR', -34.8222, -58.5358, 'America/Argentina/Buenos_Aires'],
+  ['GIG', 'SBGL', 'Rio de Janeiro/Galeao International Airport', 'Rio de Janeiro', 'BR', -22.809, -43.2506, 'America/Sao_Paulo'],
+  ['GRU', 'SBGR', 'Sao Paulo/Guarulhos International Airport', 'Sao Paulo', 'BR', -23.4356, -46.4731, 'America/Sao_Paulo'],
+  ['LIM', 'SPJC', 'Jorge Chavez International Airport', 'Lima', 'PE', -12.0219, -77.1143, 'America/Lima'],
+  ['PTY', 'MPTO', 'Tocumen International Airport', 'Panama City', 'PA', 9.0714, -79.3835, 'America/Panama'],
+  ['SCL', 'SCEL', 'Arturo Merino Benitez International Airport', 'Santiago', 'CL', -33.393, -70.7858, 'America/Santiago'],
+  // United Kingdom & Ireland
+  ['LHR', 'EGLL', 'London Heathrow Airport', 'London', 'GB', 51.47, -0.4543, 'Europe/London'],
+  ['LGW', 'EGKK', 'London Gatwick Airport', 'London', 'GB', 51.1537, -0.1821, 'Europe/London'],
+  ['STN', 'EGSS', 'London Stansted Airport', 'London', 'GB', 51.886, 0.2389, 'Europe/London'],
+  ['LTN', 'EGGW', 'London Luton Airport', 'London', 'GB', 51.8747, -0.3683, 'Europe/London'],
+  ['LCY', 'EGLC', 'London City Airport', 'London', 'GB', 51.5048, 0.0495, 'Europe/London'],
+  ['MAN', 'EGCC', 'Manchester Airport', 'Manchester', 'GB', 53.3537, -2.275, 'Europe/London'],
+  ['EDI', 'EGPH', 'Edinburgh Airport', 'Edinburgh', 'GB', 55.9508, -3.3615, 'Europe/London'],
+  ['DUB', 'EIDW', 'Dublin Airport', 'Dublin', 'IE', 53.4264, -6.2499, 'Europe/Dublin'],
+  // Western Europe
+  ['CDG', 'LFPG', 'Paris Charles de Gaulle Airport', 'Paris', 'FR', 49.0097, 2.5479, 'Europe/Paris'],
+  ['ORY', 'LFPO', 'Paris Orly Airport', 'Paris', 'FR', 48.7262, 2.3652, 'Europe/Paris'],
+  ['NCE', 'LFMN', "Nice Cote d'Azur Airport", 'Nice', 'FR', 43.6584, 7.2159, 'Europe/Paris'],
+  ['AMS', 'EHAM', 'Amsterdam Airport Schiphol', 'Amsterdam', 'NL', 52.3105, 4.7683, 'Europe/Amsterdam'],
+  ['BRU', 'EBBR', 'Brussels Airport', 'Brussels', 'BE', 50.901, 4.4856, 'Europe/Brussels'],
+  ['FRA', 'EDDF', 'Frankfurt Airport', 'Frankfurt', 'DE', 50.0379, 8.5622, 'Europe/Berlin'],
+  ['MUC', 'EDDM', 'Munich Airport', 'Munich', 'DE', 48.3538, 11.7861, 'Europe/Berlin'],
+  ['BER', 'EDDB', 'Berlin Brandenburg Airport', 'Berlin', 'DE', 52.3667, 13.5033, 'Europe/Berlin'],
+  ['HAM', 'EDDH', 'Hamburg Airport', 'Hamburg', 'DE', 53.6304, 9.9882, 'Europe/Berlin'],
+  ['DUS', 'EDDL', 'Dusseldorf Airport', 'Dusseldorf', 'DE', 51.2895, 6.7668, 'Europe/Berlin'],
+  ['ZRH', 'LSZH', 'Zurich Airport', 'Zurich', 'CH', 47.4582, 8.5555, 'Europe/Zurich'],
+  ['GVA', 'LSGG', 'Geneva Airport', 'Geneva', 'CH', 46.2381, 6.109, 'Europe/Zurich'],
+  ['VIE', 'LOWW', 'Vienna International Airport', 'Vienna', 'AT', 48.1103, 16.5697, 'Europe/Vienna'],
+  // Southern Europe
+  ['FCO', 'LIRF', 'Leonardo da Vinci-Fiumicino Airport', 'Rome', 'IT', 41.8003, 12.2389, 'Europe/Rome'],
+  ['CIA', 'LIRA', 'Rome Ciampino Airport', 'Rome', 'IT', 41.7994, 12.5949, 'Europe/Rome'],
+  ['MXP', 'LIMC', 'Milan Malpensa Airport', 'Milan', 'IT', 45.6306, 8.7281, 'Europe/Rome'],
+  ['LIN', 'LIML', 'Milan Linate Airport', 'Milan', 'IT', 45.4451, 9.2767, 'Europe/Rome'],
+  ['VCE', 'LIPZ', 'Venice Marco Polo Airport', 'Venice', 'IT', 45.5053, 12.3519, 'Europe/Rome'],
+  ['FLR', 'LIRQ', 'Florence Airport', 'Florence', 'IT', 43.81, 11.2051, 'Europe/Rome'],
+  ['NAP', 'LIRN', 'Naples International Airport', 'Naples', 'IT', 40.886, 14.2908, 'Europe/Rome'],
+  ['MAD', 'LEMD', 'Adolfo Suarez Madrid-Barajas Airport', 'Madrid', 'ES', 40.4983, -3.5676, 'Europe/Madrid'],
+  ['BCN', 'LEBL', 'Josep Tarradellas Barcelona-El Prat Airport', 'Barcelona', 'ES', 41.2974, 2.0833, 'Europe/Madrid'],
+  ['PMI', 'LEPA', 'Palma de Mallorca Airport', 'Palma', 'ES', 39.5517, 2.7388, 'Europe/Madrid'],
+  ['AGP', 'LEMG', 'Malaga Airport', 'Malaga', 'ES', 36.6749, -4.4991, 'Europe/Madrid'],
+  ['LIS', 'LPPT', 'Humberto Delgado Airport', 'Lisbon', 'PT', 38.7742, -9.1342, 'Europe/Lisbon'],
+  ['OPO', 'LPPR', 'Francisco Sa Carneiro Airport', 'Porto', 'PT', 41.2481, -8.6814, 'Europe/Lisbon'],
+  ['ATH', 'LGAV', 'Athens International Airport', 'Athens', 'GR', 37.9364, 23.9445, 'Europe/Athens'],
+  ['IST', 'LTFM', 'Istanbul Airport', 'Istanbul', 'TR', 41.2753, 28.7519, 'Europe/Istanbul'],
+  // Central & Eastern Europe
+  ['PRG', 'LKPR', 'Vaclav Havel Airport Prague', 'Prague', 'CZ', 50.1008, 14.26, 'Europe/Prague'],
+  ['BUD', 'LHBP', 'Budapest Ferenc Liszt International Airport', 'Budapest', 'HU', 47.433, 19.2611, 'Europe/Budapest'],
+  ['WAW', 'EPWA', 'Warsaw Chopin Airport', 'Warsaw', 'PL', 52.1657, 20.9671, 'Europe/Warsaw'],
+  ['KRK', 'EPKK', 'Krakow John Paul II International Airport', 'Krakow', 'PL', 50.0777, 19.7848, 'Europe/Warsaw'],
+  ['ZAG', 'LDZA', 'Zagreb Franjo Tudman Airport', 'Zagreb', 'HR', 45.7429, 16.0688, 'Europe/Zagreb'],
+  ['DBV', 'LDDU', 'Dubrovnik Airport', 'Dubrovnik', 'HR', 42.5614, 18.2682, 'Europe/Zagreb'],
+  ['SPU', 'LDSP', 'Split Airport', 'Split', 'HR', 43.5389, 16.298, 'Europe/Zagreb'],
+  ['PUY', 'LDPL', 'Pula Airport', 'Pula', 'HR', 44.8935, 13.9222, 'Europe/Zagreb'],
+  ['ZAD', 'LDZD', 'Zadar Airport', 'Zadar', 'HR', 44.1083, 15.3467, 'Europe/Zagreb'],
+  ['RJK', 'LDRI', 'Rijeka Airport', 'Rijeka', 'HR', 45.2169, 14.5703, 'Europe/Zagreb'],
+  ['LJU', 'LJLJ', 'Ljubljana Joze Pucnik Airport', 'Ljubljana', 'SI', 46.2237, 14.4576, 'Europe/Ljubljana'],
+  ['SVO', 'UUEE', 'Sheremetyevo International Airport', 'Moscow', 'RU', 55.9726, 37.4146, 'Europe/Moscow'],
+  // Nordic
+  ['CPH', 'EKCH', 'Copenhagen Airport', 'Copenhagen', 'DK', 55.618, 12.6508, 'Europe/Copenhagen'],
+  ['ARN', 'ESSA', 'Stockholm Arlanda Airport', 'Stockholm', 'SE', 59.6498, 17.9238, 'Europe/Stockholm'],
+  ['OSL', 'ENGM', 'Oslo Gardermoen Airport', 'Oslo', 'NO', 60.1976, 11.1004, 'Europe/Oslo'],
+  ['HEL', 'EFHK', 'Helsinki Airport', 'Helsinki', 'FI', 60.3172, 24.9633, 'Europe/Helsinki'],
+  ['KEF', 'BIKF', 'Keflavik International Airport', 'Reykjavik', 'IS', 63.985, -22.6056, 'Atlantic/Reykjavik'],
+  // Middle East & Africa
+  ['DXB', 'OMDB', 'Dubai International Airport', 'Dubai', 'AE', 25.2532, 55.3657, 'Asia/Dubai'],
+  ['AUH', 'OMAA', 'Zayed International Airport', 'Abu Dhabi', 'AE', 24.433, 54.6511, 'Asia/Dubai'],
+  ['DOH', 'OTHH', 'Hamad International Airport', 'Doha', 'QA', 25.2731, 51.6081, 'Asia/Qatar'],
+  ['TLV', 'LLBG', 'Ben Gurion Airport', 'Tel Aviv', 'IL', 32.0055, 34.8854, 'Asia/Jerusalem'],
+  ['CAI', 'HECA', 'Cairo International Airport', 'Cairo', 'EG', 30.1219, 31.4056, 'Africa/Cairo'],
+  ['RAK', 'GMMX', 'Marrakesh Menara Airport', 'Marrakesh', 'MA', 31.6069, -8.0363, 'Africa/Casablanca'],
+  ['CMN', 'GMMN', 'Mohammed V International Airport', 'Casablanca', 'MA', 33.3675, -7.59, 'Africa/Casablanca'],
+  ['NBO', 'HKJK', 'Jomo Kenyatta International Airport', 'Nairobi', 'KE', -1.3192, 36.9278, 'Africa/Nairobi'],
+  ['JNB', 'FAOR', 'O. R. Tambo International Airport', 'Johannesburg', 'ZA', -26.1392, 28.246, 'Africa/Johannesburg'],
+  ['CPT', 'FACT', 'Cape Town International Airport', 'Cape Town', 'ZA', -33.9715, 18.6021, 'Africa/Johannesburg'],
+  // Asia
+  ['HND', 'RJTT', 'Tokyo Haneda Airport', 'Tokyo', 'JP', 35.5494, 139.7798, 'Asia/Tokyo'],
+  ['NRT', 'RJAA', 'Narita International Airport', 'Tokyo', 'JP', 35.772, 140.3929, 'Asia/Tokyo'],
+  ['KIX', 'RJBB', 'Kansai International Airport', 'Osaka', 'JP', 34.432, 135.2304, 'Asia/Tokyo'],
+  ['ITM', 'RJOO', 'Osaka International Airport', 'Osaka', 'JP', 34.7855, 135.4382, 'Asia/Tokyo'],
+  ['CTS', 'RJCC', 'New Chitose Airport', 'Sapporo', 'JP', 42.7752, 141.6923, 'Asia/Tokyo'],
+  ['ICN', 'RKSI', 'Incheon International Airport', 'Seoul', 'KR', 37.4602, 126.4407, 'Asia/Seoul'],
+  ['PEK', 'ZBAA', 'Beijing Capital International Airport', 'Beijing', 'CN', 40.0799, 116.6031, 'Asia/Shanghai'],
+  ['PKX', 'ZBAD', 'Beijing Daxing International Airport', 'Beijing', 'CN', 39.5098, 116.4105, 'Asia/Shanghai'],
+  ['PVG', 'ZSPD', 'Shanghai Pudong International Airport', 'Shanghai', 'CN', 31.1443, 121.8083, 'Asia/Shanghai'],
+  ['HKG', 'VHHH', 'Hong Kong International Airport', 'Hong Kong', 'HK', 22.308, 113.9185, 'Asia/Hong_Kong'],
+  ['TPE', 'RCTP', 'Taiwan Taoyuan International Airport', 'Taipei', 'TW', 25.0797, 121.2342, 'Asia/Taipei'],
+  ['MNL', 'RPLL', 'Ninoy Aquino International Airport', 'Manila', 'PH', 14.5086, 121.0194, 'Asia/Manila'],
+  ['SIN', 'WSSS', 'Singapore Changi Airport', 'Singapore', 'SG', 1.3644, 103.9915, 'Asia/Singapore'],
+  ['KUL', 'WMKK', 'Kuala Lumpur International Airport', 'Kuala Lumpur', 'MY', 2.7456, 101.7072, 'Asia/Kuala_Lumpur'],
+  ['CGK', 'WIII', 'Soekarno-Hatta International Airport', 'Jakarta', 'ID', -6.1256, 106.6559, 'Asia/Jakarta'],
+  ['DPS', 'WADD', 'Ngurah Rai International Airport', 'Denpasar', 'ID', -8.7482, 115.1675, 'Asia/Makassar'],
+  ['BKK', 'VTBS', 'Suvarnabhumi Airport', 'Bangkok', 'TH', 13.69, 100.7501, 'Asia/Bangkok'],
+  ['HKT', 'VTSP', 'Phuket International Airport', 'Phuket', 'TH', 8.1132, 98.3169, 'Asia/Bangkok'],
+  ['SGN', 'VVTS', 'Tan Son Nhat International Airport', 'Ho Chi Minh City', 'VN', 10.8188, 106.6519, 'Asia/Ho_Chi_Minh'],
+  ['HAN', 'VVNB', 'Noi Bai International Airport', 'Hanoi', 'VN', 21.2212, 105.8072, 'Asia/Ho_Chi_Minh'],
+  ['DEL', 'VIDP', 'Indira Gandhi International Airport', 'Delhi', 'IN', 28.5562, 77.1, 'Asia/Kolkata'],
+  ['BOM', 'VABB', 'Chhatrapati Shivaji Maharaj International Airport', 'Mumbai', 'IN', 19.0896, 72.8656, 'Asia/Kolkata'],
+  // Oceania
+  ['SYD', 'YSSY', 'Sydney Kingsford Smith Airport', 'Sydney', 'AU', -33.9399, 151.1753, 'Australia/Sydney'],
+  ['MEL', 'YMML', 'Melbourne Airport', 'Melbourne', 'AU', -37.669, 144.841, 'Australia/Melbourne'],
+  ['BNE', 'YBBN', 'Brisbane Airport', 'Brisbane', 'AU', -27.3842, 153.1175, 'Australia/Brisbane'],
+  ['PER', 'YPPH', 'Perth Airport', 'Perth', 'AU', -31.9385, 115.9672, 'Australia/Perth'],
+  ['AKL', 'NZAA', 'Auckland Airport', 'Auckland', 'NZ', -37.0082, 174.785, 'Pacific/Auckland'],
+  ['ZQN', 'NZQN', 'Queenstown Airport', 'Queenstown', 'NZ', -45.0211, 168.7392, 'Pacific/Auckland'],
+];
+
+/**
+ * Known airports, one entry per IATA code
+ */
+export const AIRPORTS: readonly Airport[] = AIRPORT_ROWS.map(
+  ([iata, icao, name, city, country, latitude, longitude, timezone]) => ({
+    iata,
+    icao,
+    name,
+    city,
+    country,
+    coordinates: { latitude, longitude },
+    timezone,
+  })
+);
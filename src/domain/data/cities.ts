@@ -0,0 +1,164 @@
+/**
+ * Bundled city reference data
+ * @module domain/data/cities
+ *
+ * Offline dataset of common travel destinations, linked to the airports that
+ * serve them. Kept dependency-free so it can be shared with the web viewer.
+ */
+
+import type { City } from '../types/reference.js';
+
+/**
+ * [name, country, latitude, longitude, IANA timezone, airports, metro code, aliases]
+ */
+type CityRow = [string, string, number, number, string, string[], (string | undefined)?, string[]?];
+
+// biome-ignore format: keep one city per row
+const CITY_ROWS: CityRow[] = [
+  // United States
+  ['New York', 'US', 40.7128, -74.006, 'America/New_York', ['JFK', 'LGA', 'EWR'], 'NYC', ['New York City', 'Manhattan']],
+  ['Washington', 'US', 38.9072, -77.0369, 'America/New_York', ['DCA', 'IAD', 'BWI'], 'WAS', ['Washington DC', 'Washington D.C.']],
+  ['Boston', 'US', 42.3601, -71.0589, 'America/New_York', ['BOS']],
+  ['Philadelphia', 'US', 39.9526, -75.1652, 'America/New_York', ['PHL']],
+  ['Atlanta', 'US', 33.749, -84.388, 'America/New_York', ['ATL']],
+  ['Miami', 'US', 25.7617, -80.1918, 'America/New_York', ['MIA', 'FLL']],
+  ['Orlando', 'US', 28.5383, -81.3792, 'America/New_York', ['MCO']],
+  ['Chicago', 'US', 41.8781, -87.6298, 'America/Chicago', ['ORD', 'MDW'], 'CHI'],
+  ['Dallas', 'US', 32.7767, -96.797, 'America/Chicago', ['DFW']],
+  ['Houston', 'US', 29.7604, -95.3698, 'America/Chicago', ['IAH'], 'HOU'],
+  ['New Orleans', 'US', 29.9511, -90.0715, 'America/Chicago', ['MSY']],
+  ['Denver', 'US', 39.7392, -104.9903, 'America/Denver', ['DEN']],
+  ['Las Vegas', 'US', 36.1699, -115.1398, 'America/Los_Angeles', ['LAS']],
+  ['Los Angeles', 'US', 34.0522, -118.2437, 'America/Los_Angeles', ['LAX'], undefined, ['LA']],
+  ['San Francisco', 'US', 37.7749, -122.4194, 'America/Los_Angeles', ['SFO', 'SJC'], undefined, ['SF']],
+  ['San Diego', 'US', 32.7157, -117.1611, 'America/Los_Angeles', ['SAN']],
+  ['Seattle', 'US', 47.6062, -122.3321, 'America/Los_Angeles', ['SEA']],
+  ['Portland', 'US', 45.5152, -122.6784, 'America/Los_Angeles', ['PDX']],
+  ['Honolulu', 'US', 21.3069, -157.8583, 'Pacific/Honolulu', ['HNL']],
+  ['Maui', 'US', 20.7984, -156.3319, 'Pacific/Honolulu', ['OGG']],
+  ['Kona', 'US', 19.64, -155.9969, 'Pacific/Honolulu', ['KOA'], undefined, ['Kailua-Kona']],
+  ['Hilo', 'US', 19.7074, -155.0847, 'Pacific/Honolulu', ['ITO']],
+  ['Kauai', 'US', 22.0964, -159.5261, 'Pacific/Honolulu', ['LIH']],
+  // Canada, Mexico & Caribbean
+  ['Toronto', 'CA', 43.6532, -79.3832, 'America/Toronto', ['YYZ'], 'YTO'],
+  ['Montreal', 'CA', 45.5017, -73.5673, 'America/Toronto', ['YUL'], 'YMQ', ['Montréal']],
+  ['Vancouver', 'CA', 49.2827, -123.1207, 'America/Vancouver', ['YVR']],
+  ['Mexico City', 'MX', 19.4326, -99.1332, 'America/Mexico_City', ['MEX'], undefined, ['Ciudad de México', 'CDMX']],
+  ['Cancun', 'MX', 21.1619, -86.8515, 'America/Cancun', ['CUN'], undefined, ['Cancún']],
+  ['Havana', 'CU', 23.1136, -82.3666, 'America/Havana', ['HAV'], undefined, ['La Habana']],
+  ['San Juan', 'PR', 18.4655, -66.1057, 'America/Puerto_Rico', ['SJU']],
+  // Central & South America
+  ['Bogota', 'CO', 4.711, -74.0721, 'America/Bogota', ['BOG'], undefined, ['Bogotá']],
+  ['Lima', 'PE', -12.0464, -77.0428, 'America/Lima', ['LIM']],
+  ['Santiago', 'CL', -33.4489, -70.6693, 'America/Santiago', ['SCL']],
+  ['Buenos Aires', 'AR', -34.6037, -58.3816, 'America/Argentina/Buenos_Aires', ['EZE'], 'BUE'],
+  ['Rio de Janeiro', 'BR', -22.9068, -43.1729, 'America/Sao_Paulo', ['GIG'], 'RIO', ['Rio']],
+  ['Sao Paulo', 'BR', -23.5505, -46.6333, 'America/Sao_Paulo', ['GRU'], 'SAO', ['São Paulo']],
+  // United Kingdom & Ireland
+  ['London', 'GB', 51.5074, -0.1278, 'Europe/London', ['LHR', 'LGW', 'STN', 'LTN', 'LCY'], 'LON'],
+  ['Manchester', 'GB', 53.4808, -2.2426, 'Europe/London', ['MAN']],
+  ['Edinburgh', 'GB', 55.9533, -3.1883, 'Europe/London', ['EDI']],
+  ['Dublin', 'IE', 53.3498, -6.2603, 'Europe/Dublin', ['DUB']],
+  // Western Europe
+  ['Paris', 'FR', 48.8566, 2.3522, 'Europe/Paris', ['CDG', 'ORY'], 'PAR'],
+  ['Nice', 'FR', 43.7102, 7.262, 'Europe/Paris', ['NCE']],
+  ['Amsterdam', 'NL', 52.3676, 4.9041, 'Europe/Amsterdam', ['AMS']],
+  ['Brussels', 'BE', 50.8503, 4.3517, 'Europe/Brussels', ['BRU'], undefined, ['Bruxelles']],
+  ['Berlin', 'DE', 52.52, 13.405, 'Europe/Berlin', ['BER']],
+  ['Frankfurt', 'DE', 50.1109, 8.6821, 'Europe/Berlin', ['FRA']],
+  ['Munich', 'DE', 48.1351, 11.582, 'Europe/Berlin', ['MUC'], undefined, ['München']],
+  ['Hamburg', 'DE', 53.5511, 9.9937, 'Europe/Berlin', ['HAM']],
+  ['Zurich', 'CH', 47.3769, 8.5417, 'Europe/Zurich', ['ZRH'], undefined, ['Zürich']],
+  ['Geneva', 'CH', 46.2044, 6.1432, 'Europe/Zurich', ['GVA'], undefined, ['Genève']],
+  ['Vienna', 'AT', 48.2082, 16.3738, 'Europe/Vienna', ['VIE'], undefined, ['Wien']],
+  // Southern Europe
+  ['Rome', 'IT', 41.9028, 12.4964, 'Europe/Rome', ['FCO', 'CIA'], 'ROM', ['Roma']],
+  ['Milan', 'IT', 45.4642, 9.19, 'Europe/Rome', ['MXP', 'LIN'], 'MIL', ['Milano']],
+  ['Venice', 'IT', 45.4408, 12.3155, 'Europe/Rome', ['VCE'], undefined, ['Venezia']],
+  ['Florence', 'IT', 43.7696, 11.2558, 'Europe/Rome', ['FLR'], undefined, ['Firenze']],
+  ['Naples', 'IT', 40.8518, 14.2681, 'Europe/Rome', ['NAP'], undefined, ['Napoli']],
+  ['Madrid', 'ES', 40.4168, -3.7038, 'Europe/Madrid', ['MAD']],
+  ['Barcelona', 'ES', 41.3874, 2.1686, 'Europe/Madrid', ['BCN']],
+  ['Lisbon', 'PT', 38.7223, -9.1393, 'Europe/Lisbon', ['LIS'], undefined, ['Lisboa']],
+  ['Porto', 'PT', 41.1579, -8.6291, 'Europe/Lisbon', ['OPO']],
+  ['Athens', 'GR', 37.9838, 23.7275, 'Europe/Athens', ['ATH']],
+  ['Istanbul', 'TR', 41.0082, 28.9784, 'Europe/Istanbul', ['IST']],
+  // Central & Eastern Europe
+  ['Prague', 'CZ', 50.0755, 14.4378, 'Europe/Prague', ['PRG'], undefined, ['Praha']],
+  ['Budapest', 'HU', 47.4979, 19.0402, 'Europe/Budapest', ['BUD']],
+  ['Warsaw', 'PL', 52.2297, 21.0122, 'Europe/Warsaw', ['WAW'], undefined, ['Warszawa']],
+  ['Krakow', 'PL', 50.0647, 19.945, 'Europe/Warsaw', ['KRK'], undefined, ['Kraków']],
+  ['Zagreb', 'HR', 45.815, 15.9819, 'Europe/Zagreb', ['ZAG']],
+  ['Dubrovnik', 'HR', 42.6507, 18.0944, 'Europe/Zagreb', ['DBV']],
+  ['Split', 'HR', 43.5081, 16.4402, 'Europe/Zagreb', ['SPU']],
+  ['Pula', 'HR', 44.8666, 13.8496, 'Europe/Zagreb', ['PUY']],
+  ['Zadar', 'HR', 44.1194, 15.2314, 'Europe/Zagreb', ['ZAD']],
+  ['Rijeka', 'HR', 45.3271, 14.4422, 'Europe/Zagreb', ['RJK']],
+  ['Ljubljana', 'SI', 46.0569, 14.5058, 'Europe/Ljubljana', ['LJU']],
+  ['Bled', 'SI', 46.3683, 14.1146, 'Europe/Ljubljana', ['LJU']],
+  ['Moscow', 'RU', 55.7558, 37.6173, 'Europe/Moscow', ['SVO'], 'MOW'],
+  // Nordic
+  ['Copenhagen', 'DK', 55.6761, 12.5683, 'Europe/Copenhagen', ['CPH'], undefined, ['København']],
+  ['Stockholm', 'SE', 59.3293, 18.0686, 'Europe/Stockholm', ['ARN'], 'STO'],
+  ['Oslo', 'NO', 59.9139, 10.7522, 'Europe/Oslo', ['OSL']],
+  ['Helsinki', 'FI', 60.1699, 24.9384, 'Europe/Helsinki', ['HEL']],
+  ['Reykjavik', 'IS', 64.1466, -21.9426, 'Atlantic/Reykjavik', ['KEF'], 'REK', ['Reykjavík']],
+  // Middle East & Africa
+  ['Dubai', 'AE', 25.2048, 55.2708, 'Asia/Dubai', ['DXB']],
+  ['Abu Dhabi', 'AE', 24.4539, 54.3773, 'Asia/Dubai', ['AUH']],
+  ['Doha', 'QA', 25.2854, 51.531, 'Asia/Qatar', ['DOH']],
+  ['Tel Aviv', 'IL', 32.0853, 34.7818, 'Asia/Jerusalem', ['TLV']],
+  ['Cairo', 'EG', 30.0444, 31.2357, 'Africa/Cairo', ['CAI']],
+  ['Marrakech', 'MA', 31.6295, -7.9811, 'Africa/Casablanca', ['RAK'], undefined, ['Marrakesh']],
+  ['Casablanca', 'MA', 33.5731, -7.5898, 'Africa/Casablanca', ['CMN']],
+  ['Nairobi', 'KE', -1.2921, 36.8219, 'Africa/Nairobi', ['NBO']],
+  ['Johannesburg', 'ZA', -26.2041, 28.0473, 'Africa/Johannesburg', ['JNB']],
+  ['Cape Town', 'ZA', -33.9249, 18.4241, 'Africa/Johannesburg', ['CPT']],
+  // Asia
+  ['Tokyo', 'JP', 35.6762, 139.6503, 'Asia/Tokyo', ['HND', 'NRT'], 'TYO'],
+  ['Yokohama', 'JP', 35.4437, 139.638, 'Asia/Tokyo', ['HND']],
+  ['Osaka', 'JP', 34.6937, 135.5023, 'Asia/Tokyo', ['KIX', 'ITM'], 'OSA'],
+  ['Kyoto', 'JP', 35.0116, 135.7681, 'Asia/Tokyo', ['KIX', 'ITM']],
+  ['Sapporo', 'JP', 43.0618, 141.3545, 'Asia/Tokyo', ['CTS'], 'SPK'],
+  ['Seoul', 'KR', 37.5665, 126.978, 'Asia/Seoul', ['ICN'], 'SEL'],
+  ['Beijing', 'CN', 39.9042, 116.4074, 'Asia/Shanghai', ['PEK', 'PKX'], 'BJS'],
+  ['Shanghai', 'CN', 31.2304, 121.4737, 'Asia/Shanghai', ['PVG'], 'SHA'],
+  ['Hong Kong', 'HK', 22.3193, 114.1694, 'Asia/Hong_Kong', ['HKG']],
+  ['Taipei', 'TW', 25.033, 121.5654, 'Asia/Taipei', ['TPE']],
+  ['Manila', 'PH', 14.5995, 120.9842, 'Asia/Manila', ['MNL']],
+  ['Singapore', 'SG', 1.3521, 103.8198, 'Asia/Singapore', ['SIN']],
+  ['Kuala Lumpur', 'MY', 3.139, 101.6869, 'Asia/Kuala_Lumpur', ['KUL'], undefined, ['KL']],
+  ['Jakarta', 'ID', -6.2088, 106.8456, 'Asia/Jakarta', ['CGK'], 'JKT'],
+  ['Bali', 'ID', -8.4095, 115.1889, 'Asia/Makassar', ['DPS'], undefined, ['Denpasar']],
+  ['Bangkok', 'TH', 13.7563, 100.5018, 'Asia/Bangkok', ['BKK']],
+  ['Phuket', 'TH', 7.8804, 98.3923, 'Asia/Bangkok', ['HKT']],
+  ['Hanoi', 'VN', 21.0278, 105.8342, 'Asia/Ho_Chi_Minh', ['HAN']],
+  ['Ho Chi Minh City', 'VN', 10.8231, 106.6297, 'Asia/Ho_Chi_Minh', ['SGN'], undefined, ['Ho Chi Minh', 'Saigon']],
+  ['Delhi', 'IN', 28.7041, 77.1025, 'Asia/Kolkata', ['DEL'], undefined, ['New Delhi']],
+  ['Mumbai', 'IN', 19.076, 72.8777, 'Asia/Kolkata', ['BOM'], undefined, ['Bombay']],
+  // Oceania
+  ['Sydney', 'AU', -33.8688, 151.2093, 'Australia/Sydney', ['SYD']],
+  ['Melbourne', 'AU', -37.8136, 144.9631, 'Australia/Melbourne', ['MEL']],
+  ['Brisbane', 'AU', -27.4698, 153.0251, 'Australia/Brisbane', ['BNE']],
+  ['Perth', 'AU', -31.9505, 115.8605, 'Australia/Perth', ['PER']],
+  ['Auckland', 'NZ', -36.8485, 174.7633, 'Pacific/Auckland', ['AKL']],
+  ['Queenstown', 'NZ', -45.0312, 168.6626, 'Pacific/Auckland', ['ZQN']],
+];
+
+/**
+ * Known cities
+ */
+export const CITIES: readonly City[] = CITY_ROWS.map(
+  ([name, country, latitude, longitude, timezone, airports, code, aliases]) => {
+    const city: City = {
+      name,
+      country,
+      coordinates: { latitude, longitude },
+      timezone,
+      airports,
+    };
+    if (code) city.code = code;
+    if (aliases) city.aliases = aliases;
+    return city;
+  }
+);
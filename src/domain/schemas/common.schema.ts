@@ -97,6 +97,8 @@ export const segmentTypeSchema = z.enum([
   'MEETING',
   'ACTIVITY',
   'TRANSFER',
+  'RAIL',
+  'CAR_RENTAL',
   'CUSTOM',
 ]);
 
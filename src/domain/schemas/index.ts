@@ -48,17 +48,21 @@ export {
 // Segment schemas
 export {
   activitySegmentSchema,
+  carRentalSegmentSchema,
   customSegmentSchema,
   flightSegmentSchema,
   hotelSegmentSchema,
   meetingSegmentSchema,
+  railSegmentSchema,
   segmentSchema,
   transferSegmentSchema,
   type ActivitySegmentInput,
+  type CarRentalSegmentInput,
   type CustomSegmentInput,
   type FlightSegmentInput,
   type HotelSegmentInput,
   type MeetingSegmentInput,
+  type RailSegmentInput,
   type SegmentInput,
   type SegmentOutput,
   type TransferSegmentInput,
@@ -66,23 +70,49 @@ export {
 
 // Itinerary schemas
 export {
+  calendarFeedTokenSchema,
+  collaboratorInviteSchema,
+  collaboratorRoleSchema,
+  collaboratorSchema,
   itineraryCreateSchema,
   itinerarySchema,
   itineraryUpdateSchema,
+  type CollaboratorInvite,
   type ItineraryCreateInput,
   type ItineraryInput,
   type ItineraryOutput,
   type ItineraryUpdateInput,
 } from './itinerary.schema.js';
 
+// Itinerary query schemas
+export {
+  MAX_ITINERARY_QUERY_LIMIT,
+  itineraryQueryParamsSchema,
+  type ItineraryQueryParams,
+} from './itinerary-query.schema.js';
+
+// Template schemas
+export {
+  instantiateRequestSchema,
+  saveTemplateRequestSchema,
+  type InstantiateRequest,
+  type SaveTemplateRequest,
+} from './template.schema.js';
+
+// Reschedule schemas
+export { rescheduleRequestSchema, type RescheduleRequestBody } from './reschedule.schema.js';
+
 // Tool argument schemas
 export {
   addActivityArgsSchema,
+  addCarRentalArgsSchema,
   addFlightArgsSchema,
   addHotelArgsSchema,
   addMeetingArgsSchema,
+  addRailArgsSchema,
   addTransferArgsSchema,
   addTravelerArgsSchema,
+  applyTemplateArgsSchema,
   deleteSegmentArgsSchema,
   geocodeLocationArgsSchema,
   getDistanceArgsSchema,
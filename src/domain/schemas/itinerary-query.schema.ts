@@ -0,0 +1,111 @@
+/**
+ * Itinerary search query schema
+ * Parses URL query parameters (and CLI flags) into an itinerary query
+ * @module domain/schemas/itinerary-query
+ */
+
+import { z } from 'zod';
+import {
+  dateSchema,
+  itineraryStatusSchema,
+  segmentStatusSchema,
+  segmentTypeSchema,
+  tripTypeSchema,
+} from './common.schema.js';
+
+/** Segment statuses matched by `unconfirmed=true` */
+const UNCONFIRMED_STATUSES = ['TENTATIVE', 'WAITLISTED'] as const;
+
+/** Largest page a single query may request */
+export const MAX_ITINERARY_QUERY_LIMIT = 200;
+
+/**
+ * List parameter: repeated (`tag=a&tag=b`) or comma-separated (`tag=a,b`)
+ */
+const listParamSchema = z.union([z.string(), z.array(z.string())]).transform((value) =>
+  (Array.isArray(value) ? value : [value])
+    .flatMap((item) => item.split(','))
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0)
+);
+
+/**
+ * Upper-cased list parameter validated against an enum
+ */
+function enumListParam<T extends [string, ...string[]]>(schema: z.ZodEnum<T>) {
+  return listParamSchema.pipe(z.array(z.preprocess((item) => String(item).toUpperCase(), schema)));
+}
+
+/**
+ * Upper-cased single enum parameter
+ */
+function enumParam<T extends [string, ...string[]]>(schema: z.ZodEnum<T>) {
+  return z.preprocess((value) => (typeof value === 'string' ? value.toUpperCase() : value), schema);
+}
+
+/**
+ * End of a date range; a bare date (YYYY-MM-DD) covers that whole day
+ */
+const rangeEndSchema = z.preprocess(
+  (value) =>
+    typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)
+      ? `${value}T23:59:59.999Z`
+      : value,
+  dateSchema
+);
+
+/** Non-empty trimmed text parameter */
+const textParamSchema = z.string().trim().min(1);
+
+/**
+ * Itinerary query parameters
+ * - status, tag, segmentStatus: repeated or comma-separated
+ * - from/to: date range the trip must overlap
+ * - unconfirmed=true: shorthand for segmentStatus=TENTATIVE,WAITLISTED
+ * - q: free-text title search
+ */
+export const itineraryQueryParamsSchema = z
+  .object({
+    status: enumListParam(itineraryStatusSchema).optional(),
+    from: dateSchema.optional(),
+    to: rangeEndSchema.optional(),
+    destination: textParamSchema.optional(),
+    traveler: textParamSchema.optional(),
+    tag: listParamSchema.optional(),
+    tripType: enumParam(tripTypeSchema).optional(),
+    segmentType: enumParam(segmentTypeSchema).optional(),
+    segmentStatus: enumListParam(segmentStatusSchema).optional(),
+    unconfirmed: z.enum(['true', 'false']).optional(),
+    q: textParamSchema.optional(),
+    sortBy: z.enum(['updatedAt', 'createdAt', 'startDate', 'title']).optional(),
+    sortOrder: z.enum(['asc', 'desc']).optional(),
+    limit: z.coerce.number().int().min(1).max(MAX_ITINERARY_QUERY_LIMIT).optional(),
+    offset: z.coerce.number().int().min(0).optional(),
+  })
+  .refine((params) => !params.from || !params.to || params.from <= params.to, {
+    message: '"from" must be on or before "to"',
+    path: ['to'],
+  })
+  .transform((params) => {
+    const segmentStatus =
+      params.unconfirmed === 'true' ? [...UNCONFIRMED_STATUSES] : params.segmentStatus;
+
+    return {
+      ...(params.status?.length ? { status: params.status } : {}),
+      ...(params.from ? { from: params.from } : {}),
+      ...(params.to ? { to: params.to } : {}),
+      ...(params.destination ? { destination: params.destination } : {}),
+      ...(params.traveler ? { traveler: params.traveler } : {}),
+      ...(params.tag?.length ? { tags: params.tag } : {}),
+      ...(params.tripType ? { tripType: params.tripType } : {}),
+      ...(params.segmentType ? { segmentType: params.segmentType } : {}),
+      ...(segmentStatus?.length ? { segmentStatus } : {}),
+      ...(params.q ? { text: params.q } : {}),
+      ...(params.sortBy ? { sortBy: params.sortBy } : {}),
+      ...(params.sortOrder ? { sortOrder: params.sortOrder } : {}),
+      ...(params.limit !== undefined ? { limit: params.limit } : {}),
+      ...(params.offset !== undefined ? { offset: params.offset } : {}),
+    };
+  });
+
+export type ItineraryQueryParams = z.input<typeof itineraryQueryParamsSchema>;
@@ -16,6 +16,40 @@ import { currencyCodeSchema, moneySchema } from './money.schema.js';
 import { segmentSchema } from './segment.schema.js';
 import { travelPreferencesSchema, travelerSchema } from './traveler.schema.js';
 
+/**
+ * Calendar feed token schema
+ */
+export const calendarFeedTokenSchema = z.object({
+  token: z.string().min(1),
+  scope: z.enum(['itinerary', 'user']),
+  createdAt: dateSchema,
+});
+
+/**
+ * Collaborator role schema
+ */
+export const collaboratorRoleSchema = z.enum(['owner', 'editor', 'viewer']);
+
+/**
+ * Collaborator schema
+ */
+export const collaboratorSchema = z.object({
+  email: z.string().email(),
+  role: collaboratorRoleSchema,
+  invitedBy: z.string().optional(),
+  invitedAt: dateSchema,
+});
+
+/**
+ * Collaborator invitation request schema
+ */
+export const collaboratorInviteSchema = z.object({
+  email: z.string().trim().email('A valid email is required'),
+  role: collaboratorRoleSchema,
+});
+
+export type CollaboratorInvite = z.infer<typeof collaboratorInviteSchema>;
+
 /**
  * Full itinerary schema - validates complete itinerary
  */
@@ -49,6 +83,8 @@ export const itinerarySchema = z
     primaryTravelerId: travelerIdSchema.optional(),
     /** User who created the itinerary */
     createdBy: z.string().optional(),
+    /** Users the itinerary is shared with */
+    collaborators: z.array(collaboratorSchema).optional(),
     /** All segments in the itinerary */
     segments: z.array(segmentSchema).default([]),
     /** Total price for the entire trip */
@@ -65,6 +101,8 @@ export const itinerarySchema = z
     preferences: travelPreferencesSchema.optional(),
     /** Tags for organization */
     tags: z.array(z.string()).default([]),
+    /** Active calendar feed tokens */
+    calendarFeeds: z.array(calendarFeedTokenSchema).optional(),
     /** Additional metadata */
     metadata: z.record(z.unknown()).default({}),
   })
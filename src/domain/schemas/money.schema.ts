@@ -4,6 +4,7 @@
  */
 
 import { z } from 'zod';
+import { fromMajorUnits } from '../types/money.js';
 
 /**
  * Currency code schema - validates ISO 4217 3-letter codes
@@ -26,15 +27,17 @@ export const moneySchema = z.object({
 });
 
 /**
- * Money input schema - accepts decimal amounts and converts to cents
- * Use this for user input that comes as decimal (e.g., 10.50)
+ * Money input schema - accepts decimal amounts and converts to minor units
+ * Use this for user input that comes as decimal (e.g., 10.50 USD, 1500 JPY)
  */
-export const moneyInputSchema = z.object({
-  /** Amount in major currency unit (e.g., dollars) */
-  amount: z
-    .number()
-    .nonnegative('Amount must be non-negative')
-    .transform((val) => Math.round(val * 100)),
-  /** ISO 4217 currency code */
-  currency: currencyCodeSchema,
-});
+export const moneyInputSchema = z
+  .object({
+    /** Amount in major currency unit (e.g., dollars) */
+    amount: z.number().nonnegative('Amount must be non-negative'),
+    /** ISO 4217 currency code */
+    currency: currencyCodeSchema,
+  })
+  .transform(({ amount, currency }) => ({
+    amount: fromMajorUnits(amount, currency),
+    currency,
+  }));
@@ -0,0 +1,56 @@
+/**
+ * Itinerary reschedule (shift) request schema
+ * @module domain/schemas/reschedule
+ */
+
+import { z } from 'zod';
+import type { SegmentId } from '../types/branded.js';
+import { isoDateSchema } from './common.schema.js';
+
+/**
+ * Shift an itinerary, a day or selected segments in time
+ * - days/hours/minutes: move by a duration (negative = earlier); may be combined
+ * - toStartDate: or move so the selection starts on this day (YYYY-MM-DD)
+ * - day: only move segments starting on this day (YYYY-MM-DD, local to the segment)
+ * - segmentIds: only move these segments
+ * - cascade: also move segments that depend on the selection (default: true)
+ * - dryRun: report the result without saving it
+ */
+export const rescheduleRequestSchema = z
+  .object({
+    days: z.number().int().optional(),
+    hours: z.number().int().optional(),
+    minutes: z.number().int().optional(),
+    toStartDate: isoDateSchema.optional(),
+    day: isoDateSchema.optional(),
+    segmentIds: z.array(z.string().min(1)).min(1).optional(),
+    cascade: z.boolean().optional(),
+    dryRun: z.boolean().optional(),
+  })
+  .refine(
+    (body) =>
+      (body.toStartDate === undefined) !==
+      (body.days === undefined && body.hours === undefined && body.minutes === undefined),
+    { message: 'Provide either a duration (days/hours/minutes) or toStartDate', path: ['days'] }
+  )
+  .refine((body) => body.day === undefined || body.segmentIds === undefined, {
+    message: 'Provide either day or segmentIds, not both',
+    path: ['day'],
+  })
+  .transform((body) => ({
+    scope: body.day
+      ? { kind: 'day' as const, date: body.day }
+      : body.segmentIds
+        ? { kind: 'segments' as const, segmentIds: body.segmentIds as SegmentId[] }
+        : { kind: 'itinerary' as const },
+    shift: body.toStartDate
+      ? { kind: 'startDate' as const, date: body.toStartDate }
+      : {
+          kind: 'offset' as const,
+          minutes: (body.days ?? 0) * 24 * 60 + (body.hours ?? 0) * 60 + (body.minutes ?? 0),
+        },
+    ...(body.cascade !== undefined ? { cascade: body.cascade } : {}),
+    ...(body.dryRun !== undefined ? { dryRun: body.dryRun } : {}),
+  }));
+
+export type RescheduleRequestBody = z.input<typeof rescheduleRequestSchema>;
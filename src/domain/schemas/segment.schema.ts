@@ -34,6 +34,15 @@ const segmentSourceSchema = z.enum(['import', 'user', 'agent']);
  */
 const agentModeSchema = z.enum(['dream', 'plan', 'book', 'chat']);
 
+/**
+ * Email part schema - body or attachment a segment was imported from
+ */
+const segmentEmailPartSchema = z.object({
+  kind: z.enum(['body', 'attachment']),
+  filename: z.string().optional(),
+  contentType: z.string().optional(),
+});
+
 /**
  * Segment source details schema
  */
@@ -48,6 +57,8 @@ const segmentSourceDetailsSchema = z.object({
   mode: agentModeSchema.optional(),
   /** Timestamp when segment was generated/imported */
   timestamp: dateSchema.optional(),
+  /** Email parts the segment was extracted from */
+  emailParts: z.array(segmentEmailPartSchema).optional(),
 }).optional();
 
 // ===========================
@@ -134,6 +145,8 @@ const flightSegmentBaseSchema = z.object({
   durationMinutes: z.number().int().positive('Duration must be positive').optional(),
   /** Baggage allowance */
   baggageAllowance: z.string().optional(),
+  /** Identifier shared by legs of one connecting journey (when not linked by booking reference) */
+  journeyId: z.string().optional(),
 });
 
 /**
@@ -309,6 +322,94 @@ export const transferSegmentSchema = transferSegmentBaseSchema.refine(
   }
 );
 
+// ===========================
+// Rail segment
+// ===========================
+
+/**
+ * Rail segment schema (without refinements for discriminated union)
+ */
+const railSegmentBaseSchema = z.object({
+  ...baseSegmentFields,
+  /** Segment type discriminator */
+  type: z.literal('RAIL'),
+  /** Rail operator */
+  operator: companySchema,
+  /** Train number (e.g., "9014", "ICE 123") */
+  trainNumber: z.string().min(1, 'Train number is required'),
+  /** Departure station */
+  origin: locationSchema,
+  /** Arrival station */
+  destination: locationSchema,
+  /** Departure platform */
+  departurePlatform: z.string().optional(),
+  /** Arrival platform */
+  arrivalPlatform: z.string().optional(),
+  /** Coach or carriage number */
+  coach: z.string().optional(),
+  /** Seat assignments by traveler ID */
+  seatAssignments: z.record(z.string()).optional(),
+  /** Fare class */
+  fareClass: z.string().optional(),
+  /** Journey duration in minutes */
+  durationMinutes: z.number().int().positive('Duration must be positive').optional(),
+});
+
+/**
+ * Rail segment schema with validations
+ */
+export const railSegmentSchema = railSegmentBaseSchema.refine(
+  (data) => data.endDatetime > data.startDatetime,
+  {
+    message: 'End datetime must be after start datetime',
+    path: ['endDatetime'],
+  }
+);
+
+// ===========================
+// Car rental segment
+// ===========================
+
+/**
+ * Car rental segment schema (without refinements for discriminated union)
+ */
+const carRentalSegmentBaseSchema = z.object({
+  ...baseSegmentFields,
+  /** Segment type discriminator */
+  type: z.literal('CAR_RENTAL'),
+  /** Rental company */
+  rentalCompany: companySchema,
+  /** Pickup office */
+  pickupLocation: locationSchema,
+  /** Return office */
+  returnLocation: locationSchema,
+  /** Car class or ACRISS code */
+  carClass: z.string().optional(),
+  /** Vehicle description */
+  vehicleDescription: z.string().optional(),
+  /** Name of the main driver */
+  primaryDriver: z.string().optional(),
+  /** Names of additional drivers */
+  additionalDrivers: z.array(z.string()).optional(),
+  /** Insurance coverages included */
+  insurance: z.array(z.string()).optional(),
+  /** Included mileage */
+  includedMileage: z.string().optional(),
+  /** Fuel policy */
+  fuelPolicy: z.string().optional(),
+});
+
+/**
+ * Car rental segment schema with validations
+ */
+export const carRentalSegmentSchema = carRentalSegmentBaseSchema.refine(
+  (data) => data.endDatetime > data.startDatetime,
+  {
+    message: 'Return datetime must be after pickup datetime',
+    path: ['endDatetime'],
+  }
+);
+
 // ===========================
 // Custom segment
 // ===========================
@@ -355,6 +456,8 @@ const segmentBaseSchema = z.discriminatedUnion('type', [
   meetingSegmentBaseSchema,
   activitySegmentBaseSchema,
   transferSegmentBaseSchema,
+  railSegmentBaseSchema,
+  carRentalSegmentBaseSchema,
   customSegmentBaseSchema,
 ]);
 
@@ -380,4 +483,6 @@ export type HotelSegmentInput = z.input<typeof hotelSegmentSchema>;
 export type MeetingSegmentInput = z.input<typeof meetingSegmentSchema>;
 export type ActivitySegmentInput = z.input<typeof activitySegmentSchema>;
 export type TransferSegmentInput = z.input<typeof transferSegmentSchema>;
+export type RailSegmentInput = z.input<typeof railSegmentSchema>;
+export type CarRentalSegmentInput = z.input<typeof carRentalSegmentSchema>;
 export type CustomSegmentInput = z.input<typeof customSegmentSchema>;
@@ -0,0 +1,40 @@
+/**
+ * Itinerary template and cloning request schemas
+ * @module domain/schemas/template
+ */
+
+import { z } from 'zod';
+import { dateSchema } from './common.schema.js';
+
+/**
+ * Save an itinerary as a template
+ * - name: defaults to the itinerary title
+ * - description: defaults to the itinerary description
+ */
+export const saveTemplateRequestSchema = z
+  .object({
+    name: z.string().trim().min(1).optional(),
+    description: z.string().trim().min(1).optional(),
+  })
+  .transform((body) => ({
+    ...(body.name ? { name: body.name } : {}),
+    ...(body.description ? { description: body.description } : {}),
+  }));
+
+/**
+ * Create an itinerary from a template, or clone an itinerary, on a new start date
+ * - startDate: first day of the new trip (YYYY-MM-DD or ISO datetime)
+ * - title: defaults to the template name or source title
+ */
+export const instantiateRequestSchema = z
+  .object({
+    startDate: dateSchema,
+    title: z.string().trim().min(1).optional(),
+  })
+  .transform((body) => ({
+    startDate: body.startDate,
+    ...(body.title ? { title: body.title } : {}),
+  }));
+
+export type SaveTemplateRequest = z.input<typeof saveTemplateRequestSchema>;
+export type InstantiateRequest = z.input<typeof instantiateRequestSchema>;
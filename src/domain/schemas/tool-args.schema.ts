@@ -90,6 +90,47 @@ export const addTransferArgsSchema = z.object({
   notes: z.string().optional(),
 });
 
+/**
+ * add_rail arguments schema
+ */
+export const addRailArgsSchema = z.object({
+  operator: companySchema,
+  trainNumber: z.string().min(1, 'Train number is required'),
+  origin: locationSchema,
+  destination: locationSchema,
+  departureTime: toolDatetimeSchema,
+  arrivalTime: toolDatetimeSchema,
+  departurePlatform: z.string().optional(),
+  arrivalPlatform: z.string().optional(),
+  coach: z.string().optional(),
+  seat: z.string().optional(),
+  fareClass: z.string().optional(),
+  price: moneyInputSchema.optional(),
+  confirmationNumber: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+/**
+ * add_car_rental arguments schema
+ */
+export const addCarRentalArgsSchema = z.object({
+  rentalCompany: companySchema,
+  pickupLocation: locationSchema,
+  returnLocation: locationSchema.optional(),
+  pickupTime: toolDatetimeSchema,
+  returnTime: toolDatetimeSchema,
+  carClass: z.string().optional(),
+  vehicleDescription: z.string().optional(),
+  primaryDriver: z.string().optional(),
+  additionalDrivers: z.array(z.string()).optional(),
+  insurance: z.array(z.string()).optional(),
+  includedMileage: z.string().optional(),
+  fuelPolicy: z.string().optional(),
+  price: moneyInputSchema.optional(),
+  confirmationNumber: z.string().optional(),
+  notes: z.string().optional(),
+});
+
 /**
  * add_meeting arguments schema
  */
@@ -205,8 +246,24 @@ export const searchFlightsArgsSchema = z.object({
   destination: z.string().min(1),
   departureDate: toolDateSchema,
   returnDate: toolDateSchema.optional(),
+  additionalLegs: z
+    .array(
+      z.object({
+        origin: z.string().min(1),
+        destination: z.string().min(1),
+        date: toolDateSchema,
+      })
+    )
+    .max(5)
+    .optional(),
+  flexibleDays: z.number().int().min(0).max(3).optional(),
   adults: z.number().int().positive().optional(),
+  children: z.number().int().nonnegative().optional(),
+  infants: z.number().int().nonnegative().optional(),
   cabinClass: z.enum(['economy', 'premium_economy', 'business', 'first']).optional(),
+  maxStops: z.number().int().min(0).max(2).optional(),
+  preferredAirlines: z.array(z.string().regex(/^[A-Za-z0-9]{2}$/)).optional(),
+  currency: z.string().length(3).optional(),
 });
 
 /**
@@ -218,6 +275,8 @@ export const searchHotelsArgsSchema = z.object({
   checkOutDate: toolDateSchema,
   adults: z.number().int().positive().optional(),
   children: z.number().int().nonnegative().optional(),
+  preferredChains: z.array(z.string().min(1)).max(5).optional(),
+  accommodationType: z.string().min(1).optional(),
 });
 
 /**
@@ -313,6 +372,14 @@ export const geocodeLocationArgsSchema = z.object({
   location: z.string().min(1, 'Location is required'),
 });
 
+/**
+ * apply_template arguments schema
+ */
+export const applyTemplateArgsSchema = z.object({
+  template: z.string().min(1, 'Template name or ID is required'),
+  startDate: toolDateSchema,
+});
+
 // =============================================================================
 // Traveler Management Tools
 // =============================================================================
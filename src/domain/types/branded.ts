@@ -30,6 +30,11 @@ export type SegmentId = Brand<string, 'SegmentId'>;
  */
 export type TravelerId = Brand<string, 'TravelerId'>;
 
+/**
+ * Branded type for Itinerary Template IDs
+ */
+export type TemplateId = Brand<string, 'TemplateId'>;
+
 /**
  * Creates an ItineraryId from a string, validating UUID format
  * @param value - The UUID string
@@ -69,6 +74,19 @@ export function createTravelerId(value: string): TravelerId {
   return value as TravelerId;
 }
 
+/**
+ * Creates a TemplateId from a string, validating UUID format
+ * @param value - The UUID string
+ * @returns A TemplateId
+ * @throws Error if the value is not a valid UUID
+ */
+export function createTemplateId(value: string): TemplateId {
+  if (!isValidUUID(value)) {
+    throw new Error(`Invalid UUID for TemplateId: ${value}`);
+  }
+  return value as TemplateId;
+}
+
 /**
  * Generates a new ItineraryId
  * @returns A new ItineraryId
@@ -92,3 +110,11 @@ export function generateSegmentId(): SegmentId {
 export function generateTravelerId(): TravelerId {
   return generateId() as TravelerId;
 }
+
+/**
+ * Generates a new TemplateId
+ * @returns A new TemplateId
+ */
+export function generateTemplateId(): TemplateId {
+  return generateId() as TemplateId;
+}
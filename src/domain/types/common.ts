@@ -37,6 +37,8 @@ export const SegmentType = {
   MEETING: 'MEETING',
   ACTIVITY: 'ACTIVITY',
   TRANSFER: 'TRANSFER',
+  RAIL: 'RAIL',
+  CAR_RENTAL: 'CAR_RENTAL',
   CUSTOM: 'CUSTOM',
 } as const;
 
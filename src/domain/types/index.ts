@@ -15,3 +15,6 @@ export * from './trip-taxonomy.js';
 export * from './trip-designer.js';
 export * from './knowledge.js';
 export * from './weaviate.js';
+export * from './reference.js';
+export * from './template.js';
+export * from './travel-search.js';
@@ -10,6 +10,47 @@ import type { Money } from './money.js';
 import type { Segment } from './segment.js';
 import type { TravelPreferences, Traveler, TripTravelerPreferences } from './traveler.js';
 
+/**
+ * What a calendar feed token gives access to
+ * - itinerary: the feed of the itinerary that holds the token
+ * - user: the aggregated feed of all itineraries of the itinerary's owner
+ */
+export type CalendarFeedScope = 'itinerary' | 'user';
+
+/**
+ * Revocable secret that authorizes a subscribable calendar feed URL
+ */
+export interface CalendarFeedToken {
+  /** Secret embedded in the feed URL */
+  token: string;
+  /** Feed the token unlocks */
+  scope: CalendarFeedScope;
+  /** When the token was issued */
+  createdAt: Date;
+}
+
+/**
+ * Access level of a user on an itinerary
+ * - owner: full control, including deleting the trip and managing collaborators
+ * - editor: can change the trip
+ * - viewer: can read the trip and chat with the trip designer, but not change it
+ */
+export type CollaboratorRole = 'owner' | 'editor' | 'viewer';
+
+/**
+ * User invited to an itinerary by email
+ */
+export interface Collaborator {
+  /** Invitee email (matched case-insensitively) */
+  email: string;
+  /** Access level granted */
+  role: CollaboratorRole;
+  /** Who sent the invitation */
+  invitedBy?: string;
+  /** When the invitation was sent */
+  invitedAt: Date;
+}
+
 /**
  * Complete itinerary representing a trip
  */
@@ -42,6 +83,8 @@ export interface Itinerary {
   primaryTravelerId?: TravelerId;
   /** User who created the itinerary */
   createdBy?: string;
+  /** Users the itinerary is shared with (the creator is always an owner) */
+  collaborators?: Collaborator[];
   /** All segments in the itinerary */
   segments: Segment[];
   /** Total price for the entire trip */
@@ -60,6 +103,8 @@ export interface Itinerary {
   tripPreferences?: TripTravelerPreferences;
   /** Tags for organization */
   tags: string[];
+  /** Active calendar feed tokens (revoked tokens are removed) */
+  calendarFeeds?: CalendarFeedToken[];
   /** Additional metadata */
   metadata: Record<string, unknown>;
 }
@@ -14,6 +14,48 @@ export interface Money {
   currency: string;
 }
 
+/**
+ * ISO 4217 currencies whose minor unit is not 1/100 of the major unit.
+ * Everything not listed here uses two decimal places.
+ */
+const CURRENCY_MINOR_UNITS: Readonly<Record<string, number>> = {
+  BIF: 0,
+  CLP: 0,
+  DJF: 0,
+  GNF: 0,
+  ISK: 0,
+  JPY: 0,
+  KMF: 0,
+  KRW: 0,
+  PYG: 0,
+  RWF: 0,
+  UGX: 0,
+  UYI: 0,
+  VND: 0,
+  VUV: 0,
+  XAF: 0,
+  XOF: 0,
+  XPF: 0,
+  BHD: 3,
+  IQD: 3,
+  JOD: 3,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+  CLF: 4,
+  UYW: 4,
+};
+
+/**
+ * Gets the number of decimal places used by a currency's minor unit
+ * @param currency - ISO 4217 currency code
+ * @returns Number of minor-unit digits (e.g., 2 for USD, 0 for JPY, 3 for KWD)
+ */
+export function getMinorUnits(currency: string): number {
+  return CURRENCY_MINOR_UNITS[currency.toUpperCase()] ?? 2;
+}
+
 /**
  * Creates a Money object
  * @param amount - Amount in smallest currency unit
@@ -25,13 +67,53 @@ export function createMoney(amount: number, currency: string): Money {
 }
 
 /**
- * Formats a Money object as a string
+ * Converts a major-unit amount (e.g., 10.50 dollars) to the currency's minor units
+ * @param amount - Amount in major currency unit
+ * @param currency - ISO 4217 currency code
+ * @returns Amount in smallest currency unit, rounded to the nearest unit
+ */
+export function fromMajorUnits(amount: number, currency: string): number {
+  return Math.round(amount * 10 ** getMinorUnits(currency));
+}
+
+/**
+ * Converts an amount stored in hundredths of the major unit, the convention
+ * for every currency before per-currency minor units, to the currency's minor units
+ * @param money - Money whose amount is in hundredths (e.g., 150000 for ¥1,500)
+ * @returns The same value in the currency's minor units (e.g., 1500 for ¥1,500)
+ */
+export function fromLegacyMinorUnits(money: Money): Money {
+  return createMoney(fromMajorUnits(money.amount / 100, money.currency), money.currency);
+}
+
+/**
+ * Converts a Money amount to its major-unit value (e.g., 1050 cents -> 10.5)
+ * @param money - The Money object
+ * @returns Amount in major currency unit
+ */
+export function toMajorUnits(money: Money): number {
+  return money.amount / 10 ** getMinorUnits(money.currency);
+}
+
+/**
+ * Formats a Money object for display using the currency's own decimal places
  * @param money - The Money object to format
- * @returns Formatted string like "$10.50 USD"
+ * @param locale - BCP 47 locale used for symbols and separators
+ * @returns Formatted string like "$10.50" or "¥1,500"
  */
-export function formatMoney(money: Money): string {
-  const majorUnit = money.amount / 100;
-  return `${majorUnit.toFixed(2)} ${money.currency}`;
+export function formatMoney(money: Money, locale = 'en-US'): string {
+  const digits = getMinorUnits(money.currency);
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: money.currency,
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits,
+    }).format(toMajorUnits(money));
+  } catch {
+    // Unknown currency codes are rejected by Intl; fall back to a plain rendering
+    return `${toMajorUnits(money).toFixed(digits)} ${money.currency}`;
+  }
 }
 
 /**
@@ -39,7 +121,7 @@ export function formatMoney(money: Money): string {
  * @param a - First Money object
  * @param b - Second Money object
  * @returns Sum of the two amounts
- * @throws Error if currencies don't match
+ * @throws Error if currencies don't match (use convertMoney first)
  */
 export function addMoney(a: Money, b: Money): Money {
   if (a.currency !== b.currency) {
@@ -50,3 +132,43 @@ export function addMoney(a: Money, b: Money): Money {
     currency: a.currency,
   };
 }
+
+/**
+ * Sums Money objects that share a currency
+ * @param items - Money objects to sum
+ * @param currency - Currency of the result (used when items is empty)
+ * @returns Sum of the amounts
+ * @throws Error if any item is in a different currency
+ */
+export function sumMoney(items: readonly Money[], currency: string): Money {
+  return items.reduce(addMoney, createMoney(0, currency));
+}
+
+/**
+ * Splits money into equal shares that sum exactly to the original amount,
+ * handing any remainder minor units to the first shares
+ * @param money - The Money object to split
+ * @param parts - Number of shares
+ * @returns The shares
+ */
+export function allocateMoney(money: Money, parts: number): Money[] {
+  const base = Math.floor(money.amount / parts);
+  const remainder = money.amount - base * parts;
+  return Array.from({ length: parts }, (_, index) =>
+    createMoney(base + (index < remainder ? 1 : 0), money.currency)
+  );
+}
+
+/**
+ * Converts a Money object to another currency at a given rate
+ * @param money - The Money object to convert
+ * @param rate - Units of the target currency per unit of the source currency
+ * @param currency - Target ISO 4217 currency code
+ * @returns Converted amount in the target currency's minor units
+ */
+export function convertMoney(money: Money, rate: number, currency: string): Money {
+  if (money.currency === currency) {
+    return money;
+  }
+  return createMoney(fromMajorUnits(toMajorUnits(money) * rate, currency), currency);
+}
@@ -0,0 +1,46 @@
+/**
+ * Airport and city reference types
+ * @module domain/types/reference
+ */
+
+import type { Coordinates } from './location.js';
+
+/**
+ * Airport from the bundled reference dataset
+ */
+export interface Airport {
+  /** IATA airport code (3 letters) */
+  iata: string;
+  /** ICAO airport code (4 letters) */
+  icao: string;
+  /** Airport name */
+  name: string;
+  /** City the airport serves */
+  city: string;
+  /** ISO 3166-1 alpha-2 country code */
+  country: string;
+  /** Geographic coordinates */
+  coordinates: Coordinates;
+  /** IANA timezone identifier */
+  timezone: string;
+}
+
+/**
+ * City from the bundled reference dataset
+ */
+export interface City {
+  /** City name */
+  name: string;
+  /** IATA metropolitan area code, when the city has one (e.g., NYC, LON) */
+  code?: string;
+  /** ISO 3166-1 alpha-2 country code */
+  country: string;
+  /** Geographic coordinates of the city center */
+  coordinates: Coordinates;
+  /** IANA timezone identifier */
+  timezone: string;
+  /** IATA codes of the airports serving the city, main airport first */
+  airports: string[];
+  /** Alternative names (local spellings, abbreviations) */
+  aliases?: string[];
+}
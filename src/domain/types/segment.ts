@@ -18,6 +18,18 @@ import type { AgentMode } from './agent.js';
  */
 export type SegmentSource = 'import' | 'user' | 'agent';
 
+/**
+ * Part of an imported email a segment was extracted from
+ */
+export interface SegmentEmailPart {
+  /** Message body or an attachment */
+  kind: 'body' | 'attachment';
+  /** Attachment file name */
+  filename?: string;
+  /** Attachment MIME type */
+  contentType?: string;
+}
+
 /**
  * Additional details about segment source
  */
@@ -32,6 +44,8 @@ export interface SegmentSourceDetails {
   mode?: AgentMode;
   /** Timestamp when segment was generated/imported */
   timestamp?: Date;
+  /** Email parts the segment was extracted from; the first supplied conflicting values */
+  emailParts?: SegmentEmailPart[];
 }
 
 /**
@@ -107,6 +121,8 @@ export interface FlightSegment extends BaseSegment {
   durationMinutes?: number;
   /** Baggage allowance */
   baggageAllowance?: string;
+  /** Identifier shared by legs of one connecting journey (when not linked by booking reference) */
+  journeyId?: string;
 }
 
 /**
@@ -195,6 +211,61 @@ export interface TransferSegment extends BaseSegment {
   driverPhone?: string;
 }
 
+/**
+ * Rail segment
+ */
+export interface RailSegment extends BaseSegment {
+  type: typeof SegmentType.RAIL;
+  /** Rail operator (e.g., Eurostar, SNCF, Deutsche Bahn) */
+  operator: Company;
+  /** Train number (e.g., "9014", "ICE 123") */
+  trainNumber: string;
+  /** Departure station */
+  origin: Location;
+  /** Arrival station */
+  destination: Location;
+  /** Departure platform */
+  departurePlatform?: string;
+  /** Arrival platform */
+  arrivalPlatform?: string;
+  /** Coach or carriage number */
+  coach?: string;
+  /** Seat assignments by traveler ID */
+  seatAssignments?: Record<string, string>;
+  /** Fare class (e.g., "First", "Standard Premier", "2nd") */
+  fareClass?: string;
+  /** Journey duration in minutes */
+  durationMinutes?: number;
+}
+
+/**
+ * Car rental segment
+ * startDatetime is the pickup time and endDatetime is the return time
+ */
+export interface CarRentalSegment extends BaseSegment {
+  type: typeof SegmentType.CAR_RENTAL;
+  /** Rental company (e.g., Hertz, Sixt) */
+  rentalCompany: Company;
+  /** Pickup office */
+  pickupLocation: Location;
+  /** Return office (same as pickup for round-trip rentals) */
+  returnLocation: Location;
+  /** Car class or ACRISS code (e.g., "Compact", "CDMR") */
+  carClass?: string;
+  /** Vehicle description (e.g., "Toyota Corolla or similar") */
+  vehicleDescription?: string;
+  /** Name of the main driver */
+  primaryDriver?: string;
+  /** Names of additional drivers */
+  additionalDrivers?: string[];
+  /** Insurance coverages included (e.g., "CDW", "Theft Protection") */
+  insurance?: string[];
+  /** Included mileage (e.g., "Unlimited", "200 km/day") */
+  includedMileage?: string;
+  /** Fuel policy (e.g., "Full to full") */
+  fuelPolicy?: string;
+}
+
 /**
  * Custom segment
  */
@@ -219,6 +290,8 @@ export type Segment =
   | MeetingSegment
   | ActivitySegment
   | TransferSegment
+  | RailSegment
+  | CarRentalSegment
   | CustomSegment;
 
 /**
@@ -266,6 +339,24 @@ export function isTransferSegment(segment: Segment): segment is TransferSegment
   return segment.type === SegmentType.TRANSFER;
 }
 
+/**
+ * Type guard for RailSegment
+ * @param segment - The segment to check
+ * @returns True if segment is a RailSegment
+ */
+export function isRailSegment(segment: Segment): segment is RailSegment {
+  return segment.type === SegmentType.RAIL;
+}
+
+/**
+ * Type guard for CarRentalSegment
+ * @param segment - The segment to check
+ * @returns True if segment is a CarRentalSegment
+ */
+export function isCarRentalSegment(segment: Segment): segment is CarRentalSegment {
+  return segment.type === SegmentType.CAR_RENTAL;
+}
+
 /**
  * Type guard for CustomSegment
  * @param segment - The segment to check
@@ -0,0 +1,115 @@
+/**
+ * Itinerary template types
+ * @module domain/types/template
+ */
+
+import type { ItineraryId, TemplateId } from './branded.js';
+import type { TripType } from './common.js';
+import type { Location } from './location.js';
+import type { Segment } from './segment.js';
+
+/**
+ * Point in a trip relative to its first day
+ * Times are kept in UTC, the same way segment datetimes are stored
+ */
+export interface DayOffset {
+  /** Days after the first day of the trip (0 = first day) */
+  day: number;
+  /** Time of day in HH:mm (UTC) */
+  time: string;
+}
+
+/**
+ * Segment fields that belong to one booking and are never copied into a template
+ * Absolute dates are replaced by day offsets
+ */
+export type TemplateOmittedSegmentField =
+  | 'startDatetime'
+  | 'endDatetime'
+  | 'travelerIds'
+  | 'confirmationNumber'
+  | 'bookingReference'
+  | 'price'
+  | 'taxes'
+  | 'fees'
+  | 'totalPrice'
+  | 'checkInDate'
+  | 'checkOutDate'
+  | 'seatAssignments'
+  | 'voucherNumber'
+  | 'primaryDriver'
+  | 'additionalDrivers'
+  | 'driverName'
+  | 'driverPhone';
+
+/**
+ * Omit keys from each member of a union separately
+ */
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * Segment as stored in a template
+ * `id` and `dependsOn` are only meaningful within the template; instantiating
+ * it issues fresh segment IDs and remaps the links
+ */
+export type TemplateSegment = DistributiveOmit<Segment, TemplateOmittedSegmentField> & {
+  /** When the segment starts */
+  start: DayOffset;
+  /** When the segment ends */
+  end: DayOffset;
+};
+
+/**
+ * Reusable trip plan without travelers, bookings, prices or absolute dates
+ */
+export interface ItineraryTemplate {
+  /** Unique template identifier */
+  id: TemplateId;
+  /** Template name */
+  name: string;
+  /** Template description */
+  description?: string;
+  /** Itinerary the template was saved from */
+  sourceItineraryId?: ItineraryId;
+  /** User who saved the template */
+  createdBy?: string;
+  /** Creation timestamp */
+  createdAt: Date;
+  /** Number of calendar days the trip spans */
+  durationDays: number;
+  /** Type of trip */
+  tripType?: TripType;
+  /** Origin location */
+  origin?: Location;
+  /** Destination locations */
+  destinations: Location[];
+  /** Tags copied onto new itineraries */
+  tags: string[];
+  /** Segments with day offsets instead of dates */
+  segments: TemplateSegment[];
+}
+
+/**
+ * Template listing entry
+ */
+export interface TemplateSummary {
+  id: TemplateId;
+  name: string;
+  description?: string;
+  durationDays: number;
+  segmentCount: number;
+  createdAt: Date;
+  createdBy?: string;
+}
+
+/**
+ * Options for creating an itinerary from a template or another itinerary
+ */
+export interface InstantiateOptions {
+  /** First day of the new trip */
+  startDate: Date;
+  /** Title of the new itinerary (defaults to the template name or source title) */
+  title?: string;
+  /** User who owns the new itinerary */
+  createdBy?: string;
+}
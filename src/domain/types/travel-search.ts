@@ -0,0 +1,369 @@
+/**
+ * Travel search types - normalized offers returned by search providers
+ * @module domain/types/travel-search
+ */
+
+import type { CabinClass, TransferType } from './common.js';
+import type { Address, Coordinates } from './location.js';
+import type { Money } from './money.js';
+import type { LoyaltyProgram } from './traveler.js';
+
+/**
+ * Available travel search providers
+ * - serpapi: live Google Flights / Hotels / Maps results via SerpAPI
+ * - fixture: deterministic offers from a fixture file, for offline development and tests
+ */
+export type TravelSearchProviderName = 'serpapi' | 'fixture';
+
+/**
+ * Travel search configuration
+ */
+export interface TravelSearchConfig {
+  /** Provider to use (default: serpapi when a key is configured, otherwise fixture) */
+  provider?: TravelSearchProviderName;
+  /** SerpAPI API key */
+  serpapiKey?: string;
+  /** Fixture file for the fixture provider (default: bundled sample offers) */
+  fixturePath?: string;
+}
+
+/**
+ * Flight search parameters
+ */
+export interface FlightSearchRequest {
+  /** Origin airport code or city */
+  origin: string;
+  /** Destination airport code or city */
+  destination: string;
+  /** Departure date (YYYY-MM-DD) */
+  departureDate: string;
+  /** Return date for round trips (YYYY-MM-DD) */
+  returnDate?: string;
+  /** Number of adult passengers (default: 1) */
+  adults?: number;
+  /** Number of child passengers (default: 0) */
+  children?: number;
+  /** Number of lap infants (default: 0) */
+  infants?: number;
+  /** Preferred cabin class */
+  cabinClass?: CabinClass;
+  /** Maximum connections (default: any) */
+  maxStops?: number;
+  /** Currency for prices (ISO 4217, default: the provider's currency) */
+  currency?: string;
+}
+
+/**
+ * Shape of a flight trip
+ */
+export type FlightTripType = 'one_way' | 'round_trip' | 'multi_city';
+
+/**
+ * One leg of a flight query
+ */
+export interface FlightQueryLeg {
+  /** Origin airport code or city */
+  origin: string;
+  /** Destination airport code or city */
+  destination: string;
+  /** Departure date (YYYY-MM-DD) */
+  date: string;
+}
+
+/**
+ * Passengers on a flight query
+ */
+export interface PassengerCounts {
+  adults: number;
+  children: number;
+  /** Lap infants */
+  infants: number;
+}
+
+/**
+ * Flight query for one-way, round-trip or multi-city trips
+ * Each leg is searched separately; a round trip is two legs with the route reversed.
+ */
+export interface FlightQuery {
+  /** Legs in travel order */
+  legs: FlightQueryLeg[];
+  /** Also search this many days either side of each leg date (0-3, default: 0) */
+  dateWindowDays?: number;
+  /** Preferred cabin class */
+  cabinClass?: CabinClass;
+  /** Passengers (default: one adult) */
+  passengers?: PassengerCounts;
+  /** Airline IATA codes to rank higher (e.g., from loyalty programs) */
+  preferredAirlines?: string[];
+  /** Maximum connections per leg */
+  maxStops?: number;
+  /** Currency for prices (ISO 4217) */
+  currency?: string;
+}
+
+/**
+ * Hotel search parameters
+ */
+export interface HotelSearchRequest {
+  /** City, area, address or hotel name */
+  location: string;
+  /** Check-in date (YYYY-MM-DD) */
+  checkInDate: string;
+  /** Check-out date (YYYY-MM-DD) */
+  checkOutDate: string;
+  /** Number of adults (default: 2) */
+  adults?: number;
+  /** Number of children (default: 0) */
+  children?: number;
+}
+
+/**
+ * Ground transport search parameters
+ */
+export interface TransferSearchRequest {
+  /** Origin address, airport code or place name */
+  origin: string;
+  /** Destination address, airport code or place name */
+  destination: string;
+  /** Travel date (YYYY-MM-DD), if known */
+  date?: string;
+}
+
+/**
+ * Airport on a flight offer
+ */
+export interface OfferAirport {
+  /** IATA code */
+  code: string;
+  /** Airport name */
+  name: string;
+}
+
+/**
+ * Flight option returned by a search provider
+ * Connections are summarized by their stops and layover airports.
+ */
+export interface FlightOffer {
+  /** Offer ID, unique within one search */
+  id: string;
+  /** Provider that returned the offer */
+  provider: TravelSearchProviderName;
+  /** Operating airline of the first flight */
+  airline: { name: string; code: string };
+  /** Flight number of the first flight */
+  flightNumber: string;
+  /** Departure airport */
+  origin: OfferAirport;
+  /** Final arrival airport */
+  destination: OfferAirport;
+  /** Departure time */
+  departureTime: Date;
+  /** Arrival time at the final destination */
+  arrivalTime: Date;
+  /** Total travel time including layovers */
+  durationMinutes: number;
+  /** Number of connections (0 = nonstop) */
+  stops: number;
+  /** IATA codes of the connection airports */
+  layovers: string[];
+  /** Cabin class */
+  cabinClass?: CabinClass;
+  /** Aircraft type of the first flight */
+  aircraft?: string;
+  /** Fare for all requested passengers */
+  price?: Money;
+  /** Link to book or view the offer */
+  bookingUrl?: string;
+}
+
+/**
+ * Hotel option returned by a search provider
+ */
+export interface HotelOffer {
+  /** Offer ID, unique within one search */
+  id: string;
+  /** Provider that returned the offer */
+  provider: TravelSearchProviderName;
+  /** Property name */
+  name: string;
+  /** Short description */
+  description?: string;
+  /** Official star rating (1-5) */
+  starRating?: number;
+  /** Guest rating (0-5) */
+  rating?: number;
+  /** Number of guest reviews */
+  reviewCount?: number;
+  /** Lowest nightly rate */
+  pricePerNight?: Money;
+  /** Lowest rate for the whole stay */
+  totalPrice?: Money;
+  /** Property address */
+  address?: Address;
+  /** Property coordinates */
+  coordinates?: Coordinates;
+  /** Check-in time (HH:mm) */
+  checkInTime?: string;
+  /** Check-out time (HH:mm) */
+  checkOutTime?: string;
+  /** Amenities (e.g., "Free Wi-Fi", "Pool") */
+  amenities: string[];
+  /** Link to book or view the offer */
+  bookingUrl?: string;
+}
+
+/**
+ * Ground transport option returned by a search provider
+ */
+export interface TransferOffer {
+  /** Offer ID, unique within one search */
+  id: string;
+  /** Provider that returned the offer */
+  provider: TravelSearchProviderName;
+  /** Kind of transport */
+  transferType: TransferType;
+  /** Route summary (e.g., "Taxi via A1") */
+  description: string;
+  /** Travel time */
+  durationMinutes?: number;
+  /** Distance in kilometers */
+  distanceKm?: number;
+  /** Estimated fare */
+  price?: Money;
+  /** Operator or line name */
+  operator?: string;
+  /** Link to book or view the offer */
+  bookingUrl?: string;
+}
+
+/**
+ * Component scores of a ranked flight offer (0-1, higher is better)
+ */
+export interface FlightOfferScores {
+  /** Cheapest fare / this fare */
+  price: number;
+  /** Shortest travel time / this travel time */
+  duration: number;
+  /** 1 for nonstop, 1/2 for one stop, 1/3 for two... */
+  stops: number;
+  /** 1 when operated by a preferred airline */
+  airline: number;
+}
+
+/**
+ * Highlights shown next to a ranked flight offer
+ */
+export type FlightOfferLabel =
+  | 'best'
+  | 'cheapest'
+  | 'fastest'
+  | 'fewest_stops'
+  | 'preferred_airline';
+
+/**
+ * Flight offer with its ranking
+ */
+export interface RankedFlightOffer {
+  /** Position in the ranking (1 = best) */
+  rank: number;
+  /** Weighted score (0-1) */
+  score: number;
+  /** Component scores */
+  scores: FlightOfferScores;
+  /** Highlights */
+  labels: FlightOfferLabel[];
+  /** The offer */
+  offer: FlightOffer;
+}
+
+/**
+ * Ranked offers for one leg of a flight query
+ */
+export interface FlightLegResults {
+  /** Leg position in the query (0-based) */
+  legIndex: number;
+  /** Leg as searched */
+  leg: FlightQueryLeg;
+  /** Dates searched for the leg (YYYY-MM-DD) */
+  searchedDates: string[];
+  /** Offers, best first */
+  offers: RankedFlightOffer[];
+}
+
+/**
+ * Results of a flight query
+ */
+export interface FlightSearchResults {
+  /** Trip shape inferred from the legs */
+  tripType: FlightTripType;
+  /** Results per leg, in travel order */
+  legs: FlightLegResults[];
+}
+
+/**
+ * Place the travelers plan to visit during a hotel stay
+ */
+export interface HotelStayPlace {
+  /** Place name (e.g., meeting title or venue) */
+  name: string;
+  /** Place coordinates */
+  coordinates: Coordinates;
+}
+
+/**
+ * What hotel offers are recommended against
+ */
+export interface HotelRecommendationCriteria {
+  /** Target star rating (1-5); offers more than one star away are dropped */
+  starRating?: number;
+  /** Preferred hotel chains or brands (e.g., "Marriott", "Hilton") */
+  preferredChains?: string[];
+  /** Travelers' loyalty memberships; hotel programs favor their chain */
+  loyaltyPrograms?: LoyaltyProgram[];
+  /** Accessibility needs (e.g., "wheelchair accessible") */
+  accessibility?: string[];
+  /** Accommodation type (hotel, resort, boutique, hostel, airbnb) */
+  accommodationType?: string;
+  /** Places planned during the stay, to stay close to */
+  places?: HotelStayPlace[];
+}
+
+/**
+ * Component scores of a recommended hotel offer (0-1, higher is better)
+ */
+export interface HotelOfferScores {
+  /** Cheapest nightly rate / this nightly rate */
+  price: number;
+  /** Guest rating / 5 */
+  rating: number;
+  /** 1 at the target star rating, less further away */
+  tier: number;
+  /** 1 for a preferred chain or one the travelers hold status with */
+  chain: number;
+  /** 1 next to the planned places, 1/2 at 1 km on average, 1/3 at 2 km... */
+  location: number;
+  /** 1 when an accessibility amenity is listed */
+  accessibility: number;
+  /** 1 when the property matches the accommodation type */
+  accommodation: number;
+}
+
+/**
+ * Hotel offer with its ranking and the reasons behind it
+ */
+export interface RankedHotelOffer {
+  /** Position in the ranking (1 = best) */
+  rank: number;
+  /** Weighted score (0-1) */
+  score: number;
+  /** Component scores */
+  scores: HotelOfferScores;
+  /** Reasons to pick the hotel (e.g., "Marriott Bonvoy Gold", "400 m from Tech Summit") */
+  reasons: string[];
+  /** Hotel chain, when the property belongs to a known one */
+  chain?: string;
+  /** Closest planned place */
+  nearestPlace?: { name: string; distanceKm: number };
+  /** The offer */
+  offer: HotelOffer;
+}
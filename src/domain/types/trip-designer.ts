@@ -4,6 +4,7 @@
  */
 
 import type { ItineraryId, SegmentId } from './branded.js';
+import type { Itinerary } from './itinerary.js';
 
 /**
  * Branded type for session IDs
@@ -57,6 +58,26 @@ export interface Message {
     input?: number;
     output?: number;
   };
+  /** Itinerary changes made by tool calls during this turn (assistant messages only) */
+  changeset?: MessageChangeset;
+}
+
+/**
+ * Itinerary revisions produced by the tool calls of a single chat turn.
+ * Undoing the turn restores the itinerary to `baseRevision`.
+ */
+export interface MessageChangeset {
+  itineraryId: ItineraryId;
+  /** Latest revision before the turn's tool calls ran */
+  baseRevision: number;
+  /** Latest revision after the turn's tool calls ran */
+  headRevision: number;
+  /** Names of the tools that ran during the turn */
+  tools: string[];
+  /** When the turn was undone */
+  undoneAt?: Date;
+  /** Revision recorded by the undo */
+  undoRevision?: number;
 }
 
 /**
@@ -194,6 +215,21 @@ export interface AgentResponse {
   toolCallsMade?: ToolCall[];
   suggestedActions?: SuggestedAction[];
   tripProfileUpdated?: boolean;
+  /** Index of the assistant message in the session */
+  messageIndex?: number;
+  /** Undoable itinerary changes made during this turn */
+  changeset?: MessageChangeset;
+}
+
+/**
+ * Options for a single chat turn
+ */
+export interface ChatOptions {
+  /**
+   * The user can only view the itinerary: the agent is offered read-only
+   * tools and any other tool call is refused
+   */
+  readOnly?: boolean;
 }
 
 /**
@@ -236,6 +272,8 @@ export interface ToolExecutionContext {
   sessionId: SessionId;
   itineraryId: ItineraryId;
   toolCall: ToolCall;
+  /** Refuse tools that change the itinerary (the user can only view it) */
+  readOnly?: boolean;
 }
 
 /**
@@ -293,7 +331,20 @@ export type TripDesignerError =
   | { type: 'context_limit_exceeded'; tokens: number; limit: number }
   | { type: 'invalid_tool_call'; tool: string; validation: string }
   | { type: 'cost_limit_exceeded'; cost: number; limit: number }
-  | { type: 'rate_limit_exceeded'; retryAfter?: number };
+  | { type: 'rate_limit_exceeded'; retryAfter?: number }
+  | { type: 'message_not_found'; sessionId: SessionId; messageIndex: number }
+  | { type: 'undo_unavailable'; reason: string }
+  | { type: 'undo_conflict'; reason: string };
+
+/**
+ * Result of undoing a chat turn
+ */
+export interface MessageUndoResult {
+  messageIndex: number;
+  changeset: MessageChangeset;
+  /** Itinerary after the undo */
+  itinerary: Itinerary;
+}
 
 /**
  * Cost metrics for a session
@@ -351,7 +402,7 @@ export type StreamEvent =
   | { type: 'tool_call'; name: string; arguments: Record<string, unknown> }
   | { type: 'tool_result'; name: string; result: unknown; success: boolean }
   | { type: 'structured_questions'; questions: StructuredQuestion[] }
-  | { type: 'done'; itineraryUpdated: boolean; segmentsModified?: SegmentId[]; tokens?: TokenUsage; cost?: CostData }
+  | { type: 'done'; itineraryUpdated: boolean; segmentsModified?: SegmentId[]; tokens?: TokenUsage; cost?: CostData; messageIndex?: number; changeset?: MessageChangeset }
   | { type: 'error'; message: string };
 
 /**
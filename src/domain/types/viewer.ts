@@ -16,6 +16,11 @@ export type ViewerType = 'hierarchical' | 'calendar' | 'map' | 'timeline' | 'pri
  */
 export type ViewerOutputFormat = 'html' | 'json' | 'markdown';
 
+/**
+ * Calendar grid granularity
+ */
+export type CalendarGridMode = 'month' | 'week';
+
 /**
  * Configuration for viewer rendering
  */
@@ -36,6 +41,8 @@ export interface ViewerConfig {
   groupByDay?: boolean;
   /** Include map data (for map view) */
   includeMapData?: boolean;
+  /** Grid granularity (for calendar view) */
+  calendarMode?: CalendarGridMode;
   /** Custom CSS path */
   customCss?: string;
 }
@@ -82,10 +89,28 @@ export interface SegmentView {
   icon: string;
   /** CSS class for styling */
   cssClass: string;
+  /** Layover before the next leg (flight legs that connect onward) */
+  connection?: ConnectionView;
   /** Raw segment data */
   raw: Segment;
 }
 
+/**
+ * Layover between connecting flight legs
+ */
+export interface ConnectionView {
+  /** Connection airport (e.g., "ORD", or "LHR → LGW" when changing airports) */
+  airport: string;
+  /** Layover duration formatted */
+  layover: string;
+  /** True if the traveler must change airports */
+  crossAirport: boolean;
+  /** True if the layover is shorter than the minimum connection time */
+  belowMinimum: boolean;
+  /** Display description */
+  description: string;
+}
+
 /**
  * Itinerary view model for rendering
  */
@@ -122,6 +147,8 @@ export interface ItineraryMetadata {
   travelerCount: number;
   /** Traveler names */
   travelerNames: string[];
+  /** Travelers with their IDs, for matching segment traveler assignments */
+  travelers: TravelerView[];
   /** Tags */
   tags: string[];
   /** Created date formatted */
@@ -132,6 +159,24 @@ export interface ItineraryMetadata {
   version: number;
 }
 
+/**
+ * Traveler reference for display
+ */
+export interface TravelerView {
+  /** Traveler ID */
+  id: string;
+  /** Full name */
+  name: string;
+  /** Traveler type (adult, child, etc.) */
+  type: string;
+  /** Email address */
+  email?: string;
+  /** Phone number */
+  phone?: string;
+  /** Loyalty memberships formatted for display (e.g., "AF 12345678 (Gold)") */
+  loyaltyPrograms: string[];
+}
+
 /**
  * Statistics for the itinerary
  */
@@ -146,6 +191,10 @@ export interface ItineraryStats {
   activities: number;
   /** Transfers count */
   transfers: number;
+  /** Rail journeys count */
+  rail: number;
+  /** Car rentals count */
+  carRentals: number;
   /** Meetings count */
   meetings: number;
   /** Custom segments count */
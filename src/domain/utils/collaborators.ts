@@ -0,0 +1,65 @@
+/**
+ * Itinerary collaborator roles
+ * Pure functions shared by the storage backends, services and API routes
+ * @module domain/utils/collaborators
+ */
+
+import type { Collaborator, CollaboratorRole, Itinerary } from '../types/itinerary.js';
+
+/** Roles ordered by the access they grant */
+const ROLE_RANK: Record<CollaboratorRole, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3,
+};
+
+/**
+ * Normalize an email for comparison
+ */
+export function normalizeEmail(email: string): string {
+  return email.toLowerCase().trim();
+}
+
+/**
+ * Role of a user on an itinerary
+ * The creator is always an owner; anyone else needs a collaborator entry.
+ * @param itinerary - Itinerary (or summary) with its creator and collaborators
+ * @param email - User email
+ * @returns The user's role, or undefined when the itinerary is not shared with them
+ */
+export function getItineraryRole(
+  itinerary: {
+    createdBy?: string | undefined;
+    collaborators?: Pick<Collaborator, 'email' | 'role'>[] | undefined;
+  },
+  email: string
+): CollaboratorRole | undefined {
+  const key = normalizeEmail(email);
+  if (itinerary.createdBy && normalizeEmail(itinerary.createdBy) === key) {
+    return 'owner';
+  }
+  return itinerary.collaborators?.find((collaborator) => normalizeEmail(collaborator.email) === key)
+    ?.role;
+}
+
+/**
+ * Check whether a role grants at least the access of another
+ * @param role - Role the user has (undefined = no access)
+ * @param required - Role the operation requires
+ */
+export function hasRole(role: CollaboratorRole | undefined, required: CollaboratorRole): boolean {
+  return role !== undefined && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Find a user's collaborator entry on an itinerary
+ */
+export function findCollaborator(
+  itinerary: Pick<Itinerary, 'collaborators'>,
+  email: string
+): Collaborator | undefined {
+  const key = normalizeEmail(email);
+  return itinerary.collaborators?.find(
+    (collaborator) => normalizeEmail(collaborator.email) === key
+  );
+}
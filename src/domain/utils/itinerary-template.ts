@@ -0,0 +1,307 @@
+/**
+ * Itinerary template and cloning transforms
+ * Pure functions shared by the collection service, CLI and trip designer
+ * @module domain/utils/itinerary-template
+ */
+
+import type { SegmentId } from '../types/branded.js';
+import { generateItineraryId, generateSegmentId, generateTemplateId } from '../types/branded.js';
+import { ItineraryStatus, SegmentStatus } from '../types/common.js';
+import type { Itinerary } from '../types/itinerary.js';
+import type { Segment } from '../types/segment.js';
+import type {
+  DayOffset,
+  InstantiateOptions,
+  ItineraryTemplate,
+  TemplateOmittedSegmentField,
+  TemplateSegment,
+  TemplateSummary,
+} from '../types/template.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Segment fields dropped when saving a template */
+const TEMPLATE_OMITTED_FIELDS: ReadonlySet<string> = new Set<TemplateOmittedSegmentField>([
+  'startDatetime',
+  'endDatetime',
+  'travelerIds',
+  'confirmationNumber',
+  'bookingReference',
+  'price',
+  'taxes',
+  'fees',
+  'totalPrice',
+  'checkInDate',
+  'checkOutDate',
+  'seatAssignments',
+  'voucherNumber',
+  'primaryDriver',
+  'additionalDrivers',
+  'driverName',
+  'driverPhone',
+]);
+
+/** Segment fields dropped when cloning: the new trip has not been booked yet */
+const CLONE_OMITTED_FIELDS: ReadonlySet<string> = new Set([
+  'confirmationNumber',
+  'bookingReference',
+  'seatAssignments',
+  'voucherNumber',
+]);
+
+/**
+ * Options for saving an itinerary as a template
+ */
+export interface CreateTemplateOptions {
+  /** Template name (defaults to the itinerary title) */
+  name?: string;
+  /** Template description (defaults to the itinerary description) */
+  description?: string;
+  /** User saving the template */
+  createdBy?: string;
+}
+
+/**
+ * Midnight UTC of the day a date falls on
+ */
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Copy an object without the given keys
+ */
+function omitFields(source: object, fields: ReadonlySet<string>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(source).filter(([key]) => !fields.has(key)));
+}
+
+/**
+ * Express a date as whole days and a time of day after the trip's first day
+ */
+function toDayOffset(date: Date, firstDay: Date): DayOffset {
+  const day = Math.floor((date.getTime() - firstDay.getTime()) / DAY_MS);
+  const hours = String(date.getUTCHours()).padStart(2, '0');
+  const minutes = String(date.getUTCMinutes()).padStart(2, '0');
+  return { day, time: `${hours}:${minutes}` };
+}
+
+/**
+ * Resolve a day offset against the first day of a trip
+ */
+function fromDayOffset(offset: DayOffset, firstDay: Date): Date {
+  const [hours = 0, minutes = 0] = offset.time.split(':').map(Number);
+  return new Date(firstDay.getTime() + offset.day * DAY_MS + (hours * 60 + minutes) * 60 * 1000);
+}
+
+/**
+ * Issue a new ID for every segment and rewrite `dependsOn` links to match
+ * Links to segments that were not carried over are dropped
+ */
+function remapSegmentIds<T extends { id: SegmentId; dependsOn?: SegmentId[] }>(segments: T[]): T[] {
+  const ids = new Map(segments.map((segment) => [segment.id, generateSegmentId()]));
+
+  return segments.map((segment) => {
+    const { dependsOn, ...rest } = segment;
+    const remapped = dependsOn?.flatMap((id) => ids.get(id) ?? []);
+    return {
+      ...rest,
+      id: ids.get(segment.id) ?? generateSegmentId(),
+      ...(remapped?.length ? { dependsOn: remapped } : {}),
+    } as T;
+  });
+}
+
+/**
+ * Segments worth repeating on another trip (cancelled ones are left behind)
+ */
+function activeSegments(itinerary: Itinerary): Segment[] {
+  return itinerary.segments.filter((segment) => segment.status !== SegmentStatus.CANCELLED);
+}
+
+/**
+ * First day of an itinerary: its start date, or the day its earliest segment starts
+ * @param itinerary - Itinerary to inspect
+ * @returns Midnight UTC of the first day, or undefined for an undated, empty trip
+ */
+export function getTripStartDay(itinerary: Itinerary): Date | undefined {
+  if (itinerary.startDate) {
+    return startOfUtcDay(itinerary.startDate);
+  }
+
+  const starts = itinerary.segments.map((segment) => segment.startDatetime.getTime());
+  return starts.length > 0 ? startOfUtcDay(new Date(Math.min(...starts))) : undefined;
+}
+
+/**
+ * Save an itinerary as a reusable template
+ * Travelers, confirmation numbers, seats and prices are stripped and every
+ * segment time becomes an offset from the trip's first day.
+ * @param itinerary - Itinerary to copy
+ * @param options - Name, description and owner of the template
+ * @returns New template
+ */
+export function createTemplate(
+  itinerary: Itinerary,
+  options: CreateTemplateOptions = {}
+): ItineraryTemplate {
+  const segments = activeSegments(itinerary);
+  const firstDay = getTripStartDay(itinerary) ?? startOfUtcDay(new Date());
+
+  const ends = [
+    ...(itinerary.endDate ? [itinerary.endDate.getTime()] : []),
+    ...segments.map((segment) => segment.endDatetime.getTime()),
+  ];
+  const lastDay = ends.length > 0 ? startOfUtcDay(new Date(Math.max(...ends))) : firstDay;
+  const durationDays = Math.max(
+    1,
+    Math.round((lastDay.getTime() - firstDay.getTime()) / DAY_MS) + 1
+  );
+
+  const description = options.description ?? itinerary.description;
+  const createdBy = options.createdBy ?? itinerary.createdBy;
+
+  return {
+    id: generateTemplateId(),
+    name: options.name ?? itinerary.title,
+    ...(description ? { description } : {}),
+    sourceItineraryId: itinerary.id,
+    ...(createdBy ? { createdBy } : {}),
+    createdAt: new Date(),
+    durationDays,
+    ...(itinerary.tripType ? { tripType: itinerary.tripType } : {}),
+    ...(itinerary.origin ? { origin: itinerary.origin } : {}),
+    destinations: itinerary.destinations,
+    tags: itinerary.tags,
+    segments: segments.map(
+      (segment) =>
+        ({
+          ...omitFields(segment, TEMPLATE_OMITTED_FIELDS),
+          start: toDayOffset(segment.startDatetime, firstDay),
+          end: toDayOffset(segment.endDatetime, firstDay),
+        }) as TemplateSegment
+    ),
+  };
+}
+
+/**
+ * Build the listing entry for a template
+ */
+export function toTemplateSummary(template: ItineraryTemplate): TemplateSummary {
+  return {
+    id: template.id,
+    name: template.name,
+    ...(template.description ? { description: template.description } : {}),
+    durationDays: template.durationDays,
+    segmentCount: template.segments.length,
+    createdAt: template.createdAt,
+    ...(template.createdBy ? { createdBy: template.createdBy } : {}),
+  };
+}
+
+/**
+ * Create a draft itinerary from a template, starting on a given day
+ * Segments are tentative, have no travelers and get new IDs; hotel
+ * check-in/check-out dates follow the segment's start and end days.
+ * @param template - Template to instantiate
+ * @param options - Start date, title and owner of the new itinerary
+ * @returns New (unsaved) itinerary
+ */
+export function instantiateTemplate(
+  template: ItineraryTemplate,
+  options: InstantiateOptions
+): Itinerary {
+  const firstDay = startOfUtcDay(options.startDate);
+  const now = new Date();
+
+  const segments = template.segments.map(({ start, end, ...fields }) => {
+    const startDatetime = fromDayOffset(start, firstDay);
+    const endDatetime = fromDayOffset(end, firstDay);
+    return {
+      ...fields,
+      status: SegmentStatus.TENTATIVE,
+      startDatetime,
+      endDatetime,
+      travelerIds: [],
+      ...(fields.type === 'HOTEL'
+        ? { checkInDate: startOfUtcDay(startDatetime), checkOutDate: startOfUtcDay(endDatetime) }
+        : {}),
+    } as Segment;
+  });
+
+  const createdBy = options.createdBy ?? template.createdBy;
+
+  return {
+    id: generateItineraryId(),
+    version: 1,
+    createdAt: now,
+    updatedAt: now,
+    title: options.title ?? template.name,
+    ...(template.description ? { description: template.description } : {}),
+    status: ItineraryStatus.DRAFT,
+    startDate: firstDay,
+    endDate: new Date(firstDay.getTime() + (template.durationDays - 1) * DAY_MS),
+    ...(template.origin ? { origin: template.origin } : {}),
+    destinations: template.destinations,
+    travelers: [],
+    ...(createdBy ? { createdBy } : {}),
+    segments: remapSegmentIds(segments),
+    ...(template.tripType ? { tripType: template.tripType } : {}),
+    tags: template.tags,
+    metadata: { templateId: template.id },
+  };
+}
+
+/**
+ * Copy an itinerary onto a new start date
+ * Every date moves by the same number of days, so times of day and the gaps
+ * between segments are kept. Travelers and prices are kept; confirmation
+ * numbers, seats and vouchers are dropped and segments become tentative.
+ * @param itinerary - Itinerary to copy
+ * @param options - Start date, title and owner of the copy
+ * @returns New (unsaved) itinerary
+ */
+export function cloneItinerary(itinerary: Itinerary, options: InstantiateOptions): Itinerary {
+  const firstDay = startOfUtcDay(options.startDate);
+  const shiftMs = firstDay.getTime() - (getTripStartDay(itinerary) ?? firstDay).getTime();
+  const shift = (date: Date): Date => new Date(date.getTime() + shiftMs);
+  const now = new Date();
+
+  const segments = activeSegments(itinerary).map(
+    (segment) =>
+      ({
+        ...omitFields(segment, CLONE_OMITTED_FIELDS),
+        status: SegmentStatus.TENTATIVE,
+        startDatetime: shift(segment.startDatetime),
+        endDatetime: shift(segment.endDatetime),
+        ...(segment.type === 'HOTEL'
+          ? {
+              checkInDate: shift(segment.checkInDate),
+              checkOutDate: shift(segment.checkOutDate),
+            }
+          : {}),
+      }) as Segment
+  );
+
+  const {
+    calendarFeeds: _feeds,
+    collaborators: _collaborators,
+    createdBy: sourceOwner,
+    ...rest
+  } = itinerary;
+  const createdBy = options.createdBy ?? sourceOwner;
+
+  return {
+    ...rest,
+    id: generateItineraryId(),
+    version: 1,
+    createdAt: now,
+    updatedAt: now,
+    title: options.title ?? itinerary.title,
+    status: ItineraryStatus.DRAFT,
+    startDate: itinerary.startDate ? shift(itinerary.startDate) : firstDay,
+    ...(itinerary.endDate ? { endDate: shift(itinerary.endDate) } : {}),
+    ...(createdBy ? { createdBy } : {}),
+    segments: remapSegmentIds(segments),
+    metadata: { ...itinerary.metadata, clonedFrom: itinerary.id },
+  };
+}
@@ -1,10 +1,12 @@
 import { Command } from 'commander';
 import { demoCommand } from './cli/commands/demo.command.js';
 import { doctorCommand } from './cli/commands/doctor.command.js';
+import { exportCommand } from './cli/commands/export.command.js';
 import { importCommand } from './cli/commands/import.command.js';
 import { itineraryCommand } from './cli/commands/itinerary.command.js';
 import { knowledgeCommand } from './cli/commands/knowledge.command.js';
 import { setupCommand } from './cli/commands/setup.command.js';
+import { storageCommand } from './cli/commands/storage.command.js';
 import { viewCommand, viewersCommand, viewAllCommand } from './cli/commands/view.command.js';
 import { VERSION } from './utils/version.js';
 
@@ -27,6 +29,8 @@ program.addCommand(demoCommand());
 program.addCommand(itineraryCommand());
 program.addCommand(knowledgeCommand());
 program.addCommand(importCommand());
+program.addCommand(exportCommand());
+program.addCommand(storageCommand());
 program.addCommand(viewCommand());
 program.addCommand(viewersCommand());
 program.addCommand(viewAllCommand());
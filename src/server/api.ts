@@ -14,24 +14,36 @@ import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { ItineraryService } from '../services/itinerary.service.js';
 import { ItineraryCollectionService } from '../services/itinerary-collection.service.js';
+import { ItineraryHistoryService } from '../services/itinerary-history.service.js';
+import { CalendarFeedService, omitCalendarFeeds } from '../services/calendar-feed.service.js';
+import { CollaborationService } from '../services/collaboration.service.js';
 import { SegmentService } from '../services/segment.service.js';
 import { DependencyService } from '../services/dependency.service.js';
 import { DocumentImportService } from '../services/document-import.service.js';
 import { TripDesignerService } from '../services/trip-designer/trip-designer.service.js';
+import { createSessionStorage } from '../services/trip-designer/session-storage.js';
 import { TravelAgentService } from '../services/travel-agent.service.js';
 import { TravelAgentFacade } from '../services/travel-agent-facade.service.js';
+import { createTravelSearchProvider } from '../services/travel-search/index.js';
+import type { TravelSearchProvider } from '../services/travel-search/index.js';
 import { KnowledgeService } from '../services/knowledge.service.js';
 import { EmbeddingService } from '../services/embedding.service.js';
 import { VectraStorage } from '../storage/vectra-storage.js';
 import { AVAILABLE_MODELS } from '../services/model-selector.service.js';
 import type { ImportConfig } from '../domain/types/import.js';
+import type { TravelSearchConfig } from '../domain/types/travel-search.js';
+import { BudgetService } from '../services/budget.service.js';
+import type { ExchangeRateProvider } from '../services/exchange-rate.service.js';
 import type { ItineraryId } from '../domain/types/branded.js';
 import type { SessionId } from '../domain/types/trip-designer.js';
+import { createCalendarFeedRouter } from './routers/calendar-feed.router.js';
 import { createCollectionManagerRouter } from './routers/collection-manager.router.js';
 import { createItineraryManagerRouter } from './routers/itinerary-manager.router.js';
 import { createTravelAgentRouter } from './routers/travel-agent.router.js';
 import { createTripDesignerRouter } from './routers/trip-designer.router.js';
+import { createTemplateRouter } from './routers/template.router.js';
 import type { ItineraryStorage } from '../storage/storage.interface.js';
+import { createTemplateStorage } from '../storage/index.js';
 
 // Configure multer for file uploads
 const storage = multer.diskStorage({
@@ -68,19 +80,36 @@ export function createApiServer(config: {
   segmentService: SegmentService;
   dependencyService: DependencyService;
   importConfig?: ImportConfig;
+  travelSearchConfig?: TravelSearchConfig;
+  exchangeRates: ExchangeRateProvider;
 }): express.Application {
-  const { storage, segmentService, dependencyService, importConfig } = config;
+  const {
+    storage,
+    segmentService,
+    dependencyService,
+    importConfig,
+    travelSearchConfig,
+    exchangeRates,
+  } = config;
   const app = express();
 
   // Initialize services
   const itineraryService = new ItineraryService(storage);
-  const collectionService = new ItineraryCollectionService(storage);
+  const templateStorage = createTemplateStorage();
+  const collectionService = new ItineraryCollectionService(storage, templateStorage);
+  const historyService = new ItineraryHistoryService(storage);
+  const calendarFeedService = new CalendarFeedService(storage);
+  const collaborationService = new CollaborationService(storage);
+  const budgetService = new BudgetService(exchangeRates);
 
   // Middleware
   app.use(cors());
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
 
+  // Feed tokens are secrets; only the feed routes hand them out
+  app.set('json replacer', omitCalendarFeeds);
+
   // Initialize import service only if we have API key
   const importService = importConfig
     ? new DocumentImportService(importConfig, itineraryService)
@@ -109,30 +138,49 @@ export function createApiServer(config: {
     }
   }
 
-  // Initialize Travel Agent service if we have SERPAPI key
-  const travelAgentService = importConfig?.serpapi?.apiKey
+  // Initialize travel search only when a SerpAPI key or provider is configured,
+  // so fixture offers are never used unless asked for
+  const searchConfig: TravelSearchConfig = {
+    ...(importConfig?.serpapi?.apiKey ? { serpapiKey: importConfig.serpapi.apiKey } : {}),
+    ...travelSearchConfig,
+  };
+  let travelSearchProvider: TravelSearchProvider | undefined;
+  if (searchConfig.serpapiKey || searchConfig.provider) {
+    const providerResult = createTravelSearchProvider(searchConfig);
+    if (providerResult.success) {
+      travelSearchProvider = providerResult.value;
+    } else {
+      console.warn('Travel search disabled:', providerResult.error.message);
+    }
+  }
+
+  // Initialize Travel Agent service if travel search is available
+  const travelAgentService = travelSearchProvider
     ? new TravelAgentService({
-        apiKey: importConfig.serpapi.apiKey,
-        ...(importConfig.apiKey ? { thinkingModel: 'anthropic/claude-sonnet-4-20250514' } : {}),
+        searchProvider: travelSearchProvider,
+        ...(importConfig?.apiKey ? { thinkingModel: 'anthropic/claude-sonnet-4-20250514' } : {}),
       })
     : null;
 
   // Initialize Travel Agent facade
   const travelAgentFacade = new TravelAgentFacade(itineraryService, travelAgentService);
 
+  // Chat sessions persist to ./data/sessions (or Blob) so they survive restarts
+  const sessionStorage = createSessionStorage();
+
   // Initialize Trip Designer service if we have API key
   const tripDesignerService = importConfig?.apiKey
-    ? new TripDesignerService(
-        { apiKey: importConfig.apiKey },
-        undefined, // Use default in-memory session storage
-        {
-          itineraryService,
-          segmentService,
-          dependencyService,
-          ...(knowledgeService ? { knowledgeService } : {}),
-          travelAgentFacade, // Pass the Travel Agent facade
-        }
-      )
+    ? new TripDesignerService({ apiKey: importConfig.apiKey }, sessionStorage, {
+        itineraryService,
+        segmentService,
+        dependencyService,
+        ...(knowledgeService ? { knowledgeService } : {}),
+        travelAgentFacade, // Pass the Travel Agent facade
+        historyService,
+        templateStorage,
+        ...(travelSearchProvider ? { travelSearchProvider } : {}),
+        budgetService,
+      })
     : null;
 
   // Health check endpoint
@@ -145,8 +193,19 @@ export function createApiServer(config: {
   // =====================================================================
 
   // Mount v1 routers
-  const collectionManagerRouter = createCollectionManagerRouter(collectionService, itineraryService);
-  const itineraryManagerRouter = createItineraryManagerRouter(segmentService, dependencyService);
+  const collectionManagerRouter = createCollectionManagerRouter(
+    collectionService,
+    collaborationService,
+    itineraryService
+  );
+  const itineraryManagerRouter = createItineraryManagerRouter(
+    segmentService,
+    dependencyService,
+    itineraryService,
+    historyService,
+    collaborationService,
+    budgetService
+  );
   const travelAgentRouter = createTravelAgentRouter(
     importService,
     upload,
@@ -158,13 +217,24 @@ export function createApiServer(config: {
     itineraryService,
     segmentService,
     dependencyService,
-    travelAgentFacade
+    travelAgentFacade,
+    historyService,
+    sessionStorage,
+    templateStorage,
+    collaborationService
+  );
+  const calendarFeedRouter = createCalendarFeedRouter(
+    calendarFeedService,
+    collaborationService
   );
+  const templateRouter = createTemplateRouter(collectionService);
 
   app.use('/api/v1/itineraries', collectionManagerRouter);
   app.use('/api/v1/itineraries', itineraryManagerRouter);
   app.use('/api/v1/agent', travelAgentRouter);
   app.use('/api/v1/designer', tripDesignerRouter);
+  app.use('/api/v1/feeds', calendarFeedRouter);
+  app.use('/api/v1/templates', templateRouter);
 
   // =====================================================================
   // LEGACY ROUTES (DEPRECATED - for backward compatibility)
@@ -12,9 +12,11 @@
 import { createApiServer } from './api.js';
 import { SegmentService } from '../services/segment.service.js';
 import { DependencyService } from '../services/dependency.service.js';
+import { loadExchangeRateProvider } from '../services/exchange-rate.service.js';
 import { JsonItineraryStorage } from '../storage/json-storage.js';
 import { YamlConfigStorage } from '../storage/yaml-config.js';
 import type { ImportConfig } from '../domain/types/import.js';
+import type { TravelSearchConfig } from '../domain/types/travel-search.js';
 import path from 'node:path';
 import { promises as fs } from 'node:fs';
 
@@ -70,6 +72,20 @@ async function main() {
     }
   }
 
+  // Travel search settings, with SERPAPI_KEY fallback
+  const travelSearchResult = await configStorage.getTravelSearchConfig();
+  const travelSearchConfig: TravelSearchConfig = travelSearchResult.success
+    ? travelSearchResult.value
+    : process.env.SERPAPI_KEY
+      ? { serpapiKey: process.env.SERPAPI_KEY }
+      : {};
+
+  // Exchange rates for budget conversion (EXCHANGE_RATES_FILE)
+  const ratesResult = await loadExchangeRateProvider();
+  if (!ratesResult.success) {
+    throw new Error(ratesResult.error.message);
+  }
+
   // Create and start server
   const app = createApiServer({
     port,
@@ -77,6 +93,8 @@ async function main() {
     segmentService,
     dependencyService,
     importConfig,
+    travelSearchConfig,
+    exchangeRates: ratesResult.value,
   });
 
   app.listen(port, () => {
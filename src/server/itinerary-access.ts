@@ -0,0 +1,72 @@
+/**
+ * Collaborator role checks for itinerary routes
+ *
+ * Requests name their user in the `x-user-email` header. Routes under
+ * `/api/v1/itineraries/:id` require the user to hold at least a given role on
+ * the itinerary: viewer to read, editor to change, owner to delete or share.
+ * Requests without the header are not scoped to a user, like the list route.
+ *
+ * @module server/itinerary-access
+ */
+
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import type { ItineraryId } from '../domain/types/branded.js';
+import type { CollaboratorRole } from '../domain/types/itinerary.js';
+import type { CollaborationService } from '../services/collaboration.service.js';
+
+/**
+ * Read the requesting user's email from the `x-user-email` header
+ * @param req - Express request
+ * @returns The email, or undefined if the request is not scoped to a user
+ */
+export function getUserEmail(req: Request): string | undefined {
+  const header = req.get('x-user-email')?.trim();
+  return header ? header : undefined;
+}
+
+/**
+ * Create middleware that rejects users without a role on the `:id` itinerary
+ * Responds 404 to users the itinerary is not shared with and 403 to users with a lesser role.
+ * @param collaborationService - Service used to look up roles
+ * @param required - Minimum role the route needs
+ */
+export function requireItineraryRole(
+  collaborationService: CollaborationService,
+  required: CollaboratorRole
+): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const userEmail = getUserEmail(req);
+    if (!userEmail) {
+      return next();
+    }
+
+    try {
+      const result = await collaborationService.authorize(
+        req.params.id as ItineraryId,
+        userEmail,
+        required
+      );
+
+      if (!result.success) {
+        if (result.error.code === 'FORBIDDEN') {
+          return res.status(403).json({
+            error: 'Forbidden',
+            message: result.error.message,
+          });
+        }
+        return res.status(result.error.code === 'NOT_FOUND' ? 404 : 500).json({
+          error: result.error.code === 'NOT_FOUND' ? 'Itinerary not found' : 'Access check failed',
+          message: result.error.message,
+        });
+      }
+
+      res.locals.itineraryRole = result.value.role;
+      return next();
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+}
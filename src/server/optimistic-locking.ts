@@ -0,0 +1,62 @@
+/**
+ * Optimistic locking helpers for itinerary write routes
+ *
+ * Clients send the itinerary version their change is based on in an `If-Match`
+ * header. Writes against a stale version are answered with 409 Conflict and the
+ * version currently stored, so the client can refresh and retry.
+ *
+ * @module server/optimistic-locking
+ */
+
+import type { Request, Response } from 'express';
+import type { VersionConflictError } from '../core/errors.js';
+
+/**
+ * Parse an If-Match header value into an itinerary version.
+ * Accepts `3`, `"3"` and `W/"3"`; a missing header or `*` matches any version.
+ * @param header - Raw header value
+ * @returns The expected version, undefined if any version matches, or null if malformed
+ */
+export function parseIfMatch(header: string | null | undefined): number | undefined | null {
+  const value = header?.trim();
+  if (!value || value === '*') {
+    return undefined;
+  }
+
+  const match = /^(?:W\/)?"?(\d+)"?$/.exec(value);
+  return match?.[1] ? Number(match[1]) : null;
+}
+
+/**
+ * Read the expected itinerary version from a request's If-Match header
+ * @param req - Express request
+ * @returns The expected version, undefined if any version matches, or null if malformed
+ */
+export function getExpectedVersion(req: Request): number | undefined | null {
+  return parseIfMatch(req.get('If-Match'));
+}
+
+/**
+ * Respond 400 to a malformed If-Match header
+ * @param res - Express response
+ */
+export function sendInvalidIfMatch(res: Response): Response {
+  return res.status(400).json({
+    error: 'Invalid If-Match header',
+    message: 'If-Match must be an itinerary version number',
+  });
+}
+
+/**
+ * Respond 409 to a write based on a stale itinerary version
+ * @param res - Express response
+ * @param error - Version conflict from the storage layer
+ */
+export function sendVersionConflict(res: Response, error: VersionConflictError): Response {
+  return res.status(409).json({
+    error: 'Version conflict',
+    message: error.message,
+    expectedVersion: error.expectedVersion,
+    currentVersion: error.currentVersion,
+  });
+}
@@ -0,0 +1,263 @@
+/**
+ * Calendar Feed Router
+ * Issues, revokes and serves subscribable (webcal) calendar feeds
+ * @module server/routers/calendar-feed
+ */
+
+import { type Request, type Response, Router } from 'express';
+import type { ItineraryId } from '../../domain/types/branded.js';
+import type { CalendarFeedService } from '../../services/calendar-feed.service.js';
+import type { CollaborationService } from '../../services/collaboration.service.js';
+import { requireItineraryRole } from '../itinerary-access.js';
+
+export function createCalendarFeedRouter(
+  calendarFeedService: CalendarFeedService,
+  collaborationService: CollaborationService
+): Router {
+  const router = Router();
+  const isOwner = requireItineraryRole(collaborationService, 'owner');
+
+  /**
+   * GET /api/v1/feeds/itineraries/:id/:token.ics
+   * Calendar feed of one itinerary, regenerated on every request
+   * No user header needed: the token authorizes the request
+   */
+  router.get('/itineraries/:id/:token.ics', async (req: Request, res: Response) => {
+    try {
+      const itineraryId = req.params.id as ItineraryId;
+      const token = req.params.token as string;
+
+      const result = await calendarFeedService.renderItineraryFeed(itineraryId, token);
+      if (!result.success) {
+        return res.status(404).json({
+          error: 'Calendar feed not found',
+          message: result.error.message,
+        });
+      }
+
+      return sendCalendar(res, result.value);
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * GET /api/v1/feeds/itineraries/:id
+   * List the active feeds of an itinerary (owners only)
+   */
+  router.get('/itineraries/:id', isOwner, async (req: Request, res: Response) => {
+    try {
+      const itineraryId = req.params.id as ItineraryId;
+
+      const result = await calendarFeedService.listItineraryFeeds(itineraryId);
+      if (!result.success) {
+        return res.status(404).json({
+          error: 'Itinerary not found',
+          message: result.error.message,
+        });
+      }
+
+      return res.json(result.value);
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * POST /api/v1/feeds/itineraries/:id
+   * Issue a feed token for an itinerary (owners only)
+   */
+  router.post('/itineraries/:id', isOwner, async (req: Request, res: Response) => {
+    try {
+      const itineraryId = req.params.id as ItineraryId;
+
+      const result = await calendarFeedService.createItineraryFeed(itineraryId);
+      if (!result.success) {
+        const statusCode = result.error.code === 'NOT_FOUND' ? 404 : 500;
+        return res.status(statusCode).json({
+          error: 'Failed to create calendar feed',
+          message: result.error.message,
+        });
+      }
+
+      return res.status(201).json(result.value);
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * DELETE /api/v1/feeds/itineraries/:id/:token
+   * Revoke an itinerary feed token (owners only)
+   */
+  router.delete('/itineraries/:id/:token', isOwner, async (req: Request, res: Response) => {
+    try {
+      const itineraryId = req.params.id as ItineraryId;
+      const token = req.params.token as string;
+
+      const result = await calendarFeedService.revokeItineraryFeed(itineraryId, token);
+      if (!result.success) {
+        const statusCode = result.error.code === 'NOT_FOUND' ? 404 : 500;
+        return res.status(statusCode).json({
+          error: 'Failed to revoke calendar feed',
+          message: result.error.message,
+        });
+      }
+
+      return res.status(204).send();
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * GET /api/v1/feeds/users/:email/:token.ics
+   * Aggregated calendar feed of all itineraries a user owns
+   * No user header needed: the token authorizes the request
+   */
+  router.get('/users/:email/:token.ics', async (req: Request, res: Response) => {
+    try {
+      const userEmail = req.params.email as string;
+      const token = req.params.token as string;
+
+      const result = await calendarFeedService.renderUserFeed(userEmail, token);
+      if (!result.success) {
+        return res.status(404).json({
+          error: 'Calendar feed not found',
+          message: result.error.message,
+        });
+      }
+
+      return sendCalendar(res, result.value);
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * GET /api/v1/feeds/users
+   * List the current user's aggregated feeds
+   * Headers: X-User-Email (required)
+   */
+  router.get('/users', async (req: Request, res: Response) => {
+    try {
+      const userEmail = req.headers['x-user-email'] as string | undefined;
+      if (!userEmail) {
+        return res.status(400).json({
+          error: 'Missing user',
+          message: 'X-User-Email header is required',
+        });
+      }
+
+      const result = await calendarFeedService.listUserFeeds(userEmail);
+      if (!result.success) {
+        return res.status(500).json({
+          error: 'Failed to list calendar feeds',
+          message: result.error.message,
+        });
+      }
+
+      return res.json(result.value);
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * POST /api/v1/feeds/users
+   * Issue an aggregated feed token for the current user
+   * Headers: X-User-Email (required)
+   */
+  router.post('/users', async (req: Request, res: Response) => {
+    try {
+      const userEmail = req.headers['x-user-email'] as string | undefined;
+      if (!userEmail) {
+        return res.status(400).json({
+          error: 'Missing user',
+          message: 'X-User-Email header is required',
+        });
+      }
+
+      const result = await calendarFeedService.createUserFeed(userEmail);
+      if (!result.success) {
+        const statusCode = result.error.code === 'NOT_FOUND' ? 404 : 500;
+        return res.status(statusCode).json({
+          error: 'Failed to create calendar feed',
+          message: result.error.message,
+        });
+      }
+
+      return res.status(201).json(result.value);
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * DELETE /api/v1/feeds/users/:token
+   * Revoke one of the current user's aggregated feed tokens
+   * Headers: X-User-Email (required)
+   */
+  router.delete('/users/:token', async (req: Request, res: Response) => {
+    try {
+      const userEmail = req.headers['x-user-email'] as string | undefined;
+      if (!userEmail) {
+        return res.status(400).json({
+          error: 'Missing user',
+          message: 'X-User-Email header is required',
+        });
+      }
+
+      const result = await calendarFeedService.revokeUserFeed(
+        userEmail,
+        req.params.token as string
+      );
+      if (!result.success) {
+        const statusCode = result.error.code === 'NOT_FOUND' ? 404 : 500;
+        return res.status(statusCode).json({
+          error: 'Failed to revoke calendar feed',
+          message: result.error.message,
+        });
+      }
+
+      return res.status(204).send();
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  return router;
+}
+
+/**
+ * Send a feed calendar; clients must revalidate so every poll sees current storage
+ */
+function sendCalendar(res: Response, calendar: string): Response {
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache');
+  return res.send(calendar);
+}
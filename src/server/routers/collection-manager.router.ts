@@ -5,29 +5,63 @@
  */
 
 import { Router, type Request, type Response } from 'express';
+import type { CollaborationService } from '../../services/collaboration.service.js';
 import type { ItineraryCollectionService } from '../../services/itinerary-collection.service.js';
 import type { ItineraryService } from '../../services/itinerary.service.js';
 import type { ItineraryId } from '../../domain/types/branded.js';
+import { isVersionConflictError } from '../../core/errors.js';
+import { itineraryQueryParamsSchema } from '../../domain/schemas/itinerary-query.schema.js';
+import { collaboratorInviteSchema } from '../../domain/schemas/itinerary.schema.js';
+import { getItineraryRole, normalizeEmail } from '../../domain/utils/collaborators.js';
+import {
+  instantiateRequestSchema,
+  saveTemplateRequestSchema,
+} from '../../domain/schemas/template.schema.js';
+import {
+  getExpectedVersion,
+  sendInvalidIfMatch,
+  sendVersionConflict,
+} from '../optimistic-locking.js';
+import { getUserEmail, requireItineraryRole } from '../itinerary-access.js';
 
 export function createCollectionManagerRouter(
   collectionService: ItineraryCollectionService,
+  collaborationService: CollaborationService,
   itineraryService?: ItineraryService
 ): Router {
   const router = Router();
+  const canView = requireItineraryRole(collaborationService, 'viewer');
+  const canEdit = requireItineraryRole(collaborationService, 'editor');
+  const isOwner = requireItineraryRole(collaborationService, 'owner');
 
   /**
    * GET /api/v1/itineraries
-   * List all itineraries (summaries) for the current user
+   * List itineraries (summaries) the current user created or that are shared with them;
+   * each item carries the user's `role` on it
+   * Query: status, from, to, destination, traveler, tag, tripType, segmentType,
+   * segmentStatus, unconfirmed, q, sortBy, sortOrder, limit, offset
+   * The total match count (before limit/offset) is sent in the X-Total-Count header
    */
   router.get('/', async (req: Request, res: Response) => {
     try {
       // Get user email from X-User-Email header
       const userEmail = req.headers['x-user-email'] as string | undefined;
 
-      // Use user-scoped list if email provided, otherwise list all
-      const result = userEmail
-        ? await collectionService.listItinerariesByUser(userEmail)
-        : await collectionService.listItineraries();
+      const validation = itineraryQueryParamsSchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: 'Invalid query parameters',
+          message: validation.error.errors
+            .map((e) => `${e.path.join('.')}: ${e.message}`)
+            .join('; '),
+        });
+      }
+
+      // Scope to the user if email provided, otherwise search all
+      const result = await collectionService.queryItineraries({
+        ...validation.data,
+        ...(userEmail ? { accessibleBy: userEmail } : {}),
+      });
 
       if (!result.success) {
         return res.status(500).json({
@@ -36,10 +70,17 @@ export function createCollectionManagerRouter(
         });
       }
 
-      console.log(`[EXPRESS] Listed ${result.value.length} itineraries for user: ${userEmail || 'all'}`);
-      res.json(result.value);
+      console.log(
+        `[EXPRESS] Listed ${result.value.items.length} of ${result.value.total} itineraries for user: ${userEmail || 'all'}`
+      );
+      res.setHeader('X-Total-Count', String(result.value.total));
+      return res.json(
+        userEmail
+          ? result.value.items.map((item) => ({ ...item, role: getItineraryRole(item, userEmail) }))
+          : result.value.items
+      );
     } catch (error) {
-      res.status(500).json({
+      return res.status(500).json({
         error: 'Internal server error',
         message: error instanceof Error ? error.message : String(error),
       });
@@ -93,7 +134,7 @@ export function createCollectionManagerRouter(
    * GET /api/v1/itineraries/:id
    * Get full itinerary with segments
    */
-  router.get('/:id', async (req: Request, res: Response) => {
+  router.get('/:id', canView, async (req: Request, res: Response) => {
     try {
       const id = req.params.id as ItineraryId;
       if (!id) {
@@ -134,10 +175,15 @@ export function createCollectionManagerRouter(
   /**
    * PATCH /api/v1/itineraries/:id
    * Update itinerary metadata (title, description, dates, status, tags)
+   * Headers: If-Match (optional) - itinerary version the update is based on; 409 if stale
    */
-  router.patch('/:id', async (req: Request, res: Response) => {
+  router.patch('/:id', canEdit, async (req: Request, res: Response) => {
     try {
       const id = req.params.id as ItineraryId;
+      const expectedVersion = getExpectedVersion(req);
+      if (expectedVersion === null) {
+        return sendInvalidIfMatch(res);
+      }
       const { title, description, startDate, endDate, status, tripType, tags } = req.body;
 
       const updates: Parameters<typeof collectionService.updateMetadata>[1] = {};
@@ -150,9 +196,12 @@ export function createCollectionManagerRouter(
       if (tripType !== undefined) updates.tripType = tripType;
       if (tags !== undefined) updates.tags = tags;
 
-      const result = await collectionService.updateMetadata(id, updates);
+      const result = await collectionService.updateMetadata(id, updates, expectedVersion);
 
       if (!result.success) {
+        if (isVersionConflictError(result.error)) {
+          return sendVersionConflict(res, result.error);
+        }
         return res.status(404).json({
           error: 'Failed to update itinerary',
           message: result.error.message,
@@ -170,9 +219,9 @@ export function createCollectionManagerRouter(
 
   /**
    * DELETE /api/v1/itineraries/:id
-   * Delete itinerary
+   * Delete itinerary (owners only)
    */
-  router.delete('/:id', async (req: Request, res: Response) => {
+  router.delete('/:id', isOwner, async (req: Request, res: Response) => {
     try {
       const id = req.params.id as ItineraryId;
       const result = await collectionService.deleteItinerary(id);
@@ -193,5 +242,207 @@ export function createCollectionManagerRouter(
     }
   });
 
+  /**
+   * POST /api/v1/itineraries/:id/clone
+   * Copy an itinerary onto a new start date, shifting every segment
+   * Body: { startDate, title? }
+   */
+  router.post('/:id/clone', canView, async (req: Request, res: Response) => {
+    try {
+      const id = req.params.id as ItineraryId;
+      const userEmail = req.headers['x-user-email'] as string | undefined;
+
+      const validation = instantiateRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: 'Invalid request body',
+          message: validation.error.errors
+            .map((e) => `${e.path.join('.')}: ${e.message}`)
+            .join('; '),
+        });
+      }
+
+      const result = await collectionService.cloneItinerary(id, {
+        ...validation.data,
+        ...(userEmail ? { createdBy: userEmail } : {}),
+      });
+
+      if (!result.success) {
+        return res.status(result.error.code === 'NOT_FOUND' ? 404 : 500).json({
+          error: 'Failed to clone itinerary',
+          message: result.error.message,
+        });
+      }
+
+      return res.status(201).json(result.value);
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * POST /api/v1/itineraries/:id/template
+   * Save an itinerary as a reusable template
+   * Body: { name?, description? }
+   */
+  router.post('/:id/template', canView, async (req: Request, res: Response) => {
+    try {
+      const id = req.params.id as ItineraryId;
+      const userEmail = req.headers['x-user-email'] as string | undefined;
+
+      const validation = saveTemplateRequestSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({
+          error: 'Invalid request body',
+          message: validation.error.errors
+            .map((e) => `${e.path.join('.')}: ${e.message}`)
+            .join('; '),
+        });
+      }
+
+      const result = await collectionService.saveAsTemplate(id, {
+        ...validation.data,
+        ...(userEmail ? { createdBy: userEmail } : {}),
+      });
+
+      if (!result.success) {
+        return res.status(result.error.code === 'NOT_FOUND' ? 404 : 500).json({
+          error: 'Failed to save template',
+          message: result.error.message,
+        });
+      }
+
+      return res.status(201).json(result.value);
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * GET /api/v1/itineraries/:id/collaborators
+   * List everyone with access to an itinerary, creator first
+   */
+  router.get('/:id/collaborators', canView, async (req: Request, res: Response) => {
+    try {
+      const id = req.params.id as ItineraryId;
+      const result = await collaborationService.listCollaborators(id);
+
+      if (!result.success) {
+        return res.status(result.error.code === 'NOT_FOUND' ? 404 : 500).json({
+          error: 'Failed to list collaborators',
+          message: result.error.message,
+        });
+      }
+
+      return res.json(result.value);
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * POST /api/v1/itineraries/:id/collaborators
+   * Share an itinerary by email, or change an existing collaborator's role (owners only)
+   * Body: { email, role: 'owner' | 'editor' | 'viewer' }
+   */
+  router.post('/:id/collaborators', isOwner, async (req: Request, res: Response) => {
+    try {
+      const id = req.params.id as ItineraryId;
+
+      const validation = collaboratorInviteSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: 'Invalid request body',
+          message: validation.error.errors
+            .map((e) => `${e.path.join('.')}: ${e.message}`)
+            .join('; '),
+        });
+      }
+
+      const result = await collaborationService.invite(id, validation.data, getUserEmail(req));
+
+      if (!result.success) {
+        if (isVersionConflictError(result.error)) {
+          return sendVersionConflict(res, result.error);
+        }
+        const status =
+          result.error.code === 'NOT_FOUND'
+            ? 404
+            : result.error.code === 'CONSTRAINT_VIOLATION'
+              ? 400
+              : 500;
+        return res.status(status).json({
+          error: 'Failed to share itinerary',
+          message: result.error.message,
+        });
+      }
+
+      return res.status(201).json(result.value);
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * DELETE /api/v1/itineraries/:id/collaborators/:email
+   * Stop sharing an itinerary with a user
+   * Owners can remove anyone; editors and viewers can only remove themselves
+   */
+  router.delete('/:id/collaborators/:email', canView, async (req: Request, res: Response) => {
+    try {
+      const id = req.params.id as ItineraryId;
+      const email = req.params.email as string;
+      const userEmail = getUserEmail(req);
+
+      if (
+        userEmail &&
+        res.locals.itineraryRole !== 'owner' &&
+        normalizeEmail(email) !== normalizeEmail(userEmail)
+      ) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'Only owners can remove other collaborators',
+        });
+      }
+
+      const result = await collaborationService.remove(id, email, userEmail);
+
+      if (!result.success) {
+        if (isVersionConflictError(result.error)) {
+          return sendVersionConflict(res, result.error);
+        }
+        const status =
+          result.error.code === 'NOT_FOUND'
+            ? 404
+            : result.error.code === 'CONSTRAINT_VIOLATION'
+              ? 400
+              : 500;
+        return res.status(status).json({
+          error: 'Failed to remove collaborator',
+          message: result.error.message,
+        });
+      }
+
+      return res.status(204).send();
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
   return router;
 }
@@ -4,24 +4,270 @@
  * @module server/routers/itinerary-manager
  */
 
-import { Router, type Request, type Response } from 'express';
-import type { SegmentService } from '../../services/segment.service.js';
-import type { DependencyService } from '../../services/dependency.service.js';
+import { type Request, type Response, Router } from 'express';
+import { isVersionConflictError } from '../../core/errors.js';
+import { rescheduleRequestSchema } from '../../domain/schemas/reschedule.schema.js';
 import type { ItineraryId, SegmentId } from '../../domain/types/branded.js';
 import type { Segment } from '../../domain/types/segment.js';
+import type { BudgetService } from '../../services/budget.service.js';
+import type { CollaborationService } from '../../services/collaboration.service.js';
+import type { DependencyService } from '../../services/dependency.service.js';
+import { ICSExportService, getCalendarFilename } from '../../services/ics-export.service.js';
+import type { ItineraryHistoryService } from '../../services/itinerary-history.service.js';
+import type { ItineraryService } from '../../services/itinerary.service.js';
+import type { SegmentService } from '../../services/segment.service.js';
+import {
+  TravelDocumentService,
+  getTravelDocumentFilename,
+} from '../../services/travel-document.service.js';
+import { requireItineraryRole } from '../itinerary-access.js';
+import {
+  getExpectedVersion,
+  sendInvalidIfMatch,
+  sendVersionConflict,
+} from '../optimistic-locking.js';
 
 export function createItineraryManagerRouter(
   segmentService: SegmentService,
-  dependencyService: DependencyService
+  dependencyService: DependencyService,
+  itineraryService: ItineraryService,
+  historyService: ItineraryHistoryService,
+  collaborationService: CollaborationService,
+  budgetService: BudgetService,
+  icsExportService: ICSExportService = new ICSExportService(),
+  travelDocumentService: TravelDocumentService = new TravelDocumentService()
 ): Router {
   const router = Router();
+  const canView = requireItineraryRole(collaborationService, 'viewer');
+  const canEdit = requireItineraryRole(collaborationService, 'editor');
+
+  /**
+   * GET /api/v1/itineraries/:id/history
+   * List saved revisions of an itinerary (oldest first)
+   */
+  router.get('/:id/history', canView, async (req: Request, res: Response) => {
+    try {
+      const itineraryId = req.params.id as ItineraryId;
+
+      const result = await historyService.listRevisions(itineraryId);
+      if (!result.success) {
+        return res.status(result.error.code === 'NOT_FOUND' ? 404 : 500).json({
+          error: 'Failed to list revisions',
+          message: result.error.message,
+        });
+      }
+
+      return res.json(result.value);
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * GET /api/v1/itineraries/:id/history/diff?from=1&to=3
+   * Structural diff between two revisions (to defaults to the latest)
+   */
+  router.get('/:id/history/diff', canView, async (req: Request, res: Response) => {
+    try {
+      const itineraryId = req.params.id as ItineraryId;
+      const from = Number(req.query.from);
+      const to = req.query.to === undefined ? undefined : Number(req.query.to);
+
+      if (!Number.isInteger(from) || (to !== undefined && !Number.isInteger(to))) {
+        return res.status(400).json({
+          error: 'Invalid request',
+          message: 'from (and to, if given) must be revision numbers',
+        });
+      }
+
+      const result = await historyService.diff(itineraryId, from, to);
+      if (!result.success) {
+        return res.status(result.error.code === 'NOT_FOUND' ? 404 : 500).json({
+          error: 'Failed to diff revisions',
+          message: result.error.message,
+        });
+      }
+
+      return res.json(result.value);
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * GET /api/v1/itineraries/:id/history/:revision
+   * Get the itinerary as it was at a revision
+   */
+  router.get('/:id/history/:revision', canView, async (req: Request, res: Response) => {
+    try {
+      const itineraryId = req.params.id as ItineraryId;
+      const revision = Number(req.params.revision);
+
+      if (!Number.isInteger(revision)) {
+        return res.status(400).json({
+          error: 'Invalid request',
+          message: 'revision must be a number',
+        });
+      }
+
+      const result = await historyService.getRevision(itineraryId, revision);
+      if (!result.success) {
+        return res.status(result.error.code === 'NOT_FOUND' ? 404 : 500).json({
+          error: 'Failed to load revision',
+          message: result.error.message,
+        });
+      }
+
+      return res.json(result.value);
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * POST /api/v1/itineraries/:id/history/:revision/restore
+   * Restore an itinerary to a prior revision (saved as a new version)
+   */
+  router.post('/:id/history/:revision/restore', canEdit, async (req: Request, res: Response) => {
+    try {
+      const itineraryId = req.params.id as ItineraryId;
+      const revision = Number(req.params.revision);
+
+      if (!Number.isInteger(revision)) {
+        return res.status(400).json({
+          error: 'Invalid request',
+          message: 'revision must be a number',
+        });
+      }
+
+      const result = await historyService.restore(itineraryId, revision);
+      if (!result.success) {
+        return res.status(result.error.code === 'NOT_FOUND' ? 404 : 500).json({
+          error: 'Failed to restore revision',
+          message: result.error.message,
+        });
+      }
+
+      return res.json(result.value);
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * GET /api/v1/itineraries/:id/budget
+   * Compare itinerary spend with the budget in its trip preferences
+   */
+  router.get('/:id/budget', canView, async (req: Request, res: Response) => {
+    try {
+      const itineraryId = req.params.id as ItineraryId;
+
+      const result = await itineraryService.getItinerary(itineraryId);
+      if (!result.success) {
+        return res.status(404).json({
+          error: 'Itinerary not found',
+          message: result.error.message,
+        });
+      }
+
+      const analysis = await budgetService.analyze(result.value);
+      if (!analysis.success) {
+        const noBudget = analysis.error.code === 'MISSING_FIELD';
+        return res.status(noBudget ? 404 : 422).json({
+          error: noBudget ? 'No budget set' : 'Failed to analyze budget',
+          message: analysis.error.message,
+        });
+      }
+
+      return res.json(analysis.value);
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * GET /api/v1/itineraries/:id/calendar.ics
+   * Export the itinerary as an iCalendar file with one event per segment
+   */
+  router.get('/:id/calendar.ics', canView, async (req: Request, res: Response) => {
+    try {
+      const itineraryId = req.params.id as ItineraryId;
+
+      const result = await itineraryService.getItinerary(itineraryId);
+      if (!result.success) {
+        return res.status(404).json({
+          error: 'Itinerary not found',
+          message: result.error.message,
+        });
+      }
+
+      const calendar = icsExportService.exportItinerary(result.value);
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${getCalendarFilename(result.value.title)}"`
+      );
+      return res.send(calendar);
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * GET /api/v1/itineraries/:id/travel-document.pdf
+   * Download a printable PDF travel document with confirmation QR codes
+   */
+  router.get('/:id/travel-document.pdf', canView, async (req: Request, res: Response) => {
+    try {
+      const itineraryId = req.params.id as ItineraryId;
+
+      const result = await itineraryService.getItinerary(itineraryId);
+      if (!result.success) {
+        return res.status(404).json({
+          error: 'Itinerary not found',
+          message: result.error.message,
+        });
+      }
+
+      const pdf = await travelDocumentService.generate(result.value);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${getTravelDocumentFilename(result.value.title)}"`
+      );
+      return res.send(pdf);
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
 
   /**
    * GET /api/v1/itineraries/:id/segments
    * List all segments in an itinerary
    * Note: Currently requires loading full itinerary. Consider dedicated endpoint in future.
    */
-  router.get('/:id/segments', async (req: Request, res: Response) => {
+  router.get('/:id/segments', canView, async (req: Request, res: Response) => {
     try {
       const itineraryId = req.params.id as ItineraryId;
 
@@ -48,11 +294,16 @@ export function createItineraryManagerRouter(
    * POST /api/v1/itineraries/:id/segments
    * Add a new segment to an itinerary
    * Body: Partial<Segment> (without id, or with explicit id)
+   * Headers: If-Match (optional) - itinerary version the change is based on; 409 if stale
    */
-  router.post('/:id/segments', async (req: Request, res: Response) => {
+  router.post('/:id/segments', canEdit, async (req: Request, res: Response) => {
     try {
       const itineraryId = req.params.id as ItineraryId;
       const segmentData = req.body;
+      const expectedVersion = getExpectedVersion(req);
+      if (expectedVersion === null) {
+        return sendInvalidIfMatch(res);
+      }
 
       if (!segmentData.startDatetime || !segmentData.endDatetime || !segmentData.type) {
         return res.status(400).json({
@@ -68,10 +319,13 @@ export function createItineraryManagerRouter(
         endDatetime: new Date(segmentData.endDatetime),
       };
 
-      const result = await segmentService.add(itineraryId, segment);
+      const result = await segmentService.add(itineraryId, segment, undefined, expectedVersion);
 
       if (!result.success) {
         const error = result.error;
+        if (isVersionConflictError(error)) {
+          return sendVersionConflict(res, error);
+        }
         const statusCode = error.type === 'NOT_FOUND' ? 404 : 400;
         return res.status(statusCode).json({
           error: 'Failed to add segment',
@@ -92,7 +346,7 @@ export function createItineraryManagerRouter(
    * GET /api/v1/itineraries/:id/segments/:segmentId
    * Get a single segment
    */
-  router.get('/:id/segments/:segmentId', async (req: Request, res: Response) => {
+  router.get('/:id/segments/:segmentId', canView, async (req: Request, res: Response) => {
     try {
       const itineraryId = req.params.id as ItineraryId;
       const segmentId = req.params.segmentId as SegmentId;
@@ -128,12 +382,17 @@ export function createItineraryManagerRouter(
    * PATCH /api/v1/itineraries/:id/segments/:segmentId
    * Update a segment
    * Body: Partial<Segment>
+   * Headers: If-Match (optional) - itinerary version the change is based on; 409 if stale
    */
-  router.patch('/:id/segments/:segmentId', async (req: Request, res: Response) => {
+  router.patch('/:id/segments/:segmentId', canEdit, async (req: Request, res: Response) => {
     try {
       const itineraryId = req.params.id as ItineraryId;
       const segmentId = req.params.segmentId as SegmentId;
       const updates = req.body;
+      const expectedVersion = getExpectedVersion(req);
+      if (expectedVersion === null) {
+        return sendInvalidIfMatch(res);
+      }
 
       // Convert date strings to Date objects if present
       if (updates.startDatetime) {
@@ -143,10 +402,19 @@ export function createItineraryManagerRouter(
         updates.endDatetime = new Date(updates.endDatetime);
       }
 
-      const result = await segmentService.update(itineraryId, segmentId, updates);
+      const result = await segmentService.update(
+        itineraryId,
+        segmentId,
+        updates,
+        undefined,
+        expectedVersion
+      );
 
       if (!result.success) {
         const error = result.error;
+        if (isVersionConflictError(error)) {
+          return sendVersionConflict(res, error);
+        }
         const statusCode = error.type === 'NOT_FOUND' ? 404 : 400;
         return res.status(statusCode).json({
           error: 'Failed to update segment',
@@ -166,16 +434,29 @@ export function createItineraryManagerRouter(
   /**
    * DELETE /api/v1/itineraries/:id/segments/:segmentId
    * Delete a segment
+   * Headers: If-Match (optional) - itinerary version the change is based on; 409 if stale
    */
-  router.delete('/:id/segments/:segmentId', async (req: Request, res: Response) => {
+  router.delete('/:id/segments/:segmentId', canEdit, async (req: Request, res: Response) => {
     try {
       const itineraryId = req.params.id as ItineraryId;
       const segmentId = req.params.segmentId as SegmentId;
+      const expectedVersion = getExpectedVersion(req);
+      if (expectedVersion === null) {
+        return sendInvalidIfMatch(res);
+      }
 
-      const result = await segmentService.delete(itineraryId, segmentId);
+      const result = await segmentService.delete(
+        itineraryId,
+        segmentId,
+        undefined,
+        expectedVersion
+      );
 
       if (!result.success) {
         const error = result.error;
+        if (isVersionConflictError(error)) {
+          return sendVersionConflict(res, error);
+        }
         const statusCode = error.type === 'NOT_FOUND' ? 404 : 400;
         return res.status(statusCode).json({
           error: 'Failed to delete segment',
@@ -196,11 +477,16 @@ export function createItineraryManagerRouter(
    * POST /api/v1/itineraries/:id/segments/reorder
    * Reorder segments by providing new order
    * Body: { segmentIds: SegmentId[] }
+   * Headers: If-Match (optional) - itinerary version the change is based on; 409 if stale
    */
-  router.post('/:id/segments/reorder', async (req: Request, res: Response) => {
+  router.post('/:id/segments/reorder', canEdit, async (req: Request, res: Response) => {
     try {
       const itineraryId = req.params.id as ItineraryId;
       const { segmentIds } = req.body;
+      const expectedVersion = getExpectedVersion(req);
+      if (expectedVersion === null) {
+        return sendInvalidIfMatch(res);
+      }
 
       if (!Array.isArray(segmentIds)) {
         return res.status(400).json({
@@ -209,10 +495,18 @@ export function createItineraryManagerRouter(
         });
       }
 
-      const result = await segmentService.reorder(itineraryId, segmentIds as SegmentId[]);
+      const result = await segmentService.reorder(
+        itineraryId,
+        segmentIds as SegmentId[],
+        undefined,
+        expectedVersion
+      );
 
       if (!result.success) {
         const error = result.error;
+        if (isVersionConflictError(error)) {
+          return sendVersionConflict(res, error);
+        }
         const statusCode = error.type === 'NOT_FOUND' ? 404 : 400;
         return res.status(statusCode).json({
           error: 'Failed to reorder segments',
@@ -234,7 +528,7 @@ export function createItineraryManagerRouter(
    * Move a segment with cascade adjustments
    * Body: { newStartDatetime: string, cascadeMode?: 'auto' | 'dependencies-only' }
    */
-  router.post('/:id/segments/:segmentId/move', async (req: Request, res: Response) => {
+  router.post('/:id/segments/:segmentId/move', canEdit, async (req: Request, res: Response) => {
     try {
       const itineraryId = req.params.id as ItineraryId;
       const segmentId = req.params.segmentId as SegmentId;
@@ -272,5 +566,63 @@ export function createItineraryManagerRouter(
     }
   });
 
+  /**
+   * POST /api/v1/itineraries/:id/shift
+   * Reschedule the whole itinerary, one day or selected segments
+   * Body: { days?, hours?, minutes? | toStartDate?, day? | segmentIds?, cascade?, dryRun? }
+   * Headers: If-Match (optional) - itinerary version the change is based on; 409 if stale
+   * Returns the rescheduled itinerary, the moved segments and those needing rebooking
+   */
+  router.post('/:id/shift', canEdit, async (req: Request, res: Response) => {
+    try {
+      const itineraryId = req.params.id as ItineraryId;
+      const expectedVersion = getExpectedVersion(req);
+      if (expectedVersion === null) {
+        return sendInvalidIfMatch(res);
+      }
+
+      const validation = rescheduleRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: 'Invalid request body',
+          message: validation.error.errors
+            .map((e) => `${e.path.join('.')}: ${e.message}`)
+            .join('; '),
+        });
+      }
+
+      const result = await itineraryService.reschedule(
+        itineraryId,
+        validation.data,
+        undefined,
+        expectedVersion
+      );
+
+      if (!result.success) {
+        const error = result.error;
+        if (isVersionConflictError(error)) {
+          return sendVersionConflict(res, error);
+        }
+        const statusCode =
+          error.code === 'NOT_FOUND'
+            ? 404
+            : error.code === 'WRITE_ERROR' || error.code === 'READ_ERROR'
+              ? 500
+              : 400;
+        return res.status(statusCode).json({
+          error: 'Failed to shift itinerary',
+          message: error.message,
+        });
+      }
+
+      return res.json(result.value);
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
   return router;
 }
@@ -0,0 +1,127 @@
+/**
+ * Itinerary Template Router
+ * Lists, deletes and instantiates saved itinerary templates
+ * @module server/routers/template
+ */
+
+import { type Request, type Response, Router } from 'express';
+import { instantiateRequestSchema } from '../../domain/schemas/template.schema.js';
+import type { TemplateId } from '../../domain/types/branded.js';
+import type { ItineraryCollectionService } from '../../services/itinerary-collection.service.js';
+
+export function createTemplateRouter(collectionService: ItineraryCollectionService): Router {
+  const router = Router();
+
+  /**
+   * GET /api/v1/templates
+   * List template summaries for the current user
+   */
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      const userEmail = req.headers['x-user-email'] as string | undefined;
+
+      const result = await collectionService.listTemplates(userEmail);
+      if (!result.success) {
+        return res.status(500).json({
+          error: 'Failed to list templates',
+          message: result.error.message,
+        });
+      }
+
+      return res.json(result.value);
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * GET /api/v1/templates/:id
+   * Get a template with its segments
+   */
+  router.get('/:id', async (req: Request, res: Response) => {
+    try {
+      const result = await collectionService.getTemplate(req.params.id as TemplateId);
+      if (!result.success) {
+        return res.status(404).json({
+          error: 'Template not found',
+          message: result.error.message,
+        });
+      }
+
+      return res.json(result.value);
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * DELETE /api/v1/templates/:id
+   * Delete a template
+   */
+  router.delete('/:id', async (req: Request, res: Response) => {
+    try {
+      const result = await collectionService.deleteTemplate(req.params.id as TemplateId);
+      if (!result.success) {
+        return res.status(404).json({
+          error: 'Template not found',
+          message: result.error.message,
+        });
+      }
+
+      return res.status(204).send();
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * POST /api/v1/templates/:id/instantiate
+   * Create an itinerary from a template
+   * Body: { startDate, title? }
+   */
+  router.post('/:id/instantiate', async (req: Request, res: Response) => {
+    try {
+      const userEmail = req.headers['x-user-email'] as string | undefined;
+
+      const validation = instantiateRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: 'Invalid request body',
+          message: validation.error.errors
+            .map((e) => `${e.path.join('.')}: ${e.message}`)
+            .join('; '),
+        });
+      }
+
+      const result = await collectionService.instantiateTemplate(req.params.id as TemplateId, {
+        ...validation.data,
+        ...(userEmail ? { createdBy: userEmail } : {}),
+      });
+
+      if (!result.success) {
+        return res.status(result.error.code === 'NOT_FOUND' ? 404 : 500).json({
+          error: 'Failed to create itinerary from template',
+          message: result.error.message,
+        });
+      }
+
+      return res.status(201).json(result.value);
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  return router;
+}
@@ -12,7 +12,13 @@ import type { ItineraryId, SessionId } from '../../domain/types/branded.js';
 import type { SegmentService } from '../../services/segment.service.js';
 import type { DependencyService } from '../../services/dependency.service.js';
 import type { TravelAgentFacade } from '../../services/travel-agent-facade.service.js';
+import type { ItineraryHistoryService } from '../../services/itinerary-history.service.js';
 import type { TripDesignerConfig } from '../../domain/types/trip-designer.js';
+import type { SessionStorage } from '../../services/trip-designer/session.js';
+import type { TemplateStorage } from '../../storage/template-storage.js';
+import type { CollaborationService } from '../../services/collaboration.service.js';
+import type { CollaboratorRole } from '../../domain/types/itinerary.js';
+import { getUserEmail } from '../itinerary-access.js';
 
 interface RouterDependencies {
   tripDesignerService: TripDesignerService | null;
@@ -21,6 +27,10 @@ interface RouterDependencies {
   segmentService: SegmentService;
   dependencyService: DependencyService;
   travelAgentFacade: TravelAgentFacade;
+  historyService?: ItineraryHistoryService;
+  sessionStorage?: SessionStorage;
+  templateStorage?: TemplateStorage;
+  collaborationService?: CollaborationService;
 }
 
 export function createTripDesignerRouter(
@@ -29,7 +39,11 @@ export function createTripDesignerRouter(
   itineraryService: ItineraryService,
   segmentService?: SegmentService,
   dependencyService?: DependencyService,
-  travelAgentFacade?: TravelAgentFacade
+  travelAgentFacade?: TravelAgentFacade,
+  historyService?: ItineraryHistoryService,
+  sessionStorage?: SessionStorage,
+  templateStorage?: TemplateStorage,
+  collaborationService?: CollaborationService
 ): Router {
   const router = Router();
 
@@ -41,6 +55,10 @@ export function createTripDesignerRouter(
     segmentService: segmentService!,
     dependencyService: dependencyService!,
     travelAgentFacade: travelAgentFacade!,
+    ...(historyService && { historyService }),
+    ...(sessionStorage && { sessionStorage }),
+    ...(templateStorage && { templateStorage }),
+    ...(collaborationService && { collaborationService }),
   };
 
   // Cache TripDesignerService instances by API key to maintain session state
@@ -58,11 +76,13 @@ export function createTripDesignerRouter(
       apiKey,
     };
 
-    return new TripDesignerServiceClass(config, undefined, {
+    return new TripDesignerServiceClass(config, deps.sessionStorage, {
       itineraryService: deps.itineraryService,
       segmentService: deps.segmentService,
       dependencyService: deps.dependencyService,
       travelAgentFacade: deps.travelAgentFacade,
+      ...(deps.historyService && { historyService: deps.historyService }),
+      ...(deps.templateStorage && { templateStorage: deps.templateStorage }),
     });
   }
 
@@ -90,6 +110,65 @@ export function createTripDesignerRouter(
     return deps.tripDesignerService;
   }
 
+  /**
+   * Helper: Check the requesting user's role on an itinerary
+   * Requests without an X-User-Email header are not scoped to a user.
+   * Responds 404/403 and returns null when the user lacks the role.
+   * @returns Whether the user can only view the itinerary
+   */
+  async function authorizeItinerary(
+    req: Request,
+    res: Response,
+    itineraryId: ItineraryId,
+    required: CollaboratorRole
+  ): Promise<{ readOnly: boolean } | null> {
+    const userEmail = getUserEmail(req);
+    if (!userEmail || !deps.collaborationService) {
+      return { readOnly: false };
+    }
+
+    const result = await deps.collaborationService.authorize(itineraryId, userEmail, required);
+    if (!result.success) {
+      res.status(result.error.code === 'FORBIDDEN' ? 403 : 404).json({
+        error: result.error.code === 'FORBIDDEN' ? 'Forbidden' : 'Itinerary not found',
+        message: result.error.message,
+      });
+      return null;
+    }
+
+    return { readOnly: result.value.role === 'viewer' };
+  }
+
+  /**
+   * Helper: Check the requesting user's role on a session's itinerary
+   * Responds 404/403 and returns null when the session is missing or the user lacks the role.
+   * Help sessions without an itinerary are open to everyone.
+   * @returns Whether the user can only view the itinerary
+   */
+  async function authorizeSession(
+    req: Request,
+    res: Response,
+    service: TripDesignerService,
+    sessionId: SessionId,
+    required: CollaboratorRole
+  ): Promise<{ readOnly: boolean } | null> {
+    const sessionResult = await service.getSession(sessionId);
+    if (!sessionResult.success) {
+      res.status(404).json({
+        error: 'Session not found',
+        message: `No session found with id: ${sessionId}`,
+      });
+      return null;
+    }
+
+    // Help sessions aren't tied to an itinerary
+    if (!sessionResult.value.itineraryId) {
+      return { readOnly: false };
+    }
+
+    return authorizeItinerary(req, res, sessionResult.value.itineraryId, required);
+  }
+
   /**
    * POST /api/v1/designer/sessions
    * Create a new chat session for an itinerary
@@ -128,6 +207,11 @@ export function createTripDesignerRouter(
         });
       }
 
+      // Viewers can chat about a shared itinerary too
+      if (!(await authorizeItinerary(req, res, itineraryId as ItineraryId, 'viewer'))) {
+        return;
+      }
+
       // Create session
       const sessionResult = await service.createSession(itineraryId as ItineraryId);
 
@@ -149,6 +233,52 @@ export function createTripDesignerRouter(
     }
   });
 
+  /**
+   * GET /api/v1/designer/sessions
+   * List chat sessions, most recently active first
+   * Query: itineraryId (optional) - only sessions for this itinerary
+   * Response: { sessions: SessionSummary[] }
+   * Headers: X-OpenRouter-API-Key (optional, overrides env var)
+   */
+  router.get('/sessions', async (req: Request, res: Response) => {
+    try {
+      // Get TripDesignerService from header or default
+      const service = await getTripDesignerService(req);
+
+      if (!service) {
+        return res.status(503).json({
+          error: 'Trip Designer disabled',
+          message: 'No API key provided. Set your OpenRouter API key in Profile settings.',
+        });
+      }
+
+      const itineraryId =
+        typeof req.query.itineraryId === 'string'
+          ? (req.query.itineraryId as ItineraryId)
+          : undefined;
+
+      if (itineraryId && !(await authorizeItinerary(req, res, itineraryId, 'viewer'))) {
+        return;
+      }
+
+      const listResult = await service.listSessions(itineraryId);
+
+      if (!listResult.success) {
+        return res.status(500).json({
+          error: 'Failed to list sessions',
+          message: listResult.error.message,
+        });
+      }
+
+      return res.json({ sessions: listResult.value });
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
   /**
    * GET /api/v1/designer/sessions/:sessionId
    * Get session details
@@ -178,6 +308,10 @@ export function createTripDesignerRouter(
         });
       }
 
+      if (!(await authorizeItinerary(req, res, sessionResult.value.itineraryId, 'viewer'))) {
+        return;
+      }
+
       res.json(sessionResult.value);
     } catch (error) {
       res.status(500).json({
@@ -256,6 +390,11 @@ export function createTripDesignerRouter(
         });
       }
 
+      const access = await authorizeSession(req, res, service, sessionId, 'viewer');
+      if (!access) {
+        return;
+      }
+
       // Set up SSE headers
       res.setHeader('Content-Type', 'text/event-stream');
       res.setHeader('Cache-Control', 'no-cache');
@@ -268,7 +407,7 @@ export function createTripDesignerRouter(
 
       try {
         // Stream the chat response
-        for await (const event of service.chatStream(sessionId, message)) {
+        for await (const event of service.chatStream(sessionId, message, access)) {
           // Map StreamEvent to SSE format
           switch (event.type) {
             case 'text':
@@ -301,6 +440,8 @@ export function createTripDesignerRouter(
                   segmentsModified: event.segmentsModified || [],
                   tokens: event.tokens,
                   cost: event.cost,
+                  messageIndex: event.messageIndex,
+                  changeset: event.changeset,
                 })}\n\n`
               );
               break;
@@ -367,8 +508,13 @@ export function createTripDesignerRouter(
         });
       }
 
+      const access = await authorizeSession(req, res, service, sessionId, 'viewer');
+      if (!access) {
+        return;
+      }
+
       // Send message and get response
-      const chatResult = await service.chat(sessionId, message);
+      const chatResult = await service.chat(sessionId, message, access);
 
       if (!chatResult.success) {
         const error = chatResult.error;
@@ -421,6 +567,102 @@ export function createTripDesignerRouter(
     }
   });
 
+  /**
+   * POST /api/v1/designer/sessions/:sessionId/messages/:index/undo
+   * Undo the itinerary changes made by a chat turn
+   * Body: { headRevision?: number } (head revision of the message's changeset, if known)
+   * Response: MessageUndoResult
+   * Headers: X-OpenRouter-API-Key (optional, overrides env var)
+   */
+  router.post('/sessions/:sessionId/messages/:index/undo', async (req: Request, res: Response) => {
+    try {
+      const service = await getTripDesignerService(req);
+
+      if (!service) {
+        return res.status(503).json({
+          error: 'Trip Designer disabled',
+          message: 'No API key provided. Set your OpenRouter API key in Profile settings.',
+        });
+      }
+
+      const sessionId = req.params.sessionId as SessionId;
+      const messageIndex = Number(req.params.index);
+      const headRevision = req.body?.headRevision;
+
+      if (!Number.isInteger(messageIndex) || messageIndex < 0) {
+        return res.status(400).json({
+          error: 'Invalid message index',
+          message: 'index must be a non-negative integer',
+        });
+      }
+
+      if (headRevision !== undefined && !Number.isInteger(headRevision)) {
+        return res.status(400).json({
+          error: 'Invalid head revision',
+          message: 'headRevision must be an integer',
+        });
+      }
+
+      // Undoing a turn changes the itinerary
+      if (!(await authorizeSession(req, res, service, sessionId, 'editor'))) {
+        return;
+      }
+
+      const undoResult = await service.undoMessage(sessionId, messageIndex, headRevision);
+
+      if (!undoResult.success) {
+        const error = undoResult.error;
+
+        if (error.type === 'session_not_found') {
+          return res.status(404).json({
+            error: 'Session not found',
+            message: `No session found with id: ${sessionId}`,
+          });
+        }
+
+        if (error.type === 'message_not_found') {
+          return res.status(404).json({
+            error: 'Message not found',
+            message: `No undoable message at index ${messageIndex}`,
+          });
+        }
+
+        if (error.type === 'itinerary_not_found') {
+          return res.status(404).json({
+            error: 'Itinerary not found',
+            message: `No itinerary found with id: ${error.itineraryId}`,
+          });
+        }
+
+        if (error.type === 'undo_conflict') {
+          return res.status(409).json({
+            error: 'Undo conflict',
+            message: error.reason,
+          });
+        }
+
+        if (error.type === 'undo_unavailable') {
+          return res.status(400).json({
+            error: 'Undo unavailable',
+            message: error.reason,
+          });
+        }
+
+        return res.status(500).json({
+          error: 'Undo failed',
+          message: JSON.stringify(error),
+        });
+      }
+
+      return res.json(undoResult.value);
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
   /**
    * GET /api/v1/designer/stats
    * Get Trip Designer statistics
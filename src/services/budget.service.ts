@@ -0,0 +1,424 @@
+/**
+ * Budget tracking against trip preferences
+ * @module services/budget
+ */
+
+import { createValidationError } from '../core/errors.js';
+import type { MoneyError, ValidationError } from '../core/errors.js';
+import { err, ok } from '../core/result.js';
+import type { Result } from '../core/result.js';
+import type { SegmentId } from '../domain/types/branded.js';
+import { SegmentStatus } from '../domain/types/common.js';
+import type { SegmentType } from '../domain/types/common.js';
+import type { Itinerary } from '../domain/types/itinerary.js';
+import { allocateMoney, createMoney, formatMoney, fromMajorUnits } from '../domain/types/money.js';
+import type { Money } from '../domain/types/money.js';
+import type { Segment } from '../domain/types/segment.js';
+import type { TripTravelerPreferences } from '../domain/types/traveler.js';
+import { getSegmentTimezones, toLocalDateKey } from '../utils/timezone.js';
+import type { ExchangeRateProvider } from './exchange-rate.service.js';
+import { ItineraryCostService } from './itinerary-cost.service.js';
+
+/**
+ * Period a stated budget applies to
+ */
+export type BudgetPeriod = NonNullable<NonNullable<TripTravelerPreferences['budget']>['period']>;
+
+/**
+ * How projected spend compares with a budget
+ */
+export type BudgetStatus = 'under' | 'near' | 'over';
+
+/**
+ * Relative share of the trip budget each segment type is expected to take.
+ * Only types present in the itinerary are used; weights are renormalized over them.
+ */
+export const DEFAULT_BUDGET_ALLOCATION: Record<SegmentType, number> = {
+  FLIGHT: 30,
+  HOTEL: 35,
+  ACTIVITY: 15,
+  TRANSFER: 5,
+  RAIL: 10,
+  CAR_RENTAL: 10,
+  MEETING: 5,
+  CUSTOM: 5,
+};
+
+/** Share of a budget at which spend is reported as "near" the limit */
+const DEFAULT_NEAR_THRESHOLD = 0.9;
+
+/** Segment statuses that count as money already committed */
+const COMMITTED_STATUSES: ReadonlySet<string> = new Set([
+  SegmentStatus.CONFIRMED,
+  SegmentStatus.COMPLETED,
+]);
+
+/** Human-readable category names used in overrun messages */
+const CATEGORY_LABELS: Record<SegmentType, string> = {
+  FLIGHT: 'flights',
+  HOTEL: 'hotels',
+  ACTIVITY: 'activities',
+  TRANSFER: 'transfers',
+  RAIL: 'rail',
+  CAR_RENTAL: 'car rentals',
+  MEETING: 'meetings',
+  CUSTOM: 'other costs',
+};
+
+/**
+ * Budget compared with actual and projected spend
+ */
+export interface BudgetLine {
+  /** Budget available */
+  budget: Money;
+  /** Spend on confirmed and completed segments */
+  spent: Money;
+  /** Spend including tentative and waitlisted segments */
+  projected: Money;
+  /** Projected spend as a percentage of the budget */
+  percentUsed: number;
+  /** Status of projected spend against the budget */
+  status: BudgetStatus;
+}
+
+/**
+ * Budget line for a segment type
+ */
+export interface CategoryBudgetLine extends BudgetLine {
+  /** Segment type */
+  category: SegmentType;
+}
+
+/**
+ * Budget line for a calendar day
+ */
+export interface DailyBudgetLine extends BudgetLine {
+  /** Date key (YYYY-MM-DD) */
+  date: string;
+}
+
+/**
+ * A budget that projected spend exceeds
+ */
+export interface BudgetOverrun {
+  /** What the budget covers */
+  scope: 'total' | 'period' | 'category' | 'day';
+  /** Category or date key for category/day overruns */
+  key?: string;
+  /** Amount over budget */
+  overBy: Money;
+  /** Percentage over budget */
+  percentOver: number;
+  /** Human-readable description, e.g. "18% over budget on hotels" */
+  message: string;
+}
+
+/**
+ * Result of analysing an itinerary against its budget
+ */
+export interface BudgetAnalysis {
+  /** Currency all amounts are expressed in (the budget currency) */
+  currency: string;
+  /** Period the stated budget applies to */
+  period: BudgetPeriod;
+  /** Budget as stated in the trip preferences */
+  stated: Money;
+  /** Number of trip days used to normalize per-day budgets */
+  days: number;
+  /** Number of travelers used to normalize per-person budgets */
+  travelers: number;
+  /** Whole-trip budget and spend */
+  total: BudgetLine;
+  /** Spend normalized to the stated period (per day, per person or total) */
+  perPeriod: BudgetLine;
+  /** Budget and spend per segment type */
+  byCategory: CategoryBudgetLine[];
+  /** Budget and spend per calendar day */
+  byDay: DailyBudgetLine[];
+  /** Budgets that projected spend exceeds */
+  overruns: BudgetOverrun[];
+  /** Segments without price information (not counted) */
+  unpricedSegmentIds: SegmentId[];
+  /** Publication date of the exchange rates used for conversion, when known */
+  ratesAsOf?: string;
+}
+
+/**
+ * Options for budget analysis
+ */
+export interface BudgetAnalysisOptions {
+  /** Relative category weights (overrides DEFAULT_BUDGET_ALLOCATION per type) */
+  allocation?: Partial<Record<SegmentType, number>>;
+  /** Share of a budget at which spend is reported as "near" (default: 0.9) */
+  nearThreshold?: number;
+}
+
+/**
+ * Running spend totals in minor units
+ */
+interface Tally {
+  spent: number;
+  projected: number;
+}
+
+/**
+ * Service that compares itinerary spend with the budget collected in
+ * `TripTravelerPreferences.budget`
+ */
+export class BudgetService {
+  private readonly costs: ItineraryCostService;
+
+  /**
+   * Creates a new budget service
+   * @param rates - Exchange rate source, e.g. from loadExchangeRateProvider()
+   */
+  constructor(private readonly rates: ExchangeRateProvider) {
+    this.costs = new ItineraryCostService(rates);
+  }
+
+  /**
+   * Analyse an itinerary's spend against its budget.
+   *
+   * Spend is counted from segment prices, converted into the budget currency.
+   * For daily spend, flights and rail are amortized across the whole trip
+   * (they are usually booked once for the journey), hotels and car rentals
+   * are spread over the nights they cover, and everything else counts on
+   * the day it starts.
+   *
+   * @param itinerary - Itinerary to analyse
+   * @param options - Analysis options
+   * @returns Budget analysis, or an error if no budget is set or a rate is unavailable
+   */
+  async analyze(
+    itinerary: Itinerary,
+    options: BudgetAnalysisOptions = {}
+  ): Promise<Result<BudgetAnalysis, ValidationError | MoneyError>> {
+    const budget = itinerary.tripPreferences?.budget;
+    if (!budget?.amount || budget.amount <= 0) {
+      return err(
+        createValidationError(
+          'MISSING_FIELD',
+          'No budget set for this itinerary',
+          'tripPreferences.budget'
+        )
+      );
+    }
+
+    const currency = (budget.currency ?? itinerary.currency ?? 'USD').toUpperCase();
+    const period: BudgetPeriod = budget.period ?? 'total';
+    const nearThreshold = options.nearThreshold ?? DEFAULT_NEAR_THRESHOLD;
+
+    const rollupResult = await this.costs.rollup(itinerary, { currency });
+    if (!rollupResult.success) {
+      return rollupResult;
+    }
+    const rollup = rollupResult.value;
+
+    const segmentsById = new Map(itinerary.segments.map((segment) => [segment.id, segment]));
+    const days = getTripDays(itinerary);
+    const total: Tally = { spent: 0, projected: 0 };
+    const byCategory = new Map<SegmentType, Tally>();
+    const byDay = new Map<string, Tally>();
+
+    for (const cost of rollup.segments) {
+      const segment = segmentsById.get(cost.segmentId);
+      if (!segment) continue;
+
+      const committed = COMMITTED_STATUSES.has(segment.status);
+      addToTally(total, cost.converted.amount, committed);
+      addToTally(getTally(byCategory, cost.type), cost.converted.amount, committed);
+
+      const dates = getSpendDates(segment, days);
+      allocateMoney(cost.converted, dates.length).forEach((share, index) => {
+        addToTally(getTally(byDay, dates[index] as string), share.amount, committed);
+      });
+    }
+
+    const dayCount = Math.max(days.length, 1);
+    const travelers = Math.max(itinerary.travelers.length, 1);
+    const divisor = period === 'per_day' ? dayCount : period === 'per_person' ? travelers : 1;
+
+    const stated = createMoney(fromMajorUnits(budget.amount, currency), currency);
+    const totalBudget = stated.amount * divisor;
+    const line = (budgetAmount: number, tally: Tally): BudgetLine =>
+      createBudgetLine(budgetAmount, tally, currency, nearThreshold);
+
+    const weights = { ...DEFAULT_BUDGET_ALLOCATION, ...options.allocation };
+    const totalWeight = [...byCategory.keys()].reduce((sum, type) => sum + weights[type], 0);
+    const categoryLines: CategoryBudgetLine[] = [...byCategory].map(([category, tally]) => ({
+      category,
+      ...line(
+        totalWeight > 0 ? Math.round((totalBudget * weights[category]) / totalWeight) : 0,
+        tally
+      ),
+    }));
+
+    const dailyBudget = Math.round(totalBudget / dayCount);
+    const dayLines: DailyBudgetLine[] = days.map((date) => ({
+      date,
+      ...line(dailyBudget, byDay.get(date) ?? { spent: 0, projected: 0 }),
+    }));
+
+    const analysis: BudgetAnalysis = {
+      currency,
+      period,
+      stated,
+      days: dayCount,
+      travelers,
+      total: line(totalBudget, total),
+      perPeriod: line(stated.amount, {
+        spent: Math.round(total.spent / divisor),
+        projected: Math.round(total.projected / divisor),
+      }),
+      byCategory: categoryLines,
+      byDay: dayLines,
+      overruns: [],
+      unpricedSegmentIds: rollup.unpricedSegmentIds,
+      ...(this.rates.asOf ? { ratesAsOf: this.rates.asOf } : {}),
+    };
+
+    analysis.overruns = collectOverruns(analysis);
+    return ok(analysis);
+  }
+}
+
+function getTally<K>(tallies: Map<K, Tally>, key: K): Tally {
+  let tally = tallies.get(key);
+  if (!tally) {
+    tally = { spent: 0, projected: 0 };
+    tallies.set(key, tally);
+  }
+  return tally;
+}
+
+function addToTally(tally: Tally, amount: number, committed: boolean): void {
+  tally.projected += amount;
+  if (committed) {
+    tally.spent += amount;
+  }
+}
+
+function createBudgetLine(
+  budget: number,
+  tally: Tally,
+  currency: string,
+  nearThreshold: number
+): BudgetLine {
+  const percentUsed = budget > 0 ? Math.round((tally.projected / budget) * 100) : 0;
+  let status: BudgetStatus = 'under';
+  if (tally.projected > budget) {
+    status = 'over';
+  } else if (tally.projected >= budget * nearThreshold) {
+    status = 'near';
+  }
+
+  return {
+    budget: createMoney(budget, currency),
+    spent: createMoney(tally.spent, currency),
+    projected: createMoney(tally.projected, currency),
+    percentUsed,
+    status,
+  };
+}
+
+/**
+ * Local date a segment starts on
+ */
+function getStartDate(segment: Segment): string {
+  return toLocalDateKey(segment.startDatetime, getSegmentTimezones(segment).start);
+}
+
+/**
+ * Dates a segment's cost is spent on for daily tracking
+ */
+function getSpendDates(segment: Segment, tripDays: string[]): string[] {
+  const startDate = getStartDate(segment);
+
+  switch (segment.type) {
+    case 'FLIGHT':
+    case 'RAIL':
+      return tripDays.length > 0 ? tripDays : [startDate];
+    case 'HOTEL':
+    case 'CAR_RENTAL': {
+      const endDate = toLocalDateKey(segment.endDatetime, getSegmentTimezones(segment).end);
+      const nights = enumerateDates(startDate, endDate);
+      // The check-out/return day itself is not a night of the booking
+      return nights.length > 1 ? nights.slice(0, -1) : [startDate];
+    }
+    default:
+      return [startDate];
+  }
+}
+
+/**
+ * Calendar days covered by the trip: the itinerary's own dates, widened to
+ * include the start day of every segment
+ */
+function getTripDays(itinerary: Itinerary): string[] {
+  const bounds = itinerary.segments.map(getStartDate);
+  if (itinerary.startDate) bounds.push(toLocalDateKey(itinerary.startDate));
+  if (itinerary.endDate) bounds.push(toLocalDateKey(itinerary.endDate));
+  if (bounds.length === 0) {
+    return [];
+  }
+  bounds.sort();
+  return enumerateDates(bounds[0] as string, bounds[bounds.length - 1] as string);
+}
+
+function enumerateDates(from: string, to: string): string[] {
+  const dates: string[] = [];
+  const cursor = new Date(`${from}T00:00:00Z`);
+  const end = new Date(`${to}T00:00:00Z`);
+  while (cursor <= end) {
+    dates.push(cursor.toISOString().slice(0, 10));
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return dates;
+}
+
+function collectOverruns(analysis: BudgetAnalysis): BudgetOverrun[] {
+  const overruns: BudgetOverrun[] = [];
+
+  const add = (
+    scope: BudgetOverrun['scope'],
+    budgetLine: BudgetLine,
+    describe: (percent: number) => string,
+    key?: string
+  ): void => {
+    if (budgetLine.status !== 'over') return;
+    const overBy = createMoney(
+      budgetLine.projected.amount - budgetLine.budget.amount,
+      budgetLine.budget.currency
+    );
+    const percentOver =
+      budgetLine.budget.amount > 0
+        ? Math.max(Math.round((overBy.amount / budgetLine.budget.amount) * 100), 1)
+        : 100;
+    overruns.push({
+      scope,
+      ...(key !== undefined && { key }),
+      overBy,
+      percentOver,
+      message: `${describe(percentOver)} (${formatMoney(overBy)} over)`,
+    });
+  };
+
+  add('total', analysis.total, (percent) => `${percent}% over the total trip budget`);
+  if (analysis.period !== 'total') {
+    const unit = analysis.period === 'per_day' ? 'per-day' : 'per-person';
+    add('period', analysis.perPeriod, (percent) => `${percent}% over the ${unit} budget`);
+  }
+  for (const category of analysis.byCategory) {
+    add(
+      'category',
+      category,
+      (percent) => `${percent}% over budget on ${CATEGORY_LABELS[category.category]}`,
+      category.category
+    );
+  }
+  for (const day of analysis.byDay) {
+    add('day', day, (percent) => `${percent}% over the daily budget on ${day.date}`, day.date);
+  }
+
+  return overruns;
+}
@@ -0,0 +1,357 @@
+/**
+ * Subscribable calendar feeds for itineraries and users
+ * @module services/calendar-feed
+ *
+ * A feed URL carries a secret token. Tokens live on the itineraries they
+ * authorize, so they are stored by whichever itinerary storage backend is in
+ * use and can be revoked by removing them. Feeds are regenerated from storage
+ * on every request, so changes made anywhere show up on the next poll.
+ *
+ * A user-scoped token is written to every itinerary the user owns when it is
+ * issued; it stays valid as long as at least one of them still holds it.
+ * Tokens are only handed out by the feed routes, so the API serializes
+ * itineraries with {@link omitCalendarFeeds} and revision snapshots leave them out.
+ */
+
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { createStorageError } from '../core/errors.js';
+import type { StorageError } from '../core/errors.js';
+import { err, ok } from '../core/result.js';
+import type { Result } from '../core/result.js';
+import type { ItineraryId } from '../domain/types/branded.js';
+import type { CalendarFeedScope, CalendarFeedToken, Itinerary } from '../domain/types/itinerary.js';
+import { normalizeEmail } from '../domain/utils/collaborators.js';
+import type { ItineraryStorage, RevisionContext } from '../storage/storage.interface.js';
+import { ICSExportService } from './ics-export.service.js';
+
+/** Base path of the public feed routes */
+export const CALENDAR_FEED_BASE_PATH = '/api/v1/feeds';
+
+/** How often calendar apps are asked to poll feeds */
+const FEED_REFRESH_MINUTES = 60;
+
+/** Random bytes per token (encoded as base64url) */
+const TOKEN_BYTES = 24;
+
+/**
+ * An issued calendar feed
+ */
+export interface CalendarFeed {
+  /** Secret token (part of the URL) */
+  token: string;
+  /** Feed the token unlocks */
+  scope: CalendarFeedScope;
+  /** When the token was issued */
+  createdAt: Date;
+  /** Feed path relative to the API origin */
+  path: string;
+}
+
+/**
+ * Service for issuing, revoking and rendering calendar feeds
+ */
+export class CalendarFeedService {
+  constructor(
+    private readonly storage: ItineraryStorage,
+    private readonly icsExportService: ICSExportService = new ICSExportService()
+  ) {}
+
+  /**
+   * Issue a feed token for a single itinerary
+   * @param id - Itinerary ID
+   * @returns Result with the new feed or storage error
+   */
+  async createItineraryFeed(id: ItineraryId): Promise<Result<CalendarFeed, StorageError>> {
+    const loadResult = await this.storage.load(id);
+    if (!loadResult.success) {
+      return loadResult;
+    }
+
+    const feedToken = createFeedToken('itinerary');
+    const saveResult = await this.saveFeeds(
+      loadResult.value,
+      [...(loadResult.value.calendarFeeds ?? []), feedToken],
+      'Calendar feed created'
+    );
+    if (!saveResult.success) {
+      return saveResult;
+    }
+
+    return ok(toItineraryFeed(id, feedToken));
+  }
+
+  /**
+   * List the active feeds of an itinerary
+   * @param id - Itinerary ID
+   * @returns Result with the itinerary's feeds or storage error
+   */
+  async listItineraryFeeds(id: ItineraryId): Promise<Result<CalendarFeed[], StorageError>> {
+    const loadResult = await this.storage.load(id);
+    if (!loadResult.success) {
+      return loadResult;
+    }
+
+    return ok(
+      (loadResult.value.calendarFeeds ?? [])
+        .filter((feed) => feed.scope === 'itinerary')
+        .map((feed) => toItineraryFeed(id, feed))
+    );
+  }
+
+  /**
+   * Revoke an itinerary feed token; subscribed calendars stop updating
+   * @param id - Itinerary ID
+   * @param token - Token to revoke
+   * @returns Result with void or storage error (NOT_FOUND if the token is unknown)
+   */
+  async revokeItineraryFeed(id: ItineraryId, token: string): Promise<Result<void, StorageError>> {
+    const loadResult = await this.storage.load(id);
+    if (!loadResult.success) {
+      return loadResult;
+    }
+
+    const feeds = loadResult.value.calendarFeeds ?? [];
+    const remaining = feeds.filter(
+      (feed) => !(feed.scope === 'itinerary' && tokensMatch(feed.token, token))
+    );
+    if (remaining.length === feeds.length) {
+      return err(createStorageError('NOT_FOUND', `Calendar feed not found for itinerary ${id}`));
+    }
+
+    const saveResult = await this.saveFeeds(loadResult.value, remaining, 'Calendar feed revoked');
+    return saveResult.success ? ok(undefined) : saveResult;
+  }
+
+  /**
+   * Render the calendar of an itinerary feed
+   * @param id - Itinerary ID
+   * @param token - Feed token from the URL
+   * @returns Result with calendar text or storage error (NOT_FOUND for unknown tokens)
+   */
+  async renderItineraryFeed(id: ItineraryId, token: string): Promise<Result<string, StorageError>> {
+    const loadResult = await this.storage.load(id);
+    if (!loadResult.success) {
+      return err(createStorageError('NOT_FOUND', 'Calendar feed not found'));
+    }
+
+    const itinerary = loadResult.value;
+    if (!hasToken(itinerary, 'itinerary', token)) {
+      return err(createStorageError('NOT_FOUND', 'Calendar feed not found'));
+    }
+
+    return ok(
+      this.icsExportService.exportItinerary(itinerary, {
+        refreshIntervalMinutes: FEED_REFRESH_MINUTES,
+      })
+    );
+  }
+
+  /**
+   * Issue a feed token covering every itinerary a user owns
+   * @param userEmail - Owner email
+   * @returns Result with the new feed or storage error (NOT_FOUND if the user has no itineraries)
+   */
+  async createUserFeed(userEmail: string): Promise<Result<CalendarFeed, StorageError>> {
+    const itinerariesResult = await this.loadUserItineraries(userEmail);
+    if (!itinerariesResult.success) {
+      return itinerariesResult;
+    }
+    if (itinerariesResult.value.length === 0) {
+      return err(createStorageError('NOT_FOUND', `No itineraries found for ${userEmail}`));
+    }
+
+    const feedToken = createFeedToken('user');
+    for (const itinerary of itinerariesResult.value) {
+      const saveResult = await this.saveFeeds(
+        itinerary,
+        [...(itinerary.calendarFeeds ?? []), feedToken],
+        'Calendar feed created'
+      );
+      if (!saveResult.success) {
+        return saveResult;
+      }
+    }
+
+    return ok(toUserFeed(userEmail, feedToken));
+  }
+
+  /**
+   * List the active aggregated feeds of a user
+   * @param userEmail - Owner email
+   * @returns Result with the user's feeds or storage error
+   */
+  async listUserFeeds(userEmail: string): Promise<Result<CalendarFeed[], StorageError>> {
+    const itinerariesResult = await this.loadUserItineraries(userEmail);
+    if (!itinerariesResult.success) {
+      return itinerariesResult;
+    }
+
+    const feeds = new Map<string, CalendarFeed>();
+    for (const itinerary of itinerariesResult.value) {
+      for (const feed of itinerary.calendarFeeds ?? []) {
+        if (feed.scope === 'user' && !feeds.has(feed.token)) {
+          feeds.set(feed.token, toUserFeed(userEmail, feed));
+        }
+      }
+    }
+
+    return ok([...feeds.values()]);
+  }
+
+  /**
+   * Revoke a user feed token on all of the user's itineraries
+   * @param userEmail - Owner email
+   * @param token - Token to revoke
+   * @returns Result with void or storage error (NOT_FOUND if the token is unknown)
+   */
+  async revokeUserFeed(userEmail: string, token: string): Promise<Result<void, StorageError>> {
+    const itinerariesResult = await this.loadUserItineraries(userEmail);
+    if (!itinerariesResult.success) {
+      return itinerariesResult;
+    }
+
+    let revoked = false;
+    for (const itinerary of itinerariesResult.value) {
+      const feeds = itinerary.calendarFeeds ?? [];
+      const remaining = feeds.filter(
+        (feed) => !(feed.scope === 'user' && tokensMatch(feed.token, token))
+      );
+      if (remaining.length === feeds.length) {
+        continue;
+      }
+
+      const saveResult = await this.saveFeeds(itinerary, remaining, 'Calendar feed revoked');
+      if (!saveResult.success) {
+        return saveResult;
+      }
+      revoked = true;
+    }
+
+    return revoked
+      ? ok(undefined)
+      : err(createStorageError('NOT_FOUND', `Calendar feed not found for ${userEmail}`));
+  }
+
+  /**
+   * Render the aggregated calendar of all itineraries a user owns
+   * @param userEmail - Owner email
+   * @param token - Feed token from the URL
+   * @returns Result with calendar text or storage error (NOT_FOUND for unknown tokens)
+   */
+  async renderUserFeed(userEmail: string, token: string): Promise<Result<string, StorageError>> {
+    const itinerariesResult = await this.loadUserItineraries(userEmail);
+    if (!itinerariesResult.success) {
+      return itinerariesResult;
+    }
+
+    const itineraries = itinerariesResult.value;
+    if (!itineraries.some((itinerary) => hasToken(itinerary, 'user', token))) {
+      return err(createStorageError('NOT_FOUND', 'Calendar feed not found'));
+    }
+
+    return ok(
+      this.icsExportService.exportCalendar({ name: 'Itinerizer trips' }, itineraries, {
+        refreshIntervalMinutes: FEED_REFRESH_MINUTES,
+      })
+    );
+  }
+
+  /**
+   * Load the full itineraries a user owns
+   */
+  private async loadUserItineraries(userEmail: string): Promise<Result<Itinerary[], StorageError>> {
+    const listResult = await this.storage.listByUser(userEmail);
+    if (!listResult.success) {
+      return listResult;
+    }
+
+    const itineraries: Itinerary[] = [];
+    // Trips shared with the user belong to someone else's feed
+    const owned = listResult.value.filter(
+      (summary) =>
+        summary.createdBy && normalizeEmail(summary.createdBy) === normalizeEmail(userEmail)
+    );
+    for (const summary of owned) {
+      const loadResult = await this.storage.load(summary.id);
+      // Skip itineraries deleted or corrupted since listing
+      if (loadResult.success) {
+        itineraries.push(loadResult.value);
+      }
+    }
+    return ok(itineraries);
+  }
+
+  /**
+   * Save an itinerary with a new set of feed tokens as a new version
+   */
+  private async saveFeeds(
+    itinerary: Itinerary,
+    calendarFeeds: CalendarFeedToken[],
+    cause: string
+  ): Promise<Result<Itinerary, StorageError>> {
+    const revision: RevisionContext = { author: 'user', cause };
+    return this.storage.save(
+      {
+        ...itinerary,
+        calendarFeeds,
+        version: itinerary.version + 1,
+        updatedAt: new Date(),
+      },
+      revision,
+      itinerary.version
+    );
+  }
+}
+
+/**
+ * Convert a feed path into a webcal:// subscription URL
+ * @param origin - API origin (e.g., "https://example.com")
+ * @param path - Feed path
+ * @returns Subscription URL that calendar apps open directly
+ */
+export function toWebcalUrl(origin: string, path: string): string {
+  return `${origin.replace(/^https?:\/\//, 'webcal://').replace(/\/+$/, '')}${path}`;
+}
+
+/**
+ * JSON replacer that drops feed tokens from serialized itineraries
+ * @param key - Property name being serialized
+ * @param value - Property value
+ * @returns The value, or undefined for `calendarFeeds`
+ */
+export function omitCalendarFeeds(key: string, value: unknown): unknown {
+  return key === 'calendarFeeds' ? undefined : value;
+}
+
+function createFeedToken(scope: CalendarFeedScope): CalendarFeedToken {
+  return { token: randomBytes(TOKEN_BYTES).toString('base64url'), scope, createdAt: new Date() };
+}
+
+function toItineraryFeed(id: ItineraryId, feed: CalendarFeedToken): CalendarFeed {
+  return {
+    ...feed,
+    path: `${CALENDAR_FEED_BASE_PATH}/itineraries/${id}/${feed.token}.ics`,
+  };
+}
+
+function toUserFeed(userEmail: string, feed: CalendarFeedToken): CalendarFeed {
+  return {
+    ...feed,
+    path: `${CALENDAR_FEED_BASE_PATH}/users/${encodeURIComponent(userEmail)}/${feed.token}.ics`,
+  };
+}
+
+function hasToken(itinerary: Itinerary, scope: CalendarFeedScope, token: string): boolean {
+  return (itinerary.calendarFeeds ?? []).some(
+    (feed) => feed.scope === scope && tokensMatch(feed.token, token)
+  );
+}
+
+/**
+ * Compare tokens in constant time
+ */
+function tokensMatch(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
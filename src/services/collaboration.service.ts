@@ -0,0 +1,216 @@
+/**
+ * Itinerary sharing with role-based collaborators
+ * @module services/collaboration
+ *
+ * The creator of an itinerary is always its owner. Other users are invited by
+ * email as owners, editors or viewers; the invitation is stored on the
+ * itinerary, so the trip shows up in the invitee's list the next time they
+ * sign in with that email.
+ */
+
+import { createAccessError, createStorageError, createValidationError } from '../core/errors.js';
+import type { AccessError, StorageError, ValidationError } from '../core/errors.js';
+import { err, ok } from '../core/result.js';
+import type { Result } from '../core/result.js';
+import type { CollaboratorInvite } from '../domain/schemas/itinerary.schema.js';
+import type { ItineraryId } from '../domain/types/branded.js';
+import type { Collaborator, CollaboratorRole, Itinerary } from '../domain/types/itinerary.js';
+import {
+  findCollaborator,
+  getItineraryRole,
+  hasRole,
+  normalizeEmail,
+} from '../domain/utils/collaborators.js';
+import type { ItineraryStorage, RevisionContext } from '../storage/storage.interface.js';
+
+export type CollaborationError = StorageError | ValidationError | AccessError;
+
+/**
+ * An itinerary loaded on behalf of a user, with the role they hold on it
+ */
+export interface AuthorizedItinerary {
+  itinerary: Itinerary;
+  role: CollaboratorRole;
+}
+
+/**
+ * Service for sharing itineraries and checking collaborator roles
+ */
+export class CollaborationService {
+  constructor(private readonly storage: ItineraryStorage) {}
+
+  /**
+   * Load an itinerary and check that a user holds at least a role on it
+   * @param id - Itinerary ID
+   * @param email - User email
+   * @param required - Minimum role the operation needs
+   * @returns Result with the itinerary and the user's role, or a storage error
+   *   (NOT_FOUND) or access error (FORBIDDEN)
+   */
+  async authorize(
+    id: ItineraryId,
+    email: string,
+    required: CollaboratorRole
+  ): Promise<Result<AuthorizedItinerary, StorageError | AccessError>> {
+    const loadResult = await this.storage.load(id);
+    if (!loadResult.success) {
+      return loadResult;
+    }
+
+    const role = getItineraryRole(loadResult.value, email);
+    if (!role) {
+      // Don't reveal that the itinerary exists to users it isn't shared with
+      return err(createStorageError('NOT_FOUND', `Itinerary not found: ${id}`));
+    }
+    if (!hasRole(role, required)) {
+      return err(
+        createAccessError(`This itinerary is shared with you as ${role}; ${required} is required`, {
+          role,
+          required,
+        })
+      );
+    }
+
+    return ok({ itinerary: loadResult.value, role });
+  }
+
+  /**
+   * List everyone with access to an itinerary, creator first
+   * @param id - Itinerary ID
+   * @returns Result with the collaborators or storage error
+   */
+  async listCollaborators(id: ItineraryId): Promise<Result<Collaborator[], StorageError>> {
+    const loadResult = await this.storage.load(id);
+    if (!loadResult.success) {
+      return loadResult;
+    }
+
+    const { createdBy, createdAt, collaborators = [] } = loadResult.value;
+    return ok([
+      ...(createdBy ? [{ email: createdBy, role: 'owner' as const, invitedAt: createdAt }] : []),
+      ...collaborators,
+    ]);
+  }
+
+  /**
+   * Share an itinerary with a user, or change the role of an existing collaborator
+   * @param id - Itinerary ID
+   * @param invite - Invitee email and role
+   * @param invitedBy - Email of the user sending the invitation
+   * @returns Result with the collaborator entry or an error
+   *   (CONSTRAINT_VIOLATION when inviting the creator)
+   */
+  async invite(
+    id: ItineraryId,
+    invite: CollaboratorInvite,
+    invitedBy?: string
+  ): Promise<Result<Collaborator, CollaborationError>> {
+    const loadResult = await this.storage.load(id);
+    if (!loadResult.success) {
+      return loadResult;
+    }
+
+    const itinerary = loadResult.value;
+    if (
+      itinerary.createdBy &&
+      normalizeEmail(itinerary.createdBy) === normalizeEmail(invite.email)
+    ) {
+      return err(
+        createValidationError(
+          'CONSTRAINT_VIOLATION',
+          `${invite.email} created this itinerary and is always an owner`,
+          'email'
+        )
+      );
+    }
+
+    const existing = findCollaborator(itinerary, invite.email);
+    const collaborator: Collaborator = existing
+      ? { ...existing, role: invite.role }
+      : {
+          email: invite.email.trim(),
+          role: invite.role,
+          ...(invitedBy ? { invitedBy } : {}),
+          invitedAt: new Date(),
+        };
+
+    const collaborators = existing
+      ? (itinerary.collaborators ?? []).map((c) => (c === existing ? collaborator : c))
+      : [...(itinerary.collaborators ?? []), collaborator];
+
+    const saveResult = await this.saveCollaborators(
+      itinerary,
+      collaborators,
+      existing
+        ? `Changed ${collaborator.email} to ${invite.role}`
+        : `Shared with ${collaborator.email} as ${invite.role}`,
+      invitedBy
+    );
+    return saveResult.success ? ok(collaborator) : saveResult;
+  }
+
+  /**
+   * Stop sharing an itinerary with a user
+   * @param id - Itinerary ID
+   * @param email - Collaborator email
+   * @param removedBy - Email of the user making the change
+   * @returns Result with void or an error (NOT_FOUND if the user is not a collaborator,
+   *   CONSTRAINT_VIOLATION for the creator)
+   */
+  async remove(
+    id: ItineraryId,
+    email: string,
+    removedBy?: string
+  ): Promise<Result<void, CollaborationError>> {
+    const loadResult = await this.storage.load(id);
+    if (!loadResult.success) {
+      return loadResult;
+    }
+
+    const itinerary = loadResult.value;
+    if (itinerary.createdBy && normalizeEmail(itinerary.createdBy) === normalizeEmail(email)) {
+      return err(
+        createValidationError(
+          'CONSTRAINT_VIOLATION',
+          'The creator of an itinerary cannot be removed',
+          'email'
+        )
+      );
+    }
+
+    const existing = findCollaborator(itinerary, email);
+    if (!existing) {
+      return err(createStorageError('NOT_FOUND', `${email} is not a collaborator on ${id}`));
+    }
+
+    const saveResult = await this.saveCollaborators(
+      itinerary,
+      (itinerary.collaborators ?? []).filter((c) => c !== existing),
+      `Stopped sharing with ${existing.email}`,
+      removedBy
+    );
+    return saveResult.success ? ok(undefined) : saveResult;
+  }
+
+  /**
+   * Save an itinerary with a new set of collaborators as a new version
+   */
+  private async saveCollaborators(
+    itinerary: Itinerary,
+    collaborators: Collaborator[],
+    cause: string,
+    actor?: string
+  ): Promise<Result<Itinerary, StorageError>> {
+    const revision: RevisionContext = { author: 'user', cause, ...(actor ? { actor } : {}) };
+    return this.storage.save(
+      {
+        ...itinerary,
+        collaborators,
+        version: itinerary.version + 1,
+        updatedAt: new Date(),
+      },
+      revision,
+      itinerary.version
+    );
+  }
+}
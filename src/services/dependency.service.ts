@@ -258,8 +258,13 @@ export class DependencyService {
    * @returns True if segments would overlap and conflict
    */
   wouldOverlap(a: Segment, b: Segment): boolean {
-    // Check time overlap first
-    const timeOverlap = a.startDatetime < b.endDatetime && b.startDatetime < a.endDatetime;
+    // Check time overlap first, on absolute instants so segments in different
+    // timezones (or serialized with different UTC offsets) compare correctly
+    const aStart = new Date(a.startDatetime).getTime();
+    const aEnd = new Date(a.endDatetime).getTime();
+    const bStart = new Date(b.startDatetime).getTime();
+    const bEnd = new Date(b.endDatetime).getTime();
+    const timeOverlap = aStart < bEnd && bStart < aEnd;
 
     if (!timeOverlap) {
       return false;
@@ -310,74 +315,84 @@ export class DependencyService {
   }
 
   /**
-   * Adjust dependent segments when a segment is moved
+   * Find the segments that move along with a set of segments
    * Uses HYBRID approach:
    * 1. Explicit dependencies from dependsOn field
-   * 2. Chronological auto-detection for overlapping segments
+   * 2. Chronological auto-detection for back-to-back segments
    *
    * @param segments - All segments in the itinerary
-   * @param movedSegmentId - The segment that was moved
-   * @param timeDelta - The time shift in milliseconds (positive = later, negative = earlier)
-   * @returns Updated segments with cascaded time adjustments or error
+   * @param segmentIds - The segments being moved
+   * @returns The given segment IDs followed by every (transitive) dependent
    */
-  adjustDependentSegments(
-    segments: Segment[],
-    movedSegmentId: SegmentId,
-    timeDelta: number
-  ): Result<Segment[], DependencyError> {
-    // Find the moved segment
-    const movedSegment = segments.find((s) => s.id === movedSegmentId);
-    if (!movedSegment) {
-      return err(
-        createDependencyError('MISSING_DEPENDENCY', `Segment ${movedSegmentId} not found`, [
-          movedSegmentId,
-        ])
-      );
-    }
-
+  findCascade(segments: Segment[], segmentIds: SegmentId[]): SegmentId[] {
     // Build combined dependency graph (explicit + chronological)
-    const explicitGraph = this.buildGraph(segments);
+    const graph = this.buildGraph(segments);
     const chronoDeps = this.inferChronologicalDependencies(segments);
 
     // Merge chronological dependencies into graph
     for (const [segmentId, deps] of chronoDeps.entries()) {
       for (const depId of deps) {
-        if (!explicitGraph.edges.has(depId)) {
-          explicitGraph.edges.set(depId, []);
+        if (!graph.edges.has(depId)) {
+          graph.edges.set(depId, []);
         }
-        const edges = explicitGraph.edges.get(depId);
+        const edges = graph.edges.get(depId);
         if (edges && !edges.includes(segmentId)) {
           edges.push(segmentId);
         }
       }
     }
 
-    // Create adjustment map
-    const adjustments = new Map<SegmentId, number>();
-    adjustments.set(movedSegmentId, timeDelta);
-
-    // BFS to propagate adjustments
-    const queue: SegmentId[] = [movedSegmentId];
-    const visited = new Set<SegmentId>();
+    // BFS to collect dependents
+    const visited = new Set<SegmentId>(segmentIds);
+    const queue: SegmentId[] = [...segmentIds];
 
     while (queue.length > 0) {
       const current = queue.shift();
       if (!current) continue;
 
-      visited.add(current);
-
-      const currentAdjustment = adjustments.get(current) || 0;
-      const directDependents = explicitGraph.edges.get(current) || [];
-
-      for (const depId of directDependents) {
+      for (const depId of graph.edges.get(current) || []) {
         if (!visited.has(depId)) {
-          // Propagate the same time delta
-          adjustments.set(depId, currentAdjustment);
+          visited.add(depId);
           queue.push(depId);
         }
       }
     }
 
+    return Array.from(visited);
+  }
+
+  /**
+   * Adjust dependent segments when a segment is moved
+   * Uses HYBRID approach:
+   * 1. Explicit dependencies from dependsOn field
+   * 2. Chronological auto-detection for overlapping segments
+   *
+   * @param segments - All segments in the itinerary
+   * @param movedSegmentId - The segment that was moved
+   * @param timeDelta - The time shift in milliseconds (positive = later, negative = earlier)
+   * @returns Updated segments with cascaded time adjustments or error
+   */
+  adjustDependentSegments(
+    segments: Segment[],
+    movedSegmentId: SegmentId,
+    timeDelta: number
+  ): Result<Segment[], DependencyError> {
+    // Find the moved segment
+    const movedSegment = segments.find((s) => s.id === movedSegmentId);
+    if (!movedSegment) {
+      return err(
+        createDependencyError('MISSING_DEPENDENCY', `Segment ${movedSegmentId} not found`, [
+          movedSegmentId,
+        ])
+      );
+    }
+
+    // Every segment reachable from the moved one shifts by the same delta
+    const adjustments = new Map<SegmentId, number>();
+    for (const segmentId of this.findCascade(segments, [movedSegmentId])) {
+      adjustments.set(segmentId, timeDelta);
+    }
+
     // Apply adjustments
     const adjustedSegments = segments.map((segment) => {
       const adjustment = adjustments.get(segment.id);
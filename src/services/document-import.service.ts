@@ -27,7 +27,9 @@ import { ModelSelectorService } from './model-selector.service.js';
 import { DurationInferenceService } from './duration-inference.service.js';
 import { TravelAgentReviewService } from './travel-agent-review.service.js';
 import { GeocodingService } from './geocoding.service.js';
+import type { GeocodingResult } from './geocoding.service.js';
 import type { Location } from '../domain/types/location.js';
+import { getSegmentTimezones, inferTimezone, reinterpretAsZoned } from '../utils/timezone.js';
 
 /**
  * Import preview result (before LLM processing)
@@ -417,7 +419,11 @@ export class DocumentImportService {
       // Try to use TravelAgentService if available
       if (this.travelAgent) {
         try {
-          const result = await this.travelAgent.fillGapIntelligently(gap, sortedSegments);
+          const result = await this.travelAgent.fillGapIntelligently(
+            gap,
+            sortedSegments,
+            itinerary
+          );
           if (result.found && result.segment) {
             segment = result.segment;
             console.log(`✓ Found real travel option: ${result.segment.type} via SerpAPI`);
@@ -841,18 +847,15 @@ export class DocumentImportService {
     const geocodingResults = await this.geocodingService.geocodeBatch(queries);
 
     // Step 3: Create a map of location references to geocoded coordinates
-    const coordinatesByQuery = new Map<string, { latitude: number; longitude: number }>();
+    const geocodedByQuery = new Map<string, GeocodingResult>();
     let successCount = 0;
     let failedCount = 0;
 
     for (const [query, result] of geocodingResults) {
       if (result) {
-        coordinatesByQuery.set(query, {
-          latitude: result.latitude,
-          longitude: result.longitude,
-        });
+        geocodedByQuery.set(query, result);
         successCount++;
-        console.log(`   ✓ ${query} → ${result.latitude.toFixed(4)}, ${result.longitude.toFixed(4)}`);
+        console.log(`   ✓ ${query} → ${result.latitude.toFixed(4)}, ${result.longitude.toFixed(4)} (${result.timezone})`);
       } else {
         failedCount++;
         console.log(`   ✗ ${query} → not found`);
@@ -861,67 +864,31 @@ export class DocumentImportService {
 
     console.log(`✓ Geocoded ${successCount} locations, ${failedCount} failed`);
 
-    // Step 4: Update segments with coordinates
+    // Step 4: Update segments with coordinates and timezones
     const updatedSegments = itinerary.segments.map((segment) => {
       const updatedSegment = { ...segment };
 
-      if (segment.type === SegmentType.FLIGHT) {
-        if (segment.origin) {
-          const query = this.geocodingService.buildLocationQuery(segment.origin);
-          const coords = coordinatesByQuery.get(query);
-          if (coords && !segment.origin.coordinates) {
-            updatedSegment.origin = { ...segment.origin, coordinates: coords };
-          }
-        }
-        if (segment.destination) {
-          const query = this.geocodingService.buildLocationQuery(segment.destination);
-          const coords = coordinatesByQuery.get(query);
-          if (coords && !segment.destination.coordinates) {
-            updatedSegment.destination = { ...segment.destination, coordinates: coords };
-          }
-        }
-      } else if (segment.type === SegmentType.HOTEL) {
-        if (segment.location) {
-          const query = this.geocodingService.buildLocationQuery(segment.location);
-          const coords = coordinatesByQuery.get(query);
-          if (coords && !segment.location.coordinates) {
-            updatedSegment.location = { ...segment.location, coordinates: coords };
-          }
-        }
-      } else if (segment.type === SegmentType.MEETING) {
-        if (segment.location) {
-          const query = this.geocodingService.buildLocationQuery(segment.location);
-          const coords = coordinatesByQuery.get(query);
-          if (coords && !segment.location.coordinates) {
-            updatedSegment.location = { ...segment.location, coordinates: coords };
-          }
-        }
-      } else if (segment.type === SegmentType.ACTIVITY) {
-        if (segment.location) {
-          const query = this.geocodingService.buildLocationQuery(segment.location);
-          const coords = coordinatesByQuery.get(query);
-          if (coords && !segment.location.coordinates) {
-            updatedSegment.location = { ...segment.location, coordinates: coords };
-          }
-        }
-      } else if (segment.type === SegmentType.TRANSFER) {
-        if (segment.pickupLocation) {
-          const query = this.geocodingService.buildLocationQuery(segment.pickupLocation);
-          const coords = coordinatesByQuery.get(query);
-          if (coords && !segment.pickupLocation.coordinates) {
-            updatedSegment.pickupLocation = { ...segment.pickupLocation, coordinates: coords };
-          }
-        }
-        if (segment.dropoffLocation) {
-          const query = this.geocodingService.buildLocationQuery(segment.dropoffLocation);
-          const coords = coordinatesByQuery.get(query);
-          if (coords && !segment.dropoffLocation.coordinates) {
-            updatedSegment.dropoffLocation = { ...segment.dropoffLocation, coordinates: coords };
-          }
-        }
+      if (updatedSegment.type === SegmentType.FLIGHT) {
+        updatedSegment.origin = this.applyGeocoding(updatedSegment.origin, geocodedByQuery);
+        updatedSegment.destination = this.applyGeocoding(updatedSegment.destination, geocodedByQuery);
+      } else if (updatedSegment.type === SegmentType.HOTEL) {
+        updatedSegment.location = this.applyGeocoding(updatedSegment.location, geocodedByQuery);
+      } else if (updatedSegment.type === SegmentType.MEETING) {
+        updatedSegment.location = this.applyGeocoding(updatedSegment.location, geocodedByQuery);
+      } else if (updatedSegment.type === SegmentType.ACTIVITY) {
+        updatedSegment.location = this.applyGeocoding(updatedSegment.location, geocodedByQuery);
+      } else if (updatedSegment.type === SegmentType.TRANSFER) {
+        updatedSegment.pickupLocation = this.applyGeocoding(
+          updatedSegment.pickupLocation,
+          geocodedByQuery
+        );
+        updatedSegment.dropoffLocation = this.applyGeocoding(
+          updatedSegment.dropoffLocation,
+          geocodedByQuery
+        );
       }
 
-      return updatedSegment;
+      return this.anchorFloatingTimes(updatedSegment);
     });
 
     return {
@@ -930,6 +897,50 @@ export class DocumentImportService {
     };
   }
 
+  /**
+   * Add geocoded coordinates and timezone to a location that lacks them
+   * @param location - Location to update
+   * @param geocodedByQuery - Geocoding results keyed by location query
+   * @returns Updated location (unchanged if nothing was found)
+   */
+  private applyGeocoding<T extends Location | undefined>(
+    location: T,
+    geocodedByQuery: Map<string, GeocodingResult>
+  ): T {
+    if (!location) return location;
+
+    const result = geocodedByQuery.get(this.geocodingService.buildLocationQuery(location));
+    const updated: Location = { ...location };
+    if (result && !updated.coordinates) {
+      updated.coordinates = { latitude: result.latitude, longitude: result.longitude };
+    }
+    if (!updated.timezone) {
+      const timezone = inferTimezone(updated);
+      if (timezone) updated.timezone = timezone;
+    }
+    return updated as T;
+  }
+
+  /**
+   * Re-anchor wall-clock times that were stored as UTC because the timezone was unknown
+   * @param segment - Segment flagged with `metadata.floatingTimes` by the normalizer
+   * @returns Segment with instants in its locations' timezones
+   */
+  private anchorFloatingTimes(segment: Segment): Segment {
+    if (!segment.metadata?.floatingTimes) return segment;
+
+    const zones = getSegmentTimezones(segment);
+    if (!zones.start || !zones.end) return segment;
+
+    const { floatingTimes: _floatingTimes, ...metadata } = segment.metadata;
+    return {
+      ...segment,
+      startDatetime: reinterpretAsZoned(segment.startDatetime, zones.start),
+      endDatetime: reinterpretAsZoned(segment.endDatetime, zones.end),
+      metadata,
+    };
+  }
+
   /**
    * Enhance itinerary metadata with import information
    * @param itinerary - Itinerary to enhance
@@ -0,0 +1,233 @@
+/**
+ * Exchange rate providers for currency conversion
+ * @module services/exchange-rate
+ */
+
+import { readFile } from 'node:fs/promises';
+import { createMoneyError } from '../core/errors.js';
+import type { MoneyError } from '../core/errors.js';
+import { err, ok } from '../core/result.js';
+import type { Result } from '../core/result.js';
+import { convertMoney } from '../domain/types/money.js';
+import type { Money } from '../domain/types/money.js';
+
+/**
+ * Source of exchange rates.
+ * Implementations may be offline tables or live rate APIs.
+ */
+export interface ExchangeRateProvider {
+  /**
+   * Get the rate to convert one unit of `from` into `to`
+   * @param from - Source ISO 4217 currency code
+   * @param to - Target ISO 4217 currency code
+   * @param on - Date the rate should apply to (providers without history may ignore it)
+   */
+  getRate(from: string, to: string, on?: Date): Promise<Result<number, MoneyError>>;
+
+  /** Date the rates were published, when the provider knows it (e.g. "2025-01-02") */
+  readonly asOf?: string;
+}
+
+/**
+ * Exchange rate table quoted against a single base currency
+ */
+export interface ExchangeRateTable {
+  /** Base currency all rates are quoted against */
+  base: string;
+  /** Units of each currency per one unit of the base currency */
+  rates: Record<string, number>;
+  /** Date the rates were published (informational) */
+  asOf?: string;
+}
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+/**
+ * Approximate reference rates bundled for offline use.
+ * Good enough for budget estimates; not for settling payments.
+ */
+export const REFERENCE_EXCHANGE_RATES: ExchangeRateTable = {
+  base: 'EUR',
+  asOf: '2025-01-02',
+  rates: {
+    AED: 3.82,
+    ARS: 1070,
+    AUD: 1.67,
+    BRL: 6.4,
+    CAD: 1.49,
+    CHF: 0.94,
+    CLP: 1035,
+    CNY: 7.6,
+    COP: 4580,
+    CZK: 25.2,
+    DKK: 7.46,
+    EGP: 52.8,
+    GBP: 0.83,
+    HKD: 8.1,
+    HUF: 411,
+    IDR: 16800,
+    ILS: 3.78,
+    INR: 89,
+    ISK: 144,
+    JPY: 163,
+    KRW: 1530,
+    KWD: 0.32,
+    MAD: 10.5,
+    MXN: 21.5,
+    MYR: 4.65,
+    NOK: 11.8,
+    NZD: 1.84,
+    PEN: 3.9,
+    PHP: 60.3,
+    PLN: 4.27,
+    SAR: 3.9,
+    SEK: 11.5,
+    SGD: 1.42,
+    THB: 35.5,
+    TRY: 36.7,
+    TWD: 34.1,
+    USD: 1.04,
+    VND: 26400,
+    ZAR: 19.6,
+  },
+};
+
+/**
+ * Exchange rate provider backed by a fixed rate table.
+ * Cross rates are derived through the table's base currency.
+ */
+export class StaticExchangeRateProvider implements ExchangeRateProvider {
+  readonly asOf?: string;
+  private readonly base: string;
+  private readonly rates: Map<string, number>;
+
+  /**
+   * Creates a static provider
+   * @param table - Rates quoted against a base currency
+   */
+  constructor(table: ExchangeRateTable) {
+    this.base = table.base.toUpperCase();
+    this.rates = new Map(
+      Object.entries(table.rates).map(([currency, rate]) => [currency.toUpperCase(), rate])
+    );
+    this.rates.set(this.base, 1);
+    if (table.asOf) {
+      this.asOf = table.asOf;
+    }
+  }
+
+  /**
+   * Loads a rate table from a JSON file (`{ "base": "EUR", "rates": { "USD": 1.08 } }`)
+   * @param filePath - Path to the JSON rate table
+   * @returns Provider or error if the file cannot be read or is malformed
+   */
+  static async fromFile(filePath: string): Promise<Result<StaticExchangeRateProvider, MoneyError>> {
+    let table: unknown;
+    try {
+      table = JSON.parse(await readFile(filePath, 'utf-8'));
+    } catch (error) {
+      return err(
+        createMoneyError('RATE_SOURCE_ERROR', `Failed to read exchange rates from ${filePath}`, {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+
+    if (!isExchangeRateTable(table)) {
+      return err(
+        createMoneyError('RATE_SOURCE_ERROR', `Malformed exchange rate table in ${filePath}`)
+      );
+    }
+
+    return ok(new StaticExchangeRateProvider(table));
+  }
+
+  async getRate(from: string, to: string): Promise<Result<number, MoneyError>> {
+    const source = from.toUpperCase();
+    const target = to.toUpperCase();
+
+    for (const code of [source, target]) {
+      if (!CURRENCY_CODE.test(code)) {
+        return err(createMoneyError('INVALID_CURRENCY', `Invalid currency code: ${code}`));
+      }
+    }
+
+    if (source === target) {
+      return ok(1);
+    }
+
+    const sourceRate = this.rates.get(source);
+    const targetRate = this.rates.get(target);
+    if (sourceRate === undefined || targetRate === undefined) {
+      return err(
+        createMoneyError('RATE_UNAVAILABLE', `No exchange rate from ${source} to ${target}`, {
+          from: source,
+          to: target,
+        })
+      );
+    }
+
+    return ok(targetRate / sourceRate);
+  }
+}
+
+/**
+ * Loads the exchange rate provider a deployment is configured with.
+ * Reads the JSON rate table named by `EXCHANGE_RATES_FILE`; without one, falls
+ * back to the bundled reference rates and warns that they may be stale.
+ * @param filePath - Path to the JSON rate table
+ * @returns Provider or error if the configured file cannot be loaded
+ */
+export async function loadExchangeRateProvider(
+  filePath = process.env.EXCHANGE_RATES_FILE
+): Promise<Result<ExchangeRateProvider, MoneyError>> {
+  if (filePath) {
+    return StaticExchangeRateProvider.fromFile(filePath);
+  }
+
+  console.warn(
+    `⚠️  EXCHANGE_RATES_FILE not set - converting budgets with reference rates from ${REFERENCE_EXCHANGE_RATES.asOf}`
+  );
+  return ok(new StaticExchangeRateProvider(REFERENCE_EXCHANGE_RATES));
+}
+
+/**
+ * Converts money into another currency using a rate provider
+ * @param money - Amount to convert
+ * @param currency - Target ISO 4217 currency code
+ * @param provider - Exchange rate source
+ * @param on - Date the rate should apply to
+ * @returns Converted amount in the target currency's minor units
+ */
+export async function convertCurrency(
+  money: Money,
+  currency: string,
+  provider: ExchangeRateProvider,
+  on?: Date
+): Promise<Result<Money, MoneyError>> {
+  if (money.currency === currency) {
+    return ok(money);
+  }
+
+  const rateResult = await provider.getRate(money.currency, currency, on);
+  if (!rateResult.success) {
+    return rateResult;
+  }
+
+  return ok(convertMoney(money, rateResult.value, currency));
+}
+
+function isExchangeRateTable(value: unknown): value is ExchangeRateTable {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const table = value as Record<string, unknown>;
+  return (
+    typeof table.base === 'string' &&
+    CURRENCY_CODE.test(table.base.toUpperCase()) &&
+    (table.asOf === undefined || typeof table.asOf === 'string') &&
+    typeof table.rates === 'object' &&
+    table.rates !== null &&
+    Object.values(table.rates).every((rate) => typeof rate === 'number' && rate > 0)
+  );
+}
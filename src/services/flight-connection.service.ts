@@ -0,0 +1,322 @@
+/**
+ * Flight connection service - groups flight legs into journeys and models layovers
+ * @module services/flight-connection
+ */
+
+import type { SegmentId } from '../domain/types/branded.js';
+import type { Location } from '../domain/types/location.js';
+import type { FlightSegment, Segment } from '../domain/types/segment.js';
+import { isFlightSegment } from '../domain/types/segment.js';
+
+/**
+ * How the traveler gets from the inbound leg to the outbound leg
+ * - SAME_AIRPORT: connection stays airside at one airport
+ * - CROSS_AIRPORT: connection requires ground transport (e.g., LHR → LGW)
+ */
+export type ConnectionKind = 'SAME_AIRPORT' | 'CROSS_AIRPORT';
+
+/**
+ * Minimum connection time rules, in minutes
+ */
+export interface ConnectionRules {
+  /** Minimum connection time within one terminal */
+  sameAirportMinutes: number;
+  /** Minimum connection time when the terminal changes */
+  terminalChangeMinutes: number;
+  /** Minimum connection time between two airports */
+  crossAirportMinutes: number;
+  /** Layovers longer than this are stopovers and start a new journey */
+  maxLayoverMinutes: number;
+}
+
+/**
+ * Default connection rules
+ */
+export const DEFAULT_CONNECTION_RULES: ConnectionRules = {
+  sameAirportMinutes: 60,
+  terminalChangeMinutes: 90,
+  crossAirportMinutes: 180,
+  maxLayoverMinutes: 24 * 60,
+};
+
+/**
+ * Connection between two consecutive legs of a journey
+ */
+export interface FlightConnection {
+  /** Leg arriving at the connection point */
+  inbound: FlightSegment;
+  /** Leg departing from the connection point */
+  outbound: FlightSegment;
+  /** Same-airport or cross-airport connection */
+  kind: ConnectionKind;
+  /** Airport the inbound leg arrives at */
+  arrivalAirport: Location;
+  /** Airport the outbound leg departs from */
+  departureAirport: Location;
+  /** Time on the ground between legs */
+  layoverMinutes: number;
+  /** Minimum connection time that applies to this connection */
+  minimumConnectionMinutes: number;
+  /** Whether the layover satisfies the minimum connection time */
+  meetsMinimumConnectionTime: boolean;
+  /** True if the connection changes terminal at the same airport */
+  terminalChange: boolean;
+}
+
+/**
+ * Flight legs travelled as one journey (e.g., SFO → ORD → LHR under one PNR)
+ */
+export interface FlightJourney {
+  /** Journey identifier (explicit journeyId or the first leg's ID) */
+  id: string;
+  /** Shared booking reference, if the legs were grouped by booking */
+  bookingReference?: string;
+  /** Legs in chronological order */
+  legs: FlightSegment[];
+  /** Connections between consecutive legs */
+  connections: FlightConnection[];
+  /** Origin of the first leg */
+  origin: Location;
+  /** Destination of the last leg */
+  destination: Location;
+  /** Departure of the first leg */
+  startDatetime: Date;
+  /** Arrival of the last leg */
+  endDatetime: Date;
+  /** Total time spent on layovers */
+  totalLayoverMinutes: number;
+}
+
+/**
+ * Service for grouping flight legs into journeys with connections
+ */
+export class FlightConnectionService {
+  private readonly rules: ConnectionRules;
+
+  /**
+   * Creates a new flight connection service
+   * @param rules - Overrides for the default connection rules
+   */
+  constructor(rules: Partial<ConnectionRules> = {}) {
+    this.rules = { ...DEFAULT_CONNECTION_RULES, ...rules };
+  }
+
+  /**
+   * Group the flight segments of an itinerary into journeys
+   *
+   * Legs belong to the same journey when they share an explicit journeyId, or
+   * when they share a booking reference (PNR) and connect within the maximum
+   * layover. A leg that returns to the journey's origin starts a new journey,
+   * so outbound and return flights on one PNR stay separate.
+   *
+   * @param segments - Segments in any order
+   * @returns Journeys in chronological order (single-leg flights included)
+   */
+  groupJourneys(segments: Segment[]): FlightJourney[] {
+    const flights = segments
+      .filter(isFlightSegment)
+      .sort((a, b) => this.time(a.startDatetime) - this.time(b.startDatetime));
+
+    const groups: FlightSegment[][] = [];
+    const openGroups = new Map<string, FlightSegment[]>();
+
+    for (const flight of flights) {
+      const key = this.getGroupingKey(flight);
+
+      if (!key) {
+        groups.push([flight]);
+        continue;
+      }
+
+      const current = openGroups.get(key);
+      if (current && this.continuesJourney(current, flight)) {
+        current.push(flight);
+        continue;
+      }
+
+      const group = [flight];
+      groups.push(group);
+      openGroups.set(key, group);
+    }
+
+    return groups
+      .map((legs) => this.buildJourney(legs))
+      .sort((a, b) => this.time(a.startDatetime) - this.time(b.startDatetime));
+  }
+
+  /**
+   * Get all connections in an itinerary
+   * @param segments - Segments in any order
+   * @returns Connections in chronological order
+   */
+  getConnections(segments: Segment[]): FlightConnection[] {
+    return this.groupJourneys(segments).flatMap((journey) => journey.connections);
+  }
+
+  /**
+   * Find the connection whose inbound leg is the given segment
+   * @param connections - Connections to search
+   * @param segmentId - Inbound leg ID
+   * @returns Connection or undefined if the segment ends its journey
+   */
+  findConnectionAfter(
+    connections: FlightConnection[],
+    segmentId: SegmentId
+  ): FlightConnection | undefined {
+    return connections.find((connection) => connection.inbound.id === segmentId);
+  }
+
+  /**
+   * Find the connection whose outbound leg is the given segment
+   * @param connections - Connections to search
+   * @param segmentId - Outbound leg ID
+   * @returns Connection or undefined if the segment starts its journey
+   */
+  findConnectionBefore(
+    connections: FlightConnection[],
+    segmentId: SegmentId
+  ): FlightConnection | undefined {
+    return connections.find((connection) => connection.outbound.id === segmentId);
+  }
+
+  /**
+   * Build the connection between two consecutive legs
+   * @param inbound - Leg arriving at the connection point
+   * @param outbound - Leg departing from the connection point
+   * @returns Connection with layover and minimum connection time check
+   */
+  buildConnection(inbound: FlightSegment, outbound: FlightSegment): FlightConnection {
+    const kind: ConnectionKind = this.isSameAirport(inbound.destination, outbound.origin)
+      ? 'SAME_AIRPORT'
+      : 'CROSS_AIRPORT';
+
+    const terminalChange =
+      kind === 'SAME_AIRPORT' &&
+      Boolean(inbound.arrivalTerminal) &&
+      Boolean(outbound.departureTerminal) &&
+      inbound.arrivalTerminal?.trim().toUpperCase() !==
+        outbound.departureTerminal?.trim().toUpperCase();
+
+    let minimumConnectionMinutes = this.rules.sameAirportMinutes;
+    if (kind === 'CROSS_AIRPORT') {
+      minimumConnectionMinutes = this.rules.crossAirportMinutes;
+    } else if (terminalChange) {
+      minimumConnectionMinutes = this.rules.terminalChangeMinutes;
+    }
+
+    const layoverMinutes = Math.round(
+      (this.time(outbound.startDatetime) - this.time(inbound.endDatetime)) / (60 * 1000)
+    );
+
+    return {
+      inbound,
+      outbound,
+      kind,
+      arrivalAirport: inbound.destination,
+      departureAirport: outbound.origin,
+      layoverMinutes,
+      minimumConnectionMinutes,
+      meetsMinimumConnectionTime: layoverMinutes >= minimumConnectionMinutes,
+      terminalChange,
+    };
+  }
+
+  /**
+   * Check if two locations are the same airport
+   * @param loc1 - First location
+   * @param loc2 - Second location
+   * @returns True if codes (or names, when codes are missing) match
+   */
+  isSameAirport(loc1: Location, loc2: Location): boolean {
+    if (loc1.code && loc2.code) {
+      return loc1.code.trim().toUpperCase() === loc2.code.trim().toUpperCase();
+    }
+    return loc1.name.trim().toLowerCase() === loc2.name.trim().toLowerCase();
+  }
+
+  /**
+   * Get the key legs are grouped by
+   * @param flight - Flight leg
+   * @returns Grouping key or null if the leg has no journey or booking
+   */
+  private getGroupingKey(flight: FlightSegment): string | null {
+    if (flight.journeyId) {
+      return `journey:${flight.journeyId}`;
+    }
+    const booking = flight.bookingReference ?? flight.confirmationNumber;
+    if (booking?.trim()) {
+      return `booking:${booking.trim().toUpperCase()}`;
+    }
+    return null;
+  }
+
+  /**
+   * Check if a leg continues an open journey
+   * @param legs - Legs of the open journey
+   * @param flight - Candidate next leg
+   * @returns True if the leg connects onward from the journey
+   */
+  private continuesJourney(legs: FlightSegment[], flight: FlightSegment): boolean {
+    const first = legs[0];
+    const last = legs[legs.length - 1];
+    if (!first || !last) return false;
+
+    // Explicitly linked legs always belong together
+    if (flight.journeyId && flight.journeyId === last.journeyId) {
+      return true;
+    }
+
+    const layoverMinutes =
+      (this.time(flight.startDatetime) - this.time(last.endDatetime)) / (60 * 1000);
+    if (layoverMinutes > this.rules.maxLayoverMinutes) {
+      return false;
+    }
+
+    // Flying back to where the journey began is a return trip, not a connection
+    return !this.isSameAirport(flight.destination, first.origin);
+  }
+
+  /**
+   * Build a journey from its legs
+   * @param legs - Legs in chronological order
+   * @returns Journey
+   */
+  private buildJourney(legs: FlightSegment[]): FlightJourney {
+    const first = legs[0] as FlightSegment;
+    const last = legs[legs.length - 1] as FlightSegment;
+
+    const connections: FlightConnection[] = [];
+    for (let i = 0; i < legs.length - 1; i++) {
+      const inbound = legs[i];
+      const outbound = legs[i + 1];
+      if (inbound && outbound) {
+        connections.push(this.buildConnection(inbound, outbound));
+      }
+    }
+
+    const journey: FlightJourney = {
+      id: first.journeyId ?? first.id,
+      legs,
+      connections,
+      origin: first.origin,
+      destination: last.destination,
+      startDatetime: new Date(first.startDatetime),
+      endDatetime: new Date(last.endDatetime),
+      totalLayoverMinutes: connections.reduce((sum, c) => sum + c.layoverMinutes, 0),
+    };
+
+    const bookingReference = first.bookingReference ?? first.confirmationNumber;
+    if (legs.length > 1 && bookingReference) {
+      journey.bookingReference = bookingReference;
+    }
+
+    return journey;
+  }
+
+  /**
+   * Get epoch milliseconds for a date that may have been deserialized as a string
+   */
+  private time(date: Date | string): number {
+    return new Date(date).getTime();
+  }
+}
@@ -1,10 +1,21 @@
 /**
  * Geocoding and Geography service using Nominatim (OpenStreetMap)
  * Rate limited to 1 request/second per Nominatim usage policy
+ * Airports and cities in the bundled reference dataset are resolved offline.
  * @module services/geocoding
  */
 
 import type { Location } from '../domain/types/location.js';
+import type { Airport } from '../domain/types/reference.js';
+import type { PlaceMatch } from '../utils/airports.js';
+import { lookupPlace } from '../utils/airports.js';
+import { getTimezoneForCoordinates } from '../utils/timezone.js';
+
+/** Offline matches at or above this score skip the Nominatim request */
+const OFFLINE_EXACT_SCORE = 0.95;
+
+/** Offline matches at or above this score are used when Nominatim finds nothing */
+const OFFLINE_FALLBACK_SCORE = 0.8;
 
 /**
  * Result from geocoding API
@@ -18,6 +29,8 @@ export interface GeocodingResult {
   displayName: string;
   /** Confidence score (0-100) based on result importance */
   confidence: number;
+  /** IANA timezone inferred from the coordinates */
+  timezone: string;
 }
 
 /**
@@ -66,6 +79,7 @@ export interface RouteResult {
  * - Respects 1 request/second rate limit
  * - Batch geocoding support
  * - Configurable user agent
+ * - Offline lookup of known airports and cities (no request needed)
  *
  * Usage Policy:
  * https://operations.osmfoundation.org/policies/nominatim/
@@ -86,6 +100,33 @@ export class GeocodingService {
       return null;
     }
 
+    // Known airports and cities need no network round-trip
+    const offline = lookupPlace(query, OFFLINE_EXACT_SCORE);
+    if (offline) {
+      return this.toOfflineResult(offline);
+    }
+
+    const result = await this.geocodeOnline(query);
+    if (result) {
+      return result;
+    }
+
+    // Fall back to a looser offline match (e.g., "Marriott, Lisboa" → Lisbon)
+    const fallback = lookupPlace(query, OFFLINE_FALLBACK_SCORE);
+    if (fallback) {
+      console.debug(`Using offline reference data for "${query}": ${fallback.name}`);
+      return this.toOfflineResult(fallback);
+    }
+
+    return null;
+  }
+
+  /**
+   * Geocode a location string with Nominatim
+   * @param query - Location to geocode
+   * @returns Geocoding result or null if not found or the request failed
+   */
+  private async geocodeOnline(query: string): Promise<GeocodingResult | null> {
     // Rate limit: 1 request per second
     await this.rateLimit();
 
@@ -115,11 +156,14 @@ export class GeocodingService {
       }
 
       const result = data[0];
+      const latitude = parseFloat(result.lat);
+      const longitude = parseFloat(result.lon);
       return {
-        latitude: parseFloat(result.lat),
-        longitude: parseFloat(result.lon),
+        latitude,
+        longitude,
         displayName: result.display_name,
         confidence: this.calculateConfidence(result),
+        timezone: getTimezoneForCoordinates(latitude, longitude),
       };
     } catch (error) {
       console.error(`Geocoding error for "${query}":`, error);
@@ -188,6 +232,40 @@ export class GeocodingService {
     return parts.join(', ');
   }
 
+  /**
+   * Convert an offline reference match to a geocoding result
+   * @param place - Matched airport or city
+   * @returns Geocoding result (confidence scaled from the match score)
+   */
+  private toOfflineResult(place: PlaceMatch): GeocodingResult {
+    if (place.airport) {
+      return { ...this.toAirportResult(place.airport), confidence: Math.round(place.score * 95) };
+    }
+    return {
+      latitude: place.latitude,
+      longitude: place.longitude,
+      displayName: `${place.name}, ${place.country}`,
+      // City centers are coarser than a specific address
+      confidence: Math.round(place.score * 70),
+      timezone: place.timezone,
+    };
+  }
+
+  /**
+   * Convert a reference airport to a geocoding result
+   * @param airport - Airport from the bundled dataset
+   * @returns Geocoding result
+   */
+  private toAirportResult(airport: Airport): GeocodingResult {
+    return {
+      latitude: airport.coordinates.latitude,
+      longitude: airport.coordinates.longitude,
+      displayName: `${airport.name} (${airport.iata}), ${airport.city}, ${airport.country}`,
+      confidence: 95,
+      timezone: airport.timezone,
+    };
+  }
+
   /**
    * Rate limit requests to respect Nominatim usage policy
    * Ensures at least 1 second between requests
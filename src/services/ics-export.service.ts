@@ -0,0 +1,515 @@
+/**
+ * iCalendar (RFC 5545) export of itineraries
+ * @module services/ics-export
+ *
+ * Each segment becomes one VEVENT. Event UIDs are derived from segment IDs,
+ * so importing a re-exported calendar updates existing events instead of
+ * duplicating them. Times are written in the IANA zone of the location they
+ * happen at, with a VTIMEZONE definition for every zone used.
+ */
+
+import type { SegmentStatus } from '../domain/types/common.js';
+import type { Itinerary } from '../domain/types/itinerary.js';
+import type { Location } from '../domain/types/location.js';
+import type { Segment } from '../domain/types/segment.js';
+import { toDownloadFilename } from '../utils/filename.js';
+import {
+  getSegmentTimezones,
+  getTimezoneOffsetMinutes,
+  isValidTimezone,
+} from '../utils/timezone.js';
+
+/** Product identifier written to exported calendars */
+const PRODUCT_ID = '-//Itinerizer//Itinerary Export//EN';
+
+/** Domain part of event UIDs */
+const UID_DOMAIN = 'itinerizer';
+
+/** Default flight check-in reminder: online check-in usually opens 24 hours before departure */
+const DEFAULT_CHECK_IN_REMINDER_MINUTES = 24 * 60;
+
+/** Maximum line length in octets before folding (RFC 5545 section 3.1) */
+const MAX_LINE_OCTETS = 75;
+
+const MS_PER_MINUTE = 60_000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+/** Event status for each segment status */
+const EVENT_STATUS: Record<SegmentStatus, string> = {
+  TENTATIVE: 'TENTATIVE',
+  WAITLISTED: 'TENTATIVE',
+  CONFIRMED: 'CONFIRMED',
+  COMPLETED: 'CONFIRMED',
+  CANCELLED: 'CANCELLED',
+};
+
+/**
+ * Options for exporting an itinerary as a calendar
+ */
+export interface ICSExportOptions {
+  /** Minutes before departure to remind about flight check-in (0 disables the reminder) */
+  checkInReminderMinutes?: number;
+  /** Creation timestamp written to DTSTAMP (defaults to now) */
+  now?: Date;
+  /** Suggested polling interval for subscribed feeds (omitted for one-shot exports) */
+  refreshIntervalMinutes?: number;
+}
+
+/**
+ * Name and description of a generated calendar
+ */
+export interface ICSCalendarInfo {
+  /** Calendar name shown by calendar apps */
+  name: string;
+  /** Calendar description */
+  description?: string;
+}
+
+/**
+ * Service for generating iCalendar files from itineraries
+ */
+export class ICSExportService {
+  /**
+   * Generate an iCalendar document for an itinerary
+   * @param itinerary - Itinerary to export
+   * @param options - Export options
+   * @returns Calendar text with CRLF line endings
+   */
+  exportItinerary(itinerary: Itinerary, options: ICSExportOptions = {}): string {
+    const info: ICSCalendarInfo = itinerary.description
+      ? { name: itinerary.title, description: itinerary.description }
+      : { name: itinerary.title };
+    return this.exportCalendar(info, [itinerary], options);
+  }
+
+  /**
+   * Generate one iCalendar document covering several itineraries
+   * @param info - Calendar name and description
+   * @param itineraries - Itineraries whose segments become events
+   * @param options - Export options
+   * @returns Calendar text with CRLF line endings
+   */
+  exportCalendar(
+    info: ICSCalendarInfo,
+    itineraries: Itinerary[],
+    options: ICSExportOptions = {}
+  ): string {
+    const now = options.now ?? new Date();
+    const reminderMinutes = options.checkInReminderMinutes ?? DEFAULT_CHECK_IN_REMINDER_MINUTES;
+
+    const segments = itineraries
+      .flatMap((itinerary) => itinerary.segments.map((segment) => ({ itinerary, segment })))
+      .sort(
+        (a, b) =>
+          new Date(a.segment.startDatetime).getTime() - new Date(b.segment.startDatetime).getTime()
+      );
+
+    const zoneRanges = new Map<string, { from: number; to: number }>();
+    const events = segments.map(({ itinerary, segment }) => {
+      const zones = getSegmentTimezones(segment);
+      const startZone = isValidTimezone(zones.start) ? zones.start : undefined;
+      const endZone = isValidTimezone(zones.end) ? zones.end : startZone;
+      const start = new Date(segment.startDatetime);
+      const end = new Date(segment.endDatetime);
+
+      for (const zone of [startZone, endZone]) {
+        if (!zone) continue;
+        const range = zoneRanges.get(zone);
+        zoneRanges.set(zone, {
+          from: Math.min(range?.from ?? start.getTime(), start.getTime()),
+          to: Math.max(range?.to ?? end.getTime(), end.getTime()),
+        });
+      }
+
+      return this.buildEvent(
+        itinerary,
+        segment,
+        { start, end, startZone, endZone },
+        now,
+        reminderMinutes
+      );
+    });
+
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${PRODUCT_ID}`,
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${escapeText(info.name)}`,
+      ...(info.description ? [`X-WR-CALDESC:${escapeText(info.description)}`] : []),
+      ...(options.refreshIntervalMinutes
+        ? [
+            `REFRESH-INTERVAL;VALUE=DURATION:${formatDuration(options.refreshIntervalMinutes)}`,
+            `X-PUBLISHED-TTL:${formatDuration(options.refreshIntervalMinutes)}`,
+          ]
+        : []),
+      ...[...zoneRanges].flatMap(([zone, range]) => buildTimezone(zone, range.from, range.to)),
+      ...events.flat(),
+      'END:VCALENDAR',
+    ];
+
+    return `${lines.map(foldLine).join('\r\n')}\r\n`;
+  }
+
+  /**
+   * Build the VEVENT lines for a segment
+   */
+  private buildEvent(
+    itinerary: Itinerary,
+    segment: Segment,
+    timing: { start: Date; end: Date; startZone: string | undefined; endZone: string | undefined },
+    now: Date,
+    reminderMinutes: number
+  ): string[] {
+    const location = getEventLocation(segment);
+    const lines = [
+      'BEGIN:VEVENT',
+      `UID:${segment.id}@${UID_DOMAIN}`,
+      `DTSTAMP:${formatUtcDateTime(now)}`,
+      `LAST-MODIFIED:${formatUtcDateTime(new Date(itinerary.updatedAt))}`,
+      `SEQUENCE:${itinerary.version}`,
+      formatDateTimeProperty('DTSTART', timing.start, timing.startZone),
+      formatDateTimeProperty('DTEND', timing.end, timing.endZone),
+      `SUMMARY:${escapeText(getEventSummary(segment))}`,
+    ];
+
+    if (location) {
+      lines.push(`LOCATION:${escapeText(formatLocation(location))}`);
+      if (location.coordinates) {
+        lines.push(`GEO:${location.coordinates.latitude};${location.coordinates.longitude}`);
+      }
+    }
+
+    const description = getEventDescription(segment);
+    if (description) {
+      lines.push(`DESCRIPTION:${escapeText(description)}`);
+    }
+
+    lines.push(`STATUS:${EVENT_STATUS[segment.status] ?? 'CONFIRMED'}`);
+    lines.push(`CATEGORIES:${segment.type}`);
+    lines.push(`TRANSP:${segment.type === 'HOTEL' ? 'TRANSPARENT' : 'OPAQUE'}`);
+
+    if (segment.type === 'FLIGHT' && reminderMinutes > 0 && segment.status !== 'CANCELLED') {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `TRIGGER:${formatDuration(-reminderMinutes)}`,
+        `DESCRIPTION:${escapeText(`Check in for ${getEventSummary(segment)}`)}`,
+        'END:VALARM'
+      );
+    }
+
+    lines.push('END:VEVENT');
+    return lines;
+  }
+}
+
+/**
+ * Build a download filename for an itinerary's calendar
+ * @param title - Itinerary title
+ * @returns Filename such as "summer-in-lisbon.ics"
+ */
+export function getCalendarFilename(title: string): string {
+  return toDownloadFilename(title, 'ics');
+}
+
+/**
+ * Get the place an event happens at (where it starts, for journeys)
+ */
+function getEventLocation(segment: Segment): Location | undefined {
+  switch (segment.type) {
+    case 'FLIGHT':
+    case 'RAIL':
+      return segment.origin;
+    case 'TRANSFER':
+    case 'CAR_RENTAL':
+      return segment.pickupLocation;
+    case 'HOTEL':
+    case 'ACTIVITY':
+    case 'MEETING':
+    case 'CUSTOM':
+      return segment.location;
+  }
+}
+
+/**
+ * Get the event title for a segment
+ */
+function getEventSummary(segment: Segment): string {
+  switch (segment.type) {
+    case 'FLIGHT':
+      return `Flight ${[segment.airline.code, segment.flightNumber].filter(Boolean).join(' ')}: ${formatPlace(segment.origin)} → ${formatPlace(segment.destination)}`;
+    case 'HOTEL':
+      return `Hotel: ${segment.property.name}`;
+    case 'MEETING':
+      return segment.title;
+    case 'ACTIVITY':
+      return segment.name;
+    case 'TRANSFER':
+      return `Transfer: ${segment.pickupLocation.name} → ${segment.dropoffLocation.name}`;
+    case 'RAIL':
+      return `Train ${segment.trainNumber}: ${segment.origin.name} → ${segment.destination.name}`;
+    case 'CAR_RENTAL':
+      return `Car rental: ${segment.rentalCompany.name}`;
+    case 'CUSTOM':
+      return segment.title;
+  }
+}
+
+/**
+ * Get the event description: booking references first, then type-specific details and notes
+ */
+function getEventDescription(segment: Segment): string {
+  const lines: string[] = [];
+
+  if (segment.confirmationNumber) {
+    lines.push(`Confirmation: ${segment.confirmationNumber}`);
+  }
+  if (segment.bookingReference && segment.bookingReference !== segment.confirmationNumber) {
+    lines.push(`Booking reference: ${segment.bookingReference}`);
+  }
+  if (segment.provider) {
+    lines.push(`Provider: ${segment.provider.name}`);
+  }
+
+  switch (segment.type) {
+    case 'FLIGHT':
+      lines.push(`Airline: ${segment.airline.name}`);
+      if (segment.departureTerminal) lines.push(`Departure terminal: ${segment.departureTerminal}`);
+      if (segment.arrivalTerminal) lines.push(`Arrival terminal: ${segment.arrivalTerminal}`);
+      if (segment.cabinClass) lines.push(`Cabin: ${segment.cabinClass}`);
+      for (const [traveler, seat] of Object.entries(segment.seatAssignments ?? {})) {
+        lines.push(`Seat ${seat} (${traveler})`);
+      }
+      if (segment.baggageAllowance) lines.push(`Baggage: ${segment.baggageAllowance}`);
+      break;
+    case 'HOTEL':
+      if (segment.roomType) lines.push(`Room: ${segment.roomType}`);
+      if (segment.checkInTime) lines.push(`Check-in from ${segment.checkInTime}`);
+      if (segment.checkOutTime) lines.push(`Check-out by ${segment.checkOutTime}`);
+      if (segment.cancellationPolicy) lines.push(`Cancellation: ${segment.cancellationPolicy}`);
+      break;
+    case 'MEETING':
+      if (segment.organizer) lines.push(`Organizer: ${segment.organizer}`);
+      if (segment.meetingUrl) lines.push(`Join: ${segment.meetingUrl}`);
+      if (segment.dialIn) lines.push(`Dial-in: ${segment.dialIn}`);
+      if (segment.agenda) lines.push(segment.agenda);
+      break;
+    case 'ACTIVITY':
+      if (segment.voucherNumber) lines.push(`Voucher: ${segment.voucherNumber}`);
+      if (segment.description) lines.push(segment.description);
+      break;
+    case 'TRANSFER':
+      if (segment.vehicleDetails) lines.push(`Vehicle: ${segment.vehicleDetails}`);
+      if (segment.driverName) lines.push(`Driver: ${segment.driverName}`);
+      if (segment.driverPhone) lines.push(`Driver phone: ${segment.driverPhone}`);
+      break;
+    case 'RAIL':
+      lines.push(`Operator: ${segment.operator.name}`);
+      if (segment.departurePlatform) lines.push(`Platform: ${segment.departurePlatform}`);
+      if (segment.coach) lines.push(`Coach: ${segment.coach}`);
+      for (const [traveler, seat] of Object.entries(segment.seatAssignments ?? {})) {
+        lines.push(`Seat ${seat} (${traveler})`);
+      }
+      break;
+    case 'CAR_RENTAL':
+      lines.push(`Return: ${segment.returnLocation.name}`);
+      if (segment.vehicleDescription ?? segment.carClass) {
+        lines.push(`Vehicle: ${segment.vehicleDescription ?? segment.carClass}`);
+      }
+      break;
+    case 'CUSTOM':
+      if (segment.description) lines.push(segment.description);
+      break;
+  }
+
+  if (segment.notes) {
+    lines.push('', segment.notes);
+  }
+
+  return lines.join('\n').trim();
+}
+
+/**
+ * Short label for an airport: its code, or its name when the code is unknown
+ */
+function formatPlace(location: Location): string {
+  return location.code ?? location.name;
+}
+
+/**
+ * Format a location with its address for the LOCATION property
+ */
+function formatLocation(location: Location): string {
+  const name = location.code ? `${location.name} (${location.code})` : location.name;
+  const address = location.address;
+  if (!address) {
+    return name;
+  }
+  const addressLine = [
+    address.street,
+    address.city,
+    address.state,
+    address.postalCode,
+    address.country,
+  ]
+    .filter(Boolean)
+    .join(', ');
+  return addressLine ? `${name}, ${addressLine}` : name;
+}
+
+/**
+ * Format a DTSTART/DTEND property, in a zone when known and in UTC otherwise
+ */
+function formatDateTimeProperty(name: string, date: Date, timeZone: string | undefined): string {
+  if (!timeZone) {
+    return `${name}:${formatUtcDateTime(date)}`;
+  }
+  const offset = getTimezoneOffsetMinutes(date, timeZone);
+  return `${name};TZID=${timeZone}:${formatLocalDateTime(date.getTime() + offset * MS_PER_MINUTE)}`;
+}
+
+/**
+ * Format an instant as a UTC DATE-TIME (e.g., 20250602T090000Z)
+ */
+function formatUtcDateTime(date: Date): string {
+  return `${formatLocalDateTime(date.getTime())}Z`;
+}
+
+/**
+ * Format the UTC fields of a timestamp as a floating DATE-TIME (e.g., 20250602T090000)
+ */
+function formatLocalDateTime(time: number): string {
+  return new Date(time)
+    .toISOString()
+    .replace(/\.\d{3}Z$/, '')
+    .replace(/[-:]/g, '');
+}
+
+/**
+ * Format a UTC offset in minutes as +HHMM/-HHMM
+ */
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Format a signed number of minutes as an RFC 5545 duration (e.g., -P1D, -PT3H30M)
+ */
+function formatDuration(minutes: number): string {
+  if (minutes === 0) {
+    return 'PT0M';
+  }
+
+  const sign = minutes < 0 ? '-' : '';
+  let remaining = Math.abs(minutes);
+  const days = Math.floor(remaining / (24 * 60));
+  remaining -= days * 24 * 60;
+  const hours = Math.floor(remaining / 60);
+  const mins = remaining % 60;
+
+  const time = `${hours ? `${hours}H` : ''}${mins ? `${mins}M` : ''}`;
+  return `${sign}P${days ? `${days}D` : ''}${time ? `T${time}` : ''}`;
+}
+
+/**
+ * Build a VTIMEZONE for a zone covering the years the events fall in.
+ * Offset transitions are found by probing the runtime's zone data, and each
+ * one is written as its own observance, so no recurrence rules are needed.
+ */
+function buildTimezone(timeZone: string, from: number, to: number): string[] {
+  const rangeStart = Date.UTC(new Date(from).getUTCFullYear(), 0, 1);
+  const rangeEnd = Date.UTC(new Date(to).getUTCFullYear() + 1, 0, 1);
+  const offsetAt = (time: number) => getTimezoneOffsetMinutes(new Date(time), timeZone);
+
+  const transitions: Array<{ time: number; from: number; to: number }> = [];
+  let previous = offsetAt(rangeStart);
+  for (let day = rangeStart + MS_PER_DAY; day <= rangeEnd; day += MS_PER_DAY) {
+    const offset = offsetAt(day);
+    if (offset === previous) continue;
+
+    // Narrow the change down to the minute
+    let low = day - MS_PER_DAY;
+    let high = day;
+    while (high - low > MS_PER_MINUTE) {
+      const mid = low + Math.floor((high - low) / 2 / MS_PER_MINUTE) * MS_PER_MINUTE;
+      if (offsetAt(mid) === previous) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    transitions.push({ time: high, from: previous, to: offset });
+    previous = offset;
+  }
+
+  const initialOffset = offsetAt(rangeStart);
+  const initialIsDaylight = transitions[0] !== undefined && transitions[0].to < transitions[0].from;
+  const observances = [
+    { time: rangeStart, from: initialOffset, to: initialOffset, daylight: initialIsDaylight },
+    ...transitions.map((transition) => ({
+      ...transition,
+      daylight: transition.to > transition.from,
+    })),
+  ];
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    ...observances.flatMap((observance) => {
+      const component = observance.daylight ? 'DAYLIGHT' : 'STANDARD';
+      return [
+        `BEGIN:${component}`,
+        `DTSTART:${formatLocalDateTime(observance.time + observance.from * MS_PER_MINUTE)}`,
+        `TZOFFSETFROM:${formatOffset(observance.from)}`,
+        `TZOFFSETTO:${formatOffset(observance.to)}`,
+        `END:${component}`,
+      ];
+    }),
+    'END:VTIMEZONE',
+  ];
+}
+
+/**
+ * Escape a TEXT property value (RFC 5545 section 3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Fold a content line to at most 75 octets per line without splitting characters
+ */
+function foldLine(line: string): string {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
@@ -0,0 +1,246 @@
+/**
+ * Email Merger - Combine body and attachment extractions of one email
+ * @module services/import/email-merger
+ */
+
+import type { SegmentEmailPart } from '../../domain/types/segment.js';
+import type { ExtractedSegment, ImportResult } from './types.js';
+
+/**
+ * Extraction result for one part of an email
+ */
+export interface EmailPartResult {
+  /** Body or attachment the result came from */
+  part: SegmentEmailPart;
+  result: ImportResult;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Fields that describe the extraction or are free text, so never conflict */
+const UNCOMPARED_FIELDS = new Set(['confidence', 'source', 'sourceDetails', 'inferred', 'notes']);
+
+/**
+ * Merge the body and attachment results of one email
+ *
+ * Segments that describe the same booking (same type and confirmation
+ * number, flight or train number and date) are merged into one. Where the
+ * parts disagree, the higher-confidence part wins (the earlier part on a
+ * tie); fields only one part has are kept either way. Each segment lists the
+ * parts it came from in `sourceDetails.emailParts`, the winning part first.
+ *
+ * @param parts - Results in email order, body first
+ * @returns Combined result
+ */
+export function mergeEmailParts(parts: EmailPartResult[]): ImportResult {
+  const merged: ExtractedSegment[] = [];
+  const warnings: string[] = [];
+
+  for (const { part, result } of parts) {
+    for (const segment of result.segments) {
+      const tagged: ExtractedSegment = {
+        ...segment,
+        sourceDetails: { ...segment.sourceDetails, emailParts: [part] },
+      };
+      const index = merged.findIndex((existing) => sameBooking(existing, tagged));
+      const existing = index === -1 ? undefined : merged[index];
+      if (!existing) {
+        merged.push(tagged);
+        continue;
+      }
+      merged[index] = reconcile(existing, tagged, warnings);
+    }
+  }
+
+  const body = parts.find(({ part }) => part.kind === 'body')?.result;
+  const contributing = parts.filter(({ result }) => result.segments.length > 0);
+  const errors = [
+    ...parts.flatMap(({ part, result }) =>
+      (result.errors ?? []).map((error) =>
+        part.kind === 'body' ? error : `${describePart(part)}: ${error}`
+      )
+    ),
+    ...warnings,
+  ];
+
+  // Finding nothing is not a failure; a part failed only if it reported errors
+  const failed = parts.some(({ result }) => !result.success && (result.errors?.length ?? 0) > 0);
+
+  return {
+    success: merged.length > 0 || !failed,
+    format: body?.format ?? 'email',
+    segments: merged,
+    confidence: merged.length > 0 ? Math.max(...merged.map(confidenceOf)) : (body?.confidence ?? 0),
+    ...(body?.rawText ? { rawText: body.rawText } : {}),
+    ...(errors.length > 0 ? { errors } : {}),
+    ...(body?.summary && contributing.every(({ part }) => part.kind === 'body')
+      ? { summary: body.summary }
+      : {
+          summary: `Found ${merged.length} booking(s) in ${
+            contributing.map(({ part }) => describePart(part)).join(', ') || 'the email'
+          }`,
+        }),
+  };
+}
+
+/**
+ * Whether two segments describe the same booking
+ */
+function sameBooking(a: ExtractedSegment, b: ExtractedSegment): boolean {
+  if (a.type !== b.type) {
+    return false;
+  }
+
+  const confirmationA = normalize(a.confirmationNumber);
+  const confirmationB = normalize(b.confirmationNumber);
+  if (confirmationA && confirmationB && confirmationA !== confirmationB) {
+    return false;
+  }
+
+  const gap = Math.abs(new Date(a.startDatetime).getTime() - new Date(b.startDatetime).getTime());
+  const serviceA = serviceNumber(a);
+  const serviceB = serviceNumber(b);
+  if (serviceA && serviceB) {
+    return serviceA === serviceB && gap < DAY_MS;
+  }
+  // One stay per check-in day, whatever time each part gives
+  if (a.type === 'HOTEL' || (confirmationA && confirmationB)) {
+    return gap < DAY_MS;
+  }
+  return gap <= HOUR_MS;
+}
+
+/**
+ * Merge two extractions of one booking, preferring the more confident
+ */
+function reconcile(
+  existing: ExtractedSegment,
+  incoming: ExtractedSegment,
+  warnings: string[]
+): ExtractedSegment {
+  const [primary, secondary] =
+    confidenceOf(incoming) > confidenceOf(existing) ? [incoming, existing] : [existing, incoming];
+  const primaryRecord = primary as unknown as Record<string, unknown>;
+  const secondaryRecord = secondary as unknown as Record<string, unknown>;
+
+  const conflicts = Object.keys(secondaryRecord).filter(
+    (key) => !UNCOMPARED_FIELDS.has(key) && differs(primaryRecord[key], secondaryRecord[key])
+  );
+  const primaryParts = primary.sourceDetails?.emailParts ?? [];
+  const secondaryParts = secondary.sourceDetails?.emailParts ?? [];
+
+  if (conflicts.length > 0) {
+    warnings.push(
+      `${describeSegment(primary)}: ${describeParts(secondaryParts)} disagrees on ` +
+        `${conflicts.join(', ')}; kept ${describeParts(primaryParts)} ` +
+        `(confidence ${confidenceOf(primary).toFixed(2)} vs ${confidenceOf(secondary).toFixed(2)})`
+    );
+  }
+
+  return {
+    ...(fillMissing(primaryRecord, secondaryRecord) as unknown as ExtractedSegment),
+    sourceDetails: {
+      ...secondary.sourceDetails,
+      ...primary.sourceDetails,
+      emailParts: [...primaryParts, ...secondaryParts],
+    },
+  };
+}
+
+/**
+ * Copy of `primary` with its empty fields taken from `secondary`, recursively for nested objects
+ */
+function fillMissing(
+  primary: Record<string, unknown>,
+  secondary: Record<string, unknown>
+): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...primary };
+  for (const [key, value] of Object.entries(secondary)) {
+    const current = result[key];
+    if (!hasValue(current)) {
+      if (hasValue(value)) {
+        result[key] = value;
+      }
+    } else if (isPlainObject(current) && isPlainObject(value)) {
+      result[key] = fillMissing(current, value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Whether two present values disagree (missing values never conflict)
+ */
+function differs(a: unknown, b: unknown): boolean {
+  if (!hasValue(a) || !hasValue(b)) {
+    return false;
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() !== b.getTime();
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    return normalize(a) !== normalize(b);
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    return Object.keys(a).some((key) => differs(a[key], b[key]));
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return JSON.stringify(a) !== JSON.stringify(b);
+  }
+  return a !== b;
+}
+
+function hasValue(value: unknown): boolean {
+  if (value === undefined || value === null) return false;
+  if (typeof value === 'string') return value.trim() !== '';
+  if (Array.isArray(value)) return value.length > 0;
+  if (value instanceof Date) return !Number.isNaN(value.getTime());
+  return true;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)
+  );
+}
+
+/**
+ * Segment confidence, 0 when an extractor left it out
+ */
+function confidenceOf(segment: ExtractedSegment): number {
+  return typeof segment.confidence === 'number' ? segment.confidence : 0;
+}
+
+function normalize(value: string | undefined): string {
+  return (value ?? '').replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * Flight or train number, normalized
+ */
+function serviceNumber(segment: ExtractedSegment): string {
+  // ExtractedSegment is not a discriminated union, so read the field by name
+  const fields = segment as unknown as Record<string, unknown>;
+  const value =
+    segment.type === 'FLIGHT'
+      ? fields.flightNumber
+      : segment.type === 'RAIL'
+        ? fields.trainNumber
+        : undefined;
+  return typeof value === 'string' ? normalize(value) : '';
+}
+
+function describeSegment(segment: ExtractedSegment): string {
+  const service = serviceNumber(segment);
+  const reference = service || segment.confirmationNumber;
+  return reference ? `${segment.type} ${reference}` : segment.type;
+}
+
+function describePart(part: SegmentEmailPart): string {
+  return part.kind === 'body' ? 'email body' : (part.filename ?? part.contentType ?? 'attachment');
+}
+
+function describeParts(parts: SegmentEmailPart[]): string {
+  return parts.map(describePart).join(' + ') || 'unknown part';
+}
@@ -45,6 +45,9 @@ export class FormatDetector implements IFormatDetector {
     if (normalized === 'text/calendar' || normalized === 'application/ics') {
       return 'ics';
     }
+    if (normalized === 'application/vnd.apple.pkpass') {
+      return 'pkpass';
+    }
     if (normalized === 'message/rfc822' || normalized.includes('email')) {
       return 'email';
     }
@@ -75,6 +78,8 @@ export class FormatDetector implements IFormatDetector {
       case 'ifb':
       case 'icalendar':
         return 'ics';
+      case 'pkpass':
+        return 'pkpass';
       case 'eml':
       case 'msg':
         return 'email';
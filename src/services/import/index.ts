@@ -3,18 +3,33 @@
  * @module services/import
  */
 
-import type { ImportRequest, ImportResult, ImportOptions, ImportResultWithMatching } from './types.js';
+import type {
+  ImportAttachment,
+  ImportFormat,
+  ImportRequest,
+  ImportResult,
+  ImportOptions,
+  ImportResultWithMatching,
+} from './types.js';
 import { FormatDetector } from './format-detector.js';
+import { mergeEmailParts } from './email-merger.js';
+import type { EmailPartResult } from './email-merger.js';
 import { LLMExtractor } from './extractors/llm.extractor.js';
 import { SchemaOrgExtractor } from './extractors/schema-org.extractor.js';
 import { ParserRegistry } from './parsers/index.js';
 import { TripMatcher } from './trip-matcher.js';
 import type { ItineraryCollectionService } from '../itinerary-collection.service.js';
 import type { SegmentService } from '../segment.service.js';
-import type { Segment } from '../../domain/types/segment.js';
+import type { Segment, SegmentEmailPart } from '../../domain/types/segment.js';
 import type { ItineraryId, SegmentId } from '../../domain/types/branded.js';
 import { generateSegmentId } from '../../domain/types/branded.js';
 
+/** Attachment formats that can carry bookings (e-tickets, invites, Wallet passes) */
+const ATTACHMENT_FORMATS: ImportFormat[] = ['pdf', 'ics', 'pkpass'];
+
+/** Attachments above this size are reported, not parsed */
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
 /**
  * Import service configuration
  */
@@ -74,16 +89,9 @@ export class ImportService {
       console.log('[ImportService] Filename:', request.filename);
       console.log('[ImportService] MimeType:', request.mimeType);
 
-      // Detect format
-      const format = this.formatDetector.detect(request);
-      console.log('[ImportService] Detected format:', format);
-
-      // Get appropriate parser
-      const parser = this.parserRegistry.get(format);
-      console.log('[ImportService] Using parser:', parser.constructor.name);
-
-      // Parse and extract
-      const result = await parser.parse(request);
+      // Emails are extracted part by part: body and each attachment
+      const result =
+        request.source === 'email' ? await this.importEmail(request) : await this.parse(request);
 
       console.log('[ImportService] Import complete:', {
         success: result.success,
@@ -106,6 +114,74 @@ export class ImportService {
     }
   }
 
+  /**
+   * Detect the format and run the matching parser
+   */
+  private async parse(request: ImportRequest): Promise<ImportResult> {
+    // Detect format
+    const format = this.formatDetector.detect(request);
+    console.log('[ImportService] Detected format:', format);
+
+    // Get appropriate parser
+    const parser = this.parserRegistry.get(format);
+    console.log('[ImportService] Using parser:', parser.constructor.name);
+
+    // Parse and extract
+    return parser.parse(request);
+  }
+
+  /**
+   * Extract an email's body and attachments, then merge the results
+   * Attachments in formats without a booking parser (images, signatures) are skipped.
+   */
+  private async importEmail(request: ImportRequest): Promise<ImportResult> {
+    const { attachments = [], ...body } = request;
+    const parts: EmailPartResult[] = [];
+
+    if (body.content.length > 0) {
+      parts.push({ part: { kind: 'body' }, result: await this.parse(body) });
+    }
+
+    for (const attachment of attachments) {
+      const part: SegmentEmailPart = {
+        kind: 'attachment',
+        ...(attachment.filename ? { filename: attachment.filename } : {}),
+        ...(attachment.contentType ? { contentType: attachment.contentType } : {}),
+      };
+      const attachmentRequest: ImportRequest = {
+        source: 'email',
+        content: attachment.content,
+        ...(attachment.contentType ? { mimeType: attachment.contentType } : {}),
+        ...(attachment.filename ? { filename: attachment.filename } : {}),
+        ...(body.metadata ? { metadata: body.metadata } : {}),
+      };
+
+      const format = this.formatDetector.detect(attachmentRequest);
+      if (!ATTACHMENT_FORMATS.includes(format)) {
+        console.log('[ImportService] Skipping attachment:', attachment.filename, format);
+        continue;
+      }
+      if (attachment.content.length > MAX_ATTACHMENT_BYTES) {
+        parts.push({
+          part,
+          result: {
+            success: false,
+            format,
+            segments: [],
+            confidence: 0,
+            errors: ['Attachment too large to import'],
+          },
+        });
+        continue;
+      }
+
+      console.log('[ImportService] Importing attachment:', attachment.filename, format);
+      parts.push({ part, result: await this.parserRegistry.get(format).parse(attachmentRequest) });
+    }
+
+    return mergeEmailParts(parts);
+  }
+
   /**
    * Import from file upload
    */
@@ -131,12 +207,14 @@ export class ImportService {
       fromEmail?: string;
       subject?: string;
       receivedAt?: string;
-    }
+    },
+    attachments: ImportAttachment[] = []
   ): Promise<ImportResult> {
     return this.import({
       source: 'email',
       content,
       metadata,
+      attachments,
     });
   }
 
@@ -202,6 +280,26 @@ export class ImportService {
     // 1. Parse the content to extract segments
     const parseResult = await this.import(request);
 
+    return this.matchImportResult(parseResult, options);
+  }
+
+  /**
+   * Match already-extracted segments to trips
+   * Same rules as importWithMatching, for callers that parse content themselves
+   * @param parseResult - Result of a previous import
+   * @param options - Import options with trip matching
+   * @returns Import result with trip matches or segments added to itinerary
+   */
+  async matchImportResult(
+    parseResult: ImportResult,
+    options: ImportOptions
+  ): Promise<ImportResultWithMatching> {
+    if (!this.itineraryCollection || !this.segmentService) {
+      throw new Error(
+        'Trip matching requires itineraryCollection and segmentService to be configured'
+      );
+    }
+
     if (!parseResult.success || parseResult.segments.length === 0) {
       return {
         ...parseResult,
@@ -308,7 +406,10 @@ export class ImportService {
       }
 
       // Add segment
-      const addResult = await this.segmentService.add(itineraryId, segment);
+      const addResult = await this.segmentService.add(itineraryId, segment, {
+        author: 'import',
+        cause: 'Segment imported',
+      });
       if (addResult.success) {
         added++;
       } else {
@@ -380,6 +481,7 @@ export class ImportService {
 export type {
   ImportSource,
   ImportFormat,
+  ImportAttachment,
   ImportRequest,
   ImportResult,
   ExtractedSegment,
@@ -387,3 +489,21 @@ export type {
   ImportResultWithMatching,
 } from './types.js';
 export type { TripMatch, MatchResult } from './trip-matcher.js';
+export { mergeEmailParts } from './email-merger.js';
+export type { EmailPartResult } from './email-merger.js';
+
+// Mailbox sources (mbox, Maildir, IMAP)
+export {
+  parseMailMessage,
+  MboxMailboxSource,
+  MaildirMailboxSource,
+  ImapMailboxSource,
+} from './mailbox/index.js';
+export type {
+  ImapMailboxConfig,
+  MailAddress,
+  MailAttachment,
+  MailMessage,
+  MailboxMessage,
+  MailboxSource,
+} from './mailbox/index.js';
@@ -0,0 +1,394 @@
+/**
+ * IMAP Source - Read messages from an IMAP folder
+ * @module services/import/mailbox/imap
+ */
+
+import { connect as connectTcp, isIPv4 } from 'node:net';
+import type { Socket } from 'node:net';
+import { connect as connectTls } from 'node:tls';
+import { createMailboxError } from '../../../core/errors.js';
+import type { MailboxError } from '../../../core/errors.js';
+import { err, ok } from '../../../core/result.js';
+import type { Result } from '../../../core/result.js';
+import type { MailboxMessage, MailboxSource } from './types.js';
+
+/**
+ * IMAP connection settings
+ */
+export interface ImapMailboxConfig {
+  /** Server host name */
+  host: string;
+  /** Server port (default: 993 with TLS, 143 without) */
+  port?: number;
+  /** Use TLS (default: true) */
+  secure?: boolean;
+  /**
+   * Send the password without TLS to a host other than this machine
+   * (default: false; loopback hosts are always allowed)
+   */
+  allowInsecureLogin?: boolean;
+  /** Login user name */
+  user: string;
+  /** Login password or app password */
+  password: string;
+  /** Folder to read (default: INBOX) */
+  folder?: string;
+  /** Socket inactivity timeout in milliseconds (default: 30000) */
+  timeoutMs?: number;
+}
+
+/**
+ * Response line, with the literals it carried
+ */
+interface ImapLine {
+  text: string;
+  literals: Buffer[];
+}
+
+/**
+ * Tagged response with the untagged lines received before it
+ */
+interface ImapResponse {
+  /** OK, NO or BAD */
+  status: string;
+  text: string;
+  untagged: ImapLine[];
+}
+
+/**
+ * IMAP folder source
+ *
+ * Opens the folder read-only (EXAMINE) and fetches with BODY.PEEK, so mail
+ * is not marked as read. The watermark is `UIDVALIDITY:UID` of the last
+ * message read; a folder whose UIDVALIDITY changed is read from the start.
+ * LOGIN is only sent over TLS (or to a loopback host, or with
+ * `allowInsecureLogin`), and never to a server advertising LOGINDISABLED.
+ */
+export class ImapMailboxSource implements MailboxSource {
+  readonly id: string;
+  private readonly config: ImapMailboxConfig;
+
+  /**
+   * @param config - Connection settings
+   */
+  constructor(config: ImapMailboxConfig) {
+    this.config = config;
+    this.id = `imap:${config.user}@${config.host}:${this.port()}/${config.folder ?? 'INBOX'}`;
+  }
+
+  async read(after?: string, limit?: number): Promise<Result<MailboxMessage[], MailboxError>> {
+    const secure = this.config.secure ?? true;
+    if (!secure && !this.config.allowInsecureLogin && !isLoopback(this.config.host)) {
+      return err(
+        createMailboxError(
+          'AUTH_ERROR',
+          `Refusing to send the IMAP password to ${this.config.host} without TLS`
+        )
+      );
+    }
+
+    const opened = await ImapConnection.open(
+      this.config.host,
+      this.port(),
+      secure,
+      this.config.timeoutMs ?? 30000
+    );
+    if (!opened.success) {
+      return opened;
+    }
+
+    const connection = opened.value;
+    try {
+      return await this.readMessages(connection, after, limit);
+    } finally {
+      await connection.close();
+    }
+  }
+
+  private async readMessages(
+    connection: ImapConnection,
+    after: string | undefined,
+    limit: number | undefined
+  ): Promise<Result<MailboxMessage[], MailboxError>> {
+    const user = quote(this.config.user);
+    const password = quote(this.config.password);
+    const folder = quote(this.config.folder ?? 'INBOX');
+    if (user === undefined || password === undefined) {
+      return err(
+        createMailboxError('AUTH_ERROR', 'IMAP user and password must be printable ASCII')
+      );
+    }
+    if (folder === undefined) {
+      return err(createMailboxError('PROTOCOL_ERROR', 'IMAP folder must be printable ASCII'));
+    }
+
+    const capability = await this.expectOk(connection, 'CAPABILITY');
+    if (!capability.success) {
+      return capability;
+    }
+    const loginDisabled = capability.value.untagged.some((line) =>
+      /^\* CAPABILITY\b.*\bLOGINDISABLED\b/i.test(line.text)
+    );
+    if (loginDisabled) {
+      return err(
+        createMailboxError('AUTH_ERROR', 'IMAP server does not allow LOGIN on this connection')
+      );
+    }
+
+    const login = await connection.command(`LOGIN ${user} ${password}`);
+    if (!login.success) {
+      return login;
+    }
+    if (login.value.status !== 'OK') {
+      return err(createMailboxError('AUTH_ERROR', `IMAP login failed: ${login.value.text}`));
+    }
+
+    const examine = await this.expectOk(connection, `EXAMINE ${folder}`);
+    if (!examine.success) {
+      return examine;
+    }
+    const uidValidity =
+      examine.value.untagged
+        .map((line) => /\[UIDVALIDITY (\d+)\]/i.exec(line.text)?.[1])
+        .find((value) => value !== undefined) ?? '0';
+
+    const [validity, lastUid] = (after ?? '').split(':');
+    const since = validity === uidValidity ? Number(lastUid) || 0 : 0;
+
+    // "n:*" always matches the last message, even when its UID is below n
+    const search = await this.expectOk(connection, `UID SEARCH UID ${since + 1}:*`);
+    if (!search.success) {
+      return search;
+    }
+    const uids = search.value.untagged
+      .flatMap((line) =>
+        /^\* SEARCH\b/i.test(line.text)
+          ? line.text.slice(8).trim().split(/\s+/).filter(Boolean).map(Number)
+          : []
+      )
+      .filter((uid) => uid > since)
+      .sort((a, b) => a - b)
+      .slice(0, limit);
+
+    const messages: MailboxMessage[] = [];
+    for (const uid of uids) {
+      const fetch = await this.expectOk(connection, `UID FETCH ${uid} (BODY.PEEK[])`);
+      if (!fetch.success) {
+        return fetch;
+      }
+      const raw = fetch.value.untagged.find((line) => /FETCH/i.test(line.text))?.literals[0];
+      // Expunged since the search
+      if (!raw) {
+        continue;
+      }
+      messages.push({ key: `UID ${uid}`, position: `${uidValidity}:${uid}`, raw });
+    }
+
+    return ok(messages);
+  }
+
+  private async expectOk(
+    connection: ImapConnection,
+    command: string
+  ): Promise<Result<ImapResponse, MailboxError>> {
+    const response = await connection.command(command);
+    if (response.success && response.value.status !== 'OK') {
+      return err(
+        createMailboxError('PROTOCOL_ERROR', `IMAP server rejected ${command.split(' ')[0]}`, {
+          response: response.value.text,
+        })
+      );
+    }
+    return response;
+  }
+
+  private port(): number {
+    return this.config.port ?? ((this.config.secure ?? true) ? 993 : 143);
+  }
+}
+
+/**
+ * Minimal IMAP4rev1 client connection: tagged commands, untagged responses and literals
+ */
+class ImapConnection {
+  private buffer = Buffer.alloc(0);
+  private untagged: ImapLine[] = [];
+  private waiting:
+    | {
+        /** Undefined while waiting for the server greeting */
+        tag?: string;
+        resolve: (result: Result<ImapResponse, MailboxError>) => void;
+      }
+    | undefined;
+  private tagCounter = 0;
+  private closed?: MailboxError;
+
+  private constructor(private readonly socket: Socket) {}
+
+  /**
+   * Connect and wait for the server greeting
+   */
+  static open(
+    host: string,
+    port: number,
+    secure: boolean,
+    timeoutMs: number
+  ): Promise<Result<ImapConnection, MailboxError>> {
+    const socket = secure
+      ? connectTls({ host, port, servername: host })
+      : connectTcp({ host, port });
+    const connection = new ImapConnection(socket);
+
+    socket.setTimeout(timeoutMs);
+    socket.on('data', (chunk: Buffer) => connection.receive(chunk));
+    socket.on('timeout', () =>
+      connection.fail(createMailboxError('CONNECTION_ERROR', `IMAP server ${host} timed out`))
+    );
+    socket.on('error', (error) =>
+      connection.fail(
+        createMailboxError('CONNECTION_ERROR', `Cannot connect to IMAP server ${host}`, {
+          error: error.message,
+        })
+      )
+    );
+    socket.on('close', () =>
+      connection.fail(createMailboxError('CONNECTION_ERROR', 'IMAP connection closed'))
+    );
+
+    return new Promise((resolve) => {
+      connection.waiting = {
+        resolve: (result) => {
+          if (!result.success) {
+            resolve(result);
+          } else if (result.value.status === 'BYE') {
+            connection.socket.destroy();
+            resolve(
+              err(
+                createMailboxError('CONNECTION_ERROR', `IMAP server refused: ${result.value.text}`)
+              )
+            );
+          } else {
+            resolve(ok(connection));
+          }
+        },
+      };
+    });
+  }
+
+  /**
+   * Send a command and wait for its tagged response
+   */
+  command(text: string): Promise<Result<ImapResponse, MailboxError>> {
+    if (this.closed) {
+      return Promise.resolve(err(this.closed));
+    }
+    const tag = `A${String(++this.tagCounter).padStart(3, '0')}`;
+    return new Promise((resolve) => {
+      this.waiting = { tag, resolve };
+      this.socket.write(`${tag} ${text}\r\n`);
+    });
+  }
+
+  /**
+   * Log out and close the socket
+   */
+  async close(): Promise<void> {
+    if (!this.closed) {
+      await this.command('LOGOUT');
+    }
+    this.closed ??= createMailboxError('CONNECTION_ERROR', 'IMAP connection closed');
+    this.socket.destroy();
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    for (let line = this.takeLine(); line; line = this.takeLine()) {
+      this.handle(line);
+    }
+  }
+
+  /**
+   * Take one complete response line, with its literals, off the buffer
+   */
+  private takeLine(): ImapLine | undefined {
+    let offset = 0;
+    let text = '';
+    const literals: Buffer[] = [];
+
+    for (;;) {
+      const lineEnd = this.buffer.indexOf('\r\n', offset);
+      if (lineEnd === -1) {
+        return undefined;
+      }
+      const segment = this.buffer.toString('utf8', offset, lineEnd);
+      text += segment;
+
+      const literal = /\{(\d+)\}$/.exec(segment);
+      if (!literal) {
+        this.buffer = this.buffer.subarray(lineEnd + 2);
+        return { text, literals };
+      }
+      const start = lineEnd + 2;
+      const end = start + Number(literal[1]);
+      if (this.buffer.length < end) {
+        return undefined;
+      }
+      literals.push(Buffer.from(this.buffer.subarray(start, end)));
+      offset = end;
+    }
+  }
+
+  private handle(line: ImapLine): void {
+    const waiting = this.waiting;
+
+    if (waiting && waiting.tag === undefined) {
+      this.waiting = undefined;
+      const [, status = '', ...rest] = line.text.split(' ');
+      waiting.resolve(ok({ status: status.toUpperCase(), text: rest.join(' '), untagged: [] }));
+      return;
+    }
+    if (line.text.startsWith('* ')) {
+      this.untagged.push(line);
+      return;
+    }
+    if (waiting && line.text.startsWith(`${waiting.tag} `)) {
+      this.waiting = undefined;
+      const [, status = '', ...rest] = line.text.split(' ');
+      const untagged = this.untagged;
+      this.untagged = [];
+      waiting.resolve(ok({ status: status.toUpperCase(), text: rest.join(' '), untagged }));
+    }
+  }
+
+  private fail(error: MailboxError): void {
+    this.closed ??= error;
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    waiting?.resolve(err(error));
+    this.socket.destroy();
+  }
+}
+
+/**
+ * Quote a string for an IMAP command
+ * @returns Quoted string, or undefined when the value has characters a quoted
+ * string can't carry (CR, LF, other controls, non-ASCII)
+ */
+function quote(value: string): string | undefined {
+  if (/[^\x20-\x7e]/.test(value)) {
+    return undefined;
+  }
+  return `"${value.replace(/[\\"]/g, '\\$&')}"`;
+}
+
+/**
+ * Whether a host name or address is this machine
+ */
+function isLoopback(host: string): boolean {
+  const normalized = host.toLowerCase().replace(/^\[|\]$/g, '');
+  return (
+    normalized === 'localhost' ||
+    normalized === '::1' ||
+    (isIPv4(normalized) && normalized.startsWith('127.'))
+  );
+}
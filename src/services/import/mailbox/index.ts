@@ -0,0 +1,17 @@
+/**
+ * Mailbox sources for bulk email import
+ * @module services/import/mailbox
+ */
+
+export { parseMailMessage } from './mime.js';
+export { MboxMailboxSource } from './mbox.source.js';
+export { MaildirMailboxSource } from './maildir.source.js';
+export { ImapMailboxSource } from './imap.source.js';
+export type { ImapMailboxConfig } from './imap.source.js';
+export type {
+  MailAddress,
+  MailAttachment,
+  MailMessage,
+  MailboxMessage,
+  MailboxSource,
+} from './types.js';
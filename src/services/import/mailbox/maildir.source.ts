@@ -0,0 +1,85 @@
+/**
+ * Maildir Source - Read messages from a Maildir directory
+ * @module services/import/mailbox/maildir
+ */
+
+import { readFile, readdir } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { createMailboxError } from '../../../core/errors.js';
+import type { MailboxError } from '../../../core/errors.js';
+import { err, ok } from '../../../core/result.js';
+import type { Result } from '../../../core/result.js';
+import type { MailboxMessage, MailboxSource } from './types.js';
+
+/**
+ * Maildir directory source
+ *
+ * Reads `new/` and `cur/`. Maildir file names start with the delivery time,
+ * so messages are read in name order and the watermark is the last name
+ * read, without the `:2,` flags suffix that changes when mail is read.
+ */
+export class MaildirMailboxSource implements MailboxSource {
+  readonly id: string;
+  private readonly path: string;
+
+  /**
+   * @param path - Path to the Maildir (the directory holding new/ and cur/)
+   */
+  constructor(path: string) {
+    this.path = resolve(path);
+    this.id = `maildir:${this.path}`;
+  }
+
+  async read(after?: string, limit?: number): Promise<Result<MailboxMessage[], MailboxError>> {
+    // A message moved from new/ to cur/ mid-read is listed once
+    const files = new Map<string, string>();
+    let found = 0;
+
+    for (const folder of ['new', 'cur']) {
+      let entries: string[];
+      try {
+        entries = await readdir(join(this.path, folder));
+      } catch (error) {
+        if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+          continue;
+        }
+        return err(
+          createMailboxError('READ_ERROR', `Failed to read Maildir: ${this.path}`, {
+            error: error instanceof Error ? error.message : String(error),
+          })
+        );
+      }
+      found++;
+      for (const entry of entries) {
+        if (!entry.startsWith('.')) {
+          files.set(entry.split(':')[0] ?? entry, join(this.path, folder, entry));
+        }
+      }
+    }
+
+    if (found === 0) {
+      return err(createMailboxError('NOT_FOUND', `Not a Maildir (no new/ or cur/): ${this.path}`));
+    }
+
+    const pending = [...files.entries()]
+      .map(([name, file]) => ({ name, file }))
+      .filter(({ name }) => after === undefined || name > after)
+      .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+      .slice(0, limit);
+
+    const messages: MailboxMessage[] = [];
+    for (const { name, file } of pending) {
+      try {
+        messages.push({ key: name, position: name, raw: await readFile(file) });
+      } catch (error) {
+        return err(
+          createMailboxError('READ_ERROR', `Failed to read message: ${file}`, {
+            error: error instanceof Error ? error.message : String(error),
+          })
+        );
+      }
+    }
+
+    return ok(messages);
+  }
+}
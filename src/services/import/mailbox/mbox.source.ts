@@ -0,0 +1,116 @@
+/**
+ * Mbox Source - Read messages from an mbox file
+ * @module services/import/mailbox/mbox
+ */
+
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { createMailboxError } from '../../../core/errors.js';
+import type { MailboxError } from '../../../core/errors.js';
+import { err, ok } from '../../../core/result.js';
+import type { Result } from '../../../core/result.js';
+import type { MailboxMessage, MailboxSource } from './types.js';
+
+/**
+ * Mbox file source
+ *
+ * The watermark is the byte offset after the last message read, so mail
+ * appended to the file is picked up on the next run. A file that shrank or
+ * was rewritten is read from the start again.
+ */
+export class MboxMailboxSource implements MailboxSource {
+  readonly id: string;
+  private readonly path: string;
+
+  /**
+   * @param path - Path to the mbox file
+   */
+  constructor(path: string) {
+    this.path = resolve(path);
+    this.id = `mbox:${this.path}`;
+  }
+
+  async read(after?: string, limit?: number): Promise<Result<MailboxMessage[], MailboxError>> {
+    let content: string;
+    try {
+      // latin1 keeps one character per byte, so string offsets are file offsets
+      content = (await readFile(this.path)).toString('latin1');
+    } catch (error) {
+      if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+        return err(createMailboxError('NOT_FOUND', `Mbox file not found: ${this.path}`));
+      }
+      return err(
+        createMailboxError('READ_ERROR', `Failed to read mbox file: ${this.path}`, {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+
+    const offset = Number(after ?? 0);
+    const start =
+      Number.isInteger(offset) &&
+      offset > 0 &&
+      offset <= content.length &&
+      isFromLine(content, offset)
+        ? offset
+        : 0;
+
+    const messages: MailboxMessage[] = [];
+    for (const { begin, end } of messageRanges(content, start)) {
+      if (limit !== undefined && messages.length >= limit) {
+        break;
+      }
+      messages.push({
+        key: `message at byte ${begin}`,
+        position: String(end),
+        raw: Buffer.from(unescapeBody(content.slice(begin, end)), 'latin1'),
+      });
+    }
+
+    return ok(messages);
+  }
+}
+
+/**
+ * Byte ranges of the messages from an offset, each starting at its "From " line
+ */
+function messageRanges(content: string, start: number): Array<{ begin: number; end: number }> {
+  const ranges: Array<{ begin: number; end: number }> = [];
+  let begin = start;
+  if (!content.startsWith('From ', begin)) {
+    const first = content.indexOf('\nFrom ', begin);
+    if (first === -1) {
+      return ranges;
+    }
+    begin = first + 1;
+  }
+
+  while (begin < content.length) {
+    const next = content.indexOf('\nFrom ', begin);
+    const end = next === -1 ? content.length : next + 1;
+    ranges.push({ begin, end });
+    begin = end;
+  }
+
+  return ranges;
+}
+
+/**
+ * Drop the "From " separator line and undo ">From " quoting (mboxrd)
+ */
+function unescapeBody(message: string): string {
+  const firstLineEnd = message.indexOf('\n');
+  const body = firstLineEnd === -1 ? '' : message.slice(firstLineEnd + 1);
+  return body.replace(/^>(>*From )/gm, '$1');
+}
+
+/**
+ * Whether an offset is at the end of the file or at a "From " line
+ * Blank lines in between are allowed: writers separate appended mail with one.
+ */
+function isFromLine(content: string, offset: number): boolean {
+  const pattern = /[^\r\n]/g;
+  pattern.lastIndex = offset;
+  const next = pattern.exec(content);
+  return next === null || content.startsWith('From ', next.index);
+}
@@ -0,0 +1,322 @@
+/**
+ * MIME Parser - Parse RFC 5322 emails into bodies and attachments
+ * @module services/import/mailbox/mime
+ */
+
+import type { MailAddress, MailAttachment, MailMessage } from './types.js';
+
+/**
+ * Part of a MIME message
+ * Bodies are kept as latin1 strings so every character is one byte of the original.
+ */
+interface MimePart {
+  headers: Map<string, string>;
+  body: string;
+}
+
+/**
+ * Header value with its parameters (e.g., `text/html; charset=utf-8`)
+ */
+interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+/** Nested multiparts deeper than this are treated as attachments */
+const MAX_MULTIPART_DEPTH = 10;
+
+/**
+ * Parse a raw email
+ *
+ * Handles multipart bodies, base64 and quoted-printable transfer encodings,
+ * encoded-word headers and common charsets. The first text/plain and
+ * text/html parts become the bodies; every other part is an attachment.
+ *
+ * @param raw - Raw RFC 5322 message
+ * @returns Parsed message
+ */
+export function parseMailMessage(raw: Buffer | string): MailMessage {
+  const source = (Buffer.isBuffer(raw) ? raw : Buffer.from(raw, 'utf8')).toString('latin1');
+  const root = splitPart(source);
+  const header = (name: string): string | undefined => {
+    const value = root.headers.get(name);
+    return value === undefined ? undefined : decodeHeader(value);
+  };
+
+  const from = parseAddressList(header('from') ?? '')[0];
+  const messageId = header('message-id')?.trim().replace(/^<|>$/g, '');
+  const dateHeader = header('date');
+  const date = dateHeader ? new Date(dateHeader) : undefined;
+
+  const message: MailMessage = {
+    ...(messageId ? { messageId } : {}),
+    ...(from ? { from } : {}),
+    to: parseAddressList(header('to') ?? ''),
+    subject: header('subject')?.trim() ?? '',
+    ...(date && !Number.isNaN(date.getTime()) ? { date } : {}),
+    attachments: [],
+  };
+
+  collectParts(root, message, 0);
+  return message;
+}
+
+/**
+ * Walk a part tree, filling in bodies and attachments
+ */
+function collectParts(part: MimePart, message: MailMessage, depth: number): void {
+  const contentType = parseHeaderValue(part.headers.get('content-type') ?? 'text/plain');
+  const mimeType = contentType.value.toLowerCase() || 'text/plain';
+  const boundary = contentType.params.boundary;
+
+  if (mimeType.startsWith('multipart/') && boundary && depth < MAX_MULTIPART_DEPTH) {
+    for (const child of splitMultipart(part.body, boundary)) {
+      collectParts(splitPart(child), message, depth + 1);
+    }
+    return;
+  }
+
+  const disposition = parseHeaderValue(part.headers.get('content-disposition') ?? '');
+  const filename = disposition.params.filename ?? contentType.params.name;
+  const content = decodeTransferEncoding(part.body, part.headers.get('content-transfer-encoding'));
+  const isAttachment = disposition.value.toLowerCase() === 'attachment' || filename !== undefined;
+
+  if (!isAttachment && mimeType === 'text/plain' && message.textBody === undefined) {
+    message.textBody = decodeCharset(content, contentType.params.charset);
+    return;
+  }
+  if (!isAttachment && mimeType === 'text/html' && message.htmlBody === undefined) {
+    message.htmlBody = decodeCharset(content, contentType.params.charset);
+    return;
+  }
+
+  const contentId = part.headers.get('content-id')?.trim().replace(/^<|>$/g, '');
+  const attachment: MailAttachment = {
+    ...(filename ? { filename: decodeHeader(filename) } : {}),
+    contentType: mimeType,
+    content,
+    ...(contentId ? { contentId } : {}),
+  };
+  message.attachments.push(attachment);
+}
+
+/**
+ * Split a part into unfolded headers and body
+ */
+function splitPart(text: string): MimePart {
+  const crlf = text.indexOf('\r\n\r\n');
+  const lf = text.indexOf('\n\n');
+  let headerEnd = text.length;
+  let bodyStart = text.length;
+  if (crlf !== -1 && (lf === -1 || crlf < lf)) {
+    headerEnd = crlf;
+    bodyStart = crlf + 4;
+  } else if (lf !== -1) {
+    headerEnd = lf;
+    bodyStart = lf + 2;
+  }
+
+  const headers = new Map<string, string>();
+  const lines = text.slice(0, headerEnd).split(/\r?\n/);
+  let current: { name: string; value: string } | undefined;
+  const flush = () => {
+    // Repeated headers (e.g., Received) keep their first value
+    if (current && !headers.has(current.name)) {
+      headers.set(current.name, current.value.trim());
+    }
+  };
+
+  for (const line of lines) {
+    if (/^[ \t]/.test(line) && current) {
+      current.value += ` ${line.trim()}`;
+      continue;
+    }
+    flush();
+    const colon = line.indexOf(':');
+    current =
+      colon > 0
+        ? { name: line.slice(0, colon).trim().toLowerCase(), value: line.slice(colon + 1) }
+        : undefined;
+  }
+  flush();
+
+  return { headers, body: text.slice(bodyStart) };
+}
+
+/**
+ * Bodies of a multipart part, without preamble and epilogue
+ */
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  let index = body.startsWith(delimiter) ? 0 : body.indexOf(`\n${delimiter}`);
+  if (index > 0) index += 1;
+
+  while (index !== -1) {
+    const start = index + delimiter.length;
+    if (body.startsWith('--', start)) {
+      break;
+    }
+    const lineEnd = body.indexOf('\n', start);
+    if (lineEnd === -1) {
+      break;
+    }
+    const next = body.indexOf(`\n${delimiter}`, lineEnd);
+    const part = body.slice(lineEnd + 1, next === -1 ? body.length : next);
+    parts.push(part.endsWith('\r') ? part.slice(0, -1) : part);
+    index = next === -1 ? -1 : next + 1;
+  }
+
+  return parts;
+}
+
+/**
+ * Parse a structured header value and its parameters
+ * Supports quoted values and RFC 2231 `name*=charset''value` parameters.
+ */
+function parseHeaderValue(header: string): HeaderValue {
+  const [value = '', ...rest] = splitOutsideQuotes(header, ';');
+  const params: Record<string, string> = {};
+
+  for (const param of rest) {
+    const equals = param.indexOf('=');
+    if (equals === -1) continue;
+    let name = param.slice(0, equals).trim().toLowerCase();
+    let paramValue = param.slice(equals + 1).trim();
+    if (paramValue.startsWith('"') && paramValue.endsWith('"')) {
+      paramValue = paramValue.slice(1, -1).replace(/\\(.)/g, '$1');
+    }
+    if (name.endsWith('*')) {
+      name = name.slice(0, -1);
+      const match = /^([^']*)'[^']*'(.*)$/.exec(paramValue);
+      if (match) {
+        paramValue = decodeCharset(percentDecode(match[2] ?? ''), match[1]);
+      }
+    }
+    params[name] = paramValue;
+  }
+
+  return { value: value.trim(), params };
+}
+
+/**
+ * Decode a header: raw UTF-8 bytes and RFC 2047 encoded words
+ */
+function decodeHeader(value: string): string {
+  const text = Buffer.from(value, 'latin1').toString('utf8');
+  return (
+    text
+      // Whitespace between adjacent encoded words is not part of the text
+      .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?[^?]+\?[BbQq]\?)/g, '$1')
+      .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_match, charset: string, encoding, data) => {
+        const bytes =
+          encoding.toUpperCase() === 'B'
+            ? Buffer.from(data, 'base64')
+            : Buffer.from(
+                data
+                  .replace(/_/g, ' ')
+                  .replace(/=([0-9A-Fa-f]{2})/g, (_hex: string, code: string) =>
+                    String.fromCharCode(Number.parseInt(code, 16))
+                  ),
+                'latin1'
+              );
+        return decodeCharset(bytes, charset);
+      })
+  );
+}
+
+/**
+ * Decode a body from its transfer encoding
+ */
+function decodeTransferEncoding(body: string, encoding: string | undefined): Buffer {
+  switch (encoding?.trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return Buffer.from(
+        body
+          .replace(/[ \t]+(?=\r?\n)/g, '')
+          .replace(/=\r?\n/g, '')
+          .replace(/=([0-9A-Fa-f]{2})/g, (_match, code: string) =>
+            String.fromCharCode(Number.parseInt(code, 16))
+          ),
+        'latin1'
+      );
+    default:
+      return Buffer.from(body, 'latin1');
+  }
+}
+
+/**
+ * Decode text in a charset, falling back to UTF-8 for unknown charsets
+ */
+function decodeCharset(bytes: Buffer, charset: string | undefined): string {
+  const normalized = charset?.trim().toLowerCase();
+  if (!normalized || normalized === 'utf-8' || normalized === 'utf8' || normalized === 'us-ascii') {
+    return bytes.toString('utf8');
+  }
+  if (normalized === 'iso-8859-1' || normalized === 'latin1') {
+    return bytes.toString('latin1');
+  }
+  try {
+    return new TextDecoder(normalized).decode(bytes);
+  } catch {
+    return bytes.toString('utf8');
+  }
+}
+
+function percentDecode(value: string): Buffer {
+  return Buffer.from(
+    value.replace(/%([0-9A-Fa-f]{2})/g, (_match, code: string) =>
+      String.fromCharCode(Number.parseInt(code, 16))
+    ),
+    'latin1'
+  );
+}
+
+/**
+ * Parse an address list (e.g., `"Doe, Jane" <jane@example.com>, bob@example.com`)
+ */
+function parseAddressList(header: string): MailAddress[] {
+  return splitOutsideQuotes(header, ',').flatMap((entry): MailAddress[] => {
+    const trimmed = entry.trim();
+    const match = /^(.*)<([^>]+)>\s*$/.exec(trimmed);
+    if (match) {
+      const name = (match[1] ?? '').trim().replace(/^"|"$/g, '');
+      const address = (match[2] ?? '').trim();
+      return address ? [{ address, ...(name ? { name } : {}) }] : [];
+    }
+    return trimmed.includes('@') ? [{ address: trimmed }] : [];
+  });
+}
+
+/**
+ * Split on a separator outside quotes and angle brackets
+ */
+function splitOutsideQuotes(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  let angle = false;
+
+  for (let index = 0; index < value.length; index++) {
+    const char = value[index] ?? '';
+    if (char === '\\' && quoted) {
+      current += char + (value[index + 1] ?? '');
+      index++;
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === '<') angle = true;
+    if (!quoted && char === '>') angle = false;
+    if (char === separator && !quoted && !angle) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts;
+}
@@ -0,0 +1,78 @@
+/**
+ * Mailbox Types
+ * @module services/import/mailbox/types
+ */
+
+import type { MailboxError } from '../../../core/errors.js';
+import type { Result } from '../../../core/result.js';
+
+/**
+ * Email address with optional display name
+ */
+export interface MailAddress {
+  address: string;
+  name?: string;
+}
+
+/**
+ * Attachment of a parsed email
+ */
+export interface MailAttachment {
+  /** File name from Content-Disposition or Content-Type */
+  filename?: string;
+  /** MIME type (e.g., "application/pdf") */
+  contentType: string;
+  /** Decoded content */
+  content: Buffer;
+  /** Content-ID for inline parts */
+  contentId?: string;
+}
+
+/**
+ * Parsed RFC 5322 email
+ */
+export interface MailMessage {
+  /** Message-ID without angle brackets */
+  messageId?: string;
+  from?: MailAddress;
+  to: MailAddress[];
+  subject: string;
+  /** Date header, when it parses */
+  date?: Date;
+  /** First text/plain body part */
+  textBody?: string;
+  /** First text/html body part */
+  htmlBody?: string;
+  /** Attachments and inline parts other than the bodies */
+  attachments: MailAttachment[];
+}
+
+/**
+ * Raw message read from a mailbox
+ */
+export interface MailboxMessage {
+  /** Human-readable reference (e.g., "message 3", Maildir file name, "UID 42") */
+  key: string;
+  /** Watermark to store once this message is processed */
+  position: string;
+  /** Raw RFC 5322 message */
+  raw: Buffer;
+}
+
+/**
+ * Mailbox that can be read incrementally
+ *
+ * Watermarks are opaque to callers: a source returns messages after the
+ * watermark it is given, and each message carries the watermark to store
+ * once it has been processed. Unknown or stale watermarks restart from the beginning.
+ */
+export interface MailboxSource {
+  /** Stable identifier the watermark is stored under (e.g., "mbox:/home/me/travel.mbox") */
+  readonly id: string;
+  /**
+   * Read messages after a watermark, oldest first
+   * @param after - Watermark from a previous run
+   * @param limit - Most messages to return
+   */
+  read(after?: string, limit?: number): Promise<Result<MailboxMessage[], MailboxError>>;
+}
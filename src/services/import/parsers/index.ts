@@ -7,6 +7,7 @@ import type { IParser, ImportFormat } from '../types.js';
 import { PDFParser } from './pdf.parser.js';
 import { EmailParser } from './email.parser.js';
 import { ICSParser } from './ics.parser.js';
+import { PkpassParser } from './pkpass.parser.js';
 import { TextParser } from './text.parser.js';
 import { JSONParser } from './json.parser.js';
 import type { LLMExtractor } from '../extractors/llm.extractor.js';
@@ -34,6 +35,7 @@ export class ParserRegistry {
       schemaOrgExtractor: config.schemaOrgExtractor,
     }));
     this.registerParser(new ICSParser());
+    this.registerParser(new PkpassParser());
     this.registerParser(new TextParser({ llmExtractor: config.llmExtractor }));
     this.registerParser(new JSONParser());
   }
@@ -77,5 +79,6 @@ export class ParserRegistry {
 export { PDFParser } from './pdf.parser.js';
 export { EmailParser } from './email.parser.js';
 export { ICSParser } from './ics.parser.js';
+export { PkpassParser } from './pkpass.parser.js';
 export { TextParser } from './text.parser.js';
 export { JSONParser } from './json.parser.js';
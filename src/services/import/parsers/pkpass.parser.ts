@@ -0,0 +1,337 @@
+/**
+ * Pkpass Parser - Parse Apple Wallet passes (boarding passes, event tickets)
+ * @module services/import/parsers/pkpass
+ */
+
+import { SegmentStatus, SegmentType, TransferType } from '../../../domain/types/common.js';
+import type {
+  ExtractedSegment,
+  IParser,
+  ImportFormat,
+  ImportRequest,
+  ImportResult,
+} from '../types.js';
+import { readZipEntry } from '../utils/zip.js';
+
+/**
+ * Semantic tags (iOS 12+), on the pass or on individual fields
+ */
+interface PassSemantics {
+  airlineCode?: string;
+  flightCode?: string;
+  flightNumber?: number | string;
+  departureAirportCode?: string;
+  departureAirportName?: string;
+  arrivalAirportCode?: string;
+  arrivalAirportName?: string;
+  departureStationName?: string;
+  destinationStationName?: string;
+  departureTerminal?: string;
+  arrivalTerminal?: string;
+  originalDepartureDate?: string;
+  currentDepartureDate?: string;
+  originalArrivalDate?: string;
+  currentArrivalDate?: string;
+  transitProvider?: string;
+  vehicleNumber?: string;
+  carNumber?: string;
+  confirmationNumber?: string;
+  eventName?: string;
+  venueName?: string;
+  eventStartDate?: string;
+  eventEndDate?: string;
+  seats?: Array<{ seatNumber?: string; seatRow?: string; seatSection?: string }>;
+}
+
+/**
+ * Pass field
+ */
+interface PassField {
+  key: string;
+  label?: string;
+  value?: unknown;
+  semantics?: PassSemantics;
+}
+
+/**
+ * Field layout of one pass style
+ */
+interface PassStructure {
+  transitType?: string;
+  headerFields?: PassField[];
+  primaryFields?: PassField[];
+  secondaryFields?: PassField[];
+  auxiliaryFields?: PassField[];
+  backFields?: PassField[];
+}
+
+/**
+ * pass.json (the parts used here)
+ */
+interface PassJson {
+  organizationName?: string;
+  description?: string;
+  serialNumber?: string;
+  relevantDate?: string;
+  voided?: boolean;
+  semantics?: PassSemantics;
+  boardingPass?: PassStructure;
+  eventTicket?: PassStructure;
+}
+
+/**
+ * Fields and semantics of a pass, flattened for lookup
+ */
+interface PassData {
+  pass: PassJson;
+  fields: PassField[];
+  primary: PassField[];
+  semantics: PassSemantics;
+}
+
+/** Confidence when the pass carries both departure and arrival times */
+const FULL_CONFIDENCE = 0.9;
+/** Confidence when the end time had to be estimated */
+const ESTIMATED_CONFIDENCE = 0.6;
+
+/**
+ * Apple Wallet pass parser
+ *
+ * Reads pass.json from the .pkpass bundle. Boarding passes become flight,
+ * rail or transfer segments and event tickets become activities; semantic
+ * tags are used when present, labelled fields otherwise. Passes without an
+ * arrival or end time get an estimated one and a lower confidence.
+ */
+export class PkpassParser implements IParser {
+  supportedFormats: ImportFormat[] = ['pkpass'];
+
+  /**
+   * Parse a .pkpass bundle
+   */
+  async parse(request: ImportRequest): Promise<ImportResult> {
+    const content = Buffer.isBuffer(request.content)
+      ? request.content
+      : Buffer.from(request.content, 'binary');
+
+    const passFile = readZipEntry(content, 'pass.json');
+    if (!passFile) {
+      return this.failure('Not a readable .pkpass bundle (pass.json missing)');
+    }
+
+    let pass: PassJson;
+    try {
+      pass = JSON.parse(passFile.toString('utf8').replace(/^\uFEFF/, '')) as PassJson;
+    } catch (error) {
+      return this.failure(
+        `Invalid pass.json: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    const structure = pass.boardingPass ?? pass.eventTicket;
+    if (!structure) {
+      return this.failure('Pass is not a boarding pass or event ticket');
+    }
+
+    const fields = [
+      ...(structure.headerFields ?? []),
+      ...(structure.primaryFields ?? []),
+      ...(structure.secondaryFields ?? []),
+      ...(structure.auxiliaryFields ?? []),
+      ...(structure.backFields ?? []),
+    ];
+    const data: PassData = {
+      pass,
+      fields,
+      primary: structure.primaryFields ?? [],
+      semantics: Object.assign({}, pass.semantics, ...fields.map((field) => field.semantics)),
+    };
+
+    const segment = pass.boardingPass
+      ? this.convertBoardingPass(data, pass.boardingPass.transitType)
+      : this.convertEventTicket(data);
+
+    if (!segment) {
+      return this.failure('Pass has no departure or event date');
+    }
+
+    return {
+      success: true,
+      format: 'pkpass',
+      segments: [segment],
+      confidence: segment.confidence,
+      summary: `Found 1 booking from ${pass.organizationName ?? 'Wallet'} pass`,
+    };
+  }
+
+  /**
+   * Convert a boarding pass to a flight, rail or transfer segment
+   */
+  private convertBoardingPass(
+    data: PassData,
+    transitType: string | undefined
+  ): ExtractedSegment | null {
+    const { pass, semantics } = data;
+    const start = firstDate(
+      semantics.currentDepartureDate,
+      semantics.originalDepartureDate,
+      this.field(data, /depart|boarding/i),
+      pass.relevantDate
+    );
+    if (!start) {
+      return null;
+    }
+    const arrival = firstDate(semantics.currentArrivalDate, semantics.originalArrivalDate);
+    const [from, to] = data.primary;
+    const base = this.baseSegment(data, start, arrival, 2);
+
+    if (transitType === 'PKTransitTypeAir') {
+      const flightCode =
+        semantics.flightCode ??
+        (semantics.airlineCode && semantics.flightNumber !== undefined
+          ? `${semantics.airlineCode}${semantics.flightNumber}`
+          : this.field(data, /flight/i)) ??
+        '';
+      const flightNumber = flightCode.replace(/\s+/g, '').toUpperCase();
+      const seat = semantics.seats?.[0]?.seatNumber ?? this.field(data, /^seat$/i);
+
+      return {
+        ...base,
+        type: SegmentType.FLIGHT,
+        airline: {
+          name: pass.organizationName ?? '',
+          code: semantics.airlineCode ?? /^([A-Z0-9]{2})\d/.exec(flightNumber)?.[1] ?? '',
+        },
+        flightNumber,
+        origin: {
+          name: semantics.departureAirportName ?? from?.label ?? '',
+          code: semantics.departureAirportCode ?? stringValue(from?.value) ?? '',
+        },
+        destination: {
+          name: semantics.arrivalAirportName ?? to?.label ?? '',
+          code: semantics.arrivalAirportCode ?? stringValue(to?.value) ?? '',
+        },
+        ...(semantics.departureTerminal ? { departureTerminal: semantics.departureTerminal } : {}),
+        ...(seat ? { seatAssignments: { default: seat } } : {}),
+      } as ExtractedSegment;
+    }
+
+    const origin = {
+      name: semantics.departureStationName ?? stringValue(from?.value) ?? from?.label ?? '',
+    };
+    const destination = {
+      name: semantics.destinationStationName ?? stringValue(to?.value) ?? to?.label ?? '',
+    };
+
+    if (transitType === 'PKTransitTypeTrain') {
+      const coach = semantics.carNumber ?? this.field(data, /coach|carriage/i);
+      const seat = semantics.seats?.[0]?.seatNumber ?? this.field(data, /^seat$/i);
+      return {
+        ...base,
+        type: SegmentType.RAIL,
+        operator: { name: semantics.transitProvider ?? pass.organizationName ?? '' },
+        trainNumber: semantics.vehicleNumber ?? this.field(data, /train/i) ?? '',
+        origin,
+        destination,
+        ...(coach ? { coach } : {}),
+        ...(seat ? { seatAssignments: { default: seat } } : {}),
+      } as ExtractedSegment;
+    }
+
+    return {
+      ...base,
+      type: SegmentType.TRANSFER,
+      transferType: transitType === 'PKTransitTypeBoat' ? TransferType.FERRY : TransferType.PUBLIC,
+      pickupLocation: origin,
+      dropoffLocation: destination,
+      ...(pass.organizationName ? { vehicleDetails: pass.organizationName } : {}),
+    } as ExtractedSegment;
+  }
+
+  /**
+   * Convert an event ticket to an activity segment
+   */
+  private convertEventTicket(data: PassData): ExtractedSegment | null {
+    const { pass, semantics } = data;
+    const start = firstDate(
+      semantics.eventStartDate,
+      this.field(data, /date|doors|start/i),
+      pass.relevantDate
+    );
+    if (!start) {
+      return null;
+    }
+
+    return {
+      ...this.baseSegment(data, start, firstDate(semantics.eventEndDate), 3),
+      type: SegmentType.ACTIVITY,
+      name:
+        semantics.eventName ?? stringValue(data.primary[0]?.value) ?? pass.description ?? 'Event',
+      location: { name: semantics.venueName ?? this.field(data, /venue|location/i) ?? '' },
+      ...(pass.serialNumber ? { voucherNumber: pass.serialNumber } : {}),
+    } as ExtractedSegment;
+  }
+
+  /**
+   * Fields shared by all segments
+   * @param estimateHours - Duration assumed when the pass has no end time
+   */
+  private baseSegment(data: PassData, start: Date, end: Date | undefined, estimateHours: number) {
+    const confirmation =
+      data.semantics.confirmationNumber ??
+      this.field(data, /confirmation|booking|pnr|record locator|reference/i);
+    const estimated = !end || end <= start;
+
+    return {
+      status: data.pass.voided ? SegmentStatus.CANCELLED : SegmentStatus.CONFIRMED,
+      startDatetime: start,
+      endDatetime: estimated ? new Date(start.getTime() + estimateHours * 3_600_000) : end,
+      ...(confirmation ? { confirmationNumber: confirmation } : {}),
+      ...(data.pass.description ? { notes: data.pass.description } : {}),
+      confidence: estimated ? ESTIMATED_CONFIDENCE : FULL_CONFIDENCE,
+      inferred: false,
+    };
+  }
+
+  /**
+   * Value of the first field whose key or label matches
+   */
+  private field(data: PassData, pattern: RegExp): string | undefined {
+    const match = data.fields.find(
+      (field) => pattern.test(field.key) || (field.label !== undefined && pattern.test(field.label))
+    );
+    return stringValue(match?.value);
+  }
+
+  private failure(message: string): ImportResult {
+    return {
+      success: false,
+      format: 'pkpass',
+      segments: [],
+      confidence: 0,
+      errors: [message],
+    };
+  }
+}
+
+function stringValue(value: unknown): string | undefined {
+  if (typeof value === 'string' && value.trim()) {
+    return value.trim();
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  return undefined;
+}
+
+/**
+ * First value that parses as a date
+ */
+function firstDate(...values: Array<string | undefined>): Date | undefined {
+  for (const value of values) {
+    const date = value ? new Date(value) : undefined;
+    if (date && !Number.isNaN(date.getTime())) {
+      return date;
+    }
+  }
+  return undefined;
+}
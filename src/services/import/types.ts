@@ -13,7 +13,27 @@ export type ImportSource = 'upload' | 'email' | 'text' | 'url';
 /**
  * Import format - what format the data is in
  */
-export type ImportFormat = 'pdf' | 'email' | 'ics' | 'text' | 'json' | 'html' | 'unknown';
+export type ImportFormat =
+  | 'pdf'
+  | 'email'
+  | 'ics'
+  | 'pkpass'
+  | 'text'
+  | 'json'
+  | 'html'
+  | 'unknown';
+
+/**
+ * File attached to an imported email
+ */
+export interface ImportAttachment {
+  /** File name (e.g., "e-ticket.pdf") */
+  filename?: string;
+  /** MIME type as sent (e.g., "application/pdf") */
+  contentType?: string;
+  /** File content */
+  content: string | Buffer;
+}
 
 /**
  * Import request data
@@ -36,6 +56,8 @@ export interface ImportRequest {
     /** When email was received (for email imports) */
     receivedAt?: string;
   };
+  /** Email attachments, extracted alongside the body (for email imports) */
+  attachments?: ImportAttachment[];
 }
 
 /**
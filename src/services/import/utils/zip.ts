@@ -0,0 +1,90 @@
+/**
+ * ZIP Utility - Read single files from ZIP archives
+ * @module services/import/utils/zip
+ */
+
+import { inflateRawSync } from 'node:zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/** Default cap on a decompressed entry */
+const MAX_ENTRY_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Read one file from a ZIP archive
+ * Supports stored and deflated entries, which covers .pkpass bundles.
+ * @param archive - ZIP file content
+ * @param name - Path of the file inside the archive
+ * @param maxBytes - Largest decompressed size accepted
+ * @returns File content, or undefined when missing, too large or unreadable
+ */
+export function readZipEntry(
+  archive: Buffer,
+  name: string,
+  maxBytes: number = MAX_ENTRY_BYTES
+): Buffer | undefined {
+  try {
+    // The end record is at most 22 bytes plus a 64 KiB comment from the end
+    let end = -1;
+    for (
+      let offset = archive.length - 22;
+      offset >= Math.max(0, archive.length - 65557);
+      offset--
+    ) {
+      if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+        end = offset;
+        break;
+      }
+    }
+    if (end === -1) {
+      return undefined;
+    }
+
+    const entries = archive.readUInt16LE(end + 10);
+    let offset = archive.readUInt32LE(end + 16);
+
+    for (let index = 0; index < entries; index++) {
+      if (archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+        return undefined;
+      }
+      const method = archive.readUInt16LE(offset + 10);
+      const compressedSize = archive.readUInt32LE(offset + 20);
+      const size = archive.readUInt32LE(offset + 24);
+      const nameLength = archive.readUInt16LE(offset + 28);
+      const extraLength = archive.readUInt16LE(offset + 30);
+      const commentLength = archive.readUInt16LE(offset + 32);
+      const localOffset = archive.readUInt32LE(offset + 42);
+      const entryName = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+      offset += 46 + nameLength + extraLength + commentLength;
+
+      if (entryName !== name) {
+        continue;
+      }
+      if (size > maxBytes || archive.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+        return undefined;
+      }
+
+      const dataStart =
+        localOffset +
+        30 +
+        archive.readUInt16LE(localOffset + 26) +
+        archive.readUInt16LE(localOffset + 28);
+      const data = archive.subarray(dataStart, dataStart + compressedSize);
+
+      if (method === 0) {
+        return Buffer.from(data);
+      }
+      if (method === 8) {
+        return inflateRawSync(data, { maxOutputLength: maxBytes });
+      }
+      return undefined;
+    }
+
+    return undefined;
+  } catch {
+    // Truncated or corrupt archive
+    return undefined;
+  }
+}
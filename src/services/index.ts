@@ -10,6 +10,29 @@ export type { CreateItineraryInput } from './itinerary-collection.service.js';
 // Content-level itinerary operations
 export { ItineraryService } from './itinerary.service.js';
 
+// Revision history (list, diff, restore)
+export {
+  ItineraryHistoryService,
+  diffItineraries,
+  isEmptyDiff,
+} from './itinerary-history.service.js';
+export type {
+  FieldChange,
+  SegmentChange,
+  ItineraryDiff,
+} from './itinerary-history.service.js';
+
+// Copy itineraries between storage backends
+export { StorageMigrationService } from './storage-migration.service.js';
+export type {
+  MigrationFailure,
+  MigrationOutcome,
+  MigrationProgress,
+  MissingRevision,
+  StorageMigrationOptions,
+  StorageMigrationReport,
+} from './storage-migration.service.js';
+
 // Travel Agent facade
 export { TravelAgentFacade } from './travel-agent-facade.service.js';
 export type {
@@ -24,6 +47,17 @@ export { SegmentService } from './segment.service.js';
 export { DependencyService } from './dependency.service.js';
 export type { DependencyGraph } from './dependency.service.js';
 
+// Shift itineraries, days or segments in time
+export { RescheduleService } from './reschedule.service.js';
+export type {
+  RescheduleError,
+  RescheduleRequest,
+  RescheduleResult,
+  RescheduleScope,
+  RescheduleShift,
+  RescheduledSegment,
+} from './reschedule.service.js';
+
 export { WorkingContextService } from './working-context.service.js';
 
 export { LLMEvaluatorService } from './llm-evaluator.service.js';
@@ -39,6 +73,23 @@ export type {
 } from './llm-evaluator.service.js';
 
 export { TravelAgentService } from './travel-agent.service.js';
+
+// Pluggable flight, hotel and transfer search
+export {
+  createTravelSearchProvider,
+  FixtureTravelSearchProvider,
+  SerpApiTravelSearchProvider,
+  SAMPLE_TRAVEL_SEARCH_FIXTURES,
+  rankFlightOffers,
+  searchFlightOffers,
+} from './travel-search/index.js';
+export type {
+  TravelSearchProvider,
+  FlightRankingOptions,
+  FlightRankingWeights,
+  SerpApiSearchConfig,
+  TravelSearchFixtures,
+} from './travel-search/index.js';
 export type {
   TravelAgentConfig,
   PlausibilityResult,
@@ -63,12 +114,82 @@ export type {
   SemanticIssueSeverity,
 } from './travel-agent-review.service.js';
 
+export { FlightConnectionService, DEFAULT_CONNECTION_RULES } from './flight-connection.service.js';
+export type {
+  ConnectionKind,
+  ConnectionRules,
+  FlightConnection,
+  FlightJourney,
+} from './flight-connection.service.js';
+
+export {
+  REFERENCE_EXCHANGE_RATES,
+  StaticExchangeRateProvider,
+  convertCurrency,
+  loadExchangeRateProvider,
+} from './exchange-rate.service.js';
+export type { ExchangeRateProvider, ExchangeRateTable } from './exchange-rate.service.js';
+
+export { ItineraryCostService } from './itinerary-cost.service.js';
+export type {
+  CostRollupOptions,
+  ItineraryCostRollup,
+  SegmentCost,
+} from './itinerary-cost.service.js';
+
+export { BudgetService, DEFAULT_BUDGET_ALLOCATION } from './budget.service.js';
+export type {
+  BudgetAnalysis,
+  BudgetAnalysisOptions,
+  BudgetLine,
+  BudgetOverrun,
+  BudgetPeriod,
+  BudgetStatus,
+  CategoryBudgetLine,
+  DailyBudgetLine,
+} from './budget.service.js';
+
+export { ICSExportService, getCalendarFilename } from './ics-export.service.js';
+export type { ICSCalendarInfo, ICSExportOptions } from './ics-export.service.js';
+
+export {
+  CalendarFeedService,
+  CALENDAR_FEED_BASE_PATH,
+  omitCalendarFeeds,
+  toWebcalUrl,
+} from './calendar-feed.service.js';
+export type { CalendarFeed } from './calendar-feed.service.js';
+
+// Share itineraries with role-based collaborators
+export { CollaborationService } from './collaboration.service.js';
+export type { AuthorizedItinerary, CollaborationError } from './collaboration.service.js';
+
+export {
+  TravelDocumentService,
+  getTravelDocumentFilename,
+} from './travel-document.service.js';
+export type { ConfirmationRow, TravelDocumentOptions } from './travel-document.service.js';
+
+// Import bookings from mbox, Maildir and IMAP mailboxes
+export { MailboxImportService } from './mailbox-import.service.js';
+export type {
+  MailboxImportOptions,
+  MailboxImportReport,
+  MailboxImportServiceConfig,
+  MailboxMessageReport,
+  MailboxMessageStatus,
+} from './mailbox-import.service.js';
+
 export { GeocodingService } from './geocoding.service.js';
 export type { GeocodingResult } from './geocoding.service.js';
 
 export { AnonymizerService } from './anonymizer.service.js';
 export { EmbeddingService } from './embedding.service.js';
-export type { EmbeddingConfig, EmbeddingResult, BatchEmbeddingResult } from './embedding.service.js';
+export type {
+  EmbeddingConfig,
+  EmbeddingResult,
+  BatchEmbeddingResult,
+} from './embedding.service.js';
 
 // Vectra-based knowledge service
 export { KnowledgeService } from './knowledge.service.js';
@@ -5,15 +5,32 @@
 
 import { createStorageError, createValidationError } from '../core/errors.js';
 import type { StorageError, ValidationError } from '../core/errors.js';
-import { err } from '../core/result.js';
+import { err, ok } from '../core/result.js';
 import type { Result } from '../core/result.js';
 import { itineraryCreateSchema } from '../domain/schemas/itinerary.schema.js';
-import type { ItineraryId, TravelerId } from '../domain/types/branded.js';
+import type { ItineraryId, TemplateId, TravelerId } from '../domain/types/branded.js';
 import { generateItineraryId } from '../domain/types/branded.js';
 import { ItineraryStatus } from '../domain/types/common.js';
 import type { Itinerary } from '../domain/types/itinerary.js';
+import type {
+  InstantiateOptions,
+  ItineraryTemplate,
+  TemplateSummary,
+} from '../domain/types/template.js';
 import type { Traveler } from '../domain/types/traveler.js';
-import type { ItineraryStorage, ItinerarySummary } from '../storage/storage.interface.js';
+import {
+  cloneItinerary,
+  createTemplate,
+  instantiateTemplate,
+} from '../domain/utils/itinerary-template.js';
+import type { CreateTemplateOptions } from '../domain/utils/itinerary-template.js';
+import type {
+  ItineraryQuery,
+  ItineraryQueryResult,
+  ItineraryStorage,
+  ItinerarySummary,
+} from '../storage/storage.interface.js';
+import type { TemplateStorage } from '../storage/template-storage.js';
 
 /**
  * Input for creating a new itinerary
@@ -42,7 +59,14 @@ export class ItineraryCollectionService {
   /** In-memory store for draft itineraries (not yet persisted) */
   private drafts: Map<ItineraryId, Itinerary> = new Map();
 
-  constructor(private readonly storage: ItineraryStorage) {}
+  /**
+   * @param storage - Itinerary storage
+   * @param templateStorage - Template storage (template operations fail without it)
+   */
+  constructor(
+    private readonly storage: ItineraryStorage,
+    private readonly templateStorage?: TemplateStorage
+  ) {}
 
   /**
    * List all itineraries (summaries only)
@@ -61,6 +85,18 @@ export class ItineraryCollectionService {
     return this.storage.listByUser(email);
   }
 
+  /**
+   * Search itineraries with filters, sorting and pagination (summaries only)
+   * Drafts are not persisted yet, so they never match
+   * @param query - Filters, sort order and page
+   * @returns Result with the matching page and total count, or storage error
+   */
+  async queryItineraries(
+    query: ItineraryQuery
+  ): Promise<Result<ItineraryQueryResult, StorageError>> {
+    return this.storage.query(query);
+  }
+
   /**
    * Create a new itinerary
    * @param input - Itinerary creation data
@@ -109,7 +145,7 @@ export class ItineraryCollectionService {
     }
 
     // Save to storage
-    return this.storage.save(itinerary);
+    return this.storage.save(itinerary, { author: 'user', cause: 'Itinerary created' });
   }
 
   /**
@@ -177,6 +213,7 @@ export class ItineraryCollectionService {
    * Update itinerary metadata (does not modify segments)
    * @param id - Itinerary ID to update
    * @param updates - Metadata fields to update
+   * @param expectedVersion - Version the caller's change is based on (defaults to the version loaded here)
    * @returns Result with updated itinerary or error
    */
   async updateMetadata(
@@ -186,7 +223,8 @@ export class ItineraryCollectionService {
         Itinerary,
         'title' | 'description' | 'status' | 'startDate' | 'endDate' | 'tripType' | 'tags'
       >
-    >
+    >,
+    expectedVersion?: number
   ): Promise<Result<Itinerary, StorageError | ValidationError>> {
     // Load existing itinerary
     const loadResult = await this.storage.load(id);
@@ -216,16 +254,25 @@ export class ItineraryCollectionService {
     }
 
     // Save updated itinerary
-    return this.storage.save(updated);
+    return this.storage.save(
+      updated,
+      { author: 'user', cause: 'Metadata updated' },
+      expectedVersion ?? existing.version
+    );
   }
 
   /**
    * Add a traveler to an itinerary
    * @param id - Itinerary ID
    * @param traveler - Traveler to add
+   * @param expectedVersion - Version the caller's change is based on (defaults to the version loaded here)
    * @returns Result with updated itinerary or storage error
    */
-  async addTraveler(id: ItineraryId, traveler: Traveler): Promise<Result<Itinerary, StorageError>> {
+  async addTraveler(
+    id: ItineraryId,
+    traveler: Traveler,
+    expectedVersion?: number
+  ): Promise<Result<Itinerary, StorageError>> {
     // Load existing itinerary
     const loadResult = await this.storage.load(id);
     if (!loadResult.success) {
@@ -253,7 +300,11 @@ export class ItineraryCollectionService {
     };
 
     // Save updated itinerary
-    return this.storage.save(updated);
+    return this.storage.save(
+      updated,
+      { author: 'user', cause: 'Traveler added' },
+      expectedVersion ?? existing.version
+    );
   }
 
   /**
@@ -261,12 +312,14 @@ export class ItineraryCollectionService {
    * @param id - Itinerary ID
    * @param travelerId - Traveler ID to update
    * @param updates - Partial traveler updates
+   * @param expectedVersion - Version the caller's change is based on (defaults to the version loaded here)
    * @returns Result with updated itinerary or storage error
    */
   async updateTraveler(
     id: ItineraryId,
     travelerId: TravelerId,
-    updates: Partial<Traveler>
+    updates: Partial<Traveler>,
+    expectedVersion?: number
   ): Promise<Result<Itinerary, StorageError>> {
     // Load existing itinerary
     const loadResult = await this.storage.load(id);
@@ -302,18 +355,24 @@ export class ItineraryCollectionService {
     };
 
     // Save updated itinerary
-    return this.storage.save(updated);
+    return this.storage.save(
+      updated,
+      { author: 'user', cause: 'Traveler updated' },
+      expectedVersion ?? existing.version
+    );
   }
 
   /**
    * Remove a traveler from an itinerary
    * @param id - Itinerary ID
    * @param travelerId - Traveler ID to remove
+   * @param expectedVersion - Version the caller's change is based on (defaults to the version loaded here)
    * @returns Result with updated itinerary or storage error
    */
   async removeTraveler(
     id: ItineraryId,
-    travelerId: TravelerId
+    travelerId: TravelerId,
+    expectedVersion?: number
   ): Promise<Result<Itinerary, StorageError>> {
     // Load existing itinerary
     const loadResult = await this.storage.load(id);
@@ -349,18 +408,24 @@ export class ItineraryCollectionService {
     };
 
     // Save updated itinerary
-    return this.storage.save(updated);
+    return this.storage.save(
+      updated,
+      { author: 'user', cause: 'Traveler removed' },
+      expectedVersion ?? existing.version
+    );
   }
 
   /**
    * Update trip preferences on an itinerary
    * @param id - Itinerary ID
    * @param preferences - Trip preferences to update
+   * @param expectedVersion - Version the caller's change is based on (defaults to the version loaded here)
    * @returns Result with updated itinerary or storage error
    */
   async updateTripPreferences(
     id: ItineraryId,
-    preferences: Partial<Itinerary['tripPreferences']>
+    preferences: Partial<Itinerary['tripPreferences']>,
+    expectedVersion?: number
   ): Promise<Result<Itinerary, StorageError>> {
     // Load existing itinerary
     const loadResult = await this.storage.load(id);
@@ -382,7 +447,11 @@ export class ItineraryCollectionService {
     };
 
     // Save updated itinerary
-    return this.storage.save(updated);
+    return this.storage.save(
+      updated,
+      { author: 'user', cause: 'Trip preferences updated' },
+      expectedVersion ?? existing.version
+    );
   }
 
   /**
@@ -403,7 +472,7 @@ export class ItineraryCollectionService {
     }
 
     // Save to storage
-    const result = await this.storage.save(draft);
+    const result = await this.storage.save(draft, { author: 'user', cause: 'Draft saved' });
     if (result.success) {
       // Remove from drafts
       this.drafts.delete(id);
@@ -417,4 +486,122 @@ export class ItineraryCollectionService {
   deleteDraft(id: ItineraryId): boolean {
     return this.drafts.delete(id);
   }
+
+  /**
+   * Load an itinerary, including unsaved drafts
+   */
+  private async loadItinerary(id: ItineraryId): Promise<Result<Itinerary, StorageError>> {
+    const draft = this.drafts.get(id);
+    return draft ? ok(draft) : this.storage.load(id);
+  }
+
+  /**
+   * Get the template storage, or an error if none was configured
+   */
+  private getTemplateStorage(): Result<TemplateStorage, StorageError> {
+    return this.templateStorage
+      ? ok(this.templateStorage)
+      : err(createStorageError('INITIALIZATION_ERROR', 'Template storage is not configured'));
+  }
+
+  /**
+   * Save an itinerary as a reusable template
+   * Travelers, confirmation numbers and prices are stripped and segment times
+   * become day offsets
+   * @param id - Itinerary to save
+   * @param options - Template name, description and owner
+   * @returns Result with the saved template or storage error
+   */
+  async saveAsTemplate(
+    id: ItineraryId,
+    options: CreateTemplateOptions = {}
+  ): Promise<Result<ItineraryTemplate, StorageError>> {
+    const templates = this.getTemplateStorage();
+    if (!templates.success) {
+      return templates;
+    }
+
+    const loadResult = await this.loadItinerary(id);
+    if (!loadResult.success) {
+      return loadResult;
+    }
+
+    const template = createTemplate(loadResult.value, options);
+    const saveResult = await templates.value.save(template);
+    return saveResult.success ? ok(template) : saveResult;
+  }
+
+  /**
+   * List templates (summaries only)
+   * @param createdBy - Only templates saved by this user
+   * @returns Result with template summaries, most recent first, or storage error
+   */
+  async listTemplates(createdBy?: string): Promise<Result<TemplateSummary[], StorageError>> {
+    const templates = this.getTemplateStorage();
+    return templates.success ? templates.value.list(createdBy) : templates;
+  }
+
+  /**
+   * Get a template
+   * @param id - Template ID
+   * @returns Result with the template or storage error
+   */
+  async getTemplate(id: TemplateId): Promise<Result<ItineraryTemplate, StorageError>> {
+    const templates = this.getTemplateStorage();
+    return templates.success ? templates.value.load(id) : templates;
+  }
+
+  /**
+   * Delete a template
+   * @param id - Template ID
+   * @returns Result indicating success or storage error
+   */
+  async deleteTemplate(id: TemplateId): Promise<Result<void, StorageError>> {
+    const templates = this.getTemplateStorage();
+    return templates.success ? templates.value.delete(id) : templates;
+  }
+
+  /**
+   * Create and save a new itinerary from a template
+   * @param id - Template ID
+   * @param options - Start date, title and owner of the new itinerary
+   * @returns Result with the new itinerary or storage error
+   */
+  async instantiateTemplate(
+    id: TemplateId,
+    options: InstantiateOptions
+  ): Promise<Result<Itinerary, StorageError>> {
+    const templateResult = await this.getTemplate(id);
+    if (!templateResult.success) {
+      return templateResult;
+    }
+
+    return this.storage.save(instantiateTemplate(templateResult.value, options), {
+      author: 'user',
+      cause: `Created from template "${templateResult.value.name}"`,
+    });
+  }
+
+  /**
+   * Copy an itinerary onto a new start date and save the copy
+   * All segment times shift by the same number of days and dependencies are
+   * remapped to the copy's segment IDs
+   * @param id - Itinerary to copy
+   * @param options - Start date, title and owner of the copy
+   * @returns Result with the new itinerary or storage error
+   */
+  async cloneItinerary(
+    id: ItineraryId,
+    options: InstantiateOptions
+  ): Promise<Result<Itinerary, StorageError>> {
+    const loadResult = await this.loadItinerary(id);
+    if (!loadResult.success) {
+      return loadResult;
+    }
+
+    return this.storage.save(cloneItinerary(loadResult.value, options), {
+      author: 'user',
+      cause: `Cloned from "${loadResult.value.title}"`,
+    });
+  }
 }
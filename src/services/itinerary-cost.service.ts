@@ -0,0 +1,194 @@
+/**
+ * Itinerary cost rollup across currencies
+ * @module services/itinerary-cost
+ */
+
+import type { MoneyError } from '../core/errors.js';
+import { ok } from '../core/result.js';
+import type { Result } from '../core/result.js';
+import type { SegmentId, TravelerId } from '../domain/types/branded.js';
+import { SegmentStatus } from '../domain/types/common.js';
+import type { SegmentType } from '../domain/types/common.js';
+import type { Itinerary } from '../domain/types/itinerary.js';
+import { addMoney, allocateMoney, createMoney } from '../domain/types/money.js';
+import type { Money } from '../domain/types/money.js';
+import type { Segment } from '../domain/types/segment.js';
+import { convertCurrency } from './exchange-rate.service.js';
+import type { ExchangeRateProvider } from './exchange-rate.service.js';
+
+/** Currency used when neither the caller nor the itinerary specifies one */
+const FALLBACK_CURRENCY = 'USD';
+
+/**
+ * Cost of a single segment, in its original and the rollup currency
+ */
+export interface SegmentCost {
+  /** Segment ID */
+  segmentId: SegmentId;
+  /** Segment type */
+  type: SegmentType;
+  /** Amount(s) as booked, before conversion */
+  original: Money[];
+  /** Amount converted into the rollup currency */
+  converted: Money;
+  /** Travelers the cost is split between (empty if unassigned) */
+  travelerIds: TravelerId[];
+}
+
+/**
+ * Itinerary cost totals in a single currency
+ */
+export interface ItineraryCostRollup {
+  /** Currency all totals are expressed in */
+  currency: string;
+  /** Total across all priced segments */
+  total: Money;
+  /** Totals per segment type (only types with priced segments) */
+  byType: Partial<Record<SegmentType, Money>>;
+  /** Per-traveler share, keyed by traveler ID */
+  byTraveler: Record<string, Money>;
+  /** Cost of segments that could not be attributed to any traveler */
+  unassigned: Money;
+  /** Per-segment costs */
+  segments: SegmentCost[];
+  /** Segments without any price information */
+  unpricedSegmentIds: SegmentId[];
+}
+
+/**
+ * Options for a cost rollup
+ */
+export interface CostRollupOptions {
+  /** Target currency (defaults to the itinerary currency) */
+  currency?: string;
+  /** Include cancelled segments (default: false) */
+  includeCancelled?: boolean;
+}
+
+/**
+ * Service that totals segment prices for an itinerary, converting
+ * each into the itinerary currency via an exchange rate provider
+ */
+export class ItineraryCostService {
+  /**
+   * Creates a new itinerary cost service
+   * @param rates - Exchange rate source used for conversion
+   */
+  constructor(private readonly rates: ExchangeRateProvider) {}
+
+  /**
+   * Roll up segment costs for an itinerary.
+   *
+   * A segment's cost is its `totalPrice`, or the sum of `price`, `taxes` and
+   * `fees` when no total is given. Each segment's cost is split evenly between
+   * its travelers, falling back to all itinerary travelers when the segment
+   * lists none.
+   *
+   * @param itinerary - Itinerary to total
+   * @param options - Rollup options
+   * @returns Cost rollup, or an error if an exchange rate is unavailable
+   */
+  async rollup(
+    itinerary: Itinerary,
+    options: CostRollupOptions = {}
+  ): Promise<Result<ItineraryCostRollup, MoneyError>> {
+    const currency = (options.currency ?? this.resolveCurrency(itinerary)).toUpperCase();
+    const zero = createMoney(0, currency);
+
+    const rollup: ItineraryCostRollup = {
+      currency,
+      total: zero,
+      byType: {},
+      byTraveler: {},
+      unassigned: zero,
+      segments: [],
+      unpricedSegmentIds: [],
+    };
+
+    for (const segment of itinerary.segments) {
+      if (segment.status === SegmentStatus.CANCELLED && !options.includeCancelled) {
+        continue;
+      }
+
+      const original = getSegmentCostComponents(segment);
+      if (original.length === 0) {
+        rollup.unpricedSegmentIds.push(segment.id);
+        continue;
+      }
+
+      let converted = zero;
+      for (const component of original) {
+        const result = await convertCurrency(
+          component,
+          currency,
+          this.rates,
+          segment.startDatetime
+        );
+        if (!result.success) {
+          return result;
+        }
+        converted = addMoney(converted, result.value);
+      }
+
+      const travelerIds =
+        segment.travelerIds.length > 0
+          ? segment.travelerIds
+          : itinerary.travelers.map((traveler) => traveler.id);
+
+      rollup.segments.push({
+        segmentId: segment.id,
+        type: segment.type,
+        original,
+        converted,
+        travelerIds,
+      });
+      rollup.total = addMoney(rollup.total, converted);
+      rollup.byType[segment.type] = addMoney(rollup.byType[segment.type] ?? zero, converted);
+
+      if (travelerIds.length === 0) {
+        rollup.unassigned = addMoney(rollup.unassigned, converted);
+        continue;
+      }
+
+      allocateMoney(converted, travelerIds.length).forEach((share, index) => {
+        const travelerId = travelerIds[index] as string;
+        rollup.byTraveler[travelerId] = addMoney(rollup.byTraveler[travelerId] ?? zero, share);
+      });
+    }
+
+    return ok(rollup);
+  }
+
+  /**
+   * Pick the rollup currency: the itinerary currency, then the currency of
+   * the itinerary total, then the first priced segment
+   */
+  private resolveCurrency(itinerary: Itinerary): string {
+    if (itinerary.currency) {
+      return itinerary.currency;
+    }
+    if (itinerary.totalPrice) {
+      return itinerary.totalPrice.currency;
+    }
+    for (const segment of itinerary.segments) {
+      const [first] = getSegmentCostComponents(segment);
+      if (first) {
+        return first.currency;
+      }
+    }
+    return FALLBACK_CURRENCY;
+  }
+}
+
+/**
+ * Get the priced components of a segment: its total price if present,
+ * otherwise whichever of price, taxes and fees are set
+ */
+function getSegmentCostComponents(segment: Segment): Money[] {
+  if (segment.totalPrice) {
+    return [segment.totalPrice];
+  }
+  return [segment.price, segment.taxes, segment.fees].filter(
+    (money): money is Money => money !== undefined
+  );
+}
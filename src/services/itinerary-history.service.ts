@@ -0,0 +1,337 @@
+/**
+ * Itinerary revision history - list, diff and restore saved versions
+ * @module services/itinerary-history
+ */
+
+import { createStorageError } from '../core/errors.js';
+import type { StorageError } from '../core/errors.js';
+import { err, ok } from '../core/result.js';
+import type { Result } from '../core/result.js';
+import type { ItineraryId, SegmentId } from '../domain/types/branded.js';
+import type { SegmentType } from '../domain/types/common.js';
+import type { Itinerary } from '../domain/types/itinerary.js';
+import type { Segment } from '../domain/types/segment.js';
+import type {
+  ItineraryRevision,
+  ItineraryStorage,
+  RevisionContext,
+} from '../storage/storage.interface.js';
+
+/** Itinerary fields that change on every save and are left out of diffs */
+const VOLATILE_FIELDS = new Set(['version', 'updatedAt']);
+
+/**
+ * A single changed field, addressed by a dotted path (e.g. "location.name")
+ */
+export interface FieldChange {
+  /** Dotted path of the changed field */
+  path: string;
+  /** Value before the change (undefined if the field was added) */
+  before: unknown;
+  /** Value after the change (undefined if the field was removed) */
+  after: unknown;
+}
+
+/**
+ * A segment present in both versions whose fields differ
+ */
+export interface SegmentChange {
+  /** Segment ID */
+  segmentId: SegmentId;
+  /** Segment type (after the change) */
+  type: SegmentType;
+  /** Segment before the change */
+  before: Segment;
+  /** Segment after the change */
+  after: Segment;
+  /** Changed fields */
+  changes: FieldChange[];
+}
+
+/**
+ * Structural difference between two versions of an itinerary
+ */
+export interface ItineraryDiff {
+  /** Itinerary ID */
+  itineraryId: ItineraryId;
+  /** Revision the diff starts from */
+  fromRevision: number;
+  /** Revision the diff ends at */
+  toRevision: number;
+  /** Changed itinerary-level fields (excluding segments) */
+  fields: FieldChange[];
+  /** Segment changes, matched by segment ID */
+  segments: {
+    added: Segment[];
+    removed: Segment[];
+    changed: SegmentChange[];
+    /** Whether the segments present in both versions changed order */
+    reordered: boolean;
+  };
+}
+
+/**
+ * Service for browsing and restoring an itinerary's revision log
+ */
+export class ItineraryHistoryService {
+  constructor(private readonly storage: ItineraryStorage) {}
+
+  /**
+   * List the revisions of an itinerary, oldest first
+   * @param id - Itinerary ID
+   * @returns Result with revision entries or storage error
+   */
+  async listRevisions(id: ItineraryId): Promise<Result<ItineraryRevision[], StorageError>> {
+    return this.storage.listRevisions(id);
+  }
+
+  /**
+   * Get the latest revision of an itinerary to base a change on.
+   * An itinerary without history (e.g. saved before revisions were recorded)
+   * gets its current state saved as a first revision, so the change can be undone.
+   * @param id - Itinerary ID
+   * @param context - Author recorded on a first revision (defaults to the user)
+   * @returns Result with the latest revision number or storage error
+   */
+  async ensureBaseRevision(
+    id: ItineraryId,
+    context: RevisionContext = { author: 'user', cause: 'Revision history started' }
+  ): Promise<Result<number, StorageError>> {
+    const revisionsResult = await this.storage.listRevisions(id);
+    if (!revisionsResult.success) {
+      return revisionsResult;
+    }
+    const latest = revisionsResult.value.at(-1);
+    if (latest) {
+      return ok(latest.revision);
+    }
+
+    const currentResult = await this.storage.load(id);
+    if (!currentResult.success) {
+      return currentResult;
+    }
+    const saveResult = await this.storage.save(
+      currentResult.value,
+      context,
+      currentResult.value.version
+    );
+    if (!saveResult.success) {
+      return saveResult;
+    }
+
+    const recordedResult = await this.storage.listRevisions(id);
+    if (!recordedResult.success) {
+      return recordedResult;
+    }
+    const recorded = recordedResult.value.at(-1);
+    if (!recorded) {
+      return err(createStorageError('WRITE_ERROR', `No revision recorded for itinerary ${id}`));
+    }
+    return ok(recorded.revision);
+  }
+
+  /**
+   * Get the itinerary as it was at a revision
+   * @param id - Itinerary ID
+   * @param revision - Revision number
+   * @returns Result with the itinerary snapshot or storage error
+   */
+  async getRevision(id: ItineraryId, revision: number): Promise<Result<Itinerary, StorageError>> {
+    return this.storage.loadRevision(id, revision);
+  }
+
+  /**
+   * Diff two revisions of an itinerary
+   * @param id - Itinerary ID
+   * @param fromRevision - Older revision number
+   * @param toRevision - Newer revision number (defaults to the latest revision)
+   * @returns Result with the structural diff or storage error
+   */
+  async diff(
+    id: ItineraryId,
+    fromRevision: number,
+    toRevision?: number
+  ): Promise<Result<ItineraryDiff, StorageError>> {
+    let to = toRevision;
+    if (to === undefined) {
+      const revisionsResult = await this.storage.listRevisions(id);
+      if (!revisionsResult.success) {
+        return revisionsResult;
+      }
+      to = revisionsResult.value.at(-1)?.revision ?? fromRevision;
+    }
+
+    const beforeResult = await this.storage.loadRevision(id, fromRevision);
+    if (!beforeResult.success) {
+      return beforeResult;
+    }
+
+    const afterResult = await this.storage.loadRevision(id, to);
+    if (!afterResult.success) {
+      return afterResult;
+    }
+
+    return ok({
+      itineraryId: id,
+      fromRevision,
+      toRevision: to,
+      ...diffItineraries(beforeResult.value, afterResult.value),
+    });
+  }
+
+  /**
+   * Restore an itinerary to the state it had at a revision.
+   * The restore is saved as a new version, so it can itself be undone.
+   * Access settings (owner, collaborators and calendar feeds) keep their
+   * current values, so a restore never brings back revoked access.
+   * @param id - Itinerary ID
+   * @param revision - Revision number to restore
+   * @param context - Author of the restore (defaults to the user)
+   * @returns Result with the restored itinerary or storage error
+   */
+  async restore(
+    id: ItineraryId,
+    revision: number,
+    context?: RevisionContext
+  ): Promise<Result<Itinerary, StorageError>> {
+    const currentResult = await this.storage.load(id);
+    if (!currentResult.success) {
+      return currentResult;
+    }
+
+    const snapshotResult = await this.storage.loadRevision(id, revision);
+    if (!snapshotResult.success) {
+      return snapshotResult;
+    }
+
+    const {
+      calendarFeeds: _feeds,
+      collaborators: _collaborators,
+      createdBy: _createdBy,
+      ...content
+    } = snapshotResult.value;
+    const { calendarFeeds, collaborators, createdBy } = currentResult.value;
+
+    const restored: Itinerary = {
+      ...content,
+      ...(calendarFeeds ? { calendarFeeds } : {}),
+      ...(collaborators ? { collaborators } : {}),
+      ...(createdBy ? { createdBy } : {}),
+      id,
+      version: currentResult.value.version + 1,
+      updatedAt: new Date(),
+    };
+
+    return this.storage.save(
+      restored,
+      { author: 'user', cause: `Restored revision ${revision}`, ...context },
+      currentResult.value.version
+    );
+  }
+}
+
+/**
+ * Compute the structural difference between two versions of an itinerary.
+ * Segments are matched by ID; other fields are compared recursively and
+ * reported by dotted path, with arrays compared as whole values.
+ * @param before - Older version
+ * @param after - Newer version
+ * @returns Field and segment changes
+ */
+export function diffItineraries(
+  before: Itinerary,
+  after: Itinerary
+): Pick<ItineraryDiff, 'fields' | 'segments'> {
+  const { segments: beforeSegments, ...beforeFields } = before;
+  const { segments: afterSegments, ...afterFields } = after;
+
+  const fields = diffValues('', beforeFields, afterFields).filter(
+    (change) => !VOLATILE_FIELDS.has(change.path)
+  );
+
+  const beforeById = new Map(beforeSegments.map((segment) => [segment.id, segment]));
+  const afterById = new Map(afterSegments.map((segment) => [segment.id, segment]));
+
+  const added = afterSegments.filter((segment) => !beforeById.has(segment.id));
+  const removed = beforeSegments.filter((segment) => !afterById.has(segment.id));
+
+  const changed: SegmentChange[] = [];
+  for (const segment of afterSegments) {
+    const previous = beforeById.get(segment.id);
+    if (!previous) {
+      continue;
+    }
+    const changes = diffValues('', previous, segment);
+    if (changes.length > 0) {
+      changed.push({
+        segmentId: segment.id,
+        type: segment.type,
+        before: previous,
+        after: segment,
+        changes,
+      });
+    }
+  }
+
+  const keptBefore = beforeSegments.filter((segment) => afterById.has(segment.id));
+  const keptAfter = afterSegments.filter((segment) => beforeById.has(segment.id));
+  const reordered = keptBefore.some((segment, index) => segment.id !== keptAfter[index]?.id);
+
+  return { fields, segments: { added, removed, changed, reordered } };
+}
+
+/**
+ * Check whether a diff contains no changes at all
+ * @param diff - Diff to check
+ * @returns True if neither fields nor segments changed
+ */
+export function isEmptyDiff(diff: Pick<ItineraryDiff, 'fields' | 'segments'>): boolean {
+  const { added, removed, changed, reordered } = diff.segments;
+  return (
+    diff.fields.length === 0 &&
+    added.length === 0 &&
+    removed.length === 0 &&
+    changed.length === 0 &&
+    !reordered
+  );
+}
+
+/**
+ * Recursively compare two values, descending into plain objects
+ */
+function diffValues(path: string, before: unknown, after: unknown): FieldChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...keys].flatMap((key) =>
+      diffValues(path ? `${path}.${key}` : key, before[key], after[key])
+    );
+  }
+
+  if (canonicalJson(before) === canonicalJson(after)) {
+    return [];
+  }
+
+  return [{ path, before, after }];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)
+  );
+}
+
+/**
+ * Serialize a value with sorted object keys so equal values compare equal
+ */
+function canonicalJson(value: unknown): string | undefined {
+  return JSON.stringify(value, (_key, nested: unknown) => {
+    if (!isPlainObject(nested)) {
+      return nested;
+    }
+    return Object.fromEntries(
+      Object.keys(nested)
+        .sort()
+        .map((key) => [key, nested[key]])
+    );
+  });
+}
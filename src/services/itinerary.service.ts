@@ -5,29 +5,36 @@
 
 import { createStorageError } from '../core/errors.js';
 import type { StorageError } from '../core/errors.js';
-import { err } from '../core/result.js';
+import { err, ok } from '../core/result.js';
 import type { Result } from '../core/result.js';
 import type { ItineraryId } from '../domain/types/branded.js';
 import { generateItineraryId } from '../domain/types/branded.js';
 import type { Itinerary } from '../domain/types/itinerary.js';
-import type { ItineraryStorage } from '../storage/storage.interface.js';
+import type { ItineraryStorage, RevisionContext } from '../storage/storage.interface.js';
+import { RescheduleService } from './reschedule.service.js';
+import type { RescheduleError, RescheduleRequest, RescheduleResult } from './reschedule.service.js';
 
 /**
  * Service for itinerary content operations
- * Handles: get full itinerary, update full itinerary, save imported itineraries
+ * Handles: get full itinerary, update full itinerary, save imported itineraries, reschedule
  * Does NOT handle: collection operations (see ItineraryCollectionService)
  */
 export class ItineraryService {
-  constructor(private readonly storage: ItineraryStorage) {}
+  constructor(
+    private readonly storage: ItineraryStorage,
+    private readonly rescheduleService: RescheduleService = new RescheduleService()
+  ) {}
 
   /**
    * Save a fully-parsed imported itinerary
    * Used for LLM imports where the full itinerary structure is already populated
    * @param itinerary - Complete itinerary from import process
+   * @param revision - Author and cause recorded in the revision log
    * @returns Result with saved itinerary or storage error
    */
   async saveImported(
-    itinerary: Itinerary
+    itinerary: Itinerary,
+    revision?: RevisionContext
   ): Promise<Result<Itinerary, StorageError>> {
     // Generate new ID if not present (shouldn't happen, but safety check)
     const toSave: Itinerary = {
@@ -38,7 +45,11 @@ export class ItineraryService {
       updatedAt: new Date(),
     };
 
-    return this.storage.save(toSave);
+    return this.storage.save(toSave, {
+      author: 'import',
+      cause: 'Itinerary imported',
+      ...revision,
+    });
   }
 
   /**
@@ -62,11 +73,15 @@ export class ItineraryService {
    * Update full itinerary (including segments)
    * @param id - Itinerary ID to update
    * @param updates - Partial itinerary updates
+   * @param revision - Author and cause recorded in the revision log
+   * @param expectedVersion - Version the caller's change is based on (defaults to the version loaded here)
    * @returns Result with updated itinerary or error
    */
   async updateItinerary(
     id: ItineraryId,
-    updates: Partial<Itinerary>
+    updates: Partial<Itinerary>,
+    revision?: RevisionContext,
+    expectedVersion?: number
   ): Promise<Result<Itinerary, StorageError>> {
     // Load existing itinerary
     const loadResult = await this.storage.load(id);
@@ -86,7 +101,11 @@ export class ItineraryService {
     };
 
     // Save updated itinerary
-    return this.storage.save(updated);
+    return this.storage.save(
+      updated,
+      { author: 'user', cause: 'Itinerary updated', ...revision },
+      expectedVersion ?? existing.version
+    );
   }
 
   /**
@@ -95,8 +114,56 @@ export class ItineraryService {
    */
   async update(
     id: ItineraryId,
-    updates: Partial<Itinerary>
+    updates: Partial<Itinerary>,
+    revision?: RevisionContext,
+    expectedVersion?: number
   ): Promise<Result<Itinerary, StorageError>> {
-    return this.updateItinerary(id, updates);
+    return this.updateItinerary(id, updates, revision, expectedVersion);
+  }
+
+  /**
+   * Shift a whole itinerary, a day or selected segments in time
+   * Nothing is saved for a dry run or when no segment moves.
+   * @param id - Itinerary ID
+   * @param request - Scope, shift and options
+   * @param revision - Author and cause recorded in the revision log
+   * @param expectedVersion - Version the caller's change is based on (defaults to the version loaded here)
+   * @returns Result with the rescheduled itinerary and the moved segments, or error
+   */
+  async reschedule(
+    id: ItineraryId,
+    request: RescheduleRequest,
+    revision?: RevisionContext,
+    expectedVersion?: number
+  ): Promise<Result<RescheduleResult, RescheduleError>> {
+    const loadResult = await this.storage.load(id);
+    if (!loadResult.success) {
+      return loadResult;
+    }
+
+    const existing = loadResult.value;
+    const planResult = this.rescheduleService.plan(existing, request);
+    if (!planResult.success || planResult.value.dryRun || planResult.value.moved.length === 0) {
+      return planResult;
+    }
+
+    const saveResult = await this.storage.save(
+      {
+        ...planResult.value.itinerary,
+        version: existing.version + 1,
+        updatedAt: new Date(),
+      },
+      {
+        author: 'user',
+        cause: `Rescheduled ${planResult.value.moved.length} segment(s)`,
+        ...revision,
+      },
+      expectedVersion ?? existing.version
+    );
+    if (!saveResult.success) {
+      return saveResult;
+    }
+
+    return ok({ ...planResult.value, itinerary: saveResult.value });
   }
 }
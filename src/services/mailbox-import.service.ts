@@ -0,0 +1,391 @@
+/**
+ * Mailbox Import Service - Import bookings from a mailbox, one run at a time
+ * @module services/mailbox-import
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { createStorageError } from '../core/errors.js';
+import type { MailboxError, StorageError } from '../core/errors.js';
+import { err, ok } from '../core/result.js';
+import type { Result } from '../core/result.js';
+import type { ImportService } from './import/index.js';
+import { parseMailMessage } from './import/mailbox/mime.js';
+import type { MailboxMessage, MailboxSource } from './import/mailbox/types.js';
+import type { ExtractedSegment, ImportResult, ImportResultWithMatching } from './import/types.js';
+
+/**
+ * Mailbox import configuration
+ */
+export interface MailboxImportServiceConfig {
+  /** Import service used to extract and add bookings */
+  importService: ImportService;
+  /** Path to the watermark and de-duplication state */
+  statePath?: string;
+}
+
+/**
+ * Options for one mailbox run
+ */
+export interface MailboxImportOptions {
+  /** Add every booking to this itinerary */
+  itineraryId?: string;
+  /** Match bookings against this user's trips (ignored with itineraryId) */
+  userId?: string;
+  /** Add high-confidence trip matches automatically (default: true) */
+  autoMatch?: boolean;
+  /** Extract only: add nothing and keep the stored state unchanged */
+  dryRun?: boolean;
+  /** Most messages to process */
+  limit?: number;
+}
+
+/**
+ * Outcome for one message
+ * - imported: bookings were added to an itinerary
+ * - pending: bookings were extracted but need a trip chosen (or this is a dry run)
+ * - duplicate: every booking had a confirmation number already seen
+ * - no_bookings: nothing travel-related was found
+ * - failed: extraction or import failed; the message is retried next run
+ */
+export type MailboxMessageStatus = 'imported' | 'pending' | 'duplicate' | 'no_bookings' | 'failed';
+
+/**
+ * Report for one message
+ */
+export interface MailboxMessageReport {
+  /** Reference to the message in its mailbox */
+  key: string;
+  subject: string;
+  from?: string;
+  status: MailboxMessageStatus;
+  /** New bookings found in the message */
+  segments: ExtractedSegment[];
+  /** Confirmation numbers skipped as already imported */
+  duplicates: string[];
+  /** Itinerary the bookings were added to */
+  itinerary?: { id: string; name: string };
+  /** Candidate trips when the bookings were not added */
+  tripMatches?: ImportResultWithMatching['tripMatches'];
+  errors?: string[];
+}
+
+/**
+ * Report for one mailbox run
+ */
+export interface MailboxImportReport {
+  sourceId: string;
+  /** Watermark the run started from */
+  previousWatermark?: string;
+  /** Watermark stored for the next run */
+  watermark?: string;
+  dryRun: boolean;
+  messages: MailboxMessageReport[];
+  totals: Record<MailboxMessageStatus, number>;
+}
+
+/**
+ * Stored state across runs
+ */
+interface MailboxImportState {
+  /**
+   * Progress per mailbox source: the watermark, plus the positions of messages
+   * past it that were already handled (they follow a failed message)
+   */
+  sources: Record<string, { watermark?: string; completed?: string[]; updatedAt: string }>;
+  /** Confirmation numbers of bookings already added, across all sources */
+  confirmationNumbers: string[];
+}
+
+/**
+ * Service for importing bookings from mailboxes
+ *
+ * Each message goes through the import service (schema.org first, LLM
+ * fallback), bookings whose confirmation number was already imported are
+ * skipped, and the source watermark is stored so later runs only read new
+ * mail. The watermark stops before the first failed message, so failures
+ * are retried on the next run; messages handled after it are remembered and
+ * skipped on that retry. State is saved after every message, so an
+ * interrupted run does not import the same mail twice.
+ */
+export class MailboxImportService {
+  private importService: ImportService;
+  private statePath: string;
+
+  /**
+   * Creates a new mailbox import service
+   * @param config - Import service and state path
+   */
+  constructor(config: MailboxImportServiceConfig) {
+    this.importService = config.importService;
+    this.statePath = config.statePath ?? './data/imports/mailbox-state.json';
+  }
+
+  /**
+   * Import new messages from a mailbox
+   * @param source - Mailbox to read
+   * @param options - Where to add bookings
+   * @returns Report of the run
+   */
+  async importMailbox(
+    source: MailboxSource,
+    options: MailboxImportOptions = {}
+  ): Promise<Result<MailboxImportReport, MailboxError | StorageError>> {
+    const stateResult = await this.loadState();
+    if (!stateResult.success) {
+      return stateResult;
+    }
+    const state = stateResult.value;
+    const previousWatermark = state.sources[source.id]?.watermark;
+
+    const readResult = await source.read(previousWatermark, options.limit);
+    if (!readResult.success) {
+      return readResult;
+    }
+
+    const imported = new Set(state.confirmationNumbers);
+    const seenThisRun = new Set<string>();
+    const previouslyCompleted = new Set(state.sources[source.id]?.completed ?? []);
+    const messages: MailboxMessageReport[] = [];
+    const dryRun = options.dryRun === true;
+    let watermark = previousWatermark;
+    // Positions handled after the first failed message, kept until the watermark passes them
+    const completed: string[] = [];
+    let blocked = false;
+
+    const saveProgress = (): Promise<Result<void, StorageError>> => {
+      state.sources[source.id] = {
+        ...(watermark !== undefined ? { watermark } : {}),
+        ...(completed.length > 0 ? { completed: [...completed] } : {}),
+        updatedAt: new Date().toISOString(),
+      };
+      state.confirmationNumbers = [...imported];
+      return this.saveState(state);
+    };
+
+    for (const message of readResult.value) {
+      // Handled by an earlier run that stopped its watermark at a failed message
+      const done = previouslyCompleted.has(message.position);
+      if (!done) {
+        const report = await this.importMessage(message, options, imported, seenThisRun);
+        messages.push(report);
+        if (report.status === 'failed') {
+          blocked = true;
+          continue;
+        }
+      }
+
+      if (blocked) {
+        completed.push(message.position);
+      } else {
+        watermark = message.position;
+      }
+
+      if (!dryRun && !done) {
+        const saveResult = await saveProgress();
+        if (!saveResult.success) {
+          return saveResult;
+        }
+      }
+    }
+
+    if (!dryRun) {
+      const saveResult = await saveProgress();
+      if (!saveResult.success) {
+        return saveResult;
+      }
+    }
+
+    const totals: Record<MailboxMessageStatus, number> = {
+      imported: 0,
+      pending: 0,
+      duplicate: 0,
+      no_bookings: 0,
+      failed: 0,
+    };
+    for (const report of messages) {
+      totals[report.status]++;
+    }
+
+    return ok({
+      sourceId: source.id,
+      ...(previousWatermark !== undefined ? { previousWatermark } : {}),
+      ...(watermark !== undefined ? { watermark } : {}),
+      dryRun,
+      messages,
+      totals,
+    });
+  }
+
+  /**
+   * Extract, de-duplicate and add the bookings of one message
+   * @param imported - Confirmation numbers already added; extended when bookings are added
+   * @param seenThisRun - Confirmation numbers extracted earlier in this run
+   */
+  private async importMessage(
+    message: MailboxMessage,
+    options: MailboxImportOptions,
+    imported: Set<string>,
+    seenThisRun: Set<string>
+  ): Promise<MailboxMessageReport> {
+    const mail = parseMailMessage(message.raw);
+    const report: MailboxMessageReport = {
+      key: message.key,
+      subject: mail.subject,
+      ...(mail.from ? { from: mail.from.address } : {}),
+      status: 'no_bookings',
+      segments: [],
+      duplicates: [],
+    };
+
+    // HTML first: that is where schema.org markup lives
+    const content = mail.htmlBody ?? mail.textBody ?? '';
+    if (!content && mail.attachments.length === 0) {
+      return report;
+    }
+
+    try {
+      const parseResult = await this.importService.import({
+        source: 'email',
+        content,
+        mimeType: 'message/rfc822',
+        attachments: mail.attachments.map((attachment) => ({
+          content: attachment.content,
+          contentType: attachment.contentType,
+          ...(attachment.filename ? { filename: attachment.filename } : {}),
+        })),
+        metadata: {
+          ...(mail.from ? { fromEmail: mail.from.address } : {}),
+          subject: mail.subject,
+          ...(mail.date ? { receivedAt: mail.date.toISOString() } : {}),
+        },
+      });
+
+      if (!parseResult.success) {
+        return {
+          ...report,
+          status: 'failed',
+          errors: parseResult.errors ?? ['Extraction failed'],
+        };
+      }
+
+      const fresh: ExtractedSegment[] = [];
+      for (const segment of parseResult.segments) {
+        const confirmation = segment.confirmationNumber?.trim().toUpperCase();
+        if (confirmation && (imported.has(confirmation) || seenThisRun.has(confirmation))) {
+          report.duplicates.push(segment.confirmationNumber ?? confirmation);
+          continue;
+        }
+        fresh.push(segment);
+      }
+      report.segments = fresh;
+
+      if (fresh.length === 0) {
+        return { ...report, status: report.duplicates.length > 0 ? 'duplicate' : 'no_bookings' };
+      }
+
+      const confirmations = fresh
+        .map((segment) => segment.confirmationNumber?.trim().toUpperCase())
+        .filter((confirmation): confirmation is string => Boolean(confirmation));
+      for (const confirmation of confirmations) {
+        seenThisRun.add(confirmation);
+      }
+
+      const result = await this.addBookings({ ...parseResult, segments: fresh }, options);
+      if (!result) {
+        return { ...report, status: 'pending' };
+      }
+
+      if (result.action !== 'added_to_existing') {
+        // With an explicit itinerary, not adding means the itinerary could not be loaded
+        if (options.itineraryId) {
+          return { ...report, status: 'failed', errors: result.errors ?? ['Import failed'] };
+        }
+        return {
+          ...report,
+          status: 'pending',
+          ...(result.tripMatches ? { tripMatches: result.tripMatches } : {}),
+        };
+      }
+
+      for (const confirmation of confirmations) {
+        imported.add(confirmation);
+      }
+      return {
+        ...report,
+        status: 'imported',
+        ...(result.selectedItinerary ? { itinerary: result.selectedItinerary } : {}),
+      };
+    } catch (error) {
+      return {
+        ...report,
+        status: 'failed',
+        errors: [error instanceof Error ? error.message : String(error)],
+      };
+    }
+  }
+
+  /**
+   * Add bookings to the chosen or matched itinerary
+   * @returns Matching result, or undefined when there is nowhere to add them
+   */
+  private async addBookings(
+    parseResult: ImportResult,
+    options: MailboxImportOptions
+  ): Promise<ImportResultWithMatching | undefined> {
+    if (options.dryRun) {
+      return undefined;
+    }
+    if (options.itineraryId) {
+      return this.importService.confirmImport(parseResult.segments, options.itineraryId);
+    }
+    if (options.userId) {
+      return this.importService.matchImportResult(parseResult, {
+        userId: options.userId,
+        ...(options.autoMatch !== undefined ? { autoMatch: options.autoMatch } : {}),
+      });
+    }
+    return undefined;
+  }
+
+  /**
+   * Load state from disk, empty when there is none yet
+   */
+  private async loadState(): Promise<Result<MailboxImportState, StorageError>> {
+    try {
+      const data = await readFile(this.statePath, 'utf-8');
+      const state = JSON.parse(data) as Partial<MailboxImportState>;
+      return ok({
+        sources: state.sources ?? {},
+        confirmationNumbers: state.confirmationNumbers ?? [],
+      });
+    } catch (error) {
+      if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+        return ok({ sources: {}, confirmationNumbers: [] });
+      }
+
+      return err(
+        createStorageError('READ_ERROR', 'Failed to load mailbox import state', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * Save state to disk
+   */
+  private async saveState(state: MailboxImportState): Promise<Result<void, StorageError>> {
+    try {
+      await mkdir(dirname(this.statePath), { recursive: true });
+      await writeFile(this.statePath, JSON.stringify(state, null, 2), 'utf-8');
+      return ok(undefined);
+    } catch (error) {
+      return err(
+        createStorageError('WRITE_ERROR', 'Failed to save mailbox import state', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+}
@@ -0,0 +1,357 @@
+/**
+ * Reschedule service - shift a whole itinerary, a day or a set of segments in time
+ * @module services/reschedule
+ */
+
+import { createDependencyError, createValidationError } from '../core/errors.js';
+import type { DependencyError, StorageError, ValidationError } from '../core/errors.js';
+import { err, ok } from '../core/result.js';
+import type { Result } from '../core/result.js';
+import type { SegmentId } from '../domain/types/branded.js';
+import { SegmentStatus } from '../domain/types/common.js';
+import type { Itinerary } from '../domain/types/itinerary.js';
+import type { Segment } from '../domain/types/segment.js';
+import { getTripStartDay } from '../domain/utils/itinerary-template.js';
+import { addLocalDays, getSegmentTimezones, toLocalDateKey } from '../utils/timezone.js';
+import { DependencyService } from './dependency.service.js';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+const DAY_MS = DAY_MINUTES * MINUTE_MS;
+
+/**
+ * Which segments a reschedule moves
+ * - itinerary: every segment, plus the itinerary's start and end dates
+ * - day: segments starting on a calendar day (local to where they start)
+ * - segments: an explicit selection
+ */
+export type RescheduleScope =
+  | { kind: 'itinerary' }
+  | { kind: 'day'; date: string }
+  | { kind: 'segments'; segmentIds: SegmentId[] };
+
+/**
+ * How far a reschedule moves the selected segments
+ * - offset: by a duration in minutes (negative = earlier)
+ * - startDate: so the selection starts on a calendar day (YYYY-MM-DD)
+ */
+export type RescheduleShift =
+  | { kind: 'offset'; minutes: number }
+  | { kind: 'startDate'; date: string };
+
+/**
+ * Reschedule request
+ */
+export interface RescheduleRequest {
+  scope: RescheduleScope;
+  shift: RescheduleShift;
+  /** Also move segments that depend on the selection (default: true) */
+  cascade?: boolean;
+  /** Compute the result without saving it */
+  dryRun?: boolean;
+}
+
+/**
+ * A segment moved by a reschedule
+ */
+export interface RescheduledSegment {
+  segmentId: SegmentId;
+  type: Segment['type'];
+  status: Segment['status'];
+  confirmationNumber?: string;
+  previousStart: Date;
+  previousEnd: Date;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Outcome of a reschedule
+ */
+export interface RescheduleResult {
+  /** Rescheduled itinerary */
+  itinerary: Itinerary;
+  /** Segments that moved */
+  moved: RescheduledSegment[];
+  /** Moved segments with confirmed bookings that must be changed with the provider */
+  needsRebooking: RescheduledSegment[];
+  /** Whole days and remaining minutes the segments moved by */
+  shift: { days: number; minutes: number };
+  dryRun: boolean;
+}
+
+export type RescheduleError = StorageError | ValidationError | DependencyError;
+
+/**
+ * Midnight UTC of a YYYY-MM-DD day key
+ */
+function parseDayKey(key: string): number {
+  return Date.parse(`${key}T00:00:00Z`);
+}
+
+/**
+ * Midnight UTC of the day a date falls on
+ */
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Service for moving itineraries and segments in time
+ *
+ * Whole days are applied in each segment's own timezone, so a 9:00 departure
+ * stays at 9:00 local time even when a daylight saving change falls in
+ * between; any remaining hours and minutes are applied as elapsed time.
+ */
+export class RescheduleService {
+  constructor(private readonly dependencyService: DependencyService = new DependencyService()) {}
+
+  /**
+   * Compute a reschedule (the itinerary is not saved; see ItineraryService.reschedule)
+   * @param itinerary - Itinerary to reschedule
+   * @param request - Scope, shift and options
+   * @returns Result with the rescheduled copy of the itinerary and a report of moved segments
+   */
+  plan(
+    itinerary: Itinerary,
+    request: RescheduleRequest
+  ): Result<RescheduleResult, ValidationError | DependencyError> {
+    const selectedResult = this.selectSegments(itinerary, request.scope);
+    if (!selectedResult.success) {
+      return selectedResult;
+    }
+
+    const selected = selectedResult.value;
+    const movedIds = new Set(
+      request.cascade === false || request.scope.kind === 'itinerary'
+        ? selected.map((segment) => segment.id)
+        : this.dependencyService.findCascade(
+            itinerary.segments,
+            selected.map((segment) => segment.id)
+          )
+    );
+
+    const shiftResult = this.resolveShift(itinerary, request, selected);
+    if (!shiftResult.success) {
+      return shiftResult;
+    }
+
+    const { days, minutes } = shiftResult.value;
+    const moved: RescheduledSegment[] = [];
+    const segments = itinerary.segments.map((segment) => {
+      if (!movedIds.has(segment.id) || (days === 0 && minutes === 0)) {
+        return segment;
+      }
+
+      const shifted = this.shiftSegment(segment, days, minutes);
+      moved.push({
+        segmentId: segment.id,
+        type: segment.type,
+        status: segment.status,
+        ...(segment.confirmationNumber ? { confirmationNumber: segment.confirmationNumber } : {}),
+        previousStart: segment.startDatetime,
+        previousEnd: segment.endDatetime,
+        start: shifted.startDatetime,
+        end: shifted.endDatetime,
+      });
+      return shifted;
+    });
+
+    const conflictResult = this.validateMovedSegments(segments, movedIds);
+    if (!conflictResult.success) {
+      return conflictResult;
+    }
+
+    return ok({
+      itinerary: {
+        ...itinerary,
+        ...this.shiftTripDates(itinerary, segments, request.scope.kind === 'itinerary' ? days : 0),
+        segments,
+      },
+      moved,
+      needsRebooking: moved.filter((segment) => segment.status === SegmentStatus.CONFIRMED),
+      shift: { days, minutes },
+      dryRun: request.dryRun ?? false,
+    });
+  }
+
+  /**
+   * Resolve the scope of a request to the segments it names
+   */
+  private selectSegments(
+    itinerary: Itinerary,
+    scope: RescheduleScope
+  ): Result<Segment[], ValidationError> {
+    switch (scope.kind) {
+      case 'itinerary':
+        return ok(itinerary.segments);
+
+      case 'day': {
+        const selected = itinerary.segments.filter(
+          (segment) =>
+            toLocalDateKey(segment.startDatetime, getSegmentTimezones(segment).start) === scope.date
+        );
+        if (selected.length === 0) {
+          return err(
+            createValidationError(
+              'CONSTRAINT_VIOLATION',
+              `No segments start on ${scope.date}`,
+              'day'
+            )
+          );
+        }
+        return ok(selected);
+      }
+
+      case 'segments': {
+        const missing = scope.segmentIds.filter(
+          (id) => !itinerary.segments.some((segment) => segment.id === id)
+        );
+        if (missing.length > 0) {
+          return err(
+            createValidationError(
+              'INVALID_DATA',
+              `Segment(s) not found: ${missing.join(', ')}`,
+              'segmentIds'
+            )
+          );
+        }
+        return ok(itinerary.segments.filter((segment) => scope.segmentIds.includes(segment.id)));
+      }
+    }
+  }
+
+  /**
+   * Split the requested shift into whole days and remaining minutes
+   * A new start date is measured from the first day of the selection.
+   */
+  private resolveShift(
+    itinerary: Itinerary,
+    request: RescheduleRequest,
+    selected: Segment[]
+  ): Result<{ days: number; minutes: number }, ValidationError> {
+    const { shift, scope } = request;
+
+    if (shift.kind === 'offset') {
+      const days = Math.trunc(shift.minutes / DAY_MINUTES);
+      return ok({ days, minutes: shift.minutes - days * DAY_MINUTES });
+    }
+
+    const target = parseDayKey(shift.date);
+    let firstDay: number | undefined;
+    if (scope.kind === 'itinerary') {
+      firstDay = getTripStartDay(itinerary)?.getTime();
+    } else if (scope.kind === 'day') {
+      firstDay = parseDayKey(scope.date);
+    } else {
+      const keys = selected.map((segment) =>
+        toLocalDateKey(segment.startDatetime, getSegmentTimezones(segment).start)
+      );
+      firstDay = keys.length > 0 ? parseDayKey(keys.sort()[0] ?? '') : undefined;
+    }
+
+    if (Number.isNaN(target) || firstDay === undefined || Number.isNaN(firstDay)) {
+      return err(
+        createValidationError(
+          'CONSTRAINT_VIOLATION',
+          'Cannot move an itinerary without dates to a new start date',
+          'toStartDate'
+        )
+      );
+    }
+
+    return ok({ days: Math.round((target - firstDay) / DAY_MS), minutes: 0 });
+  }
+
+  /**
+   * Move one segment, keeping local times for the whole-day part of the shift
+   */
+  private shiftSegment(segment: Segment, days: number, minutes: number): Segment {
+    const zones = getSegmentTimezones(segment);
+    const move = (date: Date, zone: string | undefined): Date =>
+      new Date(addLocalDays(date, days, zone).getTime() + minutes * MINUTE_MS);
+
+    const shifted = {
+      ...segment,
+      startDatetime: move(segment.startDatetime, zones.start),
+      endDatetime: move(segment.endDatetime, zones.end),
+    };
+
+    if (shifted.type === 'HOTEL') {
+      // Check-in/check-out are calendar days; they follow the stay's local dates
+      return {
+        ...shifted,
+        checkInDate: new Date(parseDayKey(toLocalDateKey(shifted.startDatetime, zones.start))),
+        checkOutDate: new Date(parseDayKey(toLocalDateKey(shifted.endDatetime, zones.end))),
+      };
+    }
+
+    return shifted;
+  }
+
+  /**
+   * Reject shifts that make a moved segment collide with another one
+   * Conflicts already present between unmoved segments are left alone.
+   */
+  private validateMovedSegments(
+    segments: Segment[],
+    movedIds: Set<SegmentId>
+  ): Result<void, DependencyError> {
+    const conflicts: string[] = [];
+
+    for (let i = 0; i < segments.length; i++) {
+      for (let j = i + 1; j < segments.length; j++) {
+        const a = segments[i];
+        const b = segments[j];
+        if (!a || !b || (!movedIds.has(a.id) && !movedIds.has(b.id))) {
+          continue;
+        }
+        if (this.dependencyService.wouldOverlap(a, b)) {
+          conflicts.push(`${a.id} overlaps with ${b.id}`);
+        }
+      }
+    }
+
+    if (conflicts.length > 0) {
+      return err(
+        createDependencyError(
+          'ADJUSTMENT_FAILED',
+          `Segment conflicts detected: ${conflicts.join(', ')}`,
+          conflicts
+        )
+      );
+    }
+
+    return ok(undefined);
+  }
+
+  /**
+   * Move the itinerary's start/end dates and widen them to cover every segment
+   * @param days - Whole days to move the dates by (0 when only part of the trip moves)
+   */
+  private shiftTripDates(
+    itinerary: Itinerary,
+    segments: Segment[],
+    days: number
+  ): Pick<Itinerary, 'startDate' | 'endDate'> {
+    const move = (date: Date | undefined): Date | undefined =>
+      date ? new Date(date.getTime() + days * DAY_MS) : undefined;
+
+    let startDate = move(itinerary.startDate);
+    let endDate = move(itinerary.endDate);
+
+    for (const segment of segments) {
+      if (segment.status === SegmentStatus.CANCELLED) continue;
+
+      const startDay = startOfUtcDay(segment.startDatetime);
+      const endDay = startOfUtcDay(segment.endDatetime);
+      if (startDate && startDay < startDate) startDate = startDay;
+      if (endDate && endDay > endDate) endDate = endDay;
+    }
+
+    return {
+      ...(startDate ? { startDate } : {}),
+      ...(endDate ? { endDate } : {}),
+    };
+  }
+}
@@ -7,6 +7,10 @@
  * BEFORE validation, rather than rejecting reasonable variations.
  */
 
+import type { Segment } from '../domain/types/segment.js';
+import { findAirportForLocation, getAirport } from '../utils/airports.js';
+import { getSegmentTimezones, wallClockToInstant, withInferredTimezone } from '../utils/timezone.js';
+
 /**
  * Transfer type normalization map
  * Maps common LLM variations to valid TransferType enum values
@@ -54,6 +58,7 @@ const TRANSFER_TYPE_MAPPINGS: Record<string, string> = {
 
 /**
  * Normalize airport/station codes
+ * - Convert known ICAO airport codes to IATA (e.g., KJFK → JFK)
  * - Truncate codes > 3 chars to first 3
  * - Pad codes < 3 chars with X
  * - Make codes uppercase
@@ -67,6 +72,15 @@ function normalizeLocationCode(code: string | undefined): string | undefined {
   // If empty after trim, return undefined
   if (trimmed.length === 0) return undefined;
 
+  // Known ICAO airport code
+  if (trimmed.length === 4) {
+    const airport = getAirport(trimmed);
+    if (airport) {
+      console.log(`[Normalizer] Converted ICAO code "${code}" to IATA "${airport.iata}"`);
+      return airport.iata;
+    }
+  }
+
   // Truncate if too long
   if (trimmed.length > 3) {
     console.warn(`[Normalizer] Truncating location code "${code}" to "${trimmed.slice(0, 3)}"`);
@@ -107,9 +121,10 @@ function normalizeTransferType(type: string | undefined): string {
 
 /**
  * Normalize datetime values
- * Handles ISO strings with or without timezone, date-only strings
+ * Handles ISO strings with or without timezone, date-only strings.
+ * Wall-clock datetimes are interpreted in `timeZone` when it is known.
  */
-function normalizeDatetime(value: unknown): Date | string {
+function normalizeDatetime(value: unknown, timeZone?: string): Date | string {
   if (value instanceof Date) {
     return value;
   }
@@ -122,6 +137,16 @@ function normalizeDatetime(value: unknown): Date | string {
       return normalized;
     }
 
+    // Handle wall-clock datetimes at a location with a known timezone
+    if (timeZone && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/.test(value)) {
+      const instant = wallClockToInstant(value, timeZone);
+      if (instant) {
+        const normalized = instant.toISOString();
+        console.log(`[Normalizer] Local datetime "${value}" (${timeZone}) → "${normalized}"`);
+        return normalized;
+      }
+    }
+
     // Handle datetime strings without timezone by appending Z
     if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}$/.test(value)) {
       const normalized = `${value}Z`;
@@ -139,16 +164,42 @@ function normalizeDatetime(value: unknown): Date | string {
 
 /**
  * Normalize a location object
+ * Airports found in the reference dataset get their coordinates, timezone
+ * and country filled in when missing.
+ * @param location - Raw location
+ * @param assumeAirport - True for flight origins and destinations
  */
-function normalizeLocation(location: any): any {
+function normalizeLocation(location: any, assumeAirport = false): any {
   if (!location || typeof location !== 'object') {
     return location;
   }
 
-  return {
+  const normalized = {
     ...location,
     code: normalizeLocationCode(location.code),
   };
+
+  const airport = findAirportForLocation(normalized, assumeAirport);
+  if (airport) {
+    normalized.coordinates ??= { ...airport.coordinates };
+    normalized.timezone ??= airport.timezone;
+    if (!normalized.address?.country) {
+      normalized.address = {
+        ...normalized.address,
+        city: normalized.address?.city ?? airport.city,
+        country: airport.country,
+      };
+    }
+  }
+
+  return withInferredTimezone(normalized);
+}
+
+/**
+ * Check if a raw datetime value is a wall-clock time without offset
+ */
+function isFloatingDatetime(value: unknown): boolean {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/.test(value);
 }
 
 /**
@@ -159,42 +210,17 @@ function normalizeSegment(segment: any): any {
     return segment;
   }
 
-  const normalized: any = {
-    ...segment,
-    startDatetime: normalizeDatetime(segment.startDatetime),
-    endDatetime: normalizeDatetime(segment.endDatetime),
-  };
-
-  // Fix datetime validation issues: endDatetime must be after startDatetime
-  // This happens when LLMs create segments with invalid time ranges
-  const startDate = new Date(normalized.startDatetime);
-  const endDate = normalized.endDatetime ? new Date(normalized.endDatetime) : null;
-
-  // If endDatetime is missing or invalid, set it to startDatetime + 30 minutes
-  if (!endDate || isNaN(endDate.getTime())) {
-    const fixedEnd = new Date(startDate.getTime() + 30 * 60 * 1000);
-    normalized.endDatetime = fixedEnd.toISOString();
-    console.warn(
-      `[Normalizer] Segment ${segment.id}: endDatetime missing/invalid, set to startDatetime + 30min`
-    );
-  }
-  // If endDatetime <= startDatetime, set it to startDatetime + 30 minutes
-  else if (endDate <= startDate) {
-    const fixedEnd = new Date(startDate.getTime() + 30 * 60 * 1000);
-    normalized.endDatetime = fixedEnd.toISOString();
-    console.warn(
-      `[Normalizer] Segment ${segment.id}: endDatetime (${segment.endDatetime}) <= startDatetime (${segment.startDatetime}), fixed to +30min`
-    );
-  }
+  const normalized: any = { ...segment };
 
-  // Normalize segment-type-specific fields
+  // Normalize segment-type-specific fields (locations first, so their timezones are known)
   switch (segment.type) {
     case 'FLIGHT':
+    case 'RAIL':
       if (segment.origin) {
-        normalized.origin = normalizeLocation(segment.origin);
+        normalized.origin = normalizeLocation(segment.origin, segment.type === 'FLIGHT');
       }
       if (segment.destination) {
-        normalized.destination = normalizeLocation(segment.destination);
+        normalized.destination = normalizeLocation(segment.destination, segment.type === 'FLIGHT');
       }
       break;
 
@@ -210,18 +236,22 @@ function normalizeSegment(segment: any): any {
       }
       break;
 
-    case 'HOTEL':
-      if (segment.checkInDate) {
-        normalized.checkInDate = normalizeDatetime(segment.checkInDate);
+    case 'CAR_RENTAL':
+      if (segment.pickupLocation) {
+        normalized.pickupLocation = normalizeLocation(segment.pickupLocation);
       }
-      if (segment.checkOutDate) {
-        normalized.checkOutDate = normalizeDatetime(segment.checkOutDate);
+      if (segment.returnLocation) {
+        normalized.returnLocation = normalizeLocation(segment.returnLocation);
       }
+      break;
+
+    case 'HOTEL':
       if (segment.location) {
         normalized.location = normalizeLocation(segment.location);
       }
       break;
 
+    case 'CUSTOM':
     case 'MEETING':
     case 'ACTIVITY':
       if (segment.location) {
@@ -230,6 +260,65 @@ function normalizeSegment(segment: any): any {
       break;
   }
 
+  // Departure times are local to the start location, arrival times to the end location
+  const zones = getSegmentTimezones(normalized as Segment);
+  normalized.startDatetime = normalizeDatetime(segment.startDatetime, zones.start);
+  normalized.endDatetime = normalizeDatetime(segment.endDatetime, zones.end);
+
+  if (segment.type === 'HOTEL') {
+    if (segment.checkInDate) {
+      normalized.checkInDate = normalizeDatetime(segment.checkInDate, zones.start);
+    }
+    if (segment.checkOutDate) {
+      normalized.checkOutDate = normalizeDatetime(segment.checkOutDate, zones.end);
+    }
+  }
+
+  // Wall-clock times at an unknown timezone were stored as UTC; flag them so
+  // they can be re-anchored once geocoding finds the zone
+  if (
+    (!zones.start && isFloatingDatetime(segment.startDatetime)) ||
+    (!zones.end && isFloatingDatetime(segment.endDatetime))
+  ) {
+    normalized.metadata = { ...segment.metadata, floatingTimes: true };
+  }
+
+  // Fix datetime validation issues: endDatetime must be after startDatetime
+  // This happens when LLMs create segments with invalid time ranges
+  const startDate = new Date(normalized.startDatetime);
+  const endDate = normalized.endDatetime ? new Date(normalized.endDatetime) : null;
+
+  // If endDatetime is missing or invalid, set it to startDatetime + 30 minutes
+  if (!endDate || isNaN(endDate.getTime())) {
+    const fixedEnd = new Date(startDate.getTime() + 30 * 60 * 1000);
+    normalized.endDatetime = fixedEnd.toISOString();
+    console.warn(
+      `[Normalizer] Segment ${segment.id}: endDatetime missing/invalid, set to startDatetime + 30min`
+    );
+  }
+  // If endDatetime <= startDatetime, set it to startDatetime + 30 minutes
+  else if (endDate <= startDate) {
+    const fixedEnd = new Date(startDate.getTime() + 30 * 60 * 1000);
+    normalized.endDatetime = fixedEnd.toISOString();
+    console.warn(
+      `[Normalizer] Segment ${segment.id}: endDatetime (${segment.endDatetime}) <= startDatetime (${segment.startDatetime}), fixed to +30min`
+    );
+  }
+
+  // Derive flight/rail duration from the (zone-corrected) instants
+  if (
+    (segment.type === 'FLIGHT' || segment.type === 'RAIL') &&
+    segment.durationMinutes === undefined
+  ) {
+    const minutes = Math.round(
+      (new Date(normalized.endDatetime).getTime() - new Date(normalized.startDatetime).getTime()) /
+        (60 * 1000)
+    );
+    if (minutes > 0) {
+      normalized.durationMinutes = minutes;
+    }
+  }
+
   // Handle null values for optional string fields - convert to undefined (remove)
   if (normalized.notes === null) {
     delete normalized.notes;
@@ -5,14 +5,20 @@
 
 import type {
   ActivitySegment,
+  CarRentalSegment,
   CustomSegment,
   FlightSegment,
   HotelSegment,
   MeetingSegment,
+  RailSegment,
   Segment,
   TransferSegment,
 } from '../domain/types/segment.js';
 import type { Location } from '../domain/types/location.js';
+import { getAirport, getCity, isAirportLocation } from '../utils/airports.js';
+import { getLocalHour, getSegmentTimezones, toLocalDateKey } from '../utils/timezone.js';
+import { FlightConnectionService } from './flight-connection.service.js';
+import type { FlightConnection } from './flight-connection.service.js';
 
 /**
  * Type of geographic gap between segments
@@ -60,6 +66,8 @@ export interface LocationGap {
  * Service for detecting geographic discontinuities between segments
  */
 export class SegmentContinuityService {
+  private readonly flightConnections = new FlightConnectionService();
+
   /**
    * Get the starting geographic location for any segment type
    * @param segment - Segment to extract start location from
@@ -73,6 +81,12 @@ export class SegmentContinuityService {
       case 'TRANSFER':
         return (segment as TransferSegment).pickupLocation;
 
+      case 'RAIL':
+        return (segment as RailSegment).origin;
+
+      case 'CAR_RENTAL':
+        return (segment as CarRentalSegment).pickupLocation;
+
       case 'HOTEL':
         return (segment as HotelSegment).location;
 
@@ -103,6 +117,13 @@ export class SegmentContinuityService {
       case 'TRANSFER':
         return (segment as TransferSegment).dropoffLocation;
 
+      case 'RAIL':
+        return (segment as RailSegment).destination;
+
+      case 'CAR_RENTAL':
+        // The car carries the traveler to the return office
+        return (segment as CarRentalSegment).returnLocation;
+
       case 'HOTEL':
         // Hotel stays end at the same location they start
         return (segment as HotelSegment).location;
@@ -129,8 +150,13 @@ export class SegmentContinuityService {
    * @returns True if segment is a transfer, flight, or other connecting segment
    */
   private isTransferSegment(segment: Segment): boolean {
-    // FLIGHT and TRANSFER segments explicitly connect two locations
-    if (segment.type === 'FLIGHT' || segment.type === 'TRANSFER') {
+    // FLIGHT, RAIL, TRANSFER and CAR_RENTAL segments explicitly connect two locations
+    if (
+      segment.type === 'FLIGHT' ||
+      segment.type === 'RAIL' ||
+      segment.type === 'TRANSFER' ||
+      segment.type === 'CAR_RENTAL'
+    ) {
       return true;
     }
 
@@ -158,14 +184,84 @@ export class SegmentContinuityService {
 
     if (segment.type === 'TRANSFER') {
       const transfer = segment as TransferSegment;
-      const pickupIsAirport = transfer.pickupLocation?.type === 'AIRPORT' || transfer.pickupLocation?.code;
-      const dropoffIsAirport = transfer.dropoffLocation?.type === 'AIRPORT' || transfer.dropoffLocation?.code;
-      return pickupIsAirport || dropoffIsAirport;
+      return isAirportLocation(transfer.pickupLocation) || isAirportLocation(transfer.dropoffLocation);
+    }
+
+    if (segment.type === 'CAR_RENTAL') {
+      const rental = segment as CarRentalSegment;
+      return isAirportLocation(rental.pickupLocation) || isAirportLocation(rental.returnLocation);
     }
 
     return false;
   }
 
+  /**
+   * Find a car rental that is in the traveler's hands for the whole window
+   * Segments that follow each other during a rental are connected by driving.
+   * @param segments - All segments being checked
+   * @param from - Start of the window (end of the earlier segment)
+   * @param to - End of the window (start of the later segment)
+   * @param exclude - Segments that cannot cover their own transition
+   * @returns Covering rental or undefined
+   */
+  private findCoveringRental(
+    segments: Segment[],
+    from: Date,
+    to: Date,
+    exclude: Segment[]
+  ): CarRentalSegment | undefined {
+    return segments.find(
+      (s): s is CarRentalSegment =>
+        s.type === 'CAR_RENTAL' &&
+        !exclude.includes(s) &&
+        new Date(s.startDatetime).getTime() <= new Date(from).getTime() &&
+        new Date(s.endDatetime).getTime() >= new Date(to).getTime()
+    );
+  }
+
+  /**
+   * Find a car rental returned between two segments
+   * @param segments - All segments being checked
+   * @param from - End of the earlier segment
+   * @param to - Start of the later segment
+   * @returns Rental returned within the window or undefined
+   */
+  private findRentalReturnedBetween(
+    segments: Segment[],
+    from: Date,
+    to: Date
+  ): CarRentalSegment | undefined {
+    return segments.find(
+      (s): s is CarRentalSegment =>
+        s.type === 'CAR_RENTAL' &&
+        new Date(s.startDatetime).getTime() < new Date(from).getTime() &&
+        new Date(s.endDatetime).getTime() >= new Date(from).getTime() &&
+        new Date(s.endDatetime).getTime() <= new Date(to).getTime()
+    );
+  }
+
+  /**
+   * Find a same-airport layover that spans the whole window
+   * Travelers stay airside between connecting legs, so nothing during the
+   * layover needs ground transport.
+   * @param connections - Connections between flight legs
+   * @param from - Start of the window (end of the earlier segment)
+   * @param to - End of the window (start of the later segment)
+   * @returns Covering connection or undefined
+   */
+  private findCoveringLayover(
+    connections: FlightConnection[],
+    from: Date,
+    to: Date
+  ): FlightConnection | undefined {
+    return connections.find(
+      (c) =>
+        c.kind === 'SAME_AIRPORT' &&
+        new Date(c.inbound.endDatetime).getTime() <= new Date(from).getTime() &&
+        new Date(c.outbound.startDatetime).getTime() >= new Date(to).getTime()
+    );
+  }
+
   /**
    * Calculate confidence score for gap-filling recommendation
    * @param gap - Gap information
@@ -234,9 +330,16 @@ export class SegmentContinuityService {
    * Overnight gaps should not create direct transfers (e.g., no taxi from dinner to next-day lunch)
    * @param segment1EndTime - End time of first segment
    * @param segment2StartTime - Start time of second segment
+   * @param segment1TimeZone - Timezone where the first segment ends
+   * @param segment2TimeZone - Timezone where the second segment starts
    * @returns True if gap is overnight (evening activity to next-day morning/afternoon activity)
    */
-  private isOvernightGap(segment1EndTime: Date, segment2StartTime: Date): boolean {
+  private isOvernightGap(
+    segment1EndTime: Date,
+    segment2StartTime: Date,
+    segment1TimeZone?: string,
+    segment2TimeZone?: string
+  ): boolean {
     // Calculate time difference in hours
     const hoursDiff = (segment2StartTime.getTime() - segment1EndTime.getTime()) / (1000 * 60 * 60);
 
@@ -246,15 +349,15 @@ export class SegmentContinuityService {
       return true;
     }
 
-    // Check calendar day boundary
-    const date1 = segment1EndTime.toDateString();
-    const date2 = segment2StartTime.toDateString();
+    // Check calendar day boundary in the travelers' local time
+    const date1 = toLocalDateKey(segment1EndTime, segment1TimeZone);
+    const date2 = toLocalDateKey(segment2StartTime, segment2TimeZone);
 
     if (date1 !== date2) {
       // Different days - check if it's a reasonable overnight scenario
       // This specifically targets evening->morning patterns
-      const endHour = segment1EndTime.getHours();
-      const startHour = segment2StartTime.getHours();
+      const endHour = getLocalHour(segment1EndTime, segment1TimeZone);
+      const startHour = getLocalHour(segment2StartTime, segment2TimeZone);
 
       // Evening activity (after 6PM) ending, morning/midday activity (before 3PM) starting
       // Examples:
@@ -281,6 +384,7 @@ export class SegmentContinuityService {
    */
   detectLocationGaps(segments: Segment[]): LocationGap[] {
     const gaps: LocationGap[] = [];
+    const connections = this.flightConnections.getConnections(segments);
 
     for (let i = 0; i < segments.length - 1; i++) {
       const currentSegment = segments[i];
@@ -301,12 +405,63 @@ export class SegmentContinuityService {
 
       // Skip overnight gaps for non-travel segments
       // (e.g., dinner to next-day lunch = no direct transfer needed)
-      if (!isHotelTransition && !isAirportTransition && this.isOvernightGap(currentSegment.endDatetime, nextSegment.startDatetime)) {
+      if (
+        !isHotelTransition &&
+        !isAirportTransition &&
+        this.isOvernightGap(
+          currentSegment.endDatetime,
+          nextSegment.startDatetime,
+          getSegmentTimezones(currentSegment).end,
+          getSegmentTimezones(nextSegment).start
+        )
+      ) {
         // Skip overnight gaps between activities - travelers are likely at hotel
         continue;
       }
 
-      const endLocation = this.getEndLocation(currentSegment);
+      // A rental segment overlaps everything the traveler does with the car;
+      // segments starting before the return are reached by driving
+      if (
+        currentSegment.type === 'CAR_RENTAL' &&
+        new Date(nextSegment.startDatetime).getTime() < new Date(currentSegment.endDatetime).getTime()
+      ) {
+        continue;
+      }
+
+      // Transitions made while a rental car is in hand need no extra transport
+      if (
+        this.findCoveringRental(segments, currentSegment.endDatetime, nextSegment.startDatetime, [
+          currentSegment,
+          nextSegment,
+        ])
+      ) {
+        continue;
+      }
+
+      // Anything done during a same-airport layover happens airside
+      if (
+        this.findCoveringLayover(
+          connections,
+          currentSegment.endDatetime,
+          nextSegment.startDatetime
+        )
+      ) {
+        continue;
+      }
+
+      // If a rental is returned between the two segments, the traveler continues
+      // from the return office rather than from the earlier segment
+      const returnedRental =
+        currentSegment.type === 'CAR_RENTAL'
+          ? undefined
+          : this.findRentalReturnedBetween(
+              segments,
+              currentSegment.endDatetime,
+              nextSegment.startDatetime
+            );
+      const effectiveBefore: Segment = returnedRental ?? currentSegment;
+
+      const endLocation = this.getEndLocation(effectiveBefore);
       const startLocation = this.getStartLocation(nextSegment);
 
       // If either location is missing, we can't determine continuity
@@ -320,8 +475,8 @@ export class SegmentContinuityService {
       if (locationsDiffer) {
         // Skip if the current segment is already a transfer that drops off at the next segment's start
         // This prevents creating consecutive transfers
-        if (this.isTransferSegment(currentSegment)) {
-          const currentSegmentEnd = this.getEndLocation(currentSegment);
+        if (this.isTransferSegment(effectiveBefore)) {
+          const currentSegmentEnd = this.getEndLocation(effectiveBefore);
 
           // If current transfer drops off at (or near) next segment's start, no gap
           if (currentSegmentEnd && this.isSameLocation(currentSegmentEnd, startLocation)) {
@@ -339,15 +494,27 @@ export class SegmentContinuityService {
           }
         }
 
-        const gapType = this.classifyGap(endLocation, startLocation);
-        const confidence = this.calculateGapConfidence(gapType, currentSegment, nextSegment);
+        // Changing airports between connecting legs is always a ground transfer
+        const airportChange = connections.find(
+          (c) =>
+            c.kind === 'CROSS_AIRPORT' &&
+            c.inbound === effectiveBefore &&
+            c.outbound === nextSegment
+        );
+
+        const gapType = airportChange
+          ? GapType.LOCAL_TRANSFER
+          : this.classifyGap(endLocation, startLocation);
+        const confidence = airportChange
+          ? 95
+          : this.calculateGapConfidence(gapType, effectiveBefore, nextSegment);
 
         // Only create gap if confidence >= 80%
         if (confidence >= 80) {
           const gap: LocationGap = {
             beforeIndex: i,
             afterIndex: i + 1,
-            beforeSegment: currentSegment,
+            beforeSegment: effectiveBefore,
             afterSegment: nextSegment,
             endLocation,
             startLocation,
@@ -673,42 +840,11 @@ export class SegmentContinuityService {
 
   /**
    * Infer country from airport or location code
-   * @param code - IATA airport code or location code
-   * @returns Inferred country code or null
+   * @param code - IATA/ICAO airport code or IATA city code
+   * @returns ISO country code or null if the code is unknown
    */
   private inferCountryFromCode(code?: string): string | null {
-    if (!code || code.length !== 3) {
-      return null;
-    }
-
-    // This is a simplified mapping - in production, use a comprehensive IATA code database
-    const codeToCountry: Record<string, string> = {
-      // USA airports
-      JFK: 'US',
-      LAX: 'US',
-      ORD: 'US',
-      ATL: 'US',
-      DFW: 'US',
-      SFO: 'US',
-      EWR: 'US',
-      PHL: 'US',
-      BOS: 'US',
-      // Italy airports
-      MXP: 'IT', // Milan Malpensa
-      LIN: 'IT', // Milan Linate
-      FCO: 'IT', // Rome Fiumicino
-      CIA: 'IT', // Rome Ciampino
-      VCE: 'IT', // Venice
-      // UK airports
-      LHR: 'GB',
-      LGW: 'GB',
-      // France airports
-      CDG: 'FR',
-      ORY: 'FR',
-      // Add more as needed
-    };
-
-    return codeToCountry[code.toUpperCase()] ?? null;
+    return getAirport(code)?.country ?? getCity(code)?.country ?? null;
   }
 
   /**
@@ -11,7 +11,7 @@ import type { ItineraryId, SegmentId } from '../domain/types/branded.js';
 import { generateSegmentId } from '../domain/types/branded.js';
 import type { Itinerary } from '../domain/types/itinerary.js';
 import type { Segment } from '../domain/types/segment.js';
-import type { ItineraryStorage } from '../storage/storage.interface.js';
+import type { ItineraryStorage, RevisionContext } from '../storage/storage.interface.js';
 
 /**
  * Service for segment CRUD operations
@@ -23,11 +23,15 @@ export class SegmentService {
    * Add a segment to an itinerary
    * @param itineraryId - Itinerary ID
    * @param segment - Segment to add (optionally without ID)
+   * @param revision - Author and cause recorded in the revision log
+   * @param expectedVersion - Version the caller's change is based on (defaults to the version loaded here)
    * @returns Result with updated itinerary or error
    */
   async add(
     itineraryId: ItineraryId,
-    segment: Omit<Segment, 'id'> & { id?: SegmentId }
+    segment: Omit<Segment, 'id'> & { id?: SegmentId },
+    revision?: RevisionContext,
+    expectedVersion?: number
   ): Promise<Result<Itinerary, StorageError | ValidationError>> {
     // Load existing itinerary
     const loadResult = await this.storage.load(itineraryId);
@@ -101,7 +105,11 @@ export class SegmentService {
     };
 
     // Save updated itinerary
-    return this.storage.save(updated);
+    return this.storage.save(
+      updated,
+      { author: 'user', cause: 'Segment added', ...revision },
+      expectedVersion ?? existing.version
+    );
   }
 
   /**
@@ -109,12 +117,16 @@ export class SegmentService {
    * @param itineraryId - Itinerary ID
    * @param segmentId - Segment ID to update
    * @param updates - Partial segment updates
+   * @param revision - Author and cause recorded in the revision log
+   * @param expectedVersion - Version the caller's change is based on (defaults to the version loaded here)
    * @returns Result with updated itinerary or error
    */
   async update(
     itineraryId: ItineraryId,
     segmentId: SegmentId,
-    updates: Partial<Segment>
+    updates: Partial<Segment>,
+    revision?: RevisionContext,
+    expectedVersion?: number
   ): Promise<Result<Itinerary, StorageError | ValidationError>> {
     // Load existing itinerary
     const loadResult = await this.storage.load(itineraryId);
@@ -184,18 +196,26 @@ export class SegmentService {
     };
 
     // Save updated itinerary
-    return this.storage.save(updated);
+    return this.storage.save(
+      updated,
+      { author: 'user', cause: 'Segment updated', ...revision },
+      expectedVersion ?? existing.version
+    );
   }
 
   /**
    * Delete a segment
    * @param itineraryId - Itinerary ID
    * @param segmentId - Segment ID to delete
+   * @param revision - Author and cause recorded in the revision log
+   * @param expectedVersion - Version the caller's change is based on (defaults to the version loaded here)
    * @returns Result with updated itinerary or storage error
    */
   async delete(
     itineraryId: ItineraryId,
-    segmentId: SegmentId
+    segmentId: SegmentId,
+    revision?: RevisionContext,
+    expectedVersion?: number
   ): Promise<Result<Itinerary, StorageError>> {
     // Load existing itinerary
     const loadResult = await this.storage.load(itineraryId);
@@ -236,7 +256,11 @@ export class SegmentService {
     };
 
     // Save updated itinerary
-    return this.storage.save(updated);
+    return this.storage.save(
+      updated,
+      { author: 'user', cause: 'Segment deleted', ...revision },
+      expectedVersion ?? existing.version
+    );
   }
 
   /**
@@ -274,11 +298,15 @@ export class SegmentService {
    * Reorder segments (update sort order)
    * @param itineraryId - Itinerary ID
    * @param segmentIds - Array of segment IDs in desired order
+   * @param revision - Author and cause recorded in the revision log
+   * @param expectedVersion - Version the caller's change is based on (defaults to the version loaded here)
    * @returns Result with updated itinerary or storage error
    */
   async reorder(
     itineraryId: ItineraryId,
-    segmentIds: SegmentId[]
+    segmentIds: SegmentId[],
+    revision?: RevisionContext,
+    expectedVersion?: number
   ): Promise<Result<Itinerary, StorageError>> {
     // Load existing itinerary
     const loadResult = await this.storage.load(itineraryId);
@@ -326,7 +354,11 @@ export class SegmentService {
     };
 
     // Save updated itinerary
-    return this.storage.save(updated);
+    return this.storage.save(
+      updated,
+      { author: 'user', cause: 'Segments reordered', ...revision },
+      expectedVersion ?? existing.version
+    );
   }
 
   /**
@@ -417,6 +449,34 @@ export class SegmentService {
         return sameType && samePickup && sameDropoff && sameDate;
       }
 
+      case 'RAIL': {
+        if (existing.type !== 'RAIL') return false;
+        // For rail: same train number and same departure date
+        const sameNumber =
+          this.normalizeString(existing.trainNumber) === this.normalizeString(newSeg.trainNumber);
+        const sameDate = this.isSameDate(existing.startDatetime, newSeg.startDatetime);
+        return sameNumber && sameDate;
+      }
+
+      case 'CAR_RENTAL': {
+        if (existing.type !== 'CAR_RENTAL') return false;
+        // For car rentals: same confirmation number, or same company, pickup office and pickup date
+        if (existing.confirmationNumber && newSeg.confirmationNumber) {
+          return (
+            this.normalizeString(existing.confirmationNumber) ===
+            this.normalizeString(newSeg.confirmationNumber)
+          );
+        }
+        const sameCompany =
+          this.normalizeString(existing.rentalCompany?.name) ===
+          this.normalizeString(newSeg.rentalCompany?.name);
+        const samePickup =
+          this.normalizeString(existing.pickupLocation?.name) ===
+          this.normalizeString(newSeg.pickupLocation?.name);
+        const sameDate = this.isSameDate(existing.startDatetime, newSeg.startDatetime);
+        return sameCompany && samePickup && sameDate;
+      }
+
       case 'CUSTOM': {
         if (existing.type !== 'CUSTOM') return false;
         // For custom segments: same title and same start time
@@ -461,6 +521,14 @@ export class SegmentService {
         return `Duplicate detected: A ${newSeg.transferType.toLowerCase()} transfer is already scheduled for ${dateStr}. Would you like to update it instead?`;
       }
 
+      case 'RAIL': {
+        return `Duplicate detected: Train ${newSeg.trainNumber} is already on your itinerary for ${dateStr}. Would you like to update it instead?`;
+      }
+
+      case 'CAR_RENTAL': {
+        return `Duplicate detected: A ${newSeg.rentalCompany?.name} rental is already booked for ${dateStr}. Would you like to update it instead?`;
+      }
+
       case 'CUSTOM': {
         return `Duplicate detected: "${newSeg.title}" is already on your itinerary for ${dateStr}. Would you like to update it instead?`;
       }
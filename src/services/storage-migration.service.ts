@@ -0,0 +1,227 @@
+/**
+ * Storage migration service - copies itineraries between storage backends
+ * @module services/storage-migration
+ */
+
+import type { StorageError } from '../core/errors.js';
+import { err, ok } from '../core/result.js';
+import type { Result } from '../core/result.js';
+import type { ItineraryId } from '../domain/types/branded.js';
+import type { ItineraryStorage, StoredRevision } from '../storage/storage.interface.js';
+
+/**
+ * What happened to a single itinerary during a migration
+ */
+export type MigrationOutcome = 'copied' | 'skipped' | 'failed';
+
+/**
+ * Options for a storage migration
+ */
+export interface StorageMigrationOptions {
+  /** Replace itineraries that already exist in the target (default: skip them) */
+  overwrite?: boolean;
+  /** Read everything from the source but write nothing to the target */
+  dryRun?: boolean;
+  /** Called after each itinerary is processed */
+  onProgress?: (progress: MigrationProgress) => void;
+}
+
+/**
+ * Progress of a running migration
+ */
+export interface MigrationProgress {
+  /** Itinerary that was just processed */
+  itineraryId: ItineraryId;
+  /** Itinerary title */
+  title: string;
+  /** What happened to the itinerary */
+  outcome: MigrationOutcome;
+  /** Number of itineraries processed so far */
+  processed: number;
+  /** Total number of itineraries in the source */
+  total: number;
+}
+
+/**
+ * An itinerary that could not be copied
+ */
+export interface MigrationFailure {
+  /** Itinerary ID */
+  itineraryId: ItineraryId;
+  /** Why the copy failed */
+  error: string;
+}
+
+/**
+ * A listed revision whose snapshot could not be read; the itinerary is
+ * copied without it
+ */
+export interface MissingRevision {
+  /** Itinerary ID */
+  itineraryId: ItineraryId;
+  /** Revision number */
+  revision: number;
+  /** Why the snapshot could not be read */
+  error: string;
+}
+
+/**
+ * Result of a storage migration
+ */
+export interface StorageMigrationReport {
+  /** Number of itineraries in the source */
+  total: number;
+  /** Itineraries written to the target (or that would be, in a dry run) */
+  copied: ItineraryId[];
+  /** Itineraries left alone because they already exist in the target */
+  skipped: ItineraryId[];
+  /** Itineraries that could not be read or written */
+  failed: MigrationFailure[];
+  /** Number of revision log entries copied along with the itineraries */
+  revisions: number;
+  /** Revisions left out because their snapshots could not be read */
+  missingRevisions: MissingRevision[];
+  /** Whether this was a dry run */
+  dryRun: boolean;
+}
+
+/**
+ * Copies itineraries, with their revision history, from one storage backend to another
+ * Timestamps and revision numbers are preserved, so the target reads back exactly
+ * what the source held.
+ */
+export class StorageMigrationService {
+  /**
+   * Creates a new migration between two backends
+   * @param source - Storage to read from
+   * @param target - Storage to write to
+   */
+  constructor(
+    private readonly source: ItineraryStorage,
+    private readonly target: ItineraryStorage
+  ) {}
+
+  /**
+   * Copy every itinerary from the source to the target
+   * A failure on one itinerary is recorded in the report and does not stop the migration
+   * @param options - Migration options
+   * @returns Migration report, or an error if either storage could not be opened or listed
+   */
+  async migrate(
+    options: StorageMigrationOptions = {}
+  ): Promise<Result<StorageMigrationReport, StorageError>> {
+    const dryRun = options.dryRun ?? false;
+
+    const sourceInit = await this.source.initialize();
+    if (!sourceInit.success) {
+      return sourceInit;
+    }
+    if (!dryRun) {
+      const targetInit = await this.target.initialize();
+      if (!targetInit.success) {
+        return targetInit;
+      }
+    }
+
+    const listResult = await this.source.list();
+    if (!listResult.success) {
+      return err(listResult.error);
+    }
+
+    const summaries = listResult.value;
+    const report: StorageMigrationReport = {
+      total: summaries.length,
+      copied: [],
+      skipped: [],
+      failed: [],
+      revisions: 0,
+      missingRevisions: [],
+      dryRun,
+    };
+
+    for (const [index, summary] of summaries.entries()) {
+      const outcome = await this.copyItinerary(summary.id, report, options);
+
+      options.onProgress?.({
+        itineraryId: summary.id,
+        title: summary.title,
+        outcome,
+        processed: index + 1,
+        total: summaries.length,
+      });
+    }
+
+    return ok(report);
+  }
+
+  /**
+   * Copy a single itinerary and record the outcome in the report
+   */
+  private async copyItinerary(
+    id: ItineraryId,
+    report: StorageMigrationReport,
+    options: StorageMigrationOptions
+  ): Promise<MigrationOutcome> {
+    if (!options.overwrite && (await this.target.exists(id))) {
+      report.skipped.push(id);
+      return 'skipped';
+    }
+
+    const itineraryResult = await this.source.load(id);
+    if (!itineraryResult.success) {
+      report.failed.push({ itineraryId: id, error: itineraryResult.error.message });
+      return 'failed';
+    }
+
+    const historyResult = await this.readHistory(id, report);
+    if (!historyResult.success) {
+      report.failed.push({ itineraryId: id, error: historyResult.error.message });
+      return 'failed';
+    }
+
+    if (!options.dryRun) {
+      const importResult = await this.target.importItinerary(
+        itineraryResult.value,
+        historyResult.value
+      );
+      if (!importResult.success) {
+        report.failed.push({ itineraryId: id, error: importResult.error.message });
+        return 'failed';
+      }
+    }
+
+    report.copied.push(id);
+    report.revisions += historyResult.value.length;
+    return 'copied';
+  }
+
+  /**
+   * Read the revision history of an itinerary from the source
+   * Revisions whose snapshots cannot be read are left out and recorded in the report
+   */
+  private async readHistory(
+    id: ItineraryId,
+    report: StorageMigrationReport
+  ): Promise<Result<StoredRevision[], StorageError>> {
+    const revisionsResult = await this.source.listRevisions(id);
+    if (!revisionsResult.success) {
+      return revisionsResult;
+    }
+
+    const history: StoredRevision[] = [];
+    for (const entry of revisionsResult.value) {
+      const snapshotResult = await this.source.loadRevision(id, entry.revision);
+      if (!snapshotResult.success) {
+        report.missingRevisions.push({
+          itineraryId: id,
+          revision: entry.revision,
+          error: snapshotResult.error.message,
+        });
+        continue;
+      }
+      history.push({ entry, snapshot: snapshotResult.value });
+    }
+
+    return ok(history);
+  }
+}
@@ -249,7 +249,11 @@ export class TravelAgentFacade {
     // Fill gaps intelligently
     const suggestions = [];
     for (const gap of gaps) {
-      const result = await this.travelAgentService.fillGapIntelligently(gap, itinerary.segments);
+      const result = await this.travelAgentService.fillGapIntelligently(
+        gap,
+        itinerary.segments,
+        itinerary
+      );
 
       if (result.found && result.segment) {
         suggestions.push({
@@ -280,7 +284,11 @@ export class TravelAgentFacade {
           // Re-fetch gap to get full segment
           const gap = gaps[i];
           if (gap) {
-            const result = await this.travelAgentService.fillGapIntelligently(gap, itinerary.segments);
+            const result = await this.travelAgentService.fillGapIntelligently(
+        gap,
+        itinerary.segments,
+        itinerary
+      );
             if (result.found && result.segment) {
               updatedSegments.splice(suggestion.gapIndex + 1, 0, result.segment);
             }
@@ -289,9 +297,11 @@ export class TravelAgentFacade {
       }
 
       // Update the itinerary
-      const updateResult = await this.itineraryService.updateItinerary(itineraryId, {
-        segments: updatedSegments,
-      });
+      const updateResult = await this.itineraryService.updateItinerary(
+        itineraryId,
+        { segments: updatedSegments },
+        { author: 'agent', cause: 'Travel agent gap filling' }
+      );
 
       applied = updateResult.success;
     }
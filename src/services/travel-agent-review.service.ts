@@ -7,6 +7,8 @@ import type { Segment, FlightSegment, TransferSegment } from '../domain/types/se
 import type { Itinerary } from '../domain/types/itinerary.js';
 import { SegmentType } from '../domain/types/common.js';
 import { generateSegmentId } from '../domain/types/branded.js';
+import { FlightConnectionService } from './flight-connection.service.js';
+import type { FlightConnection } from './flight-connection.service.js';
 
 /**
  * Type of semantic issue detected
@@ -18,6 +20,8 @@ export enum SemanticIssueType {
   OVERLAPPING_TIMES = 'OVERLAPPING_TIMES',
   /** Impossible sequence (e.g., activity before flight arrival) */
   IMPOSSIBLE_SEQUENCE = 'IMPOSSIBLE_SEQUENCE',
+  /** Layover between connecting flights is shorter than the minimum connection time */
+  INSUFFICIENT_CONNECTION_TIME = 'INSUFFICIENT_CONNECTION_TIME',
 }
 
 /**
@@ -57,6 +61,16 @@ export interface SemanticReviewResult {
  * Service for semantic review of itineraries using higher-level reasoning
  */
 export class TravelAgentReviewService {
+  private readonly flightConnections: FlightConnectionService;
+
+  /**
+   * Creates a new travel agent review service
+   * @param flightConnections - Service used to recognize connecting flights
+   */
+  constructor(flightConnections: FlightConnectionService = new FlightConnectionService()) {
+    this.flightConnections = flightConnections;
+  }
+
   /**
    * Review an itinerary for semantic issues
    * @param itinerary - Itinerary to review
@@ -70,15 +84,21 @@ export class TravelAgentReviewService {
       (a, b) => a.startDatetime.getTime() - b.startDatetime.getTime()
     );
 
+    // Legs booked as one journey connect without leaving the airport
+    const connections = this.flightConnections.getConnections(sortedSegments);
+
     // Rule 1: Flight arrivals must have transfers to next non-airport segment
-    issues.push(...this.checkFlightArrivals(sortedSegments));
+    issues.push(...this.checkFlightArrivals(sortedSegments, connections));
 
     // Rule 2: Flight departures must have transfers from previous non-airport segment
-    issues.push(...this.checkFlightDepartures(sortedSegments));
+    issues.push(...this.checkFlightDepartures(sortedSegments, connections));
 
     // Rule 3: No segment should start before previous one ends
     issues.push(...this.checkTimeOverlaps(sortedSegments));
 
+    // Rule 4: Connecting flights must respect minimum connection times
+    issues.push(...this.checkConnectionTimes(sortedSegments, connections));
+
     // Build summary
     const summary = this.buildSummary(issues);
 
@@ -132,9 +152,13 @@ export class TravelAgentReviewService {
   /**
    * Check for missing transfers after flight arrivals
    * @param segments - Sorted segments
+   * @param connections - Connections between flight legs
    * @returns Detected issues
    */
-  private checkFlightArrivals(segments: Segment[]): SemanticIssue[] {
+  private checkFlightArrivals(
+    segments: Segment[],
+    connections: FlightConnection[]
+  ): SemanticIssue[] {
     const issues: SemanticIssue[] = [];
 
     for (let i = 0; i < segments.length - 1; i++) {
@@ -148,6 +172,14 @@ export class TravelAgentReviewService {
 
       const flight = current as FlightSegment;
 
+      // An arrival that connects onward only needs a transfer between airports
+      const connection = this.flightConnections.findConnectionAfter(connections, flight.id);
+      if (connection) {
+        const issue = this.checkCrossAirportConnection(segments, i, connection);
+        if (issue) issues.push(issue);
+        continue;
+      }
+
       // Check if next segment is an airport-related transfer
       const nextIsAirportTransfer = this.isAirportTransfer(next);
 
@@ -186,9 +218,13 @@ export class TravelAgentReviewService {
   /**
    * Check for missing transfers before flight departures
    * @param segments - Sorted segments
+   * @param connections - Connections between flight legs
    * @returns Detected issues
    */
-  private checkFlightDepartures(segments: Segment[]): SemanticIssue[] {
+  private checkFlightDepartures(
+    segments: Segment[],
+    connections: FlightConnection[]
+  ): SemanticIssue[] {
     const issues: SemanticIssue[] = [];
 
     for (let i = 1; i < segments.length; i++) {
@@ -202,6 +238,9 @@ export class TravelAgentReviewService {
 
       const flight = current as FlightSegment;
 
+      // Connecting legs are reached from the inbound leg (checked on arrival)
+      if (this.flightConnections.findConnectionBefore(connections, flight.id)) continue;
+
       // Check if previous segment is an airport-related transfer
       const prevIsAirportTransfer = this.isAirportTransfer(prev);
 
@@ -265,6 +304,81 @@ export class TravelAgentReviewService {
     return issues;
   }
 
+  /**
+   * Check connecting flights against minimum connection times
+   * @param segments - Sorted segments
+   * @param connections - Connections between flight legs
+   * @returns Detected issues
+   */
+  private checkConnectionTimes(
+    segments: Segment[],
+    connections: FlightConnection[]
+  ): SemanticIssue[] {
+    const issues: SemanticIssue[] = [];
+
+    for (const connection of connections) {
+      if (connection.meetsMinimumConnectionTime) continue;
+
+      const inboundIndex = segments.indexOf(connection.inbound);
+      const outboundIndex = segments.indexOf(connection.outbound);
+      const where =
+        connection.kind === 'CROSS_AIRPORT'
+          ? `${this.airportLabel(connection.arrivalAirport)} → ${this.airportLabel(connection.departureAirport)}`
+          : this.airportLabel(connection.arrivalAirport);
+
+      issues.push({
+        type: SemanticIssueType.INSUFFICIENT_CONNECTION_TIME,
+        severity: 'HIGH',
+        description: `Connection from ${connection.inbound.flightNumber} to ${connection.outbound.flightNumber} at ${where} allows ${Math.max(connection.layoverMinutes, 0)}m, minimum connection time is ${connection.minimumConnectionMinutes}m`,
+        segmentIndices: [inboundIndex, outboundIndex],
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Check that a cross-airport connection has a transfer between the airports
+   * @param segments - Sorted segments
+   * @param inboundIndex - Index of the inbound leg
+   * @param connection - Connection leaving the inbound leg
+   * @returns Issue, or null if the connection is same-airport or already has a transfer
+   */
+  private checkCrossAirportConnection(
+    segments: Segment[],
+    inboundIndex: number,
+    connection: FlightConnection
+  ): SemanticIssue | null {
+    if (connection.kind === 'SAME_AIRPORT') return null;
+
+    const outboundIndex = segments.indexOf(connection.outbound);
+    const between = segments.slice(inboundIndex + 1, outboundIndex);
+    if (between.some((segment) => this.isAirportTransfer(segment))) return null;
+
+    const { arrivalAirport, departureAirport } = connection;
+    return {
+      type: SemanticIssueType.MISSING_AIRPORT_TRANSFER,
+      severity: 'HIGH',
+      description: `Connection from ${this.airportLabel(arrivalAirport)} to ${this.airportLabel(departureAirport)} changes airports but has no transfer`,
+      segmentIndices: [inboundIndex, outboundIndex],
+      suggestedFix: this.createAirportTransfer(
+        connection.inbound.endDatetime,
+        connection.outbound.startDatetime,
+        arrivalAirport,
+        departureAirport
+      ),
+    };
+  }
+
+  /**
+   * Format an airport for issue descriptions
+   * @param location - Airport location
+   * @returns Airport code, or name if no code is known
+   */
+  private airportLabel(location: { name: string; code?: string }): string {
+    return location.code ?? location.name;
+  }
+
   /**
    * Check if a segment is an airport transfer
    * @param segment - Segment to check
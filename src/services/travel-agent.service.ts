@@ -1,13 +1,36 @@
 /**
- * Travel Agent Service - uses SerpAPI to find real travel options
+ * Travel Agent Service - uses a travel search provider to find real travel options
  * @module services/travel-agent
  */
 
 import type { SerpApiConfig } from '../domain/types/import.js';
 import type { Segment, FlightSegment, HotelSegment, TransferSegment } from '../domain/types/segment.js';
+import type {
+  FlightOffer,
+  FlightQuery,
+  FlightQueryLeg,
+  FlightSearchResults,
+  HotelOffer,
+  HotelRecommendationCriteria,
+  HotelSearchRequest,
+  HotelStayPlace,
+  PassengerCounts,
+  RankedHotelOffer,
+} from '../domain/types/travel-search.js';
+import type { TravelSearchError } from '../core/errors.js';
+import { ok } from '../core/result.js';
+import type { Result } from '../core/result.js';
+import { formatMoney, toMajorUnits } from '../domain/types/money.js';
+import type { Money } from '../domain/types/money.js';
 import type { LocationGap } from './segment-continuity.service.js';
 import { GapType } from './segment-continuity.service.js';
-import { SegmentType, SegmentStatus, CabinClass, TransferType } from '../domain/types/common.js';
+import {
+  SegmentType,
+  SegmentStatus,
+  CabinClass,
+  TransferType,
+  TravelerType,
+} from '../domain/types/common.js';
 import { generateSegmentId } from '../domain/types/branded.js';
 import { isFlightSegment, isHotelSegment } from '../domain/types/segment.js';
 import type { AgentMode, AgentModeConfig } from '../domain/types/agent.js';
@@ -15,6 +38,15 @@ import { DEFAULT_AGENT_MODE } from '../domain/types/agent.js';
 import type { TripProfile } from '../domain/types/trip-taxonomy.js';
 import { inferTripProfile } from '../domain/types/trip-taxonomy.js';
 import type { Itinerary } from '../domain/types/itinerary.js';
+import { resolveAirport } from '../utils/airports.js';
+import { FixtureTravelSearchProvider } from './travel-search/fixture-search-provider.js';
+import { searchFlightOffers } from './travel-search/flight-search.js';
+import type { FlightRankingWeights } from './travel-search/flight-ranking.js';
+import { findLoyaltyChain } from './travel-search/hotel-chains.js';
+import { rankHotelOffers } from './travel-search/hotel-ranking.js';
+import type { HotelRankingWeights } from './travel-search/hotel-ranking.js';
+import { SerpApiTravelSearchProvider } from './travel-search/serpapi-search-provider.js';
+import type { TravelSearchProvider } from './travel-search/travel-search-provider.js';
 
 /**
  * Travel class preferences inferred from existing segments
@@ -48,68 +80,6 @@ export interface TravelSearchResult {
   error?: string;
 }
 
-/**
- * SerpAPI flight search response (simplified)
- */
-interface SerpApiFlightResponse {
-  search_metadata?: {
-    status?: string;
-  };
-  best_flights?: Array<{
-    flights: Array<{
-      departure_airport: { id: string; name: string };
-      arrival_airport: { id: string; name: string };
-      airline: string;
-      airline_logo?: string;
-      flight_number?: string;
-      departure_time: string;
-      arrival_time: string;
-      duration: number;
-      airplane?: string;
-      travel_class?: string;
-    }>;
-    price?: number;
-    type?: string;
-  }>;
-  other_flights?: Array<{
-    flights: Array<{
-      departure_airport: { id: string; name: string };
-      arrival_airport: { id: string; name: string };
-      airline: string;
-      flight_number?: string;
-      departure_time: string;
-      arrival_time: string;
-      duration: number;
-      travel_class?: string;
-    }>;
-    price?: number;
-  }>;
-  error?: string;
-}
-
-/**
- * SerpAPI hotel search response (simplified)
- */
-interface SerpApiHotelResponse {
-  search_metadata?: {
-    status?: string;
-  };
-  properties?: Array<{
-    name: string;
-    description?: string;
-    gps_coordinates?: { latitude: number; longitude: number };
-    check_in_time?: string;
-    check_out_time?: string;
-    rate_per_night?: { lowest?: string; extracted_lowest?: number };
-    overall_rating?: number;
-    reviews?: number;
-    hotel_class?: string;
-    link?: string;
-    nearby_places?: Array<{ name: string }>;
-  }>;
-  error?: string;
-}
-
 /**
  * Thinking models for advanced reasoning in travel planning
  */
@@ -124,7 +94,9 @@ const THINKING_MODELS = [
 /**
  * Travel agent configuration
  */
-export interface TravelAgentConfig extends SerpApiConfig {
+export interface TravelAgentConfig extends Partial<SerpApiConfig> {
+  /** Search provider (default: SerpAPI when apiKey is set, otherwise bundled fixtures) */
+  searchProvider?: TravelSearchProvider;
   /** Thinking model to use for advanced reasoning */
   thinkingModel?: string;
   /** Agent mode configuration */
@@ -141,16 +113,15 @@ export interface PlausibilityResult {
   confidence: number;
   /** Reason for the plausibility assessment */
   reason: string;
-  /** SerpAPI search query used (if applicable) */
+  /** Search query used (if applicable) */
   searchQuery?: string;
 }
 
 /**
- * Service for intelligently finding real travel options using SerpAPI
+ * Service for intelligently finding real travel options
  */
 export class TravelAgentService {
-  private readonly baseUrl = 'https://serpapi.com/search';
-  private readonly apiKey: string;
+  private readonly searchProvider: TravelSearchProvider;
   private mode: AgentMode;
   private thinkingModel: string;
   private modeConfig?: AgentModeConfig;
@@ -160,7 +131,11 @@ export class TravelAgentService {
    * @param config - Travel agent configuration
    */
   constructor(config: TravelAgentConfig) {
-    this.apiKey = config.apiKey;
+    this.searchProvider =
+      config.searchProvider ??
+      (config.apiKey
+        ? new SerpApiTravelSearchProvider({ apiKey: config.apiKey })
+        : new FixtureTravelSearchProvider());
     this.mode = config.modeConfig?.mode || DEFAULT_AGENT_MODE;
     this.thinkingModel = config.thinkingModel || THINKING_MODELS[0];
     this.modeConfig = config.modeConfig;
@@ -279,111 +254,191 @@ export class TravelAgentService {
   }
 
   /**
-   * Search for flights using SerpAPI Google Flights
+   * Build a flight query from an itinerary
+   * Cabin comes from the itinerary's flights, passengers from its travelers,
+   * preferred airlines from their loyalty programs and currency from the itinerary.
+   * @param itinerary - Itinerary the flights are for
+   * @param legs - Legs to search, in travel order
+   * @param overrides - Explicit query options, which win over inferred ones
+   * @returns Flight query
+   */
+  buildFlightQuery(
+    itinerary: Itinerary,
+    legs: FlightQueryLeg[],
+    overrides: Omit<FlightQuery, 'legs'> = {}
+  ): FlightQuery {
+    const preferredAirlines = [
+      ...new Set(
+        itinerary.travelers.flatMap((traveler) =>
+          traveler.loyaltyPrograms
+            .map((program) => program.carrier.trim().toUpperCase())
+            // Airline designators only; hotel and car programs use other codes
+            .filter((carrier) => /^[A-Z0-9]{2}$/.test(carrier))
+        )
+      ),
+    ];
+
+    return {
+      legs,
+      cabinClass: this.inferTravelClass(itinerary.segments),
+      passengers: this.countPassengers(itinerary),
+      ...(preferredAirlines.length > 0 ? { preferredAirlines } : {}),
+      ...(itinerary.currency ? { currency: itinerary.currency } : {}),
+      ...overrides,
+    };
+  }
+
+  /**
+   * Search a flight query and rank the offers for each leg
+   * @param query - Flight query (see buildFlightQuery)
+   * @param weights - Ranking weight overrides
+   * @returns Ranked offers per leg, or search error
+   */
+  async searchFlightOffers(
+    query: FlightQuery,
+    weights?: Partial<FlightRankingWeights>
+  ): Promise<Result<FlightSearchResults, TravelSearchError>> {
+    return searchFlightOffers(this.searchProvider, query, weights);
+  }
+
+  /**
+   * Search for flights with the travel search provider
+   * Flights depart on the day the segment before the gap ends; the best
+   * ranked offer becomes the segment and the next ones are alternatives.
    * @param gap - Geographic gap to fill
    * @param preferences - Travel preferences
+   * @param itinerary - Itinerary for passengers, preferred airlines and currency
    * @returns Search result with flight segment
    */
-  async searchFlight(gap: LocationGap, preferences: TravelPreferences): Promise<TravelSearchResult> {
-    try {
-      const { endLocation, startLocation, beforeSegment } = gap;
-
-      // Extract IATA codes or use location names
-      const departureId = endLocation?.code || this.guessIataCode(endLocation?.name);
-      const arrivalId = startLocation?.code || this.guessIataCode(startLocation?.name);
+  async searchFlight(
+    gap: LocationGap,
+    preferences: TravelPreferences,
+    itinerary?: Itinerary
+  ): Promise<TravelSearchResult> {
+    const { endLocation, startLocation, beforeSegment } = gap;
 
-      if (!departureId || !arrivalId) {
-        return {
-          found: false,
-          error: 'Could not determine airport codes for flight search',
-        };
-      }
+    // Extract IATA codes or use location names
+    const departureId = endLocation?.code || this.guessIataCode(endLocation?.name);
+    const arrivalId = startLocation?.code || this.guessIataCode(startLocation?.name);
 
-      // Format date (day after beforeSegment ends)
-      const departureDate = new Date(beforeSegment.endDatetime);
-      departureDate.setDate(departureDate.getDate() + 1);
-      const formattedDate = departureDate.toISOString().split('T')[0];
-
-      // Build search query
-      const params = new URLSearchParams({
-        engine: 'google_flights',
-        departure_id: departureId,
-        arrival_id: arrivalId,
-        outbound_date: formattedDate ?? '',
-        type: '1', // One-way
-        currency: 'USD',
-        hl: 'en',
-        api_key: this.apiKey,
-      });
+    if (!departureId || !arrivalId) {
+      return {
+        found: false,
+        error: 'Could not determine airport codes for flight search',
+      };
+    }
 
-      const url = `${this.baseUrl}?${params.toString()}`;
-      const response = await fetch(url);
+    const formattedDate = beforeSegment.endDatetime.toISOString().split('T')[0] ?? '';
+    const searchQuery = `${this.searchProvider.name} flights: ${departureId} → ${arrivalId} on ${formattedDate}`;
+    const legs = [{ origin: departureId, destination: arrivalId, date: formattedDate }];
+    const query = itinerary
+      ? this.buildFlightQuery(itinerary, legs, { cabinClass: preferences.cabinClass })
+      : { legs, cabinClass: preferences.cabinClass };
 
-      if (!response.ok) {
-        return {
-          found: false,
-          error: `SerpAPI request failed: ${response.status} ${response.statusText}`,
-        };
-      }
+    const searchResult = await this.searchFlightOffers(query);
 
-      const data = (await response.json()) as SerpApiFlightResponse;
+    if (!searchResult.success) {
+      return {
+        found: false,
+        searchQuery,
+        error: searchResult.error.message,
+      };
+    }
 
-      if (data.error) {
-        return {
-          found: false,
-          error: `SerpAPI error: ${data.error}`,
-        };
-      }
+    const [best, ...others] = searchResult.value.legs[0]?.offers ?? [];
+    if (!best) {
+      return {
+        found: false,
+        searchQuery,
+        error: 'No flights found for this route',
+      };
+    }
 
-      // Extract best flight
-      const bestFlight = data.best_flights?.[0] || data.other_flights?.[0];
-      if (!bestFlight || !bestFlight.flights?.[0]) {
-        return {
-          found: false,
-          searchQuery: url,
-          error: 'No flights found for this route',
-        };
-      }
+    // Collect alternatives
+    const alternatives = others.slice(0, 3).map(({ offer }) => ({
+      description: `${offer.airline.name} ${offer.flightNumber} - ${offer.departureTime.toISOString()} to ${offer.arrivalTime.toISOString()}`,
+      ...(offer.price ? { price: toMajorUnits(offer.price) } : {}),
+      ...(offer.bookingUrl ? { url: offer.bookingUrl } : {}),
+    }));
 
-      const flight = bestFlight.flights[0];
-      if (!flight) {
-        return {
-          found: false,
-          searchQuery: url,
-          error: 'No flight details available',
-        };
-      }
+    return {
+      found: true,
+      segment: this.createFlightSegment(best.offer, gap, itinerary),
+      searchQuery,
+      alternatives,
+    };
+  }
 
-      // Create flight segment
-      const segment = this.createFlightSegment(flight, bestFlight.price, gap);
+  /**
+   * Build hotel recommendation criteria from an itinerary
+   * The star rating comes from the itinerary's hotels (when it has any), chains
+   * and accessibility from its preferences, memberships from its travelers'
+   * hotel loyalty programs and places from the meetings and activities during the stay.
+   * @param itinerary - Itinerary the stay is for
+   * @param checkInDate - Check-in date
+   * @param checkOutDate - Check-out date
+   * @param overrides - Explicit criteria, which win over inferred ones
+   * @returns Recommendation criteria
+   */
+  buildHotelCriteria(
+    itinerary: Itinerary,
+    checkInDate: Date,
+    checkOutDate: Date,
+    overrides: HotelRecommendationCriteria = {}
+  ): HotelRecommendationCriteria {
+    const preferredChains = itinerary.preferences?.hotelChainPreference ?? [];
+    const accessibility = [
+      ...(itinerary.preferences?.accessibility ?? []),
+      ...(itinerary.tripPreferences?.mobilityRestrictions
+        ? [itinerary.tripPreferences.mobilityRestrictions]
+        : []),
+    ];
+    const accommodationType = itinerary.tripPreferences?.accommodationPreference;
+    const loyaltyPrograms = itinerary.travelers
+      .flatMap((traveler) => traveler.loyaltyPrograms)
+      .filter((program) => findLoyaltyChain(program.carrier));
+    const places = this.stayPlaces(itinerary.segments, checkInDate, checkOutDate);
 
-      // Collect alternatives
-      const alternatives =
-        data.other_flights?.slice(0, 3).map((f) => ({
-          description: `${f.flights[0]?.airline} - ${f.flights[0]?.departure_time} to ${f.flights[0]?.arrival_time}`,
-          price: f.price,
-        })) || [];
+    return {
+      ...(itinerary.segments.some(isHotelSegment)
+        ? { starRating: this.inferHotelTier(itinerary.segments) }
+        : {}),
+      ...(preferredChains.length > 0 ? { preferredChains } : {}),
+      ...(loyaltyPrograms.length > 0 ? { loyaltyPrograms } : {}),
+      ...(accessibility.length > 0 ? { accessibility } : {}),
+      ...(accommodationType ? { accommodationType } : {}),
+      ...(places.length > 0 ? { places } : {}),
+      ...overrides,
+    };
+  }
 
-      return {
-        found: true,
-        segment,
-        searchQuery: url,
-        alternatives,
-      };
-    } catch (error) {
-      return {
-        found: false,
-        error: error instanceof Error ? error.message : String(error),
-      };
+  /**
+   * Search hotels and rank them against recommendation criteria
+   * @param request - Hotel search parameters
+   * @param criteria - Recommendation criteria (see buildHotelCriteria)
+   * @param weights - Ranking weight overrides
+   * @returns Ranked offers with their reasons, or search error
+   */
+  async recommendHotels(
+    request: HotelSearchRequest,
+    criteria: HotelRecommendationCriteria = {},
+    weights?: Partial<HotelRankingWeights>
+  ): Promise<Result<RankedHotelOffer[], TravelSearchError>> {
+    const result = await this.searchProvider.searchHotels(request);
+    if (!result.success) {
+      return result;
     }
+    return ok(rankHotelOffers(result.value, criteria, weights));
   }
 
   /**
-   * Search for hotels using SerpAPI Google Hotels
+   * Search for hotels with the travel search provider
+   * The best recommended offer becomes the segment and the next ones are alternatives.
    * @param location - Location to search
    * @param checkInDate - Check-in date
    * @param checkOutDate - Check-out date
    * @param preferences - Travel preferences
+   * @param itinerary - Itinerary for guests, chains, loyalty, needs and planned places
    * @returns Search result with hotel segment
    */
   async searchHotel(
@@ -391,92 +446,64 @@ export class TravelAgentService {
     checkInDate: Date,
     checkOutDate: Date,
     preferences: TravelPreferences,
+    itinerary?: Itinerary
   ): Promise<TravelSearchResult> {
-    try {
-      // Build search query (use city name or location name)
-      const searchLocation = location.address?.city || location.name;
-
-      const params = new URLSearchParams({
-        engine: 'google_hotels',
-        q: searchLocation,
-        check_in_date: checkInDate.toISOString().split('T')[0] ?? '',
-        check_out_date: checkOutDate.toISOString().split('T')[0] ?? '',
-        currency: 'USD',
-        hl: 'en',
-        api_key: this.apiKey,
-      });
-
-      const url = `${this.baseUrl}?${params.toString()}`;
-      const response = await fetch(url);
-
-      if (!response.ok) {
-        return {
-          found: false,
-          error: `SerpAPI request failed: ${response.status} ${response.statusText}`,
-        };
-      }
-
-      const data = (await response.json()) as SerpApiHotelResponse;
-
-      if (data.error) {
-        return {
-          found: false,
-          error: `SerpAPI error: ${data.error}`,
-        };
-      }
-
-      // Filter by star rating preference
-      const suitableHotels =
-        data.properties?.filter((hotel) => {
-          const hotelClass = Number.parseInt(hotel.hotel_class || '3');
-          return hotelClass >= preferences.hotelStarRating - 1 && hotelClass <= preferences.hotelStarRating + 1;
-        }) || [];
-
-      if (suitableHotels.length === 0) {
-        return {
-          found: false,
-          searchQuery: url,
-          error: 'No suitable hotels found',
-        };
-      }
-
-      // Pick best hotel (highest rating)
-      const bestHotel = suitableHotels.sort((a, b) => (b.overall_rating || 0) - (a.overall_rating || 0))[0];
-
-      if (!bestHotel) {
-        return {
-          found: false,
-          searchQuery: url,
-          error: 'No hotel details available',
-        };
-      }
-
-      // Create hotel segment
-      const segment = this.createHotelSegment(bestHotel, checkInDate, checkOutDate, location);
-
-      // Collect alternatives
-      const alternatives = suitableHotels.slice(0, 3).map((h) => ({
-        description: `${h.name} - ${h.overall_rating || 'N/A'} stars - ${h.rate_per_night?.lowest || 'N/A'}`,
-        price: h.rate_per_night?.extracted_lowest,
-        url: h.link,
-      }));
+    // Search by city name or location name
+    const searchLocation = location.address?.city || location.name;
+    const searchQuery = `${this.searchProvider.name} hotels: ${searchLocation}`;
+    const guests = itinerary ? this.countPassengers(itinerary) : undefined;
+    const criteria = itinerary
+      ? this.buildHotelCriteria(itinerary, checkInDate, checkOutDate, {
+          starRating: preferences.hotelStarRating,
+        })
+      : { starRating: preferences.hotelStarRating };
+
+    const searchResult = await this.recommendHotels(
+      {
+        location: searchLocation,
+        checkInDate: checkInDate.toISOString().split('T')[0] ?? '',
+        checkOutDate: checkOutDate.toISOString().split('T')[0] ?? '',
+        ...(guests ? { adults: guests.adults, children: guests.children + guests.infants } : {}),
+      },
+      criteria
+    );
 
+    if (!searchResult.success) {
       return {
-        found: true,
-        segment,
-        searchQuery: url,
-        alternatives,
+        found: false,
+        searchQuery,
+        error: searchResult.error.message,
       };
-    } catch (error) {
+    }
+
+    const [best, ...others] = searchResult.value;
+    if (!best) {
       return {
         found: false,
-        error: error instanceof Error ? error.message : String(error),
+        searchQuery,
+        error: 'No suitable hotels found',
       };
     }
+
+    // Collect alternatives
+    const alternatives = others.slice(0, 3).map(({ offer: h, reasons }) => ({
+      description: `${h.name} - ${h.rating || 'N/A'} stars - ${h.pricePerNight ? formatMoney(h.pricePerNight) : 'N/A'}${reasons.length > 0 ? ` (${reasons.join(', ')})` : ''}`,
+      ...(h.pricePerNight ? { price: toMajorUnits(h.pricePerNight) } : {}),
+      ...(h.bookingUrl ? { url: h.bookingUrl } : {}),
+    }));
+
+    return {
+      found: true,
+      segment: this.createHotelSegment(best, checkInDate, checkOutDate, location, itinerary),
+      searchQuery,
+      alternatives,
+    };
   }
 
   /**
-   * Search for ground transportation using SerpAPI local search
+   * Create a ground transfer for a gap
+   * Uses the provider's matching offer for duration and price when there is
+   * one, and falls back to a transfer inferred from context otherwise.
    * @param gap - Geographic gap to fill
    * @param preferences - Travel preferences
    * @returns Search result with transfer segment
@@ -484,17 +511,32 @@ export class TravelAgentService {
   async searchTransfer(gap: LocationGap, preferences: TravelPreferences): Promise<TravelSearchResult> {
     try {
       const { endLocation, startLocation, beforeSegment, afterSegment } = gap;
-
-      // For local transfers, create a basic transfer segment
-      // (SerpAPI local search is less structured for transfers)
       const transferType = this.determineTransferType(gap, preferences);
 
+      const pickupName = endLocation?.name || 'Unknown Pickup';
+      const dropoffName = startLocation?.name || 'Unknown Dropoff';
+      const searchResult = await this.searchProvider.searchTransfers({
+        origin: pickupName,
+        destination: dropoffName,
+        date: beforeSegment.endDatetime.toISOString().split('T')[0] ?? '',
+      });
+      const offer = searchResult.success
+        ? searchResult.value.find((o) => o.transferType === transferType)
+        : undefined;
+
+      // Leave 30 mins after the previous segment
+      const startDatetime = new Date(beforeSegment.endDatetime.getTime() + 30 * 60 * 1000);
+      const endDatetime =
+        offer?.durationMinutes !== undefined
+          ? new Date(startDatetime.getTime() + offer.durationMinutes * 60 * 1000)
+          : new Date(afterSegment.startDatetime.getTime() - 15 * 60 * 1000); // 15 mins before next
+
       const segment: TransferSegment = {
         id: generateSegmentId(),
         type: SegmentType.TRANSFER,
         status: SegmentStatus.TENTATIVE,
-        startDatetime: new Date(beforeSegment.endDatetime.getTime() + 30 * 60 * 1000), // 30 mins after previous
-        endDatetime: new Date(afterSegment.startDatetime.getTime() - 15 * 60 * 1000), // 15 mins before next
+        startDatetime,
+        endDatetime,
         travelerIds: [],
         source: 'agent',
         sourceDetails: {
@@ -504,19 +546,23 @@ export class TravelAgentService {
         },
         transferType,
         pickupLocation: {
-          name: endLocation?.name || 'Unknown Pickup',
-          code: endLocation?.code,
-          address: endLocation?.address,
+          name: pickupName,
+          ...(endLocation?.code ? { code: endLocation.code } : {}),
+          ...(endLocation?.address ? { address: endLocation.address } : {}),
         },
         dropoffLocation: {
-          name: startLocation?.name || 'Unknown Dropoff',
-          code: startLocation?.code,
-          address: startLocation?.address,
+          name: dropoffName,
+          ...(startLocation?.code ? { code: startLocation.code } : {}),
+          ...(startLocation?.address ? { address: startLocation.address } : {}),
         },
-        notes: `${transferType} transfer - Found via intelligent gap filling`,
+        ...(offer?.price ? { price: this.segmentPrice(offer.price) } : {}),
+        notes: offer
+          ? `${offer.description} - Found via ${offer.provider} travel search`
+          : `${transferType} transfer - Found via intelligent gap filling`,
         metadata: {
           source: 'travel-agent-service',
           gapType: gap.gapType,
+          ...(offer ? { provider: offer.provider } : {}),
         },
         inferred: true,
         inferredReason: gap.description,
@@ -525,7 +571,9 @@ export class TravelAgentService {
       return {
         found: true,
         segment,
-        searchQuery: 'Local transfer (created from context)',
+        searchQuery: offer
+          ? `${offer.provider} transfers: ${pickupName} → ${dropoffName}`
+          : 'Local transfer (created from context)',
       };
     } catch (error) {
       return {
@@ -539,9 +587,14 @@ export class TravelAgentService {
    * Intelligently fill a gap based on context
    * @param gap - Geographic gap to fill
    * @param existingSegments - All segments in the itinerary
+   * @param itinerary - Itinerary for passengers, preferred airlines and currency
    * @returns Search result with appropriate segment
    */
-  async fillGapIntelligently(gap: LocationGap, existingSegments: Segment[]): Promise<TravelSearchResult> {
+  async fillGapIntelligently(
+    gap: LocationGap,
+    existingSegments: Segment[],
+    itinerary?: Itinerary
+  ): Promise<TravelSearchResult> {
     // Infer preferences from existing segments
     const preferences = this.inferPreferences(existingSegments);
 
@@ -549,19 +602,19 @@ export class TravelAgentService {
     if (this.mode === 'dream') {
       // Dream mode: Create plausible segments without verification
       if (gap.suggestedType === 'FLIGHT') {
-        return this.searchFlight(gap, preferences);
+        return this.searchFlight(gap, preferences, itinerary);
       }
       return this.searchTransfer(gap, preferences);
     } else if (this.mode === 'plan') {
       // Plan mode: Use real schedules and availability
       if (gap.suggestedType === 'FLIGHT') {
-        return this.searchFlight(gap, preferences);
+        return this.searchFlight(gap, preferences, itinerary);
       }
       return this.searchTransfer(gap, preferences);
     } else {
       // Book mode: Real-time availability and booking links (TBD)
       if (gap.suggestedType === 'FLIGHT') {
-        return this.searchFlight(gap, preferences);
+        return this.searchFlight(gap, preferences, itinerary);
       }
       return this.searchTransfer(gap, preferences);
     }
@@ -614,7 +667,7 @@ export class TravelAgentService {
   }
 
   /**
-   * Check plausibility of a segment using SerpAPI
+   * Check plausibility of a segment with the travel search provider
    * @param segment - Segment to check
    * @returns Plausibility result
    */
@@ -642,128 +695,79 @@ export class TravelAgentService {
   }
 
   /**
-   * Check flight plausibility using SerpAPI
+   * Check flight plausibility with the travel search provider
    */
   private async checkFlightPlausibility(flight: FlightSegment): Promise<PlausibilityResult> {
-    try {
-      // Build search query
-      const params = new URLSearchParams({
-        engine: 'google_flights',
-        departure_id: flight.origin.code || 'XXX',
-        arrival_id: flight.destination.code || 'XXX',
-        outbound_date: flight.startDatetime.toISOString().split('T')[0] ?? '',
-        type: '1',
-        currency: 'USD',
-        hl: 'en',
-        api_key: this.apiKey,
-      });
+    const origin = flight.origin.code || 'XXX';
+    const destination = flight.destination.code || 'XXX';
+    const searchQuery = `${this.searchProvider.name} flights: ${origin} → ${destination}`;
 
-      const url = `${this.baseUrl}?${params.toString()}`;
-      const response = await fetch(url);
-
-      if (!response.ok) {
-        return {
-          plausible: false,
-          confidence: 0.5,
-          reason: 'Unable to verify flight availability',
-          searchQuery: url,
-        };
-      }
-
-      const data = (await response.json()) as SerpApiFlightResponse;
-
-      // Check if any flights exist for this route
-      const hasFlights = (data.best_flights && data.best_flights.length > 0) ||
-                        (data.other_flights && data.other_flights.length > 0);
-
-      if (hasFlights) {
-        return {
-          plausible: true,
-          confidence: 0.9,
-          reason: 'Flight route exists in Google Flights database',
-          searchQuery: url,
-        };
-      }
+    const searchResult = await this.searchProvider.searchFlights({
+      origin,
+      destination,
+      departureDate: flight.startDatetime.toISOString().split('T')[0] ?? '',
+    });
 
+    if (!searchResult.success) {
       return {
         plausible: false,
-        confidence: 0.3,
-        reason: 'No flights found for this route and date',
-        searchQuery: url,
+        confidence: 0.5,
+        reason: `Unable to verify flight availability: ${searchResult.error.message}`,
+        searchQuery,
       };
-    } catch (error) {
+    }
+
+    // Check if any flights exist for this route
+    if (searchResult.value.length > 0) {
       return {
-        plausible: false,
-        confidence: 0.5,
-        reason: `Plausibility check failed: ${error instanceof Error ? error.message : String(error)}`,
+        plausible: true,
+        confidence: 0.9,
+        reason: 'Flight route exists in travel search results',
+        searchQuery,
       };
     }
+
+    return {
+      plausible: false,
+      confidence: 0.3,
+      reason: 'No flights found for this route and date',
+      searchQuery,
+    };
   }
 
   /**
-   * Create a flight segment from SerpAPI data
+   * Create a flight segment from a flight offer
    */
   private createFlightSegment(
-    flight: {
-      departure_airport: { id: string; name: string };
-      arrival_airport: { id: string; name: string };
-      airline: string;
-      flight_number?: string;
-      departure_time: string;
-      arrival_time: string;
-      duration: number;
-      airplane?: string;
-      travel_class?: string;
-    },
-    price: number | undefined,
+    offer: FlightOffer,
     gap: LocationGap,
+    itinerary?: Itinerary
   ): FlightSegment {
-    // Parse timestamps
-    const departureTime = new Date(flight.departure_time);
-    const arrivalTime = new Date(flight.arrival_time);
-
-    // Extract airline code from flight number (e.g., "AA100" -> "AA")
-    const airlineCode = flight.flight_number?.match(/^([A-Z]{2})/)?.[1] || 'XX';
-
     return {
       id: generateSegmentId(),
       type: SegmentType.FLIGHT,
       status: SegmentStatus.TENTATIVE,
-      startDatetime: departureTime,
-      endDatetime: arrivalTime,
-      travelerIds: [],
+      startDatetime: offer.departureTime,
+      endDatetime: offer.arrivalTime,
+      travelerIds: itinerary?.travelers.map((traveler) => traveler.id) ?? [],
       source: 'agent',
       sourceDetails: {
         mode: this.mode,
-        searchQuery: `SerpAPI Google Flights: ${flight.departure_airport.id} → ${flight.arrival_airport.id}`,
+        searchQuery: `${offer.provider} flights: ${offer.origin.code} → ${offer.destination.code}`,
         confidence: this.mode === 'plan' ? 0.9 : 0.7,
         timestamp: new Date(),
       },
-      airline: {
-        name: flight.airline,
-        code: airlineCode,
-      },
-      flightNumber: flight.flight_number || 'TBD',
-      origin: {
-        name: flight.departure_airport.name,
-        code: flight.departure_airport.id,
-      },
-      destination: {
-        name: flight.arrival_airport.name,
-        code: flight.arrival_airport.id,
-      },
-      aircraft: flight.airplane,
-      cabinClass: this.mapTravelClass(flight.travel_class),
-      durationMinutes: flight.duration,
-      price: price
-        ? {
-            amount: price,
-            currency: 'USD',
-          }
-        : undefined,
-      notes: 'Found via SerpAPI Google Flights - Please verify and book',
+      airline: offer.airline,
+      flightNumber: offer.flightNumber,
+      origin: offer.origin,
+      destination: offer.destination,
+      ...(offer.aircraft ? { aircraft: offer.aircraft } : {}),
+      ...(offer.cabinClass ? { cabinClass: offer.cabinClass } : {}),
+      durationMinutes: offer.durationMinutes,
+      ...(offer.price ? { price: this.segmentPrice(offer.price) } : {}),
+      notes: `Found via ${offer.provider} travel search${offer.stops > 0 ? ` (via ${offer.layovers.join(', ')})` : ''} - Please verify and book`,
       metadata: {
-        source: 'serpapi-google-flights',
+        source: offer.provider === 'serpapi' ? 'serpapi-google-flights' : 'fixture-flights',
         gapType: gap.gapType,
       },
       inferred: true,
@@ -772,27 +776,19 @@ export class TravelAgentService {
   }
 
   /**
-   * Create a hotel segment from SerpAPI data
+   * Create a hotel segment from a recommended hotel offer
    */
   private createHotelSegment(
-    hotel: {
-      name: string;
-      description?: string;
-      gps_coordinates?: { latitude: number; longitude: number };
-      check_in_time?: string;
-      check_out_time?: string;
-      rate_per_night?: { lowest?: string; extracted_lowest?: number };
-      overall_rating?: number;
-      hotel_class?: string;
-      link?: string;
-    },
+    recommended: RankedHotelOffer,
     checkInDate: Date,
     checkOutDate: Date,
     location: { name: string; code?: string; address?: { city?: string; country?: string } },
+    itinerary?: Itinerary
   ): HotelSegment {
+    const hotel: HotelOffer = recommended.offer;
     // Calculate check-in and check-out datetimes
-    const checkInTime = hotel.check_in_time || '15:00';
-    const checkOutTime = hotel.check_out_time || '11:00';
+    const checkInTime = hotel.checkInTime || '15:00';
+    const checkOutTime = hotel.checkOutTime || '11:00';
 
     const checkInDatetime = new Date(checkInDate);
     const [checkInHour, checkInMin] = checkInTime.split(':').map(Number);
@@ -802,10 +798,12 @@ export class TravelAgentService {
     const [checkOutHour, checkOutMin] = checkOutTime.split(':').map(Number);
     checkOutDatetime.setHours(checkOutHour || 11, checkOutMin || 0, 0, 0);
 
-    // Calculate nights
+    // Price the stay from the nightly rate
     const nights = Math.ceil((checkOutDate.getTime() - checkInDate.getTime()) / (1000 * 60 * 60 * 24));
-    const totalPrice =
-      hotel.rate_per_night?.extracted_lowest !== undefined ? hotel.rate_per_night.extracted_lowest * nights : undefined;
+    const totalPrice = hotel.pricePerNight
+      ? this.segmentPrice({ ...hotel.pricePerNight, amount: hotel.pricePerNight.amount * nights })
+      : undefined;
+    const address = hotel.address ?? (location.address?.country ? { ...location.address, country: location.address.country } : undefined);
 
     return {
       id: generateSegmentId(),
@@ -813,40 +811,35 @@ export class TravelAgentService {
       status: SegmentStatus.TENTATIVE,
       startDatetime: checkInDatetime,
       endDatetime: checkOutDatetime,
-      travelerIds: [],
+      travelerIds: itinerary?.travelers.map((traveler) => traveler.id) ?? [],
       source: 'agent',
       sourceDetails: {
         mode: this.mode,
-        searchQuery: `SerpAPI Google Hotels: ${location.address?.city || location.name}`,
+        searchQuery: `${hotel.provider} hotels: ${location.address?.city || location.name}`,
         confidence: this.mode === 'plan' ? 0.85 : 0.65,
         timestamp: new Date(),
       },
       property: {
         name: hotel.name,
-        ...(hotel.link ? { website: hotel.link } : {}),
+        ...(hotel.bookingUrl ? { website: hotel.bookingUrl } : {}),
       },
       location: {
         name: hotel.name,
-        address: location.address,
-        coordinates: hotel.gps_coordinates,
+        ...(address ? { address } : {}),
+        ...(hotel.coordinates ? { coordinates: hotel.coordinates } : {}),
       },
       checkInDate,
       checkOutDate,
       checkInTime,
       checkOutTime,
       roomCount: 1,
-      amenities: [],
-      price: totalPrice
-        ? {
-            amount: totalPrice,
-            currency: 'USD',
-          }
-        : undefined,
-      notes: `Found via SerpAPI Google Hotels - ${hotel.overall_rating || 'N/A'} stars - Please verify and book`,
+      amenities: hotel.amenities,
+      ...(totalPrice ? { price: totalPrice } : {}),
+      notes: `Found via ${hotel.provider} travel search - ${hotel.rating || 'N/A'} stars${recommended.reasons.length > 0 ? ` - ${recommended.reasons.join(', ')}` : ''} - Please verify and book`,
       metadata: {
-        source: 'serpapi-google-hotels',
-        starRating: hotel.hotel_class,
-        rating: hotel.overall_rating,
+        source: hotel.provider === 'serpapi' ? 'serpapi-google-hotels' : 'fixture-hotels',
+        starRating: hotel.starRating,
+        rating: hotel.rating,
       },
       inferred: true,
       inferredReason: `Auto-filled hotel accommodation in ${location.address?.city || location.name}`,
@@ -854,16 +847,51 @@ export class TravelAgentService {
   }
 
   /**
-   * Map SerpAPI travel class to our CabinClass enum
+   * Meetings and activities with coordinates on the days of a stay
+   */
+  private stayPlaces(segments: Segment[], checkInDate: Date, checkOutDate: Date): HotelStayPlace[] {
+    const firstDay = checkInDate.toISOString().slice(0, 10);
+    const lastDay = checkOutDate.toISOString().slice(0, 10);
+
+    return segments.flatMap((segment): HotelStayPlace[] => {
+      if (
+        segment.startDatetime.toISOString().slice(0, 10) > lastDay ||
+        segment.endDatetime.toISOString().slice(0, 10) < firstDay
+      ) {
+        return [];
+      }
+      if (segment.type === SegmentType.MEETING || segment.type === SegmentType.CUSTOM) {
+        const coordinates = segment.location?.coordinates;
+        return coordinates ? [{ name: segment.title, coordinates }] : [];
+      }
+      if (segment.type === SegmentType.ACTIVITY && segment.location.coordinates) {
+        return [{ name: segment.name, coordinates: segment.location.coordinates }];
+      }
+      return [];
+    });
+  }
+
+  /**
+   * Passenger counts from an itinerary's travelers
+   */
+  private countPassengers(itinerary: Itinerary): PassengerCounts {
+    const count = (...types: TravelerType[]) =>
+      itinerary.travelers.filter((traveler) => types.includes(traveler.type)).length;
+
+    return {
+      // Someone has to fly; itineraries without travelers search for one adult
+      adults: Math.max(count(TravelerType.ADULT, TravelerType.SENIOR), 1),
+      children: count(TravelerType.CHILD),
+      infants: count(TravelerType.INFANT),
+    };
+  }
+
+  /**
+   * Price for a gap-filled segment
+   * Gap-filled segments carry major-unit amounts (650 for $650), as they always have.
    */
-  private mapTravelClass(travelClass?: string): CabinClass | undefined {
-    if (!travelClass) return undefined;
-
-    const normalized = travelClass.toLowerCase();
-    if (normalized.includes('first')) return CabinClass.FIRST;
-    if (normalized.includes('business')) return CabinClass.BUSINESS;
-    if (normalized.includes('premium')) return CabinClass.PREMIUM_ECONOMY;
-    return CabinClass.ECONOMY;
+  private segmentPrice(price: Money): Money {
+    return { amount: toMajorUnits(price), currency: price.currency };
   }
 
   /**
@@ -889,14 +917,10 @@ export class TravelAgentService {
 
   /**
    * Guess IATA airport code from location name
-   * (Basic heuristic - in production, use a proper airport database)
+   * Resolves codes ("New York (JFK)"), airport names ("Heathrow") and city
+   * names ("Munich" → MUC) against the bundled airport dataset.
    */
   private guessIataCode(locationName: string | undefined): string | undefined {
-    if (!locationName) return undefined;
-
-    // Extract code from name like "JFK Airport" or "New York (JFK)"
-    const codeMatch = locationName.match(/\(([A-Z]{3})\)/) || locationName.match(/^([A-Z]{3})\b/);
-
-    return codeMatch?.[1];
+    return resolveAirport(locationName)?.iata;
   }
 }
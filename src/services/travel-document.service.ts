@@ -0,0 +1,736 @@
+/**
+ * Branded PDF travel documents
+ * @module services/travel-document
+ *
+ * Renders an itinerary view into a printable PDF locally: a cover page, the
+ * day-by-day schedule, a table of confirmation numbers with QR codes for
+ * looking bookings up, and a traveler contact sheet.
+ *
+ * The built-in PDF fonts only cover Western European text; pass `fontPath`
+ * (a TrueType font) to render other scripts. Emoji are always dropped.
+ */
+
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import type { Itinerary } from '../domain/types/itinerary.js';
+import type { ItineraryDay, ItineraryView, SegmentView } from '../domain/types/viewer.js';
+import { toDownloadFilename } from '../utils/filename.js';
+import { ViewerService } from './viewer.service.js';
+
+/** Default brand shown on the cover and in page footers */
+const DEFAULT_BRAND_NAME = 'Itinerizer';
+
+/** Default accent color for bands and table headers */
+const DEFAULT_ACCENT_COLOR = '#1d4ed8';
+
+const PAGE_MARGIN = 50;
+const FOOTER_HEIGHT = 30;
+const QR_SIZE = 56;
+
+const TEXT_COLOR = '#111827';
+const MUTED_COLOR = '#6b7280';
+const RULE_COLOR = '#d1d5db';
+const WARNING_COLOR = '#b91c1c';
+
+/** Segment type labels (the view model's icons are emoji, which PDF fonts cannot draw) */
+const TYPE_LABELS: Record<SegmentView['type'], string> = {
+  FLIGHT: 'FLIGHT',
+  HOTEL: 'HOTEL',
+  ACTIVITY: 'ACTIVITY',
+  TRANSFER: 'TRANSFER',
+  RAIL: 'TRAIN',
+  CAR_RENTAL: 'CAR RENTAL',
+  MEETING: 'MEETING',
+  CUSTOM: 'OTHER',
+};
+
+/** Characters outside Latin-1 that the built-in fonts' WinAnsi encoding still covers */
+const WIN_ANSI_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+
+/**
+ * Options for generating a travel document
+ */
+export interface TravelDocumentOptions {
+  /** Brand name on the cover and in footers */
+  brandName?: string;
+  /** Accent color as a hex string (e.g., "#0f766e") */
+  accentColor?: string;
+  /** Logo image (PNG or JPEG data, or a file path) shown on the cover */
+  logo?: Buffer | string;
+  /**
+   * URL template encoded in confirmation QR codes; `{confirmation}`,
+   * `{itineraryId}` and `{segmentId}` are substituted. Without a template the
+   * QR code holds the booking details as plain text.
+   */
+  lookupUrlTemplate?: string;
+  /** TrueType font used instead of Helvetica (needed for non-Latin text) */
+  fontPath?: string;
+  /** Bold TrueType font (defaults to `fontPath`) */
+  boldFontPath?: string;
+  /** Generation timestamp shown on the cover (defaults to now) */
+  now?: Date;
+}
+
+/**
+ * Row of the confirmation numbers table
+ */
+export interface ConfirmationRow {
+  /** Segment ID */
+  segmentId: string;
+  /** Local date of the segment */
+  date: string;
+  /** Segment type label */
+  type: string;
+  /** Segment title */
+  title: string;
+  /** Airline, hotel chain or other provider */
+  provider?: string;
+  /** Confirmation number */
+  confirmationNumber?: string;
+  /** Booking reference (PNR) */
+  bookingReference?: string;
+  /** Segment status */
+  status: string;
+  /** Text encoded in the QR code */
+  lookup: string;
+}
+
+interface DocumentStyle {
+  brandName: string;
+  accent: string;
+  regular: string;
+  bold: string;
+  sanitize: (text: string) => string;
+}
+
+type Doc = InstanceType<typeof PDFDocument>;
+
+/**
+ * Service for generating PDF travel documents
+ */
+export class TravelDocumentService {
+  constructor(private readonly viewerService: ViewerService = new ViewerService()) {}
+
+  /**
+   * Generate a travel document for an itinerary
+   * @param itinerary - Itinerary to render
+   * @param options - Branding and rendering options
+   * @returns PDF file contents
+   */
+  async generate(itinerary: Itinerary, options: TravelDocumentOptions = {}): Promise<Buffer> {
+    return this.renderView(this.viewerService.transformToView(itinerary), options);
+  }
+
+  /**
+   * Render a travel document from a prepared view model
+   * @param view - Itinerary view model
+   * @param options - Branding and rendering options
+   * @returns PDF file contents
+   */
+  async renderView(view: ItineraryView, options: TravelDocumentOptions = {}): Promise<Buffer> {
+    const now = options.now ?? new Date();
+    const doc = new PDFDocument({
+      size: 'A4',
+      margins: {
+        top: PAGE_MARGIN,
+        bottom: PAGE_MARGIN + FOOTER_HEIGHT,
+        left: PAGE_MARGIN,
+        right: PAGE_MARGIN,
+      },
+      bufferPages: true,
+      info: {
+        Title: view.title,
+        Subject: 'Travel document',
+        Author: options.brandName ?? DEFAULT_BRAND_NAME,
+        Creator: DEFAULT_BRAND_NAME,
+        CreationDate: now,
+      },
+    });
+
+    const chunks: Buffer[] = [];
+    const finished = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    const style = this.createStyle(doc, options);
+
+    this.writeCover(doc, view, style, options, now);
+    doc.addPage();
+    this.writeSchedule(doc, view, style);
+    doc.addPage();
+    this.writeConfirmations(doc, view, style, options);
+    doc.addPage();
+    this.writeTravelers(doc, view, style);
+    this.writeFooters(doc, view, style);
+
+    doc.end();
+    return finished;
+  }
+
+  /**
+   * Collect the segments that carry a confirmation number or booking reference
+   * @param view - Itinerary view model
+   * @param lookupUrlTemplate - Optional URL template for QR codes
+   * @returns Table rows in chronological order
+   */
+  getConfirmationRows(view: ItineraryView, lookupUrlTemplate?: string): ConfirmationRow[] {
+    return view.days.flatMap((day) =>
+      day.segments
+        .filter((segment) => segment.raw.confirmationNumber || segment.raw.bookingReference)
+        .map((segment) => {
+          const { confirmationNumber, bookingReference, provider } = segment.raw;
+          const reference = confirmationNumber ?? bookingReference ?? '';
+          const lookup = lookupUrlTemplate
+            ? lookupUrlTemplate
+                .replaceAll('{confirmation}', encodeURIComponent(reference))
+                .replaceAll('{itineraryId}', encodeURIComponent(view.id))
+                .replaceAll('{segmentId}', encodeURIComponent(segment.id))
+            : [
+                segment.title,
+                day.dateFormatted,
+                confirmationNumber ? `Confirmation: ${confirmationNumber}` : undefined,
+                bookingReference ? `Booking reference: ${bookingReference}` : undefined,
+              ]
+                .filter(Boolean)
+                .join('\n');
+
+          return {
+            segmentId: segment.id,
+            date: day.dateFormatted,
+            type: TYPE_LABELS[segment.type] ?? segment.type,
+            title: segment.title,
+            ...(provider?.name ? { provider: provider.name } : {}),
+            ...(confirmationNumber ? { confirmationNumber } : {}),
+            ...(bookingReference ? { bookingReference } : {}),
+            status: segment.status,
+            lookup,
+          };
+        })
+    );
+  }
+
+  /**
+   * Resolve fonts, colors and the text filter for the chosen fonts
+   */
+  private createStyle(doc: Doc, options: TravelDocumentOptions): DocumentStyle {
+    let regular = 'Helvetica';
+    let bold = 'Helvetica-Bold';
+    if (options.fontPath) {
+      doc.registerFont('Body', options.fontPath);
+      doc.registerFont('Body-Bold', options.boldFontPath ?? options.fontPath);
+      regular = 'Body';
+      bold = 'Body-Bold';
+    }
+
+    return {
+      brandName: options.brandName ?? DEFAULT_BRAND_NAME,
+      accent: /^#[0-9a-f]{6}$/i.test(options.accentColor ?? '')
+        ? (options.accentColor as string)
+        : DEFAULT_ACCENT_COLOR,
+      regular,
+      bold,
+      sanitize: options.fontPath ? stripEmoji : toWinAnsi,
+    };
+  }
+
+  /**
+   * Cover page: brand band, title, key facts and contents
+   */
+  private writeCover(
+    doc: Doc,
+    view: ItineraryView,
+    style: DocumentStyle,
+    options: TravelDocumentOptions,
+    now: Date
+  ): void {
+    const width = doc.page.width;
+    const contentWidth = width - PAGE_MARGIN * 2;
+
+    doc.rect(0, 0, width, 120).fill(style.accent);
+    doc
+      .font(style.bold)
+      .fontSize(14)
+      .fillColor('#ffffff')
+      .text(style.sanitize(style.brandName), PAGE_MARGIN, 50, { width: contentWidth / 2 });
+    if (options.logo) {
+      doc.image(options.logo, width - PAGE_MARGIN - 140, 30, { fit: [140, 60], align: 'right' });
+    }
+
+    doc
+      .font(style.bold)
+      .fontSize(28)
+      .fillColor(TEXT_COLOR)
+      .text(style.sanitize(view.title), PAGE_MARGIN, 170, { width: contentWidth });
+    if (view.description) {
+      doc
+        .moveDown(0.5)
+        .font(style.regular)
+        .fontSize(12)
+        .fillColor(MUTED_COLOR)
+        .text(style.sanitize(view.description), { width: contentWidth });
+    }
+
+    doc.moveDown(1.5);
+    const facts: Array<[string, string]> = [
+      ['Dates', view.dateRange],
+      ['Duration', `${view.durationDays} day${view.durationDays === 1 ? '' : 's'}`],
+    ];
+    if (view.destinations.length > 0) {
+      facts.push(['Destinations', view.destinations.join(', ')]);
+    }
+    if (view.metadata.travelerCount > 0) {
+      facts.push(['Travelers', view.metadata.travelerNames.join(', ')]);
+    }
+    facts.push(['Status', view.status]);
+    facts.push(['Bookings', this.describeStats(view)]);
+
+    for (const [label, value] of facts) {
+      const y = doc.y;
+      doc.font(style.bold).fontSize(11).fillColor(TEXT_COLOR).text(label, PAGE_MARGIN, y);
+      doc
+        .font(style.regular)
+        .text(style.sanitize(value), PAGE_MARGIN + 110, y, { width: contentWidth - 110 });
+      doc.moveDown(0.4);
+    }
+
+    doc.moveDown(1.5);
+    doc.font(style.bold).fontSize(13).fillColor(style.accent).text('Contents', PAGE_MARGIN);
+    doc.moveDown(0.3).font(style.regular).fontSize(11).fillColor(TEXT_COLOR);
+    for (const entry of ['Day-by-day schedule', 'Confirmation numbers', 'Traveler contacts']) {
+      doc.text(`-  ${entry}`, PAGE_MARGIN + 10);
+    }
+
+    doc
+      .font(style.regular)
+      .fontSize(9)
+      .fillColor(MUTED_COLOR)
+      .text(
+        `Version ${view.metadata.version} - generated ${now.toLocaleDateString('en-US', {
+          month: 'long',
+          day: 'numeric',
+          year: 'numeric',
+        })}`,
+        PAGE_MARGIN,
+        doc.page.height - PAGE_MARGIN - FOOTER_HEIGHT - 12,
+        { width: contentWidth, lineBreak: false }
+      );
+  }
+
+  private describeStats(view: ItineraryView): string {
+    const counts: Array<[number, string]> = [
+      [view.stats.flights, 'flight'],
+      [view.stats.hotels, 'hotel'],
+      [view.stats.rail, 'train'],
+      [view.stats.carRentals, 'car rental'],
+      [view.stats.transfers, 'transfer'],
+      [view.stats.activities, 'activity'],
+      [view.stats.meetings, 'meeting'],
+    ];
+    const parts = counts
+      .filter(([count]) => count > 0)
+      .map(([count, label]) =>
+        count === 1 ? `1 ${label}` : `${count} ${label === 'activity' ? 'activities' : `${label}s`}`
+      );
+    return parts.length > 0 ? parts.join(', ') : 'None yet';
+  }
+
+  /**
+   * Day-by-day schedule, flowing across as many pages as needed
+   */
+  private writeSchedule(doc: Doc, view: ItineraryView, style: DocumentStyle): void {
+    this.writeHeading(doc, 'Day-by-day schedule', style);
+
+    if (view.days.length === 0) {
+      this.writeEmptyNote(doc, 'No segments scheduled yet.', style);
+      return;
+    }
+
+    for (const day of view.days) {
+      this.writeDay(doc, day, style);
+    }
+  }
+
+  private writeDay(doc: Doc, day: ItineraryDay, style: DocumentStyle): void {
+    const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+
+    // Keep the day header with its first segment
+    this.ensureSpace(doc, 90);
+    const top = doc.y + 6;
+    doc.rect(PAGE_MARGIN, top, contentWidth, 24).fill(tint(style.accent));
+    doc
+      .font(style.bold)
+      .fontSize(11)
+      .fillColor(TEXT_COLOR)
+      .text(style.sanitize(day.title), PAGE_MARGIN + 8, top + 7, {
+        width: contentWidth * 0.6,
+        lineBreak: false,
+        ellipsis: true,
+      });
+    doc
+      .font(style.regular)
+      .fontSize(10)
+      .fillColor(MUTED_COLOR)
+      .text(day.dateFormatted, PAGE_MARGIN, top + 7, {
+        width: contentWidth - 8,
+        align: 'right',
+        lineBreak: false,
+      });
+    doc.x = PAGE_MARGIN;
+    doc.y = top + 32;
+
+    for (const segment of day.segments) {
+      this.writeSegment(doc, segment, style);
+    }
+    doc.moveDown(0.8);
+  }
+
+  private writeSegment(doc: Doc, segment: SegmentView, style: DocumentStyle): void {
+    const timeWidth = 120;
+    const bodyX = PAGE_MARGIN + timeWidth + 10;
+    const bodyWidth = doc.page.width - PAGE_MARGIN - bodyX;
+
+    const title = `${TYPE_LABELS[segment.type] ?? segment.type}  ${style.sanitize(segment.title)}`;
+    const details = segment.details.map((detail) => `-  ${style.sanitize(detail)}`).join('\n');
+    doc.font(style.bold).fontSize(10.5);
+    const titleHeight = doc.heightOfString(title, { width: bodyWidth });
+    doc.font(style.regular).fontSize(9);
+    const detailsHeight = details ? doc.heightOfString(details, { width: bodyWidth }) : 0;
+    this.ensureSpace(doc, titleHeight + Math.min(detailsHeight, 200) + 30);
+
+    const top = doc.y;
+    doc
+      .font(style.bold)
+      .fontSize(9)
+      .fillColor(TEXT_COLOR)
+      .text(style.sanitize(segment.timeRange), PAGE_MARGIN, top, { width: timeWidth });
+    const timeBottom = doc.y;
+
+    doc.font(style.bold).fontSize(10.5).fillColor(TEXT_COLOR).text(title, bodyX, top, {
+      width: bodyWidth,
+    });
+    if (segment.status !== 'CONFIRMED') {
+      doc.font(style.regular).fontSize(9).fillColor(WARNING_COLOR).text(segment.status, bodyX);
+    }
+    // Summaries of timed segments just repeat the time column
+    if (segment.summary && segment.summary !== segment.timeRange) {
+      doc
+        .font(style.regular)
+        .fontSize(9.5)
+        .fillColor(TEXT_COLOR)
+        .text(style.sanitize(segment.summary), bodyX, doc.y, { width: bodyWidth });
+    }
+    if (details) {
+      doc
+        .font(style.regular)
+        .fontSize(9)
+        .fillColor(MUTED_COLOR)
+        .text(details, bodyX, doc.y + 2, { width: bodyWidth });
+    }
+    if (segment.connection) {
+      doc
+        .font(style.bold)
+        .fontSize(9)
+        .fillColor(segment.connection.belowMinimum ? WARNING_COLOR : MUTED_COLOR)
+        .text(`Connection: ${style.sanitize(segment.connection.description)}`, bodyX, doc.y + 2, {
+          width: bodyWidth,
+        });
+    }
+
+    doc.y = Math.max(doc.y, timeBottom) + 6;
+    doc
+      .moveTo(PAGE_MARGIN, doc.y)
+      .lineTo(doc.page.width - PAGE_MARGIN, doc.y)
+      .lineWidth(0.5)
+      .strokeColor(RULE_COLOR)
+      .stroke();
+    doc.x = PAGE_MARGIN;
+    doc.y += 6;
+  }
+
+  /**
+   * Confirmation numbers table with a lookup QR code per booking
+   */
+  private writeConfirmations(
+    doc: Doc,
+    view: ItineraryView,
+    style: DocumentStyle,
+    options: TravelDocumentOptions
+  ): void {
+    this.writeHeading(doc, 'Confirmation numbers', style);
+
+    const rows = this.getConfirmationRows(view, options.lookupUrlTemplate);
+    if (rows.length === 0) {
+      this.writeEmptyNote(doc, 'No confirmation numbers recorded.', style);
+      return;
+    }
+
+    const columns = [
+      { header: 'Date', width: 95 },
+      { header: 'Booking', width: 170 },
+      { header: 'Reference', width: 130 },
+      { header: 'Lookup', width: QR_SIZE + 8 },
+    ];
+    this.writeTableHeader(doc, columns, style);
+
+    for (const row of rows) {
+      const booking = [
+        `${row.type}  ${style.sanitize(row.title)}`,
+        ...(row.provider ? [style.sanitize(row.provider)] : []),
+        ...(row.status !== 'CONFIRMED' ? [row.status] : []),
+      ].join('\n');
+      const reference = [
+        ...(row.confirmationNumber ? [`Conf. ${style.sanitize(row.confirmationNumber)}`] : []),
+        ...(row.bookingReference ? [`PNR ${style.sanitize(row.bookingReference)}`] : []),
+      ].join('\n');
+
+      doc.font(style.regular).fontSize(9);
+      const textHeight = Math.max(
+        doc.heightOfString(booking, { width: (columns[1]?.width ?? 0) - 8 }),
+        doc.heightOfString(reference, { width: (columns[2]?.width ?? 0) - 8 })
+      );
+      const rowHeight = Math.max(textHeight, QR_SIZE) + 10;
+      if (this.ensureSpace(doc, rowHeight)) {
+        this.writeTableHeader(doc, columns, style);
+      }
+
+      const top = doc.y;
+      let x = PAGE_MARGIN;
+      const cells = [row.date, booking, reference];
+      cells.forEach((cell, index) => {
+        const width = columns[index]?.width ?? 0;
+        doc
+          .font(index === 2 ? 'Courier-Bold' : style.regular)
+          .fontSize(9)
+          .fillColor(TEXT_COLOR)
+          .text(style.sanitize(cell), x + 4, top + 5, { width: width - 8 });
+        x += width;
+      });
+      this.drawQrCode(doc, row.lookup, x + 4, top + 5, QR_SIZE);
+
+      doc.y = top + rowHeight;
+      doc
+        .moveTo(PAGE_MARGIN, doc.y)
+        .lineTo(doc.page.width - PAGE_MARGIN, doc.y)
+        .lineWidth(0.5)
+        .strokeColor(RULE_COLOR)
+        .stroke();
+      doc.x = PAGE_MARGIN;
+    }
+  }
+
+  /**
+   * Traveler contact sheet
+   */
+  private writeTravelers(doc: Doc, view: ItineraryView, style: DocumentStyle): void {
+    this.writeHeading(doc, 'Traveler contacts', style);
+
+    const travelers = view.metadata.travelers;
+    if (travelers.length === 0) {
+      this.writeEmptyNote(doc, 'No travelers on this itinerary.', style);
+      return;
+    }
+
+    const columns = [
+      { header: 'Name', width: 130 },
+      { header: 'Email', width: 145 },
+      { header: 'Phone', width: 95 },
+      { header: 'Loyalty programs', width: 125 },
+    ];
+    this.writeTableHeader(doc, columns, style);
+
+    for (const traveler of travelers) {
+      const cells = [
+        `${traveler.name || 'Unnamed traveler'}\n${traveler.type.toLowerCase()}`,
+        traveler.email ?? '-',
+        traveler.phone ?? '-',
+        traveler.loyaltyPrograms.length > 0 ? traveler.loyaltyPrograms.join('\n') : '-',
+      ].map(style.sanitize);
+
+      doc.font(style.regular).fontSize(9);
+      const rowHeight =
+        Math.max(
+          ...cells.map((cell, index) =>
+            doc.heightOfString(cell, { width: (columns[index]?.width ?? 0) - 8 })
+          )
+        ) + 10;
+      if (this.ensureSpace(doc, rowHeight)) {
+        this.writeTableHeader(doc, columns, style);
+      }
+
+      const top = doc.y;
+      let x = PAGE_MARGIN;
+      cells.forEach((cell, index) => {
+        const width = columns[index]?.width ?? 0;
+        doc
+          .font(style.regular)
+          .fontSize(9)
+          .fillColor(TEXT_COLOR)
+          .text(cell, x + 4, top + 5, { width: width - 8 });
+        x += width;
+      });
+
+      doc.y = top + rowHeight;
+      doc
+        .moveTo(PAGE_MARGIN, doc.y)
+        .lineTo(doc.page.width - PAGE_MARGIN, doc.y)
+        .lineWidth(0.5)
+        .strokeColor(RULE_COLOR)
+        .stroke();
+      doc.x = PAGE_MARGIN;
+    }
+  }
+
+  private writeHeading(doc: Doc, text: string, style: DocumentStyle): void {
+    doc
+      .font(style.bold)
+      .fontSize(18)
+      .fillColor(style.accent)
+      .text(text, PAGE_MARGIN, doc.page.margins.top);
+    doc.moveDown(0.6);
+  }
+
+  private writeEmptyNote(doc: Doc, text: string, style: DocumentStyle): void {
+    doc.font(style.regular).fontSize(11).fillColor(MUTED_COLOR).text(text, PAGE_MARGIN);
+  }
+
+  private writeTableHeader(
+    doc: Doc,
+    columns: Array<{ header: string; width: number }>,
+    style: DocumentStyle
+  ): void {
+    const top = doc.y;
+    const tableWidth = columns.reduce((sum, column) => sum + column.width, 0);
+    doc.rect(PAGE_MARGIN, top, tableWidth, 20).fill(style.accent);
+
+    let x = PAGE_MARGIN;
+    for (const column of columns) {
+      doc
+        .font(style.bold)
+        .fontSize(9)
+        .fillColor('#ffffff')
+        .text(column.header, x + 4, top + 6, { width: column.width - 8, lineBreak: false });
+      x += column.width;
+    }
+    doc.x = PAGE_MARGIN;
+    doc.y = top + 20;
+  }
+
+  /**
+   * Start a new page when the next block would not fit
+   * @returns True if a page was added
+   */
+  private ensureSpace(doc: Doc, height: number): boolean {
+    if (doc.y + height <= doc.page.height - doc.page.margins.bottom) {
+      return false;
+    }
+    doc.addPage();
+    doc.y = doc.page.margins.top;
+    return true;
+  }
+
+  /**
+   * Draw a QR code as vector squares
+   */
+  private drawQrCode(doc: Doc, text: string, x: number, y: number, size: number): void {
+    const qr = QRCode.create(text, { errorCorrectionLevel: 'M' });
+    const count = qr.modules.size;
+    const module = size / count;
+
+    for (let row = 0; row < count; row++) {
+      for (let col = 0; col < count; col++) {
+        if (qr.modules.get(row, col)) {
+          doc.rect(x + col * module, y + row * module, module, module);
+        }
+      }
+    }
+    doc.fill(TEXT_COLOR);
+  }
+
+  /**
+   * Brand, title and page numbers on every page after the cover
+   */
+  private writeFooters(doc: Doc, view: ItineraryView, style: DocumentStyle): void {
+    const range = doc.bufferedPageRange();
+    for (let index = range.start + 1; index < range.start + range.count; index++) {
+      doc.switchToPage(index);
+      const bottom = doc.page.margins.bottom;
+      // Writing inside the bottom margin must not trigger an automatic page break
+      doc.page.margins.bottom = 0;
+
+      const y = doc.page.height - PAGE_MARGIN - 12;
+      const width = doc.page.width - PAGE_MARGIN * 2;
+      doc
+        .moveTo(PAGE_MARGIN, y - 6)
+        .lineTo(doc.page.width - PAGE_MARGIN, y - 6)
+        .lineWidth(0.5)
+        .strokeColor(RULE_COLOR)
+        .stroke();
+      doc
+        .font(style.regular)
+        .fontSize(8)
+        .fillColor(MUTED_COLOR)
+        .text(
+          `${style.sanitize(style.brandName)}  |  ${style.sanitize(view.title)}`,
+          PAGE_MARGIN,
+          y,
+          {
+            width: width * 0.75,
+            lineBreak: false,
+            ellipsis: true,
+          }
+        )
+        .text(`Page ${index + 1} of ${range.count}`, PAGE_MARGIN, y, {
+          width,
+          align: 'right',
+          lineBreak: false,
+        });
+
+      doc.page.margins.bottom = bottom;
+    }
+  }
+}
+
+/**
+ * Build a download filename for an itinerary's travel document
+ * @param title - Itinerary title
+ * @returns Filename such as "summer-in-lisbon.pdf"
+ */
+export function getTravelDocumentFilename(title: string): string {
+  return toDownloadFilename(title, 'pdf');
+}
+
+/**
+ * Light tint of a hex color (for day header bands)
+ */
+function tint(hex: string): string {
+  const channels = [1, 3, 5].map((offset) => Number.parseInt(hex.slice(offset, offset + 2), 16));
+  return `#${channels
+    .map((channel) =>
+      Math.round(channel + (255 - channel) * 0.88)
+        .toString(16)
+        .padStart(2, '0')
+    )
+    .join('')}`;
+}
+
+/**
+ * Map text onto what the built-in PDF fonts can encode
+ */
+function toWinAnsi(text: string): string {
+  return stripEmoji(text)
+    .replace(/[→⇒➔]/g, '->')
+    .replace(/[←⇐]/g, '<-')
+    .replace(/[≈~]/g, '~')
+    .replace(/[^\n\t\x20-\x7e\xa0-\xff]/g, (char) => (WIN_ANSI_EXTRAS.includes(char) ? char : ''))
+    .replace(/ {2,}/g, ' ')
+    .trim();
+}
+
+/**
+ * Remove emoji and their modifiers
+ */
+function stripEmoji(text: string): string {
+  return text.replace(/\p{Extended_Pictographic}|\u{FE0F}|\u{200D}/gu, '').trim();
+}
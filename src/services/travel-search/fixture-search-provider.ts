@@ -0,0 +1,458 @@
+/**
+ * Fixture travel search provider - deterministic offers for offline development and tests
+ * @module services/travel-search/fixture-search-provider
+ *
+ * Offers come from a fixture file (or the bundled sample set). A fixture
+ * field of "*" matches any route or location, and "{origin}",
+ * "{destination}" and "{location}" in names are replaced with the search
+ * terms. When both specific and wildcard fixtures match, only the most
+ * specific ones are returned. Fixture prices keep their own currency.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { createTravelSearchError } from '../../core/errors.js';
+import type { TravelSearchError } from '../../core/errors.js';
+import { err, ok } from '../../core/result.js';
+import type { Result } from '../../core/result.js';
+import { CabinClass } from '../../domain/types/common.js';
+import type { TransferType } from '../../domain/types/common.js';
+import type { Address, Coordinates } from '../../domain/types/location.js';
+import { createMoney, fromMajorUnits } from '../../domain/types/money.js';
+import type { Money } from '../../domain/types/money.js';
+import type {
+  FlightOffer,
+  FlightSearchRequest,
+  HotelOffer,
+  HotelSearchRequest,
+  TransferOffer,
+  TransferSearchRequest,
+} from '../../domain/types/travel-search.js';
+import { getAirport } from '../../utils/airports.js';
+import { countNights, resolveAirportCode } from './travel-search-provider.js';
+import type { TravelSearchProvider } from './travel-search-provider.js';
+
+/**
+ * Price in a fixture file, in major units (e.g., 199.5 USD)
+ */
+export interface FixturePrice {
+  amount: number;
+  currency: string;
+}
+
+/**
+ * Flight fixture
+ */
+export interface FlightFixture {
+  /** Origin IATA code or "*" */
+  origin: string;
+  /** Destination IATA code or "*" */
+  destination: string;
+  airline: { name: string; code: string };
+  flightNumber: string;
+  /** Departure time of day (HH:mm, UTC) */
+  departureTime: string;
+  /** Total travel time including layovers */
+  durationMinutes: number;
+  /** Connection airports (default: nonstop) */
+  layovers?: string[];
+  /** Cabin class (default: the requested class, or economy) */
+  cabinClass?: CabinClass;
+  aircraft?: string;
+  /** Fare per seated passenger (lap infants fly free) */
+  price?: FixturePrice;
+}
+
+/**
+ * Hotel fixture
+ */
+export interface HotelFixture {
+  /** City or area the hotel is in, or "*" */
+  location: string;
+  name: string;
+  description?: string;
+  starRating?: number;
+  rating?: number;
+  reviewCount?: number;
+  pricePerNight?: FixturePrice;
+  address?: Address;
+  coordinates?: Coordinates;
+  checkInTime?: string;
+  checkOutTime?: string;
+  amenities?: string[];
+}
+
+/**
+ * Ground transport fixture
+ */
+export interface TransferFixture {
+  /** Origin place or code, or "*" */
+  origin: string;
+  /** Destination place or code, or "*" */
+  destination: string;
+  transferType: TransferType;
+  description: string;
+  durationMinutes?: number;
+  distanceKm?: number;
+  price?: FixturePrice;
+  operator?: string;
+}
+
+/**
+ * Contents of a fixture file
+ */
+export interface TravelSearchFixtures {
+  flights?: FlightFixture[];
+  hotels?: HotelFixture[];
+  transfers?: TransferFixture[];
+}
+
+const WILDCARD = '*';
+
+/**
+ * Sample offers bundled for offline use.
+ * Every route and city gets results; prices and times are illustrative only.
+ */
+export const SAMPLE_TRAVEL_SEARCH_FIXTURES: TravelSearchFixtures = {
+  flights: [
+    {
+      origin: WILDCARD,
+      destination: WILDCARD,
+      airline: { name: 'Sample Airways', code: 'ZZ' },
+      flightNumber: 'ZZ101',
+      departureTime: '08:05',
+      durationMinutes: 185,
+      aircraft: 'Airbus A320',
+      price: { amount: 289, currency: 'USD' },
+    },
+    {
+      origin: WILDCARD,
+      destination: WILDCARD,
+      airline: { name: 'Sample Airways', code: 'ZZ' },
+      flightNumber: 'ZZ245',
+      departureTime: '13:40',
+      durationMinutes: 305,
+      layovers: ['ORD'],
+      aircraft: 'Boeing 737-800',
+      price: { amount: 198, currency: 'USD' },
+    },
+    {
+      origin: WILDCARD,
+      destination: WILDCARD,
+      airline: { name: 'Sample Airways', code: 'ZZ' },
+      flightNumber: 'ZZ389',
+      departureTime: '19:20',
+      durationMinutes: 190,
+      aircraft: 'Airbus A321neo',
+      price: { amount: 342, currency: 'USD' },
+    },
+  ],
+  hotels: [
+    {
+      location: WILDCARD,
+      name: 'Grand Hotel {location}',
+      description: 'Historic five-star hotel in the city center',
+      starRating: 5,
+      rating: 4.7,
+      reviewCount: 2140,
+      pricePerNight: { amount: 420, currency: 'USD' },
+      checkInTime: '15:00',
+      checkOutTime: '12:00',
+      amenities: ['Free Wi-Fi', 'Spa', 'Restaurant', 'Fitness center'],
+    },
+    {
+      location: WILDCARD,
+      name: 'Hotel Central {location}',
+      description: 'Modern four-star hotel near public transport',
+      starRating: 4,
+      rating: 4.4,
+      reviewCount: 1385,
+      pricePerNight: { amount: 210, currency: 'USD' },
+      checkInTime: '15:00',
+      checkOutTime: '11:00',
+      amenities: ['Free Wi-Fi', 'Breakfast', 'Bar'],
+    },
+    {
+      location: WILDCARD,
+      name: 'City Inn {location}',
+      description: 'Simple, well-rated three-star rooms',
+      starRating: 3,
+      rating: 4.1,
+      reviewCount: 860,
+      pricePerNight: { amount: 125, currency: 'USD' },
+      checkInTime: '14:00',
+      checkOutTime: '11:00',
+      amenities: ['Free Wi-Fi'],
+    },
+  ],
+  transfers: [
+    {
+      origin: WILDCARD,
+      destination: WILDCARD,
+      transferType: 'TAXI',
+      description: 'Taxi from {origin} to {destination}',
+      durationMinutes: 35,
+      distanceKm: 21,
+      price: { amount: 55, currency: 'USD' },
+    },
+    {
+      origin: WILDCARD,
+      destination: WILDCARD,
+      transferType: 'PUBLIC',
+      description: 'Public transport from {origin} to {destination}',
+      durationMinutes: 55,
+      distanceKm: 21,
+      price: { amount: 4.5, currency: 'USD' },
+    },
+    {
+      origin: WILDCARD,
+      destination: WILDCARD,
+      transferType: 'PRIVATE',
+      description: 'Private car from {origin} to {destination}',
+      durationMinutes: 35,
+      distanceKm: 21,
+      price: { amount: 95, currency: 'USD' },
+      operator: 'Sample Chauffeurs',
+    },
+  ],
+};
+
+/**
+ * Travel search provider that serves offers from fixtures
+ */
+export class FixtureTravelSearchProvider implements TravelSearchProvider {
+  readonly name = 'fixture' as const;
+  private fixtures?: Promise<Result<TravelSearchFixtures, TravelSearchError>>;
+
+  /**
+   * Creates a fixture provider
+   * @param source - Fixtures, or path to a JSON fixture file read on first search
+   */
+  constructor(
+    private readonly source: TravelSearchFixtures | string = SAMPLE_TRAVEL_SEARCH_FIXTURES
+  ) {}
+
+  async searchFlights(
+    request: FlightSearchRequest
+  ): Promise<Result<FlightOffer[], TravelSearchError>> {
+    const fixturesResult = await this.load();
+    if (!fixturesResult.success) {
+      return fixturesResult;
+    }
+
+    const origin = resolveAirportCode(request.origin);
+    const destination = resolveAirportCode(request.destination);
+    if (!origin || !destination) {
+      return err(
+        createTravelSearchError(
+          'INVALID_SEARCH',
+          `Could not determine airport codes for ${request.origin} → ${request.destination}`
+        )
+      );
+    }
+
+    const passengers = (request.adults ?? 1) + (request.children ?? 0);
+    const maxStops = request.maxStops;
+    const matches = mostSpecific(
+      fixturesResult.value.flights ?? [],
+      (fixture) => matchCode(fixture.origin, origin) && matchCode(fixture.destination, destination),
+      (fixture) => [fixture.origin, fixture.destination]
+    ).filter(
+      ({ fixture }) => maxStops === undefined || (fixture.layovers ?? []).length <= maxStops
+    );
+
+    return ok(
+      matches.map(({ fixture, index }): FlightOffer => {
+        const departureTime = new Date(`${request.departureDate}T${fixture.departureTime}:00Z`);
+        const cabinClass = fixture.cabinClass ?? request.cabinClass ?? CabinClass.ECONOMY;
+        const layovers = fixture.layovers ?? [];
+
+        return {
+          id: `fixture-flight-${index}`,
+          provider: this.name,
+          airline: fixture.airline,
+          flightNumber: fixture.flightNumber,
+          origin: { code: origin, name: getAirport(origin)?.name ?? origin },
+          destination: { code: destination, name: getAirport(destination)?.name ?? destination },
+          departureTime,
+          arrivalTime: new Date(departureTime.getTime() + fixture.durationMinutes * 60 * 1000),
+          durationMinutes: fixture.durationMinutes,
+          stops: layovers.length,
+          layovers,
+          cabinClass,
+          ...(fixture.aircraft ? { aircraft: fixture.aircraft } : {}),
+          ...(fixture.price ? { price: toMoney(fixture.price, passengers) } : {}),
+        };
+      })
+    );
+  }
+
+  async searchHotels(
+    request: HotelSearchRequest
+  ): Promise<Result<HotelOffer[], TravelSearchError>> {
+    const fixturesResult = await this.load();
+    if (!fixturesResult.success) {
+      return fixturesResult;
+    }
+
+    const location = request.location.trim();
+    const nights = countNights(request.checkInDate, request.checkOutDate);
+    const matches = mostSpecific(
+      fixturesResult.value.hotels ?? [],
+      (fixture) => matchPlace(fixture.location, location),
+      (fixture) => [fixture.location]
+    );
+
+    return ok(
+      matches.map(
+        ({ fixture, index }): HotelOffer => ({
+          id: `fixture-hotel-${index}`,
+          provider: this.name,
+          name: fill(fixture.name, { location }),
+          ...(fixture.description ? { description: fill(fixture.description, { location }) } : {}),
+          ...(fixture.starRating !== undefined ? { starRating: fixture.starRating } : {}),
+          ...(fixture.rating !== undefined ? { rating: fixture.rating } : {}),
+          ...(fixture.reviewCount !== undefined ? { reviewCount: fixture.reviewCount } : {}),
+          ...(fixture.pricePerNight
+            ? {
+                pricePerNight: toMoney(fixture.pricePerNight),
+                totalPrice: toMoney(fixture.pricePerNight, nights),
+              }
+            : {}),
+          ...(fixture.address ? { address: fixture.address } : {}),
+          ...(fixture.coordinates ? { coordinates: fixture.coordinates } : {}),
+          ...(fixture.checkInTime ? { checkInTime: fixture.checkInTime } : {}),
+          ...(fixture.checkOutTime ? { checkOutTime: fixture.checkOutTime } : {}),
+          amenities: fixture.amenities ?? [],
+        })
+      )
+    );
+  }
+
+  async searchTransfers(
+    request: TransferSearchRequest
+  ): Promise<Result<TransferOffer[], TravelSearchError>> {
+    const fixturesResult = await this.load();
+    if (!fixturesResult.success) {
+      return fixturesResult;
+    }
+
+    const origin = request.origin.trim();
+    const destination = request.destination.trim();
+    const matches = mostSpecific(
+      fixturesResult.value.transfers ?? [],
+      (fixture) =>
+        matchPlace(fixture.origin, origin) && matchPlace(fixture.destination, destination),
+      (fixture) => [fixture.origin, fixture.destination]
+    );
+
+    return ok(
+      matches.map(
+        ({ fixture, index }): TransferOffer => ({
+          id: `fixture-transfer-${index}`,
+          provider: this.name,
+          transferType: fixture.transferType,
+          description: fill(fixture.description, { origin, destination }),
+          ...(fixture.durationMinutes !== undefined
+            ? { durationMinutes: fixture.durationMinutes }
+            : {}),
+          ...(fixture.distanceKm !== undefined ? { distanceKm: fixture.distanceKm } : {}),
+          ...(fixture.price ? { price: toMoney(fixture.price) } : {}),
+          ...(fixture.operator ? { operator: fixture.operator } : {}),
+        })
+      )
+    );
+  }
+
+  /**
+   * Load fixtures once, from memory or file
+   */
+  private load(): Promise<Result<TravelSearchFixtures, TravelSearchError>> {
+    if (!this.fixtures) {
+      const source = this.source;
+      this.fixtures =
+        typeof source === 'string' ? readFixtureFile(source) : Promise.resolve(ok(source));
+    }
+    return this.fixtures;
+  }
+}
+
+/**
+ * Read and check a JSON fixture file
+ */
+async function readFixtureFile(
+  filePath: string
+): Promise<Result<TravelSearchFixtures, TravelSearchError>> {
+  let fixtures: unknown;
+  try {
+    fixtures = JSON.parse(await readFile(filePath, 'utf-8'));
+  } catch (error) {
+    return err(
+      createTravelSearchError(
+        'NOT_CONFIGURED',
+        `Failed to read travel search fixtures from ${filePath}`,
+        {
+          error: error instanceof Error ? error.message : String(error),
+        }
+      )
+    );
+  }
+
+  if (!isTravelSearchFixtures(fixtures)) {
+    return err(
+      createTravelSearchError('NOT_CONFIGURED', `Malformed travel search fixtures in ${filePath}`)
+    );
+  }
+
+  return ok(fixtures);
+}
+
+function isTravelSearchFixtures(value: unknown): value is TravelSearchFixtures {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const fixtures = value as Record<string, unknown>;
+  return (['flights', 'hotels', 'transfers'] as const).every(
+    (key) => fixtures[key] === undefined || Array.isArray(fixtures[key])
+  );
+}
+
+/**
+ * Keep the matching fixtures with the fewest wildcards, in file order
+ */
+function mostSpecific<T>(
+  fixtures: T[],
+  matches: (fixture: T) => boolean,
+  keys: (fixture: T) => string[]
+): Array<{ fixture: T; index: number }> {
+  const matched = fixtures
+    .map((fixture, index) => ({
+      fixture,
+      index,
+      specificity: keys(fixture).filter((key) => key !== WILDCARD).length,
+    }))
+    .filter(({ fixture }) => matches(fixture));
+
+  const best = Math.max(...matched.map((match) => match.specificity));
+  return matched
+    .filter((match) => match.specificity === best)
+    .map(({ fixture, index }) => ({ fixture, index }));
+}
+
+function matchCode(pattern: string, code: string): boolean {
+  return pattern === WILDCARD || pattern.toUpperCase() === code;
+}
+
+function matchPlace(pattern: string, text: string): boolean {
+  return pattern === WILDCARD || text.toLowerCase().includes(pattern.toLowerCase());
+}
+
+/**
+ * Replace {placeholders} with search terms
+ */
+function fill(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+}
+
+function toMoney(price: FixturePrice, quantity = 1): Money {
+  return createMoney(fromMajorUnits(price.amount * quantity, price.currency), price.currency);
+}
@@ -0,0 +1,158 @@
+/**
+ * Flight offer ranking - scores offers on price, duration, stops and airline
+ * @module services/travel-search/flight-ranking
+ */
+
+import type { Money } from '../../domain/types/money.js';
+import type {
+  FlightOffer,
+  FlightOfferLabel,
+  FlightOfferScores,
+  RankedFlightOffer,
+} from '../../domain/types/travel-search.js';
+
+/**
+ * Relative weight of each score component
+ */
+export interface FlightRankingWeights {
+  price: number;
+  duration: number;
+  stops: number;
+  /** Only applied when preferred airlines are given */
+  airline: number;
+}
+
+/**
+ * Default weights: price matters most, then travel time, then connections
+ */
+export const DEFAULT_FLIGHT_RANKING_WEIGHTS: FlightRankingWeights = {
+  price: 0.5,
+  duration: 0.3,
+  stops: 0.2,
+  airline: 0.15,
+};
+
+/**
+ * Ranking options
+ */
+export interface FlightRankingOptions {
+  /** Airline IATA codes to rank higher */
+  preferredAirlines?: string[];
+  /** Drop offers with more connections than this */
+  maxStops?: number;
+  /** Override default weights */
+  weights?: Partial<FlightRankingWeights>;
+}
+
+/**
+ * Rank flight offers, best first
+ *
+ * Each component is scored against the best offer in the set (cheapest fare,
+ * shortest travel time), so scores are only comparable within one search.
+ * Fares are compared in the most common currency; offers without a
+ * comparable fare score 0 on price. Ties go to the cheaper, then earlier flight.
+ *
+ * @param offers - Offers from one search
+ * @param options - Preferences and weights
+ * @returns Ranked offers
+ */
+export function rankFlightOffers(
+  offers: FlightOffer[],
+  options: FlightRankingOptions = {}
+): RankedFlightOffer[] {
+  const weights = { ...DEFAULT_FLIGHT_RANKING_WEIGHTS, ...options.weights };
+  const preferred = new Set((options.preferredAirlines ?? []).map((code) => code.toUpperCase()));
+  const maxStops = options.maxStops;
+  const candidates =
+    maxStops === undefined ? offers : offers.filter((offer) => offer.stops <= maxStops);
+
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const currency = mostCommonCurrency(candidates);
+  const comparablePrice = (offer: FlightOffer): number | undefined =>
+    offer.price && offer.price.currency === currency && offer.price.amount > 0
+      ? offer.price.amount
+      : undefined;
+
+  const prices = candidates.flatMap((offer) => {
+    const price = comparablePrice(offer);
+    return price === undefined ? [] : [price];
+  });
+  const cheapest = prices.length > 0 ? Math.min(...prices) : undefined;
+  const fastest = Math.min(...candidates.map((offer) => offer.durationMinutes));
+  const fewestStops = Math.min(...candidates.map((offer) => offer.stops));
+
+  const totalWeight =
+    weights.price + weights.duration + weights.stops + (preferred.size > 0 ? weights.airline : 0);
+
+  const scored = candidates.map((offer) => {
+    const price = comparablePrice(offer);
+    const isPreferred = preferred.has(offer.airline.code.toUpperCase());
+    const scores: FlightOfferScores = {
+      price: price !== undefined && cheapest !== undefined ? cheapest / price : 0,
+      duration: offer.durationMinutes > 0 ? fastest / offer.durationMinutes : 0,
+      stops: 1 / (1 + offer.stops),
+      airline: isPreferred ? 1 : 0,
+    };
+    const weighted =
+      weights.price * scores.price +
+      weights.duration * scores.duration +
+      weights.stops * scores.stops +
+      (preferred.size > 0 ? weights.airline * scores.airline : 0);
+
+    const labels: FlightOfferLabel[] = [];
+    if (price !== undefined && price === cheapest) labels.push('cheapest');
+    if (offer.durationMinutes === fastest) labels.push('fastest');
+    if (offer.stops === fewestStops) labels.push('fewest_stops');
+    if (isPreferred) labels.push('preferred_airline');
+
+    return {
+      offer,
+      scores: roundScores(scores),
+      score: round(totalWeight > 0 ? weighted / totalWeight : 0),
+      labels,
+      sortPrice: price ?? Number.POSITIVE_INFINITY,
+    };
+  });
+
+  scored.sort(
+    (a, b) =>
+      b.score - a.score ||
+      a.sortPrice - b.sortPrice ||
+      a.offer.departureTime.getTime() - b.offer.departureTime.getTime()
+  );
+
+  return scored.map(({ offer, score, scores, labels }, index) => ({
+    rank: index + 1,
+    score,
+    scores,
+    labels: index === 0 ? ['best', ...labels] : labels,
+    offer,
+  }));
+}
+
+/**
+ * Currency used by most priced offers
+ */
+function mostCommonCurrency(offers: FlightOffer[]): string | undefined {
+  const counts = new Map<string, number>();
+  for (const price of offers.flatMap((offer): Money[] => (offer.price ? [offer.price] : []))) {
+    counts.set(price.currency, (counts.get(price.currency) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+function roundScores(scores: FlightOfferScores): FlightOfferScores {
+  return {
+    price: round(scores.price),
+    duration: round(scores.duration),
+    stops: round(scores.stops),
+    airline: scores.airline,
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,194 @@
+/**
+ * Flight query search - runs one-way, round-trip and multi-city queries and ranks the offers
+ * @module services/travel-search/flight-search
+ */
+
+import { createTravelSearchError } from '../../core/errors.js';
+import type { TravelSearchError } from '../../core/errors.js';
+import { err, ok } from '../../core/result.js';
+import type { Result } from '../../core/result.js';
+import type {
+  FlightLegResults,
+  FlightOffer,
+  FlightQuery,
+  FlightQueryLeg,
+  FlightSearchRequest,
+  FlightSearchResults,
+  FlightTripType,
+} from '../../domain/types/travel-search.js';
+import { rankFlightOffers } from './flight-ranking.js';
+import type { FlightRankingWeights } from './flight-ranking.js';
+import { resolveAirportCode } from './travel-search-provider.js';
+import type { TravelSearchProvider } from './travel-search-provider.js';
+
+/** Most legs in one query */
+export const MAX_FLIGHT_QUERY_LEGS = 6;
+
+/** Widest date window, in days either side of a leg date */
+export const MAX_FLIGHT_DATE_WINDOW_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Search every leg of a flight query and rank the offers per leg
+ *
+ * Legs and window dates are searched one after another to stay within
+ * provider rate limits. A leg fails only when every date searched for it fails.
+ *
+ * @param provider - Travel search provider
+ * @param query - Flight query
+ * @param weights - Ranking weight overrides
+ * @returns Ranked offers per leg, or INVALID_SEARCH / provider error
+ */
+export async function searchFlightOffers(
+  provider: TravelSearchProvider,
+  query: FlightQuery,
+  weights?: Partial<FlightRankingWeights>
+): Promise<Result<FlightSearchResults, TravelSearchError>> {
+  const validation = validateFlightQuery(query);
+  if (!validation.success) {
+    return validation;
+  }
+
+  const window = Math.min(
+    Math.max(Math.floor(query.dateWindowDays ?? 0), 0),
+    MAX_FLIGHT_DATE_WINDOW_DAYS
+  );
+  const passengers = query.passengers;
+  const legs: FlightLegResults[] = [];
+
+  for (const [legIndex, leg] of query.legs.entries()) {
+    const searchedDates = windowDates(leg.date, window);
+    const offers: FlightOffer[] = [];
+    let lastError: TravelSearchError | undefined;
+    let succeeded = 0;
+
+    for (const date of searchedDates) {
+      const request: FlightSearchRequest = {
+        origin: leg.origin,
+        destination: leg.destination,
+        departureDate: date,
+        ...(passengers ? { adults: passengers.adults } : {}),
+        ...(passengers?.children ? { children: passengers.children } : {}),
+        ...(passengers?.infants ? { infants: passengers.infants } : {}),
+        ...(query.cabinClass ? { cabinClass: query.cabinClass } : {}),
+        ...(query.maxStops !== undefined ? { maxStops: query.maxStops } : {}),
+        ...(query.currency ? { currency: query.currency } : {}),
+      };
+
+      const result = await provider.searchFlights(request);
+      if (!result.success) {
+        lastError = result.error;
+        continue;
+      }
+
+      succeeded++;
+      // Offer IDs are only unique within one provider search
+      offers.push(
+        ...(window > 0
+          ? result.value.map((offer) => ({ ...offer, id: `${offer.id}-${date}` }))
+          : result.value)
+      );
+    }
+
+    if (succeeded === 0 && lastError) {
+      return err(lastError);
+    }
+
+    legs.push({
+      legIndex,
+      leg,
+      searchedDates,
+      offers: rankFlightOffers(offers, {
+        ...(query.preferredAirlines ? { preferredAirlines: query.preferredAirlines } : {}),
+        ...(query.maxStops !== undefined ? { maxStops: query.maxStops } : {}),
+        ...(weights ? { weights } : {}),
+      }),
+    });
+  }
+
+  return ok({ tripType: flightTripType(query.legs), legs });
+}
+
+/**
+ * Infer the trip shape from the legs
+ * Two legs are a round trip when the second reverses the first.
+ */
+export function flightTripType(legs: FlightQueryLeg[]): FlightTripType {
+  const [outbound, inbound, ...rest] = legs;
+  if (!outbound || !inbound) {
+    return 'one_way';
+  }
+  if (
+    rest.length === 0 &&
+    sameAirport(outbound.origin, inbound.destination) &&
+    sameAirport(outbound.destination, inbound.origin)
+  ) {
+    return 'round_trip';
+  }
+  return 'multi_city';
+}
+
+function validateFlightQuery(query: FlightQuery): Result<void, TravelSearchError> {
+  if (query.legs.length === 0) {
+    return err(createTravelSearchError('INVALID_SEARCH', 'Flight query needs at least one leg'));
+  }
+  if (query.legs.length > MAX_FLIGHT_QUERY_LEGS) {
+    return err(
+      createTravelSearchError(
+        'INVALID_SEARCH',
+        `Flight query has ${query.legs.length} legs (maximum ${MAX_FLIGHT_QUERY_LEGS})`
+      )
+    );
+  }
+
+  for (const [index, leg] of query.legs.entries()) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(leg.date) || Number.isNaN(Date.parse(leg.date))) {
+      return err(
+        createTravelSearchError(
+          'INVALID_SEARCH',
+          `Leg ${index + 1} has an invalid date: ${leg.date}`
+        )
+      );
+    }
+    const previous = query.legs[index - 1];
+    if (previous && leg.date < previous.date) {
+      return err(
+        createTravelSearchError(
+          'INVALID_SEARCH',
+          `Leg ${index + 1} departs before leg ${index} (${leg.date} < ${previous.date})`
+        )
+      );
+    }
+  }
+
+  const passengers = query.passengers;
+  if (passengers && passengers.adults < 1) {
+    return err(createTravelSearchError('INVALID_SEARCH', 'Flight query needs at least one adult'));
+  }
+  if (passengers && passengers.infants > passengers.adults) {
+    return err(
+      createTravelSearchError('INVALID_SEARCH', 'Each lap infant must travel with an adult')
+    );
+  }
+
+  return ok(undefined);
+}
+
+/**
+ * Dates from `window` days before to `window` days after a date, nearest first
+ */
+function windowDates(date: string, window: number): string[] {
+  const center = Date.parse(`${date}T12:00:00Z`);
+  const offsets = [0];
+  for (let day = 1; day <= window; day++) {
+    offsets.push(-day, day);
+  }
+  return offsets.map((offset) => new Date(center + offset * DAY_MS).toISOString().slice(0, 10));
+}
+
+function sameAirport(a: string, b: string): boolean {
+  const codeA = resolveAirportCode(a) ?? a.trim().toUpperCase();
+  const codeB = resolveAirportCode(b) ?? b.trim().toUpperCase();
+  return codeA === codeB;
+}
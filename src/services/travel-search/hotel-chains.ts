@@ -0,0 +1,149 @@
+/**
+ * Hotel chains - brands and loyalty programs of the large hotel groups
+ * @module services/travel-search/hotel-chains
+ */
+
+/**
+ * Hotel chain with its loyalty program and brands
+ */
+export interface HotelChain {
+  /** Chain name (e.g., "Marriott") */
+  name: string;
+  /** Loyalty program name (e.g., "Marriott Bonvoy") */
+  program: string;
+  /** Codes and names travelers use for the program, upper case */
+  programCodes: string[];
+  /** Brand names found in property names, lower case */
+  brands: string[];
+}
+
+/**
+ * Known hotel chains
+ * Brands are matched as substrings of property names, so generic words are left out.
+ */
+export const HOTEL_CHAINS: HotelChain[] = [
+  {
+    name: 'Marriott',
+    program: 'Marriott Bonvoy',
+    programCodes: ['MAR', 'MARRIOTT', 'BONVOY', 'MARRIOTT BONVOY'],
+    brands: [
+      'jw marriott',
+      'ritz-carlton',
+      'ritz carlton',
+      'st. regis',
+      'st regis',
+      'le meridien',
+      'four points',
+      'residence inn',
+      'autograph collection',
+      'sheraton',
+      'westin',
+      'courtyard',
+      'renaissance',
+      'aloft',
+      'moxy',
+      'fairfield',
+      'marriott',
+    ],
+  },
+  {
+    name: 'Hilton',
+    program: 'Hilton Honors',
+    programCodes: ['HH', 'HILTON', 'HHONORS', 'HILTON HONORS'],
+    brands: [
+      'waldorf astoria',
+      'embassy suites',
+      'hampton inn',
+      'homewood suites',
+      'curio collection',
+      'doubletree',
+      'conrad',
+      'canopy',
+      'tapestry',
+      'hilton',
+    ],
+  },
+  {
+    name: 'Hyatt',
+    program: 'World of Hyatt',
+    programCodes: ['HY', 'WOH', 'HYATT', 'WORLD OF HYATT'],
+    brands: ['park hyatt', 'grand hyatt', 'andaz', 'alila', 'thompson', 'hyatt'],
+  },
+  {
+    name: 'IHG',
+    program: 'IHG One Rewards',
+    programCodes: ['IHG', 'IHG ONE REWARDS', 'IHG REWARDS'],
+    brands: [
+      'intercontinental',
+      'crowne plaza',
+      'holiday inn',
+      'staybridge',
+      'kimpton',
+      'hotel indigo',
+      'six senses',
+      'voco',
+    ],
+  },
+  {
+    name: 'Accor',
+    program: 'ALL Accor',
+    programCodes: ['ACC', 'ALL', 'ACCOR', 'ALL ACCOR'],
+    brands: [
+      'fairmont',
+      'raffles',
+      'sofitel',
+      'pullman',
+      'swissotel',
+      'novotel',
+      'mercure',
+      'ibis',
+    ],
+  },
+  {
+    name: 'Wyndham',
+    program: 'Wyndham Rewards',
+    programCodes: ['WYN', 'WYNDHAM', 'WYNDHAM REWARDS'],
+    brands: ['la quinta', 'days inn', 'super 8', 'ramada', 'wyndham'],
+  },
+  {
+    name: 'Best Western',
+    program: 'Best Western Rewards',
+    programCodes: ['BW', 'BEST WESTERN', 'BEST WESTERN REWARDS'],
+    brands: ['best western'],
+  },
+];
+
+/**
+ * Chain a property belongs to, from its name
+ * @param propertyName - Hotel name (e.g., "Courtyard London City")
+ * @returns Chain, or undefined for independent and unknown properties
+ */
+export function findHotelChain(propertyName: string): HotelChain | undefined {
+  const name = propertyName.toLowerCase();
+  return HOTEL_CHAINS.find((chain) => chain.brands.some((brand) => name.includes(brand)));
+}
+
+/**
+ * Chain of a loyalty program, from the code or name a traveler stored
+ * @param carrier - Program code or name (e.g., "MAR", "Hilton Honors")
+ * @returns Chain, or undefined for airline and unknown programs
+ */
+export function findLoyaltyChain(carrier: string): HotelChain | undefined {
+  const code = carrier.trim().toUpperCase();
+  return HOTEL_CHAINS.find((chain) => chain.programCodes.includes(code));
+}
+
+/**
+ * Whether a preferred chain or brand name matches a chain
+ * @param preference - Chain or brand the traveler prefers (e.g., "Marriott", "Westin")
+ * @param chain - Chain to match
+ */
+export function matchesHotelChain(preference: string, chain: HotelChain): boolean {
+  const name = preference.trim().toLowerCase();
+  return (
+    name.length > 0 &&
+    (chain.name.toLowerCase() === name ||
+      chain.program.toLowerCase() === name ||
+      chain.brands.includes(name))
+  );
+}
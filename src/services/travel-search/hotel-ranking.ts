@@ -0,0 +1,284 @@
+/**
+ * Hotel offer ranking - scores offers on price, rating, tier, chain, location and needs
+ * @module services/travel-search/hotel-ranking
+ */
+
+import type { Money } from '../../domain/types/money.js';
+import type {
+  HotelOffer,
+  HotelOfferScores,
+  HotelRecommendationCriteria,
+  HotelStayPlace,
+  RankedHotelOffer,
+} from '../../domain/types/travel-search.js';
+import { haversineKm } from '../../utils/airports.js';
+import { findHotelChain, findLoyaltyChain, matchesHotelChain } from './hotel-chains.js';
+
+/**
+ * Relative weight of each score component
+ * Components other than price and rating only apply when the criteria ask for them.
+ */
+export interface HotelRankingWeights {
+  price: number;
+  rating: number;
+  tier: number;
+  chain: number;
+  location: number;
+  accessibility: number;
+  accommodation: number;
+}
+
+/**
+ * Default weights: price and closeness to the plans matter most
+ */
+export const DEFAULT_HOTEL_RANKING_WEIGHTS: HotelRankingWeights = {
+  price: 0.3,
+  rating: 0.25,
+  tier: 0.15,
+  chain: 0.2,
+  location: 0.3,
+  accessibility: 0.2,
+  accommodation: 0.1,
+};
+
+/**
+ * Words that identify an accommodation type in a property name or description
+ * 'hotel' is no preference; unknown types are matched by their own name.
+ */
+const ACCOMMODATION_KEYWORDS: Record<string, string[]> = {
+  hotel: [],
+  resort: ['resort'],
+  boutique: ['boutique', 'design hotel'],
+  hostel: ['hostel'],
+  airbnb: ['apartment', 'aparthotel', 'residence', 'villa', 'home'],
+};
+
+/** Amenities that list step-free or adapted access */
+const ACCESSIBLE_AMENITY = /accessib|wheelchair|step-free|roll-in|mobility/i;
+
+/**
+ * Rank hotel offers, best first, with the reasons behind each ranking
+ *
+ * Offers more than one star from the target rating are dropped. When
+ * accessibility is needed, offers that list no accessible amenity are dropped
+ * too, unless none of them list one. Price is scored against the cheapest
+ * nightly rate in the most common currency, so scores are only comparable
+ * within one search. Ties go to the cheaper, then better rated hotel.
+ *
+ * @param offers - Offers from one search
+ * @param criteria - Preferences and planned places
+ * @param weights - Override default weights
+ * @returns Ranked offers
+ */
+export function rankHotelOffers(
+  offers: HotelOffer[],
+  criteria: HotelRecommendationCriteria = {},
+  weights: Partial<HotelRankingWeights> = {}
+): RankedHotelOffer[] {
+  const weight = { ...DEFAULT_HOTEL_RANKING_WEIGHTS, ...weights };
+  const target = criteria.starRating;
+  const inTier =
+    target === undefined
+      ? offers
+      : offers.filter((offer) => Math.abs((offer.starRating ?? 3) - target) <= 1);
+
+  const needsAccess = (criteria.accessibility ?? []).some((need) => need.trim().length > 0);
+  const accessible = inTier.filter((offer) => accessibleAmenity(offer) !== undefined);
+  const candidates = needsAccess && accessible.length > 0 ? accessible : inTier;
+
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const preferredChains = (criteria.preferredChains ?? []).filter((name) => name.trim());
+  const memberships = (criteria.loyaltyPrograms ?? []).flatMap((program) => {
+    const chain = findLoyaltyChain(program.carrier);
+    return chain ? [{ chain, tier: program.tier }] : [];
+  });
+  const places = criteria.places ?? [];
+  const keywords = accommodationKeywords(criteria.accommodationType);
+
+  const applies = {
+    price: true,
+    rating: true,
+    tier: target !== undefined,
+    chain: preferredChains.length > 0 || memberships.length > 0,
+    location: places.length > 0 && candidates.some((offer) => offer.coordinates),
+    accessibility: needsAccess,
+    accommodation: keywords.length > 0,
+  };
+  const components = Object.keys(weight) as Array<keyof HotelRankingWeights>;
+  const totalWeight = components.reduce(
+    (sum, component) => sum + (applies[component] ? weight[component] : 0),
+    0
+  );
+
+  const currency = mostCommonCurrency(candidates);
+  const comparablePrice = (offer: HotelOffer): number | undefined =>
+    offer.pricePerNight &&
+    offer.pricePerNight.currency === currency &&
+    offer.pricePerNight.amount > 0
+      ? offer.pricePerNight.amount
+      : undefined;
+  const prices = candidates.flatMap((offer) => {
+    const price = comparablePrice(offer);
+    return price === undefined ? [] : [price];
+  });
+  const cheapest = prices.length > 0 ? Math.min(...prices) : undefined;
+
+  const scored = candidates.map((offer) => {
+    const reasons: string[] = [];
+    const chain = findHotelChain(offer.name);
+
+    // Status with the chain says more than a plain preference
+    const membership = chain ? memberships.find((member) => member.chain === chain) : undefined;
+    const preferredChain = preferredChains.find((name) =>
+      chain ? matchesHotelChain(name, chain) : offer.name.toLowerCase().includes(name.toLowerCase())
+    );
+    if (membership) {
+      const program = membership.chain.program;
+      reasons.push(membership.tier ? `${program} ${membership.tier}` : `${program} member`);
+    } else if (preferredChain) {
+      reasons.push(`Preferred chain (${chain?.name ?? preferredChain})`);
+    }
+
+    const distances = offer.coordinates ? placeDistances(offer.coordinates, places) : [];
+    const nearest = distances.sort((a, b) => a.distanceKm - b.distanceKm)[0];
+    if (nearest) {
+      reasons.push(`${formatDistance(nearest.distanceKm)} from ${nearest.name}`);
+    }
+    const averageKm =
+      distances.length > 0
+        ? distances.reduce((sum, place) => sum + place.distanceKm, 0) / distances.length
+        : undefined;
+
+    const amenity = needsAccess ? accessibleAmenity(offer) : undefined;
+    if (needsAccess) {
+      reasons.push(amenity ?? 'Accessibility not listed, check with the hotel');
+    }
+
+    const text = `${offer.name} ${offer.description ?? ''}`.toLowerCase();
+    const isAccommodationType = keywords.some((keyword) => text.includes(keyword));
+    if (isAccommodationType && criteria.accommodationType) {
+      reasons.push(`Matches ${criteria.accommodationType.trim().toLowerCase()} preference`);
+    }
+
+    const price = comparablePrice(offer);
+    if (price !== undefined && price === cheapest && prices.some((other) => other > price)) {
+      reasons.push('Lowest nightly rate');
+    }
+    if (offer.rating !== undefined && offer.rating >= 4.5) {
+      reasons.push(`Guest rating ${offer.rating}`);
+    }
+
+    const scores: HotelOfferScores = {
+      price: price !== undefined && cheapest !== undefined ? cheapest / price : 0,
+      rating: offer.rating !== undefined ? Math.min(offer.rating / 5, 1) : 0,
+      tier:
+        target !== undefined ? 1 - Math.min(Math.abs((offer.starRating ?? 3) - target), 4) / 4 : 0,
+      chain: membership || preferredChain ? 1 : 0,
+      location: averageKm !== undefined ? 1 / (1 + averageKm) : 0,
+      accessibility: amenity ? 1 : 0,
+      accommodation: isAccommodationType ? 1 : 0,
+    };
+    const weighted = components.reduce(
+      (sum, component) => sum + (applies[component] ? weight[component] * scores[component] : 0),
+      0
+    );
+
+    return {
+      offer,
+      scores: roundScores(scores),
+      score: round(totalWeight > 0 ? weighted / totalWeight : 0),
+      reasons,
+      chain,
+      nearest,
+      sortPrice: price ?? Number.POSITIVE_INFINITY,
+    };
+  });
+
+  scored.sort(
+    (a, b) =>
+      b.score - a.score ||
+      a.sortPrice - b.sortPrice ||
+      (b.offer.rating ?? 0) - (a.offer.rating ?? 0)
+  );
+
+  return scored.map(({ offer, score, scores, reasons, chain, nearest }, index) => ({
+    rank: index + 1,
+    score,
+    scores,
+    reasons,
+    ...(chain ? { chain: chain.name } : {}),
+    ...(nearest
+      ? { nearestPlace: { name: nearest.name, distanceKm: round(nearest.distanceKm) } }
+      : {}),
+    offer,
+  }));
+}
+
+/**
+ * Format a distance for a ranking reason ("400 m", "1.2 km")
+ */
+export function formatDistance(distanceKm: number): string {
+  if (distanceKm < 1) {
+    return `${Math.max(Math.round((distanceKm * 1000) / 50) * 50, 50)} m`;
+  }
+  return `${distanceKm.toFixed(1)} km`;
+}
+
+function placeDistances(
+  coordinates: { latitude: number; longitude: number },
+  places: HotelStayPlace[]
+): Array<{ name: string; distanceKm: number }> {
+  return places.map((place) => ({
+    name: place.name,
+    distanceKm: haversineKm(
+      coordinates.latitude,
+      coordinates.longitude,
+      place.coordinates.latitude,
+      place.coordinates.longitude
+    ),
+  }));
+}
+
+function accessibleAmenity(offer: HotelOffer): string | undefined {
+  return offer.amenities.find((amenity) => ACCESSIBLE_AMENITY.test(amenity));
+}
+
+function accommodationKeywords(accommodationType: string | undefined): string[] {
+  const type = accommodationType?.trim().toLowerCase();
+  if (!type) {
+    return [];
+  }
+  return ACCOMMODATION_KEYWORDS[type] ?? [type];
+}
+
+/**
+ * Currency used by most priced offers
+ */
+function mostCommonCurrency(offers: HotelOffer[]): string | undefined {
+  const counts = new Map<string, number>();
+  for (const price of offers.flatMap((offer): Money[] =>
+    offer.pricePerNight ? [offer.pricePerNight] : []
+  )) {
+    counts.set(price.currency, (counts.get(price.currency) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+function roundScores(scores: HotelOfferScores): HotelOfferScores {
+  return {
+    price: round(scores.price),
+    rating: round(scores.rating),
+    tier: round(scores.tier),
+    chain: scores.chain,
+    location: round(scores.location),
+    accessibility: scores.accessibility,
+    accommodation: scores.accommodation,
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,76 @@
+/**
+ * Travel search providers
+ * @module services/travel-search
+ */
+
+import { createTravelSearchError } from '../../core/errors.js';
+import type { TravelSearchError } from '../../core/errors.js';
+import { err, ok } from '../../core/result.js';
+import type { Result } from '../../core/result.js';
+import type { TravelSearchConfig } from '../../domain/types/travel-search.js';
+import { FixtureTravelSearchProvider } from './fixture-search-provider.js';
+import { SerpApiTravelSearchProvider } from './serpapi-search-provider.js';
+import type { TravelSearchProvider } from './travel-search-provider.js';
+
+export type { TravelSearchProvider } from './travel-search-provider.js';
+export { countNights, resolveAirportCode } from './travel-search-provider.js';
+export {
+  DEFAULT_FLIGHT_RANKING_WEIGHTS,
+  rankFlightOffers,
+} from './flight-ranking.js';
+export type { FlightRankingOptions, FlightRankingWeights } from './flight-ranking.js';
+export { DEFAULT_HOTEL_RANKING_WEIGHTS, formatDistance, rankHotelOffers } from './hotel-ranking.js';
+export type { HotelRankingWeights } from './hotel-ranking.js';
+export {
+  HOTEL_CHAINS,
+  findHotelChain,
+  findLoyaltyChain,
+  matchesHotelChain,
+} from './hotel-chains.js';
+export type { HotelChain } from './hotel-chains.js';
+export {
+  MAX_FLIGHT_DATE_WINDOW_DAYS,
+  MAX_FLIGHT_QUERY_LEGS,
+  flightTripType,
+  searchFlightOffers,
+} from './flight-search.js';
+export { SerpApiTravelSearchProvider } from './serpapi-search-provider.js';
+export type { SerpApiSearchConfig } from './serpapi-search-provider.js';
+export {
+  FixtureTravelSearchProvider,
+  SAMPLE_TRAVEL_SEARCH_FIXTURES,
+} from './fixture-search-provider.js';
+export type {
+  FixturePrice,
+  FlightFixture,
+  HotelFixture,
+  TransferFixture,
+  TravelSearchFixtures,
+} from './fixture-search-provider.js';
+
+/**
+ * Creates the configured travel search provider
+ * - provider 'serpapi' requires a SerpAPI key
+ * - provider 'fixture' reads fixturePath, or uses the bundled sample offers
+ * - without a provider, uses SerpAPI when a key is set and fixtures otherwise
+ * @param config - Travel search configuration
+ * @returns Provider, or NOT_CONFIGURED if SerpAPI is selected without a key
+ */
+export function createTravelSearchProvider(
+  config: TravelSearchConfig = {}
+): Result<TravelSearchProvider, TravelSearchError> {
+  const provider = config.provider ?? (config.serpapiKey ? 'serpapi' : 'fixture');
+
+  if (provider === 'serpapi') {
+    if (!config.serpapiKey) {
+      return err(
+        createTravelSearchError('NOT_CONFIGURED', 'SerpAPI travel search requires an API key', {
+          hint: 'Set serpapi.apiKey in .itinerizer/config.yaml or SERPAPI_KEY',
+        })
+      );
+    }
+    return ok(new SerpApiTravelSearchProvider({ apiKey: config.serpapiKey }));
+  }
+
+  return ok(new FixtureTravelSearchProvider(config.fixturePath));
+}
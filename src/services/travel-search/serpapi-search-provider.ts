@@ -0,0 +1,418 @@
+/**
+ * SerpAPI travel search provider - Google Flights, Google Hotels and Google Maps directions
+ * @module services/travel-search/serpapi-search-provider
+ */
+
+import { createTravelSearchError } from '../../core/errors.js';
+import type { TravelSearchError } from '../../core/errors.js';
+import { err, ok } from '../../core/result.js';
+import type { Result } from '../../core/result.js';
+import { CabinClass, TransferType } from '../../domain/types/common.js';
+import { createMoney, fromMajorUnits } from '../../domain/types/money.js';
+import type { Money } from '../../domain/types/money.js';
+import type {
+  FlightOffer,
+  FlightSearchRequest,
+  HotelOffer,
+  HotelSearchRequest,
+  TransferOffer,
+  TransferSearchRequest,
+} from '../../domain/types/travel-search.js';
+import { countNights, resolveAirportCode } from './travel-search-provider.js';
+import type { TravelSearchProvider } from './travel-search-provider.js';
+
+/**
+ * SerpAPI provider configuration
+ */
+export interface SerpApiSearchConfig {
+  /** SerpAPI API key */
+  apiKey: string;
+  /** Currency for prices (default: USD) */
+  currency?: string;
+  /** Search endpoint (default: https://serpapi.com/search) */
+  baseUrl?: string;
+}
+
+/**
+ * Flight leg in a SerpAPI Google Flights response (simplified)
+ */
+interface SerpApiFlight {
+  departure_airport: { id: string; name: string; time?: string };
+  arrival_airport: { id: string; name: string; time?: string };
+  airline: string;
+  flight_number?: string;
+  /** Older responses put the times on the leg instead of the airports */
+  departure_time?: string;
+  arrival_time?: string;
+  duration: number;
+  airplane?: string;
+  travel_class?: string;
+}
+
+/**
+ * Flight option (one or more legs) in a SerpAPI Google Flights response
+ */
+interface SerpApiFlightOption {
+  flights: SerpApiFlight[];
+  layovers?: Array<{ id: string; name?: string; duration?: number }>;
+  total_duration?: number;
+  price?: number;
+  type?: string;
+}
+
+/**
+ * SerpAPI Google Flights response (simplified)
+ */
+interface SerpApiFlightResponse {
+  best_flights?: SerpApiFlightOption[];
+  other_flights?: SerpApiFlightOption[];
+  search_metadata?: { google_flights_url?: string };
+  error?: string;
+}
+
+/**
+ * SerpAPI Google Hotels response (simplified)
+ */
+interface SerpApiHotelResponse {
+  properties?: Array<{
+    name: string;
+    description?: string;
+    gps_coordinates?: { latitude: number; longitude: number };
+    check_in_time?: string;
+    check_out_time?: string;
+    rate_per_night?: { lowest?: string; extracted_lowest?: number };
+    total_rate?: { lowest?: string; extracted_lowest?: number };
+    overall_rating?: number;
+    reviews?: number;
+    hotel_class?: string;
+    extracted_hotel_class?: number;
+    amenities?: string[];
+    link?: string;
+  }>;
+  error?: string;
+}
+
+/**
+ * SerpAPI Google Maps directions response (simplified)
+ */
+interface SerpApiDirectionsResponse {
+  directions?: Array<{
+    travel_mode?: string;
+    via?: string;
+    /** Meters */
+    distance?: number;
+    /** Seconds */
+    duration?: number;
+    cost?: number;
+    currency?: string;
+  }>;
+  error?: string;
+}
+
+/** SerpAPI `travel_class` values by cabin */
+const TRAVEL_CLASS_PARAM: Record<CabinClass, string> = {
+  ECONOMY: '1',
+  PREMIUM_ECONOMY: '2',
+  BUSINESS: '3',
+  FIRST: '4',
+};
+
+/** SerpAPI `stops` values by maximum connections (0 = any) */
+const STOPS_PARAM = ['1', '2', '3'];
+
+/** Transfer types by Google Maps travel mode */
+const TRANSFER_TYPE_BY_MODE: Record<string, TransferType> = {
+  driving: TransferType.TAXI,
+  transit: TransferType.PUBLIC,
+  walking: TransferType.WALKING,
+  cycling: TransferType.OTHER,
+};
+
+/**
+ * Travel search provider backed by SerpAPI's Google engines
+ */
+export class SerpApiTravelSearchProvider implements TravelSearchProvider {
+  readonly name = 'serpapi' as const;
+  private readonly apiKey: string;
+  private readonly currency: string;
+  private readonly baseUrl: string;
+
+  /**
+   * Creates a SerpAPI provider
+   * @param config - API key and optional currency / endpoint
+   */
+  constructor(config: SerpApiSearchConfig) {
+    this.apiKey = config.apiKey;
+    this.currency = config.currency ?? 'USD';
+    this.baseUrl = config.baseUrl ?? 'https://serpapi.com/search';
+  }
+
+  async searchFlights(
+    request: FlightSearchRequest
+  ): Promise<Result<FlightOffer[], TravelSearchError>> {
+    const departureId = resolveAirportCode(request.origin);
+    const arrivalId = resolveAirportCode(request.destination);
+    if (!departureId || !arrivalId) {
+      return err(
+        createTravelSearchError(
+          'INVALID_SEARCH',
+          `Could not determine airport codes for ${request.origin} → ${request.destination}`
+        )
+      );
+    }
+
+    const currency = request.currency ?? this.currency;
+    const stops = request.maxStops !== undefined ? STOPS_PARAM[request.maxStops] : undefined;
+    const dataResult = await this.request<SerpApiFlightResponse>({
+      engine: 'google_flights',
+      departure_id: departureId,
+      arrival_id: arrivalId,
+      outbound_date: request.departureDate,
+      ...(request.returnDate ? { type: '1', return_date: request.returnDate } : { type: '2' }),
+      ...(request.adults ? { adults: String(request.adults) } : {}),
+      ...(request.children ? { children: String(request.children) } : {}),
+      ...(request.infants ? { infants_on_lap: String(request.infants) } : {}),
+      ...(request.cabinClass ? { travel_class: TRAVEL_CLASS_PARAM[request.cabinClass] } : {}),
+      ...(stops ? { stops } : {}),
+      currency,
+      hl: 'en',
+    });
+    if (!dataResult.success) {
+      return dataResult;
+    }
+
+    const data = dataResult.value;
+    const options = [...(data.best_flights ?? []), ...(data.other_flights ?? [])];
+    const offers = options.flatMap((option, index) => {
+      const offer = this.toFlightOffer(
+        option,
+        index,
+        currency,
+        data.search_metadata?.google_flights_url
+      );
+      return offer ? [offer] : [];
+    });
+    return ok(offers);
+  }
+
+  async searchHotels(
+    request: HotelSearchRequest
+  ): Promise<Result<HotelOffer[], TravelSearchError>> {
+    const dataResult = await this.request<SerpApiHotelResponse>({
+      engine: 'google_hotels',
+      q: request.location,
+      check_in_date: request.checkInDate,
+      check_out_date: request.checkOutDate,
+      ...(request.adults ? { adults: String(request.adults) } : {}),
+      ...(request.children ? { children: String(request.children) } : {}),
+      currency: this.currency,
+      hl: 'en',
+    });
+    if (!dataResult.success) {
+      return dataResult;
+    }
+
+    const nights = countNights(request.checkInDate, request.checkOutDate);
+    const offers = (dataResult.value.properties ?? []).map((hotel, index): HotelOffer => {
+      const starRating = hotel.extracted_hotel_class ?? Number.parseInt(hotel.hotel_class ?? '');
+      const nightly = hotel.rate_per_night?.extracted_lowest;
+      const total =
+        hotel.total_rate?.extracted_lowest ??
+        (nightly !== undefined ? nightly * nights : undefined);
+      const checkInTime = normalizeClockTime(hotel.check_in_time);
+      const checkOutTime = normalizeClockTime(hotel.check_out_time);
+
+      return {
+        id: `serpapi-hotel-${index}`,
+        provider: this.name,
+        name: hotel.name,
+        ...(hotel.description ? { description: hotel.description } : {}),
+        ...(Number.isFinite(starRating) ? { starRating } : {}),
+        ...(hotel.overall_rating !== undefined ? { rating: hotel.overall_rating } : {}),
+        ...(hotel.reviews !== undefined ? { reviewCount: hotel.reviews } : {}),
+        ...(nightly !== undefined ? { pricePerNight: this.money(nightly) } : {}),
+        ...(total !== undefined ? { totalPrice: this.money(total) } : {}),
+        ...(hotel.gps_coordinates ? { coordinates: hotel.gps_coordinates } : {}),
+        ...(checkInTime ? { checkInTime } : {}),
+        ...(checkOutTime ? { checkOutTime } : {}),
+        amenities: hotel.amenities ?? [],
+        ...(hotel.link ? { bookingUrl: hotel.link } : {}),
+      };
+    });
+    return ok(offers);
+  }
+
+  async searchTransfers(
+    request: TransferSearchRequest
+  ): Promise<Result<TransferOffer[], TravelSearchError>> {
+    const dataResult = await this.request<SerpApiDirectionsResponse>({
+      engine: 'google_maps_directions',
+      start_addr: request.origin,
+      end_addr: request.destination,
+      hl: 'en',
+    });
+    if (!dataResult.success) {
+      return dataResult;
+    }
+
+    const offers = (dataResult.value.directions ?? []).flatMap((direction, index) => {
+      const mode = direction.travel_mode ?? 'Driving';
+      const transferType = TRANSFER_TYPE_BY_MODE[mode.toLowerCase()];
+      // Flights and other modes are not ground transport
+      if (!transferType) {
+        return [];
+      }
+
+      const offer: TransferOffer = {
+        id: `serpapi-transfer-${index}`,
+        provider: this.name,
+        transferType,
+        description: direction.via ? `${mode} via ${direction.via}` : mode,
+        ...(direction.duration !== undefined
+          ? { durationMinutes: Math.round(direction.duration / 60) }
+          : {}),
+        ...(direction.distance !== undefined
+          ? { distanceKm: Math.round(direction.distance / 100) / 10 }
+          : {}),
+        ...(direction.cost !== undefined
+          ? { price: this.money(direction.cost, direction.currency) }
+          : {}),
+      };
+      return [offer];
+    });
+    return ok(offers);
+  }
+
+  /**
+   * Call a SerpAPI engine
+   * "No results" errors are returned as an empty response rather than a failure.
+   */
+  private async request<T extends { error?: string }>(
+    params: Record<string, string>
+  ): Promise<Result<T, TravelSearchError>> {
+    try {
+      const query = new URLSearchParams({ ...params, api_key: this.apiKey });
+      const response = await fetch(`${this.baseUrl}?${query.toString()}`);
+
+      if (!response.ok) {
+        return err(
+          createTravelSearchError(
+            'PROVIDER_ERROR',
+            `SerpAPI request failed: ${response.status} ${response.statusText}`,
+            { engine: params.engine, status: response.status }
+          )
+        );
+      }
+
+      const data = (await response.json()) as T;
+      if (data.error) {
+        if (/returned any results/i.test(data.error)) {
+          return ok({} as T);
+        }
+        return err(
+          createTravelSearchError('PROVIDER_ERROR', `SerpAPI error: ${data.error}`, {
+            engine: params.engine,
+          })
+        );
+      }
+
+      return ok(data);
+    } catch (error) {
+      return err(
+        createTravelSearchError('PROVIDER_ERROR', 'SerpAPI request failed', {
+          engine: params.engine,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * Convert a Google Flights option into an offer
+   * @returns Offer, or null if the option has no legs or unreadable times
+   */
+  private toFlightOffer(
+    option: SerpApiFlightOption,
+    index: number,
+    currency: string,
+    bookingUrl: string | undefined
+  ): FlightOffer | null {
+    const first = option.flights[0];
+    const last = option.flights[option.flights.length - 1];
+    if (!first || !last) {
+      return null;
+    }
+
+    const departureTime = new Date(first.departure_airport.time ?? first.departure_time ?? '');
+    const arrivalTime = new Date(last.arrival_airport.time ?? last.arrival_time ?? '');
+    if (Number.isNaN(departureTime.getTime()) || Number.isNaN(arrivalTime.getTime())) {
+      return null;
+    }
+
+    const flightNumber = first.flight_number?.replace(/\s+/g, '') || 'TBD';
+    const cabinClass = mapTravelClass(first.travel_class);
+    const durationMinutes =
+      option.total_duration ??
+      option.flights.reduce((sum, flight) => sum + flight.duration, 0) +
+        (option.layovers ?? []).reduce((sum, layover) => sum + (layover.duration ?? 0), 0);
+
+    return {
+      id: `serpapi-flight-${index}`,
+      provider: this.name,
+      airline: {
+        name: first.airline,
+        code: flightNumber.match(/^([A-Z\d]{2})\d/)?.[1] ?? 'XX',
+      },
+      flightNumber,
+      origin: { code: first.departure_airport.id, name: first.departure_airport.name },
+      destination: { code: last.arrival_airport.id, name: last.arrival_airport.name },
+      departureTime,
+      arrivalTime,
+      durationMinutes,
+      stops: option.flights.length - 1,
+      layovers:
+        option.layovers?.map((layover) => layover.id) ??
+        option.flights.slice(1).map((flight) => flight.departure_airport.id),
+      ...(cabinClass ? { cabinClass } : {}),
+      ...(first.airplane ? { aircraft: first.airplane } : {}),
+      ...(option.price !== undefined ? { price: this.money(option.price, currency) } : {}),
+      ...(bookingUrl ? { bookingUrl } : {}),
+    };
+  }
+
+  /**
+   * Convert a major-unit amount as returned by SerpAPI to Money
+   */
+  private money(amount: number, currency = this.currency): Money {
+    return createMoney(fromMajorUnits(amount, currency), currency);
+  }
+}
+
+/**
+ * Map a SerpAPI travel class to a cabin class
+ */
+function mapTravelClass(travelClass: string | undefined): CabinClass | undefined {
+  if (!travelClass) return undefined;
+
+  const normalized = travelClass.toLowerCase();
+  if (normalized.includes('first')) return CabinClass.FIRST;
+  if (normalized.includes('business')) return CabinClass.BUSINESS;
+  if (normalized.includes('premium')) return CabinClass.PREMIUM_ECONOMY;
+  return CabinClass.ECONOMY;
+}
+
+/**
+ * Normalize "3:00 PM" or "15:00" to HH:mm
+ */
+function normalizeClockTime(time: string | undefined): string | undefined {
+  const match = time?.trim().match(/^(\d{1,2}):(\d{2})\s*([AP]M)?$/i);
+  if (!match) {
+    return undefined;
+  }
+
+  let hours = Number(match[1]);
+  const meridiem = match[3]?.toUpperCase();
+  if (meridiem === 'PM' && hours < 12) hours += 12;
+  if (meridiem === 'AM' && hours === 12) hours = 0;
+  return `${String(hours).padStart(2, '0')}:${match[2]}`;
+}
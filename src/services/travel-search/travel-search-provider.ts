@@ -0,0 +1,76 @@
+/**
+ * Travel search provider interface
+ * @module services/travel-search/travel-search-provider
+ */
+
+import type { TravelSearchError } from '../../core/errors.js';
+import type { Result } from '../../core/result.js';
+import type {
+  FlightOffer,
+  FlightSearchRequest,
+  HotelOffer,
+  HotelSearchRequest,
+  TransferOffer,
+  TransferSearchRequest,
+  TravelSearchProviderName,
+} from '../../domain/types/travel-search.js';
+import { resolveAirport } from '../../utils/airports.js';
+
+/**
+ * Source of flight, hotel and ground transport offers.
+ * Implementations may call live search APIs or read fixtures; either way they
+ * return normalized offers, cheapest or best first as the source ranks them.
+ */
+export interface TravelSearchProvider {
+  /** Provider name, recorded on every offer */
+  readonly name: TravelSearchProviderName;
+
+  /**
+   * Search one-way flights (or the outbound leg of a round trip)
+   * @param request - Route, date and passengers
+   * @returns Offers (empty when nothing flies the route that day) or error
+   */
+  searchFlights(request: FlightSearchRequest): Promise<Result<FlightOffer[], TravelSearchError>>;
+
+  /**
+   * Search hotels for a stay
+   * @param request - Location and dates
+   * @returns Offers (empty when nothing is available) or error
+   */
+  searchHotels(request: HotelSearchRequest): Promise<Result<HotelOffer[], TravelSearchError>>;
+
+  /**
+   * Search ground transport between two places
+   * @param request - Origin and destination
+   * @returns Offers (empty when no route is known) or error
+   */
+  searchTransfers(
+    request: TransferSearchRequest
+  ): Promise<Result<TransferOffer[], TravelSearchError>>;
+}
+
+/**
+ * Resolve an airport code or city name to an IATA code
+ * Unknown 3-letter codes are passed through so providers can still try them.
+ * @param text - Airport code, airport name or city
+ * @returns IATA code or undefined
+ */
+export function resolveAirportCode(text: string): string | undefined {
+  const airport = resolveAirport(text);
+  if (airport) {
+    return airport.iata;
+  }
+  const code = text.trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(code) ? code : undefined;
+}
+
+/**
+ * Number of nights between two YYYY-MM-DD dates (at least 1)
+ */
+export function countNights(checkInDate: string, checkOutDate: string): number {
+  const nights = Math.round(
+    (Date.parse(`${checkOutDate}T00:00:00Z`) - Date.parse(`${checkInDate}T00:00:00Z`)) /
+      (24 * 60 * 60 * 1000)
+  );
+  return Number.isFinite(nights) && nights > 0 ? nights : 1;
+}
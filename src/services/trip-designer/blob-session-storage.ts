@@ -0,0 +1,226 @@
+/**
+ * Vercel Blob session storage
+ * @module services/trip-designer/blob-session-storage
+ */
+
+import { del, head, list, put } from '@vercel/blob';
+import { createStorageError } from '../../core/errors.js';
+import type { StorageError } from '../../core/errors.js';
+import { err, ok } from '../../core/result.js';
+import type { Result } from '../../core/result.js';
+import type { ItineraryId } from '../../domain/types/branded.js';
+import type {
+  SessionId,
+  SessionSummary,
+  TripDesignerSession,
+} from '../../domain/types/trip-designer.js';
+import {
+  createSessionSummary,
+  deserializeSession,
+  serializeSession,
+  sortSessionSummaries,
+} from './session.js';
+import type { SessionStorage } from './session.js';
+
+/**
+ * Vercel Blob storage for trip designer sessions
+ * Keeps chat history across serverless cold starts in production
+ */
+export class BlobSessionStorage implements SessionStorage {
+  private readonly prefix = 'trip-designer-sessions/';
+
+  /**
+   * Creates a new Blob session storage instance
+   * Requires BLOB_READ_WRITE_TOKEN environment variable
+   */
+  constructor() {
+    if (!process.env.BLOB_READ_WRITE_TOKEN) {
+      throw new Error(
+        'BLOB_READ_WRITE_TOKEN environment variable is required for BlobSessionStorage'
+      );
+    }
+  }
+
+  /**
+   * Get the blob key for a session
+   * @param id - The session ID
+   * @returns The blob key (e.g., "trip-designer-sessions/session_123_abc.json")
+   */
+  private getKey(id: SessionId): string {
+    return `${this.prefix}${id}.json`;
+  }
+
+  /**
+   * Fetch the text content of a blob
+   * Sessions are rewritten on every message, so bypass any cached copy
+   * @param url - Blob URL
+   * @returns Blob content
+   */
+  private async fetchText(url: string): Promise<string> {
+    const response = await fetch(url, { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch blob (status ${response.status})`);
+    }
+    return response.text();
+  }
+
+  /**
+   * Save a session (create or update)
+   */
+  async save(session: TripDesignerSession): Promise<Result<void, StorageError>> {
+    try {
+      await put(this.getKey(session.id), serializeSession(session), {
+        access: 'public',
+        contentType: 'application/json',
+        addRandomSuffix: false,
+        allowOverwrite: true,
+        cacheControlMaxAge: 60,
+      });
+      return ok(undefined);
+    } catch (error) {
+      return err(
+        createStorageError('WRITE_ERROR', `Failed to save session ${session.id} to Blob`, {
+          sessionId: session.id,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * Load a session by ID
+   */
+  async load(sessionId: SessionId): Promise<Result<TripDesignerSession, StorageError>> {
+    const notFound = createStorageError('NOT_FOUND', `Session ${sessionId} not found in Blob`, {
+      sessionId,
+    });
+
+    try {
+      const blobInfo = await head(this.getKey(sessionId));
+      if (!blobInfo) {
+        return err(notFound);
+      }
+
+      return deserializeSession(await this.fetchText(blobInfo.url));
+    } catch (error) {
+      // Handle "Blob not found" errors
+      if (error instanceof Error && error.message.includes('not found')) {
+        return err(notFound);
+      }
+
+      return err(
+        createStorageError('READ_ERROR', `Failed to load session ${sessionId} from Blob`, {
+          sessionId,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * List session summaries, optionally for a single itinerary
+   * Returns summaries sorted by last activity, most recent first
+   */
+  async list(itineraryId?: ItineraryId): Promise<Result<SessionSummary[], StorageError>> {
+    try {
+      const summaries: SessionSummary[] = [];
+
+      for (const { session } of await this.readAll()) {
+        if (!itineraryId || session.itineraryId === itineraryId) {
+          summaries.push(createSessionSummary(session));
+        }
+      }
+
+      return ok(sortSessionSummaries(summaries));
+    } catch (error) {
+      return err(
+        createStorageError('READ_ERROR', 'Failed to list sessions from Blob', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * Delete a session
+   */
+  async delete(sessionId: SessionId): Promise<Result<void, StorageError>> {
+    try {
+      const blobInfo = await head(this.getKey(sessionId));
+      if (!blobInfo) {
+        return err(
+          createStorageError('NOT_FOUND', `Session ${sessionId} not found in Blob`, { sessionId })
+        );
+      }
+
+      await del(blobInfo.url);
+      return ok(undefined);
+    } catch (error) {
+      // Handle "Blob not found" errors
+      if (error instanceof Error && error.message.includes('not found')) {
+        return err(
+          createStorageError('NOT_FOUND', `Session ${sessionId} not found in Blob`, { sessionId })
+        );
+      }
+
+      return err(
+        createStorageError('WRITE_ERROR', `Failed to delete session ${sessionId} from Blob`, {
+          sessionId,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * Delete all sessions associated with an itinerary
+   */
+  async deleteByItineraryId(itineraryId: ItineraryId): Promise<Result<number, StorageError>> {
+    try {
+      const urls = (await this.readAll())
+        .filter(({ session }) => session.itineraryId === itineraryId)
+        .map(({ url }) => url);
+
+      if (urls.length > 0) {
+        await del(urls);
+      }
+      return ok(urls.length);
+    } catch (error) {
+      return err(
+        createStorageError(
+          'WRITE_ERROR',
+          `Failed to delete sessions for itinerary ${itineraryId} from Blob`,
+          {
+            itineraryId,
+            error: error instanceof Error ? error.message : String(error),
+          }
+        )
+      );
+    }
+  }
+
+  /**
+   * Read every stored session with its blob URL, skipping unreadable blobs
+   */
+  private async readAll(): Promise<Array<{ url: string; session: TripDesignerSession }>> {
+    const sessions: Array<{ url: string; session: TripDesignerSession }> = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await list({ prefix: this.prefix, ...(cursor ? { cursor } : {}) });
+      for (const blob of page.blobs) {
+        try {
+          const result = deserializeSession(await this.fetchText(blob.url));
+          if (result.success) {
+            sessions.push({ url: blob.url, session: result.value });
+          }
+        } catch {
+          // Skip blobs that can't be fetched
+        }
+      }
+      cursor = page.hasMore ? page.cursor : undefined;
+    } while (cursor);
+
+    return sessions;
+  }
+}
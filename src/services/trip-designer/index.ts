@@ -4,19 +4,33 @@
  */
 
 export { TripDesignerService } from './trip-designer.service.js';
-export { SessionManager, InMemorySessionStorage } from './session.js';
+export {
+  SessionManager,
+  InMemorySessionStorage,
+  createSessionSummary,
+  deserializeSession,
+  migrateSession,
+  serializeSession,
+} from './session.js';
 export type { SessionStorage } from './session.js';
+export { JsonSessionStorage } from './json-session-storage.js';
+export { BlobSessionStorage } from './blob-session-storage.js';
+export { createSessionStorage } from './session-storage.js';
 export { ToolExecutor } from './tool-executor.js';
 export type { ToolExecutorDependencies } from './tool-executor.js';
 export {
   ALL_TOOLS,
+  READ_ONLY_TOOLS,
   ToolName,
   GET_ITINERARY_TOOL,
   GET_SEGMENT_TOOL,
+  GET_BUDGET_STATUS_TOOL,
   ADD_FLIGHT_TOOL,
   ADD_HOTEL_TOOL,
   ADD_ACTIVITY_TOOL,
   ADD_TRANSFER_TOOL,
+  ADD_RAIL_TOOL,
+  ADD_CAR_RENTAL_TOOL,
   ADD_MEETING_TOOL,
   UPDATE_SEGMENT_TOOL,
   DELETE_SEGMENT_TOOL,
@@ -5,18 +5,30 @@
 
 import type { Itinerary } from '../../domain/types/itinerary.js';
 import type { Segment } from '../../domain/types/segment.js';
+import { formatInTimezone, getSegmentTimezones } from '../../utils/timezone.js';
 
 /**
  * Format date as readable string (e.g., "Jan 15, 2025")
- * Uses UTC to avoid timezone conversion issues
+ * Calendar dates (trip and hotel dates) are held in UTC; pass a timezone to
+ * format a segment instant as the local date where it happens.
  */
-function formatDate(date: Date): string {
-  return date.toLocaleDateString('en-US', {
-    month: 'short',
-    day: 'numeric',
-    year: 'numeric',
-    timeZone: 'UTC',
-  });
+function formatDate(date: Date, timeZone?: string): string {
+  return formatInTimezone(
+    date,
+    {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    },
+    timeZone
+  );
+}
+
+/**
+ * Format the local date a segment starts on
+ */
+function formatSegmentDate(segment: Segment): string {
+  return formatDate(new Date(segment.startDatetime), getSegmentTimezones(segment).start);
 }
 
 /**
@@ -147,7 +159,8 @@ function summarizeSegmentDetails(segments: Segment[], maxCount: number = 8): str
 
   for (let i = 0; i < Math.min(segments.length, maxCount); i++) {
     const seg = segments[i];
-    const date = formatDate(new Date(seg.startDatetime));
+    if (!seg) continue;
+    const date = formatSegmentDate(seg);
 
     switch (seg.type) {
       case 'FLIGHT':
@@ -190,7 +203,7 @@ function summarizeConfirmedSegments(segments: Segment[]): string[] {
   if (flights.length > 0) {
     lines.push('**✈️ FLIGHTS (CONFIRMED - DO NOT SUGGEST)**');
     for (const flight of flights) {
-      const date = formatDate(new Date(flight.startDatetime));
+      const date = formatSegmentDate(flight);
       const route = `${flight.origin?.code || flight.origin?.name || 'Unknown'} → ${flight.destination?.code || flight.destination?.name || 'Unknown'}`;
       const flightNum = flight.flightNumber ? ` (${flight.carrier} ${flight.flightNumber})` : '';
       const cabin = flight.cabinClass ? ` - ${flight.cabinClass}` : '';
@@ -223,7 +236,7 @@ function summarizeConfirmedSegments(segments: Segment[]): string[] {
   if (activities.length > 0) {
     lines.push('**🎯 ACTIVITIES (CONFIRMED - DO NOT SUGGEST)**');
     for (const activity of activities) {
-      const date = formatDate(new Date(activity.startDatetime));
+      const date = formatSegmentDate(activity);
       const name = activity.metadata?.name || activity.name || 'Activity';
       const location = activity.metadata?.location || '';
       lines.push(`  ✓ ${date}: ${name}${location ? ` at ${location}` : ''}`);
@@ -235,7 +248,7 @@ function summarizeConfirmedSegments(segments: Segment[]): string[] {
   if (other.length > 0) {
     lines.push('**📋 OTHER BOOKINGS (CONFIRMED)**');
     for (const seg of other) {
-      const date = formatDate(new Date(seg.startDatetime));
+      const date = formatSegmentDate(seg);
       const name = seg.metadata?.name || seg.type;
       lines.push(`  ✓ ${date}: ${name}`);
     }
@@ -0,0 +1,258 @@
+/**
+ * JSON file-based session storage
+ * @module services/trip-designer/json-session-storage
+ */
+
+import { access, mkdir, readFile, readdir, rename, unlink, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { createStorageError } from '../../core/errors.js';
+import type { StorageError } from '../../core/errors.js';
+import { err, ok } from '../../core/result.js';
+import type { Result } from '../../core/result.js';
+import type { ItineraryId } from '../../domain/types/branded.js';
+import type {
+  SessionId,
+  SessionSummary,
+  TripDesignerSession,
+} from '../../domain/types/trip-designer.js';
+import {
+  createSessionSummary,
+  deserializeSession,
+  serializeSession,
+  sortSessionSummaries,
+} from './session.js';
+import type { SessionStorage } from './session.js';
+
+/** Session IDs that are safe to use as file names */
+const SESSION_ID_REGEX = /^[\w-]+$/;
+
+/**
+ * JSON file-based storage for trip designer sessions
+ * One file per session, so chat history survives server restarts
+ */
+export class JsonSessionStorage implements SessionStorage {
+  /**
+   * Per-session write locks to prevent concurrent writes
+   */
+  private readonly writeLocks = new Map<string, Promise<void>>();
+
+  /**
+   * Creates a new JSON session storage instance
+   * @param basePath - Directory for session files (default: ./data/sessions)
+   */
+  constructor(private readonly basePath: string = './data/sessions') {}
+
+  /**
+   * Acquire a write lock for a session
+   * Ensures writes are serialized to prevent file corruption
+   */
+  private async acquireLock(id: SessionId): Promise<() => void> {
+    const existingLock = this.writeLocks.get(id);
+    if (existingLock) {
+      await existingLock;
+    }
+
+    let releaseLock: (() => void) | undefined;
+    const lockPromise = new Promise<void>((resolve) => {
+      releaseLock = resolve;
+    });
+    this.writeLocks.set(id, lockPromise);
+
+    return () => {
+      this.writeLocks.delete(id);
+      releaseLock?.();
+    };
+  }
+
+  /**
+   * Get the file path for a session
+   * @param id - The session ID
+   * @returns The full file path, or null if the ID is not a valid file name
+   */
+  private getPath(id: SessionId): string | null {
+    return SESSION_ID_REGEX.test(id) ? join(this.basePath, `${id}.json`) : null;
+  }
+
+  /**
+   * Initialize storage by creating the base directory
+   */
+  async initialize(): Promise<Result<void, StorageError>> {
+    try {
+      await mkdir(this.basePath, { recursive: true });
+      return ok(undefined);
+    } catch (error) {
+      return err(
+        createStorageError(
+          'WRITE_ERROR',
+          `Failed to initialize session directory: ${this.basePath}`,
+          {
+            error: error instanceof Error ? error.message : String(error),
+          }
+        )
+      );
+    }
+  }
+
+  /**
+   * Save a session (create or update)
+   * Uses atomic write (write to .tmp file, then rename)
+   */
+  async save(session: TripDesignerSession): Promise<Result<void, StorageError>> {
+    const filePath = this.getPath(session.id);
+    if (!filePath) {
+      return err(
+        createStorageError('VALIDATION_ERROR', `Invalid session ID: ${session.id}`, {
+          sessionId: session.id,
+        })
+      );
+    }
+
+    const releaseLock = await this.acquireLock(session.id);
+
+    try {
+      await mkdir(this.basePath, { recursive: true });
+
+      const tempPath = `${filePath}.tmp`;
+      await writeFile(tempPath, serializeSession(session), 'utf-8');
+      await rename(tempPath, filePath);
+
+      return ok(undefined);
+    } catch (error) {
+      return err(
+        createStorageError('WRITE_ERROR', `Failed to save session ${session.id}`, {
+          sessionId: session.id,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    } finally {
+      releaseLock();
+    }
+  }
+
+  /**
+   * Load a session by ID
+   */
+  async load(sessionId: SessionId): Promise<Result<TripDesignerSession, StorageError>> {
+    const filePath = this.getPath(sessionId);
+    const notFound = createStorageError('NOT_FOUND', `Session ${sessionId} not found`, {
+      sessionId,
+    });
+
+    if (!filePath) {
+      return err(notFound);
+    }
+
+    let data: string;
+    try {
+      data = await readFile(filePath, 'utf-8');
+    } catch {
+      return err(notFound);
+    }
+
+    return deserializeSession(data);
+  }
+
+  /**
+   * List session summaries, optionally for a single itinerary
+   * Returns summaries sorted by last activity, most recent first
+   */
+  async list(itineraryId?: ItineraryId): Promise<Result<SessionSummary[], StorageError>> {
+    try {
+      const summaries: SessionSummary[] = [];
+
+      for (const session of await this.readAll()) {
+        if (!itineraryId || session.itineraryId === itineraryId) {
+          summaries.push(createSessionSummary(session));
+        }
+      }
+
+      return ok(sortSessionSummaries(summaries));
+    } catch (error) {
+      return err(
+        createStorageError('READ_ERROR', 'Failed to list sessions', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * Delete a session
+   */
+  async delete(sessionId: SessionId): Promise<Result<void, StorageError>> {
+    const filePath = this.getPath(sessionId);
+
+    try {
+      if (!filePath) {
+        throw new Error('Invalid session ID');
+      }
+      await access(filePath);
+    } catch {
+      return err(createStorageError('NOT_FOUND', `Session ${sessionId} not found`, { sessionId }));
+    }
+
+    try {
+      await unlink(filePath);
+      return ok(undefined);
+    } catch (error) {
+      return err(
+        createStorageError('WRITE_ERROR', `Failed to delete session ${sessionId}`, {
+          sessionId,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * Delete all sessions associated with an itinerary
+   */
+  async deleteByItineraryId(itineraryId: ItineraryId): Promise<Result<number, StorageError>> {
+    try {
+      let deleted = 0;
+      for (const session of await this.readAll()) {
+        if (session.itineraryId === itineraryId) {
+          const result = await this.delete(session.id);
+          if (result.success) {
+            deleted++;
+          }
+        }
+      }
+      return ok(deleted);
+    } catch (error) {
+      return err(
+        createStorageError(
+          'WRITE_ERROR',
+          `Failed to delete sessions for itinerary ${itineraryId}`,
+          {
+            itineraryId,
+            error: error instanceof Error ? error.message : String(error),
+          }
+        )
+      );
+    }
+  }
+
+  /**
+   * Read every stored session, skipping unreadable files
+   */
+  private async readAll(): Promise<TripDesignerSession[]> {
+    await mkdir(this.basePath, { recursive: true });
+    const files = (await readdir(this.basePath)).filter((f) => f.endsWith('.json'));
+
+    const sessions: TripDesignerSession[] = [];
+    for (const file of files) {
+      try {
+        const result = deserializeSession(await readFile(join(this.basePath, file), 'utf-8'));
+        if (result.success) {
+          sessions.push(result.value);
+        } else {
+          console.warn(`Skipping invalid session file: ${file}`, result.error.message);
+        }
+      } catch {
+        // Skip files removed or rewritten while listing
+      }
+    }
+    return sessions;
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Offer summarizer - compact travel search offers for tool results
+ * @module services/trip-designer/offer-summarizer
+ */
+
+import { formatMoney } from '../../domain/types/money.js';
+import type {
+  FlightOffer,
+  HotelOffer,
+  RankedFlightOffer,
+  RankedHotelOffer,
+  TransferOffer,
+} from '../../domain/types/travel-search.js';
+
+/**
+ * Summarize a flight offer for the model
+ * Prices are formatted so the model can quote them as-is.
+ */
+export function summarizeFlightOffer(offer: FlightOffer): Record<string, unknown> {
+  return {
+    id: offer.id,
+    airline: offer.airline.name,
+    flightNumber: offer.flightNumber,
+    origin: offer.origin.code,
+    destination: offer.destination.code,
+    departure: offer.departureTime.toISOString(),
+    arrival: offer.arrivalTime.toISOString(),
+    durationMinutes: offer.durationMinutes,
+    stops: offer.stops,
+    ...(offer.layovers.length > 0 ? { layovers: offer.layovers } : {}),
+    ...(offer.cabinClass ? { cabinClass: offer.cabinClass } : {}),
+    ...(offer.price ? { price: formatMoney(offer.price) } : {}),
+    ...(offer.bookingUrl ? { bookingUrl: offer.bookingUrl } : {}),
+  };
+}
+
+/**
+ * Summarize a ranked flight offer for the model
+ * `choice` is ready to use as a structured question option.
+ */
+export function summarizeRankedFlightOffer(ranked: RankedFlightOffer): Record<string, unknown> {
+  const { offer } = ranked;
+  const stops = offer.stops === 0 ? 'Nonstop' : `${offer.stops} stop${offer.stops > 1 ? 's' : ''}`;
+  const hours = Math.floor(offer.durationMinutes / 60);
+  const minutes = offer.durationMinutes % 60;
+  const label = [
+    `${offer.airline.name} ${offer.flightNumber}`,
+    stops,
+    `${hours}h ${String(minutes).padStart(2, '0')}m`,
+    ...(offer.price ? [formatMoney(offer.price)] : []),
+  ].join(' · ');
+  const departure = offer.departureTime.toISOString().slice(0, 16).replace('T', ' ');
+  const highlights = ranked.labels.map((highlight) => highlight.replace('_', ' ')).join(', ');
+
+  return {
+    rank: ranked.rank,
+    score: ranked.score,
+    labels: ranked.labels,
+    ...summarizeFlightOffer(offer),
+    choice: {
+      id: offer.id,
+      label,
+      description: `${offer.origin.code} → ${offer.destination.code}, departs ${departure}${highlights ? ` (${highlights})` : ''}`,
+    },
+  };
+}
+
+/**
+ * Summarize a hotel offer for the model
+ */
+export function summarizeHotelOffer(offer: HotelOffer): Record<string, unknown> {
+  return {
+    id: offer.id,
+    name: offer.name,
+    ...(offer.starRating !== undefined ? { starRating: offer.starRating } : {}),
+    ...(offer.rating !== undefined ? { rating: offer.rating } : {}),
+    ...(offer.reviewCount !== undefined ? { reviewCount: offer.reviewCount } : {}),
+    ...(offer.pricePerNight ? { pricePerNight: formatMoney(offer.pricePerNight) } : {}),
+    ...(offer.totalPrice ? { totalPrice: formatMoney(offer.totalPrice) } : {}),
+    ...(offer.amenities.length > 0 ? { amenities: offer.amenities } : {}),
+    ...(offer.checkInTime ? { checkInTime: offer.checkInTime } : {}),
+    ...(offer.checkOutTime ? { checkOutTime: offer.checkOutTime } : {}),
+    ...(offer.bookingUrl ? { bookingUrl: offer.bookingUrl } : {}),
+  };
+}
+
+/**
+ * Summarize a recommended hotel offer for the model
+ * `choice` is ready to use as a structured question option, with the reasons as its description.
+ */
+export function summarizeRankedHotelOffer(ranked: RankedHotelOffer): Record<string, unknown> {
+  const { offer } = ranked;
+  const label = [
+    offer.name,
+    ...(offer.starRating !== undefined ? [`${offer.starRating}★`] : []),
+    ...(offer.pricePerNight ? [`${formatMoney(offer.pricePerNight)}/night`] : []),
+  ].join(' · ');
+
+  return {
+    rank: ranked.rank,
+    score: ranked.score,
+    reasons: ranked.reasons,
+    ...(ranked.chain ? { chain: ranked.chain } : {}),
+    ...(ranked.nearestPlace ? { nearestPlace: ranked.nearestPlace } : {}),
+    ...summarizeHotelOffer(offer),
+    choice: {
+      id: offer.id,
+      label,
+      ...(ranked.reasons.length > 0 ? { description: ranked.reasons.join(', ') } : {}),
+    },
+  };
+}
+
+/**
+ * Summarize a ground transport offer for the model
+ */
+export function summarizeTransferOffer(offer: TransferOffer): Record<string, unknown> {
+  return {
+    id: offer.id,
+    transferType: offer.transferType,
+    description: offer.description,
+    ...(offer.durationMinutes !== undefined ? { durationMinutes: offer.durationMinutes } : {}),
+    ...(offer.distanceKm !== undefined ? { distanceKm: offer.distanceKm } : {}),
+    ...(offer.price ? { price: formatMoney(offer.price) } : {}),
+    ...(offer.operator ? { operator: offer.operator } : {}),
+    ...(offer.bookingUrl ? { bookingUrl: offer.bookingUrl } : {}),
+  };
+}
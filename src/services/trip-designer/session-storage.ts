@@ -0,0 +1,22 @@
+/**
+ * Session storage factory
+ * @module services/trip-designer/session-storage
+ */
+
+import { BlobSessionStorage } from './blob-session-storage.js';
+import { JsonSessionStorage } from './json-session-storage.js';
+import type { SessionStorage } from './session.js';
+
+/**
+ * Creates the appropriate session storage backend based on environment
+ * - Uses Vercel Blob if BLOB_READ_WRITE_TOKEN is set
+ * - Falls back to filesystem JSON storage otherwise
+ * @param basePath - Base directory for filesystem storage (default: ./data/sessions)
+ * @returns Session storage instance
+ */
+export function createSessionStorage(basePath?: string): SessionStorage {
+  if (process.env.BLOB_READ_WRITE_TOKEN) {
+    return new BlobSessionStorage();
+  }
+  return new JsonSessionStorage(basePath);
+}
@@ -32,6 +32,137 @@ export interface SessionStorage {
 
   /** Delete a session */
   delete(sessionId: SessionId): Promise<Result<void, StorageError>>;
+
+  /** Delete all sessions for an itinerary, returning how many were removed */
+  deleteByItineraryId(itineraryId: ItineraryId): Promise<Result<number, StorageError>>;
+}
+
+/** Regex to detect ISO 8601 date strings */
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z$/;
+
+/**
+ * Build the listing summary for a session
+ */
+export function createSessionSummary(session: TripDesignerSession): SessionSummary {
+  const firstUserMessage = session.messages.find((m) => m.role === 'user');
+  return {
+    id: session.id,
+    itineraryId: session.itineraryId,
+    messageCount: session.messages.length,
+    lastActiveAt: session.lastActiveAt,
+    preview: firstUserMessage?.content.slice(0, 100) || 'New session',
+  };
+}
+
+/**
+ * Sort session summaries by last activity, most recent first
+ */
+export function sortSessionSummaries(summaries: SessionSummary[]): SessionSummary[] {
+  return summaries.sort((a, b) => b.lastActiveAt.getTime() - a.lastActiveAt.getTime());
+}
+
+/**
+ * Serialize a session to JSON (dates are converted to ISO strings)
+ */
+export function serializeSession(session: TripDesignerSession): string {
+  return JSON.stringify(session, null, 2);
+}
+
+/**
+ * Parse a stored session, reviving dates and migrating older metadata
+ * @param json - Serialized session
+ * @returns The session, or a validation error if the data is not a session
+ */
+export function deserializeSession(json: string): Result<TripDesignerSession, StorageError> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json, (_key, value) => {
+      if (typeof value === 'string' && ISO_DATE_REGEX.test(value)) {
+        return new Date(value);
+      }
+      return value;
+    });
+  } catch (error) {
+    return err(
+      createStorageError('READ_ERROR', 'Failed to parse session data', {
+        error: error instanceof Error ? error.message : String(error),
+      })
+    );
+  }
+
+  const candidate = parsed as Partial<TripDesignerSession> | null;
+  if (
+    !candidate ||
+    typeof candidate.id !== 'string' ||
+    typeof candidate.itineraryId !== 'string' ||
+    !Array.isArray(candidate.messages)
+  ) {
+    return err(createStorageError('VALIDATION_ERROR', 'Invalid session data'));
+  }
+
+  return ok(migrateSession(candidate as TripDesignerSession));
+}
+
+/**
+ * Bring a stored session up to the current shape
+ *
+ * Sessions written before metadata was tracked lack counters, and
+ * `lastCompactedAt`/`costUSD` may have been stored as epoch numbers or
+ * strings. Invalid values are dropped rather than failing the load.
+ */
+export function migrateSession(session: TripDesignerSession): TripDesignerSession {
+  const metadata = (session.metadata ?? {}) as Record<string, unknown>;
+  const messages = session.messages.map((message) => ({
+    ...message,
+    timestamp: toDate(message.timestamp) ?? new Date(0),
+  }));
+
+  const lastCompactedAt = toDate(metadata.lastCompactedAt);
+  const costUSD =
+    typeof metadata.costUSD === 'string' ? Number.parseFloat(metadata.costUSD) : metadata.costUSD;
+  const totalTokens =
+    typeof metadata.totalTokens === 'number'
+      ? metadata.totalTokens
+      : messages.reduce(
+          (sum, message) => sum + (message.tokens?.input ?? 0) + (message.tokens?.output ?? 0),
+          0
+        );
+
+  const createdAt = toDate(session.createdAt) ?? messages[0]?.timestamp ?? new Date(0);
+
+  return {
+    ...session,
+    messages,
+    createdAt,
+    lastActiveAt: toDate(session.lastActiveAt) ?? messages.at(-1)?.timestamp ?? createdAt,
+    tripProfile: {
+      ...session.tripProfile,
+      travelers: session.tripProfile?.travelers ?? { count: 1 },
+      extractedAt: toDate(session.tripProfile?.extractedAt) ?? createdAt,
+      confidence: session.tripProfile?.confidence ?? 0,
+    },
+    metadata: {
+      ...metadata,
+      messageCount: messages.length,
+      totalTokens,
+      ...(lastCompactedAt ? { lastCompactedAt } : {}),
+      ...(typeof costUSD === 'number' && Number.isFinite(costUSD) ? { costUSD } : {}),
+    },
+  };
+}
+
+/**
+ * Coerce a stored timestamp (Date, ISO string or epoch milliseconds) to a Date
+ */
+function toDate(value: unknown): Date | undefined {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? undefined : value;
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date;
+  }
+  return undefined;
 }
 
 /**
@@ -60,21 +191,11 @@ export class InMemorySessionStorage implements SessionStorage {
 
     for (const session of this.sessions.values()) {
       if (!itineraryId || session.itineraryId === itineraryId) {
-        const firstUserMessage = session.messages.find((m) => m.role === 'user');
-        summaries.push({
-          id: session.id,
-          itineraryId: session.itineraryId,
-          messageCount: session.messages.length,
-          lastActiveAt: session.lastActiveAt,
-          preview: firstUserMessage?.content.slice(0, 100) || 'New session',
-        });
+        summaries.push(createSessionSummary(session));
       }
     }
 
-    // Sort by last active, most recent first
-    summaries.sort((a, b) => b.lastActiveAt.getTime() - a.lastActiveAt.getTime());
-
-    return ok(summaries);
+    return ok(sortSessionSummaries(summaries));
   }
 
   async delete(sessionId: SessionId): Promise<Result<void, StorageError>> {
@@ -91,12 +212,15 @@ export class InMemorySessionStorage implements SessionStorage {
    * Delete all sessions associated with an itinerary
    * Used for cleanup when an itinerary is deleted
    */
-  deleteByItineraryId(itineraryId: ItineraryId): void {
+  async deleteByItineraryId(itineraryId: ItineraryId): Promise<Result<number, StorageError>> {
+    let deleted = 0;
     for (const [sessionId, session] of this.sessions) {
       if (session.itineraryId === itineraryId) {
         this.sessions.delete(sessionId);
+        deleted++;
       }
     }
+    return ok(deleted);
   }
 
   /** Clear all sessions (for testing) */
@@ -277,7 +401,7 @@ export class SessionManager {
    * Delete all sessions for an itinerary
    * Used when an itinerary is deleted to clean up orphaned sessions
    */
-  deleteByItineraryId(itineraryId: ItineraryId): void {
+  async deleteByItineraryId(itineraryId: ItineraryId): Promise<Result<number, StorageError>> {
     // Remove from active sessions
     for (const [sessionId, session] of this.activeSessions.entries()) {
       if (session.itineraryId === itineraryId) {
@@ -285,10 +409,8 @@ export class SessionManager {
       }
     }
 
-    // Delete from storage (if it supports deleteByItineraryId)
-    if ('deleteByItineraryId' in this.storage) {
-      (this.storage as InMemorySessionStorage).deleteByItineraryId(itineraryId);
-    }
+    // Delete from storage
+    return this.storage.deleteByItineraryId(itineraryId);
   }
 
   /**
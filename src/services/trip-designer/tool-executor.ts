@@ -11,7 +11,15 @@ import type {
   SessionId,
 } from '../../domain/types/trip-designer.js';
 import { SegmentType, SegmentStatus } from '../../domain/types/common.js';
+import type { Location } from '../../domain/types/location.js';
 import type { Segment } from '../../domain/types/segment.js';
+import type { CabinClass } from '../../domain/types/common.js';
+import type { TravelSearchProvider } from '../travel-search/travel-search-provider.js';
+import type {
+  FlightQuery,
+  FlightQueryLeg,
+  HotelRecommendationCriteria,
+} from '../../domain/types/travel-search.js';
 import type { SegmentService } from '../segment.service.js';
 import type { ItineraryService } from '../itinerary.service.js';
 import type { DependencyService } from '../dependency.service.js';
@@ -19,13 +27,21 @@ import type { KnowledgeService } from '../knowledge.service.js';
 import type { WeaviateKnowledgeService } from '../weaviate-knowledge.service.js';
 import { isWeaviateKnowledgeService } from '../knowledge-factory.js';
 import { summarizeItineraryForTool } from './itinerary-summarizer.js';
-import { parseLocalDate, parseLocalDateTime } from '../../utils/date-parser.js';
+import { parseLocalDate } from '../../utils/date-parser.js';
+import { inferTimezone, parseZonedDateTime, withInferredTimezone } from '../../utils/timezone.js';
 import { GeocodingService } from '../geocoding.service.js';
+import type { BudgetService } from '../budget.service.js';
+import { formatMoney } from '../../domain/types/money.js';
+import type { RevisionContext } from '../../storage/storage.interface.js';
+import type { TemplateStorage } from '../../storage/template-storage.js';
+import { instantiateTemplate } from '../../domain/utils/itinerary-template.js';
 import {
   addFlightArgsSchema,
   addHotelArgsSchema,
   addActivityArgsSchema,
   addTransferArgsSchema,
+  addRailArgsSchema,
+  addCarRentalArgsSchema,
   addMeetingArgsSchema,
   addTravelerArgsSchema,
   updateItineraryArgsSchema,
@@ -45,7 +61,24 @@ import {
   getDistanceArgsSchema,
   showRouteArgsSchema,
   geocodeLocationArgsSchema,
+  applyTemplateArgsSchema,
+  rescheduleRequestSchema,
 } from '../../domain/schemas/index.js';
+import { READ_ONLY_TOOLS } from './tools.js';
+import {
+  summarizeRankedFlightOffer,
+  summarizeRankedHotelOffer,
+  summarizeTransferOffer,
+} from './offer-summarizer.js';
+import { TravelAgentService } from '../travel-agent.service.js';
+
+/** Names of the tools users with view-only access may run */
+const READ_ONLY_TOOL_NAMES: ReadonlySet<string> = new Set(
+  READ_ONLY_TOOLS.map((tool) => tool.function.name)
+);
+
+/** Most offers returned to the model per search */
+const MAX_TOOL_OFFERS = 8;
 
 /**
  * Travel intelligence entry for knowledge base storage
@@ -72,6 +105,9 @@ export interface ToolExecutorDependencies {
   dependencyService?: DependencyService;
   knowledgeService?: KnowledgeService | WeaviateKnowledgeService;
   geocodingService?: GeocodingService;
+  budgetService?: BudgetService;
+  templateStorage?: TemplateStorage;
+  travelSearchProvider?: TravelSearchProvider;
 }
 
 /**
@@ -79,8 +115,14 @@ export interface ToolExecutorDependencies {
  */
 export class ToolExecutor {
   private currentItinerary?: any; // Cache current itinerary for context
+  private readonly travelAgent?: TravelAgentService;
 
-  constructor(private readonly deps: ToolExecutorDependencies = {}) {}
+  constructor(private readonly deps: ToolExecutorDependencies = {}) {
+    // Builds flight queries from the itinerary (cabin, passengers, loyalty airlines)
+    if (deps.travelSearchProvider) {
+      this.travelAgent = new TravelAgentService({ searchProvider: deps.travelSearchProvider });
+    }
+  }
 
   /**
    * Execute a tool call
@@ -91,6 +133,17 @@ export class ToolExecutor {
 
     const startTime = Date.now();
 
+    if (context.readOnly && !READ_ONLY_TOOL_NAMES.has(name)) {
+      return {
+        toolCallId: toolCall.id,
+        success: false,
+        error: `${name} is not available: this itinerary is shared with the user as view-only, so it cannot be changed. Suggest the change to the user instead; an owner or editor can make it.`,
+        metadata: {
+          executionTimeMs: Date.now() - startTime,
+        },
+      };
+    }
+
     try {
       // Load itinerary context if not cached
       if (!this.currentItinerary && this.deps.itineraryService) {
@@ -119,6 +172,13 @@ export class ToolExecutor {
         }
       }
 
+      // Changes made by tools are attributed to the agent in the revision log
+      const revision: RevisionContext = {
+        author: 'agent',
+        cause: `${name} tool call`,
+        actor: context.sessionId,
+      };
+
       // Route to appropriate handler
       let result: unknown;
 
@@ -131,52 +191,68 @@ export class ToolExecutor {
           result = await this.handleGetSegment(itineraryId, args);
           break;
 
+        case 'get_budget_status':
+          result = await this.handleGetBudgetStatus(itineraryId);
+          break;
+
         case 'update_itinerary':
-          result = await this.handleUpdateItinerary(itineraryId, args);
+          result = await this.handleUpdateItinerary(itineraryId, args, revision);
           break;
 
         case 'update_preferences':
-          result = await this.handleUpdatePreferences(itineraryId, args);
+          result = await this.handleUpdatePreferences(itineraryId, args, revision);
           break;
 
         case 'add_traveler':
-          result = await this.handleAddTraveler(itineraryId, args);
+          result = await this.handleAddTraveler(itineraryId, args, revision);
           break;
 
         case 'add_flight':
-          result = await this.handleAddFlight(itineraryId, args);
+          result = await this.handleAddFlight(itineraryId, args, revision);
           break;
 
         case 'add_hotel':
-          result = await this.handleAddHotel(itineraryId, args);
+          result = await this.handleAddHotel(itineraryId, args, revision);
           break;
 
         case 'add_activity':
-          result = await this.handleAddActivity(itineraryId, args);
+          result = await this.handleAddActivity(itineraryId, args, revision);
           break;
 
         case 'add_transfer':
-          result = await this.handleAddTransfer(itineraryId, args);
+          result = await this.handleAddTransfer(itineraryId, args, revision);
+          break;
+
+        case 'add_rail':
+          result = await this.handleAddRail(itineraryId, args, revision);
+          break;
+
+        case 'add_car_rental':
+          result = await this.handleAddCarRental(itineraryId, args, revision);
           break;
 
         case 'add_meeting':
-          result = await this.handleAddMeeting(itineraryId, args);
+          result = await this.handleAddMeeting(itineraryId, args, revision);
           break;
 
         case 'update_segment':
-          result = await this.handleUpdateSegment(itineraryId, args);
+          result = await this.handleUpdateSegment(itineraryId, args, revision);
           break;
 
         case 'delete_segment':
-          result = await this.handleDeleteSegment(itineraryId, args);
+          result = await this.handleDeleteSegment(itineraryId, args, revision);
           break;
 
         case 'move_segment':
-          result = await this.handleMoveSegment(itineraryId, args);
+          result = await this.handleMoveSegment(itineraryId, args, revision);
+          break;
+
+        case 'shift_itinerary':
+          result = await this.handleShiftItinerary(itineraryId, args, revision);
           break;
 
         case 'reorder_segments':
-          result = await this.handleReorderSegments(itineraryId, args);
+          result = await this.handleReorderSegments(itineraryId, args, revision);
           break;
 
         case 'search_web':
@@ -184,11 +260,11 @@ export class ToolExecutor {
           break;
 
         case 'search_flights':
-          result = await this.handleSearchFlights(args);
+          result = await this.handleSearchFlights(itineraryId, args);
           break;
 
         case 'search_hotels':
-          result = await this.handleSearchHotels(args);
+          result = await this.handleSearchHotels(itineraryId, args);
           break;
 
         case 'search_transfers':
@@ -220,6 +296,10 @@ export class ToolExecutor {
           result = await this.handleGeocodeLocation(args);
           break;
 
+        case 'apply_template':
+          result = await this.handleApplyTemplate(itineraryId, args, revision);
+          break;
+
         default:
           return {
             toolCallId: toolCall.id,
@@ -307,10 +387,78 @@ export class ToolExecutor {
     return result.value;
   }
 
+  /**
+   * Get budget status handler
+   * Returns a compact, pre-formatted comparison of spend against the budget
+   */
+  private async handleGetBudgetStatus(itineraryId: ItineraryId): Promise<unknown> {
+    if (!this.deps.itineraryService) {
+      throw new Error('ItineraryService not configured');
+    }
+    if (!this.deps.budgetService) {
+      throw new Error('BudgetService not configured');
+    }
+
+    const itineraryResult = await this.deps.itineraryService.getItinerary(itineraryId);
+    if (!itineraryResult.success) {
+      throw new Error(`Failed to get itinerary: ${itineraryResult.error.message}`);
+    }
+
+    const result = await this.deps.budgetService.analyze(itineraryResult.value);
+    if (!result.success) {
+      if (result.error.code === 'MISSING_FIELD') {
+        return {
+          success: false,
+          hasBudget: false,
+          message:
+            'No budget set. Ask the traveler for their budget and save it with update_preferences.',
+        };
+      }
+      throw new Error(`Failed to analyze budget: ${result.error.message}`);
+    }
+
+    const analysis = result.value;
+    const { total, perPeriod } = analysis;
+
+    return {
+      success: true,
+      hasBudget: true,
+      currency: analysis.currency,
+      period: analysis.period,
+      total: {
+        budget: formatMoney(total.budget),
+        spent: formatMoney(total.spent),
+        projected: formatMoney(total.projected),
+        percentUsed: total.percentUsed,
+        status: total.status,
+      },
+      perPeriod: {
+        budget: formatMoney(perPeriod.budget),
+        projected: formatMoney(perPeriod.projected),
+        status: perPeriod.status,
+      },
+      byCategory: analysis.byCategory.map((line) => ({
+        category: line.category,
+        budget: formatMoney(line.budget),
+        projected: formatMoney(line.projected),
+        percentUsed: line.percentUsed,
+        status: line.status,
+      })),
+      overruns: analysis.overruns.map((overrun) => overrun.message),
+      unpricedSegmentCount: analysis.unpricedSegmentIds.length,
+      ...(analysis.ratesAsOf ? { ratesAsOf: analysis.ratesAsOf } : {}),
+      summary: `Projected spend ${formatMoney(total.projected)} of ${formatMoney(total.budget)} (${total.percentUsed}% of budget, ${formatMoney(total.spent)} confirmed).`,
+    };
+  }
+
   /**
    * Update itinerary handler
    */
-  private async handleUpdateItinerary(itineraryId: ItineraryId, args: unknown): Promise<unknown> {
+  private async handleUpdateItinerary(
+    itineraryId: ItineraryId,
+    args: unknown,
+    revision: RevisionContext
+  ): Promise<unknown> {
     // Validate arguments
     const validation = updateItineraryArgsSchema.safeParse(args);
     if (!validation.success) {
@@ -404,9 +552,11 @@ export class ToolExecutor {
         itinerary.destinations = allDestinations;
 
         // Save the itinerary with new destinations
-        const saveResult = await this.deps.itineraryService.update(itineraryId, {
-          ...updates,
-        });
+        const saveResult = await this.deps.itineraryService.update(
+          itineraryId,
+          { ...updates },
+          revision
+        );
 
         // Manually update destinations through storage since update() doesn't handle it
         if (saveResult.success) {
@@ -417,7 +567,7 @@ export class ToolExecutor {
       }
     }
 
-    const result = await this.deps.itineraryService.update(itineraryId, updates);
+    const result = await this.deps.itineraryService.update(itineraryId, updates, revision);
     if (!result.success) {
       throw new Error(`Failed to update itinerary: ${result.error.message}`);
     }
@@ -433,7 +583,11 @@ export class ToolExecutor {
   /**
    * Handle update_preferences tool call
    */
-  private async handleUpdatePreferences(itineraryId: ItineraryId, args: unknown): Promise<unknown> {
+  private async handleUpdatePreferences(
+    itineraryId: ItineraryId,
+    args: unknown,
+    revision: RevisionContext
+  ): Promise<unknown> {
     // Validate arguments
     const validation = updatePreferencesArgsSchema.safeParse(args);
     if (!validation.success) {
@@ -506,9 +660,11 @@ export class ToolExecutor {
     itinerary.updatedAt = new Date();
 
     // Save updated itinerary
-    const saveResult = await this.deps.itineraryService.update(itineraryId, {
-      tripPreferences,
-    });
+    const saveResult = await this.deps.itineraryService.update(
+      itineraryId,
+      { tripPreferences },
+      revision
+    );
 
     if (!saveResult.success) {
       throw new Error(`Failed to update preferences: ${saveResult.error.message}`);
@@ -526,7 +682,11 @@ export class ToolExecutor {
   /**
    * Handle add_traveler tool call
    */
-  private async handleAddTraveler(itineraryId: ItineraryId, args: unknown): Promise<unknown> {
+  private async handleAddTraveler(
+    itineraryId: ItineraryId,
+    args: unknown,
+    revision: RevisionContext
+  ): Promise<unknown> {
     // Validate arguments
     const validation = addTravelerArgsSchema.safeParse(args);
     if (!validation.success) {
@@ -590,9 +750,11 @@ export class ToolExecutor {
     itinerary.updatedAt = new Date();
 
     // Save updated itinerary
-    const saveResult = await this.deps.itineraryService.update(itineraryId, {
-      travelers: itinerary.travelers,
-    });
+    const saveResult = await this.deps.itineraryService.update(
+      itineraryId,
+      { travelers: itinerary.travelers },
+      revision
+    );
 
     if (!saveResult.success) {
       throw new Error(`Failed to add traveler: ${saveResult.error.message}`);
@@ -632,7 +794,11 @@ export class ToolExecutor {
   /**
    * Add flight handler
    */
-  private async handleAddFlight(itineraryId: ItineraryId, args: unknown): Promise<unknown> {
+  private async handleAddFlight(
+    itineraryId: ItineraryId,
+    args: unknown,
+    revision: RevisionContext
+  ): Promise<unknown> {
     // Validate arguments
     const validation = addFlightArgsSchema.safeParse(args);
     if (!validation.success) {
@@ -647,11 +813,14 @@ export class ToolExecutor {
     await this.ensurePersisted(itineraryId);
 
     const params = validation.data;
+    // Departure and arrival times are local to their airports
+    const origin = withInferredTimezone({ ...params.origin, type: 'AIRPORT' } as Location);
+    const destination = withInferredTimezone({ ...params.destination, type: 'AIRPORT' } as Location);
     const segment: Omit<Segment, 'id'> = {
       type: SegmentType.FLIGHT,
       status: SegmentStatus.CONFIRMED,
-      startDatetime: parseLocalDateTime(params.departureTime),
-      endDatetime: parseLocalDateTime(params.arrivalTime),
+      startDatetime: parseZonedDateTime(params.departureTime, inferTimezone(origin)),
+      endDatetime: parseZonedDateTime(params.arrivalTime, inferTimezone(destination)),
       travelerIds: [],
       source: 'agent',
       sourceDetails: {
@@ -660,8 +829,8 @@ export class ToolExecutor {
       },
       airline: params.airline,
       flightNumber: params.flightNumber,
-      origin: { ...params.origin, type: 'AIRPORT' },
-      destination: { ...params.destination, type: 'AIRPORT' },
+      origin,
+      destination,
       cabinClass: params.cabinClass,
       price: params.price,
       confirmationNumber: params.confirmationNumber,
@@ -669,7 +838,7 @@ export class ToolExecutor {
       metadata: {},
     } as any;
 
-    const result = await this.deps.segmentService.add(itineraryId, segment);
+    const result = await this.deps.segmentService.add(itineraryId, segment, revision);
     if (!result.success) {
       throw new Error(`Failed to add flight: ${result.error.message}`);
     }
@@ -683,7 +852,11 @@ export class ToolExecutor {
   /**
    * Add hotel handler
    */
-  private async handleAddHotel(itineraryId: ItineraryId, args: unknown): Promise<unknown> {
+  private async handleAddHotel(
+    itineraryId: ItineraryId,
+    args: unknown,
+    revision: RevisionContext
+  ): Promise<unknown> {
     // Validate arguments
     const validation = addHotelArgsSchema.safeParse(args);
     if (!validation.success) {
@@ -698,17 +871,14 @@ export class ToolExecutor {
     await this.ensurePersisted(itineraryId);
 
     const params = validation.data;
-    const checkInDate = parseLocalDate(params.checkInDate);
-    const checkOutDate = parseLocalDate(params.checkOutDate);
     const checkInTime = params.checkInTime || '15:00';
     const checkOutTime = params.checkOutTime || '11:00';
 
-    // Combine date and time
-    const [checkInHour, checkInMin] = checkInTime.split(':');
-    const [checkOutHour, checkOutMin] = checkOutTime.split(':');
-
-    checkInDate.setHours(parseInt(checkInHour || '15'), parseInt(checkInMin || '0'));
-    checkOutDate.setHours(parseInt(checkOutHour || '11'), parseInt(checkOutMin || '0'));
+    // Check-in and check-out times are local to the hotel
+    const location = withInferredTimezone({ ...params.location, type: 'HOTEL' } as Location);
+    const timeZone = inferTimezone(location);
+    const checkInDate = parseZonedDateTime(`${params.checkInDate}T${checkInTime}`, timeZone);
+    const checkOutDate = parseZonedDateTime(`${params.checkOutDate}T${checkOutTime}`, timeZone);
 
     const segment: Omit<Segment, 'id'> = {
       type: SegmentType.HOTEL,
@@ -722,7 +892,7 @@ export class ToolExecutor {
         timestamp: new Date(),
       },
       property: params.property,
-      location: { ...params.location, type: 'HOTEL' },
+      location,
       checkInDate,
       checkOutDate,
       checkInTime,
@@ -737,7 +907,7 @@ export class ToolExecutor {
       metadata: {},
     } as any;
 
-    const result = await this.deps.segmentService.add(itineraryId, segment);
+    const result = await this.deps.segmentService.add(itineraryId, segment, revision);
     if (!result.success) {
       throw new Error(`Failed to add hotel: ${result.error.message}`);
     }
@@ -751,7 +921,11 @@ export class ToolExecutor {
   /**
    * Add activity handler
    */
-  private async handleAddActivity(itineraryId: ItineraryId, args: unknown): Promise<unknown> {
+  private async handleAddActivity(
+    itineraryId: ItineraryId,
+    args: unknown,
+    revision: RevisionContext
+  ): Promise<unknown> {
     // Validate arguments
     const validation = addActivityArgsSchema.safeParse(args);
     if (!validation.success) {
@@ -766,11 +940,13 @@ export class ToolExecutor {
     await this.ensurePersisted(itineraryId);
 
     const params = validation.data;
-    const startTime = parseLocalDateTime(params.startTime);
+    // Start and end times are local to the activity
+    const location = withInferredTimezone({ ...params.location, type: 'ATTRACTION' } as Location);
+    const startTime = parseZonedDateTime(params.startTime, inferTimezone(location));
     let endTime: Date;
 
     if (params.endTime) {
-      endTime = parseLocalDateTime(params.endTime);
+      endTime = parseZonedDateTime(params.endTime, inferTimezone(location));
     } else if (params.durationHours) {
       endTime = new Date(startTime.getTime() + params.durationHours * 60 * 60 * 1000);
     } else {
@@ -791,7 +967,7 @@ export class ToolExecutor {
       },
       name: params.name,
       description: params.description,
-      location: { ...params.location, type: 'ATTRACTION' },
+      location,
       category: params.category,
       provider: params.provider,
       price: params.price,
@@ -801,7 +977,7 @@ export class ToolExecutor {
       metadata: {},
     } as any;
 
-    const result = await this.deps.segmentService.add(itineraryId, segment);
+    const result = await this.deps.segmentService.add(itineraryId, segment, revision);
     if (!result.success) {
       throw new Error(`Failed to add activity: ${result.error.message}`);
     }
@@ -815,7 +991,11 @@ export class ToolExecutor {
   /**
    * Add transfer handler
    */
-  private async handleAddTransfer(itineraryId: ItineraryId, args: unknown): Promise<unknown> {
+  private async handleAddTransfer(
+    itineraryId: ItineraryId,
+    args: unknown,
+    revision: RevisionContext
+  ): Promise<unknown> {
     // Validate arguments
     const validation = addTransferArgsSchema.safeParse(args);
     if (!validation.success) {
@@ -830,7 +1010,10 @@ export class ToolExecutor {
     await this.ensurePersisted(itineraryId);
 
     const params = validation.data;
-    const pickupTime = parseLocalDateTime(params.pickupTime);
+    // Pickup time is local to the pickup location
+    const pickupLocation = withInferredTimezone({ ...params.pickupLocation, type: 'OTHER' } as Location);
+    const dropoffLocation = withInferredTimezone({ ...params.dropoffLocation, type: 'OTHER' } as Location);
+    const pickupTime = parseZonedDateTime(params.pickupTime, inferTimezone(pickupLocation));
     const durationMs = (params.estimatedDurationMinutes || 30) * 60 * 1000;
     const dropoffTime = new Date(pickupTime.getTime() + durationMs);
 
@@ -846,8 +1029,8 @@ export class ToolExecutor {
         timestamp: new Date(),
       },
       transferType: params.transferType,
-      pickupLocation: { ...params.pickupLocation, type: 'OTHER' },
-      dropoffLocation: { ...params.dropoffLocation, type: 'OTHER' },
+      pickupLocation,
+      dropoffLocation,
       vehicleDetails: params.vehicleDetails,
       provider: params.provider,
       price: params.price,
@@ -856,7 +1039,7 @@ export class ToolExecutor {
       metadata: {},
     } as any;
 
-    const result = await this.deps.segmentService.add(itineraryId, segment);
+    const result = await this.deps.segmentService.add(itineraryId, segment, revision);
     if (!result.success) {
       throw new Error(`Failed to add transfer: ${result.error.message}`);
     }
@@ -867,10 +1050,149 @@ export class ToolExecutor {
     return { success: true, segmentId: addedSegment.id };
   }
 
+  /**
+   * Add rail handler
+   */
+  private async handleAddRail(
+    itineraryId: ItineraryId,
+    args: unknown,
+    revision: RevisionContext
+  ): Promise<unknown> {
+    // Validate arguments
+    const validation = addRailArgsSchema.safeParse(args);
+    if (!validation.success) {
+      throw new Error(`Invalid rail arguments: ${validation.error.message}`);
+    }
+
+    if (!this.deps.segmentService) {
+      throw new Error('SegmentService not configured');
+    }
+
+    // Persist draft if needed
+    await this.ensurePersisted(itineraryId);
+
+    const params = validation.data;
+
+    // Seat is assigned to the primary traveler when one is known
+    const primaryTravelerId = this.currentItinerary?.primaryTravelerId;
+    const seatAssignments =
+      params.seat && primaryTravelerId ? { [primaryTravelerId]: params.seat } : undefined;
+
+    // Departure and arrival times are local to their stations
+    const origin = withInferredTimezone({ ...params.origin, type: 'STATION' } as Location);
+    const destination = withInferredTimezone({ ...params.destination, type: 'STATION' } as Location);
+
+    const segment: Omit<Segment, 'id'> = {
+      type: SegmentType.RAIL,
+      status: SegmentStatus.CONFIRMED,
+      startDatetime: parseZonedDateTime(params.departureTime, inferTimezone(origin)),
+      endDatetime: parseZonedDateTime(params.arrivalTime, inferTimezone(destination)),
+      travelerIds: [],
+      source: 'agent',
+      sourceDetails: {
+        mode: 'chat',
+        timestamp: new Date(),
+      },
+      operator: params.operator,
+      trainNumber: params.trainNumber,
+      origin,
+      destination,
+      departurePlatform: params.departurePlatform,
+      arrivalPlatform: params.arrivalPlatform,
+      coach: params.coach,
+      seatAssignments,
+      fareClass: params.fareClass,
+      price: params.price,
+      confirmationNumber: params.confirmationNumber,
+      notes: params.notes,
+      metadata: params.seat && !seatAssignments ? { seat: params.seat } : {},
+    } as any;
+
+    const result = await this.deps.segmentService.add(itineraryId, segment, revision);
+    if (!result.success) {
+      throw new Error(`Failed to add rail journey: ${result.error.message}`);
+    }
+
+    // CRITICAL: Extract the newly added segment ID from the returned itinerary
+    // SegmentService.add() returns the full itinerary, so get the last segment
+    const addedSegment = result.value.segments[result.value.segments.length - 1];
+    return { success: true, segmentId: addedSegment.id };
+  }
+
+  /**
+   * Add car rental handler
+   */
+  private async handleAddCarRental(
+    itineraryId: ItineraryId,
+    args: unknown,
+    revision: RevisionContext
+  ): Promise<unknown> {
+    // Validate arguments
+    const validation = addCarRentalArgsSchema.safeParse(args);
+    if (!validation.success) {
+      throw new Error(`Invalid car rental arguments: ${validation.error.message}`);
+    }
+
+    if (!this.deps.segmentService) {
+      throw new Error('SegmentService not configured');
+    }
+
+    // Persist draft if needed
+    await this.ensurePersisted(itineraryId);
+
+    const params = validation.data;
+    const pickupLocation = withInferredTimezone({ ...params.pickupLocation, type: 'OTHER' } as Location);
+    // Round-trip rental when no return office is given
+    const returnLocation = params.returnLocation
+      ? withInferredTimezone({ ...params.returnLocation, type: 'OTHER' } as Location)
+      : pickupLocation;
+
+    const segment: Omit<Segment, 'id'> = {
+      type: SegmentType.CAR_RENTAL,
+      status: SegmentStatus.CONFIRMED,
+      startDatetime: parseZonedDateTime(params.pickupTime, inferTimezone(pickupLocation)),
+      endDatetime: parseZonedDateTime(params.returnTime, inferTimezone(returnLocation)),
+      travelerIds: [],
+      source: 'agent',
+      sourceDetails: {
+        mode: 'chat',
+        timestamp: new Date(),
+      },
+      rentalCompany: params.rentalCompany,
+      pickupLocation,
+      returnLocation,
+      carClass: params.carClass,
+      vehicleDescription: params.vehicleDescription,
+      primaryDriver: params.primaryDriver,
+      additionalDrivers: params.additionalDrivers,
+      insurance: params.insurance,
+      includedMileage: params.includedMileage,
+      fuelPolicy: params.fuelPolicy,
+      price: params.price,
+      confirmationNumber: params.confirmationNumber,
+      notes: params.notes,
+      metadata: {},
+    } as any;
+
+    const result = await this.deps.segmentService.add(itineraryId, segment, revision);
+    if (!result.success) {
+      throw new Error(`Failed to add car rental: ${result.error.message}`);
+    }
+
+    // CRITICAL: Extract the newly added segment ID from the returned itinerary
+    // SegmentService.add() returns the full itinerary, so get the last segment
+    const addedSegment = result.value.segments[result.value.segments.length - 1];
+    return { success: true, segmentId: addedSegment.id };
+  }
+
   /**
    * Add meeting handler
    */
-  private async handleAddMeeting(itineraryId: ItineraryId, args: unknown): Promise<unknown> {
+  private async handleAddMeeting(
+    itineraryId: ItineraryId,
+    args: unknown,
+    revision: RevisionContext
+  ): Promise<unknown> {
     // Validate arguments
     const validation = addMeetingArgsSchema.safeParse(args);
     if (!validation.success) {
@@ -885,12 +1207,14 @@ export class ToolExecutor {
     await this.ensurePersisted(itineraryId);
 
     const params = validation.data;
+    // Start and end times are local to the meeting place
+    const location = withInferredTimezone({ ...params.location, type: 'OTHER' } as Location);
 
     const segment: Omit<Segment, 'id'> = {
       type: SegmentType.MEETING,
       status: SegmentStatus.CONFIRMED,
-      startDatetime: parseLocalDateTime(params.startTime),
-      endDatetime: parseLocalDateTime(params.endTime),
+      startDatetime: parseZonedDateTime(params.startTime, inferTimezone(location)),
+      endDatetime: parseZonedDateTime(params.endTime, inferTimezone(location)),
       travelerIds: [],
       source: 'agent',
       sourceDetails: {
@@ -898,7 +1222,7 @@ export class ToolExecutor {
         timestamp: new Date(),
       },
       title: params.title,
-      location: { ...params.location, type: 'OTHER' },
+      location,
       organizer: params.organizer,
       attendees: params.attendees || [],
       agenda: params.agenda,
@@ -907,7 +1231,7 @@ export class ToolExecutor {
       metadata: {},
     } as any;
 
-    const result = await this.deps.segmentService.add(itineraryId, segment);
+    const result = await this.deps.segmentService.add(itineraryId, segment, revision);
     if (!result.success) {
       throw new Error(`Failed to add meeting: ${result.error.message}`);
     }
@@ -921,7 +1245,11 @@ export class ToolExecutor {
   /**
    * Update segment handler
    */
-  private async handleUpdateSegment(itineraryId: ItineraryId, args: unknown): Promise<unknown> {
+  private async handleUpdateSegment(
+    itineraryId: ItineraryId,
+    args: unknown,
+    revision: RevisionContext
+  ): Promise<unknown> {
     // Validate arguments
     const validation = updateSegmentArgsSchema.safeParse(args);
     if (!validation.success) {
@@ -933,7 +1261,7 @@ export class ToolExecutor {
       throw new Error('SegmentService not configured');
     }
 
-    const result = await this.deps.segmentService.update(itineraryId, segmentId, updates);
+    const result = await this.deps.segmentService.update(itineraryId, segmentId, updates, revision);
     if (!result.success) {
       throw new Error(`Failed to update segment: ${result.error.message}`);
     }
@@ -944,7 +1272,11 @@ export class ToolExecutor {
   /**
    * Delete segment handler
    */
-  private async handleDeleteSegment(itineraryId: ItineraryId, args: unknown): Promise<unknown> {
+  private async handleDeleteSegment(
+    itineraryId: ItineraryId,
+    args: unknown,
+    revision: RevisionContext
+  ): Promise<unknown> {
     // Validate arguments
     const validation = deleteSegmentArgsSchema.safeParse(args);
     if (!validation.success) {
@@ -956,7 +1288,7 @@ export class ToolExecutor {
       throw new Error('SegmentService not configured');
     }
 
-    const result = await this.deps.segmentService.delete(itineraryId, segmentId);
+    const result = await this.deps.segmentService.delete(itineraryId, segmentId, revision);
     if (!result.success) {
       throw new Error(`Failed to delete segment: ${result.error.message}`);
     }
@@ -967,7 +1299,11 @@ export class ToolExecutor {
   /**
    * Move segment handler (with dependency cascade)
    */
-  private async handleMoveSegment(itineraryId: ItineraryId, args: unknown): Promise<unknown> {
+  private async handleMoveSegment(
+    itineraryId: ItineraryId,
+    args: unknown,
+    revision: RevisionContext
+  ): Promise<unknown> {
     // Validate arguments
     const validation = moveSegmentArgsSchema.safeParse(args);
     if (!validation.success) {
@@ -1015,7 +1351,8 @@ export class ToolExecutor {
         {
           startDatetime: adjustedSegment.startDatetime,
           endDatetime: adjustedSegment.endDatetime,
-        }
+        },
+        revision
       );
 
       if (!updateResult.success) {
@@ -1026,10 +1363,62 @@ export class ToolExecutor {
     return { success: true, segmentId, dependentsAdjusted: adjustResult.value.length - 1 };
   }
 
+  /**
+   * Shift itinerary handler (whole trip, one day or selected segments)
+   */
+  private async handleShiftItinerary(
+    itineraryId: ItineraryId,
+    args: unknown,
+    revision: RevisionContext
+  ): Promise<unknown> {
+    // Validate arguments
+    const validation = rescheduleRequestSchema.safeParse(args);
+    if (!validation.success) {
+      throw new Error(`Invalid shift_itinerary arguments: ${validation.error.message}`);
+    }
+
+    if (!this.deps.itineraryService) {
+      throw new Error('ItineraryService not configured');
+    }
+
+    const result = await this.deps.itineraryService.reschedule(
+      itineraryId,
+      { ...validation.data, dryRun: false },
+      revision
+    );
+    if (!result.success) {
+      throw new Error(`Failed to shift itinerary: ${result.error.message}`);
+    }
+
+    const { itinerary, moved, needsRebooking } = result.value;
+    return {
+      success: true,
+      segmentsMoved: moved.length,
+      startDate: itinerary.startDate,
+      endDate: itinerary.endDate,
+      needsRebooking: needsRebooking.map((segment) => ({
+        segmentId: segment.segmentId,
+        type: segment.type,
+        confirmationNumber: segment.confirmationNumber,
+        newStart: segment.start,
+      })),
+      message:
+        needsRebooking.length > 0
+          ? `Moved ${moved.length} segments. ${needsRebooking.length} confirmed booking(s) must be changed with the provider.`
+          : `Moved ${moved.length} segments`,
+      // Signal that itinerary changed (triggers UI refresh)
+      itineraryChanged: moved.length > 0,
+    };
+  }
+
   /**
    * Reorder segments handler
    */
-  private async handleReorderSegments(itineraryId: ItineraryId, args: unknown): Promise<unknown> {
+  private async handleReorderSegments(
+    itineraryId: ItineraryId,
+    args: unknown,
+    revision: RevisionContext
+  ): Promise<unknown> {
     // Validate arguments
     const validation = reorderSegmentsArgsSchema.safeParse(args);
     if (!validation.success) {
@@ -1041,7 +1430,7 @@ export class ToolExecutor {
       throw new Error('SegmentService not configured');
     }
 
-    const result = await this.deps.segmentService.reorder(itineraryId, segmentIds);
+    const result = await this.deps.segmentService.reorder(itineraryId, segmentIds, revision);
     if (!result.success) {
       throw new Error(`Failed to reorder segments: ${result.error.message}`);
     }
@@ -1127,41 +1516,161 @@ export class ToolExecutor {
   }
 
   /**
-   * Search flights handler (placeholder for SERP API)
+   * Search flights with the travel search provider
+   * Returns ranked options per leg; unset query options come from the itinerary.
    */
-  private async handleSearchFlights(args: unknown): Promise<unknown> {
+  private async handleSearchFlights(itineraryId: ItineraryId, args: unknown): Promise<unknown> {
     // Validate arguments
     const validation = searchFlightsArgsSchema.safeParse(args);
     if (!validation.success) {
       throw new Error(`Invalid search_flights arguments: ${validation.error.message}`);
     }
 
-    // TODO: Implement SERP API Google Flights search
+    const provider = this.deps.travelSearchProvider;
+    if (!provider || !this.travelAgent) {
+      return {
+        note: 'Flight search is not configured',
+        params: validation.data,
+      };
+    }
+
+    const params = validation.data;
+    const legs: FlightQueryLeg[] = [
+      { origin: params.origin, destination: params.destination, date: params.departureDate },
+      ...(params.returnDate
+        ? [{ origin: params.destination, destination: params.origin, date: params.returnDate }]
+        : []),
+      ...(params.additionalLegs ?? []),
+    ];
+    const overrides: Omit<FlightQuery, 'legs'> = {
+      ...(params.flexibleDays !== undefined ? { dateWindowDays: params.flexibleDays } : {}),
+      ...(params.cabinClass ? { cabinClass: params.cabinClass.toUpperCase() as CabinClass } : {}),
+      ...(params.maxStops !== undefined ? { maxStops: params.maxStops } : {}),
+      ...(params.preferredAirlines
+        ? { preferredAirlines: params.preferredAirlines.map((code) => code.toUpperCase()) }
+        : {}),
+      ...(params.currency ? { currency: params.currency.toUpperCase() } : {}),
+    };
+
+    const itineraryResult = this.deps.itineraryService
+      ? await this.deps.itineraryService.getItinerary(itineraryId)
+      : undefined;
+    const query: FlightQuery = itineraryResult?.success
+      ? this.travelAgent.buildFlightQuery(itineraryResult.value, legs, overrides)
+      : { legs, ...overrides };
+
+    // Explicit passenger counts replace the itinerary's
+    if (
+      params.adults !== undefined ||
+      params.children !== undefined ||
+      params.infants !== undefined
+    ) {
+      query.passengers = {
+        adults: params.adults ?? query.passengers?.adults ?? 1,
+        children: params.children ?? query.passengers?.children ?? 0,
+        infants: params.infants ?? query.passengers?.infants ?? 0,
+      };
+    }
+
+    const result = await this.travelAgent.searchFlightOffers(query);
+    if (!result.success) {
+      throw new Error(`Flight search failed: ${result.error.message}`);
+    }
+
     return {
-      note: 'Flight search not yet implemented',
-      params: validation.data,
+      provider: provider.name,
+      tripType: result.value.tripType,
+      query: {
+        ...(query.cabinClass ? { cabinClass: query.cabinClass } : {}),
+        ...(query.passengers ? { passengers: query.passengers } : {}),
+        ...(query.preferredAirlines ? { preferredAirlines: query.preferredAirlines } : {}),
+        ...(query.maxStops !== undefined ? { maxStops: query.maxStops } : {}),
+        ...(query.currency ? { currency: query.currency } : {}),
+      },
+      legs: result.value.legs.map((legResult) => ({
+        leg: legResult.legIndex + 1,
+        origin: legResult.leg.origin,
+        destination: legResult.leg.destination,
+        dates: legResult.searchedDates,
+        count: legResult.offers.length,
+        options: legResult.offers.slice(0, MAX_TOOL_OFFERS).map(summarizeRankedFlightOffer),
+      })),
+      ...this.sampleDataNote(provider),
     };
   }
 
   /**
-   * Search hotels handler (placeholder for SERP API)
+   * Search hotels with the travel search provider
+   * Returns recommended options with their reasons; unset criteria come from the itinerary.
    */
-  private async handleSearchHotels(args: unknown): Promise<unknown> {
+  private async handleSearchHotels(itineraryId: ItineraryId, args: unknown): Promise<unknown> {
     // Validate arguments
     const validation = searchHotelsArgsSchema.safeParse(args);
     if (!validation.success) {
       throw new Error(`Invalid search_hotels arguments: ${validation.error.message}`);
     }
 
-    // TODO: Implement SERP API Google Hotels search
+    const provider = this.deps.travelSearchProvider;
+    if (!provider || !this.travelAgent) {
+      return {
+        note: 'Hotel search is not configured',
+        params: validation.data,
+      };
+    }
+
+    const params = validation.data;
+    const overrides: HotelRecommendationCriteria = {
+      ...(params.preferredChains ? { preferredChains: params.preferredChains } : {}),
+      ...(params.accommodationType ? { accommodationType: params.accommodationType } : {}),
+    };
+
+    const itineraryResult = this.deps.itineraryService
+      ? await this.deps.itineraryService.getItinerary(itineraryId)
+      : undefined;
+    const criteria = itineraryResult?.success
+      ? this.travelAgent.buildHotelCriteria(
+          itineraryResult.value,
+          new Date(params.checkInDate),
+          new Date(params.checkOutDate),
+          overrides
+        )
+      : overrides;
+
+    const result = await this.travelAgent.recommendHotels(
+      {
+        location: params.location,
+        checkInDate: params.checkInDate,
+        checkOutDate: params.checkOutDate,
+        ...(params.adults ? { adults: params.adults } : {}),
+        ...(params.children !== undefined ? { children: params.children } : {}),
+      },
+      criteria
+    );
+    if (!result.success) {
+      throw new Error(`Hotel search failed: ${result.error.message}`);
+    }
+
     return {
-      note: 'Hotel search not yet implemented',
-      params: validation.data,
+      ...this.searchResults(provider, result.value.map(summarizeRankedHotelOffer)),
+      criteria: {
+        ...(criteria.starRating !== undefined ? { starRating: criteria.starRating } : {}),
+        ...(criteria.preferredChains ? { preferredChains: criteria.preferredChains } : {}),
+        ...(criteria.loyaltyPrograms
+          ? {
+              loyaltyPrograms: criteria.loyaltyPrograms.map((program) =>
+                [program.carrier, program.tier].filter(Boolean).join(' ')
+              ),
+            }
+          : {}),
+        ...(criteria.accessibility ? { accessibility: criteria.accessibility } : {}),
+        ...(criteria.accommodationType ? { accommodationType: criteria.accommodationType } : {}),
+        ...(criteria.places ? { places: criteria.places.map((place) => place.name) } : {}),
+      },
     };
   }
 
   /**
-   * Search transfers handler (placeholder for Rome2Rio)
+   * Search ground transport with the travel search provider
    */
   private async handleSearchTransfers(args: unknown): Promise<unknown> {
     // Validate arguments
@@ -1170,13 +1679,46 @@ export class ToolExecutor {
       throw new Error(`Invalid search_transfers arguments: ${validation.error.message}`);
     }
 
-    // TODO: Implement Rome2Rio or SERP API transfer search
+    const provider = this.deps.travelSearchProvider;
+    if (!provider) {
+      return {
+        note: 'Transfer search is not configured',
+        params: validation.data,
+      };
+    }
+
+    const result = await provider.searchTransfers(validation.data);
+    if (!result.success) {
+      throw new Error(`Transfer search failed: ${result.error.message}`);
+    }
+
+    return this.searchResults(provider, result.value.map(summarizeTransferOffer));
+  }
+
+  /**
+   * Shape search offers for the model
+   */
+  private searchResults(
+    provider: TravelSearchProvider,
+    offers: unknown[]
+  ): Record<string, unknown> {
     return {
-      note: 'Transfer search not yet implemented',
-      params: validation.data,
+      provider: provider.name,
+      count: offers.length,
+      offers: offers.slice(0, MAX_TOOL_OFFERS),
+      ...this.sampleDataNote(provider),
     };
   }
 
+  /**
+   * Label fixture results so they are not quoted as live prices
+   */
+  private sampleDataNote(provider: TravelSearchProvider): { note?: string } {
+    return provider.name === 'fixture'
+      ? { note: 'Sample offers from fixture data, not live availability or prices' }
+      : {};
+  }
+
   /**
    * Store travel intelligence in the knowledge base
    * Stores seasonal info, events, advisories, etc. for future retrieval
@@ -1605,4 +2147,104 @@ Stored: ${intelligence.storedAt.toISOString()}
       confidence: result.confidence,
     };
   }
+
+  /**
+   * Handle apply_template tool call
+   * Instantiates a saved template on the given start date and appends its
+   * segments to the current itinerary
+   */
+  private async handleApplyTemplate(
+    itineraryId: ItineraryId,
+    args: unknown,
+    revision: RevisionContext
+  ): Promise<unknown> {
+    const validation = applyTemplateArgsSchema.safeParse(args);
+    if (!validation.success) {
+      throw new Error(`Invalid apply_template arguments: ${validation.error.message}`);
+    }
+
+    const params = validation.data;
+    if (!this.deps.itineraryService || !this.deps.templateStorage) {
+      throw new Error('ItineraryService or TemplateStorage not configured');
+    }
+
+    const itinResult = await this.deps.itineraryService.get(itineraryId);
+    if (!itinResult.success) {
+      throw new Error(`Failed to get itinerary: ${itinResult.error.message}`);
+    }
+    const itinerary = itinResult.value;
+
+    // Match by ID, then exact name, then partial name among the owner's templates
+    const listResult = await this.deps.templateStorage.list(itinerary.createdBy);
+    if (!listResult.success) {
+      throw new Error(`Failed to list templates: ${listResult.error.message}`);
+    }
+    const term = params.template.trim().toLowerCase();
+    const summary =
+      listResult.value.find((t) => t.id === params.template.trim()) ??
+      listResult.value.find((t) => t.name.toLowerCase() === term) ??
+      listResult.value.find((t) => t.name.toLowerCase().includes(term));
+
+    if (!summary) {
+      return {
+        success: false,
+        error: `No template matches "${params.template}"`,
+        availableTemplates: listResult.value.map((t) => ({
+          id: t.id,
+          name: t.name,
+          durationDays: t.durationDays,
+        })),
+      };
+    }
+
+    const templateResult = await this.deps.templateStorage.load(summary.id);
+    if (!templateResult.success) {
+      throw new Error(`Failed to load template: ${templateResult.error.message}`);
+    }
+
+    const planned = instantiateTemplate(templateResult.value, {
+      startDate: parseLocalDate(params.startDate),
+    });
+
+    // Widen the trip dates to cover the template and add its destinations
+    const startDate =
+      itinerary.startDate && planned.startDate && itinerary.startDate < planned.startDate
+        ? itinerary.startDate
+        : planned.startDate;
+    const endDate =
+      itinerary.endDate && planned.endDate && itinerary.endDate > planned.endDate
+        ? itinerary.endDate
+        : planned.endDate;
+    const knownDestinations = new Set(itinerary.destinations.map((d) => d.name.toLowerCase()));
+    const destinations = [
+      ...itinerary.destinations,
+      ...planned.destinations.filter((d) => !knownDestinations.has(d.name.toLowerCase())),
+    ];
+
+    const saveResult = await this.deps.itineraryService.update(
+      itineraryId,
+      {
+        segments: [...itinerary.segments, ...planned.segments],
+        destinations,
+        ...(startDate ? { startDate } : {}),
+        ...(endDate ? { endDate } : {}),
+        ...(!itinerary.tripType && planned.tripType ? { tripType: planned.tripType } : {}),
+      },
+      revision
+    );
+
+    if (!saveResult.success) {
+      throw new Error(`Failed to apply template: ${saveResult.error.message}`);
+    }
+
+    return {
+      success: true,
+      templateId: summary.id,
+      templateName: summary.name,
+      segmentsAdded: planned.segments.length,
+      message: `Added ${planned.segments.length} segments from template "${summary.name}" starting ${params.startDate}`,
+      // Signal that itinerary changed (triggers UI refresh)
+      itineraryChanged: true,
+    };
+  }
 }
@@ -45,6 +45,23 @@ export const GET_SEGMENT_TOOL: ToolDefinition = {
   },
 };
 
+/**
+ * Tool: get_budget_status
+ * Compare itinerary spend with the traveler's budget
+ */
+export const GET_BUDGET_STATUS_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'get_budget_status',
+    description: 'Compare the prices of booked and planned segments with the trip budget from the preferences. Returns spend vs budget overall, normalized to the budget period (per day / per person / total), per category (flights, hotels, activities...) and flags overruns such as "18% over budget on hotels". Use this when the user asks about costs or budget, or before suggesting expensive additions.',
+    parameters: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+};
+
 /**
  * Tool: add_flight
  * Add a flight segment to the itinerary
@@ -370,6 +387,210 @@ export const ADD_TRANSFER_TOOL: ToolDefinition = {
   },
 };
 
+/**
+ * Tool: add_rail
+ * Add a train journey segment
+ */
+export const ADD_RAIL_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'add_rail',
+    description: 'Add a train journey (e.g., Eurostar, TGV, ICE, Amtrak) with operator, train number, stations, coach and seat. Use this instead of add_transfer for any rail travel.',
+    parameters: {
+      type: 'object',
+      properties: {
+        operator: {
+          type: 'object',
+          description: 'Rail operator',
+          properties: {
+            name: { type: 'string', description: 'Operator name (e.g., "Eurostar", "SNCF", "Deutsche Bahn")' },
+            code: { type: 'string', description: 'Operator code (optional)' },
+          },
+          required: ['name'],
+        },
+        trainNumber: {
+          type: 'string',
+          description: 'Train number (e.g., "9014", "ICE 123")',
+        },
+        origin: {
+          type: 'object',
+          description: 'Departure station',
+          properties: {
+            name: { type: 'string', description: 'Station name (e.g., "London St Pancras International")' },
+            code: { type: 'string', description: 'Station code (optional)' },
+            city: { type: 'string', description: 'City name' },
+            country: { type: 'string', description: 'Country name' },
+          },
+          required: ['name'],
+        },
+        destination: {
+          type: 'object',
+          description: 'Arrival station',
+          properties: {
+            name: { type: 'string', description: 'Station name (e.g., "Paris Gare du Nord")' },
+            code: { type: 'string', description: 'Station code (optional)' },
+            city: { type: 'string', description: 'City name' },
+            country: { type: 'string', description: 'Country name' },
+          },
+          required: ['name'],
+        },
+        departureTime: {
+          type: 'string',
+          format: 'date-time',
+          description: 'Departure date and time in ISO 8601 format',
+        },
+        arrivalTime: {
+          type: 'string',
+          format: 'date-time',
+          description: 'Arrival date and time in ISO 8601 format',
+        },
+        departurePlatform: {
+          type: 'string',
+          description: 'Departure platform (if known)',
+        },
+        arrivalPlatform: {
+          type: 'string',
+          description: 'Arrival platform (if known)',
+        },
+        coach: {
+          type: 'string',
+          description: 'Coach or carriage number',
+        },
+        seat: {
+          type: 'string',
+          description: 'Seat number',
+        },
+        fareClass: {
+          type: 'string',
+          description: 'Fare class (e.g., "First", "Standard", "2nd")',
+        },
+        price: {
+          type: 'object',
+          description: 'Ticket price',
+          properties: {
+            amount: { type: 'number' },
+            currency: { type: 'string' },
+          },
+        },
+        confirmationNumber: {
+          type: 'string',
+          description: 'Booking confirmation number',
+        },
+        notes: {
+          type: 'string',
+          description: 'Additional notes about the journey',
+        },
+      },
+      required: ['operator', 'trainNumber', 'origin', 'destination', 'departureTime', 'arrivalTime'],
+    },
+  },
+};
+
+/**
+ * Tool: add_car_rental
+ * Add a car rental spanning pickup to return
+ */
+export const ADD_CAR_RENTAL_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'add_car_rental',
+    description: 'Add a car rental with pickup and return offices, dates, car class and drivers. Use this instead of add_transfer for self-drive rentals - one segment covers the whole rental period.',
+    parameters: {
+      type: 'object',
+      properties: {
+        rentalCompany: {
+          type: 'object',
+          description: 'Rental company',
+          properties: {
+            name: { type: 'string', description: 'Company name (e.g., "Hertz", "Sixt")' },
+            code: { type: 'string', description: 'Company code (optional)' },
+          },
+          required: ['name'],
+        },
+        pickupLocation: {
+          type: 'object',
+          description: 'Pickup office',
+          properties: {
+            name: { type: 'string', description: 'Office name or address (e.g., "Hertz LAX Airport")' },
+            code: { type: 'string', description: 'IATA code if at an airport' },
+            city: { type: 'string' },
+            country: { type: 'string' },
+          },
+          required: ['name'],
+        },
+        returnLocation: {
+          type: 'object',
+          description: 'Return office (omit for round-trip rentals returned to the pickup office)',
+          properties: {
+            name: { type: 'string', description: 'Office name or address' },
+            code: { type: 'string', description: 'IATA code if at an airport' },
+            city: { type: 'string' },
+            country: { type: 'string' },
+          },
+          required: ['name'],
+        },
+        pickupTime: {
+          type: 'string',
+          format: 'date-time',
+          description: 'Pickup date and time in ISO 8601 format',
+        },
+        returnTime: {
+          type: 'string',
+          format: 'date-time',
+          description: 'Return date and time in ISO 8601 format',
+        },
+        carClass: {
+          type: 'string',
+          description: 'Car class or ACRISS code (e.g., "Compact", "Full-size SUV", "CDMR")',
+        },
+        vehicleDescription: {
+          type: 'string',
+          description: 'Vehicle description (e.g., "Toyota Corolla or similar")',
+        },
+        primaryDriver: {
+          type: 'string',
+          description: 'Name of the main driver',
+        },
+        additionalDrivers: {
+          type: 'array',
+          description: 'Names of additional drivers',
+          items: { type: 'string' },
+        },
+        insurance: {
+          type: 'array',
+          description: 'Included insurance coverages (e.g., "CDW", "Theft Protection")',
+          items: { type: 'string' },
+        },
+        includedMileage: {
+          type: 'string',
+          description: 'Included mileage (e.g., "Unlimited", "200 km/day")',
+        },
+        fuelPolicy: {
+          type: 'string',
+          description: 'Fuel policy (e.g., "Full to full")',
+        },
+        price: {
+          type: 'object',
+          description: 'Total rental price',
+          properties: {
+            amount: { type: 'number' },
+            currency: { type: 'string' },
+          },
+        },
+        confirmationNumber: {
+          type: 'string',
+          description: 'Rental confirmation number',
+        },
+        notes: {
+          type: 'string',
+          description: 'Additional notes (e.g., shuttle instructions)',
+        },
+      },
+      required: ['rentalCompany', 'pickupLocation', 'pickupTime', 'returnTime'],
+    },
+  },
+};
+
 /**
  * Tool: add_meeting
  * Add a meeting or appointment segment
@@ -643,6 +864,51 @@ export const MOVE_SEGMENT_TOOL: ToolDefinition = {
   },
 };
 
+/**
+ * Tool: shift_itinerary
+ * Reschedule the whole trip, one day or selected segments
+ */
+export const SHIFT_ITINERARY_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'shift_itinerary',
+    description: 'Reschedule the whole trip, one day, or selected segments, either by a duration or to a new start date (e.g. when a trip is postponed). Local times are preserved across timezones, trip dates are updated, and dependent segments move along. Returns the confirmed bookings that now need to be changed with the provider - tell the user about them.',
+    parameters: {
+      type: 'object',
+      properties: {
+        days: {
+          type: 'number',
+          description: 'Shift by this many whole days (negative = earlier). Can be combined with hours.',
+        },
+        hours: {
+          type: 'number',
+          description: 'Shift by this many whole hours (negative = earlier)',
+        },
+        toStartDate: {
+          type: 'string',
+          format: 'date',
+          description: 'Instead of a duration: move so the trip (or selection) starts on this day (YYYY-MM-DD)',
+        },
+        day: {
+          type: 'string',
+          format: 'date',
+          description: 'Only move segments starting on this day (YYYY-MM-DD). Omit to move the whole trip.',
+        },
+        segmentIds: {
+          type: 'array',
+          description: 'Only move these segments. Omit to move the whole trip.',
+          items: { type: 'string' },
+        },
+        cascade: {
+          type: 'boolean',
+          description: 'Also move segments that depend on the selection (default: true)',
+        },
+      },
+      required: [],
+    },
+  },
+};
+
 /**
  * Tool: reorder_segments
  * Change the display order of segments
@@ -696,7 +962,7 @@ export const SEARCH_FLIGHTS_TOOL: ToolDefinition = {
   type: 'function',
   function: {
     name: 'search_flights',
-    description: 'Search for flight prices and availability using Google Flights via SERP API',
+    description: 'Search flights and get ranked options per leg (scored on price, duration and stops). Passengers, cabin, preferred airlines and currency default to the current itinerary. Present the options to the user as a single_choice question using each option\'s "choice".',
     parameters: {
       type: 'object',
       properties: {
@@ -718,16 +984,60 @@ export const SEARCH_FLIGHTS_TOOL: ToolDefinition = {
           format: 'date',
           description: 'Return date for round trip (optional)',
         },
+        additionalLegs: {
+          type: 'array',
+          description: 'Further legs of a multi-city trip, after the first (optional, up to 5)',
+          items: {
+            type: 'object',
+            properties: {
+              origin: { type: 'string', description: 'Origin airport code' },
+              destination: { type: 'string', description: 'Destination airport code' },
+              date: { type: 'string', format: 'date', description: 'Departure date (YYYY-MM-DD)' },
+            },
+            required: ['origin', 'destination', 'date'],
+          },
+        },
+        flexibleDays: {
+          type: 'number',
+          description: 'Also search this many days before and after each date (0-3, default: 0)',
+          minimum: 0,
+          maximum: 3,
+        },
         adults: {
           type: 'number',
-          description: 'Number of adult passengers (default: 1)',
+          description: 'Number of adult passengers (default: from itinerary travelers, or 1)',
           minimum: 1,
         },
+        children: {
+          type: 'number',
+          description: 'Number of child passengers (default: from itinerary travelers)',
+          minimum: 0,
+        },
+        infants: {
+          type: 'number',
+          description: 'Number of lap infants (default: from itinerary travelers)',
+          minimum: 0,
+        },
         cabinClass: {
           type: 'string',
-          description: 'Cabin class preference',
+          description: 'Cabin class preference (default: most common cabin in the itinerary)',
           enum: ['economy', 'premium_economy', 'business', 'first'],
         },
+        maxStops: {
+          type: 'number',
+          description: 'Maximum connections per leg (0 = nonstop only)',
+          minimum: 0,
+          maximum: 2,
+        },
+        preferredAirlines: {
+          type: 'array',
+          description: 'Airline IATA codes to rank higher (default: travelers\' loyalty programs)',
+          items: { type: 'string' },
+        },
+        currency: {
+          type: 'string',
+          description: 'Currency for prices, ISO 4217 (default: itinerary currency)',
+        },
       },
       required: ['origin', 'destination', 'departureDate'],
     },
@@ -742,7 +1052,7 @@ export const SEARCH_HOTELS_TOOL: ToolDefinition = {
   type: 'function',
   function: {
     name: 'search_hotels',
-    description: 'Search for hotel prices and availability using Google Hotels via SERP API',
+    description: 'Search for hotel prices and availability from the travel search provider. Results are ranked against the itinerary\'s hotel tier, chain preferences, travelers\' hotel loyalty programs, accessibility needs and the meetings and activities planned during the stay, each with the reasons for its ranking.',
     parameters: {
       type: 'object',
       properties: {
@@ -770,6 +1080,15 @@ export const SEARCH_HOTELS_TOOL: ToolDefinition = {
           description: 'Number of children (default: 0)',
           minimum: 0,
         },
+        preferredChains: {
+          type: 'array',
+          description: 'Chains or brands to rank higher, up to 5 (default: itinerary preferences)',
+          items: { type: 'string' },
+        },
+        accommodationType: {
+          type: 'string',
+          description: 'hotel, resort, boutique, hostel or airbnb (default: trip preferences)',
+        },
       },
       required: ['location', 'checkInDate', 'checkOutDate'],
     },
@@ -1058,6 +1377,33 @@ export const ADD_TRAVELER_TOOL: ToolDefinition = {
   },
 };
 
+/**
+ * Tool: apply_template
+ * Add the segments of a saved trip template to the itinerary
+ */
+export const APPLY_TEMPLATE_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'apply_template',
+    description: 'Add all segments of a saved trip template (e.g. a yearly conference trip) to the itinerary, shifted to a new start date. Segments are added as tentative with no travelers, bookings or prices. If the template is not found, the available template names are returned.',
+    parameters: {
+      type: 'object',
+      properties: {
+        template: {
+          type: 'string',
+          description: 'Template name or ID',
+        },
+        startDate: {
+          type: 'string',
+          format: 'date',
+          description: 'First day of the trip (YYYY-MM-DD). Day 1 of the template lands on this date.',
+        },
+      },
+      required: ['template', 'startDate'],
+    },
+  },
+};
+
 /**
  * Help agent tools
  * Minimal set for answering help questions and switching to Trip Designer
@@ -1084,6 +1430,7 @@ export const ESSENTIAL_TOOLS: ToolDefinition[] = [
 export const ALL_TOOLS: ToolDefinition[] = [
   GET_ITINERARY_TOOL,
   GET_SEGMENT_TOOL,
+  GET_BUDGET_STATUS_TOOL,
   UPDATE_ITINERARY_TOOL,
   UPDATE_PREFERENCES_TOOL,
   ADD_TRAVELER_TOOL,
@@ -1091,10 +1438,13 @@ export const ALL_TOOLS: ToolDefinition[] = [
   ADD_HOTEL_TOOL,
   ADD_ACTIVITY_TOOL,
   ADD_TRANSFER_TOOL,
+  ADD_RAIL_TOOL,
+  ADD_CAR_RENTAL_TOOL,
   ADD_MEETING_TOOL,
   UPDATE_SEGMENT_TOOL,
   DELETE_SEGMENT_TOOL,
   MOVE_SEGMENT_TOOL,
+  SHIFT_ITINERARY_TOOL,
   REORDER_SEGMENTS_TOOL,
   SEARCH_WEB_TOOL,
   SEARCH_FLIGHTS_TOOL,
@@ -1106,6 +1456,26 @@ export const ALL_TOOLS: ToolDefinition[] = [
   GET_DISTANCE_TOOL,
   SHOW_ROUTE_TOOL,
   GEOCODE_LOCATION_TOOL,
+  // Template tools
+  APPLY_TEMPLATE_TOOL,
+];
+
+/**
+ * Tools that never change the itinerary
+ * The only tools offered to users who can view but not edit a shared itinerary
+ */
+export const READ_ONLY_TOOLS: ToolDefinition[] = [
+  GET_ITINERARY_TOOL,
+  GET_SEGMENT_TOOL,
+  GET_BUDGET_STATUS_TOOL,
+  SEARCH_WEB_TOOL,
+  SEARCH_FLIGHTS_TOOL,
+  SEARCH_HOTELS_TOOL,
+  SEARCH_TRANSFERS_TOOL,
+  RETRIEVE_TRAVEL_INTELLIGENCE_TOOL,
+  GET_DISTANCE_TOOL,
+  SHOW_ROUTE_TOOL,
+  GEOCODE_LOCATION_TOOL,
 ];
 
 /**
@@ -1114,6 +1484,7 @@ export const ALL_TOOLS: ToolDefinition[] = [
 export const ToolName = {
   GET_ITINERARY: 'get_itinerary',
   GET_SEGMENT: 'get_segment',
+  GET_BUDGET_STATUS: 'get_budget_status',
   UPDATE_ITINERARY: 'update_itinerary',
   UPDATE_PREFERENCES: 'update_preferences',
   ADD_TRAVELER: 'add_traveler',
@@ -1121,10 +1492,13 @@ export const ToolName = {
   ADD_HOTEL: 'add_hotel',
   ADD_ACTIVITY: 'add_activity',
   ADD_TRANSFER: 'add_transfer',
+  ADD_RAIL: 'add_rail',
+  ADD_CAR_RENTAL: 'add_car_rental',
   ADD_MEETING: 'add_meeting',
   UPDATE_SEGMENT: 'update_segment',
   DELETE_SEGMENT: 'delete_segment',
   MOVE_SEGMENT: 'move_segment',
+  SHIFT_ITINERARY: 'shift_itinerary',
   REORDER_SEGMENTS: 'reorder_segments',
   SEARCH_WEB: 'search_web',
   SEARCH_FLIGHTS: 'search_flights',
@@ -1137,6 +1511,8 @@ export const ToolName = {
   GET_DISTANCE: 'get_distance',
   SHOW_ROUTE: 'show_route',
   GEOCODE_LOCATION: 'geocode_location',
+  // Template tools
+  APPLY_TEMPLATE: 'apply_template',
 } as const;
 
 export type ToolName = (typeof ToolName)[keyof typeof ToolName];
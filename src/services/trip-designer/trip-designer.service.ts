@@ -14,22 +14,31 @@ import type {
   TripDesignerConfig,
   TripDesignerSession,
   SessionId,
+  SessionSummary,
   AgentResponse,
   ToolCall,
   ToolExecutionResult,
   TripDesignerError,
   Message,
+  MessageChangeset,
+  MessageUndoResult,
   StreamEvent,
+  ChatOptions,
 } from '../../domain/types/trip-designer.js';
 import { SessionManager, InMemorySessionStorage } from './session.js';
 import type { SessionStorage } from './session.js';
-import { ALL_TOOLS, ESSENTIAL_TOOLS, HELP_AGENT_TOOLS } from './tools.js';
+import { ALL_TOOLS, ESSENTIAL_TOOLS, HELP_AGENT_TOOLS, READ_ONLY_TOOLS } from './tools.js';
 import { TRIP_DESIGNER_SYSTEM_PROMPT, TRIP_DESIGNER_SYSTEM_PROMPT_MINIMAL, COMPACTION_SYSTEM_PROMPT, HELP_AGENT_SYSTEM_PROMPT } from '../../prompts/index.js';
 import type { TripDesignerMode } from '../../domain/types/trip-designer.js';
 import { ToolExecutor } from './tool-executor.js';
 import type { KnowledgeService } from '../knowledge.service.js';
 import type { WeaviateKnowledgeService } from '../weaviate-knowledge.service.js';
 import type { TravelAgentFacade } from '../travel-agent-facade.service.js';
+import { isEmptyDiff } from '../itinerary-history.service.js';
+import type { ItineraryHistoryService } from '../itinerary-history.service.js';
+import type { TemplateStorage } from '../../storage/template-storage.js';
+import type { TravelSearchProvider } from '../travel-search/travel-search-provider.js';
+import type { BudgetService } from '../budget.service.js';
 import { isWeaviateKnowledgeService } from '../knowledge-factory.js';
 import { summarizeItineraryMinimal, summarizeItinerary, generateMismatchWarning } from './itinerary-summarizer.js';
 
@@ -87,6 +96,7 @@ export class TripDesignerService {
   private knowledgeService?: KnowledgeService | WeaviateKnowledgeService;
   private knowledgeInitialized = false;
   private travelAgentFacade?: TravelAgentFacade;
+  private historyService: ItineraryHistoryService | undefined;
 
   /**
    * Create a new Trip Designer service
@@ -100,6 +110,10 @@ export class TripDesignerService {
       dependencyService?: unknown;
       knowledgeService?: KnowledgeService | WeaviateKnowledgeService;
       travelAgentFacade?: TravelAgentFacade;
+      historyService?: ItineraryHistoryService;
+      templateStorage?: TemplateStorage;
+      travelSearchProvider?: TravelSearchProvider;
+      budgetService?: BudgetService;
     }
   ) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -133,6 +147,9 @@ export class TripDesignerService {
 
     // Store travel agent facade if provided
     this.travelAgentFacade = dependencies?.travelAgentFacade;
+
+    // Store history service if provided (enables undo of chat turns)
+    this.historyService = dependencies?.historyService;
   }
 
   /**
@@ -150,19 +167,42 @@ export class TripDesignerService {
   }
 
   /**
-   * Get tools based on agent mode and message count
+   * Get tools based on agent mode, message count and access level
    */
-  private getToolsForMode(agentMode: TripDesignerMode | undefined, isFirstMessage: boolean): ChatCompletionTool[] {
+  private getToolsForMode(
+    agentMode: TripDesignerMode | undefined,
+    isFirstMessage: boolean,
+    readOnly = false
+  ): ChatCompletionTool[] {
     // Help mode only has the switch_to_trip_designer tool
     if (agentMode === 'help') {
       return HELP_AGENT_TOOLS as ChatCompletionTool[];
     }
 
+    // View-only collaborators can look things up but not change the trip
+    if (readOnly) {
+      return READ_ONLY_TOOLS as ChatCompletionTool[];
+    }
+
     // Trip designer mode: use essential tools for first message, all tools otherwise
     const tools = isFirstMessage ? ESSENTIAL_TOOLS : ALL_TOOLS;
     return tools as ChatCompletionTool[];
   }
 
+  /**
+   * Tell the agent the user can only view the itinerary
+   */
+  private addReadOnlyNotice(messages: ChatCompletionMessageParam[]): void {
+    const systemMessage = messages[0];
+    if (systemMessage && systemMessage.role === 'system') {
+      systemMessage.content = `${systemMessage.content}
+
+## View-Only Access
+
+This itinerary is shared with the user as a viewer. Answer questions, research and suggest ideas, but do not try to change the itinerary: explain that an owner or editor has to make changes.`;
+    }
+  }
+
   /**
    * Get system prompt based on agent mode
    */
@@ -295,7 +335,8 @@ CRITICAL: If the summary shows "⚠️ EXISTING BOOKINGS" with luxury/premium pr
    */
   async chat(
     sessionId: SessionId,
-    userMessage: string
+    userMessage: string,
+    options: ChatOptions = {}
   ): Promise<Result<AgentResponse, TripDesignerError>> {
     // Get session
     const sessionResult = await this.sessionManager.getSession(sessionId);
@@ -334,10 +375,13 @@ CRITICAL: If the summary shows "⚠️ EXISTING BOOKINGS" with luxury/premium pr
 
     // Build messages for LLM with RAG context
     const messages = await this.buildMessagesWithRAG(session, userMessage);
+    if (options.readOnly) {
+      this.addReadOnlyNotice(messages);
+    }
 
     // Get tools based on agent mode
     const isFirstMessage = session.messages.filter(m => m.role === 'user').length === 1;
-    const tools = this.getToolsForMode(session.agentMode, isFirstMessage);
+    const tools = this.getToolsForMode(session.agentMode, isFirstMessage, options.readOnly);
 
     // Call LLM with tools
     try {
@@ -381,6 +425,12 @@ CRITICAL: If the summary shows "⚠️ EXISTING BOOKINGS" with luxury/premium pr
           },
         }));
 
+        // Remember the revision before any tool runs so the turn can be undone
+        // (read-only turns change nothing, so they leave the history alone)
+        const baseRevision = options.readOnly
+          ? undefined
+          : await this.getBaseRevision(session.itineraryId);
+
         // Execute tool calls sequentially to prevent race conditions
         // (e.g., duplicate detection needs to see previously added segments)
         const executionResults: ToolExecutionResult[] = [];
@@ -389,11 +439,13 @@ CRITICAL: If the summary shows "⚠️ EXISTING BOOKINGS" with luxury/premium pr
             sessionId,
             itineraryId: session.itineraryId,
             toolCall: tc,
+            ...(options.readOnly && { readOnly: true }),
           });
           executionResults.push(result);
         }
 
         toolResults = executionResults;
+        const changeset = await this.buildChangeset(session.itineraryId, baseRevision, ourToolCalls);
 
         // Collect modified segment IDs and check for mode switches
         for (const result of executionResults) {
@@ -455,13 +507,14 @@ CRITICAL: If the summary shows "⚠️ EXISTING BOOKINGS" with luxury/premium pr
         const finalMessage = finalChoice?.message.content || '';
 
         // Add final assistant message
-        await this.sessionManager.addMessage(sessionId, {
+        const finalAddResult = await this.sessionManager.addMessage(sessionId, {
           role: 'assistant',
           content: finalMessage,
           tokens: {
             input: finalResponse.usage?.prompt_tokens || 0,
             output: finalResponse.usage?.completion_tokens || 0,
           },
+          ...(changeset && { changeset }),
         });
 
         // Store conversation in knowledge graph (async, don't wait)
@@ -472,9 +525,13 @@ CRITICAL: If the summary shows "⚠️ EXISTING BOOKINGS" with luxury/premium pr
         // Return agent response
         return ok({
           message: finalMessage,
-          itineraryUpdated: segmentsModified.length > 0,
+          itineraryUpdated: segmentsModified.length > 0 || changeset !== undefined,
           segmentsModified,
           toolCallsMade: ourToolCalls,
+          ...(finalAddResult.success && {
+            messageIndex: finalAddResult.value.messages.length - 1,
+          }),
+          ...(changeset && { changeset }),
         });
       } else {
         // No tool calls, just a message
@@ -555,7 +612,8 @@ CRITICAL: If the summary shows "⚠️ EXISTING BOOKINGS" with luxury/premium pr
    */
   async *chatStream(
     sessionId: SessionId,
-    userMessage: string
+    userMessage: string,
+    options: ChatOptions = {}
   ): AsyncGenerator<StreamEvent, void, unknown> {
     // Get session
     const sessionResult = await this.sessionManager.getSession(sessionId);
@@ -595,10 +653,13 @@ CRITICAL: If the summary shows "⚠️ EXISTING BOOKINGS" with luxury/premium pr
 
     // Build messages for LLM with RAG context
     const messages = await this.buildMessagesWithRAG(session, userMessage);
+    if (options.readOnly) {
+      this.addReadOnlyNotice(messages);
+    }
 
     // Get tools based on agent mode
     const isFirstMessage = session.messages.filter(m => m.role === 'user').length === 1;
-    const tools = this.getToolsForMode(session.agentMode, isFirstMessage);
+    const tools = this.getToolsForMode(session.agentMode, isFirstMessage, options.readOnly);
 
     try {
       // Call LLM with streaming enabled
@@ -788,6 +849,12 @@ CRITICAL: If the summary shows "⚠️ EXISTING BOOKINGS" with luxury/premium pr
           toolCalls,
         });
 
+        // Remember the revision before any tool runs so the turn can be undone
+        // (read-only turns change nothing, so they leave the history alone)
+        const baseRevision = options.readOnly
+          ? undefined
+          : await this.getBaseRevision(session.itineraryId);
+
         // Execute tool calls sequentially to prevent race conditions
         // (e.g., duplicate detection needs to see previously added segments)
         const executionResults: ToolExecutionResult[] = [];
@@ -796,10 +863,13 @@ CRITICAL: If the summary shows "⚠️ EXISTING BOOKINGS" with luxury/premium pr
             sessionId,
             itineraryId: session.itineraryId,
             toolCall: tc,
+            ...(options.readOnly && { readOnly: true }),
           });
           executionResults.push(result);
         }
 
+        const changeset = await this.buildChangeset(session.itineraryId, baseRevision, toolCalls);
+
         // Count successes/failures and log errors
         const successCount = executionResults.filter(r => r.success).length;
         const failureCount = executionResults.length - successCount;
@@ -991,9 +1061,10 @@ CRITICAL: If the summary shows "⚠️ EXISTING BOOKINGS" with luxury/premium pr
         }
 
         // Add final assistant message
-        await this.sessionManager.addMessage(sessionId, {
+        const finalAddResult = await this.sessionManager.addMessage(sessionId, {
           role: 'assistant',
           content: finalContent,
+          ...(changeset && { changeset }),
         });
 
         // Store conversation in knowledge graph (async, don't wait)
@@ -1024,8 +1095,13 @@ CRITICAL: If the summary shows "⚠️ EXISTING BOOKINGS" with luxury/premium pr
 
         yield {
           type: 'done',
-          itineraryUpdated: segmentsModified.length > 0 || itineraryMetadataChanged,
+          itineraryUpdated:
+            segmentsModified.length > 0 || itineraryMetadataChanged || changeset !== undefined,
           segmentsModified,
+          ...(finalAddResult.success && {
+            messageIndex: finalAddResult.value.messages.length - 1,
+          }),
+          ...(changeset && { changeset }),
           tokens: {
             input: totalInputTokens,
             output: totalOutputTokens,
@@ -1115,6 +1191,94 @@ CRITICAL: If the summary shows "⚠️ EXISTING BOOKINGS" with luxury/premium pr
     return this.sessionManager.getSession(sessionId);
   }
 
+  /**
+   * List sessions, most recently active first
+   * @param itineraryId - Only list sessions for this itinerary
+   */
+  async listSessions(itineraryId?: ItineraryId): Promise<Result<SessionSummary[], StorageError>> {
+    return this.sessionManager.listSessions(itineraryId);
+  }
+
+  /**
+   * Undo the itinerary changes made by a chat turn
+   *
+   * Restores the itinerary to the revision it had before the turn's tool calls ran,
+   * saved as a new revision. Refused when the itinerary has changed since the turn,
+   * because restoring would silently discard those later edits.
+   *
+   * @param sessionId - Session ID
+   * @param messageIndex - Index of the assistant message carrying the changeset
+   * @param expectedHeadRevision - Head revision the caller saw for that message; guards
+   *   against indices that shifted when the session was compacted
+   */
+  async undoMessage(
+    sessionId: SessionId,
+    messageIndex: number,
+    expectedHeadRevision?: number
+  ): Promise<Result<MessageUndoResult, TripDesignerError>> {
+    if (!this.historyService) {
+      return err({ type: 'undo_unavailable', reason: 'Itinerary history is not available' });
+    }
+
+    const sessionResult = await this.sessionManager.getSession(sessionId);
+    if (!sessionResult.success) {
+      return err({ type: 'session_not_found', sessionId });
+    }
+
+    const session = sessionResult.value;
+    const message = session.messages[messageIndex];
+    if (
+      !message ||
+      (expectedHeadRevision !== undefined && message.changeset?.headRevision !== expectedHeadRevision)
+    ) {
+      return err({ type: 'message_not_found', sessionId, messageIndex });
+    }
+
+    const changeset = message.changeset;
+    if (!changeset) {
+      return err({ type: 'undo_unavailable', reason: 'This message did not change the itinerary' });
+    }
+    if (changeset.undoneAt) {
+      return err({ type: 'undo_conflict', reason: 'This message has already been undone' });
+    }
+
+    // Only undo if nothing has changed since the turn
+    const laterChanges = await this.historyService.diff(changeset.itineraryId, changeset.headRevision);
+    if (!laterChanges.success) {
+      return err(this.toUndoError(changeset.itineraryId, laterChanges.error));
+    }
+    if (!isEmptyDiff(laterChanges.value)) {
+      return err({
+        type: 'undo_conflict',
+        reason: 'The itinerary has changed since this message. Undo the later changes first.',
+      });
+    }
+
+    const restoreResult = await this.historyService.restore(
+      changeset.itineraryId,
+      changeset.baseRevision,
+      { author: 'user', cause: `Undo chat message ${messageIndex}`, actor: sessionId }
+    );
+    if (!restoreResult.success) {
+      return err(this.toUndoError(changeset.itineraryId, restoreResult.error));
+    }
+
+    changeset.undoneAt = new Date();
+    const undoRevision = await this.getLatestRevision(changeset.itineraryId);
+    if (undoRevision !== undefined) {
+      changeset.undoRevision = undoRevision;
+    }
+    await this.sessionManager.updateSession(session);
+
+    // Let the agent know its earlier changes were reverted
+    await this.sessionManager.addMessage(sessionId, {
+      role: 'system',
+      content: `The user undid the itinerary changes made by an earlier reply (tools: ${changeset.tools.join(', ')}). The itinerary has been restored to its previous state.`,
+    });
+
+    return ok({ messageIndex, changeset, itinerary: restoreResult.value });
+  }
+
   /**
    * Compact session history when context limit approaching
    *
@@ -1623,6 +1787,65 @@ Use this relevant knowledge to inform your responses, but prioritize the current
     return content;
   }
 
+  /**
+   * Get the latest recorded revision of an itinerary, if history is available
+   */
+  private async getLatestRevision(itineraryId: ItineraryId): Promise<number | undefined> {
+    if (!this.historyService) {
+      return undefined;
+    }
+    const revisionsResult = await this.historyService.listRevisions(itineraryId);
+    if (!revisionsResult.success) {
+      return undefined;
+    }
+    return revisionsResult.value.at(-1)?.revision;
+  }
+
+  /**
+   * Get the revision a turn's changes are based on, starting the history of
+   * an itinerary that has none, if history is available
+   */
+  private async getBaseRevision(itineraryId: ItineraryId): Promise<number | undefined> {
+    if (!this.historyService) {
+      return undefined;
+    }
+    const baseResult = await this.historyService.ensureBaseRevision(itineraryId);
+    return baseResult.success ? baseResult.value : undefined;
+  }
+
+  /**
+   * Build the changeset for a turn's tool calls, or undefined if they saved nothing
+   */
+  private async buildChangeset(
+    itineraryId: ItineraryId,
+    baseRevision: number | undefined,
+    toolCalls: ToolCall[]
+  ): Promise<MessageChangeset | undefined> {
+    if (baseRevision === undefined) {
+      return undefined;
+    }
+    const headRevision = await this.getLatestRevision(itineraryId);
+    if (headRevision === undefined || headRevision <= baseRevision) {
+      return undefined;
+    }
+    return {
+      itineraryId,
+      baseRevision,
+      headRevision,
+      tools: [...new Set(toolCalls.map((tc) => tc.function.name))],
+    };
+  }
+
+  /**
+   * Map a storage failure during undo to a trip designer error
+   */
+  private toUndoError(itineraryId: ItineraryId, error: StorageError): TripDesignerError {
+    if (error.code === 'NOT_FOUND') {
+      return { type: 'itinerary_not_found', itineraryId };
+    }
+    return { type: 'undo_unavailable', reason: error.message };
+  }
+
   /**
    * Estimate total context tokens for a session
    * This matches the logic in SessionManager.shouldCompact()
@@ -1688,7 +1911,9 @@ Use this relevant knowledge to inform your responses, but prioritize the current
    * Delete all sessions for an itinerary
    * Used when an itinerary is deleted to prevent orphaned sessions
    */
-  deleteSessionsByItineraryId(itineraryId: ItineraryId): void {
-    this.sessionManager.deleteByItineraryId(itineraryId);
+  async deleteSessionsByItineraryId(
+    itineraryId: ItineraryId
+  ): Promise<Result<number, StorageError>> {
+    return this.sessionManager.deleteByItineraryId(itineraryId);
   }
 }
@@ -6,6 +6,7 @@
 import type { Itinerary } from '../domain/types/itinerary.js';
 import type { Segment } from '../domain/types/segment.js';
 import type {
+  ConnectionView,
   ItineraryDay,
   ItineraryMetadata,
   ItineraryStats,
@@ -17,12 +18,21 @@ import type {
   ViewerType,
 } from '../domain/types/viewer.js';
 import { DEFAULT_VIEWER_CONFIG } from '../domain/types/viewer.js';
+import {
+  formatInTimezone,
+  formatUtcOffset,
+  getSegmentTimezones,
+  toLocalDateKey,
+} from '../utils/timezone.js';
+import { FlightConnectionService } from './flight-connection.service.js';
+import type { FlightConnection, FlightJourney } from './flight-connection.service.js';
 
 /**
  * Service for rendering itineraries with extensible viewer plugins
  */
 export class ViewerService {
   private plugins: Map<ViewerType, ViewerPlugin> = new Map();
+  private flightConnections = new FlightConnectionService();
 
   /**
    * Register a viewer plugin
@@ -109,9 +119,8 @@ export class ViewerService {
     // Initialize all days in the trip
     const duration = this.calculateDuration(itinerary.startDate, itinerary.endDate);
     for (let i = 0; i < duration; i++) {
-      const date = new Date(startDate);
-      date.setDate(date.getDate() + i);
-      const dateKey = this.toDateKey(date);
+      const dateKey = this.toDateKey(new Date(startDate.getTime() + i * 24 * 60 * 60 * 1000));
+      const date = this.fromDateKey(dateKey);
 
       dayMap.set(dateKey, {
         dayNumber: i + 1,
@@ -123,16 +132,23 @@ export class ViewerService {
       });
     }
 
-    // Assign segments to days
+    const journeys = this.flightConnections.groupJourneys(itinerary.segments);
+
+    // Assign segments to days by the local date where each segment starts,
+    // so a red-eye departing at 11 PM stays on the day it departs
     for (const segment of itinerary.segments) {
-      const segmentDate = new Date(segment.startDatetime);
-      const dateKey = this.toDateKey(segmentDate);
+      const dateKey = toLocalDateKey(
+        segment.startDatetime,
+        getSegmentTimezones(segment).start
+      );
+      const segmentDate = this.fromDateKey(dateKey);
 
       let day = dayMap.get(dateKey);
       if (!day) {
         // Segment outside trip range - create a day for it
-        const dayNumber = Math.floor(
-          (segmentDate.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000)
+        const tripStart = this.fromDateKey(this.toDateKey(startDate));
+        const dayNumber = Math.round(
+          (segmentDate.getTime() - tripStart.getTime()) / (24 * 60 * 60 * 1000)
         ) + 1;
         day = {
           dayNumber,
@@ -145,7 +161,7 @@ export class ViewerService {
         dayMap.set(dateKey, day);
       }
 
-      const segmentView = this.transformSegment(segment);
+      const segmentView = this.transformSegment(segment, journeys);
       day.segments.push(segmentView);
 
       // Track locations
@@ -178,19 +194,30 @@ export class ViewerService {
   /**
    * Transform segment to view model
    */
-  private transformSegment(segment: Segment): SegmentView {
+  private transformSegment(segment: Segment, journeys: FlightJourney[]): SegmentView {
     const typeConfig = this.getSegmentTypeConfig(segment);
     const details = this.extractSegmentDetails(segment);
     const title = this.generateSegmentTitle(segment);
     const summary = this.generateSegmentSummary(segment);
     const location = this.extractSegmentLocation(segment);
 
-    return {
+    // Connecting legs show their position in the journey and the layover that follows
+    const journey = journeys.find(
+      (j) => j.legs.length > 1 && j.legs.some((leg) => leg.id === segment.id)
+    );
+    const connection = journey?.connections.find((c) => c.inbound.id === segment.id);
+    if (journey) {
+      const legNumber = journey.legs.findIndex((leg) => leg.id === segment.id) + 1;
+      const booking = journey.bookingReference ? ` (booking ${journey.bookingReference})` : '';
+      details.push(`Leg ${legNumber} of ${journey.legs.length}${booking}`);
+    }
+
+    const view: SegmentView = {
       id: segment.id,
       type: segment.type,
       title,
       summary,
-      timeRange: this.formatTimeRange(segment.startDatetime, segment.endDatetime),
+      timeRange: this.formatTimeRange(segment),
       location,
       details,
       status: segment.status,
@@ -198,6 +225,41 @@ export class ViewerService {
       cssClass: typeConfig.cssClass,
       raw: segment,
     };
+
+    if (connection) {
+      view.connection = this.transformConnection(connection);
+    }
+
+    return view;
+  }
+
+  /**
+   * Transform flight connection to view model
+   */
+  private transformConnection(connection: FlightConnection): ConnectionView {
+    const crossAirport = connection.kind === 'CROSS_AIRPORT';
+    const arrival = connection.arrivalAirport.code || connection.arrivalAirport.name;
+    const departure = connection.departureAirport.code || connection.departureAirport.name;
+    const airport = crossAirport ? `${arrival} → ${departure}` : arrival;
+    const layover = this.formatMinutes(Math.max(connection.layoverMinutes, 0));
+
+    let description = crossAirport
+      ? `${layover} to change airports ${airport}`
+      : `${layover} layover in ${airport}`;
+    if (connection.terminalChange) {
+      description += ` (terminal ${connection.inbound.arrivalTerminal} → ${connection.outbound.departureTerminal})`;
+    }
+    if (!connection.meetsMinimumConnectionTime) {
+      description += ` - below ${this.formatMinutes(connection.minimumConnectionMinutes)} minimum connection time`;
+    }
+
+    return {
+      airport,
+      layover,
+      crossAirport,
+      belowMinimum: !connection.meetsMinimumConnectionTime,
+      description,
+    };
   }
 
   /**
@@ -209,6 +271,8 @@ export class ViewerService {
       HOTEL: { icon: '🏨', cssClass: 'segment-hotel' },
       ACTIVITY: { icon: '🎯', cssClass: 'segment-activity' },
       TRANSFER: { icon: '🚗', cssClass: 'segment-transfer' },
+      RAIL: { icon: '🚆', cssClass: 'segment-rail' },
+      CAR_RENTAL: { icon: '🚙', cssClass: 'segment-car-rental' },
       MEETING: { icon: '💼', cssClass: 'segment-meeting' },
       CUSTOM: { icon: '📌', cssClass: 'segment-custom' },
     };
@@ -228,6 +292,15 @@ export class ViewerService {
         if (flight.flightNumber) details.push(`Flight: ${flight.flightNumber}`);
         if (flight.origin?.name) details.push(`From: ${flight.origin.name} (${flight.origin.code || ''})`);
         if (flight.destination?.name) details.push(`To: ${flight.destination.name} (${flight.destination.code || ''})`);
+        const zones = getSegmentTimezones(flight);
+        details.push(`Departs: ${this.formatDateTime(flight.startDatetime, zones.start)}`);
+        details.push(`Arrives: ${this.formatDateTime(flight.endDatetime, zones.end)}`);
+        // Instants are absolute, so the difference is the true flying time across zones
+        const flightMinutes = Math.round(
+          (new Date(flight.endDatetime).getTime() - new Date(flight.startDatetime).getTime()) /
+            (60 * 1000)
+        );
+        if (flightMinutes > 0) details.push(`Duration: ${this.formatMinutes(flightMinutes)}`);
         if (flight.cabin) details.push(`Cabin: ${flight.cabin}`);
         if (flight.seatPreference) details.push(`Seat: ${flight.seatPreference}`);
         break;
@@ -255,6 +328,43 @@ export class ViewerService {
         if (transfer.provider?.name) details.push(`Provider: ${transfer.provider.name}`);
         break;
       }
+      case 'RAIL': {
+        const rail = segment as Segment & { type: 'RAIL' };
+        if (rail.operator?.name) details.push(`Operator: ${rail.operator.name}`);
+        if (rail.trainNumber) details.push(`Train: ${rail.trainNumber}`);
+        if (rail.origin?.name) {
+          const platform = rail.departurePlatform ? `, platform ${rail.departurePlatform}` : '';
+          details.push(`From: ${rail.origin.name}${platform}`);
+        }
+        if (rail.destination?.name) {
+          const platform = rail.arrivalPlatform ? `, platform ${rail.arrivalPlatform}` : '';
+          details.push(`To: ${rail.destination.name}${platform}`);
+        }
+        if (rail.fareClass) details.push(`Class: ${rail.fareClass}`);
+        if (rail.coach) details.push(`Coach: ${rail.coach}`);
+        const seats = Object.values(rail.seatAssignments ?? {});
+        if (seats.length > 0) details.push(`Seat: ${seats.join(', ')}`);
+        if (rail.confirmationNumber) details.push(`Confirmation: ${rail.confirmationNumber}`);
+        break;
+      }
+      case 'CAR_RENTAL': {
+        const rental = segment as Segment & { type: 'CAR_RENTAL' };
+        if (rental.rentalCompany?.name) details.push(`Company: ${rental.rentalCompany.name}`);
+        if (rental.pickupLocation?.name) details.push(`Pickup: ${rental.pickupLocation.name}`);
+        if (rental.returnLocation?.name) details.push(`Return: ${rental.returnLocation.name}`);
+        if (rental.carClass || rental.vehicleDescription) {
+          details.push(
+            `Car: ${[rental.carClass, rental.vehicleDescription].filter(Boolean).join(' - ')}`
+          );
+        }
+        const drivers = [rental.primaryDriver, ...(rental.additionalDrivers ?? [])].filter(Boolean);
+        if (drivers.length > 0) details.push(`Drivers: ${drivers.join(', ')}`);
+        if (rental.insurance?.length) details.push(`Insurance: ${rental.insurance.join(', ')}`);
+        if (rental.includedMileage) details.push(`Mileage: ${rental.includedMileage}`);
+        if (rental.fuelPolicy) details.push(`Fuel: ${rental.fuelPolicy}`);
+        if (rental.confirmationNumber) details.push(`Confirmation: ${rental.confirmationNumber}`);
+        break;
+      }
       case 'MEETING': {
         const meeting = segment as Segment & { type: 'MEETING' };
         if (meeting.meetingTitle) details.push(`Meeting: ${meeting.meetingTitle}`);
@@ -299,6 +409,15 @@ export class ViewerService {
           .join(' → ');
         return route || `${transfer.transferType || 'Transfer'}`;
       }
+      case 'RAIL': {
+        const rail = segment as Segment & { type: 'RAIL' };
+        const route = [rail.origin?.name, rail.destination?.name].filter(Boolean).join(' → ');
+        return route || `${rail.operator?.name || 'Train'} ${rail.trainNumber || ''}`.trim();
+      }
+      case 'CAR_RENTAL': {
+        const rental = segment as Segment & { type: 'CAR_RENTAL' };
+        return `${rental.rentalCompany?.name || 'Car'} rental`;
+      }
       case 'MEETING': {
         const meeting = segment as Segment & { type: 'MEETING' };
         return meeting.meetingTitle || 'Meeting';
@@ -312,7 +431,7 @@ export class ViewerService {
    * Generate segment summary
    */
   private generateSegmentSummary(segment: Segment): string {
-    const time = this.formatTimeRange(segment.startDatetime, segment.endDatetime);
+    const time = this.formatTimeRange(segment);
 
     switch (segment.type) {
       case 'FLIGHT': {
@@ -324,6 +443,19 @@ export class ViewerService {
         const nights = this.calculateNights(segment.startDatetime, segment.endDatetime);
         return `${nights} night${nights !== 1 ? 's' : ''} at ${hotel.property?.name || 'hotel'}`;
       }
+      case 'RAIL': {
+        const rail = segment as Segment & { type: 'RAIL' };
+        return `${rail.operator?.name || ''} ${rail.trainNumber || ''} at ${time}`.trim();
+      }
+      case 'CAR_RENTAL': {
+        const rental = segment as Segment & { type: 'CAR_RENTAL' };
+        const days = this.calculateNights(segment.startDatetime, segment.endDatetime);
+        const route =
+          rental.returnLocation?.name && rental.returnLocation.name !== rental.pickupLocation?.name
+            ? `${rental.pickupLocation?.name} → ${rental.returnLocation.name}`
+            : rental.pickupLocation?.name;
+        return `${days} day${days !== 1 ? 's' : ''} from ${route || 'pickup'}`;
+      }
       case 'ACTIVITY':
         return time;
       case 'TRANSFER':
@@ -356,6 +488,14 @@ export class ViewerService {
         const transfer = segment as Segment & { type: 'TRANSFER' };
         return transfer.dropoffLocation?.city || transfer.dropoffLocation?.name;
       }
+      case 'RAIL': {
+        const rail = segment as Segment & { type: 'RAIL' };
+        return rail.destination?.address?.city || rail.destination?.name;
+      }
+      case 'CAR_RENTAL': {
+        const rental = segment as Segment & { type: 'CAR_RENTAL' };
+        return rental.pickupLocation?.address?.city || rental.pickupLocation?.name;
+      }
       case 'MEETING': {
         const meeting = segment as Segment & { type: 'MEETING' };
         return meeting.location?.city || meeting.location?.name;
@@ -376,6 +516,8 @@ export class ViewerService {
       hotels: segments.filter((s) => s.type === 'HOTEL').length,
       activities: segments.filter((s) => s.type === 'ACTIVITY').length,
       transfers: segments.filter((s) => s.type === 'TRANSFER').length,
+      rail: segments.filter((s) => s.type === 'RAIL').length,
+      carRentals: segments.filter((s) => s.type === 'CAR_RENTAL').length,
       meetings: segments.filter((s) => s.type === 'MEETING').length,
       custom: segments.filter((s) => s.type === 'CUSTOM').length,
     };
@@ -390,6 +532,16 @@ export class ViewerService {
       travelerNames: itinerary.travelers.map(
         (t) => `${t.firstName} ${t.lastName}`.trim()
       ),
+      travelers: itinerary.travelers.map((t) => ({
+        id: t.id,
+        name: `${t.firstName} ${t.lastName}`.trim(),
+        type: t.type,
+        ...(t.email ? { email: t.email } : {}),
+        ...(t.phone ? { phone: t.phone } : {}),
+        loyaltyPrograms: (t.loyaltyPrograms ?? []).map(
+          (program) => `${program.carrier} ${program.number}${program.tier ? ` (${program.tier})` : ''}`
+        ),
+      })),
       tags: itinerary.tags,
       createdAt: this.formatDateTime(itinerary.createdAt),
       updatedAt: this.formatDateTime(itinerary.updatedAt),
@@ -407,10 +559,10 @@ export class ViewerService {
   }
 
   /**
-   * Helper: Format single date
+   * Helper: Format single date (calendar dates are held at UTC noon)
    */
   private formatDate(date: Date): string {
-    return date.toLocaleDateString('en-US', {
+    return formatInTimezone(date, {
       weekday: 'short',
       month: 'short',
       day: 'numeric',
@@ -419,31 +571,59 @@ export class ViewerService {
   }
 
   /**
-   * Helper: Format date and time
+   * Helper: Format date and time in a timezone with its UTC offset
    */
-  private formatDateTime(date: Date): string {
-    return new Date(date).toLocaleString('en-US', {
-      month: 'short',
-      day: 'numeric',
-      year: 'numeric',
-      hour: 'numeric',
-      minute: '2-digit',
-    });
+  private formatDateTime(date: Date, timeZone?: string): string {
+    const formatted = formatInTimezone(
+      date,
+      {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+      },
+      timeZone
+    );
+    return `${formatted} ${timeZone ? formatUtcOffset(date, timeZone) : 'UTC'}`;
   }
 
   /**
-   * Helper: Format time range
+   * Helper: Format time range in the segment's local times
+   * (e.g., "6:00 PM GMT-5 - 6:30 AM GMT (+1)")
    */
-  private formatTimeRange(start: Date, end: Date): string {
-    const startTime = new Date(start).toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-    });
-    const endTime = new Date(end).toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-    });
-    return `${startTime} - ${endTime}`;
+  private formatTimeRange(segment: Segment): string {
+    const zones = getSegmentTimezones(segment);
+    const startTime = this.formatLocalTime(segment.startDatetime, zones.start);
+    const endTime = this.formatLocalTime(segment.endDatetime, zones.end);
+
+    // Flag arrivals that land on a later local date than the departure
+    const dayDiff = Math.round(
+      (this.fromDateKey(toLocalDateKey(segment.endDatetime, zones.end)).getTime() -
+        this.fromDateKey(toLocalDateKey(segment.startDatetime, zones.start)).getTime()) /
+        (24 * 60 * 60 * 1000)
+    );
+    const dayMarker = dayDiff > 0 && segment.type !== 'HOTEL' ? ` (+${dayDiff})` : '';
+
+    return `${startTime} - ${endTime}${dayMarker}`;
+  }
+
+  /**
+   * Helper: Format a time in a timezone with its UTC offset (UTC if the zone is unknown)
+   */
+  private formatLocalTime(date: Date, timeZone: string | undefined): string {
+    const time = formatInTimezone(date, { hour: 'numeric', minute: '2-digit' }, timeZone);
+    return `${time} ${timeZone ? formatUtcOffset(date, timeZone) : 'UTC'}`;
+  }
+
+  /**
+   * Helper: Format a duration in minutes (e.g., "1h 25m")
+   */
+  private formatMinutes(minutes: number): string {
+    const hours = Math.floor(minutes / 60);
+    const remainingMinutes = minutes % 60;
+    if (hours === 0) return `${remainingMinutes}m`;
+    return remainingMinutes === 0 ? `${hours}h` : `${hours}h ${remainingMinutes}m`;
   }
 
   /**
@@ -468,6 +648,13 @@ export class ViewerService {
    * Helper: Convert date to key string
    */
   private toDateKey(date: Date): string {
-    return date.toISOString().split('T')[0] || '';
+    return new Date(date).toISOString().split('T')[0] || '';
+  }
+
+  /**
+   * Helper: Convert key string to a calendar date (UTC noon)
+   */
+  private fromDateKey(dateKey: string): Date {
+    return new Date(`${dateKey}T12:00:00Z`);
   }
 }
@@ -0,0 +1,391 @@
+/**
+ * Calendar viewer plugin - month or week grid of segments
+ * @module services/viewers/calendar
+ */
+
+import type {
+  CalendarGridMode,
+  ItineraryView,
+  SegmentView,
+  ViewerConfig,
+  ViewerOutput,
+  ViewerOutputFormat,
+  ViewerPlugin,
+} from '../../domain/types/viewer.js';
+import { formatInTimezone } from '../../utils/timezone.js';
+import {
+  SEGMENT_COLORS,
+  addDaysToKey,
+  createHtmlOutput,
+  createViewerOutput,
+  dateKeyToDate,
+  escapeHtml,
+  escapeTableCell,
+  formatSegmentStartTime,
+  getSegmentDateKeys,
+  getSortedSegments,
+  getThemeCss,
+} from './viewer-helpers.js';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/**
+ * Segment shown in a calendar cell
+ */
+export interface CalendarEntry {
+  /** Segment ID */
+  segmentId: string;
+  /** Display title */
+  title: string;
+  /** Icon identifier */
+  icon: string;
+  /** CSS class for styling */
+  cssClass: string;
+  /** Local start time; empty on the later days of a multi-day segment */
+  time: string;
+  /** True on the later days of a multi-day segment (e.g., hotel nights) */
+  continued: boolean;
+}
+
+/**
+ * One day in the calendar grid
+ */
+export interface CalendarCell {
+  /** Date key (YYYY-MM-DD) */
+  date: string;
+  /** Day of the month */
+  dayOfMonth: number;
+  /** False for padding days of a neighbouring month */
+  inPeriod: boolean;
+  /** True between the first and last day of the trip */
+  inTrip: boolean;
+  /** Segments on this day */
+  entries: CalendarEntry[];
+}
+
+/**
+ * A month or week of the calendar
+ */
+export interface CalendarPeriod {
+  /** Display label (e.g., "July 2025" or "Week of Jun 30, 2025") */
+  label: string;
+  /** Monday-first weeks of seven cells */
+  weeks: CalendarCell[][];
+}
+
+/**
+ * Calendar grid model
+ */
+export interface CalendarGrid {
+  /** Grid granularity */
+  mode: CalendarGridMode;
+  /** Periods covering the trip */
+  periods: CalendarPeriod[];
+}
+
+/**
+ * Calendar viewer - lays segments out on a month or week grid
+ */
+export class CalendarViewer implements ViewerPlugin {
+  readonly id = 'calendar' as const;
+  readonly name = 'Calendar View';
+  readonly description = 'Month or week calendar grid with segments on the days they occupy';
+  readonly supportedFormats: ViewerOutputFormat[] = ['html', 'json', 'markdown'];
+
+  async render(view: ItineraryView, config: ViewerConfig): Promise<ViewerOutput> {
+    const grid = this.buildGrid(view, config.calendarMode ?? 'month');
+
+    switch (config.format) {
+      case 'json':
+        return createViewerOutput(
+          view,
+          this.id,
+          JSON.stringify({ id: view.id, title: view.title, ...grid }, null, 2),
+          'application/json'
+        );
+      case 'markdown':
+        return createViewerOutput(view, this.id, this.renderMarkdown(view, grid), 'text/markdown');
+      default:
+        return createHtmlOutput(
+          view,
+          this.id,
+          this.generateCss(config.theme || 'light'),
+          this.generateBody(view, grid),
+          config
+        );
+    }
+  }
+
+  /**
+   * Build the calendar grid for a view
+   * Multi-day segments appear on every local date they cover.
+   */
+  buildGrid(view: ItineraryView, mode: CalendarGridMode): CalendarGrid {
+    const entriesByDate = new Map<string, CalendarEntry[]>();
+    let first: string | undefined;
+    let last: string | undefined;
+
+    for (const segment of getSortedSegments(view)) {
+      const { start, end } = getSegmentDateKeys(segment);
+      if (!first || start < first) first = start;
+      if (!last || end > last) last = end;
+
+      for (let date = start; date <= end; date = addDaysToKey(date, 1)) {
+        const entries = entriesByDate.get(date) ?? [];
+        entries.push(this.toEntry(segment, date !== start));
+        entriesByDate.set(date, entries);
+      }
+    }
+
+    if (!first || !last) {
+      return { mode, periods: [] };
+    }
+
+    const tripStart = first;
+    const tripEnd = last;
+    const cell = (date: string, inPeriod: boolean): CalendarCell => ({
+      date,
+      dayOfMonth: Number(date.slice(8, 10)),
+      inPeriod,
+      inTrip: date >= tripStart && date <= tripEnd,
+      entries: inPeriod ? (entriesByDate.get(date) ?? []) : [],
+    });
+
+    return {
+      mode,
+      periods:
+        mode === 'week'
+          ? this.buildWeeks(tripStart, tripEnd, cell)
+          : this.buildMonths(tripStart, tripEnd, cell),
+    };
+  }
+
+  /**
+   * One period per month from the trip's first to its last month
+   */
+  private buildMonths(
+    tripStart: string,
+    tripEnd: string,
+    cell: (date: string, inPeriod: boolean) => CalendarCell
+  ): CalendarPeriod[] {
+    const periods: CalendarPeriod[] = [];
+
+    for (let monthStart = `${tripStart.slice(0, 7)}-01`; monthStart <= tripEnd; ) {
+      const month = monthStart.slice(0, 7);
+      const weeks: CalendarCell[][] = [];
+
+      for (let weekStart = this.startOfWeek(monthStart); weekStart.slice(0, 7) <= month; ) {
+        const week: CalendarCell[] = [];
+        for (let i = 0; i < 7; i++) {
+          const date = addDaysToKey(weekStart, i);
+          week.push(cell(date, date.slice(0, 7) === month));
+        }
+        weeks.push(week);
+        weekStart = addDaysToKey(weekStart, 7);
+      }
+
+      periods.push({
+        label: formatInTimezone(dateKeyToDate(monthStart), { month: 'long', year: 'numeric' }),
+        weeks,
+      });
+      monthStart = this.nextMonth(monthStart);
+    }
+
+    return periods;
+  }
+
+  /**
+   * One period per Monday-first week covering the trip
+   */
+  private buildWeeks(
+    tripStart: string,
+    tripEnd: string,
+    cell: (date: string, inPeriod: boolean) => CalendarCell
+  ): CalendarPeriod[] {
+    const periods: CalendarPeriod[] = [];
+
+    for (let weekStart = this.startOfWeek(tripStart); weekStart <= tripEnd; ) {
+      const week: CalendarCell[] = [];
+      for (let i = 0; i < 7; i++) {
+        week.push(cell(addDaysToKey(weekStart, i), true));
+      }
+
+      const label = formatInTimezone(dateKeyToDate(weekStart), {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+      });
+      periods.push({ label: `Week of ${label}`, weeks: [week] });
+      weekStart = addDaysToKey(weekStart, 7);
+    }
+
+    return periods;
+  }
+
+  private toEntry(segment: SegmentView, continued: boolean): CalendarEntry {
+    return {
+      segmentId: segment.id,
+      title: segment.title,
+      icon: segment.icon,
+      cssClass: segment.cssClass,
+      time: continued ? '' : formatSegmentStartTime(segment),
+      continued,
+    };
+  }
+
+  /**
+   * Monday on or before a date
+   */
+  private startOfWeek(dateKey: string): string {
+    const mondayOffset = (dateKeyToDate(dateKey).getUTCDay() + 6) % 7;
+    return addDaysToKey(dateKey, -mondayOffset);
+  }
+
+  /**
+   * First day of the month after a date
+   */
+  private nextMonth(dateKey: string): string {
+    const year = Number(dateKey.slice(0, 4));
+    const month = Number(dateKey.slice(5, 7));
+    return month === 12 ? `${year + 1}-01-01` : `${year}-${String(month + 1).padStart(2, '0')}-01`;
+  }
+
+  /**
+   * Render as Markdown tables, one per period
+   */
+  private renderMarkdown(view: ItineraryView, grid: CalendarGrid): string {
+    let md = `# ${view.title}\n\n`;
+    md += `**Dates:** ${view.dateRange}\n\n`;
+
+    if (grid.periods.length === 0) {
+      md += '*No segments scheduled.*\n';
+      return md;
+    }
+
+    for (const period of grid.periods) {
+      md += `## ${period.label}\n\n`;
+      md += `| ${WEEKDAYS.join(' | ')} |\n`;
+      md += `|${WEEKDAYS.map(() => '---').join('|')}|\n`;
+
+      for (const week of period.weeks) {
+        const cells = week.map((day) => {
+          if (!day.inPeriod) return ' ';
+          const label = day.inTrip ? `**${day.dayOfMonth}**` : String(day.dayOfMonth);
+          const entries = day.entries.map((entry) => {
+            const prefix = entry.continued ? '↳ ' : entry.time ? `${entry.time} ` : '';
+            return escapeTableCell(`${entry.icon} ${prefix}${entry.title}`);
+          });
+          return [label, ...entries].join('<br>');
+        });
+        md += `| ${cells.join(' | ')} |\n`;
+      }
+      md += '\n';
+    }
+
+    md += '---\n\n';
+    md += `*Version: ${view.metadata.version}*\n`;
+    return md;
+  }
+
+  /**
+   * Generate HTML body
+   */
+  private generateBody(view: ItineraryView, grid: CalendarGrid): string {
+    const periods =
+      grid.periods.length === 0
+        ? '<p class="calendar-empty">No segments scheduled.</p>'
+        : grid.periods.map((period) => this.generatePeriod(period)).join('');
+
+    return `
+<div class="calendar-container calendar-${grid.mode}">
+  <header class="calendar-header">
+    <h1>${escapeHtml(view.title)}</h1>
+    <p>📅 ${escapeHtml(view.dateRange)} · ${view.stats.totalSegments} segments</p>
+  </header>
+  ${periods}
+</div>
+`;
+  }
+
+  private generatePeriod(period: CalendarPeriod): string {
+    const rows = period.weeks
+      .map((week) => `<tr>${week.map((day) => this.generateCell(day)).join('')}</tr>`)
+      .join('');
+
+    return `
+<section class="calendar-period">
+  <h2>${escapeHtml(period.label)}</h2>
+  <table class="calendar-grid">
+    <thead><tr>${WEEKDAYS.map((day) => `<th>${day}</th>`).join('')}</tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+</section>
+`;
+  }
+
+  private generateCell(day: CalendarCell): string {
+    const classes = ['calendar-day'];
+    if (!day.inPeriod) classes.push('outside');
+    if (day.inTrip) classes.push('in-trip');
+
+    const entries = day.entries
+      .map(
+        (entry) =>
+          `<div class="calendar-entry${entry.continued ? ' continued' : ''}" style="border-left-color: ${SEGMENT_COLORS[entry.cssClass] ?? SEGMENT_COLORS['segment-default']}" title="${escapeHtml(entry.title)}">` +
+          `${entry.icon} ${entry.time ? `<span class="entry-time">${escapeHtml(entry.time)}</span> ` : ''}${escapeHtml(entry.title)}</div>`
+      )
+      .join('');
+
+    return `<td class="${classes.join(' ')}"><div class="day-number">${day.inPeriod ? day.dayOfMonth : ''}</div>${entries}</td>`;
+  }
+
+  /**
+   * Generate CSS
+   */
+  private generateCss(theme: string): string {
+    return `${getThemeCss(theme)}
+.calendar-container { max-width: 1100px; margin: 0 auto; }
+.calendar-header { margin-bottom: 1.5rem; }
+.calendar-header h1 { font-size: 1.75rem; }
+.calendar-header p, .calendar-empty { color: var(--text-secondary); }
+.calendar-period { margin-bottom: 2rem; }
+.calendar-period h2 { font-size: 1.25rem; margin-bottom: 0.5rem; }
+.calendar-grid { width: 100%; border-collapse: collapse; table-layout: fixed; }
+.calendar-grid th {
+  padding: 0.5rem;
+  font-size: 0.8rem;
+  color: var(--text-secondary);
+  text-transform: uppercase;
+}
+.calendar-day {
+  vertical-align: top;
+  height: 6.5rem;
+  padding: 0.35rem;
+  border: 1px solid var(--border-color);
+  background: var(--bg-card);
+}
+.calendar-week .calendar-day { height: 14rem; }
+.calendar-day.outside { background: var(--bg-secondary); }
+.calendar-day.in-trip .day-number { color: var(--accent-color); font-weight: 700; }
+.day-number { font-size: 0.8rem; margin-bottom: 0.25rem; }
+.calendar-entry {
+  font-size: 0.75rem;
+  padding: 0.15rem 0.35rem;
+  margin-bottom: 0.2rem;
+  border-left: 3px solid;
+  border-radius: 3px;
+  background: var(--bg-secondary);
+  white-space: nowrap;
+  overflow: hidden;
+  text-overflow: ellipsis;
+}
+.calendar-entry.continued { opacity: 0.6; font-style: italic; }
+.entry-time { color: var(--text-secondary); }
+
+@media print {
+  body { padding: 0; }
+  .calendar-period { break-inside: avoid; }
+}
+`;
+  }
+}
@@ -68,7 +68,9 @@ export class HierarchicalViewer implements ViewerPlugin {
     md += `- ✈️ ${view.stats.flights} flights\n`;
     md += `- 🏨 ${view.stats.hotels} hotels\n`;
     md += `- 🎯 ${view.stats.activities} activities\n`;
-    md += `- 🚗 ${view.stats.transfers} transfers\n\n`;
+    md += `- 🚗 ${view.stats.transfers} transfers\n`;
+    md += `- 🚆 ${view.stats.rail} train journeys\n`;
+    md += `- 🚙 ${view.stats.carRentals} car rentals\n\n`;
 
     // Days
     for (const day of view.days) {
@@ -85,6 +87,11 @@ export class HierarchicalViewer implements ViewerPlugin {
           }
           md += '\n';
         }
+
+        if (segment.connection) {
+          const warning = segment.connection.belowMinimum ? '⚠️ ' : '';
+          md += `> ⏱️ ${warning}${segment.connection.description}\n\n`;
+        }
       }
     }
 
@@ -168,6 +175,8 @@ export class HierarchicalViewer implements ViewerPlugin {
   --hotel-color: #10b981;
   --activity-color: #f59e0b;
   --transfer-color: #6366f1;
+  --rail-color: #0d9488;
+  --car-rental-color: #ef4444;
   --meeting-color: #ec4899;
   --shadow: ${isDark ? '0 4px 6px rgba(0, 0, 0, 0.3)' : '0 4px 6px rgba(0, 0, 0, 0.1)'};
 }
@@ -390,11 +399,27 @@ body {
   border-bottom: none;
 }
 
+/* Layovers between connecting flights */
+.segment-connection {
+  margin: -0.5rem 0 1rem 1.5rem;
+  padding: 0.5rem 1rem;
+  border-left: 2px dashed var(--flight-color);
+  color: var(--text-secondary);
+  font-size: 0.85rem;
+}
+
+.segment-connection.connection-tight {
+  border-left-color: #ef4444;
+  color: #ef4444;
+}
+
 /* Segment type indicators */
 .segment-flight { border-left: 4px solid var(--flight-color); }
 .segment-hotel { border-left: 4px solid var(--hotel-color); }
 .segment-activity { border-left: 4px solid var(--activity-color); }
 .segment-transfer { border-left: 4px solid var(--transfer-color); }
+.segment-rail { border-left: 4px solid var(--rail-color); }
+.segment-car-rental { border-left: 4px solid var(--car-rental-color); }
 .segment-meeting { border-left: 4px solid var(--meeting-color); }
 
 /* Footer */
@@ -521,6 +546,14 @@ document.addEventListener('DOMContentLoaded', function() {
       <div class="stat-value">${view.stats.transfers}</div>
       <div class="stat-label">🚗 Transfers</div>
     </div>
+    <div class="stat-item">
+      <div class="stat-value">${view.stats.rail}</div>
+      <div class="stat-label">🚆 Trains</div>
+    </div>
+    <div class="stat-item">
+      <div class="stat-value">${view.stats.carRentals}</div>
+      <div class="stat-label">🚙 Car Rentals</div>
+    </div>
   </div>
 </header>
 `;
@@ -576,6 +609,11 @@ document.addEventListener('DOMContentLoaded', function() {
       : ''
   }
 </div>
+${
+  segment.connection
+    ? `<div class="segment-connection${segment.connection.belowMinimum ? ' connection-tight' : ''}">⏱️ ${this.escapeHtml(segment.connection.description)}</div>`
+    : ''
+}
 `;
   }
 
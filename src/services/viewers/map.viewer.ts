@@ -0,0 +1,581 @@
+/**
+ * Map viewer plugin - static SVG map plotted from segment coordinates
+ * @module services/viewers/map
+ *
+ * Places are projected with an equirectangular projection scaled to the
+ * trip's mean latitude, so no tile server or network access is needed.
+ * Locations without coordinates fall back to the offline airport and city
+ * dataset; anything still unresolved is listed next to the map.
+ */
+
+import type { Location } from '../../domain/types/location.js';
+import type { Segment } from '../../domain/types/segment.js';
+import type {
+  ItineraryView,
+  SegmentView,
+  ViewerConfig,
+  ViewerOutput,
+  ViewerOutputFormat,
+  ViewerPlugin,
+} from '../../domain/types/viewer.js';
+import { getAirport, getCity, haversineKm } from '../../utils/airports.js';
+import {
+  SEGMENT_COLORS,
+  createHtmlOutput,
+  createViewerOutput,
+  escapeHtml,
+  escapeTableCell,
+  getSortedSegments,
+  getThemeCss,
+} from './viewer-helpers.js';
+
+const MAP_WIDTH = 800;
+const MAP_HEIGHT = 500;
+const MAP_PADDING = 48;
+
+/** Candidate graticule spacings in degrees */
+const GRID_STEPS = [0.1, 0.25, 0.5, 1, 2, 5, 10, 15, 30];
+
+/**
+ * Place plotted on the map
+ */
+export interface MapPoint {
+  /** Point ID (e.g., "p1") */
+  id: string;
+  /** Order of the first visit (1-indexed) */
+  order: number;
+  /** Place name */
+  name: string;
+  /** Latitude in decimal degrees */
+  latitude: number;
+  /** Longitude in decimal degrees */
+  longitude: number;
+  /** Horizontal position in the SVG */
+  x: number;
+  /** Vertical position in the SVG */
+  y: number;
+  /** Segments that start, end or take place here */
+  segmentIds: string[];
+}
+
+/**
+ * Movement between two places
+ */
+export interface MapRoute {
+  /** Segment ID */
+  segmentId: string;
+  /** Segment type */
+  type: Segment['type'];
+  /** Display title */
+  title: string;
+  /** CSS class for styling */
+  cssClass: string;
+  /** Origin point ID */
+  from: string;
+  /** Destination point ID */
+  to: string;
+  /** Great-circle distance in kilometers */
+  distanceKm: number;
+}
+
+/**
+ * Segment whose location could not be placed on the map
+ */
+export interface UnplacedSegment {
+  /** Segment ID */
+  segmentId: string;
+  /** Display title */
+  title: string;
+  /** Location name(s) that could not be resolved */
+  location: string;
+}
+
+/**
+ * Geographic extent of the map viewport
+ */
+export interface MapBounds {
+  /** Latitude of the top edge */
+  north: number;
+  /** Latitude of the bottom edge */
+  south: number;
+  /** Longitude of the left edge */
+  west: number;
+  /** Longitude of the right edge */
+  east: number;
+}
+
+/**
+ * Map model
+ */
+export interface TripMap {
+  /** SVG width */
+  width: number;
+  /** SVG height */
+  height: number;
+  /** Degrees at the viewport edges (east may exceed 180 for trips across the antimeridian) */
+  bounds: MapBounds;
+  /** Places in order of first visit */
+  points: MapPoint[];
+  /** Movements in chronological order */
+  routes: MapRoute[];
+  /** Segments without resolvable coordinates */
+  unplaced: UnplacedSegment[];
+  /** Sum of all route distances in kilometers */
+  totalDistanceKm: number;
+}
+
+interface ResolvedPlace {
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Map viewer - plots places and movements on a static SVG map
+ */
+export class MapViewer implements ViewerPlugin {
+  readonly id = 'map' as const;
+  readonly name = 'Map View';
+  readonly description = 'Static SVG map of places and routes, plotted from coordinates';
+  readonly supportedFormats: ViewerOutputFormat[] = ['html', 'json', 'markdown'];
+
+  async render(view: ItineraryView, config: ViewerConfig): Promise<ViewerOutput> {
+    const map = this.buildMap(view);
+
+    switch (config.format) {
+      case 'json':
+        return createViewerOutput(
+          view,
+          this.id,
+          JSON.stringify({ id: view.id, title: view.title, ...map }, null, 2),
+          'application/json'
+        );
+      case 'markdown':
+        return createViewerOutput(view, this.id, this.renderMarkdown(view, map), 'text/markdown');
+      default:
+        return createHtmlOutput(
+          view,
+          this.id,
+          this.generateCss(config.theme || 'light'),
+          this.generateBody(view, map, config),
+          config
+        );
+    }
+  }
+
+  /**
+   * Build the map model for a view
+   */
+  buildMap(view: ItineraryView): TripMap {
+    const places: ResolvedPlace[] = [];
+    const pointIndexByKey = new Map<string, number>();
+    const segmentIdsByPoint: string[][] = [];
+    const routes: MapRoute[] = [];
+    const unplaced: UnplacedSegment[] = [];
+
+    const addPlace = (place: ResolvedPlace, segmentId: string): number => {
+      // Places within ~100 m of each other share a marker
+      const key = `${place.latitude.toFixed(3)},${place.longitude.toFixed(3)}`;
+      let index = pointIndexByKey.get(key);
+      if (index === undefined) {
+        index = places.length;
+        places.push(place);
+        segmentIdsByPoint.push([]);
+        pointIndexByKey.set(key, index);
+      }
+      const segmentIds = segmentIdsByPoint[index];
+      if (segmentIds && !segmentIds.includes(segmentId)) {
+        segmentIds.push(segmentId);
+      }
+      return index;
+    };
+
+    for (const segment of getSortedSegments(view)) {
+      const locations = this.getSegmentLocations(segment.raw);
+      const resolved = locations.map((location) => this.resolveLocation(location));
+
+      if (locations.length === 0 || resolved.some((place) => !place)) {
+        if (locations.length > 0) {
+          unplaced.push({
+            segmentId: segment.id,
+            title: segment.title,
+            location: locations
+              .filter((_, index) => !resolved[index])
+              .map((location) => location.name)
+              .join(', '),
+          });
+        }
+        continue;
+      }
+
+      const indexes = resolved.map((place) => addPlace(place as ResolvedPlace, segment.id));
+      const from = indexes[0];
+      const to = indexes[1];
+      if (from !== undefined && to !== undefined && from !== to) {
+        const origin = places[from] as ResolvedPlace;
+        const destination = places[to] as ResolvedPlace;
+        routes.push(this.toRoute(segment, `p${from + 1}`, `p${to + 1}`, origin, destination));
+      }
+    }
+
+    const { positions, bounds } = this.project(places);
+    const points: MapPoint[] = places.map((place, index) => ({
+      id: `p${index + 1}`,
+      order: index + 1,
+      name: place.name,
+      latitude: place.latitude,
+      longitude: place.longitude,
+      x: positions[index]?.x ?? 0,
+      y: positions[index]?.y ?? 0,
+      segmentIds: segmentIdsByPoint[index] ?? [],
+    }));
+
+    return {
+      width: MAP_WIDTH,
+      height: MAP_HEIGHT,
+      bounds,
+      points,
+      routes,
+      unplaced,
+      totalDistanceKm: routes.reduce((sum, route) => sum + route.distanceKm, 0),
+    };
+  }
+
+  private toRoute(
+    segment: SegmentView,
+    from: string,
+    to: string,
+    origin: ResolvedPlace,
+    destination: ResolvedPlace
+  ): MapRoute {
+    return {
+      segmentId: segment.id,
+      type: segment.type,
+      title: segment.title,
+      cssClass: segment.cssClass,
+      from,
+      to,
+      distanceKm: Math.round(
+        haversineKm(origin.latitude, origin.longitude, destination.latitude, destination.longitude)
+      ),
+    };
+  }
+
+  /**
+   * Locations a segment touches: start and end for movements, one place otherwise
+   */
+  private getSegmentLocations(segment: Segment): Location[] {
+    switch (segment.type) {
+      case 'FLIGHT':
+      case 'RAIL':
+        return [segment.origin, segment.destination];
+      case 'TRANSFER':
+        return [segment.pickupLocation, segment.dropoffLocation];
+      case 'CAR_RENTAL':
+        return [segment.pickupLocation, segment.returnLocation];
+      case 'HOTEL':
+      case 'ACTIVITY':
+      case 'MEETING':
+        return [segment.location];
+      case 'CUSTOM':
+        return segment.location ? [segment.location] : [];
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Resolve coordinates from the location, its airport code or its city
+   */
+  private resolveLocation(location: Location | undefined): ResolvedPlace | undefined {
+    if (!location) return undefined;
+
+    const coordinates =
+      location.coordinates ??
+      getAirport(location.code)?.coordinates ??
+      getCity(location.address?.city)?.coordinates ??
+      getCity(location.code)?.coordinates ??
+      getCity(location.name)?.coordinates;
+    if (!coordinates) return undefined;
+
+    return {
+      name: location.code ? `${location.name} (${location.code})` : location.name,
+      latitude: coordinates.latitude,
+      longitude: coordinates.longitude,
+    };
+  }
+
+  /**
+   * Project places into the SVG viewport, preserving aspect ratio
+   * Equirectangular: x is linear in longitude and y in latitude, with
+   * longitudes narrowed by the cosine of the mean latitude.
+   */
+  private project(places: ResolvedPlace[]): {
+    positions: Array<{ x: number; y: number }>;
+    bounds: MapBounds;
+  } {
+    if (places.length === 0) {
+      return { positions: [], bounds: { north: 0, south: 0, west: 0, east: 0 } };
+    }
+
+    // Trips spanning the antimeridian are kept contiguous
+    const rawLongitudes = places.map((place) => place.longitude);
+    const wraps = Math.max(...rawLongitudes) - Math.min(...rawLongitudes) > 180;
+    const longitudes = rawLongitudes.map((lon) => (wraps && lon < 0 ? lon + 360 : lon));
+    const latitudes = places.map((place) => place.latitude);
+    const meanLatitude = latitudes.reduce((sum, lat) => sum + lat, 0) / latitudes.length;
+    const lonScale = Math.max(Math.cos((meanLatitude * Math.PI) / 180), 0.2);
+
+    const west = Math.min(...longitudes);
+    const north = Math.max(...latitudes);
+    const spanX = (Math.max(...longitudes) - west) * lonScale;
+    const spanY = north - Math.min(...latitudes);
+
+    const innerWidth = MAP_WIDTH - MAP_PADDING * 2;
+    const innerHeight = MAP_HEIGHT - MAP_PADDING * 2;
+    // SVG units per degree of latitude; a single place gets about a degree around it
+    const scale =
+      spanX === 0 && spanY === 0
+        ? innerHeight
+        : Math.min(
+            spanX === 0 ? Number.POSITIVE_INFINITY : innerWidth / spanX,
+            spanY === 0 ? Number.POSITIVE_INFINITY : innerHeight / spanY
+          );
+
+    // Center the drawing in the viewport
+    const offsetX = MAP_PADDING + (innerWidth - spanX * scale) / 2;
+    const offsetY = MAP_PADDING + (innerHeight - spanY * scale) / 2;
+
+    return {
+      positions: places.map((_, index) => ({
+        x: this.round(offsetX + ((longitudes[index] ?? west) - west) * lonScale * scale),
+        y: this.round(offsetY + (north - (latitudes[index] ?? north)) * scale),
+      })),
+      bounds: {
+        north: north + offsetY / scale,
+        south: north - (MAP_HEIGHT - offsetY) / scale,
+        west: west - offsetX / (lonScale * scale),
+        east: west + (MAP_WIDTH - offsetX) / (lonScale * scale),
+      },
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+
+  /**
+   * Render as Markdown: places, routes and distances
+   */
+  private renderMarkdown(view: ItineraryView, map: TripMap): string {
+    let md = `# ${view.title}\n\n`;
+    md += `**Dates:** ${view.dateRange}\n\n`;
+
+    md += '## Places\n\n';
+    if (map.points.length === 0) {
+      md += '*No places with known coordinates.*\n\n';
+    }
+    for (const point of map.points) {
+      md += `${point.order}. ${point.name} (${this.formatCoordinates(point)})\n`;
+    }
+    if (map.points.length > 0) md += '\n';
+
+    if (map.routes.length > 0) {
+      const names = new Map(map.points.map((point) => [point.id, point.name]));
+      md += '## Routes\n\n';
+      md += '| Segment | From | To | Distance |\n';
+      md += '|---|---|---|---:|\n';
+      for (const route of map.routes) {
+        md += `| ${escapeTableCell(route.title)} | ${escapeTableCell(names.get(route.from) ?? '')} | ${escapeTableCell(names.get(route.to) ?? '')} | ${this.formatDistance(route.distanceKm)} |\n`;
+      }
+      md += `\n**Total distance:** ${this.formatDistance(map.totalDistanceKm)}\n\n`;
+    }
+
+    if (map.unplaced.length > 0) {
+      md += '## Not on the map\n\n';
+      for (const item of map.unplaced) {
+        md += `- ${item.title} (${item.location})\n`;
+      }
+      md += '\n';
+    }
+
+    return md;
+  }
+
+  private formatCoordinates(point: { latitude: number; longitude: number }): string {
+    const lat = `${Math.abs(point.latitude).toFixed(4)}°${point.latitude >= 0 ? 'N' : 'S'}`;
+    const lon = `${Math.abs(point.longitude).toFixed(4)}°${point.longitude >= 0 ? 'E' : 'W'}`;
+    return `${lat}, ${lon}`;
+  }
+
+  private formatDistance(km: number): string {
+    return `${km.toLocaleString('en-US')} km`;
+  }
+
+  /**
+   * Generate HTML body
+   */
+  private generateBody(view: ItineraryView, map: TripMap, config: ViewerConfig): string {
+    const names = new Map(map.points.map((point) => [point.id, point.name]));
+    const routeItems = map.routes
+      .map(
+        (route) =>
+          `<li><span class="route-swatch" style="background: ${this.routeColor(route)}"></span>${escapeHtml(route.title)} · ${escapeHtml(names.get(route.from) ?? '')} → ${escapeHtml(names.get(route.to) ?? '')} · ${this.formatDistance(route.distanceKm)}</li>`
+      )
+      .join('');
+
+    return `
+<div class="map-container">
+  <header class="map-header">
+    <h1>${escapeHtml(view.title)}</h1>
+    <p>📅 ${escapeHtml(view.dateRange)} · ${map.points.length} places · ${this.formatDistance(map.totalDistanceKm)} travelled</p>
+  </header>
+  ${this.generateSvg(view, map)}
+  <div class="map-lists">
+    <section>
+      <h2>Places</h2>
+      <ol class="map-places">
+        ${map.points.map((point) => `<li>${escapeHtml(point.name)} <span class="coords">${this.formatCoordinates(point)}</span></li>`).join('')}
+      </ol>
+    </section>
+    ${routeItems ? `<section><h2>Routes</h2><ul class="map-routes">${routeItems}</ul></section>` : ''}
+    ${
+      map.unplaced.length > 0
+        ? `<section><h2>Not on the map</h2><ul class="map-unplaced">${map.unplaced.map((item) => `<li>${escapeHtml(item.title)} (${escapeHtml(item.location)})</li>`).join('')}</ul></section>`
+        : ''
+    }
+  </div>
+  ${
+    config.includeMapData
+      ? `<script type="application/json" id="map-data">${JSON.stringify(map).replace(/</g, '\\u003c')}</script>`
+      : ''
+  }
+</div>
+`;
+  }
+
+  /**
+   * Generate the SVG map
+   */
+  private generateSvg(view: ItineraryView, map: TripMap): string {
+    if (map.points.length === 0) {
+      return '<p class="map-empty">No places with known coordinates.</p>';
+    }
+
+    const pointsById = new Map(map.points.map((point) => [point.id, point]));
+    const routes = map.routes
+      .map((route) => {
+        const from = pointsById.get(route.from);
+        const to = pointsById.get(route.to);
+        if (!from || !to) return '';
+        return `<path class="route route-${route.type.toLowerCase().replace('_', '-')}" d="${this.routePath(route, from, to)}" stroke="${this.routeColor(route)}"><title>${escapeHtml(route.title)}</title></path>`;
+      })
+      .join('');
+
+    const markers = map.points
+      .map(
+        (point) => `
+    <g class="marker" transform="translate(${point.x} ${point.y})">
+      <title>${escapeHtml(point.name)}</title>
+      <circle r="11"></circle>
+      <text class="marker-order" text-anchor="middle" dy="4">${point.order}</text>
+      <text class="marker-label" x="15" dy="4">${escapeHtml(point.name)}</text>
+    </g>`
+      )
+      .join('');
+
+    return `
+<svg class="trip-map" viewBox="0 0 ${map.width} ${map.height}" role="img" aria-label="${escapeHtml(`Map of ${view.title}`)}" xmlns="http://www.w3.org/2000/svg">
+  <rect class="map-background" width="${map.width}" height="${map.height}"></rect>
+  ${this.generateGraticule(map)}
+  ${routes}
+  ${markers}
+</svg>`;
+  }
+
+  /**
+   * Flights are drawn as arcs, ground movements as straight lines
+   */
+  private routePath(route: MapRoute, from: MapPoint, to: MapPoint): string {
+    if (route.type !== 'FLIGHT') {
+      return `M ${from.x} ${from.y} L ${to.x} ${to.y}`;
+    }
+    const midX = (from.x + to.x) / 2;
+    const midY = (from.y + to.y) / 2;
+    const bend = Math.hypot(to.x - from.x, to.y - from.y) * 0.2;
+    const angle = Math.atan2(to.y - from.y, to.x - from.x) - Math.PI / 2;
+    const controlX = this.round(midX + Math.cos(angle) * bend);
+    const controlY = this.round(midY + Math.sin(angle) * bend);
+    return `M ${from.x} ${from.y} Q ${controlX} ${controlY} ${to.x} ${to.y}`;
+  }
+
+  private routeColor(route: MapRoute): string {
+    return SEGMENT_COLORS[route.cssClass] ?? SEGMENT_COLORS['segment-default'] ?? '#64748b';
+  }
+
+  /**
+   * Latitude/longitude grid lines for orientation
+   */
+  private generateGraticule(map: TripMap): string {
+    const { north, south, west, east } = map.bounds;
+    if (north === south || west === east) return '';
+
+    const lines: string[] = [];
+    const latStep = this.gridStep(north - south);
+    for (let lat = Math.ceil(south / latStep) * latStep; lat <= north; lat += latStep) {
+      const y = this.round(((north - lat) / (north - south)) * map.height);
+      lines.push(`<line class="graticule" x1="0" y1="${y}" x2="${map.width}" y2="${y}"></line>`);
+    }
+
+    const lonStep = this.gridStep(east - west);
+    for (let lon = Math.ceil(west / lonStep) * lonStep; lon <= east; lon += lonStep) {
+      const x = this.round(((lon - west) / (east - west)) * map.width);
+      lines.push(`<line class="graticule" x1="${x}" y1="0" x2="${x}" y2="${map.height}"></line>`);
+    }
+
+    return lines.join('');
+  }
+
+  /**
+   * Grid spacing giving roughly four to eight lines across a span
+   */
+  private gridStep(spanDegrees: number): number {
+    return GRID_STEPS.find((step) => spanDegrees / step <= 8) ?? 60;
+  }
+
+  /**
+   * Generate CSS
+   */
+  private generateCss(theme: string): string {
+    const isDark = theme === 'dark';
+    return `${getThemeCss(theme)}
+.map-container { max-width: 1000px; margin: 0 auto; }
+.map-header { margin-bottom: 1.5rem; }
+.map-header h1 { font-size: 1.75rem; }
+.map-header p, .map-empty, .coords { color: var(--text-secondary); }
+.trip-map { width: 100%; height: auto; border: 1px solid var(--border-color); border-radius: 8px; }
+.map-background { fill: ${isDark ? '#0f172a' : '#eef4fb'}; }
+.graticule { stroke: ${isDark ? '#1e293b' : '#d6e2f0'}; stroke-width: 1; }
+.route { fill: none; stroke-width: 2.5; stroke-linecap: round; }
+.route-flight { stroke-dasharray: 8 6; }
+.marker circle { fill: var(--accent-color); stroke: #ffffff; stroke-width: 2; }
+.marker-order { fill: #ffffff; font-size: 11px; font-weight: 700; }
+.marker-label {
+  fill: var(--text-primary);
+  font-size: 12px;
+  paint-order: stroke;
+  stroke: ${isDark ? '#0f172a' : '#eef4fb'};
+  stroke-width: 3px;
+}
+.map-lists { display: grid; grid-template-columns: repeat(auto-fit, minmax(280px, 1fr)); gap: 1.5rem; margin-top: 1.5rem; }
+.map-lists h2 { font-size: 1.1rem; margin-bottom: 0.5rem; }
+.map-lists li { font-size: 0.9rem; margin: 0 0 0.35rem 1.25rem; }
+.route-swatch { display: inline-block; width: 12px; height: 4px; margin-right: 0.5rem; vertical-align: middle; }
+
+@media print {
+  body { padding: 0; }
+  .trip-map, .route-swatch { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+}
+`;
+  }
+}
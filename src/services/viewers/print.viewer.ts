@@ -0,0 +1,282 @@
+/**
+ * Print viewer plugin - one page per day, optimized for paper
+ * @module services/viewers/print
+ */
+
+import type {
+  ItineraryDay,
+  ItineraryView,
+  SegmentView,
+  ViewerConfig,
+  ViewerOutput,
+  ViewerOutputFormat,
+  ViewerPlugin,
+} from '../../domain/types/viewer.js';
+import { createHtmlOutput, createViewerOutput, escapeHtml } from './viewer-helpers.js';
+
+/** Blank lines left for handwritten notes on each day page */
+const NOTE_LINES = 6;
+
+/**
+ * Print viewer - a cover page followed by one page per day
+ * Always renders the light theme: dark backgrounds waste ink.
+ */
+export class PrintViewer implements ViewerPlugin {
+  readonly id = 'print' as const;
+  readonly name = 'Print View';
+  readonly description = 'Printable document with a cover page and one page per day';
+  readonly supportedFormats: ViewerOutputFormat[] = ['html', 'markdown'];
+
+  async render(view: ItineraryView, config: ViewerConfig): Promise<ViewerOutput> {
+    switch (config.format) {
+      case 'markdown':
+        return createViewerOutput(view, this.id, this.renderMarkdown(view), 'text/markdown');
+      default:
+        return createHtmlOutput(view, this.id, this.generateCss(), this.generateBody(view), {
+          ...config,
+          theme: 'light',
+        });
+    }
+  }
+
+  /**
+   * Render as Markdown with explicit page breaks for Markdown-to-PDF tools
+   */
+  private renderMarkdown(view: ItineraryView): string {
+    const pageBreak = '\n<div style="page-break-after: always;"></div>\n\n';
+
+    let md = `# ${view.title}\n\n`;
+    if (view.description) {
+      md += `${view.description}\n\n`;
+    }
+    md += `**Dates:** ${view.dateRange} (${view.durationDays} days)\n`;
+    if (view.destinations.length > 0) {
+      md += `**Destinations:** ${view.destinations.join(', ')}\n`;
+    }
+    if (view.metadata.travelerCount > 0) {
+      md += `**Travelers:** ${view.metadata.travelerNames.join(', ')}\n`;
+    }
+    md += '\n## Days\n\n';
+    for (const day of view.days) {
+      md += `- ${day.title} (${day.dateFormatted})\n`;
+    }
+
+    for (const day of view.days) {
+      md += pageBreak;
+      md += `## ${day.title}\n\n`;
+      md += `*${day.dateFormatted}*\n\n`;
+
+      for (const segment of day.segments) {
+        md += `### ${segment.timeRange} · ${segment.icon} ${segment.title}\n\n`;
+        if (segment.summary) {
+          md += `${segment.summary}\n\n`;
+        }
+        const reference = this.getReference(segment);
+        if (reference) {
+          md += `**${reference}**\n\n`;
+        }
+        for (const detail of this.getDetails(segment)) {
+          md += `- ${detail}\n`;
+        }
+        if (segment.raw.notes) {
+          md += `\n> ${segment.raw.notes.replace(/\n/g, '\n> ')}\n`;
+        }
+        if (segment.connection) {
+          const warning = segment.connection.belowMinimum ? '⚠️ ' : '';
+          md += `\n> ⏱️ ${warning}${segment.connection.description}\n`;
+        }
+        md += '\n';
+      }
+    }
+
+    return md;
+  }
+
+  /**
+   * Confirmation and booking references, shown prominently for check-in desks
+   */
+  private getReference(segment: SegmentView): string | undefined {
+    const parts: string[] = [];
+    if (segment.raw.confirmationNumber) {
+      parts.push(`Confirmation: ${segment.raw.confirmationNumber}`);
+    }
+    if (segment.raw.bookingReference) {
+      parts.push(`Booking: ${segment.raw.bookingReference}`);
+    }
+    return parts.length > 0 ? parts.join(' · ') : undefined;
+  }
+
+  /**
+   * Segment details without the references already shown
+   */
+  private getDetails(segment: SegmentView): string[] {
+    return segment.details.filter((detail) => !detail.startsWith('Confirmation:'));
+  }
+
+  /**
+   * Generate HTML body
+   */
+  private generateBody(view: ItineraryView): string {
+    return `
+${this.generateCover(view)}
+${view.days.map((day) => this.generateDayPage(view, day)).join('')}
+`;
+  }
+
+  private generateCover(view: ItineraryView): string {
+    const facts: Array<[string, string]> = [
+      ['Dates', view.dateRange],
+      ['Duration', `${view.durationDays} days`],
+    ];
+    if (view.destinations.length > 0) {
+      facts.push(['Destinations', view.destinations.join(', ')]);
+    }
+    if (view.metadata.travelerCount > 0) {
+      facts.push(['Travelers', view.metadata.travelerNames.join(', ')]);
+    }
+    facts.push(['Status', view.status]);
+
+    return `
+<section class="page cover">
+  <h1>${escapeHtml(view.title)}</h1>
+  ${view.description ? `<p class="description">${escapeHtml(view.description)}</p>` : ''}
+  <dl class="facts">
+    ${facts.map(([label, value]) => `<dt>${label}</dt><dd>${escapeHtml(value)}</dd>`).join('')}
+  </dl>
+  <h2>Days</h2>
+  <ol class="day-index">
+    ${view.days
+      .map(
+        (day) =>
+          `<li><span>${escapeHtml(day.title)}</span><span class="index-date">${escapeHtml(day.dateFormatted)}</span></li>`
+      )
+      .join('')}
+  </ol>
+  <p class="printed">Version ${view.metadata.version} · printed ${escapeHtml(new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }))}</p>
+</section>`;
+  }
+
+  private generateDayPage(view: ItineraryView, day: ItineraryDay): string {
+    return `
+<section class="page day">
+  <div class="running-header">
+    <span>${escapeHtml(view.title)}</span>
+    <span>${escapeHtml(day.dateFormatted)}</span>
+  </div>
+  <h2>${escapeHtml(day.title)}</h2>
+  <table class="schedule">
+    <tbody>
+      ${day.segments.map((segment) => this.generateSegmentRow(segment)).join('')}
+    </tbody>
+  </table>
+  <div class="notes">
+    <h3>Notes</h3>
+    ${'<div class="note-line"></div>'.repeat(NOTE_LINES)}
+  </div>
+</section>`;
+  }
+
+  private generateSegmentRow(segment: SegmentView): string {
+    const reference = this.getReference(segment);
+    const details = this.getDetails(segment);
+
+    return `
+<tr class="${segment.cssClass}">
+  <td class="time">${escapeHtml(segment.timeRange)}</td>
+  <td class="icon">${segment.icon}</td>
+  <td>
+    <div class="title">${escapeHtml(segment.title)}${segment.status !== 'CONFIRMED' ? ` <span class="status">${escapeHtml(segment.status)}</span>` : ''}</div>
+    ${segment.summary ? `<div class="summary">${escapeHtml(segment.summary)}</div>` : ''}
+    ${reference ? `<div class="reference">${escapeHtml(reference)}</div>` : ''}
+    ${details.length > 0 ? `<ul class="details">${details.map((detail) => `<li>${escapeHtml(detail)}</li>`).join('')}</ul>` : ''}
+    ${segment.raw.notes ? `<p class="segment-notes">${escapeHtml(segment.raw.notes)}</p>` : ''}
+    ${
+      segment.connection
+        ? `<div class="connection${segment.connection.belowMinimum ? ' tight' : ''}">⏱️ ${escapeHtml(segment.connection.description)}</div>`
+        : ''
+    }
+  </td>
+</tr>`;
+  }
+
+  /**
+   * Generate CSS (A4/Letter friendly, one section per printed page)
+   */
+  private generateCss(): string {
+    return `
+@page { size: auto; margin: 15mm; }
+
+* { box-sizing: border-box; margin: 0; padding: 0; }
+body {
+  font-family: Georgia, 'Times New Roman', serif;
+  font-size: 11pt;
+  color: #111827;
+  background: #e5e7eb;
+  line-height: 1.45;
+}
+
+.page {
+  background: #ffffff;
+  max-width: 210mm;
+  min-height: 270mm;
+  margin: 1.5rem auto;
+  padding: 15mm;
+  box-shadow: 0 2px 8px rgba(0, 0, 0, 0.15);
+  display: flex;
+  flex-direction: column;
+}
+
+h1 { font-size: 26pt; margin-bottom: 0.5rem; }
+h2 { font-size: 16pt; margin: 1rem 0 0.75rem; }
+h3 { font-size: 11pt; text-transform: uppercase; letter-spacing: 0.05em; color: #6b7280; }
+
+.description { font-style: italic; color: #374151; margin-bottom: 1.5rem; }
+.facts { display: grid; grid-template-columns: max-content 1fr; gap: 0.35rem 1.5rem; margin: 1.5rem 0; }
+.facts dt { font-weight: 700; }
+.day-index { list-style: none; }
+.day-index li { display: flex; justify-content: space-between; border-bottom: 1px dotted #9ca3af; padding: 0.25rem 0; }
+.index-date { color: #6b7280; }
+.printed { margin-top: auto; font-size: 9pt; color: #6b7280; }
+
+.running-header {
+  display: flex;
+  justify-content: space-between;
+  font-size: 9pt;
+  color: #6b7280;
+  border-bottom: 1px solid #d1d5db;
+  padding-bottom: 0.35rem;
+}
+
+.schedule { width: 100%; border-collapse: collapse; }
+.schedule td { vertical-align: top; padding: 0.6rem 0.4rem; border-bottom: 1px solid #e5e7eb; }
+.schedule tr { break-inside: avoid; }
+.schedule .time { width: 9.5rem; font-size: 9.5pt; font-weight: 700; }
+.schedule .icon { width: 1.75rem; }
+.title { font-weight: 700; }
+.status { font-size: 8pt; font-weight: 400; border: 1px solid #9ca3af; border-radius: 3px; padding: 0 0.25rem; }
+.summary { color: #374151; }
+.reference { font-family: 'Courier New', monospace; font-weight: 700; margin-top: 0.2rem; }
+.details { margin: 0.25rem 0 0 1.1rem; font-size: 9.5pt; color: #374151; }
+.segment-notes { margin-top: 0.25rem; font-size: 9.5pt; font-style: italic; }
+.connection { margin-top: 0.25rem; font-size: 9.5pt; }
+.connection.tight { font-weight: 700; }
+
+.notes { margin-top: auto; padding-top: 1.5rem; }
+.note-line { border-bottom: 1px solid #d1d5db; height: 1.6rem; }
+
+@media print {
+  body { background: none; }
+  .page {
+    margin: 0;
+    max-width: none;
+    min-height: 0;
+    padding: 0;
+    box-shadow: none;
+    break-after: page;
+    page-break-after: always;
+  }
+  .page:last-child { break-after: auto; page-break-after: auto; }
+}
+`;
+  }
+}
@@ -0,0 +1,392 @@
+/**
+ * Timeline viewer plugin - Gantt-style bars in one lane per traveler
+ * @module services/viewers/timeline
+ */
+
+import type {
+  ItineraryView,
+  SegmentView,
+  ViewerConfig,
+  ViewerOutput,
+  ViewerOutputFormat,
+  ViewerPlugin,
+} from '../../domain/types/viewer.js';
+import { formatInTimezone } from '../../utils/timezone.js';
+import {
+  SEGMENT_COLORS,
+  createHtmlOutput,
+  createViewerOutput,
+  dateKeyToDate,
+  escapeHtml,
+  getSegmentDateKeys,
+  getSortedSegments,
+  getThemeCss,
+} from './viewer-helpers.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Height of one bar row */
+const ROW_HEIGHT_REM = 2.1;
+
+/** Lane ID used when the itinerary has no travelers */
+const ALL_TRAVELERS_LANE = 'all';
+
+/**
+ * Segment bar on a timeline lane
+ */
+export interface TimelineBar {
+  /** Segment ID */
+  segmentId: string;
+  /** Display title */
+  title: string;
+  /** Segment type */
+  type: SegmentView['type'];
+  /** Icon identifier */
+  icon: string;
+  /** CSS class for styling */
+  cssClass: string;
+  /** Local date the segment starts on (YYYY-MM-DD) */
+  localDate: string;
+  /** Time range in local times */
+  timeRange: string;
+  /** Start instant (ISO 8601) */
+  start: string;
+  /** End instant (ISO 8601) */
+  end: string;
+  /** Bar start as a percentage of the timeline width */
+  offsetPercent: number;
+  /** Bar length as a percentage of the timeline width */
+  widthPercent: number;
+  /** Row within the lane (overlapping segments stack) */
+  row: number;
+}
+
+/**
+ * Row of the timeline for one traveler
+ */
+export interface TimelineLane {
+  /** Traveler ID (or "all" when the itinerary has no travelers) */
+  travelerId: string;
+  /** Lane label */
+  label: string;
+  /** Segment bars in chronological order */
+  bars: TimelineBar[];
+  /** Rows needed to show overlapping bars */
+  rowCount: number;
+}
+
+/**
+ * Timeline model
+ */
+export interface Timeline {
+  /** Timeline start (ISO 8601, midnight UTC of the first day) */
+  start: string;
+  /** Timeline end (ISO 8601, midnight UTC after the last day) */
+  end: string;
+  /** Day boundaries (ISO 8601) */
+  ticks: string[];
+  /** Traveler lanes */
+  lanes: TimelineLane[];
+}
+
+/**
+ * Timeline viewer - shows who is doing what, when, across the trip
+ */
+export class TimelineViewer implements ViewerPlugin {
+  readonly id = 'timeline' as const;
+  readonly name = 'Timeline View';
+  readonly description = 'Gantt-style timeline with one lane per traveler';
+  readonly supportedFormats: ViewerOutputFormat[] = ['html', 'json', 'markdown'];
+
+  async render(view: ItineraryView, config: ViewerConfig): Promise<ViewerOutput> {
+    const timeline = this.buildTimeline(view);
+
+    switch (config.format) {
+      case 'json':
+        return createViewerOutput(
+          view,
+          this.id,
+          JSON.stringify({ id: view.id, title: view.title, ...timeline }, null, 2),
+          'application/json'
+        );
+      case 'markdown':
+        return createViewerOutput(
+          view,
+          this.id,
+          this.renderMarkdown(view, timeline),
+          'text/markdown'
+        );
+      default:
+        return createHtmlOutput(
+          view,
+          this.id,
+          this.generateCss(config.theme || 'light'),
+          this.generateBody(view, timeline),
+          config
+        );
+    }
+  }
+
+  /**
+   * Build the timeline for a view
+   * A segment without traveler assignments belongs to every traveler.
+   */
+  buildTimeline(view: ItineraryView): Timeline {
+    const segments = getSortedSegments(view);
+    const times = segments.flatMap((segment) => [
+      new Date(segment.raw.startDatetime).getTime(),
+      new Date(segment.raw.endDatetime).getTime(),
+    ]);
+
+    // Whole UTC days keep the day grid aligned
+    const start = times.length > 0 ? Math.floor(Math.min(...times) / DAY_MS) * DAY_MS : 0;
+    const end = times.length > 0 ? Math.ceil(Math.max(...times) / DAY_MS) * DAY_MS : 0;
+    const span = Math.max(end - start, DAY_MS);
+
+    const ticks: string[] = [];
+    for (let tick = start; tick <= end && times.length > 0; tick += DAY_MS) {
+      ticks.push(new Date(tick).toISOString());
+    }
+
+    const toBar = (segment: SegmentView): Omit<TimelineBar, 'row'> => {
+      const segmentStart = new Date(segment.raw.startDatetime).getTime();
+      const segmentEnd = Math.max(new Date(segment.raw.endDatetime).getTime(), segmentStart);
+      return {
+        segmentId: segment.id,
+        title: segment.title,
+        type: segment.type,
+        icon: segment.icon,
+        cssClass: segment.cssClass,
+        localDate: getSegmentDateKeys(segment).start,
+        timeRange: segment.timeRange,
+        start: new Date(segmentStart).toISOString(),
+        end: new Date(segmentEnd).toISOString(),
+        offsetPercent: this.round(((segmentStart - start) / span) * 100),
+        widthPercent: this.round(((segmentEnd - segmentStart) / span) * 100),
+      };
+    };
+
+    const travelers = view.metadata.travelers;
+    const lanes: TimelineLane[] =
+      travelers.length === 0
+        ? [this.buildLane(ALL_TRAVELERS_LANE, 'All travelers', segments.map(toBar))]
+        : travelers.map((traveler) =>
+            this.buildLane(
+              traveler.id,
+              traveler.name || 'Traveler',
+              segments
+                .filter(
+                  (segment) =>
+                    segment.raw.travelerIds.length === 0 ||
+                    segment.raw.travelerIds.some((id) => id === traveler.id)
+                )
+                .map(toBar)
+            )
+          );
+
+    return {
+      start: new Date(start).toISOString(),
+      end: new Date(end).toISOString(),
+      ticks,
+      lanes,
+    };
+  }
+
+  /**
+   * Stack overlapping bars into rows, placing each bar in the first free row
+   */
+  private buildLane(
+    travelerId: string,
+    label: string,
+    bars: Array<Omit<TimelineBar, 'row'>>
+  ): TimelineLane {
+    const rowEnds: string[] = [];
+    const placed = bars.map((bar) => {
+      let row = rowEnds.findIndex((end) => end <= bar.start);
+      if (row === -1) {
+        row = rowEnds.length;
+      }
+      rowEnds[row] = bar.end;
+      return { ...bar, row };
+    });
+
+    return { travelerId, label, bars: placed, rowCount: Math.max(rowEnds.length, 1) };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  /**
+   * Render as Markdown with a Mermaid Gantt chart
+   */
+  private renderMarkdown(view: ItineraryView, timeline: Timeline): string {
+    let md = `# ${view.title}\n\n`;
+    md += `**Dates:** ${view.dateRange}\n\n`;
+
+    if (view.stats.totalSegments === 0) {
+      md += '*No segments scheduled.*\n';
+      return md;
+    }
+
+    md += '```mermaid\n';
+    md += 'gantt\n';
+    md += `  title ${this.mermaidText(view.title)} (times in UTC)\n`;
+    md += '  dateFormat YYYY-MM-DD HH:mm\n';
+    md += '  axisFormat %b %d\n';
+
+    for (const lane of timeline.lanes) {
+      md += `  section ${this.mermaidText(lane.label)}\n`;
+      for (const bar of lane.bars) {
+        md += `    ${this.mermaidText(bar.title)} : ${this.mermaidDate(bar.start)}, ${this.mermaidDate(bar.end)}\n`;
+      }
+    }
+    md += '```\n\n';
+
+    for (const lane of timeline.lanes) {
+      md += `## ${lane.label}\n\n`;
+      if (lane.bars.length === 0) {
+        md += '*Nothing scheduled.*\n\n';
+        continue;
+      }
+      for (const bar of lane.bars) {
+        md += `- ${bar.icon} **${bar.title}** (${this.formatDay(dateKeyToDate(bar.localDate))}, ${bar.timeRange})\n`;
+      }
+      md += '\n';
+    }
+
+    return md;
+  }
+
+  /**
+   * Strip characters Mermaid treats as syntax in task names
+   */
+  private mermaidText(text: string): string {
+    return text.replace(/[:;#]/g, ' ').replace(/\s+/g, ' ').trim();
+  }
+
+  private mermaidDate(iso: string): string {
+    return `${iso.slice(0, 10)} ${iso.slice(11, 16)}`;
+  }
+
+  private formatDay(date: Date): string {
+    return formatInTimezone(date, { weekday: 'short', month: 'short', day: 'numeric' });
+  }
+
+  /**
+   * Generate HTML body
+   */
+  private generateBody(view: ItineraryView, timeline: Timeline): string {
+    if (view.stats.totalSegments === 0) {
+      return `
+<div class="timeline-container">
+  <h1>${escapeHtml(view.title)}</h1>
+  <p class="timeline-empty">No segments scheduled.</p>
+</div>
+`;
+    }
+
+    // Label every day unless the trip is long enough for labels to collide
+    const labelEvery = Math.max(1, Math.ceil(timeline.ticks.length / 21));
+    const dayCount = Math.max(timeline.ticks.length - 1, 1);
+    const dayLabels = timeline.ticks
+      .slice(0, -1)
+      .map((tick, index) =>
+        index % labelEvery === 0
+          ? `<span class="timeline-tick" style="left: ${this.round((index / dayCount) * 100)}%">${escapeHtml(this.formatDay(new Date(tick)))}</span>`
+          : ''
+      )
+      .join('');
+
+    const lanes = timeline.lanes
+      .map(
+        (lane) => `
+  <div class="timeline-lane">
+    <div class="lane-label">${escapeHtml(lane.label)}</div>
+    <div class="lane-track" style="min-height: ${lane.rowCount * ROW_HEIGHT_REM + 0.6}rem">
+      ${lane.bars.map((bar) => this.generateBar(bar)).join('')}
+    </div>
+  </div>`
+      )
+      .join('');
+
+    return `
+<div class="timeline-container">
+  <header class="timeline-header">
+    <h1>${escapeHtml(view.title)}</h1>
+    <p>📅 ${escapeHtml(view.dateRange)} · ${timeline.lanes.length} lane${timeline.lanes.length === 1 ? '' : 's'} · day grid in UTC</p>
+  </header>
+  <div class="timeline" style="--day-width: ${this.round(100 / dayCount)}%">
+    <div class="timeline-lane timeline-axis">
+      <div class="lane-label"></div>
+      <div class="lane-track">${dayLabels}</div>
+    </div>
+    ${lanes}
+  </div>
+</div>
+`;
+  }
+
+  private generateBar(bar: TimelineBar): string {
+    const color = SEGMENT_COLORS[bar.cssClass] ?? SEGMENT_COLORS['segment-default'];
+    const top = bar.row * ROW_HEIGHT_REM + 0.3;
+    return `<div class="timeline-bar" style="top: ${top}rem; left: ${bar.offsetPercent}%; width: ${bar.widthPercent}%; background: ${color}" title="${escapeHtml(`${bar.title} · ${bar.timeRange}`)}"><span>${bar.icon} ${escapeHtml(bar.title)}</span></div>`;
+  }
+
+  /**
+   * Generate CSS
+   */
+  private generateCss(theme: string): string {
+    return `${getThemeCss(theme)}
+.timeline-container { max-width: 1400px; margin: 0 auto; }
+.timeline-header { margin-bottom: 1.5rem; }
+.timeline-header h1 { font-size: 1.75rem; }
+.timeline-header p, .timeline-empty { color: var(--text-secondary); }
+.timeline { border: 1px solid var(--border-color); border-radius: 8px; overflow-x: auto; }
+.timeline-lane { display: flex; min-width: 900px; border-bottom: 1px solid var(--border-color); }
+.timeline-lane:last-child { border-bottom: none; }
+.lane-label {
+  flex: 0 0 160px;
+  padding: 0.75rem;
+  font-weight: 600;
+  font-size: 0.9rem;
+  background: var(--bg-secondary);
+  border-right: 1px solid var(--border-color);
+}
+.lane-track {
+  position: relative;
+  flex: 1;
+  min-height: 3rem;
+  background-image: linear-gradient(to right, var(--border-color) 1px, transparent 1px);
+  background-size: var(--day-width) 100%;
+}
+.timeline-axis .lane-track { min-height: 2rem; background: none; }
+.timeline-axis .lane-label { background: var(--bg-primary); }
+.timeline-tick {
+  position: absolute;
+  top: 0.5rem;
+  padding-left: 0.25rem;
+  font-size: 0.7rem;
+  color: var(--text-secondary);
+  white-space: nowrap;
+}
+.timeline-bar {
+  position: absolute;
+  height: 1.8rem;
+  min-width: 4px;
+  border-radius: 4px;
+  color: #ffffff;
+  font-size: 0.75rem;
+  line-height: 1.8rem;
+  overflow: hidden;
+}
+.timeline-bar span { padding: 0 0.35rem; white-space: nowrap; }
+
+@media print {
+  body { padding: 0; }
+  .timeline-lane { min-width: 0; }
+  .timeline-bar { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+}
+`;
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * Helpers shared by the viewer plugins
+ * @module services/viewers/viewer-helpers
+ */
+
+import type {
+  ItineraryView,
+  SegmentView,
+  ViewerConfig,
+  ViewerOutput,
+  ViewerType,
+} from '../../domain/types/viewer.js';
+import { formatInTimezone, getSegmentTimezones, toLocalDateKey } from '../../utils/timezone.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Segment colors keyed by the view model's CSS class
+ */
+export const SEGMENT_COLORS: Record<string, string> = {
+  'segment-flight': '#8b5cf6',
+  'segment-hotel': '#10b981',
+  'segment-activity': '#f59e0b',
+  'segment-transfer': '#6366f1',
+  'segment-rail': '#0d9488',
+  'segment-car-rental': '#ef4444',
+  'segment-meeting': '#ec4899',
+  'segment-custom': '#64748b',
+  'segment-default': '#64748b',
+};
+
+/**
+ * Build a viewer output with the standard render metadata
+ * @param view - Rendered view model
+ * @param viewerType - Plugin that produced the content
+ * @param content - Rendered content
+ * @param contentType - MIME type of the content
+ * @returns Viewer output
+ */
+export function createViewerOutput(
+  view: ItineraryView,
+  viewerType: ViewerType,
+  content: string,
+  contentType: string
+): ViewerOutput {
+  return {
+    content,
+    contentType,
+    viewerType,
+    metadata: {
+      generatedAt: new Date(),
+      itineraryId: view.id,
+      segmentCount: view.stats.totalSegments,
+      dayCount: view.days.length,
+    },
+  };
+}
+
+/**
+ * All segments of a view in chronological order
+ * @param view - Itinerary view model
+ * @returns Segment views sorted by start time
+ */
+export function getSortedSegments(view: ItineraryView): SegmentView[] {
+  return view.days
+    .flatMap((day) => day.segments)
+    .sort(
+      (a, b) => new Date(a.raw.startDatetime).getTime() - new Date(b.raw.startDatetime).getTime()
+    );
+}
+
+/**
+ * Local calendar dates a segment starts and ends on
+ * @param segment - Segment view
+ * @returns Start and end date keys (YYYY-MM-DD) in the segment's local zones
+ */
+export function getSegmentDateKeys(segment: SegmentView): { start: string; end: string } {
+  const zones = getSegmentTimezones(segment.raw);
+  const start = toLocalDateKey(segment.raw.startDatetime, zones.start);
+  const end = toLocalDateKey(segment.raw.endDatetime, zones.end);
+  return { start, end: end < start ? start : end };
+}
+
+/**
+ * Local start time of a segment (e.g., "6:30 PM")
+ * @param segment - Segment view
+ * @returns Time in the zone the segment starts in
+ */
+export function formatSegmentStartTime(segment: SegmentView): string {
+  return formatInTimezone(
+    segment.raw.startDatetime,
+    { hour: 'numeric', minute: '2-digit' },
+    getSegmentTimezones(segment.raw).start
+  );
+}
+
+/**
+ * Shift a date key by a number of days
+ * @param dateKey - Date in YYYY-MM-DD format
+ * @param days - Days to add (negative to subtract)
+ * @returns Shifted date key
+ */
+export function addDaysToKey(dateKey: string, days: number): string {
+  return new Date(dateKeyToDate(dateKey).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Convert a date key to a calendar date (UTC noon)
+ * @param dateKey - Date in YYYY-MM-DD format
+ * @returns Date at noon UTC
+ */
+export function dateKeyToDate(dateKey: string): Date {
+  return new Date(`${dateKey}T12:00:00Z`);
+}
+
+/**
+ * CSS custom properties for the light or dark theme
+ * @param theme - Theme name
+ * @returns `:root` rule
+ */
+export function getThemeCss(theme: string): string {
+  const isDark = theme === 'dark';
+  return `
+:root {
+  --bg-primary: ${isDark ? '#1a1a2e' : '#ffffff'};
+  --bg-secondary: ${isDark ? '#16213e' : '#f8f9fa'};
+  --bg-card: ${isDark ? '#1f2937' : '#ffffff'};
+  --text-primary: ${isDark ? '#e4e4e7' : '#1f2937'};
+  --text-secondary: ${isDark ? '#a1a1aa' : '#6b7280'};
+  --border-color: ${isDark ? '#374151' : '#e5e7eb'};
+  --accent-color: #3b82f6;
+}
+
+* { box-sizing: border-box; margin: 0; padding: 0; }
+body {
+  font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+  background: var(--bg-primary);
+  color: var(--text-primary);
+  line-height: 1.5;
+  padding: 2rem;
+}
+`;
+}
+
+/**
+ * Build an HTML viewer output around a rendered body
+ * The stylesheet is inlined unless `inlineStyles` is false, in which case it
+ * is returned separately in `css`.
+ * @param view - Rendered view model
+ * @param viewerType - Plugin that produced the body
+ * @param css - Stylesheet
+ * @param body - Body markup
+ * @param config - Viewer configuration
+ * @returns Viewer output with a standalone HTML document
+ */
+export function createHtmlOutput(
+  view: ItineraryView,
+  viewerType: ViewerType,
+  css: string,
+  body: string,
+  config: ViewerConfig
+): ViewerOutput {
+  const theme = config.theme || 'light';
+  const inline = config.inlineStyles !== false;
+
+  const html = `<!DOCTYPE html>
+<html lang="en" data-theme="${theme}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(view.title)} - Itinerary</title>
+  ${inline ? `<style>${css}</style>` : ''}
+  ${config.customCss ? `<link rel="stylesheet" href="${escapeHtml(config.customCss)}">` : ''}
+</head>
+<body>
+${body}
+</body>
+</html>`;
+
+  const output = createViewerOutput(view, viewerType, html, 'text/html');
+  if (!inline) {
+    output.css = css;
+  }
+  return output;
+}
+
+/**
+ * HTML escape helper
+ * @param str - Text to escape
+ * @returns Text safe for element content and attribute values
+ */
+export function escapeHtml(str: string): string {
+  const htmlEscapes: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;',
+  };
+  return str.replace(/[&<>"']/g, (char) => htmlEscapes[char] || char);
+}
+
+/**
+ * Escape text for a Markdown table cell
+ * @param str - Cell text
+ * @returns Text with pipes escaped and line breaks collapsed
+ */
+export function escapeTableCell(str: string): string {
+  return str.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
@@ -3,15 +3,28 @@
  * @module storage/blob-storage
  */
 
-import { del, head, list, put } from '@vercel/blob';
-import { createStorageError } from '../core/errors.js';
+import { BlobPreconditionFailedError, del, head, list, put } from '@vercel/blob';
+import type { ListBlobResultBlob } from '@vercel/blob';
+import { createStorageError, createVersionConflictError } from '../core/errors.js';
 import type { StorageError } from '../core/errors.js';
 import { err, ok } from '../core/result.js';
 import type { Result } from '../core/result.js';
 import { itinerarySchema } from '../domain/schemas/itinerary.schema.js';
 import type { ItineraryId } from '../domain/types/branded.js';
 import type { Itinerary } from '../domain/types/itinerary.js';
-import type { ItineraryStorage, ItinerarySummary } from './storage.interface.js';
+import { getItineraryRole } from '../domain/utils/collaborators.js';
+import { applyItineraryQuery, toItinerarySummary } from './itinerary-query.js';
+import { upgradeStoredMoney, withMoneyUnits } from './money-units.js';
+import { createRevisionEntry, toRevisionSnapshot } from './revisions.js';
+import type {
+  ItineraryQuery,
+  ItineraryQueryResult,
+  ItineraryRevision,
+  ItineraryStorage,
+  ItinerarySummary,
+  RevisionContext,
+  StoredRevision,
+} from './storage.interface.js';
 
 /**
  * Vercel Blob storage for itineraries
@@ -20,6 +33,16 @@ import type { ItineraryStorage, ItinerarySummary } from './storage.interface.js'
 export class BlobItineraryStorage implements ItineraryStorage {
   private readonly prefix = 'itineraries/';
 
+  /**
+   * Prefix for revision blobs. Each revision is stored as two immutable
+   * blobs (`<n>.json` snapshot and `<n>.meta.json` entry) so no blob is
+   * ever overwritten and served stale from the CDN cache.
+   */
+  private readonly historyPrefix = 'itinerary-history/';
+
+  /** Revision numbers tried before giving up when concurrent saves collide */
+  private static readonly MAX_REVISION_ATTEMPTS = 5;
+
   /** Regex to detect ISO 8601 date strings */
   private static readonly ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z$/;
 
@@ -42,13 +65,130 @@ export class BlobItineraryStorage implements ItineraryStorage {
     return `${this.prefix}${id}.json`;
   }
 
+  /**
+   * Get the blob key prefix for an itinerary's revisions
+   * @param id - The itinerary ID
+   * @returns The key prefix (e.g., "itinerary-history/uuid/")
+   */
+  private getHistoryPrefix(id: ItineraryId): string {
+    return `${this.historyPrefix}${id}/`;
+  }
+
+  /**
+   * Fetch the text content of a blob
+   * @param url - Blob URL
+   * @returns Blob content
+   */
+  private async fetchText(url: string): Promise<string> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch blob (status ${response.status})`);
+    }
+    return response.text();
+  }
+
+  /**
+   * List every blob under a prefix, following pagination
+   * @param prefix - Pathname prefix
+   * @returns Blobs on all pages
+   */
+  private async listAll(prefix: string): Promise<ListBlobResultBlob[]> {
+    const blobs: ListBlobResultBlob[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await list({ prefix, ...(cursor ? { cursor } : {}) });
+      blobs.push(...page.blobs);
+      cursor = page.hasMore ? page.cursor : undefined;
+    } while (cursor);
+    return blobs;
+  }
+
+  /**
+   * Read the revision entries for an itinerary
+   * @param id - The itinerary ID
+   * @returns Revision entries, oldest first
+   */
+  private async readRevisionEntries(id: ItineraryId): Promise<ItineraryRevision[]> {
+    const blobs = await this.listAll(this.getHistoryPrefix(id));
+    const metaBlobs = blobs.filter((blob) => blob.pathname.endsWith('.meta.json'));
+
+    const entries: ItineraryRevision[] = [];
+    for (const blob of metaBlobs) {
+      entries.push(this.deserialize(await this.fetchText(blob.url)) as ItineraryRevision);
+    }
+
+    return entries.sort((a, b) => a.revision - b.revision);
+  }
+
+  /**
+   * Work out the next revision number from the highest `<n>.meta.json` pathname
+   * Only lists pathnames; blob contents are not fetched.
+   * @param id - The itinerary ID
+   * @returns Next revision number
+   */
+  private async nextRevisionNumber(id: ItineraryId): Promise<number> {
+    const historyPrefix = this.getHistoryPrefix(id);
+    let highest = 0;
+    for (const blob of await this.listAll(historyPrefix)) {
+      const match = /^(\d+)\.meta\.json$/.exec(blob.pathname.slice(historyPrefix.length));
+      if (match) {
+        highest = Math.max(highest, Number(match[1]));
+      }
+    }
+    return highest + 1;
+  }
+
+  /**
+   * Append a revision to an itinerary's history
+   *
+   * The `<n>.meta.json` blob is written first, without overwrite, to claim the
+   * revision number. When a concurrent save claimed it first, the next number
+   * is tried instead.
+   * @param itinerary - The itinerary as saved
+   * @param revision - Who made the change, and why
+   */
+  private async appendRevision(itinerary: Itinerary, revision?: RevisionContext): Promise<void> {
+    const snapshot = this.serialize(toRevisionSnapshot(itinerary));
+    const historyPrefix = this.getHistoryPrefix(itinerary.id);
+    let number = await this.nextRevisionNumber(itinerary.id);
+
+    for (let attempt = 1; ; attempt++) {
+      const entry = createRevisionEntry(itinerary, number, revision);
+      const metaKey = `${historyPrefix}${entry.revision}.meta.json`;
+      try {
+        await put(metaKey, JSON.stringify(entry), {
+          access: 'public',
+          contentType: 'application/json',
+          addRandomSuffix: false,
+          allowOverwrite: false,
+        });
+      } catch (error) {
+        const claimed = await head(metaKey).catch(() => null);
+        if (!claimed || attempt >= BlobItineraryStorage.MAX_REVISION_ATTEMPTS) {
+          throw error;
+        }
+        number = Math.max(number + 1, await this.nextRevisionNumber(itinerary.id));
+        continue;
+      }
+
+      // The number is ours now; replace any snapshot orphaned by an earlier failed save
+      await put(`${historyPrefix}${entry.revision}.json`, snapshot, {
+        access: 'public',
+        contentType: 'application/json',
+        addRandomSuffix: false,
+        allowOverwrite: true,
+      });
+      return;
+    }
+  }
+
   /**
    * Serialize an itinerary to JSON
    * @param itinerary - The itinerary to serialize
    * @returns JSON string
    */
   private serialize(itinerary: Itinerary): string {
-    return JSON.stringify(itinerary, null, 2);
+    return JSON.stringify(withMoneyUnits(itinerary), null, 2);
   }
 
   /**
@@ -78,7 +218,11 @@ export class BlobItineraryStorage implements ItineraryStorage {
   /**
    * Save an itinerary (create or update)
    */
-  async save(itinerary: Itinerary): Promise<Result<Itinerary, StorageError>> {
+  async save(
+    itinerary: Itinerary,
+    revision?: RevisionContext,
+    expectedVersion?: number
+  ): Promise<Result<Itinerary, StorageError>> {
     const key = this.getKey(itinerary.id);
 
     try {
@@ -90,24 +234,75 @@ export class BlobItineraryStorage implements ItineraryStorage {
 
       const data = this.serialize(updatedItinerary);
 
-      // Delete existing blob if it exists (required for updates)
-      try {
-        const existing = await head(key);
-        if (existing) {
-          await del(existing.url);
-          console.log('Deleted existing blob for update:', key);
+      if (expectedVersion !== undefined) {
+        // Compare-and-swap: check the stored version, then overwrite only if the
+        // blob's ETag is unchanged since we read it
+        const existing = await head(key).catch(() => null);
+        if (!existing) {
+          return err(createStorageError('NOT_FOUND', `Itinerary ${itinerary.id} not found in Blob`));
         }
-      } catch (e) {
-        // Blob doesn't exist, that's fine for new creates
-        console.log('No existing blob to delete:', key);
+
+        const currentResult = await this.load(itinerary.id);
+        if (!currentResult.success) {
+          return currentResult;
+        }
+        if (currentResult.value.version !== expectedVersion) {
+          return err(
+            createVersionConflictError(itinerary.id, expectedVersion, currentResult.value.version)
+          );
+        }
+
+        try {
+          await put(key, data, {
+            access: 'public',
+            contentType: 'application/json',
+            addRandomSuffix: false,
+            ifMatch: existing.etag,
+          });
+        } catch (error) {
+          if (!(error instanceof BlobPreconditionFailedError)) {
+            throw error;
+          }
+          const latest = await this.load(itinerary.id);
+          return err(
+            createVersionConflictError(
+              itinerary.id,
+              expectedVersion,
+              latest.success ? latest.value.version : expectedVersion + 1
+            )
+          );
+        }
+      } else {
+        // Delete existing blob if it exists (required for updates)
+        try {
+          const existing = await head(key);
+          if (existing) {
+            await del(existing.url);
+            console.log('Deleted existing blob for update:', key);
+          }
+        } catch (e) {
+          // Blob doesn't exist, that's fine for new creates
+          console.log('No existing blob to delete:', key);
+        }
+
+        // Upload to Vercel Blob
+        await put(key, data, {
+          access: 'public',
+          contentType: 'application/json',
+          addRandomSuffix: false,
+        });
       }
 
-      // Upload to Vercel Blob
-      await put(key, data, {
-        access: 'public',
-        contentType: 'application/json',
-        addRandomSuffix: false,
-      });
+      // Record the save in the revision log. The itinerary is already written,
+      // so a history failure is logged rather than failing the save.
+      try {
+        await this.appendRevision(updatedItinerary, revision);
+      } catch (error) {
+        console.error('Blob revision history write failed:', {
+          itineraryId: itinerary.id,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
 
       return ok(updatedItinerary);
     } catch (error) {
@@ -157,7 +352,7 @@ export class BlobItineraryStorage implements ItineraryStorage {
       const parsed = this.deserialize(json);
 
       // Validate with Zod schema
-      const result = itinerarySchema.safeParse(parsed);
+      const result = itinerarySchema.safeParse(upgradeStoredMoney(parsed));
 
       if (!result.success) {
         return err(
@@ -200,6 +395,12 @@ export class BlobItineraryStorage implements ItineraryStorage {
       // Delete the blob using its URL
       await del(blobInfo.url);
 
+      // Delete the revision history
+      const historyBlobs = await this.listAll(this.getHistoryPrefix(id));
+      if (historyBlobs.length > 0) {
+        await del(historyBlobs.map((blob) => blob.url));
+      }
+
       return ok(undefined);
     } catch (error) {
       // Handle "Blob not found" errors
@@ -216,52 +417,50 @@ export class BlobItineraryStorage implements ItineraryStorage {
   }
 
   /**
-   * List all itinerary summaries
-   * Returns summaries sorted by updatedAt descending
+   * Fetch and validate every itinerary blob
+   * Blobs that can't be fetched or fail validation are skipped
    */
-  async list(): Promise<Result<ItinerarySummary[], StorageError>> {
-    try {
-      // List all blobs with the itineraries prefix
-      const { blobs } = await list({ prefix: this.prefix });
+  private async readAll(): Promise<Itinerary[]> {
+    // List all blobs with the itineraries prefix
+    const { blobs } = await list({ prefix: this.prefix });
 
-      const summaries: ItinerarySummary[] = [];
+    const itineraries: Itinerary[] = [];
 
-      // Load each blob and extract summary
-      for (const blob of blobs) {
-        try {
-          // Fetch blob content
-          const response = await fetch(blob.url);
+    for (const blob of blobs) {
+      try {
+        // Fetch blob content
+        const response = await fetch(blob.url);
 
-          if (!response.ok) {
-            // Skip blobs that can't be fetched
-            continue;
-          }
+        if (!response.ok) {
+          // Skip blobs that can't be fetched
+          continue;
+        }
 
-          const json = await response.text();
-          const parsed = this.deserialize(json);
-
-          // Validate with schema
-          const result = itinerarySchema.safeParse(parsed);
-
-          if (result.success) {
-            // Safe cast: Zod brand is compatible with our brand
-            const itinerary = result.data as unknown as Itinerary;
-            summaries.push({
-              id: itinerary.id,
-              title: itinerary.title,
-              status: itinerary.status,
-              startDate: itinerary.startDate,
-              endDate: itinerary.endDate,
-              travelerCount: itinerary.travelers.length,
-              segmentCount: itinerary.segments.length,
-              updatedAt: itinerary.updatedAt,
-              createdBy: itinerary.createdBy,
-            });
-          }
-        } catch {
-          // Skip invalid blobs
+        const json = await response.text();
+        const parsed = this.deserialize(json);
+
+        // Validate with schema
+        const result = itinerarySchema.safeParse(upgradeStoredMoney(parsed));
+
+        if (result.success) {
+          // Safe cast: Zod brand is compatible with our brand
+          itineraries.push(result.data as unknown as Itinerary);
         }
+      } catch {
+        // Skip invalid blobs
       }
+    }
+
+    return itineraries;
+  }
+
+  /**
+   * List all itinerary summaries
+   * Returns summaries sorted by updatedAt descending
+   */
+  async list(): Promise<Result<ItinerarySummary[], StorageError>> {
+    try {
+      const summaries = (await this.readAll()).map(toItinerarySummary);
 
       // Sort by updatedAt descending
       summaries.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
@@ -276,9 +475,25 @@ export class BlobItineraryStorage implements ItineraryStorage {
     }
   }
 
+  /**
+   * Find itineraries matching a query
+   * Fetches every blob, like list()
+   */
+  async query(query: ItineraryQuery): Promise<Result<ItineraryQueryResult, StorageError>> {
+    try {
+      return ok(applyItineraryQuery(await this.readAll(), query));
+    } catch (error) {
+      return err(
+        createStorageError('READ_ERROR', 'Failed to query itineraries from Blob', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
   /**
    * List itineraries for a specific user
-   * Returns summaries filtered by createdBy, sorted by updatedAt descending
+   * Returns summaries the user created or collaborates on, sorted by updatedAt descending
    */
   async listByUser(userEmail: string): Promise<Result<ItinerarySummary[], StorageError>> {
     const listResult = await this.list();
@@ -288,9 +503,8 @@ export class BlobItineraryStorage implements ItineraryStorage {
     }
 
     // Filter by user email (case-insensitive)
-    const normalizedEmail = userEmail.toLowerCase().trim();
-    const userItineraries = listResult.value.filter(
-      (summary) => summary.createdBy?.toLowerCase().trim() === normalizedEmail
+    const userItineraries = listResult.value.filter((summary) =>
+      getItineraryRole(summary, userEmail)
     );
 
     return ok(userItineraries);
@@ -308,4 +522,119 @@ export class BlobItineraryStorage implements ItineraryStorage {
       return false;
     }
   }
+
+  /**
+   * List recorded revisions of an itinerary, oldest first
+   * Itineraries saved before revision tracking existed have an empty history
+   */
+  async listRevisions(id: ItineraryId): Promise<Result<ItineraryRevision[], StorageError>> {
+    try {
+      const revisions = await this.readRevisionEntries(id);
+
+      if (revisions.length === 0 && !(await this.exists(id))) {
+        return err(createStorageError('NOT_FOUND', `Itinerary ${id} not found in Blob`));
+      }
+
+      return ok(revisions);
+    } catch (error) {
+      return err(
+        createStorageError('READ_ERROR', `Failed to list revisions of itinerary ${id} from Blob`, {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * Load the itinerary as it was saved at a given revision
+   */
+  async loadRevision(id: ItineraryId, revision: number): Promise<Result<Itinerary, StorageError>> {
+    const notFound = createStorageError(
+      'NOT_FOUND',
+      `Revision ${revision} of itinerary ${id} not found in Blob`
+    );
+
+    if (!Number.isInteger(revision) || revision < 1) {
+      return err(notFound);
+    }
+
+    try {
+      const blobInfo = await head(`${this.getHistoryPrefix(id)}${revision}.json`);
+
+      if (!blobInfo) {
+        return err(notFound);
+      }
+
+      const parsed = this.deserialize(await this.fetchText(blobInfo.url));
+      const result = itinerarySchema.safeParse(upgradeStoredMoney(parsed));
+
+      if (!result.success) {
+        return err(
+          createStorageError('VALIDATION_ERROR', `Invalid data for revision ${revision} of ${id}`, {
+            errors: result.error.errors,
+          })
+        );
+      }
+
+      // Safe cast: Zod brand is compatible with our brand
+      return ok(result.data as unknown as Itinerary);
+    } catch (error) {
+      // Handle "Blob not found" errors
+      if (error instanceof Error && error.message.includes('not found')) {
+        return err(notFound);
+      }
+
+      return err(
+        createStorageError('READ_ERROR', `Failed to load revision ${revision} of ${id} from Blob`, {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * Write an itinerary and its revision history as given, replacing any stored copy
+   */
+  async importItinerary(
+    itinerary: Itinerary,
+    history: StoredRevision[]
+  ): Promise<Result<void, StorageError>> {
+    const historyPrefix = this.getHistoryPrefix(itinerary.id);
+
+    try {
+      const existingHistory = await this.listAll(historyPrefix);
+      if (existingHistory.length > 0) {
+        await del(existingHistory.map((blob) => blob.url));
+      }
+
+      for (const { entry, snapshot } of history) {
+        const data = this.serialize(toRevisionSnapshot(snapshot));
+        await put(`${historyPrefix}${entry.revision}.json`, data, {
+          access: 'public',
+          contentType: 'application/json',
+          addRandomSuffix: false,
+        });
+        await put(`${historyPrefix}${entry.revision}.meta.json`, JSON.stringify(entry), {
+          access: 'public',
+          contentType: 'application/json',
+          addRandomSuffix: false,
+        });
+      }
+
+      await put(this.getKey(itinerary.id), this.serialize(itinerary), {
+        access: 'public',
+        contentType: 'application/json',
+        addRandomSuffix: false,
+        allowOverwrite: true,
+      });
+
+      return ok(undefined);
+    } catch (error) {
+      return err(
+        createStorageError('WRITE_ERROR', `Failed to import itinerary ${itinerary.id} to Blob`, {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
 }
@@ -0,0 +1,178 @@
+/**
+ * Vercel Blob template storage
+ * @module storage/blob-template-storage
+ */
+
+import { del, head, list, put } from '@vercel/blob';
+import { createStorageError } from '../core/errors.js';
+import type { StorageError } from '../core/errors.js';
+import { err, ok } from '../core/result.js';
+import type { Result } from '../core/result.js';
+import type { TemplateId } from '../domain/types/branded.js';
+import type { ItineraryTemplate, TemplateSummary } from '../domain/types/template.js';
+import { deserializeTemplate, serializeTemplate, summarizeTemplates } from './template-storage.js';
+import type { TemplateStorage } from './template-storage.js';
+
+/**
+ * Vercel Blob storage for itinerary templates
+ */
+export class BlobTemplateStorage implements TemplateStorage {
+  private readonly prefix = 'templates/';
+
+  /**
+   * Creates a new Blob template storage instance
+   * Requires BLOB_READ_WRITE_TOKEN environment variable
+   */
+  constructor() {
+    if (!process.env.BLOB_READ_WRITE_TOKEN) {
+      throw new Error(
+        'BLOB_READ_WRITE_TOKEN environment variable is required for BlobTemplateStorage'
+      );
+    }
+  }
+
+  /**
+   * Get the blob key for a template
+   * @param id - The template ID
+   * @returns The blob key (e.g., "templates/{id}.json")
+   */
+  private getKey(id: TemplateId): string {
+    return `${this.prefix}${id}.json`;
+  }
+
+  /**
+   * Fetch the text content of a blob
+   * @param url - Blob URL
+   * @returns Blob content
+   */
+  private async fetchText(url: string): Promise<string> {
+    const response = await fetch(url, { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch blob (status ${response.status})`);
+    }
+    return response.text();
+  }
+
+  /**
+   * Save a template (create or replace)
+   */
+  async save(template: ItineraryTemplate): Promise<Result<void, StorageError>> {
+    try {
+      await put(this.getKey(template.id), serializeTemplate(template), {
+        access: 'public',
+        contentType: 'application/json',
+        addRandomSuffix: false,
+        allowOverwrite: true,
+      });
+      return ok(undefined);
+    } catch (error) {
+      return err(
+        createStorageError('WRITE_ERROR', `Failed to save template ${template.id} to Blob`, {
+          templateId: template.id,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * Load a template by ID
+   */
+  async load(id: TemplateId): Promise<Result<ItineraryTemplate, StorageError>> {
+    const notFound = createStorageError('NOT_FOUND', `Template ${id} not found in Blob`, {
+      templateId: id,
+    });
+
+    try {
+      const blobInfo = await head(this.getKey(id));
+      if (!blobInfo) {
+        return err(notFound);
+      }
+
+      return deserializeTemplate(await this.fetchText(blobInfo.url));
+    } catch (error) {
+      // Handle "Blob not found" errors
+      if (error instanceof Error && error.message.includes('not found')) {
+        return err(notFound);
+      }
+
+      return err(
+        createStorageError('READ_ERROR', `Failed to load template ${id} from Blob`, {
+          templateId: id,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * List template summaries, optionally only those saved by one user
+   */
+  async list(createdBy?: string): Promise<Result<TemplateSummary[], StorageError>> {
+    try {
+      return ok(summarizeTemplates(await this.readAll(), createdBy));
+    } catch (error) {
+      return err(
+        createStorageError('READ_ERROR', 'Failed to list templates from Blob', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * Delete a template
+   */
+  async delete(id: TemplateId): Promise<Result<void, StorageError>> {
+    const notFound = createStorageError('NOT_FOUND', `Template ${id} not found in Blob`, {
+      templateId: id,
+    });
+
+    try {
+      const blobInfo = await head(this.getKey(id));
+      if (!blobInfo) {
+        return err(notFound);
+      }
+
+      await del(blobInfo.url);
+      return ok(undefined);
+    } catch (error) {
+      // Handle "Blob not found" errors
+      if (error instanceof Error && error.message.includes('not found')) {
+        return err(notFound);
+      }
+
+      return err(
+        createStorageError('WRITE_ERROR', `Failed to delete template ${id} from Blob`, {
+          templateId: id,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * Read every stored template, skipping unreadable blobs
+   */
+  private async readAll(): Promise<ItineraryTemplate[]> {
+    const templates: ItineraryTemplate[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await list({ prefix: this.prefix, ...(cursor ? { cursor } : {}) });
+      for (const blob of page.blobs) {
+        try {
+          const result = deserializeTemplate(await this.fetchText(blob.url));
+          if (result.success) {
+            templates.push(result.value);
+          }
+        } catch {
+          // Skip blobs that can't be fetched
+        }
+      }
+      cursor = page.hasMore ? page.cursor : undefined;
+    } while (cursor);
+
+    return templates;
+  }
+}
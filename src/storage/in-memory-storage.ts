@@ -3,13 +3,24 @@
  * @module storage/in-memory-storage
  */
 
-import { createStorageError } from '../core/errors.js';
+import { createStorageError, createVersionConflictError } from '../core/errors.js';
 import type { StorageError } from '../core/errors.js';
 import { ok, err } from '../core/result.js';
 import type { Result } from '../core/result.js';
 import type { ItineraryId } from '../domain/types/branded.js';
 import type { Itinerary } from '../domain/types/itinerary.js';
-import type { ItineraryStorage, ItinerarySummary } from './storage.interface.js';
+import { getItineraryRole } from '../domain/utils/collaborators.js';
+import { applyItineraryQuery, toItinerarySummary } from './itinerary-query.js';
+import { createRevisionEntry, toRevisionSnapshot } from './revisions.js';
+import type {
+  ItineraryQuery,
+  ItineraryQueryResult,
+  ItineraryRevision,
+  ItineraryStorage,
+  ItinerarySummary,
+  RevisionContext,
+  StoredRevision,
+} from './storage.interface.js';
 
 /**
  * In-memory implementation of ItineraryStorage
@@ -17,6 +28,7 @@ import type { ItineraryStorage, ItinerarySummary } from './storage.interface.js'
  */
 export class InMemoryItineraryStorage implements ItineraryStorage {
   private itineraries: Map<ItineraryId, Itinerary> = new Map();
+  private revisions: Map<ItineraryId, StoredRevision[]> = new Map();
 
   /**
    * Initialize storage (no-op for in-memory)
@@ -28,7 +40,22 @@ export class InMemoryItineraryStorage implements ItineraryStorage {
   /**
    * Save an itinerary to memory
    */
-  async save(itinerary: Itinerary): Promise<Result<Itinerary, StorageError>> {
+  async save(
+    itinerary: Itinerary,
+    revision?: RevisionContext,
+    expectedVersion?: number
+  ): Promise<Result<Itinerary, StorageError>> {
+    // Compare-and-swap; nothing is awaited before the write, so the check is atomic
+    if (expectedVersion !== undefined) {
+      const current = this.itineraries.get(itinerary.id);
+      if (!current) {
+        return err(createStorageError('NOT_FOUND', `Itinerary not found: ${itinerary.id}`));
+      }
+      if (current.version !== expectedVersion) {
+        return err(createVersionConflictError(itinerary.id, expectedVersion, current.version));
+      }
+    }
+
     try {
       // Update timestamps
       const now = new Date();
@@ -38,6 +65,15 @@ export class InMemoryItineraryStorage implements ItineraryStorage {
       };
 
       this.itineraries.set(itinerary.id, savedItinerary);
+
+      // Record a snapshot so earlier states can be diffed and restored
+      const log = this.revisions.get(itinerary.id) ?? [];
+      log.push({
+        entry: createRevisionEntry(savedItinerary, log.length + 1, revision),
+        snapshot: structuredClone(toRevisionSnapshot(savedItinerary)),
+      });
+      this.revisions.set(itinerary.id, log);
+
       return ok(savedItinerary);
     } catch (error) {
       return err(
@@ -66,6 +102,7 @@ export class InMemoryItineraryStorage implements ItineraryStorage {
    */
   async delete(id: ItineraryId): Promise<Result<void, StorageError>> {
     const existed = this.itineraries.delete(id);
+    this.revisions.delete(id);
 
     if (!existed) {
       return err(createStorageError('NOT_FOUND', `Itinerary not found: ${id}`));
@@ -80,16 +117,7 @@ export class InMemoryItineraryStorage implements ItineraryStorage {
   async list(): Promise<Result<ItinerarySummary[], StorageError>> {
     try {
       const summaries: ItinerarySummary[] = Array.from(this.itineraries.values()).map(
-        (itinerary) => ({
-          id: itinerary.id,
-          title: itinerary.title,
-          status: itinerary.status,
-          startDate: itinerary.startDate,
-          endDate: itinerary.endDate,
-          travelerCount: itinerary.travelerCount,
-          segmentCount: itinerary.segments.length,
-          updatedAt: itinerary.updatedAt,
-        })
+        toItinerarySummary
       );
 
       // Sort by updated date (most recent first)
@@ -105,6 +133,25 @@ export class InMemoryItineraryStorage implements ItineraryStorage {
     }
   }
 
+  /**
+   * Find itineraries matching a query
+   */
+  async query(query: ItineraryQuery): Promise<Result<ItineraryQueryResult, StorageError>> {
+    return ok(applyItineraryQuery(Array.from(this.itineraries.values()), query));
+  }
+
+  /**
+   * List itineraries created by or shared with a user (email match is case-insensitive)
+   */
+  async listByUser(userEmail: string): Promise<Result<ItinerarySummary[], StorageError>> {
+    const listResult = await this.list();
+    if (!listResult.success) {
+      return listResult;
+    }
+
+    return ok(listResult.value.filter((summary) => getItineraryRole(summary, userEmail)));
+  }
+
   /**
    * Check if an itinerary exists
    */
@@ -112,11 +159,58 @@ export class InMemoryItineraryStorage implements ItineraryStorage {
     return this.itineraries.has(id);
   }
 
+  /**
+   * List recorded revisions of an itinerary, oldest first
+   */
+  async listRevisions(id: ItineraryId): Promise<Result<ItineraryRevision[], StorageError>> {
+    const log = this.revisions.get(id);
+
+    if (!log) {
+      return err(createStorageError('NOT_FOUND', `Itinerary not found: ${id}`));
+    }
+
+    return ok(log.map((stored) => stored.entry));
+  }
+
+  /**
+   * Load the itinerary as it was saved at a given revision
+   */
+  async loadRevision(id: ItineraryId, revision: number): Promise<Result<Itinerary, StorageError>> {
+    const stored = this.revisions.get(id)?.[revision - 1];
+
+    if (!stored) {
+      return err(
+        createStorageError('NOT_FOUND', `Revision ${revision} of itinerary ${id} not found`)
+      );
+    }
+
+    return ok(structuredClone(stored.snapshot));
+  }
+
+  /**
+   * Write an itinerary and its revision history as given
+   */
+  async importItinerary(
+    itinerary: Itinerary,
+    history: StoredRevision[]
+  ): Promise<Result<void, StorageError>> {
+    this.itineraries.set(itinerary.id, itinerary);
+    this.revisions.set(
+      itinerary.id,
+      history.map((stored) => ({
+        entry: { ...stored.entry },
+        snapshot: structuredClone(toRevisionSnapshot(stored.snapshot)),
+      }))
+    );
+    return ok(undefined);
+  }
+
   /**
    * Clear all itineraries (useful for test cleanup)
    */
   clear(): void {
     this.itineraries.clear();
+    this.revisions.clear();
   }
 
   /**
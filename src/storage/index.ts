@@ -6,23 +6,101 @@
 export * from './storage.interface.js';
 export { JsonItineraryStorage } from './json-storage.js';
 export { BlobItineraryStorage } from './blob-storage.js';
+export { SqliteItineraryStorage } from './sqlite-storage.js';
+export {
+  applyItineraryQuery,
+  matchesItineraryQuery,
+  toItinerarySummary,
+} from './itinerary-query.js';
+export {
+  InMemoryTemplateStorage,
+  deserializeTemplate,
+  serializeTemplate,
+  type TemplateStorage,
+} from './template-storage.js';
+export { JsonTemplateStorage } from './json-template-storage.js';
+export { BlobTemplateStorage } from './blob-template-storage.js';
 export { ConfigStorage, type AppConfig } from './config-storage.js';
 export type { VectorStorage } from './vector-storage.interface.js';
 
 import type { ItineraryStorage } from './storage.interface.js';
+import type { TemplateStorage } from './template-storage.js';
 import { BlobItineraryStorage } from './blob-storage.js';
+import { BlobTemplateStorage } from './blob-template-storage.js';
 import { JsonItineraryStorage } from './json-storage.js';
+import { JsonTemplateStorage } from './json-template-storage.js';
+import { SqliteItineraryStorage } from './sqlite-storage.js';
+
+/**
+ * Itinerary storage backend type
+ */
+export type ItineraryStorageBackend = 'json' | 'sqlite' | 'blob';
+
+/** All itinerary storage backends */
+export const ITINERARY_STORAGE_BACKENDS: readonly ItineraryStorageBackend[] = [
+  'json',
+  'sqlite',
+  'blob',
+];
+
+/**
+ * Locations for the filesystem backends
+ */
+export interface StorageLocations {
+  /** Directory for JSON storage (default: ./data/itineraries) */
+  jsonPath?: string;
+  /** Database file for SQLite storage (default: ./data/itineraries.db) */
+  sqlitePath?: string;
+}
+
+/**
+ * Creates a specific storage backend
+ * @param backend - Backend to create
+ * @param locations - Locations for the filesystem backends
+ * @returns Storage instance
+ */
+export function createStorageBackend(
+  backend: ItineraryStorageBackend,
+  locations: StorageLocations = {}
+): ItineraryStorage {
+  switch (backend) {
+    case 'blob':
+      return new BlobItineraryStorage();
+    case 'sqlite':
+      return new SqliteItineraryStorage(locations.sqlitePath);
+    case 'json':
+      return new JsonItineraryStorage(locations.jsonPath);
+  }
+}
 
 /**
  * Creates the appropriate storage backend based on environment
+ * - Uses SQLite if ITINERARY_STORAGE_BACKEND='sqlite' (database file next to basePath)
  * - Uses Vercel Blob if BLOB_READ_WRITE_TOKEN is set
  * - Falls back to filesystem JSON storage otherwise
  * @param basePath - Base directory for filesystem storage (default: ./data/itineraries)
  * @returns Storage instance
  */
 export function createItineraryStorage(basePath?: string): ItineraryStorage {
+  if (process.env.ITINERARY_STORAGE_BACKEND === 'sqlite') {
+    return new SqliteItineraryStorage(basePath ? `${basePath}.db` : undefined);
+  }
   if (process.env.BLOB_READ_WRITE_TOKEN) {
     return new BlobItineraryStorage();
   }
   return new JsonItineraryStorage(basePath);
 }
+
+/**
+ * Creates the template storage backend based on environment
+ * - Uses Vercel Blob if BLOB_READ_WRITE_TOKEN is set
+ * - Falls back to filesystem JSON storage otherwise
+ * @param basePath - Directory for filesystem storage (default: ./data/templates)
+ * @returns Template storage instance
+ */
+export function createTemplateStorage(basePath?: string): TemplateStorage {
+  if (process.env.BLOB_READ_WRITE_TOKEN) {
+    return new BlobTemplateStorage();
+  }
+  return new JsonTemplateStorage(basePath);
+}
@@ -0,0 +1,206 @@
+/**
+ * Itinerary query evaluation shared by storage implementations
+ * Backends without indexes load full itineraries and filter them here.
+ * @module storage/itinerary-query
+ */
+
+import type { Itinerary } from '../domain/types/itinerary.js';
+import { getItineraryRole } from '../domain/utils/collaborators.js';
+import type {
+  ItineraryQuery,
+  ItineraryQueryResult,
+  ItinerarySortField,
+  ItinerarySummary,
+} from './storage.interface.js';
+
+/**
+ * Build the list-view summary of an itinerary
+ * @param itinerary - Full itinerary
+ * @returns Summary without segments
+ */
+export function toItinerarySummary(itinerary: Itinerary): ItinerarySummary {
+  return {
+    id: itinerary.id,
+    title: itinerary.title,
+    status: itinerary.status,
+    ...(itinerary.startDate ? { startDate: itinerary.startDate } : {}),
+    ...(itinerary.endDate ? { endDate: itinerary.endDate } : {}),
+    travelerCount: itinerary.travelers.length,
+    segmentCount: itinerary.segments.length,
+    updatedAt: itinerary.updatedAt,
+    ...(itinerary.createdBy ? { createdBy: itinerary.createdBy } : {}),
+    ...(itinerary.collaborators?.length
+      ? {
+          collaborators: itinerary.collaborators.map(({ email, role }) => ({ email, role })),
+        }
+      : {}),
+  };
+}
+
+/**
+ * Check whether an itinerary's dates overlap the query's date range
+ * A trip with only one date is treated as a single day
+ */
+function overlapsDateRange(itinerary: Itinerary, query: ItineraryQuery): boolean {
+  if (!query.from && !query.to) {
+    return true;
+  }
+
+  const start = itinerary.startDate ?? itinerary.endDate;
+  const end = itinerary.endDate ?? itinerary.startDate;
+  if (!start || !end) {
+    return false;
+  }
+
+  return (
+    (!query.from || end.getTime() >= query.from.getTime()) &&
+    (!query.to || start.getTime() <= query.to.getTime())
+  );
+}
+
+/**
+ * Check whether any destination matches by name (partial), city, country or IATA code
+ */
+function matchesDestination(itinerary: Itinerary, destination: string): boolean {
+  const term = destination.trim().toLowerCase();
+
+  return itinerary.destinations.some(
+    (location) =>
+      location.name.toLowerCase().includes(term) ||
+      location.code?.toLowerCase() === term ||
+      location.address?.city?.toLowerCase() === term ||
+      location.address?.country.toLowerCase() === term
+  );
+}
+
+/**
+ * Check whether any traveler matches by first/last name or email (partial)
+ */
+function matchesTraveler(itinerary: Itinerary, traveler: string): boolean {
+  const term = traveler.trim().toLowerCase();
+
+  return itinerary.travelers.some((t) =>
+    [t.firstName, t.lastName, `${t.firstName} ${t.lastName}`, t.email ?? ''].some((value) =>
+      value.toLowerCase().includes(term)
+    )
+  );
+}
+
+/**
+ * Check whether an itinerary matches every filter of a query
+ * @param itinerary - Itinerary to test
+ * @param query - Query filters (sorting and paging are ignored)
+ * @returns True if the itinerary matches
+ */
+export function matchesItineraryQuery(itinerary: Itinerary, query: ItineraryQuery): boolean {
+  if (
+    query.createdBy !== undefined &&
+    itinerary.createdBy?.toLowerCase().trim() !== query.createdBy.toLowerCase().trim()
+  ) {
+    return false;
+  }
+
+  if (query.accessibleBy !== undefined && !getItineraryRole(itinerary, query.accessibleBy)) {
+    return false;
+  }
+
+  if (query.status?.length && !query.status.includes(itinerary.status)) {
+    return false;
+  }
+
+  if (query.tripType && itinerary.tripType !== query.tripType) {
+    return false;
+  }
+
+  if (!overlapsDateRange(itinerary, query)) {
+    return false;
+  }
+
+  if (query.destination && !matchesDestination(itinerary, query.destination)) {
+    return false;
+  }
+
+  if (query.traveler && !matchesTraveler(itinerary, query.traveler)) {
+    return false;
+  }
+
+  if (query.tags?.length) {
+    const tags = new Set(itinerary.tags.map((tag) => tag.toLowerCase()));
+    if (!query.tags.every((tag) => tags.has(tag.toLowerCase()))) {
+      return false;
+    }
+  }
+
+  if (query.segmentType || query.segmentStatus?.length) {
+    const hasSegment = itinerary.segments.some(
+      (segment) =>
+        (!query.segmentType || segment.type === query.segmentType) &&
+        (!query.segmentStatus?.length || query.segmentStatus.includes(segment.status))
+    );
+    if (!hasSegment) {
+      return false;
+    }
+  }
+
+  if (query.text && !itinerary.title.toLowerCase().includes(query.text.trim().toLowerCase())) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Default sort direction for a field: newest first for dates, A-Z for titles
+ */
+export function defaultSortOrder(sortBy: ItinerarySortField): 'asc' | 'desc' {
+  return sortBy === 'title' ? 'asc' : 'desc';
+}
+
+/**
+ * Compare two itineraries by a sort field
+ * Itineraries without a start date sort last in either direction
+ */
+function compareItineraries(
+  a: Itinerary,
+  b: Itinerary,
+  sortBy: ItinerarySortField,
+  direction: number
+): number {
+  switch (sortBy) {
+    case 'title':
+      return direction * a.title.localeCompare(b.title);
+    case 'createdAt':
+      return direction * (a.createdAt.getTime() - b.createdAt.getTime());
+    case 'startDate':
+      if (!a.startDate || !b.startDate) {
+        return (a.startDate ? 0 : 1) - (b.startDate ? 0 : 1);
+      }
+      return direction * (a.startDate.getTime() - b.startDate.getTime());
+    case 'updatedAt':
+      return direction * (a.updatedAt.getTime() - b.updatedAt.getTime());
+  }
+}
+
+/**
+ * Filter, sort and paginate itineraries in memory
+ * @param itineraries - All candidate itineraries
+ * @param query - Query to apply
+ * @returns Page of matching summaries with the total match count
+ */
+export function applyItineraryQuery(
+  itineraries: Itinerary[],
+  query: ItineraryQuery
+): ItineraryQueryResult {
+  const sortBy = query.sortBy ?? 'updatedAt';
+  const direction = (query.sortOrder ?? defaultSortOrder(sortBy)) === 'asc' ? 1 : -1;
+
+  const matches = itineraries
+    .filter((itinerary) => matchesItineraryQuery(itinerary, query))
+    .sort((a, b) => compareItineraries(a, b, sortBy, direction));
+
+  const offset = query.offset ?? 0;
+  const page =
+    query.limit === undefined ? matches.slice(offset) : matches.slice(offset, offset + query.limit);
+
+  return { items: page.map(toItinerarySummary), total: matches.length };
+}
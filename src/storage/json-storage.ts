@@ -3,16 +3,39 @@
  * @module storage/json-storage
  */
 
-import { access, mkdir, readFile, readdir, rename, unlink, writeFile } from 'node:fs/promises';
+import { randomUUID } from 'node:crypto';
+import {
+  access,
+  appendFile,
+  mkdir,
+  readFile,
+  readdir,
+  rename,
+  rm,
+  unlink,
+  writeFile,
+} from 'node:fs/promises';
 import { dirname, join } from 'node:path';
-import { createStorageError } from '../core/errors.js';
+import { createStorageError, createVersionConflictError } from '../core/errors.js';
 import type { StorageError } from '../core/errors.js';
 import { err, ok } from '../core/result.js';
 import type { Result } from '../core/result.js';
 import { itinerarySchema } from '../domain/schemas/itinerary.schema.js';
 import type { ItineraryId } from '../domain/types/branded.js';
 import type { Itinerary } from '../domain/types/itinerary.js';
-import type { ItineraryStorage, ItinerarySummary } from './storage.interface.js';
+import { getItineraryRole } from '../domain/utils/collaborators.js';
+import { applyItineraryQuery, toItinerarySummary } from './itinerary-query.js';
+import { upgradeStoredMoney, withMoneyUnits } from './money-units.js';
+import { createRevisionEntry, toRevisionSnapshot } from './revisions.js';
+import type {
+  ItineraryQuery,
+  ItineraryQueryResult,
+  ItineraryRevision,
+  ItineraryStorage,
+  ItinerarySummary,
+  RevisionContext,
+  StoredRevision,
+} from './storage.interface.js';
 
 /**
  * JSON file-based storage for itineraries
@@ -31,28 +54,35 @@ export class JsonItineraryStorage implements ItineraryStorage {
 
   /**
    * Acquire a write lock for an itinerary
-   * Ensures writes are serialized to prevent file corruption
+   * Each lock is chained onto the previous one, so waiters run one at a time
    */
   private async acquireLock(id: ItineraryId): Promise<() => void> {
-    // Wait for any existing lock on this ID
-    const existingLock = this.writeLocks.get(id);
-    if (existingLock) {
-      await existingLock;
-    }
+    const previousLock = this.writeLocks.get(id) ?? Promise.resolve();
 
-    // Create a new lock with a resolver
-    let releaseLock: () => void;
+    let releaseLock!: () => void;
     const lockPromise = new Promise<void>((resolve) => {
       releaseLock = resolve;
     });
-    this.writeLocks.set(id, lockPromise);
+    const tail = previousLock.then(() => lockPromise);
+    this.writeLocks.set(id, tail);
+
+    await previousLock;
 
     return () => {
-      this.writeLocks.delete(id);
-      releaseLock!();
+      if (this.writeLocks.get(id) === tail) {
+        this.writeLocks.delete(id);
+      }
+      releaseLock();
     };
   }
 
+  /**
+   * Build a temp file path unique to one write
+   */
+  private getTempPath(filePath: string): string {
+    return `${filePath}.${randomUUID()}.tmp`;
+  }
+
   /**
    * Get the file path for an itinerary
    * @param id - The itinerary ID
@@ -62,6 +92,35 @@ export class JsonItineraryStorage implements ItineraryStorage {
     return join(this.basePath, `${id}.json`);
   }
 
+  /**
+   * Get the revision history directory for an itinerary
+   * Holds one snapshot file per revision plus an append-only index
+   * @param id - The itinerary ID
+   * @returns The history directory path
+   */
+  private getHistoryDir(id: ItineraryId): string {
+    return join(this.basePath, '.history', id);
+  }
+
+  /**
+   * Read the revision index for an itinerary
+   * @param id - The itinerary ID
+   * @returns Revision entries, oldest first (empty if no history exists)
+   */
+  private async readRevisionIndex(id: ItineraryId): Promise<ItineraryRevision[]> {
+    let data: string;
+    try {
+      data = await readFile(join(this.getHistoryDir(id), 'index.jsonl'), 'utf-8');
+    } catch {
+      return [];
+    }
+
+    return data
+      .split('\n')
+      .filter((line) => line.trim().length > 0)
+      .map((line) => this.deserialize(line) as ItineraryRevision);
+  }
+
   /** Regex to detect ISO 8601 date strings */
   private static readonly ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z$/;
 
@@ -71,7 +130,7 @@ export class JsonItineraryStorage implements ItineraryStorage {
    * @returns JSON string
    */
   private serialize(itinerary: Itinerary): string {
-    return JSON.stringify(itinerary, null, 2);
+    return JSON.stringify(withMoneyUnits(itinerary), null, 2);
   }
 
   /**
@@ -107,16 +166,53 @@ export class JsonItineraryStorage implements ItineraryStorage {
     }
   }
 
+  /**
+   * Append a revision to an itinerary's history
+   * Called under the itinerary's write lock, so revision numbers can't collide
+   * @param itinerary - The itinerary as saved
+   * @param revision - Who made the change, and why
+   */
+  private async appendRevision(itinerary: Itinerary, revision?: RevisionContext): Promise<void> {
+    const revisions = await this.readRevisionIndex(itinerary.id);
+    const entry = createRevisionEntry(itinerary, (revisions.at(-1)?.revision ?? 0) + 1, revision);
+    const historyDir = this.getHistoryDir(itinerary.id);
+    await mkdir(historyDir, { recursive: true });
+    await writeFile(
+      join(historyDir, `${entry.revision}.json`),
+      this.serialize(toRevisionSnapshot(itinerary)),
+      'utf-8'
+    );
+    await appendFile(join(historyDir, 'index.jsonl'), `${JSON.stringify(entry)}\n`, 'utf-8');
+  }
+
   /**
    * Save an itinerary (create or update)
-   * Uses atomic write (write to .tmp file, then rename)
+   * Uses atomic write (write to a per-write .tmp file, then rename)
    * Protected by per-itinerary lock to prevent concurrent write corruption
    */
-  async save(itinerary: Itinerary): Promise<Result<Itinerary, StorageError>> {
+  async save(
+    itinerary: Itinerary,
+    revision?: RevisionContext,
+    expectedVersion?: number
+  ): Promise<Result<Itinerary, StorageError>> {
     // Acquire lock to prevent concurrent writes to the same file
     const releaseLock = await this.acquireLock(itinerary.id);
 
     try {
+      // Compare-and-swap: saves hold the lock one at a time, so the stored version
+      // can't change between this check and the write
+      if (expectedVersion !== undefined) {
+        const currentResult = await this.load(itinerary.id);
+        if (!currentResult.success) {
+          return currentResult;
+        }
+        if (currentResult.value.version !== expectedVersion) {
+          return err(
+            createVersionConflictError(itinerary.id, expectedVersion, currentResult.value.version)
+          );
+        }
+      }
+
       // Ensure directory exists
       await mkdir(dirname(this.getPath(itinerary.id)), { recursive: true });
 
@@ -128,7 +224,7 @@ export class JsonItineraryStorage implements ItineraryStorage {
 
       // Atomic write: write to temp file, then rename
       const filePath = this.getPath(itinerary.id);
-      const tempPath = `${filePath}.tmp`;
+      const tempPath = this.getTempPath(filePath);
 
       const data = this.serialize(updatedItinerary);
       await writeFile(tempPath, data, 'utf-8');
@@ -136,6 +232,17 @@ export class JsonItineraryStorage implements ItineraryStorage {
       // Atomic rename
       await rename(tempPath, filePath);
 
+      // Record the save in the revision log. The itinerary is already written,
+      // so a history failure is logged rather than failing the save.
+      try {
+        await this.appendRevision(updatedItinerary, revision);
+      } catch (error) {
+        console.error('Revision history write failed:', {
+          itineraryId: itinerary.id,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+
       return ok(updatedItinerary);
     } catch (error) {
       return err(
@@ -168,10 +275,14 @@ export class JsonItineraryStorage implements ItineraryStorage {
       const parsed = this.deserialize(data);
 
       // Validate with Zod schema
-      const result = itinerarySchema.safeParse(parsed);
+      const result = itinerarySchema.safeParse(upgradeStoredMoney(parsed));
 
       if (!result.success) {
-        console.error('[json-storage] Validation failed for', id, JSON.stringify(result.error.errors, null, 2));
+        console.error(
+          '[json-storage] Validation failed for',
+          id,
+          JSON.stringify(result.error.errors, null, 2)
+        );
         return err(
           createStorageError('VALIDATION_ERROR', `Invalid itinerary data for ${id}`, {
             errors: result.error.errors,
@@ -205,6 +316,7 @@ export class JsonItineraryStorage implements ItineraryStorage {
 
     try {
       await unlink(filePath);
+      await rm(this.getHistoryDir(id), { recursive: true, force: true });
       return ok(undefined);
     } catch (error) {
       return err(
@@ -215,54 +327,52 @@ export class JsonItineraryStorage implements ItineraryStorage {
     }
   }
 
+  /**
+   * Read and validate every itinerary file
+   * Invalid or unreadable files are skipped
+   */
+  private async readAll(): Promise<Itinerary[]> {
+    // Ensure directory exists
+    await mkdir(this.basePath, { recursive: true });
+
+    // Read directory
+    const files = await readdir(this.basePath);
+    const jsonFiles = files.filter((f) => f.endsWith('.json'));
+
+    const itineraries: Itinerary[] = [];
+
+    for (const file of jsonFiles) {
+      const filePath = join(this.basePath, file);
+
+      try {
+        const data = await readFile(filePath, 'utf-8');
+        const parsed = this.deserialize(data);
+
+        // Validate with schema
+        const result = itinerarySchema.safeParse(upgradeStoredMoney(parsed));
+
+        if (result.success) {
+          // Safe cast: Zod brand is compatible with our brand
+          itineraries.push(result.data as unknown as Itinerary);
+        } else {
+          // Log validation errors to help identify data issues
+          console.warn(`Skipping invalid itinerary file: ${file}`, result.error.errors);
+        }
+      } catch (error) {
+        // Skip invalid files silently (likely corrupted or incomplete)
+      }
+    }
+
+    return itineraries;
+  }
+
   /**
    * List all itinerary summaries
    * Returns summaries sorted by updatedAt descending
    */
   async list(): Promise<Result<ItinerarySummary[], StorageError>> {
     try {
-      // Ensure directory exists
-      await mkdir(this.basePath, { recursive: true });
-
-      // Read directory
-      const files = await readdir(this.basePath);
-      const jsonFiles = files.filter((f) => f.endsWith('.json'));
-
-      // Load each file and extract summary
-      const summaries: ItinerarySummary[] = [];
-
-      for (const file of jsonFiles) {
-        const filePath = join(this.basePath, file);
-
-        try {
-          const data = await readFile(filePath, 'utf-8');
-          const parsed = this.deserialize(data);
-
-          // Validate with schema
-          const result = itinerarySchema.safeParse(parsed);
-
-          if (result.success) {
-            // Safe cast: Zod brand is compatible with our brand
-            const itinerary = result.data as unknown as Itinerary;
-            summaries.push({
-              id: itinerary.id,
-              title: itinerary.title,
-              status: itinerary.status,
-              startDate: itinerary.startDate,
-              endDate: itinerary.endDate,
-              travelerCount: itinerary.travelers.length,
-              segmentCount: itinerary.segments.length,
-              updatedAt: itinerary.updatedAt,
-              createdBy: itinerary.createdBy,
-            });
-          } else {
-            // Log validation errors to help identify data issues
-            console.warn(`Skipping invalid itinerary file: ${file}`, result.error.errors);
-          }
-        } catch (error) {
-          // Skip invalid files silently (likely corrupted or incomplete)
-        }
-      }
+      const summaries = (await this.readAll()).map(toItinerarySummary);
 
       // Sort by updatedAt descending
       summaries.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
@@ -277,9 +387,25 @@ export class JsonItineraryStorage implements ItineraryStorage {
     }
   }
 
+  /**
+   * Find itineraries matching a query
+   * Reads every file, like list()
+   */
+  async query(query: ItineraryQuery): Promise<Result<ItineraryQueryResult, StorageError>> {
+    try {
+      return ok(applyItineraryQuery(await this.readAll(), query));
+    } catch (error) {
+      return err(
+        createStorageError('READ_ERROR', 'Failed to query itineraries', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
   /**
    * List itineraries for a specific user
-   * Returns summaries filtered by createdBy, sorted by updatedAt descending
+   * Returns summaries the user created or collaborates on, sorted by updatedAt descending
    */
   async listByUser(userEmail: string): Promise<Result<ItinerarySummary[], StorageError>> {
     console.log('[listByUser] filtering for:', userEmail);
@@ -292,12 +418,9 @@ export class JsonItineraryStorage implements ItineraryStorage {
     console.log('[listByUser] total itineraries:', listResult.value.length);
 
     // Filter by user email (case-insensitive)
-    const normalizedEmail = userEmail.toLowerCase().trim();
-    const userItineraries = listResult.value.filter((summary) => {
-      const summaryEmail = summary.createdBy?.toLowerCase().trim();
-      console.log('[listByUser] comparing:', { summaryEmail, normalizedEmail, match: summaryEmail === normalizedEmail });
-      return summaryEmail === normalizedEmail;
-    });
+    const userItineraries = listResult.value.filter((summary) =>
+      getItineraryRole(summary, userEmail)
+    );
 
     console.log('[listByUser] found:', userItineraries.length, 'itineraries for user');
     return ok(userItineraries);
@@ -314,4 +437,106 @@ export class JsonItineraryStorage implements ItineraryStorage {
       return false;
     }
   }
+
+  /**
+   * List recorded revisions of an itinerary, oldest first
+   * Itineraries saved before revision tracking existed have an empty history
+   */
+  async listRevisions(id: ItineraryId): Promise<Result<ItineraryRevision[], StorageError>> {
+    const revisions = await this.readRevisionIndex(id);
+
+    if (revisions.length === 0 && !(await this.exists(id))) {
+      return err(createStorageError('NOT_FOUND', `Itinerary ${id} not found`));
+    }
+
+    return ok(revisions);
+  }
+
+  /**
+   * Load the itinerary as it was saved at a given revision
+   */
+  async loadRevision(id: ItineraryId, revision: number): Promise<Result<Itinerary, StorageError>> {
+    if (!Number.isInteger(revision) || revision < 1) {
+      return err(
+        createStorageError('NOT_FOUND', `Revision ${revision} of itinerary ${id} not found`)
+      );
+    }
+
+    let data: string;
+    try {
+      data = await readFile(join(this.getHistoryDir(id), `${revision}.json`), 'utf-8');
+    } catch {
+      return err(
+        createStorageError('NOT_FOUND', `Revision ${revision} of itinerary ${id} not found`)
+      );
+    }
+
+    try {
+      const result = itinerarySchema.safeParse(upgradeStoredMoney(this.deserialize(data)));
+
+      if (!result.success) {
+        return err(
+          createStorageError('VALIDATION_ERROR', `Invalid data for revision ${revision} of ${id}`, {
+            errors: result.error.errors,
+          })
+        );
+      }
+
+      // Safe cast: Zod brand is compatible with our brand
+      return ok(result.data as unknown as Itinerary);
+    } catch (error) {
+      return err(
+        createStorageError('READ_ERROR', `Failed to load revision ${revision} of ${id}`, {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * Write an itinerary and its revision history as given, replacing any stored copy
+   */
+  async importItinerary(
+    itinerary: Itinerary,
+    history: StoredRevision[]
+  ): Promise<Result<void, StorageError>> {
+    const releaseLock = await this.acquireLock(itinerary.id);
+
+    try {
+      const historyDir = this.getHistoryDir(itinerary.id);
+      await rm(historyDir, { recursive: true, force: true });
+
+      if (history.length > 0) {
+        await mkdir(historyDir, { recursive: true });
+        for (const { entry, snapshot } of history) {
+          await writeFile(
+            join(historyDir, `${entry.revision}.json`),
+            this.serialize(toRevisionSnapshot(snapshot)),
+            'utf-8'
+          );
+        }
+        await writeFile(
+          join(historyDir, 'index.jsonl'),
+          history.map(({ entry }) => `${JSON.stringify(entry)}\n`).join(''),
+          'utf-8'
+        );
+      }
+
+      const filePath = this.getPath(itinerary.id);
+      await mkdir(dirname(filePath), { recursive: true });
+      const tempPath = this.getTempPath(filePath);
+      await writeFile(tempPath, this.serialize(itinerary), 'utf-8');
+      await rename(tempPath, filePath);
+
+      return ok(undefined);
+    } catch (error) {
+      return err(
+        createStorageError('WRITE_ERROR', `Failed to import itinerary ${itinerary.id}`, {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    } finally {
+      releaseLock();
+    }
+  }
 }
@@ -0,0 +1,158 @@
+/**
+ * JSON file-based template storage
+ * @module storage/json-template-storage
+ */
+
+import { access, mkdir, readFile, readdir, rename, unlink, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { createStorageError } from '../core/errors.js';
+import type { StorageError } from '../core/errors.js';
+import { isValidUUID } from '../core/id-generator.js';
+import { err, ok } from '../core/result.js';
+import type { Result } from '../core/result.js';
+import type { TemplateId } from '../domain/types/branded.js';
+import type { ItineraryTemplate, TemplateSummary } from '../domain/types/template.js';
+import { deserializeTemplate, serializeTemplate, summarizeTemplates } from './template-storage.js';
+import type { TemplateStorage } from './template-storage.js';
+
+/**
+ * JSON file-based storage for itinerary templates
+ * One file per template
+ */
+export class JsonTemplateStorage implements TemplateStorage {
+  /**
+   * Creates a new JSON template storage instance
+   * @param basePath - Directory for template files (default: ./data/templates)
+   */
+  constructor(private readonly basePath: string = './data/templates') {}
+
+  /**
+   * Get the file path for a template
+   * @param id - The template ID
+   * @returns The full file path, or null if the ID is not a UUID
+   */
+  private getPath(id: TemplateId): string | null {
+    return isValidUUID(id) ? join(this.basePath, `${id}.json`) : null;
+  }
+
+  /**
+   * Save a template (create or replace)
+   * Uses atomic write (write to .tmp file, then rename)
+   */
+  async save(template: ItineraryTemplate): Promise<Result<void, StorageError>> {
+    const filePath = this.getPath(template.id);
+    if (!filePath) {
+      return err(
+        createStorageError('VALIDATION_ERROR', `Invalid template ID: ${template.id}`, {
+          templateId: template.id,
+        })
+      );
+    }
+
+    try {
+      await mkdir(this.basePath, { recursive: true });
+
+      const tempPath = `${filePath}.tmp`;
+      await writeFile(tempPath, serializeTemplate(template), 'utf-8');
+      await rename(tempPath, filePath);
+
+      return ok(undefined);
+    } catch (error) {
+      return err(
+        createStorageError('WRITE_ERROR', `Failed to save template ${template.id}`, {
+          templateId: template.id,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * Load a template by ID
+   */
+  async load(id: TemplateId): Promise<Result<ItineraryTemplate, StorageError>> {
+    const filePath = this.getPath(id);
+    const notFound = createStorageError('NOT_FOUND', `Template ${id} not found`, {
+      templateId: id,
+    });
+
+    if (!filePath) {
+      return err(notFound);
+    }
+
+    let data: string;
+    try {
+      data = await readFile(filePath, 'utf-8');
+    } catch {
+      return err(notFound);
+    }
+
+    return deserializeTemplate(data);
+  }
+
+  /**
+   * List template summaries, optionally only those saved by one user
+   */
+  async list(createdBy?: string): Promise<Result<TemplateSummary[], StorageError>> {
+    try {
+      return ok(summarizeTemplates(await this.readAll(), createdBy));
+    } catch (error) {
+      return err(
+        createStorageError('READ_ERROR', 'Failed to list templates', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * Delete a template
+   */
+  async delete(id: TemplateId): Promise<Result<void, StorageError>> {
+    const filePath = this.getPath(id);
+
+    try {
+      if (!filePath) {
+        throw new Error('Invalid template ID');
+      }
+      await access(filePath);
+    } catch {
+      return err(createStorageError('NOT_FOUND', `Template ${id} not found`, { templateId: id }));
+    }
+
+    try {
+      await unlink(filePath);
+      return ok(undefined);
+    } catch (error) {
+      return err(
+        createStorageError('WRITE_ERROR', `Failed to delete template ${id}`, {
+          templateId: id,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * Read every stored template, skipping unreadable files
+   */
+  private async readAll(): Promise<ItineraryTemplate[]> {
+    await mkdir(this.basePath, { recursive: true });
+    const files = (await readdir(this.basePath)).filter((f) => f.endsWith('.json'));
+
+    const templates: ItineraryTemplate[] = [];
+    for (const file of files) {
+      try {
+        const result = deserializeTemplate(await readFile(join(this.basePath, file), 'utf-8'));
+        if (result.success) {
+          templates.push(result.value);
+        } else {
+          console.warn(`Skipping invalid template file: ${file}`, result.error.message);
+        }
+      } catch {
+        // Skip files removed or rewritten while listing
+      }
+    }
+    return templates;
+  }
+}
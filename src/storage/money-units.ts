@@ -0,0 +1,72 @@
+/**
+ * Stored money convention shared by storage implementations
+ * @module storage/money-units
+ *
+ * Amounts were once stored in hundredths of the major unit for every currency.
+ * They now use each currency's ISO 4217 minor unit (none for JPY, thousandths
+ * for KWD). Stored itineraries carry a `moneyUnits` marker; those written
+ * before it existed are converted when read. The marker is a storage detail:
+ * the itinerary schema drops it on load and it is added back on every write.
+ */
+
+import type { Money } from '../domain/types/money.js';
+import { fromLegacyMinorUnits } from '../domain/types/money.js';
+
+/** Marker for amounts in each currency's ISO 4217 minor unit */
+const MONEY_UNITS = 'iso4217';
+
+/** Itinerary fields holding money */
+const ITINERARY_MONEY_FIELDS = ['totalPrice'] as const;
+
+/** Segment fields holding money */
+const SEGMENT_MONEY_FIELDS = ['price', 'taxes', 'fees', 'totalPrice'] as const;
+
+/**
+ * Mark a value about to be stored as using the current money convention
+ * @param value - Itinerary (or itinerary fields) to store
+ * @returns Copy carrying the marker
+ */
+export function withMoneyUnits<T extends object>(value: T): T & { moneyUnits: string } {
+  return { ...value, moneyUnits: MONEY_UNITS };
+}
+
+/**
+ * Convert the amounts of a stored itinerary written before the marker existed
+ * @param data - Itinerary as read from storage, before validation
+ * @returns The data, with amounts in current minor units if it was unmarked
+ */
+export function upgradeStoredMoney(data: unknown): unknown {
+  if (!isRecord(data) || data.moneyUnits === MONEY_UNITS) {
+    return data;
+  }
+
+  const upgraded = rescaleFields(data, ITINERARY_MONEY_FIELDS);
+  if (Array.isArray(data.segments)) {
+    upgraded.segments = data.segments.map((segment) =>
+      isRecord(segment) ? rescaleFields(segment, SEGMENT_MONEY_FIELDS) : segment
+    );
+  }
+  return upgraded;
+}
+
+function rescaleFields(
+  value: Record<string, unknown>,
+  fields: readonly string[]
+): Record<string, unknown> {
+  const result = { ...value };
+  for (const field of fields) {
+    const money = value[field];
+    if (isMoney(money)) {
+      result[field] = fromLegacyMinorUnits(money);
+    }
+  }
+  return result;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isMoney(value: unknown): value is Money {
+  return isRecord(value) && typeof value.amount === 'number' && typeof value.currency === 'string';
+}
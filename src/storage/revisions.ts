@@ -0,0 +1,46 @@
+/**
+ * Revision log helpers shared by storage implementations
+ * @module storage/revisions
+ */
+
+import type { Itinerary } from '../domain/types/itinerary.js';
+import type { ItineraryRevision, RevisionContext } from './storage.interface.js';
+
+/** Revision context used when a caller does not provide one */
+export const DEFAULT_REVISION_CONTEXT: RevisionContext = { author: 'user' };
+
+/**
+ * Build the revision log entry for a save
+ * @param itinerary - Itinerary as saved
+ * @param revision - Sequential revision number
+ * @param context - Author and cause of the change
+ * @returns Revision log entry
+ */
+export function createRevisionEntry(
+  itinerary: Itinerary,
+  revision: number,
+  context: RevisionContext = DEFAULT_REVISION_CONTEXT
+): ItineraryRevision {
+  return {
+    itineraryId: itinerary.id,
+    revision,
+    version: itinerary.version,
+    savedAt: itinerary.updatedAt,
+    author: context.author,
+    ...(context.cause !== undefined && { cause: context.cause }),
+    ...(context.actor !== undefined && { actor: context.actor }),
+    title: itinerary.title,
+    segmentCount: itinerary.segments.length,
+  };
+}
+
+/**
+ * Copy an itinerary for its revision snapshot
+ * Calendar feed tokens are left out so a revoked token does not stay readable in history
+ * @param itinerary - Itinerary as saved
+ * @returns Snapshot to store
+ */
+export function toRevisionSnapshot(itinerary: Itinerary): Itinerary {
+  const { calendarFeeds: _feeds, ...snapshot } = itinerary;
+  return snapshot;
+}
@@ -0,0 +1,814 @@
+/**
+ * SQLite storage implementation
+ * @module storage/sqlite-storage
+ */
+
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import Database from 'better-sqlite3';
+import { createStorageError, createVersionConflictError } from '../core/errors.js';
+import type { StorageError } from '../core/errors.js';
+import { err, ok } from '../core/result.js';
+import type { Result } from '../core/result.js';
+import { itinerarySchema } from '../domain/schemas/itinerary.schema.js';
+import type { ItineraryId } from '../domain/types/branded.js';
+import type { Itinerary } from '../domain/types/itinerary.js';
+import { normalizeEmail } from '../domain/utils/collaborators.js';
+import { defaultSortOrder } from './itinerary-query.js';
+import { upgradeStoredMoney, withMoneyUnits } from './money-units.js';
+import { createRevisionEntry, toRevisionSnapshot } from './revisions.js';
+import type {
+  ItineraryQuery,
+  ItineraryQueryResult,
+  ItineraryRevision,
+  ItinerarySortField,
+  ItineraryStorage,
+  ItinerarySummary,
+  RevisionAuthor,
+  RevisionContext,
+  StoredRevision,
+} from './storage.interface.js';
+
+/**
+ * Schema for the itinerary database
+ * Summary fields live in indexed columns so listing never parses itinerary JSON;
+ * destinations, tags and collaborators are normalized into lookup tables for indexed filtering.
+ */
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS itineraries (
+    id TEXT PRIMARY KEY,
+    version INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    status TEXT NOT NULL,
+    start_date TEXT,
+    end_date TEXT,
+    created_by TEXT,
+    created_by_key TEXT,
+    trip_type TEXT,
+    traveler_count INTEGER NOT NULL,
+    segment_count INTEGER NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    data TEXT NOT NULL,
+    segments TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_itineraries_status ON itineraries (status);
+  CREATE INDEX IF NOT EXISTS idx_itineraries_start_date ON itineraries (start_date);
+  CREATE INDEX IF NOT EXISTS idx_itineraries_end_date ON itineraries (end_date);
+  CREATE INDEX IF NOT EXISTS idx_itineraries_created_by ON itineraries (created_by_key, updated_at);
+  CREATE INDEX IF NOT EXISTS idx_itineraries_updated_at ON itineraries (updated_at);
+  CREATE INDEX IF NOT EXISTS idx_itineraries_trip_type ON itineraries (trip_type);
+
+  CREATE TABLE IF NOT EXISTS itinerary_destinations (
+    itinerary_id TEXT NOT NULL REFERENCES itineraries (id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    code TEXT,
+    city TEXT,
+    country TEXT,
+    PRIMARY KEY (itinerary_id, position)
+  );
+  CREATE INDEX IF NOT EXISTS idx_destinations_name ON itinerary_destinations (name);
+  CREATE INDEX IF NOT EXISTS idx_destinations_code ON itinerary_destinations (code);
+  CREATE INDEX IF NOT EXISTS idx_destinations_city ON itinerary_destinations (city);
+  CREATE INDEX IF NOT EXISTS idx_destinations_country ON itinerary_destinations (country);
+
+  CREATE TABLE IF NOT EXISTS itinerary_tags (
+    itinerary_id TEXT NOT NULL REFERENCES itineraries (id) ON DELETE CASCADE,
+    tag TEXT NOT NULL,
+    PRIMARY KEY (itinerary_id, tag)
+  );
+  CREATE INDEX IF NOT EXISTS idx_tags_tag ON itinerary_tags (tag);
+
+  CREATE TABLE IF NOT EXISTS itinerary_collaborators (
+    itinerary_id TEXT NOT NULL REFERENCES itineraries (id) ON DELETE CASCADE,
+    email TEXT NOT NULL,
+    email_key TEXT NOT NULL,
+    role TEXT NOT NULL,
+    PRIMARY KEY (itinerary_id, email_key)
+  );
+  CREATE INDEX IF NOT EXISTS idx_collaborators_email ON itinerary_collaborators (email_key);
+
+  CREATE TABLE IF NOT EXISTS itinerary_revisions (
+    itinerary_id TEXT NOT NULL REFERENCES itineraries (id) ON DELETE CASCADE,
+    revision INTEGER NOT NULL,
+    version INTEGER NOT NULL,
+    saved_at TEXT NOT NULL,
+    author TEXT NOT NULL,
+    cause TEXT,
+    actor TEXT,
+    title TEXT NOT NULL,
+    segment_count INTEGER NOT NULL,
+    snapshot TEXT NOT NULL,
+    PRIMARY KEY (itinerary_id, revision)
+  );
+`;
+
+/** Row shape of the summary columns of the itineraries table */
+interface SummaryRow {
+  id: string;
+  title: string;
+  status: string;
+  start_date: string | null;
+  end_date: string | null;
+  created_by: string | null;
+  traveler_count: number;
+  segment_count: number;
+  updated_at: string;
+  /** JSON array of { email, role } */
+  collaborators: string;
+}
+
+/** Row shape of the itinerary_revisions table (without the snapshot) */
+interface RevisionRow {
+  itinerary_id: string;
+  revision: number;
+  version: number;
+  saved_at: string;
+  author: string;
+  cause: string | null;
+  actor: string | null;
+  title: string;
+  segment_count: number;
+}
+
+/** Columns selected for list views */
+const SUMMARY_COLUMNS = `id, title, status, start_date, end_date, created_by, traveler_count,
+  segment_count, updated_at,
+  (SELECT json_group_array(json_object('email', c.email, 'role', c.role))
+    FROM itinerary_collaborators c WHERE c.itinerary_id = itineraries.id) AS collaborators`;
+
+/** Condition matching itineraries a user (bound parameter, normalized) created or collaborates on */
+const ACCESSIBLE_BY_CONDITION = `(created_by_key = ? OR EXISTS (SELECT 1 FROM itinerary_collaborators c
+  WHERE c.itinerary_id = itineraries.id AND c.email_key = ?))`;
+
+/** Columns selected for revision log entries */
+const REVISION_COLUMNS =
+  'itinerary_id, revision, version, saved_at, author, cause, actor, title, segment_count';
+
+/** Sort expression for each sortable field */
+const SORT_COLUMNS: Record<ItinerarySortField, string> = {
+  updatedAt: 'updated_at',
+  createdAt: 'created_at',
+  startDate: 'start_date',
+  title: 'title COLLATE NOCASE',
+};
+
+/**
+ * Escape LIKE wildcards in a search term
+ * @param term - Raw search term
+ * @returns Pattern matching the term anywhere in a value
+ */
+function containsPattern(term: string): string {
+  return `%${term
+    .trim()
+    .toLowerCase()
+    .replace(/[\\%_]/g, '\\$&')}%`;
+}
+
+/**
+ * Build the WHERE clause for an itinerary query
+ * Summary filters use indexed columns; traveler and segment filters read the JSON payloads
+ * @param query - Query filters
+ * @returns SQL condition and its positional parameters
+ */
+function buildQueryFilter(query: ItineraryQuery): { where: string; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (query.createdBy !== undefined) {
+    conditions.push('created_by_key = ?');
+    params.push(query.createdBy.toLowerCase().trim());
+  }
+
+  if (query.accessibleBy !== undefined) {
+    const key = normalizeEmail(query.accessibleBy);
+    conditions.push(ACCESSIBLE_BY_CONDITION);
+    params.push(key, key);
+  }
+
+  if (query.status?.length) {
+    conditions.push(`status IN (${query.status.map(() => '?').join(', ')})`);
+    params.push(...query.status);
+  }
+
+  if (query.tripType) {
+    conditions.push('trip_type = ?');
+    params.push(query.tripType);
+  }
+
+  // A trip with only one date is treated as a single day
+  if (query.from) {
+    conditions.push('COALESCE(end_date, start_date) >= ?');
+    params.push(query.from.toISOString());
+  }
+  if (query.to) {
+    conditions.push('COALESCE(start_date, end_date) <= ?');
+    params.push(query.to.toISOString());
+  }
+
+  if (query.destination) {
+    const term = query.destination.trim();
+    conditions.push(
+      `EXISTS (SELECT 1 FROM itinerary_destinations d WHERE d.itinerary_id = itineraries.id
+        AND (d.name LIKE ? ESCAPE '\\' OR d.code = ? OR d.city = ? OR d.country = ?))`
+    );
+    params.push(containsPattern(term), term.toUpperCase(), term.toLowerCase(), term.toUpperCase());
+  }
+
+  if (query.traveler) {
+    conditions.push(
+      `EXISTS (SELECT 1 FROM json_each(itineraries.data, '$.travelers') t
+        WHERE lower(json_extract(t.value, '$.firstName') || ' ' ||
+          json_extract(t.value, '$.lastName')) LIKE ? ESCAPE '\\'
+        OR lower(COALESCE(json_extract(t.value, '$.email'), '')) LIKE ? ESCAPE '\\')`
+    );
+    params.push(containsPattern(query.traveler), containsPattern(query.traveler));
+  }
+
+  for (const tag of query.tags ?? []) {
+    conditions.push(
+      'EXISTS (SELECT 1 FROM itinerary_tags g WHERE g.itinerary_id = itineraries.id AND g.tag = ?)'
+    );
+    params.push(tag.toLowerCase());
+  }
+
+  if (query.segmentType || query.segmentStatus?.length) {
+    const segmentConditions: string[] = [];
+    if (query.segmentType) {
+      segmentConditions.push("json_extract(s.value, '$.type') = ?");
+      params.push(query.segmentType);
+    }
+    if (query.segmentStatus?.length) {
+      segmentConditions.push(
+        `json_extract(s.value, '$.status') IN (${query.segmentStatus.map(() => '?').join(', ')})`
+      );
+      params.push(...query.segmentStatus);
+    }
+    conditions.push(
+      `EXISTS (SELECT 1 FROM json_each(itineraries.segments) s
+        WHERE ${segmentConditions.join(' AND ')})`
+    );
+  }
+
+  if (query.text) {
+    conditions.push("lower(title) LIKE ? ESCAPE '\\'");
+    params.push(containsPattern(query.text));
+  }
+
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    params,
+  };
+}
+
+/**
+ * SQLite storage for itineraries
+ * Keeps every itinerary in a single embedded database file so list views
+ * and per-user lookups are served from indexes instead of parsing every trip
+ */
+export class SqliteItineraryStorage implements ItineraryStorage {
+  /** Open database handle (created on first use) */
+  private db: Database.Database | null = null;
+
+  /** Regex to detect ISO 8601 date strings */
+  private static readonly ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z$/;
+
+  /**
+   * Creates a new SQLite storage instance
+   * @param filePath - Path of the database file (default: ./data/itineraries.db)
+   */
+  constructor(private readonly filePath: string = './data/itineraries.db') {}
+
+  /**
+   * Get the database handle, opening the file and creating the schema on first use
+   */
+  private getDb(): Database.Database {
+    if (!this.db) {
+      if (this.filePath !== ':memory:') {
+        mkdirSync(dirname(this.filePath), { recursive: true });
+      }
+      const db = new Database(this.filePath);
+      db.pragma('journal_mode = WAL');
+      db.pragma('foreign_keys = ON');
+      db.exec(SCHEMA);
+      this.db = db;
+    }
+    return this.db;
+  }
+
+  /**
+   * Close the database file
+   * The next call reopens it, so this is safe to use between tests
+   */
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  /**
+   * Serialize a value to JSON (dates are automatically converted to ISO strings)
+   * @param value - Value to serialize
+   * @returns JSON string
+   */
+  private serialize(value: unknown): string {
+    return JSON.stringify(value);
+  }
+
+  /**
+   * Deserialize JSON with automatic Date revival from ISO strings
+   * @param json - JSON string to parse
+   * @returns Parsed value with Date instances
+   */
+  private deserialize(json: string): unknown {
+    return JSON.parse(json, (_key, value) => {
+      // Automatically convert ISO date strings back to Date objects
+      if (typeof value === 'string' && SqliteItineraryStorage.ISO_DATE_REGEX.test(value)) {
+        return new Date(value);
+      }
+      return value;
+    });
+  }
+
+  /**
+   * Rebuild and validate an itinerary from its stored JSON columns
+   * @param id - The itinerary ID (for error messages)
+   * @param data - Itinerary JSON without segments
+   * @param segments - Segment array JSON
+   */
+  private parseItinerary(
+    id: ItineraryId,
+    data: string,
+    segments: string
+  ): Result<Itinerary, StorageError> {
+    const parsed = {
+      ...(this.deserialize(data) as Record<string, unknown>),
+      segments: this.deserialize(segments),
+    };
+
+    const result = itinerarySchema.safeParse(upgradeStoredMoney(parsed));
+    if (!result.success) {
+      return err(
+        createStorageError('VALIDATION_ERROR', `Invalid itinerary data for ${id}`, {
+          errors: result.error.errors,
+        })
+      );
+    }
+
+    // Safe cast: Zod brand is compatible with our brand
+    return ok(result.data as unknown as Itinerary);
+  }
+
+  /**
+   * Write an itinerary row and its destination, tag and collaborator lookup rows
+   * Must run inside a transaction
+   */
+  private writeItinerary(db: Database.Database, itinerary: Itinerary): void {
+    const { segments, ...rest } = itinerary;
+
+    db.prepare(
+      `INSERT INTO itineraries (
+        id, version, title, status, start_date, end_date, created_by, created_by_key,
+        trip_type, traveler_count, segment_count, created_at, updated_at, data, segments
+      ) VALUES (
+        @id, @version, @title, @status, @startDate, @endDate, @createdBy, @createdByKey,
+        @tripType, @travelerCount, @segmentCount, @createdAt, @updatedAt, @data, @segments
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        version = excluded.version,
+        title = excluded.title,
+        status = excluded.status,
+        start_date = excluded.start_date,
+        end_date = excluded.end_date,
+        created_by = excluded.created_by,
+        created_by_key = excluded.created_by_key,
+        trip_type = excluded.trip_type,
+        traveler_count = excluded.traveler_count,
+        segment_count = excluded.segment_count,
+        created_at = excluded.created_at,
+        updated_at = excluded.updated_at,
+        data = excluded.data,
+        segments = excluded.segments`
+    ).run({
+      id: itinerary.id,
+      version: itinerary.version,
+      title: itinerary.title,
+      status: itinerary.status,
+      startDate: itinerary.startDate?.toISOString() ?? null,
+      endDate: itinerary.endDate?.toISOString() ?? null,
+      createdBy: itinerary.createdBy ?? null,
+      createdByKey: itinerary.createdBy?.toLowerCase().trim() ?? null,
+      tripType: itinerary.tripType ?? null,
+      travelerCount: itinerary.travelers.length,
+      segmentCount: segments.length,
+      createdAt: itinerary.createdAt.toISOString(),
+      updatedAt: itinerary.updatedAt.toISOString(),
+      data: this.serialize(withMoneyUnits(rest)),
+      segments: this.serialize(segments),
+    });
+
+    db.prepare('DELETE FROM itinerary_destinations WHERE itinerary_id = ?').run(itinerary.id);
+    const insertDestination = db.prepare(
+      `INSERT INTO itinerary_destinations (itinerary_id, position, name, code, city, country)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    );
+    itinerary.destinations.forEach((destination, position) => {
+      insertDestination.run(
+        itinerary.id,
+        position,
+        destination.name.toLowerCase(),
+        destination.code?.toUpperCase() ?? null,
+        destination.address?.city?.toLowerCase() ?? null,
+        destination.address?.country.toUpperCase() ?? null
+      );
+    });
+
+    db.prepare('DELETE FROM itinerary_tags WHERE itinerary_id = ?').run(itinerary.id);
+    const insertTag = db.prepare(
+      'INSERT OR IGNORE INTO itinerary_tags (itinerary_id, tag) VALUES (?, ?)'
+    );
+    for (const tag of itinerary.tags) {
+      insertTag.run(itinerary.id, tag.toLowerCase());
+    }
+
+    db.prepare('DELETE FROM itinerary_collaborators WHERE itinerary_id = ?').run(itinerary.id);
+    const insertCollaborator = db.prepare(
+      `INSERT OR REPLACE INTO itinerary_collaborators (itinerary_id, email, email_key, role)
+       VALUES (?, ?, ?, ?)`
+    );
+    for (const collaborator of itinerary.collaborators ?? []) {
+      insertCollaborator.run(
+        itinerary.id,
+        collaborator.email,
+        normalizeEmail(collaborator.email),
+        collaborator.role
+      );
+    }
+  }
+
+  /**
+   * Append a revision log entry with its snapshot
+   * Must run inside a transaction
+   */
+  private writeRevision(
+    db: Database.Database,
+    entry: ItineraryRevision,
+    snapshot: Itinerary
+  ): void {
+    db.prepare(
+      `INSERT INTO itinerary_revisions (
+        itinerary_id, revision, version, saved_at, author, cause, actor, title, segment_count,
+        snapshot
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      entry.itineraryId,
+      entry.revision,
+      entry.version,
+      entry.savedAt.toISOString(),
+      entry.author,
+      entry.cause ?? null,
+      entry.actor ?? null,
+      entry.title,
+      entry.segmentCount,
+      this.serialize(withMoneyUnits(toRevisionSnapshot(snapshot)))
+    );
+  }
+
+  /**
+   * Convert a summary row to an ItinerarySummary
+   */
+  private toSummary(row: SummaryRow): ItinerarySummary {
+    const collaborators = JSON.parse(row.collaborators) as ItinerarySummary['collaborators'];
+    return {
+      id: row.id as ItineraryId,
+      title: row.title,
+      status: row.status,
+      ...(row.start_date ? { startDate: new Date(row.start_date) } : {}),
+      ...(row.end_date ? { endDate: new Date(row.end_date) } : {}),
+      travelerCount: row.traveler_count,
+      segmentCount: row.segment_count,
+      updatedAt: new Date(row.updated_at),
+      ...(row.created_by ? { createdBy: row.created_by } : {}),
+      ...(collaborators?.length ? { collaborators } : {}),
+    };
+  }
+
+  /**
+   * Convert a revision row to an ItineraryRevision
+   */
+  private toRevision(row: RevisionRow): ItineraryRevision {
+    return {
+      itineraryId: row.itinerary_id as ItineraryId,
+      revision: row.revision,
+      version: row.version,
+      savedAt: new Date(row.saved_at),
+      author: row.author as RevisionAuthor,
+      ...(row.cause !== null && { cause: row.cause }),
+      ...(row.actor !== null && { actor: row.actor }),
+      title: row.title,
+      segmentCount: row.segment_count,
+    };
+  }
+
+  /**
+   * Initialize storage by opening the database and creating the schema
+   */
+  async initialize(): Promise<Result<void, StorageError>> {
+    try {
+      this.getDb();
+      return ok(undefined);
+    } catch (error) {
+      return err(
+        createStorageError('WRITE_ERROR', `Failed to open SQLite database: ${this.filePath}`, {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * Save an itinerary (create or update)
+   * The version check, row update and revision entry commit in one transaction
+   */
+  async save(
+    itinerary: Itinerary,
+    revision?: RevisionContext,
+    expectedVersion?: number
+  ): Promise<Result<Itinerary, StorageError>> {
+    try {
+      const db = this.getDb();
+
+      // Update timestamp (version is managed by service layer)
+      const updatedItinerary: Itinerary = {
+        ...itinerary,
+        updatedAt: new Date(),
+      };
+
+      const conflict = db
+        .transaction((): StorageError | null => {
+          // Compare-and-swap: SQLite serializes write transactions, so the check is atomic
+          if (expectedVersion !== undefined) {
+            const current = db
+              .prepare('SELECT version FROM itineraries WHERE id = ?')
+              .get(itinerary.id) as { version: number } | undefined;
+            if (!current) {
+              return createStorageError('NOT_FOUND', `Itinerary ${itinerary.id} not found`);
+            }
+            if (current.version !== expectedVersion) {
+              return createVersionConflictError(itinerary.id, expectedVersion, current.version);
+            }
+          }
+
+          this.writeItinerary(db, updatedItinerary);
+
+          // Record the save in the revision log; imported history may have gaps,
+          // so number after the highest revision rather than the count
+          const { next } = db
+            .prepare(
+              'SELECT COALESCE(MAX(revision), 0) + 1 AS next FROM itinerary_revisions WHERE itinerary_id = ?'
+            )
+            .get(itinerary.id) as { next: number };
+          const entry = createRevisionEntry(updatedItinerary, next, revision);
+          this.writeRevision(db, entry, updatedItinerary);
+
+          return null;
+        })
+        .immediate();
+
+      if (conflict) {
+        return err(conflict);
+      }
+
+      return ok(updatedItinerary);
+    } catch (error) {
+      return err(
+        createStorageError('WRITE_ERROR', `Failed to save itinerary ${itinerary.id}`, {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * Load an itinerary by ID
+   */
+  async load(id: ItineraryId): Promise<Result<Itinerary, StorageError>> {
+    try {
+      const row = this.getDb()
+        .prepare('SELECT data, segments FROM itineraries WHERE id = ?')
+        .get(id) as { data: string; segments: string } | undefined;
+
+      if (!row) {
+        return err(createStorageError('NOT_FOUND', `Itinerary ${id} not found`));
+      }
+
+      return this.parseItinerary(id, row.data, row.segments);
+    } catch (error) {
+      return err(
+        createStorageError('READ_ERROR', `Failed to load itinerary ${id}`, {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * Delete an itinerary and its revision history
+   */
+  async delete(id: ItineraryId): Promise<Result<void, StorageError>> {
+    try {
+      const { changes } = this.getDb().prepare('DELETE FROM itineraries WHERE id = ?').run(id);
+
+      if (changes === 0) {
+        return err(createStorageError('NOT_FOUND', `Itinerary ${id} not found`));
+      }
+
+      return ok(undefined);
+    } catch (error) {
+      return err(
+        createStorageError('WRITE_ERROR', `Failed to delete itinerary ${id}`, {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * List all itinerary summaries
+   * Returns summaries sorted by updatedAt descending
+   */
+  async list(): Promise<Result<ItinerarySummary[], StorageError>> {
+    try {
+      const rows = this.getDb()
+        .prepare(`SELECT ${SUMMARY_COLUMNS} FROM itineraries ORDER BY updated_at DESC`)
+        .all() as SummaryRow[];
+
+      return ok(rows.map((row) => this.toSummary(row)));
+    } catch (error) {
+      return err(
+        createStorageError('READ_ERROR', 'Failed to list itineraries', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * Find itineraries matching a query
+   * Runs as SQL, so only the matching page of summary rows is read
+   */
+  async query(query: ItineraryQuery): Promise<Result<ItineraryQueryResult, StorageError>> {
+    try {
+      const db = this.getDb();
+      const { where, params } = buildQueryFilter(query);
+
+      const sortBy = query.sortBy ?? 'updatedAt';
+      const direction = (query.sortOrder ?? defaultSortOrder(sortBy)).toUpperCase();
+
+      const rows = db
+        .prepare(
+          `SELECT ${SUMMARY_COLUMNS} FROM itineraries ${where}
+           ORDER BY ${SORT_COLUMNS[sortBy]} ${direction} NULLS LAST, id
+           LIMIT ? OFFSET ?`
+        )
+        .all(...params, query.limit ?? -1, query.offset ?? 0) as SummaryRow[];
+
+      const { total } = db
+        .prepare(`SELECT COUNT(*) AS total FROM itineraries ${where}`)
+        .get(...params) as { total: number };
+
+      return ok({ items: rows.map((row) => this.toSummary(row)), total });
+    } catch (error) {
+      return err(
+        createStorageError('READ_ERROR', 'Failed to query itineraries', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * List itineraries a user created or collaborates on (email match is case-insensitive)
+   * Returns summaries sorted by updatedAt descending
+   */
+  async listByUser(userEmail: string): Promise<Result<ItinerarySummary[], StorageError>> {
+    try {
+      const key = normalizeEmail(userEmail);
+      const rows = this.getDb()
+        .prepare(
+          `SELECT ${SUMMARY_COLUMNS} FROM itineraries
+           WHERE ${ACCESSIBLE_BY_CONDITION} ORDER BY updated_at DESC`
+        )
+        .all(key, key) as SummaryRow[];
+
+      return ok(rows.map((row) => this.toSummary(row)));
+    } catch (error) {
+      return err(
+        createStorageError('READ_ERROR', `Failed to list itineraries for ${userEmail}`, {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * Check if an itinerary exists
+   */
+  async exists(id: ItineraryId): Promise<boolean> {
+    try {
+      return this.getDb().prepare('SELECT 1 FROM itineraries WHERE id = ?').get(id) !== undefined;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * List recorded revisions of an itinerary, oldest first
+   */
+  async listRevisions(id: ItineraryId): Promise<Result<ItineraryRevision[], StorageError>> {
+    try {
+      const db = this.getDb();
+      const rows = db
+        .prepare(
+          `SELECT ${REVISION_COLUMNS} FROM itinerary_revisions
+           WHERE itinerary_id = ? ORDER BY revision`
+        )
+        .all(id) as RevisionRow[];
+
+      if (rows.length === 0 && !(await this.exists(id))) {
+        return err(createStorageError('NOT_FOUND', `Itinerary ${id} not found`));
+      }
+
+      return ok(rows.map((row) => this.toRevision(row)));
+    } catch (error) {
+      return err(
+        createStorageError('READ_ERROR', `Failed to list revisions of ${id}`, {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * Load the itinerary as it was saved at a given revision
+   */
+  async loadRevision(id: ItineraryId, revision: number): Promise<Result<Itinerary, StorageError>> {
+    try {
+      const row = this.getDb()
+        .prepare('SELECT snapshot FROM itinerary_revisions WHERE itinerary_id = ? AND revision = ?')
+        .get(id, revision) as { snapshot: string } | undefined;
+
+      if (!row) {
+        return err(
+          createStorageError('NOT_FOUND', `Revision ${revision} of itinerary ${id} not found`)
+        );
+      }
+
+      const result = itinerarySchema.safeParse(upgradeStoredMoney(this.deserialize(row.snapshot)));
+      if (!result.success) {
+        return err(
+          createStorageError('VALIDATION_ERROR', `Invalid data for revision ${revision} of ${id}`, {
+            errors: result.error.errors,
+          })
+        );
+      }
+
+      // Safe cast: Zod brand is compatible with our brand
+      return ok(result.data as unknown as Itinerary);
+    } catch (error) {
+      return err(
+        createStorageError('READ_ERROR', `Failed to load revision ${revision} of ${id}`, {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * Write an itinerary and its revision history as given, replacing any stored copy
+   */
+  async importItinerary(
+    itinerary: Itinerary,
+    history: StoredRevision[]
+  ): Promise<Result<void, StorageError>> {
+    try {
+      const db = this.getDb();
+
+      db.transaction(() => {
+        db.prepare('DELETE FROM itinerary_revisions WHERE itinerary_id = ?').run(itinerary.id);
+        this.writeItinerary(db, itinerary);
+        for (const { entry, snapshot } of history) {
+          this.writeRevision(db, entry, snapshot);
+        }
+      }).immediate();
+
+      return ok(undefined);
+    } catch (error) {
+      return err(
+        createStorageError('WRITE_ERROR', `Failed to import itinerary ${itinerary.id}`, {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+}
@@ -6,7 +6,13 @@
 import type { StorageError } from '../core/errors.js';
 import type { Result } from '../core/result.js';
 import type { ItineraryId } from '../domain/types/branded.js';
-import type { Itinerary } from '../domain/types/itinerary.js';
+import type {
+  ItineraryStatus,
+  SegmentStatus,
+  SegmentType,
+  TripType,
+} from '../domain/types/common.js';
+import type { Collaborator, Itinerary } from '../domain/types/itinerary.js';
 
 /**
  * Interface for itinerary storage operations
@@ -15,8 +21,18 @@ export interface ItineraryStorage {
   /** Initialize storage (create directories if needed) */
   initialize(): Promise<Result<void, StorageError>>;
 
-  /** Save an itinerary (create or update) */
-  save(itinerary: Itinerary): Promise<Result<Itinerary, StorageError>>;
+  /**
+   * Save an itinerary (create or update).
+   * Every save is also recorded in the itinerary's revision log.
+   * When `expectedVersion` is given the save is a compare-and-swap: it only succeeds
+   * if the stored itinerary is still at that version, and otherwise fails with a
+   * VERSION_CONFLICT error (see `createVersionConflictError`).
+   */
+  save(
+    itinerary: Itinerary,
+    revision?: RevisionContext,
+    expectedVersion?: number
+  ): Promise<Result<Itinerary, StorageError>>;
 
   /** Load an itinerary by ID */
   load(id: ItineraryId): Promise<Result<Itinerary, StorageError>>;
@@ -27,11 +43,82 @@ export interface ItineraryStorage {
   /** List all itinerary summaries (id, title, status, dates) */
   list(): Promise<Result<ItinerarySummary[], StorageError>>;
 
-  /** List itineraries for a specific user */
+  /**
+   * Find itineraries matching a query, sorted and paginated
+   * @param query - Filters, sort order and page (all optional)
+   */
+  query(query: ItineraryQuery): Promise<Result<ItineraryQueryResult, StorageError>>;
+
+  /** List itineraries a user created or that are shared with them */
   listByUser(userEmail: string): Promise<Result<ItinerarySummary[], StorageError>>;
 
   /** Check if an itinerary exists */
   exists(id: ItineraryId): Promise<boolean>;
+
+  /** List recorded revisions of an itinerary, oldest first */
+  listRevisions(id: ItineraryId): Promise<Result<ItineraryRevision[], StorageError>>;
+
+  /** Load the itinerary as it was saved at a given revision */
+  loadRevision(id: ItineraryId, revision: number): Promise<Result<Itinerary, StorageError>>;
+
+  /**
+   * Write an itinerary and its revision history exactly as given, replacing any stored copy.
+   * Unlike `save`, timestamps are kept and no revision is recorded; used to copy
+   * itineraries between backends.
+   */
+  importItinerary(
+    itinerary: Itinerary,
+    history: StoredRevision[]
+  ): Promise<Result<void, StorageError>>;
+}
+
+/**
+ * Who made a change to an itinerary
+ */
+export type RevisionAuthor = 'user' | 'agent' | 'import' | 'system';
+
+/**
+ * Context recorded alongside a save in the revision log
+ */
+export interface RevisionContext {
+  /** Kind of author that made the change */
+  author: RevisionAuthor;
+  /** Short description of why the itinerary changed (e.g. "Segment deleted") */
+  cause?: string;
+  /** Specific actor, such as a user email or agent session ID */
+  actor?: string;
+}
+
+/**
+ * Entry in an itinerary's revision log
+ */
+export interface ItineraryRevision {
+  /** Itinerary ID */
+  itineraryId: ItineraryId;
+  /** Sequential revision number, starting at 1 */
+  revision: number;
+  /** Itinerary version at the time of the save */
+  version: number;
+  /** When the revision was saved */
+  savedAt: Date;
+  /** Kind of author that made the change */
+  author: RevisionAuthor;
+  /** Why the itinerary changed */
+  cause?: string;
+  /** Specific actor that made the change */
+  actor?: string;
+  /** Itinerary title at this revision */
+  title: string;
+  /** Number of segments at this revision */
+  segmentCount: number;
+}
+
+/**
+ * Revision log entry with the itinerary snapshot it describes
+ */
+export interface StoredRevision {
+  entry: ItineraryRevision;
+  snapshot: Itinerary;
 }
 
 /**
@@ -56,4 +143,60 @@ export interface ItinerarySummary {
   updatedAt: Date;
   /** User who created the itinerary */
   createdBy?: string;
+  /** Users the itinerary is shared with */
+  collaborators?: Pick<Collaborator, 'email' | 'role'>[];
+}
+
+/**
+ * Fields itineraries can be sorted by
+ */
+export type ItinerarySortField = 'updatedAt' | 'createdAt' | 'startDate' | 'title';
+
+/**
+ * Filters, sort order and page for finding itineraries
+ * All filters are optional and combined with AND
+ */
+export interface ItineraryQuery {
+  /** Only itineraries created by this user (case-insensitive) */
+  createdBy?: string;
+  /** Only itineraries this user created or collaborates on (case-insensitive) */
+  accessibleBy?: string;
+  /** Only itineraries in one of these statuses */
+  status?: ItineraryStatus[];
+  /** Only trips that end on or after this date (trips without dates never match) */
+  from?: Date;
+  /** Only trips that start on or before this date (trips without dates never match) */
+  to?: Date;
+  /** Destination name (partial), city, country code or IATA code */
+  destination?: string;
+  /** Traveler first/last name or email (partial, case-insensitive) */
+  traveler?: string;
+  /** Only itineraries carrying all of these tags (case-insensitive) */
+  tags?: string[];
+  /** Only itineraries of this trip type */
+  tripType?: TripType;
+  /** Only itineraries with at least one segment of this type (and status, if given) */
+  segmentType?: SegmentType;
+  /** Only itineraries with at least one segment in one of these statuses */
+  segmentStatus?: SegmentStatus[];
+  /** Free-text search on the title (case-insensitive) */
+  text?: string;
+  /** Sort field (default: updatedAt) */
+  sortBy?: ItinerarySortField;
+  /** Sort direction (default: desc for dates, asc for title) */
+  sortOrder?: 'asc' | 'desc';
+  /** Maximum number of results */
+  limit?: number;
+  /** Number of results to skip */
+  offset?: number;
+}
+
+/**
+ * Page of itineraries matching a query
+ */
+export interface ItineraryQueryResult {
+  /** Matching itineraries on this page */
+  items: ItinerarySummary[];
+  /** Number of matching itineraries across all pages */
+  total: number;
 }
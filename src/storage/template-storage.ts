@@ -0,0 +1,135 @@
+/**
+ * Itinerary template storage
+ * @module storage/template-storage
+ */
+
+import { createStorageError } from '../core/errors.js';
+import type { StorageError } from '../core/errors.js';
+import { err, ok } from '../core/result.js';
+import type { Result } from '../core/result.js';
+import type { TemplateId } from '../domain/types/branded.js';
+import type { ItineraryTemplate, TemplateSummary } from '../domain/types/template.js';
+import { toTemplateSummary } from '../domain/utils/itinerary-template.js';
+
+/**
+ * Template storage interface
+ */
+export interface TemplateStorage {
+  /** Save a template (create or replace) */
+  save(template: ItineraryTemplate): Promise<Result<void, StorageError>>;
+
+  /** Load a template */
+  load(id: TemplateId): Promise<Result<ItineraryTemplate, StorageError>>;
+
+  /** List template summaries, optionally only those saved by one user */
+  list(createdBy?: string): Promise<Result<TemplateSummary[], StorageError>>;
+
+  /** Delete a template */
+  delete(id: TemplateId): Promise<Result<void, StorageError>>;
+}
+
+/** Regex to detect ISO 8601 date strings */
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z$/;
+
+/**
+ * Check whether a template was saved by a user (emails compare case-insensitively)
+ */
+function isOwnedBy(template: ItineraryTemplate, createdBy: string): boolean {
+  return template.createdBy?.toLowerCase().trim() === createdBy.toLowerCase().trim();
+}
+
+/**
+ * Build sorted summaries of templates, optionally only those saved by one user
+ * Most recently saved first
+ */
+export function summarizeTemplates(
+  templates: Iterable<ItineraryTemplate>,
+  createdBy?: string
+): TemplateSummary[] {
+  const summaries: TemplateSummary[] = [];
+  for (const template of templates) {
+    if (createdBy === undefined || isOwnedBy(template, createdBy)) {
+      summaries.push(toTemplateSummary(template));
+    }
+  }
+  return summaries.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Serialize a template to JSON (dates are converted to ISO strings)
+ */
+export function serializeTemplate(template: ItineraryTemplate): string {
+  return JSON.stringify(template, null, 2);
+}
+
+/**
+ * Parse a stored template, reviving dates
+ * @param json - Serialized template
+ * @returns The template, or a validation error if the data is not a template
+ */
+export function deserializeTemplate(json: string): Result<ItineraryTemplate, StorageError> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json, (_key, value) => {
+      if (typeof value === 'string' && ISO_DATE_REGEX.test(value)) {
+        return new Date(value);
+      }
+      return value;
+    });
+  } catch (error) {
+    return err(
+      createStorageError('READ_ERROR', 'Failed to parse template data', {
+        error: error instanceof Error ? error.message : String(error),
+      })
+    );
+  }
+
+  const candidate = parsed as Partial<ItineraryTemplate> | null;
+  if (
+    !candidate ||
+    typeof candidate.id !== 'string' ||
+    typeof candidate.name !== 'string' ||
+    typeof candidate.durationDays !== 'number' ||
+    !Array.isArray(candidate.segments)
+  ) {
+    return err(createStorageError('VALIDATION_ERROR', 'Invalid template data'));
+  }
+
+  return ok(candidate as ItineraryTemplate);
+}
+
+/**
+ * In-memory template storage implementation
+ */
+export class InMemoryTemplateStorage implements TemplateStorage {
+  private templates = new Map<TemplateId, ItineraryTemplate>();
+
+  async save(template: ItineraryTemplate): Promise<Result<void, StorageError>> {
+    this.templates.set(template.id, template);
+    return ok(undefined);
+  }
+
+  async load(id: TemplateId): Promise<Result<ItineraryTemplate, StorageError>> {
+    const template = this.templates.get(id);
+    if (!template) {
+      return err(createStorageError('NOT_FOUND', `Template ${id} not found`, { templateId: id }));
+    }
+    return ok(template);
+  }
+
+  async list(createdBy?: string): Promise<Result<TemplateSummary[], StorageError>> {
+    return ok(summarizeTemplates(this.templates.values(), createdBy));
+  }
+
+  async delete(id: TemplateId): Promise<Result<void, StorageError>> {
+    if (!this.templates.delete(id)) {
+      return err(createStorageError('NOT_FOUND', `Template ${id} not found`, { templateId: id }));
+    }
+    return ok(undefined);
+  }
+
+  /** Clear all templates (for testing) */
+  clear(): void {
+    this.templates.clear();
+  }
+}
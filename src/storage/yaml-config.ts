@@ -12,6 +12,10 @@ import { err, ok } from '../core/result.js';
 import type { Result } from '../core/result.js';
 import type { ImportConfig } from '../domain/types/import.js';
 import { DEFAULT_IMPORT_MODEL } from '../domain/types/import.js';
+import type {
+  TravelSearchConfig,
+  TravelSearchProviderName,
+} from '../domain/types/travel-search.js';
 
 /**
  * Full application configuration structure
@@ -43,6 +47,13 @@ export interface YamlAppConfig {
     /** SerpAPI API key */
     apiKey?: string;
   };
+  /** Flight, hotel and ground transport search */
+  travelSearch?: {
+    /** Provider: serpapi or fixture (default: serpapi when a key is set, otherwise fixture) */
+    provider?: TravelSearchProviderName;
+    /** JSON fixture file for the fixture provider (default: bundled sample offers) */
+    fixturePath?: string;
+  };
 }
 
 /**
@@ -204,6 +215,24 @@ export class YamlConfigStorage {
     return ok(importConfig);
   }
 
+  /**
+   * Get travel search configuration
+   * Does not require an OpenRouter key; falls back to fixtures without a SerpAPI key.
+   */
+  async getTravelSearchConfig(): Promise<Result<TravelSearchConfig, StorageError>> {
+    const configResult = await this.getConfig();
+    if (!configResult.success) {
+      return configResult;
+    }
+
+    const { serpapi, travelSearch } = configResult.value;
+    return ok({
+      ...(travelSearch?.provider ? { provider: travelSearch.provider } : {}),
+      ...(serpapi?.apiKey ? { serpapiKey: serpapi.apiKey } : {}),
+      ...(travelSearch?.fixturePath ? { fixturePath: travelSearch.fixturePath } : {}),
+    });
+  }
+
   /**
    * Set OpenRouter API key
    */
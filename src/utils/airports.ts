@@ -0,0 +1,475 @@
+/**
+ * Airport and city reference lookups over the bundled offline dataset
+ * @module utils/airports
+ *
+ * Resolves IATA/ICAO codes, airport and city names (including loose or
+ * misspelled ones) without network round-trips.
+ */
+
+import { AIRPORTS } from '../domain/data/airports.js';
+import { CITIES } from '../domain/data/cities.js';
+import type { Location } from '../domain/types/location.js';
+import type { Airport, City } from '../domain/types/reference.js';
+
+/**
+ * Airport search result
+ */
+export interface AirportMatch {
+  /** Matched airport */
+  airport: Airport;
+  /** Match quality from 0 (none) to 1 (exact code match) */
+  score: number;
+}
+
+/**
+ * City search result
+ */
+export interface CityMatch {
+  /** Matched city */
+  city: City;
+  /** Match quality from 0 (none) to 1 (exact name match) */
+  score: number;
+}
+
+/**
+ * Place resolved from the offline dataset
+ */
+export interface PlaceMatch {
+  /** Display name of the airport or city */
+  name: string;
+  /** Latitude in decimal degrees */
+  latitude: number;
+  /** Longitude in decimal degrees */
+  longitude: number;
+  /** ISO 3166-1 alpha-2 country code */
+  country: string;
+  /** IANA timezone */
+  timezone: string;
+  /** Match quality from 0 to 1 */
+  score: number;
+  /** Matched airport, if the place is an airport */
+  airport?: Airport;
+  /** Matched city, if the place is a city */
+  city?: City;
+}
+
+/** Results scoring below this are not returned by searches */
+const DEFAULT_MIN_SCORE = 0.6;
+
+/** Minimum score for a name to resolve to a single airport */
+const RESOLVE_MIN_SCORE = 0.8;
+
+/** Words that do not help tell airports apart */
+const STOP_WORDS = new Set(['airport', 'international', 'intl', 'the', 'of', 'de', 'and']);
+
+const airportsByIata = new Map(AIRPORTS.map((airport) => [airport.iata, airport]));
+const airportsByIcao = new Map(AIRPORTS.map((airport) => [airport.icao, airport]));
+
+const citiesByKey = new Map<string, City>();
+for (const city of CITIES) {
+  for (const key of [city.name, ...(city.aliases ?? [])]) {
+    citiesByKey.set(normalizeText(key), city);
+  }
+}
+const citiesByCode = new Map(
+  CITIES.filter((city) => city.code).map((city) => [city.code as string, city])
+);
+
+/**
+ * Look up an airport by IATA or ICAO code
+ * @param code - 3-letter IATA or 4-letter ICAO code (case-insensitive)
+ * @returns Airport or undefined if the code is unknown
+ */
+export function getAirport(code: string | undefined): Airport | undefined {
+  if (!code) return undefined;
+  const normalized = code.trim().toUpperCase();
+  if (normalized.length === 3) return airportsByIata.get(normalized);
+  if (normalized.length === 4) return airportsByIcao.get(normalized);
+  return undefined;
+}
+
+/**
+ * Check if a code is a known airport code
+ * @param code - IATA or ICAO code
+ * @returns True if the airport is in the dataset
+ */
+export function isKnownAirportCode(code: string | undefined): boolean {
+  return getAirport(code) !== undefined;
+}
+
+/**
+ * Look up a city by name, alias or IATA metropolitan code
+ * @param nameOrCode - City name (e.g., "Munich", "München") or metro code (e.g., "LON")
+ * @returns City or undefined if unknown
+ */
+export function getCity(nameOrCode: string | undefined): City | undefined {
+  if (!nameOrCode?.trim()) return undefined;
+  const trimmed = nameOrCode.trim();
+  if (/^[A-Z]{3}$/.test(trimmed)) {
+    const byCode = citiesByCode.get(trimmed);
+    if (byCode) return byCode;
+  }
+  return citiesByKey.get(normalizeText(trimmed));
+}
+
+/**
+ * Get the airports serving a city
+ * @param nameOrCode - City name, alias or metro code
+ * @returns Airports, main airport first (empty if the city is unknown)
+ */
+export function getCityAirports(nameOrCode: string | undefined): Airport[] {
+  const city = getCity(nameOrCode);
+  if (!city) return [];
+  return city.airports
+    .map((code) => airportsByIata.get(code))
+    .filter((airport): airport is Airport => airport !== undefined);
+}
+
+/**
+ * Find the airport closest to a pair of coordinates
+ * @param latitude - Latitude in decimal degrees
+ * @param longitude - Longitude in decimal degrees
+ * @param maxKm - Ignore airports further away than this
+ * @param country - Only consider airports in this ISO 3166-1 alpha-2 country
+ * @returns Nearest airport and its distance, or undefined if none is within range
+ */
+export function findNearestAirport(
+  latitude: number,
+  longitude: number,
+  maxKm = Number.POSITIVE_INFINITY,
+  country?: string
+): { airport: Airport; distanceKm: number } | undefined {
+  let nearest: { airport: Airport; distanceKm: number } | undefined;
+
+  for (const airport of AIRPORTS) {
+    if (country && airport.country !== country) continue;
+    const distanceKm = haversineKm(
+      latitude,
+      longitude,
+      airport.coordinates.latitude,
+      airport.coordinates.longitude
+    );
+    if (distanceKm <= maxKm && (!nearest || distanceKm < nearest.distanceKm)) {
+      nearest = { airport, distanceKm };
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * Search airports by code, name or city, tolerating typos
+ * @param query - Free text (e.g., "heathrow", "New York (JFK)", "Frankfrt")
+ * @param limit - Maximum number of results
+ * @param minScore - Drop results scoring below this
+ * @returns Matches, best first
+ */
+export function searchAirports(
+  query: string,
+  limit = 5,
+  minScore = DEFAULT_MIN_SCORE
+): AirportMatch[] {
+  const text = normalizeText(query);
+  if (!text) return [];
+
+  const codes = extractCodes(query);
+  const matches: AirportMatch[] = [];
+
+  for (const airport of AIRPORTS) {
+    let score = 0;
+
+    if (codes.includes(airport.iata) || codes.includes(airport.icao)) {
+      score = 1;
+    } else {
+      const city = getCity(airport.city);
+      const cityNames = [airport.city, ...(city?.aliases ?? [])];
+      score = Math.max(
+        similarity(text, normalizeText(airport.name)),
+        ...cityNames.map((name) => similarity(text, normalizeText(name)) * 0.9)
+      );
+      // Prefer a city's main airport when the query names the city
+      if (city && city.airports[0] !== airport.iata) {
+        score *= 0.95;
+      }
+    }
+
+    if (score >= minScore) {
+      matches.push({ airport, score });
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * Search cities by name or alias, tolerating typos
+ * @param query - Free text (e.g., "Lisboa", "Barcelna")
+ * @param limit - Maximum number of results
+ * @param minScore - Drop results scoring below this
+ * @returns Matches, best first
+ */
+export function searchCities(query: string, limit = 5, minScore = DEFAULT_MIN_SCORE): CityMatch[] {
+  const text = normalizeText(query);
+  if (!text) return [];
+
+  const exact = getCity(query);
+  const matches: CityMatch[] = [];
+
+  for (const city of CITIES) {
+    const score =
+      city === exact
+        ? 1
+        : Math.max(
+            ...[city.name, ...(city.aliases ?? [])].map((name) =>
+              similarity(text, normalizeText(name))
+            )
+          );
+    if (score >= minScore) {
+      matches.push({ city, score });
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * Resolve free text to a single airport
+ * Accepts codes ("JFK", "KJFK"), names with codes ("New York (JFK)"),
+ * airport names ("Heathrow") and city names ("Munich" → MUC).
+ * @param text - Airport description
+ * @returns Best airport or undefined if nothing matches confidently
+ */
+export function resolveAirport(text: string | undefined): Airport | undefined {
+  if (!text?.trim()) return undefined;
+
+  const byCode = getAirport(text);
+  if (byCode) return byCode;
+
+  const [best] = searchAirports(text, 1, RESOLVE_MIN_SCORE);
+  return best?.airport;
+}
+
+/**
+ * Find the airport a location refers to
+ * A known code counts when the location is an airport (or is assumed to be
+ * one, e.g. a flight origin) or when its name agrees with the airport, so
+ * non-airport codes that collide with IATA codes are not misread.
+ * @param location - Location to inspect
+ * @param assumeAirport - Treat the location as an airport regardless of its name
+ * @returns Airport or undefined
+ */
+export function findAirportForLocation(
+  location: Location | null | undefined,
+  assumeAirport = false
+): Airport | undefined {
+  if (!location) return undefined;
+
+  const isAirport =
+    assumeAirport ||
+    (location as Location & { type?: string }).type === 'AIRPORT' ||
+    /\bairport\b/i.test(location.name ?? '');
+
+  const byCode = getAirport(location.code);
+  if (byCode && (isAirport || nameMatchesAirport(location.name, byCode))) {
+    return byCode;
+  }
+
+  if (isAirport && location.name) {
+    return resolveAirport(location.name);
+  }
+
+  return undefined;
+}
+
+/**
+ * Check if a location is an airport
+ * @param location - Location to inspect
+ * @returns True for AIRPORT-typed locations and locations resolving to a known airport
+ */
+export function isAirportLocation(location: Location | null | undefined): boolean {
+  if (!location) return false;
+  if ((location as Location & { type?: string }).type === 'AIRPORT') return true;
+  return findAirportForLocation(location) !== undefined;
+}
+
+/**
+ * Resolve a free-text place (airport or city) to coordinates
+ * @param query - Place description
+ * @param minScore - Minimum match quality
+ * @returns Place or undefined if nothing matches
+ */
+export function lookupPlace(query: string, minScore = RESOLVE_MIN_SCORE): PlaceMatch | undefined {
+  const [airportMatch] = searchAirports(query, 1, minScore);
+  const [cityMatch] = searchCities(query, 1, minScore);
+
+  // An explicit airport code or an airport-named query wins over the city
+  const preferAirport =
+    airportMatch &&
+    (airportMatch.score === 1 ||
+      /\bairport\b/i.test(query) ||
+      !cityMatch ||
+      airportMatch.score > cityMatch.score);
+
+  if (airportMatch && preferAirport) {
+    const { airport, score } = airportMatch;
+    return {
+      name: airport.name,
+      latitude: airport.coordinates.latitude,
+      longitude: airport.coordinates.longitude,
+      country: airport.country,
+      timezone: airport.timezone,
+      score,
+      airport,
+    };
+  }
+
+  if (cityMatch) {
+    const { city, score } = cityMatch;
+    return {
+      name: city.name,
+      latitude: city.coordinates.latitude,
+      longitude: city.coordinates.longitude,
+      country: city.country,
+      timezone: city.timezone,
+      score,
+      city,
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Check if a location name agrees with an airport (code, name or city)
+ */
+function nameMatchesAirport(name: string | undefined, airport: Airport): boolean {
+  if (!name) return true;
+  if (extractCodes(name).includes(airport.iata)) return true;
+
+  const text = normalizeText(name);
+  const city = getCity(airport.city);
+  const candidates = [airport.name, airport.city, ...(city?.aliases ?? [])].map(normalizeText);
+  return candidates.some(
+    (candidate) => similarity(text, candidate) >= RESOLVE_MIN_SCORE || text.includes(candidate)
+  );
+}
+
+/**
+ * Extract airport codes from text
+ * Codes must be written in upper case (e.g., "New York (JFK)" → ["JFK"]),
+ * unless the whole text is a code.
+ */
+function extractCodes(text: string): string[] {
+  const trimmed = text.trim();
+  if (/^[a-z]{3,4}$/i.test(trimmed)) {
+    return [trimmed.toUpperCase()];
+  }
+  return trimmed.match(/\b[A-Z]{3,4}\b/g) ?? [];
+}
+
+/**
+ * Lower-case, strip accents and punctuation, collapse whitespace
+ */
+function normalizeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Similarity between a query and a candidate name (0-1)
+ * Combines whole-string edit distance with per-word matching, so
+ * "heathrow" matches "london heathrow airport" and "frankfrt" matches "frankfurt".
+ */
+function similarity(query: string, candidate: string): number {
+  if (!query || !candidate) return 0;
+  if (query === candidate) return 1;
+
+  const whole = 1 - levenshtein(query, candidate) / Math.max(query.length, candidate.length);
+
+  const queryWords = significantWords(query);
+  const candidateWords = significantWords(candidate);
+  if (queryWords.length === 0 || candidateWords.length === 0) {
+    return whole;
+  }
+
+  // Share of the candidate's words found in the query, allowing small typos
+  const matched = candidateWords.filter((word) =>
+    queryWords.some((queryWord) => wordsMatch(queryWord, word))
+  ).length;
+  const coverage = matched / candidateWords.length;
+
+  // Share of the query's words found in the candidate
+  const precision =
+    queryWords.filter((queryWord) => candidateWords.some((word) => wordsMatch(queryWord, word)))
+      .length / queryWords.length;
+
+  let words = Math.min(coverage, precision) * 0.85;
+  if (coverage === 1) {
+    words = 0.9 + 0.05 * precision;
+  } else if (precision === 1) {
+    // Every query word names the candidate (e.g., "heathrow" → "london heathrow")
+    words = 0.8 + 0.1 * coverage;
+  }
+  return Math.max(whole, words);
+}
+
+/**
+ * Words that carry meaning for matching
+ */
+function significantWords(text: string): string[] {
+  return text.split(' ').filter((word) => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Check if two words match, allowing one edit for words of five or more letters
+ */
+function wordsMatch(a: string, b: string): boolean {
+  if (a === b) return true;
+  if (Math.min(a.length, b.length) < 5) return false;
+  return levenshtein(a, b) <= 1;
+}
+
+/**
+ * Levenshtein edit distance
+ */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        (previous[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length] ?? 0;
+}
+
+/**
+ * Great-circle distance between two points in kilometers
+ * @param lat1 - Latitude of the first point
+ * @param lon1 - Longitude of the first point
+ * @param lat2 - Latitude of the second point
+ * @param lon2 - Longitude of the second point
+ * @returns Distance in kilometers
+ */
+export function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRadians = (degrees: number) => degrees * (Math.PI / 180);
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
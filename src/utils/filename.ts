@@ -0,0 +1,20 @@
+/**
+ * Download filename helpers
+ * @module utils/filename
+ */
+
+/**
+ * Build a download filename from a title
+ * @param title - Title to slugify (e.g., an itinerary title)
+ * @param extension - File extension without the dot
+ * @returns Filename such as "summer-in-lisbon.pdf" ("itinerary.<ext>" if nothing is left)
+ */
+export function toDownloadFilename(title: string, extension: string): string {
+  const slug = title
+    .normalize('NFKD')
+    .replace(/\p{Diacritic}/gu, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'itinerary'}.${extension}`;
+}
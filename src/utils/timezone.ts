@@ -0,0 +1,472 @@
+/**
+ * Timezone utilities - IANA zone inference and local-time formatting
+ * @module utils/timezone
+ *
+ * Segment datetimes are absolute instants. Every location-bound view of a
+ * segment (times, dates, day grouping) converts the instant into the IANA
+ * zone of the location it happens at.
+ */
+
+import type { Location } from '../domain/types/location.js';
+import type { Segment } from '../domain/types/segment.js';
+import { findAirportForLocation, findNearestAirport, getAirport, getCity } from './airports.js';
+import { parseLocalDateTime } from './date-parser.js';
+
+/**
+ * Countries that observe a single timezone (ISO 3166-1 alpha-2 → IANA zone)
+ * Multi-zone countries (US, CA, AU, BR, MX, RU, ...) are deliberately absent.
+ */
+const COUNTRY_TIMEZONES: Record<string, string> = {
+  AE: 'Asia/Dubai',
+  AR: 'America/Argentina/Buenos_Aires',
+  AT: 'Europe/Vienna',
+  BE: 'Europe/Brussels',
+  CH: 'Europe/Zurich',
+  CN: 'Asia/Shanghai',
+  CO: 'America/Bogota',
+  CZ: 'Europe/Prague',
+  DE: 'Europe/Berlin',
+  DK: 'Europe/Copenhagen',
+  EG: 'Africa/Cairo',
+  FI: 'Europe/Helsinki',
+  FR: 'Europe/Paris',
+  GB: 'Europe/London',
+  GR: 'Europe/Athens',
+  HK: 'Asia/Hong_Kong',
+  HU: 'Europe/Budapest',
+  IE: 'Europe/Dublin',
+  IL: 'Asia/Jerusalem',
+  IN: 'Asia/Kolkata',
+  IS: 'Atlantic/Reykjavik',
+  IT: 'Europe/Rome',
+  JP: 'Asia/Tokyo',
+  KR: 'Asia/Seoul',
+  MA: 'Africa/Casablanca',
+  NL: 'Europe/Amsterdam',
+  NO: 'Europe/Oslo',
+  NZ: 'Pacific/Auckland',
+  PE: 'America/Lima',
+  PH: 'Asia/Manila',
+  PL: 'Europe/Warsaw',
+  PT: 'Europe/Lisbon',
+  QA: 'Asia/Qatar',
+  SE: 'Europe/Stockholm',
+  SG: 'Asia/Singapore',
+  TH: 'Asia/Bangkok',
+  TR: 'Europe/Istanbul',
+  TW: 'Asia/Taipei',
+  VN: 'Asia/Ho_Chi_Minh',
+  ZA: 'Africa/Johannesburg',
+};
+
+/** Coordinates within this distance of a known airport share its zone */
+const NEAREST_AIRPORT_MAX_KM = 300;
+
+/** Matches ISO datetimes that carry no UTC offset (e.g., 2025-03-01T18:30:00) */
+const NAIVE_DATETIME_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/;
+
+/**
+ * Wall-clock date and time components in a timezone
+ */
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Check if a string is a valid IANA timezone identifier
+ * @param timeZone - Candidate zone
+ * @returns True if the runtime recognizes the zone
+ */
+export function isValidTimezone(timeZone: string | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Look up the timezone of an airport by IATA code
+ * @param code - IATA airport code
+ * @returns IANA zone or undefined if the airport is unknown
+ */
+export function getAirportTimezone(code: string | undefined): string | undefined {
+  return getAirport(code)?.timezone;
+}
+
+/**
+ * Infer the timezone at a pair of coordinates
+ * Uses the nearest known airport; far from any airport, falls back to the
+ * fixed-offset nautical zone for the longitude (no daylight saving).
+ * @param latitude - Latitude in decimal degrees
+ * @param longitude - Longitude in decimal degrees
+ * @returns IANA zone
+ */
+export function getTimezoneForCoordinates(latitude: number, longitude: number): string {
+  return (
+    findNearestAirport(latitude, longitude, NEAREST_AIRPORT_MAX_KM)?.airport.timezone ??
+    getNauticalTimezone(longitude)
+  );
+}
+
+/**
+ * Get the fixed-offset nautical zone for a longitude
+ */
+function getNauticalTimezone(longitude: number): string {
+  // Etc/GMT zones use inverted signs: Etc/GMT+5 is UTC-5
+  const offsetHours = Math.round(longitude / 15);
+  if (offsetHours === 0) return 'Etc/UTC';
+  return `Etc/GMT${offsetHours > 0 ? '-' : '+'}${Math.abs(offsetHours)}`;
+}
+
+/**
+ * Infer the IANA timezone of a location
+ * Checks, in order: an explicit timezone, the airport or city code, an
+ * airport near the coordinates, the city or airport name, the country
+ * (single-zone countries only), the nearest airport in the country, and
+ * finally the fixed-offset zone for the longitude, which ignores daylight
+ * saving and so comes last.
+ * @param location - Location to inspect
+ * @returns IANA zone or undefined if it cannot be inferred
+ */
+export function inferTimezone(location: Location | null | undefined): string | undefined {
+  if (!location) return undefined;
+
+  if (isValidTimezone(location.timezone)) {
+    return location.timezone;
+  }
+
+  const codeZone = getAirportTimezone(location.code) ?? getCity(location.code)?.timezone;
+  if (codeZone) return codeZone;
+
+  const coordinates = location.coordinates;
+  if (coordinates) {
+    const nearby = findNearestAirport(
+      coordinates.latitude,
+      coordinates.longitude,
+      NEAREST_AIRPORT_MAX_KM
+    );
+    if (nearby) return nearby.airport.timezone;
+  }
+
+  const namedZone =
+    getCity(location.address?.city)?.timezone ??
+    findAirportForLocation(location)?.timezone ??
+    getCity(location.name)?.timezone;
+  if (namedZone) return namedZone;
+
+  const country = location.address?.country?.trim().toUpperCase();
+  if (country && COUNTRY_TIMEZONES[country]) {
+    return COUNTRY_TIMEZONES[country];
+  }
+
+  if (coordinates) {
+    const inCountry = country
+      ? findNearestAirport(coordinates.latitude, coordinates.longitude, undefined, country)
+      : undefined;
+    return inCountry?.airport.timezone ?? getNauticalTimezone(coordinates.longitude);
+  }
+
+  return undefined;
+}
+
+/**
+ * Return a location with its timezone filled in when it can be inferred
+ * @param location - Location to enrich
+ * @returns Same location, or a copy with `timezone` set
+ */
+export function withInferredTimezone<T extends Location>(location: T): T {
+  if (location.timezone) return location;
+  const timezone = inferTimezone(location);
+  return timezone ? { ...location, timezone } : location;
+}
+
+/**
+ * Get the timezones a segment starts and ends in
+ * @param segment - Segment to inspect
+ * @returns Start and end zones (either may be undefined)
+ */
+export function getSegmentTimezones(segment: Segment): {
+  start: string | undefined;
+  end: string | undefined;
+} {
+  let startLocation: Location | undefined;
+  let endLocation: Location | undefined;
+
+  switch (segment.type) {
+    case 'FLIGHT':
+    case 'RAIL':
+      startLocation = segment.origin;
+      endLocation = segment.destination;
+      break;
+    case 'TRANSFER':
+      startLocation = segment.pickupLocation;
+      endLocation = segment.dropoffLocation;
+      break;
+    case 'CAR_RENTAL':
+      startLocation = segment.pickupLocation;
+      endLocation = segment.returnLocation;
+      break;
+    case 'HOTEL':
+    case 'ACTIVITY':
+    case 'MEETING':
+    case 'CUSTOM':
+      startLocation = segment.location;
+      endLocation = segment.location;
+      break;
+  }
+
+  const start = inferTimezone(startLocation);
+  const end = inferTimezone(endLocation) ?? start;
+  return { start: start ?? end, end };
+}
+
+/**
+ * Check if a datetime string has no UTC offset (a wall-clock time)
+ * @param value - ISO date or datetime string
+ * @returns True for strings like "2025-03-01T18:30:00" or "2025-03-01"
+ */
+export function isNaiveDateTime(value: string): boolean {
+  return NAIVE_DATETIME_PATTERN.test(value.trim());
+}
+
+/**
+ * Convert a wall-clock datetime string in a timezone to an absolute instant
+ * @param value - Datetime without offset (e.g., "2025-03-01T18:30:00")
+ * @param timeZone - IANA zone the wall-clock time is in
+ * @returns Instant, or undefined if the string is not a naive datetime
+ * @example
+ * wallClockToInstant('2025-01-15T18:00:00', 'America/New_York') // 2025-01-15T23:00:00Z
+ */
+export function wallClockToInstant(value: string, timeZone: string): Date | undefined {
+  const match = NAIVE_DATETIME_PATTERN.exec(value.trim());
+  if (!match) return undefined;
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+  return zonedPartsToInstant(
+    {
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      hour: Number(hour),
+      minute: Number(minute),
+      second: Number(second),
+    },
+    timeZone
+  );
+}
+
+/**
+ * Parse a datetime entered as local time at a location
+ * Wall-clock strings are read in `timeZone`; strings with an offset, Date
+ * objects and values at an unknown zone fall back to the default parser.
+ * @param value - Datetime string or Date
+ * @param timeZone - IANA zone of the location
+ * @returns Instant
+ */
+export function parseZonedDateTime(value: string | Date, timeZone: string | undefined): Date {
+  if (value instanceof Date) return value;
+  if (isValidTimezone(timeZone) && value.includes('T')) {
+    const instant = wallClockToInstant(value, timeZone);
+    if (instant) return instant;
+  }
+  return parseLocalDateTime(value);
+}
+
+/**
+ * Reinterpret a date whose UTC fields hold a wall-clock time as a time in a zone
+ * Used to repair "floating" times that were stored as if they were UTC.
+ * @param date - Date whose UTC components are the local wall-clock time
+ * @param timeZone - IANA zone the wall-clock time is in
+ * @returns Correct instant
+ */
+export function reinterpretAsZoned(date: Date, timeZone: string): Date {
+  const d = new Date(date);
+  return zonedPartsToInstant(
+    {
+      year: d.getUTCFullYear(),
+      month: d.getUTCMonth() + 1,
+      day: d.getUTCDate(),
+      hour: d.getUTCHours(),
+      minute: d.getUTCMinutes(),
+      second: d.getUTCSeconds(),
+    },
+    timeZone
+  );
+}
+
+/**
+ * Get the UTC offset of a timezone at an instant
+ * @param date - Instant
+ * @param timeZone - IANA zone
+ * @returns Offset in minutes east of UTC (e.g., -300 for New York in winter)
+ */
+export function getTimezoneOffsetMinutes(date: Date, timeZone: string): number {
+  const time = new Date(date).getTime();
+  const parts = getZonedParts(new Date(time), timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return Math.round((asUtc - Math.floor(time / 1000) * 1000) / 60000);
+}
+
+/**
+ * Format the UTC offset of a timezone at an instant
+ * @param date - Instant
+ * @param timeZone - IANA zone
+ * @returns Offset label (e.g., "GMT-5", "GMT+5:30", "GMT")
+ */
+export function formatUtcOffset(date: Date, timeZone: string): string {
+  const offset = getTimezoneOffsetMinutes(date, timeZone);
+  if (offset === 0) return 'GMT';
+
+  const sign = offset > 0 ? '+' : '-';
+  const hours = Math.floor(Math.abs(offset) / 60);
+  const minutes = Math.abs(offset) % 60;
+  return `GMT${sign}${hours}${minutes ? `:${String(minutes).padStart(2, '0')}` : ''}`;
+}
+
+/**
+ * Format an instant in a timezone
+ * @param date - Instant
+ * @param options - Intl formatting options
+ * @param timeZone - IANA zone (falls back to UTC when missing or invalid)
+ * @returns Formatted string
+ */
+export function formatInTimezone(
+  date: Date,
+  options: Intl.DateTimeFormatOptions,
+  timeZone?: string
+): string {
+  return new Date(date).toLocaleString('en-US', {
+    ...options,
+    timeZone: isValidTimezone(timeZone) ? timeZone : 'UTC',
+  });
+}
+
+/**
+ * Get the calendar date of an instant in a timezone
+ * @param date - Instant
+ * @param timeZone - IANA zone (falls back to UTC when missing or invalid)
+ * @returns Date key in YYYY-MM-DD format
+ */
+export function toLocalDateKey(date: Date, timeZone?: string): string {
+  const parts = getZonedParts(new Date(date), isValidTimezone(timeZone) ? timeZone : 'UTC');
+  return [
+    String(parts.year).padStart(4, '0'),
+    String(parts.month).padStart(2, '0'),
+    String(parts.day).padStart(2, '0'),
+  ].join('-');
+}
+
+/**
+ * Get the local hour (0-23) of an instant in a timezone
+ * @param date - Instant
+ * @param timeZone - IANA zone (falls back to UTC when missing or invalid)
+ * @returns Hour of day
+ */
+export function getLocalHour(date: Date, timeZone?: string): number {
+  return getZonedParts(new Date(date), isValidTimezone(timeZone) ? timeZone : 'UTC').hour;
+}
+
+/**
+ * Move an instant by whole calendar days, keeping its wall-clock time in a zone
+ * Across a daylight saving change the elapsed time is not a multiple of 24 hours.
+ * @param date - Instant
+ * @param days - Calendar days to move (negative = earlier)
+ * @param timeZone - IANA zone (falls back to UTC when missing or invalid)
+ * @returns Shifted instant
+ * @example
+ * addLocalDays(new Date('2025-03-08T14:00:00Z'), 1, 'America/New_York') // 2025-03-09T13:00:00Z
+ */
+export function addLocalDays(date: Date, days: number, timeZone?: string): Date {
+  const time = new Date(date).getTime();
+  if (!isValidTimezone(timeZone)) {
+    return new Date(time + days * 24 * 60 * 60 * 1000);
+  }
+
+  const parts = getZonedParts(new Date(time), timeZone);
+  const shiftedDay = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + days));
+  return zonedPartsToInstant(
+    {
+      ...parts,
+      year: shiftedDay.getUTCFullYear(),
+      month: shiftedDay.getUTCMonth() + 1,
+      day: shiftedDay.getUTCDate(),
+    },
+    timeZone
+  );
+}
+
+/**
+ * Convert wall-clock components in a zone to an instant
+ * Two passes handle offset changes (DST) between the guess and the result.
+ */
+function zonedPartsToInstant(parts: ZonedParts, timeZone: string): Date {
+  const guess = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  const firstOffset = getTimezoneOffsetMinutes(new Date(guess), timeZone);
+  let instant = guess - firstOffset * 60000;
+  const secondOffset = getTimezoneOffsetMinutes(new Date(instant), timeZone);
+  if (secondOffset !== firstOffset) {
+    instant = guess - secondOffset * 60000;
+  }
+  return new Date(instant);
+}
+
+/**
+ * Get wall-clock components of an instant in a zone
+ */
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+
+  const values: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') {
+      values[part.type] = Number(part.value);
+    }
+  }
+
+  return {
+    year: values.year ?? 1970,
+    month: values.month ?? 1,
+    day: values.day ?? 1,
+    hour: values.hour ?? 0,
+    minute: values.minute ?? 0,
+    second: values.second ?? 0,
+  };
+}
@@ -15,6 +15,7 @@ import {
   locationSchema,
   moneyInputSchema,
   moneySchema,
+  railSegmentSchema,
   segmentSchema,
   travelerSchema,
 } from '../../../src/domain/schemas/index.js';
@@ -244,6 +245,38 @@ describe('Segment Schemas', () => {
     });
   });
 
+  describe('railSegmentSchema', () => {
+    it('should validate a rail segment', () => {
+      const result = railSegmentSchema.parse({
+        ...baseFields,
+        type: 'RAIL',
+        operator: { name: 'Eurostar' },
+        trainNumber: '9014',
+        origin: { name: 'London St Pancras International' },
+        destination: { name: 'Paris Gare du Nord' },
+        coach: '7',
+        fareClass: 'Standard Premier',
+      });
+
+      expect(result.type).toBe('RAIL');
+      expect(result.trainNumber).toBe('9014');
+      expect(result.coach).toBe('7');
+    });
+
+    it('should reject missing train number', () => {
+      expect(() =>
+        railSegmentSchema.parse({
+          ...baseFields,
+          type: 'RAIL',
+          operator: { name: 'Eurostar' },
+          trainNumber: '',
+          origin: { name: 'London St Pancras International' },
+          destination: { name: 'Paris Gare du Nord' },
+        })
+      ).toThrow(ZodError);
+    });
+  });
+
   describe('segmentSchema (discriminated union)', () => {
     it('should parse flight segment', () => {
       const result = segmentSchema.parse({
@@ -271,6 +304,19 @@ describe('Segment Schemas', () => {
       expect(result.type).toBe('HOTEL');
     });
 
+    it('should parse rail segment', () => {
+      const result = segmentSchema.parse({
+        ...baseFields,
+        type: 'RAIL',
+        operator: { name: 'SNCF' },
+        trainNumber: 'TGV 6201',
+        origin: { name: 'Paris Gare de Lyon' },
+        destination: { name: 'Lyon Part-Dieu' },
+      });
+
+      expect(result.type).toBe('RAIL');
+    });
+
     it('should reject invalid segment type', () => {
       expect(() =>
         segmentSchema.parse({
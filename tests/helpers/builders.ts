@@ -0,0 +1,116 @@
+/**
+ * Builders for itineraries, segments and travelers in unit and service tests
+ * Each returns a valid object with fresh IDs; pass overrides for the fields a test checks
+ */
+
+import {
+  generateItineraryId,
+  generateSegmentId,
+  generateTravelerId,
+} from '../../src/domain/types/branded.js';
+import type { Itinerary } from '../../src/domain/types/itinerary.js';
+import type {
+  ActivitySegment,
+  FlightSegment,
+  HotelSegment,
+} from '../../src/domain/types/segment.js';
+import type { Traveler } from '../../src/domain/types/traveler.js';
+
+/**
+ * Create an itinerary without segments or travelers
+ */
+export function createTestItinerary(overrides: Partial<Itinerary> = {}): Itinerary {
+  return {
+    id: generateItineraryId(),
+    version: 1,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    title: 'Paris',
+    status: 'DRAFT',
+    destinations: [],
+    travelers: [],
+    segments: [],
+    tags: [],
+    metadata: {},
+    ...overrides,
+  };
+}
+
+/**
+ * Create an adult traveler
+ */
+export function createTestTraveler(overrides: Partial<Traveler> = {}): Traveler {
+  return {
+    id: generateTravelerId(),
+    type: 'ADULT',
+    firstName: 'Ana',
+    lastName: 'Doe',
+    loyaltyPrograms: [],
+    specialRequests: [],
+    metadata: {},
+    ...overrides,
+  };
+}
+
+/**
+ * Create a London to Paris flight
+ */
+export function createTestFlight(overrides: Partial<FlightSegment> = {}): FlightSegment {
+  return {
+    id: generateSegmentId(),
+    type: 'FLIGHT',
+    status: 'CONFIRMED',
+    startDatetime: new Date('2025-06-01T09:00:00Z'),
+    endDatetime: new Date('2025-06-01T11:00:00Z'),
+    travelerIds: [],
+    source: 'import',
+    metadata: {},
+    airline: { name: 'Air France', code: 'AF' },
+    flightNumber: 'AF1234',
+    origin: { name: 'Heathrow', code: 'LHR' },
+    destination: { name: 'Charles de Gaulle', code: 'CDG' },
+    ...overrides,
+  };
+}
+
+/**
+ * Create a four-night hotel stay in Paris
+ */
+export function createTestHotel(overrides: Partial<HotelSegment> = {}): HotelSegment {
+  return {
+    id: generateSegmentId(),
+    type: 'HOTEL',
+    status: 'CONFIRMED',
+    startDatetime: new Date('2025-06-01T15:00:00Z'),
+    endDatetime: new Date('2025-06-05T09:00:00Z'),
+    travelerIds: [],
+    source: 'import',
+    metadata: {},
+    property: { name: 'Hotel Lutetia' },
+    location: { name: 'Hotel Lutetia' },
+    checkInDate: new Date('2025-06-01'),
+    checkOutDate: new Date('2025-06-05'),
+    roomCount: 1,
+    amenities: [],
+    ...overrides,
+  };
+}
+
+/**
+ * Create a two-hour activity in Paris
+ */
+export function createTestActivity(overrides: Partial<ActivitySegment> = {}): ActivitySegment {
+  return {
+    id: generateSegmentId(),
+    type: 'ACTIVITY',
+    status: 'CONFIRMED',
+    startDatetime: new Date('2025-06-02T08:00:00Z'),
+    endDatetime: new Date('2025-06-02T10:00:00Z'),
+    travelerIds: [],
+    source: 'user',
+    metadata: {},
+    name: 'Louvre tour',
+    location: { name: 'Louvre', timezone: 'Europe/Paris' },
+    ...overrides,
+  };
+}
@@ -27,6 +27,15 @@ export {
 } from './fixtures.js';
 export type { Persona, ItineraryFixtureName, PersonaFixtureName } from './fixtures.js';
 
+// Builders
+export {
+  createTestItinerary,
+  createTestTraveler,
+  createTestFlight,
+  createTestHotel,
+  createTestActivity,
+} from './builders.js';
+
 // Assertions
 export {
   assertValidItinerary,
@@ -0,0 +1,202 @@
+/**
+ * Tests for BudgetService
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { Itinerary } from '../../src/domain/types/itinerary.js';
+import type { FlightSegment, HotelSegment } from '../../src/domain/types/segment.js';
+import type { TripTravelerPreferences } from '../../src/domain/types/traveler.js';
+import { BudgetService } from '../../src/services/budget.service.js';
+import { StaticExchangeRateProvider } from '../../src/services/exchange-rate.service.js';
+import {
+  createTestActivity,
+  createTestFlight,
+  createTestHotel,
+  createTestItinerary,
+  createTestTraveler,
+} from '../helpers/builders.js';
+
+const rates = new StaticExchangeRateProvider({ base: 'USD', rates: { EUR: 0.8 } });
+
+function flight(amount: number, extra: Partial<FlightSegment> = {}): FlightSegment {
+  return createTestFlight({ totalPrice: { amount, currency: 'USD' }, ...extra });
+}
+
+function hotel(amount: number, extra: Partial<HotelSegment> = {}): HotelSegment {
+  return createTestHotel({
+    location: { name: 'Hotel Lutetia', timezone: 'Europe/Paris' },
+    totalPrice: { amount, currency: 'EUR' },
+    ...extra,
+  });
+}
+
+function itinerary(
+  segments: Itinerary['segments'],
+  budget?: TripTravelerPreferences['budget'],
+  travelerCount = 1
+): Itinerary {
+  return createTestItinerary({
+    status: 'PLANNED',
+    startDate: new Date('2025-06-01'),
+    endDate: new Date('2025-06-05'),
+    travelers: Array.from({ length: travelerCount }, (_, index) =>
+      createTestTraveler({ firstName: `Traveler ${index + 1}`, lastName: 'Smith' })
+    ),
+    segments,
+    ...(budget && { tripPreferences: { budget } }),
+  });
+}
+
+describe('BudgetService', () => {
+  const service = new BudgetService(rates);
+
+  it('should fail when the itinerary has no budget', async () => {
+    const result = await service.analyze(itinerary([flight(10000)]));
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.code).toBe('MISSING_FIELD');
+    }
+  });
+
+  it('should compare converted spend with a total budget', async () => {
+    const trip = itinerary([flight(40000), hotel(80000)], {
+      amount: 2000,
+      currency: 'USD',
+      period: 'total',
+    });
+
+    const result = await service.analyze(trip);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.value.total).toMatchObject({
+      budget: { amount: 200000, currency: 'USD' },
+      spent: { amount: 140000, currency: 'USD' },
+      percentUsed: 70,
+      status: 'under',
+    });
+    expect(result.value.overruns).toEqual([]);
+  });
+
+  it('should separate committed spend from projected spend', async () => {
+    const trip = itinerary([flight(40000), flight(10000, { status: 'TENTATIVE' })], {
+      amount: 1000,
+      currency: 'USD',
+    });
+
+    const result = await service.analyze(trip);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.value.total.spent.amount).toBe(40000);
+    expect(result.value.total.projected.amount).toBe(50000);
+  });
+
+  it('should normalize per-day budgets over the trip days', async () => {
+    const trip = itinerary([hotel(40000)], { amount: 150, currency: 'USD', period: 'per_day' });
+
+    const result = await service.analyze(trip);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.value.days).toBe(5);
+    expect(result.value.total.budget.amount).toBe(75000);
+    expect(result.value.perPeriod).toMatchObject({
+      budget: { amount: 15000 },
+      projected: { amount: 10000 },
+    });
+    // The hotel is spread over its four nights, not the check-out day
+    expect(result.value.byDay.map((day) => day.projected.amount)).toEqual([
+      12500, 12500, 12500, 12500, 0,
+    ]);
+  });
+
+  it('should normalize per-person budgets over the travelers', async () => {
+    const trip = itinerary(
+      [flight(90000)],
+      { amount: 500, currency: 'USD', period: 'per_person' },
+      2
+    );
+
+    const result = await service.analyze(trip);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.value.total.budget.amount).toBe(100000);
+    expect(result.value.perPeriod.projected.amount).toBe(45000);
+    expect(result.value.perPeriod.status).toBe('near');
+  });
+
+  it('should flag category and day overruns', async () => {
+    const trip = itinerary([flight(20000), hotel(94400)], {
+      amount: 2000,
+      currency: 'USD',
+    });
+
+    const result = await service.analyze(trip, { allocation: { FLIGHT: 50, HOTEL: 50 } });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const hotels = result.value.byCategory.find((line) => line.category === 'HOTEL');
+    expect(hotels).toMatchObject({ budget: { amount: 100000 }, projected: { amount: 118000 } });
+    expect(result.value.overruns.find((overrun) => overrun.scope === 'category')).toMatchObject({
+      key: 'HOTEL',
+      percentOver: 18,
+      message: '18% over budget on hotels ($180.00 over)',
+    });
+    expect(result.value.overruns.filter((overrun) => overrun.scope === 'day')).toHaveLength(0);
+  });
+
+  it('should amortize flights across the trip when tracking daily spend', async () => {
+    const dinner = createTestActivity({
+      startDatetime: new Date('2025-06-03T18:00:00Z'),
+      endDatetime: new Date('2025-06-03T21:00:00Z'),
+      name: 'Tasting menu',
+      location: { name: 'Le Cinq', timezone: 'Europe/Paris' },
+      totalPrice: { amount: 30000, currency: 'USD' },
+    });
+    const trip = itinerary([flight(50000), dinner], {
+      amount: 200,
+      currency: 'USD',
+      period: 'per_day',
+    });
+
+    const result = await service.analyze(trip);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.value.byDay.map((day) => day.projected.amount)).toEqual([
+      10000, 10000, 40000, 10000, 10000,
+    ]);
+    expect(result.value.overruns).toEqual([
+      expect.objectContaining({ scope: 'day', key: '2025-06-03', percentOver: 100 }),
+    ]);
+  });
+
+  it('should report unpriced segments', async () => {
+    const activity = createTestActivity({
+      startDatetime: new Date('2025-06-02T10:00:00Z'),
+      endDatetime: new Date('2025-06-02T12:00:00Z'),
+      name: 'Louvre',
+      location: { name: 'Louvre' },
+    });
+
+    const result = await service.analyze(itinerary([activity], { amount: 100, currency: 'USD' }));
+
+    expect(result.success && result.value.unpricedSegmentIds).toEqual([activity.id]);
+  });
+
+  it('should report how old the exchange rates are', async () => {
+    const trip = itinerary([hotel(80000)], { amount: 2000, currency: 'USD' });
+    const dated = new BudgetService(
+      new StaticExchangeRateProvider({ base: 'USD', asOf: '2025-05-30', rates: { EUR: 0.8 } })
+    );
+
+    const withDate = await dated.analyze(trip);
+    const withoutDate = await service.analyze(trip);
+
+    expect(withDate.success && withDate.value.ratesAsOf).toBe('2025-05-30');
+    expect(withoutDate.success && 'ratesAsOf' in withoutDate.value).toBe(false);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Tests for CalendarFeedService
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { ItineraryId } from '../../src/domain/types/branded.js';
+import type { Itinerary } from '../../src/domain/types/itinerary.js';
+import type { ActivitySegment } from '../../src/domain/types/segment.js';
+import {
+  CalendarFeedService,
+  omitCalendarFeeds,
+  toWebcalUrl,
+} from '../../src/services/calendar-feed.service.js';
+import { SegmentService } from '../../src/services/segment.service.js';
+import { InMemoryItineraryStorage } from '../../src/storage/in-memory-storage.js';
+import { createTestActivity, createTestItinerary } from '../helpers/builders.js';
+
+function activity(name: string): ActivitySegment {
+  return createTestActivity({
+    startDatetime: new Date('2025-07-02T08:00:00Z'),
+    endDatetime: new Date('2025-07-02T10:00:00Z'),
+    name,
+  });
+}
+
+function itinerary(title: string, createdBy: string): Itinerary {
+  return createTestItinerary({ title, createdBy });
+}
+
+describe('CalendarFeedService', () => {
+  let storage: InMemoryItineraryStorage;
+  let feedService: CalendarFeedService;
+  let segmentService: SegmentService;
+
+  beforeEach(() => {
+    storage = new InMemoryItineraryStorage();
+    feedService = new CalendarFeedService(storage);
+    segmentService = new SegmentService(storage);
+  });
+
+  async function createTrip(title: string, createdBy = 'ana@example.com'): Promise<ItineraryId> {
+    const trip = itinerary(title, createdBy);
+    await storage.save(trip);
+    return trip.id;
+  }
+
+  it('serves an itinerary feed that reflects later changes', async () => {
+    const id = await createTrip('Paris');
+    const feed = await feedService.createItineraryFeed(id);
+    expect(feed.success).toBe(true);
+    if (!feed.success) return;
+    expect(feed.value.path).toBe(`/api/v1/feeds/itineraries/${id}/${feed.value.token}.ics`);
+
+    await segmentService.add(id, activity('Louvre tour'));
+    const calendar = await feedService.renderItineraryFeed(id, feed.value.token);
+
+    expect(calendar.success).toBe(true);
+    if (!calendar.success) return;
+    expect(calendar.value).toContain('SUMMARY:Louvre tour');
+    expect(calendar.value).toContain('REFRESH-INTERVAL;VALUE=DURATION:PT1H');
+  });
+
+  it('rejects unknown and revoked tokens', async () => {
+    const id = await createTrip('Paris');
+    const feed = await feedService.createItineraryFeed(id);
+    if (!feed.success) throw new Error(feed.error.message);
+
+    const wrong = await feedService.renderItineraryFeed(id, 'not-a-token');
+    expect(!wrong.success && wrong.error.code).toBe('NOT_FOUND');
+
+    const revoked = await feedService.revokeItineraryFeed(id, feed.value.token);
+    expect(revoked.success).toBe(true);
+
+    const afterRevoke = await feedService.renderItineraryFeed(id, feed.value.token);
+    expect(!afterRevoke.success && afterRevoke.error.code).toBe('NOT_FOUND');
+
+    const listed = await feedService.listItineraryFeeds(id);
+    expect(listed.success && listed.value).toEqual([]);
+  });
+
+  it('stores tokens on the itinerary as a new version', async () => {
+    const id = await createTrip('Paris');
+    const feed = await feedService.createItineraryFeed(id);
+    if (!feed.success) throw new Error(feed.error.message);
+
+    const loaded = await storage.load(id);
+    expect(loaded.success && loaded.value.version).toBe(2);
+    expect(loaded.success && loaded.value.calendarFeeds?.map((f) => f.token)).toEqual([
+      feed.value.token,
+    ]);
+  });
+
+  it('aggregates all itineraries of a user into one feed', async () => {
+    const paris = await createTrip('Paris');
+    const rome = await createTrip('Rome');
+    const other = await createTrip('Oslo', 'bo@example.com');
+    await segmentService.add(paris, activity('Louvre tour'));
+    await segmentService.add(rome, activity('Colosseum tour'));
+    await segmentService.add(other, activity('Fjord cruise'));
+
+    const feed = await feedService.createUserFeed('ana@example.com');
+    if (!feed.success) throw new Error(feed.error.message);
+    expect(feed.value.path).toBe(`/api/v1/feeds/users/ana%40example.com/${feed.value.token}.ics`);
+
+    const calendar = await feedService.renderUserFeed('ana@example.com', feed.value.token);
+    expect(calendar.success).toBe(true);
+    if (!calendar.success) return;
+    expect(calendar.value).toContain('SUMMARY:Louvre tour');
+    expect(calendar.value).toContain('SUMMARY:Colosseum tour');
+    expect(calendar.value).not.toContain('Fjord cruise');
+
+    // The token does not unlock another user's feed or a single itinerary feed
+    const otherUser = await feedService.renderUserFeed('bo@example.com', feed.value.token);
+    expect(otherUser.success).toBe(false);
+    const single = await feedService.renderItineraryFeed(paris, feed.value.token);
+    expect(single.success).toBe(false);
+  });
+
+  it('revokes a user feed on every itinerary', async () => {
+    await createTrip('Paris');
+    await createTrip('Rome');
+    const feed = await feedService.createUserFeed('ana@example.com');
+    if (!feed.success) throw new Error(feed.error.message);
+
+    const listed = await feedService.listUserFeeds('ana@example.com');
+    expect(listed.success && listed.value.map((f) => f.token)).toEqual([feed.value.token]);
+
+    const revoked = await feedService.revokeUserFeed('ana@example.com', feed.value.token);
+    expect(revoked.success).toBe(true);
+
+    const calendar = await feedService.renderUserFeed('ana@example.com', feed.value.token);
+    expect(!calendar.success && calendar.error.code).toBe('NOT_FOUND');
+  });
+
+  it('refuses a user feed for a user without itineraries', async () => {
+    const result = await feedService.createUserFeed('nobody@example.com');
+
+    expect(!result.success && result.error.code).toBe('NOT_FOUND');
+  });
+});
+
+describe('toWebcalUrl', () => {
+  it('swaps the scheme for webcal', () => {
+    expect(toWebcalUrl('https://trips.example.com/', '/api/v1/feeds/users/a/b.ics')).toBe(
+      'webcal://trips.example.com/api/v1/feeds/users/a/b.ics'
+    );
+  });
+});
+
+describe('omitCalendarFeeds', () => {
+  it('drops feed tokens from itineraries nested anywhere in a response', () => {
+    const trip = {
+      ...itinerary('Paris', 'ana@example.com'),
+      calendarFeeds: [{ token: 'secret', scope: 'user' as const, createdAt: new Date() }],
+    };
+
+    const body = JSON.stringify({ itinerary: trip, snapshots: [trip] }, omitCalendarFeeds);
+
+    expect(body).not.toContain('secret');
+    expect(JSON.parse(body).itinerary.title).toBe('Paris');
+  });
+});
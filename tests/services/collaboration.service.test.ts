@@ -0,0 +1,236 @@
+/**
+ * Tests for CollaborationService and shared itinerary listings
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { collaboratorInviteSchema } from '../../src/domain/schemas/itinerary.schema.js';
+import { generateItineraryId } from '../../src/domain/types/branded.js';
+import type { Itinerary } from '../../src/domain/types/itinerary.js';
+import { getItineraryRole, hasRole } from '../../src/domain/utils/collaborators.js';
+import { CollaborationService } from '../../src/services/collaboration.service.js';
+import { InMemoryItineraryStorage } from '../../src/storage/in-memory-storage.js';
+import { createTestItinerary } from '../helpers/builders.js';
+
+function itinerary(overrides: Partial<Itinerary> = {}): Itinerary {
+  const now = new Date('2025-01-01T00:00:00Z');
+  return createTestItinerary({
+    createdAt: now,
+    updatedAt: now,
+    title: 'Lisbon trip',
+    status: 'PLANNED',
+    createdBy: 'Owner@Example.com',
+    ...overrides,
+  });
+}
+
+describe('collaborator roles', () => {
+  it('treats the creator as owner regardless of email case', () => {
+    expect(getItineraryRole(itinerary(), ' owner@example.com ')).toBe('owner');
+  });
+
+  it('returns the collaborator role or undefined for strangers', () => {
+    const trip = itinerary({
+      collaborators: [{ email: 'Ed@Example.com', role: 'editor', invitedAt: new Date() }],
+    });
+
+    expect(getItineraryRole(trip, 'ed@example.com')).toBe('editor');
+    expect(getItineraryRole(trip, 'stranger@example.com')).toBeUndefined();
+  });
+
+  it('orders roles viewer < editor < owner', () => {
+    expect(hasRole('owner', 'editor')).toBe(true);
+    expect(hasRole('editor', 'editor')).toBe(true);
+    expect(hasRole('viewer', 'editor')).toBe(false);
+    expect(hasRole(undefined, 'viewer')).toBe(false);
+  });
+});
+
+describe('collaboratorInviteSchema', () => {
+  it('requires a valid email and role', () => {
+    expect(collaboratorInviteSchema.safeParse({ email: 'a@b.com', role: 'viewer' }).success).toBe(
+      true
+    );
+    expect(collaboratorInviteSchema.safeParse({ email: 'nope', role: 'viewer' }).success).toBe(
+      false
+    );
+    expect(collaboratorInviteSchema.safeParse({ email: 'a@b.com', role: 'admin' }).success).toBe(
+      false
+    );
+  });
+});
+
+describe('CollaborationService', () => {
+  let storage: InMemoryItineraryStorage;
+  let service: CollaborationService;
+  let trip: Itinerary;
+
+  beforeEach(async () => {
+    storage = new InMemoryItineraryStorage();
+    service = new CollaborationService(storage);
+    trip = itinerary();
+    await storage.save(trip);
+  });
+
+  describe('invite', () => {
+    it('adds a collaborator and saves a new version', async () => {
+      const result = await service.invite(
+        trip.id,
+        { email: 'ed@example.com', role: 'editor' },
+        'owner@example.com'
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toMatchObject({
+          email: 'ed@example.com',
+          role: 'editor',
+          invitedBy: 'owner@example.com',
+        });
+      }
+
+      const loaded = await storage.load(trip.id);
+      expect(loaded.success && loaded.value.version).toBe(2);
+      expect(loaded.success && loaded.value.collaborators).toHaveLength(1);
+    });
+
+    it('changes the role of an existing collaborator instead of adding a duplicate', async () => {
+      await service.invite(trip.id, { email: 'ed@example.com', role: 'viewer' });
+      const result = await service.invite(trip.id, { email: 'ED@example.com', role: 'editor' });
+
+      expect(result.success).toBe(true);
+      const loaded = await storage.load(trip.id);
+      expect(loaded.success && loaded.value.collaborators).toEqual([
+        expect.objectContaining({ email: 'ed@example.com', role: 'editor' }),
+      ]);
+    });
+
+    it('rejects inviting the creator', async () => {
+      const result = await service.invite(trip.id, { email: 'owner@example.com', role: 'viewer' });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('CONSTRAINT_VIOLATION');
+      }
+    });
+
+    it('returns NOT_FOUND for unknown itineraries', async () => {
+      const result = await service.invite(generateItineraryId(), {
+        email: 'ed@example.com',
+        role: 'editor',
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('NOT_FOUND');
+      }
+    });
+  });
+
+  describe('authorize', () => {
+    beforeEach(async () => {
+      await service.invite(trip.id, { email: 'viewer@example.com', role: 'viewer' });
+    });
+
+    it('grants access at or below the user role', async () => {
+      const result = await service.authorize(trip.id, 'viewer@example.com', 'viewer');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.role).toBe('viewer');
+      }
+    });
+
+    it('returns FORBIDDEN when the role is too low', async () => {
+      const result = await service.authorize(trip.id, 'viewer@example.com', 'editor');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('FORBIDDEN');
+      }
+    });
+
+    it('hides itineraries that are not shared with the user', async () => {
+      const result = await service.authorize(trip.id, 'stranger@example.com', 'viewer');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('NOT_FOUND');
+      }
+    });
+  });
+
+  describe('listCollaborators', () => {
+    it('lists the creator first as owner', async () => {
+      await service.invite(trip.id, { email: 'ed@example.com', role: 'editor' });
+
+      const result = await service.listCollaborators(trip.id);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.map((c) => [c.email, c.role])).toEqual([
+          ['Owner@Example.com', 'owner'],
+          ['ed@example.com', 'editor'],
+        ]);
+      }
+    });
+  });
+
+  describe('remove', () => {
+    it('stops sharing with a collaborator', async () => {
+      await service.invite(trip.id, { email: 'ed@example.com', role: 'editor' });
+
+      const result = await service.remove(trip.id, 'Ed@Example.com');
+
+      expect(result.success).toBe(true);
+      const authorized = await service.authorize(trip.id, 'ed@example.com', 'viewer');
+      expect(authorized.success).toBe(false);
+    });
+
+    it('returns NOT_FOUND for users who are not collaborators', async () => {
+      const result = await service.remove(trip.id, 'stranger@example.com');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('NOT_FOUND');
+      }
+    });
+
+    it('refuses to remove the creator', async () => {
+      const result = await service.remove(trip.id, 'owner@example.com');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('CONSTRAINT_VIOLATION');
+      }
+    });
+  });
+
+  describe('shared listings', () => {
+    it('includes trips shared with the user in their list', async () => {
+      await storage.save(itinerary({ title: 'Someone else', createdBy: 'other@example.com' }));
+      await service.invite(trip.id, { email: 'ed@example.com', role: 'editor' });
+
+      const result = await storage.listByUser('ed@example.com');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.map((s) => s.title)).toEqual(['Lisbon trip']);
+        expect(result.value[0]?.collaborators).toEqual([
+          { email: 'ed@example.com', role: 'editor' },
+        ]);
+      }
+    });
+
+    it('filters queries by accessibleBy', async () => {
+      await storage.save(itinerary({ title: 'Someone else', createdBy: 'other@example.com' }));
+      await service.invite(trip.id, { email: 'ed@example.com', role: 'viewer' });
+
+      const result = await storage.query({ accessibleBy: 'ED@example.com' });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.items.map((s) => s.title)).toEqual(['Lisbon trip']);
+      }
+    });
+  });
+});
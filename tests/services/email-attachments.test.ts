@@ -0,0 +1,299 @@
+/**
+ * Tests for email attachment import: pkpass parsing and body/attachment merging
+ */
+
+import { deflateRawSync } from 'node:zlib';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { LLMExtractor } from '../../src/services/import/extractors/llm.extractor.js';
+import { ImportService, mergeEmailParts } from '../../src/services/import/index.js';
+import { PkpassParser } from '../../src/services/import/parsers/pkpass.parser.js';
+import type { ExtractedSegment, ImportResult } from '../../src/services/import/types.js';
+import { readZipEntry } from '../../src/services/import/utils/zip.js';
+
+/**
+ * Build a ZIP archive, deflating entries when asked
+ */
+function zip(files: Record<string, string>, deflate = true): Buffer {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, text] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name, 'utf8');
+    const raw = Buffer.from(text, 'utf8');
+    const data = deflate ? deflateRawSync(raw) : raw;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(deflate ? 8 : 0, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(deflate ? 8 : 0, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(raw.length, 24);
+    entry.writeUInt16LE(nameBytes.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    central.push(entry, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const boardingPass = {
+  formatVersion: 1,
+  organizationName: 'British Airways',
+  description: 'Boarding pass',
+  serialNumber: 'BP-1',
+  relevantDate: '2025-07-01T07:30:00Z',
+  semantics: {
+    airlineCode: 'BA',
+    flightNumber: 304,
+    departureAirportCode: 'LHR',
+    departureAirportName: 'London Heathrow',
+    arrivalAirportCode: 'CDG',
+    arrivalAirportName: 'Paris Charles de Gaulle',
+    originalDepartureDate: '2025-07-01T08:00:00Z',
+    originalArrivalDate: '2025-07-01T10:15:00Z',
+    departureTerminal: '5',
+    confirmationNumber: 'ABC123',
+    seats: [{ seatNumber: '14C' }],
+  },
+  boardingPass: {
+    transitType: 'PKTransitTypeAir',
+    primaryFields: [
+      { key: 'origin', label: 'London', value: 'LHR' },
+      { key: 'destination', label: 'Paris', value: 'CDG' },
+    ],
+  },
+};
+
+function flightSegment(overrides: Partial<Record<string, unknown>> = {}): ExtractedSegment {
+  return {
+    type: 'FLIGHT',
+    status: 'CONFIRMED',
+    startDatetime: new Date('2025-07-01T08:00:00Z'),
+    endDatetime: new Date('2025-07-01T10:15:00Z'),
+    airline: { name: 'British Airways', code: 'BA' },
+    flightNumber: 'BA304',
+    origin: { name: 'Heathrow', code: 'LHR' },
+    destination: { name: 'Charles de Gaulle', code: 'CDG' },
+    confirmationNumber: 'ABC123',
+    confidence: 0.7,
+    ...overrides,
+  } as unknown as ExtractedSegment;
+}
+
+function result(segments: ExtractedSegment[], overrides: Partial<ImportResult> = {}): ImportResult {
+  return {
+    success: segments.length > 0,
+    format: 'email',
+    segments,
+    confidence: segments.length > 0 ? 0.8 : 0,
+    ...overrides,
+  };
+}
+
+describe('PkpassParser', () => {
+  const parser = new PkpassParser();
+
+  it('reads a deflated or stored pass.json', () => {
+    const json = JSON.stringify({ hello: 'world' });
+    expect(readZipEntry(zip({ 'pass.json': json }), 'pass.json')?.toString()).toBe(json);
+    expect(readZipEntry(zip({ 'pass.json': json }, false), 'pass.json')?.toString()).toBe(json);
+    expect(readZipEntry(zip({ 'pass.json': json }), 'missing.json')).toBeUndefined();
+    expect(readZipEntry(Buffer.from('not a zip'), 'pass.json')).toBeUndefined();
+  });
+
+  it('converts a boarding pass with semantic tags to a flight', async () => {
+    const parsed = await parser.parse({
+      source: 'email',
+      content: zip({ 'pass.json': JSON.stringify(boardingPass), 'icon.png': 'png' }),
+    });
+
+    expect(parsed.success).toBe(true);
+    expect(parsed.segments).toHaveLength(1);
+    expect(parsed.segments[0]).toMatchObject({
+      type: 'FLIGHT',
+      status: 'CONFIRMED',
+      flightNumber: 'BA304',
+      airline: { name: 'British Airways', code: 'BA' },
+      origin: { code: 'LHR', name: 'London Heathrow' },
+      destination: { code: 'CDG' },
+      confirmationNumber: 'ABC123',
+      seatAssignments: { default: '14C' },
+      endDatetime: new Date('2025-07-01T10:15:00Z'),
+      confidence: 0.9,
+    });
+  });
+
+  it('estimates the end of an event ticket and lowers confidence', async () => {
+    const ticket = {
+      organizationName: 'Royal Albert Hall',
+      voided: true,
+      eventTicket: {
+        primaryFields: [{ key: 'event', label: 'Event', value: 'Proms 12' }],
+        secondaryFields: [
+          { key: 'date', label: 'Date', value: '2025-07-02T19:30:00Z' },
+          { key: 'venue', label: 'Venue', value: 'Royal Albert Hall' },
+        ],
+      },
+    };
+    const parsed = await parser.parse({
+      source: 'email',
+      content: zip({ 'pass.json': JSON.stringify(ticket) }),
+    });
+
+    expect(parsed.segments[0]).toMatchObject({
+      type: 'ACTIVITY',
+      status: 'CANCELLED',
+      name: 'Proms 12',
+      location: { name: 'Royal Albert Hall' },
+      endDatetime: new Date('2025-07-02T22:30:00Z'),
+      confidence: 0.6,
+    });
+  });
+
+  it('reports a bundle without pass.json', async () => {
+    const parsed = await parser.parse({ source: 'email', content: zip({ 'icon.png': 'png' }) });
+    expect(parsed.success).toBe(false);
+    expect(parsed.errors?.[0]).toContain('pass.json');
+  });
+});
+
+describe('mergeEmailParts', () => {
+  it('merges one booking, keeping the more confident values and filling gaps', () => {
+    const merged = mergeEmailParts([
+      { part: { kind: 'body' }, result: result([flightSegment({ confidence: 0.7 })]) },
+      {
+        part: { kind: 'attachment', filename: 'boarding.pkpass' },
+        result: result([
+          flightSegment({
+            confidence: 0.9,
+            startDatetime: new Date('2025-07-01T08:30:00Z'),
+            origin: { name: 'London Heathrow', code: 'LHR' },
+            seatAssignments: { default: '14C' },
+            confirmationNumber: undefined,
+          }),
+        ]),
+      },
+    ]);
+
+    expect(merged.success).toBe(true);
+    expect(merged.segments).toHaveLength(1);
+    const segment = merged.segments[0] as ExtractedSegment & Record<string, unknown>;
+    expect(segment.startDatetime).toEqual(new Date('2025-07-01T08:30:00Z'));
+    expect(segment.origin).toEqual({ name: 'London Heathrow', code: 'LHR' });
+    expect(segment.seatAssignments).toEqual({ default: '14C' });
+    expect(segment.confirmationNumber).toBe('ABC123');
+    expect(segment.confidence).toBe(0.9);
+    expect(segment.sourceDetails?.emailParts).toEqual([
+      { kind: 'attachment', filename: 'boarding.pkpass' },
+      { kind: 'body' },
+    ]);
+    expect(merged.errors).toEqual([
+      'FLIGHT BA304: email body disagrees on startDatetime, origin; kept boarding.pkpass ' +
+        '(confidence 0.90 vs 0.70)',
+    ]);
+    expect(merged.summary).toBe('Found 1 booking(s) in email body, boarding.pkpass');
+  });
+
+  it('keeps bookings with different confirmation numbers apart', () => {
+    const merged = mergeEmailParts([
+      { part: { kind: 'body' }, result: result([flightSegment()]) },
+      {
+        part: { kind: 'attachment', filename: 'return.pdf' },
+        result: result([flightSegment({ confirmationNumber: 'XYZ789' })]),
+      },
+    ]);
+
+    expect(merged.segments).toHaveLength(2);
+    expect(merged.segments.map((segment) => segment.sourceDetails?.emailParts)).toEqual([
+      [{ kind: 'body' }],
+      [{ kind: 'attachment', filename: 'return.pdf' }],
+    ]);
+    expect(merged.errors).toBeUndefined();
+  });
+
+  it('treats parts without bookings as empty, not failed', () => {
+    const merged = mergeEmailParts([
+      { part: { kind: 'body' }, result: result([], { summary: 'No bookings found' }) },
+      {
+        part: { kind: 'attachment', filename: 'ticket.pdf' },
+        result: result([flightSegment()], { format: 'pdf' }),
+      },
+    ]);
+    expect(merged.success).toBe(true);
+    expect(merged.segments).toHaveLength(1);
+
+    const empty = mergeEmailParts([{ part: { kind: 'body' }, result: result([]) }]);
+    expect(empty.success).toBe(true);
+    expect(empty.segments).toEqual([]);
+
+    const failed = mergeEmailParts([
+      { part: { kind: 'body' }, result: result([]) },
+      {
+        part: { kind: 'attachment', filename: 'ticket.pdf' },
+        result: result([], { format: 'pdf', errors: ['No text found'] }),
+      },
+    ]);
+    expect(failed.success).toBe(false);
+    expect(failed.errors).toEqual(['ticket.pdf: No text found']);
+  });
+});
+
+describe('ImportService email attachments', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(LLMExtractor.prototype, 'extract').mockResolvedValue({
+      success: false,
+      format: 'email',
+      segments: [],
+      confidence: 0,
+    });
+  });
+
+  it('routes each attachment through its parser and skips unsupported ones', async () => {
+    const service = new ImportService({ apiKey: 'test-key' });
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'BEGIN:VEVENT',
+      'UID:ev-1',
+      'SUMMARY:Hotel stay - Le Marais',
+      'LOCATION:Paris',
+      'DTSTART:20250701T150000Z',
+      'DTEND:20250704T110000Z',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    const imported = await service.importFromEmail('Thanks for booking with us', {}, [
+      { filename: 'boarding.pkpass', content: zip({ 'pass.json': JSON.stringify(boardingPass) }) },
+      { filename: 'invite.ics', contentType: 'text/calendar', content: ics },
+      { filename: 'logo.png', contentType: 'image/png', content: Buffer.from('png') },
+    ]);
+
+    expect(imported.success).toBe(true);
+    expect(imported.segments.map((segment) => segment.type)).toEqual(['FLIGHT', 'HOTEL']);
+    expect(imported.segments.map((segment) => segment.sourceDetails?.emailParts)).toEqual([
+      [{ kind: 'attachment', filename: 'boarding.pkpass' }],
+      [{ kind: 'attachment', filename: 'invite.ics', contentType: 'text/calendar' }],
+    ]);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Tests for FlightConnectionService
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { generateSegmentId } from '../../src/domain/types/branded.js';
+import type { FlightSegment, HotelSegment } from '../../src/domain/types/segment.js';
+import { FlightConnectionService } from '../../src/services/flight-connection.service.js';
+import { createTestFlight } from '../helpers/builders.js';
+
+function flight(
+  flightNumber: string,
+  origin: string,
+  destination: string,
+  start: string,
+  end: string,
+  extra: Partial<FlightSegment> = {}
+): FlightSegment {
+  return createTestFlight({
+    startDatetime: new Date(start),
+    endDatetime: new Date(end),
+    airline: { name: 'United Airlines', code: 'UA' },
+    flightNumber,
+    origin: { name: `${origin} Airport`, code: origin },
+    destination: { name: `${destination} Airport`, code: destination },
+    ...extra,
+  });
+}
+
+describe('FlightConnectionService', () => {
+  let service: FlightConnectionService;
+
+  beforeEach(() => {
+    service = new FlightConnectionService();
+  });
+
+  describe('groupJourneys', () => {
+    it('should group legs sharing a booking reference into one journey', () => {
+      const leg1 = flight('UA100', 'SFO', 'ORD', '2025-03-01T08:00:00Z', '2025-03-01T12:00:00Z', {
+        bookingReference: 'ABC123',
+      });
+      const leg2 = flight('UA900', 'ORD', 'LHR', '2025-03-01T13:30:00Z', '2025-03-02T03:00:00Z', {
+        bookingReference: 'abc123',
+      });
+
+      const journeys = service.groupJourneys([leg2, leg1]);
+
+      expect(journeys).toHaveLength(1);
+      expect(journeys[0]?.legs).toEqual([leg1, leg2]);
+      expect(journeys[0]?.bookingReference).toBe('ABC123');
+      expect(journeys[0]?.origin.code).toBe('SFO');
+      expect(journeys[0]?.destination.code).toBe('LHR');
+      expect(journeys[0]?.totalLayoverMinutes).toBe(90);
+    });
+
+    it('should keep flights without a booking as separate journeys', () => {
+      const leg1 = flight('UA100', 'SFO', 'ORD', '2025-03-01T08:00:00Z', '2025-03-01T12:00:00Z');
+      const leg2 = flight('UA900', 'ORD', 'LHR', '2025-03-01T13:30:00Z', '2025-03-02T03:00:00Z');
+
+      const journeys = service.groupJourneys([leg1, leg2]);
+
+      expect(journeys).toHaveLength(2);
+      expect(journeys.every((j) => j.connections.length === 0)).toBe(true);
+    });
+
+    it('should group legs by explicit journeyId', () => {
+      const leg1 = flight('UA100', 'SFO', 'ORD', '2025-03-01T08:00:00Z', '2025-03-01T12:00:00Z', {
+        journeyId: 'trip-1',
+      });
+      const leg2 = flight('BA296', 'ORD', 'LHR', '2025-03-01T13:30:00Z', '2025-03-02T03:00:00Z', {
+        journeyId: 'trip-1',
+      });
+
+      const journeys = service.groupJourneys([leg1, leg2]);
+
+      expect(journeys).toHaveLength(1);
+      expect(journeys[0]?.id).toBe('trip-1');
+    });
+
+    it('should split outbound and return flights on the same booking', () => {
+      const outbound = flight(
+        'UA100',
+        'SFO',
+        'LAX',
+        '2025-03-01T08:00:00Z',
+        '2025-03-01T09:30:00Z',
+        {
+          confirmationNumber: 'XYZ789',
+        }
+      );
+      const inbound = flight(
+        'UA101',
+        'LAX',
+        'SFO',
+        '2025-03-01T18:00:00Z',
+        '2025-03-01T19:30:00Z',
+        {
+          confirmationNumber: 'XYZ789',
+        }
+      );
+
+      const journeys = service.groupJourneys([outbound, inbound]);
+
+      expect(journeys).toHaveLength(2);
+    });
+
+    it('should start a new journey after a stopover longer than the maximum layover', () => {
+      const leg1 = flight('UA100', 'SFO', 'ORD', '2025-03-01T08:00:00Z', '2025-03-01T12:00:00Z', {
+        bookingReference: 'ABC123',
+      });
+      const leg2 = flight('UA900', 'ORD', 'LHR', '2025-03-03T13:30:00Z', '2025-03-04T03:00:00Z', {
+        bookingReference: 'ABC123',
+      });
+
+      expect(service.groupJourneys([leg1, leg2])).toHaveLength(2);
+    });
+
+    it('should ignore non-flight segments', () => {
+      const hotel = {
+        id: generateSegmentId(),
+        type: 'HOTEL',
+        bookingReference: 'ABC123',
+      } as unknown as HotelSegment;
+
+      expect(service.groupJourneys([hotel])).toEqual([]);
+    });
+  });
+
+  describe('buildConnection', () => {
+    it('should classify a same-airport connection and compute the layover', () => {
+      const leg1 = flight('UA100', 'SFO', 'ORD', '2025-03-01T08:00:00Z', '2025-03-01T12:00:00Z');
+      const leg2 = flight('UA900', 'ORD', 'LHR', '2025-03-01T13:30:00Z', '2025-03-02T03:00:00Z');
+
+      const connection = service.buildConnection(leg1, leg2);
+
+      expect(connection.kind).toBe('SAME_AIRPORT');
+      expect(connection.layoverMinutes).toBe(90);
+      expect(connection.minimumConnectionMinutes).toBe(60);
+      expect(connection.meetsMinimumConnectionTime).toBe(true);
+      expect(connection.terminalChange).toBe(false);
+    });
+
+    it('should flag a layover shorter than the minimum connection time', () => {
+      const leg1 = flight('UA100', 'SFO', 'ORD', '2025-03-01T08:00:00Z', '2025-03-01T12:00:00Z');
+      const leg2 = flight('UA900', 'ORD', 'LHR', '2025-03-01T12:35:00Z', '2025-03-02T03:00:00Z');
+
+      const connection = service.buildConnection(leg1, leg2);
+
+      expect(connection.layoverMinutes).toBe(35);
+      expect(connection.meetsMinimumConnectionTime).toBe(false);
+    });
+
+    it('should apply the terminal change minimum when terminals differ', () => {
+      const leg1 = flight('UA100', 'SFO', 'ORD', '2025-03-01T08:00:00Z', '2025-03-01T12:00:00Z', {
+        arrivalTerminal: '1',
+      });
+      const leg2 = flight('BA296', 'ORD', 'LHR', '2025-03-01T13:15:00Z', '2025-03-02T03:00:00Z', {
+        departureTerminal: '5',
+      });
+
+      const connection = service.buildConnection(leg1, leg2);
+
+      expect(connection.terminalChange).toBe(true);
+      expect(connection.minimumConnectionMinutes).toBe(90);
+      expect(connection.meetsMinimumConnectionTime).toBe(false);
+    });
+
+    it('should classify a cross-airport connection', () => {
+      const leg1 = flight('BA100', 'JFK', 'LHR', '2025-03-01T20:00:00Z', '2025-03-02T08:00:00Z');
+      const leg2 = flight('BA2500', 'LGW', 'NCE', '2025-03-02T12:00:00Z', '2025-03-02T14:00:00Z');
+
+      const connection = service.buildConnection(leg1, leg2);
+
+      expect(connection.kind).toBe('CROSS_AIRPORT');
+      expect(connection.minimumConnectionMinutes).toBe(180);
+      expect(connection.meetsMinimumConnectionTime).toBe(true);
+    });
+
+    it('should honor custom connection rules', () => {
+      const custom = new FlightConnectionService({ sameAirportMinutes: 120 });
+      const leg1 = flight('UA100', 'SFO', 'ORD', '2025-03-01T08:00:00Z', '2025-03-01T12:00:00Z');
+      const leg2 = flight('UA900', 'ORD', 'LHR', '2025-03-01T13:30:00Z', '2025-03-02T03:00:00Z');
+
+      expect(custom.buildConnection(leg1, leg2).meetsMinimumConnectionTime).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Tests for ICSExportService
+ */
+
+import * as ical from 'node-ical';
+import { describe, expect, it } from 'vitest';
+import type { Itinerary } from '../../src/domain/types/itinerary.js';
+import type { FlightSegment, HotelSegment } from '../../src/domain/types/segment.js';
+import { ICSExportService, getCalendarFilename } from '../../src/services/ics-export.service.js';
+import { createTestFlight, createTestHotel, createTestItinerary } from '../helpers/builders.js';
+
+const NOW = new Date('2025-05-01T12:00:00Z');
+
+function flight(): FlightSegment {
+  return createTestFlight({
+    startDatetime: new Date('2025-07-01T17:30:00Z'),
+    endDatetime: new Date('2025-07-01T19:50:00Z'),
+    confirmationNumber: 'ABC123',
+    flightNumber: '1081',
+    origin: { name: 'Heathrow', code: 'LHR', timezone: 'Europe/London' },
+    destination: { name: 'Charles de Gaulle', code: 'CDG', timezone: 'Europe/Paris' },
+  });
+}
+
+function hotel(): HotelSegment {
+  return createTestHotel({
+    startDatetime: new Date('2025-07-01T13:00:00Z'),
+    endDatetime: new Date('2025-07-05T09:00:00Z'),
+    source: 'user',
+    confirmationNumber: 'HTL-77',
+    notes: 'Ask for a quiet room; late arrival',
+    property: { name: 'Hôtel des Grands Boulevards' },
+    location: {
+      name: 'Hôtel des Grands Boulevards',
+      address: { street: '17 Boulevard Poissonnière', city: 'Paris', country: 'FR' },
+      coordinates: { latitude: 48.8709, longitude: 2.3445 },
+      timezone: 'Europe/Paris',
+    },
+    checkInDate: new Date('2025-07-01'),
+    checkOutDate: new Date('2025-07-05'),
+  });
+}
+
+function itinerary(segments: Itinerary['segments']): Itinerary {
+  return createTestItinerary({
+    version: 4,
+    createdAt: new Date('2025-04-01T00:00:00Z'),
+    updatedAt: new Date('2025-04-20T08:00:00Z'),
+    title: 'Summer in Paris',
+    status: 'CONFIRMED',
+    segments,
+  });
+}
+
+describe('ICSExportService', () => {
+  const service = new ICSExportService();
+
+  it('writes one event per segment in the local time of its location', () => {
+    const segment = flight();
+    const ics = service.exportItinerary(itinerary([hotel(), segment]), { now: NOW });
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+    expect(ics).toContain(`UID:${segment.id}@itinerizer`);
+    expect(ics).toContain('DTSTART;TZID=Europe/London:20250701T183000');
+    expect(ics).toContain('DTEND;TZID=Europe/Paris:20250701T215000');
+    expect(ics).toContain('SUMMARY:Flight AF 1081: LHR → CDG');
+    expect(ics).toContain('DTSTAMP:20250501T120000Z');
+    expect(ics).toContain('SEQUENCE:4');
+  });
+
+  it('defines every zone it references', () => {
+    const ics = service.exportItinerary(itinerary([flight()]), { now: NOW });
+
+    expect(ics).toContain('TZID:Europe/London');
+    expect(ics).toContain('TZID:Europe/Paris');
+    // British Summer Time started on 30 March 2025 at 01:00 GMT
+    expect(ics).toMatch(
+      /BEGIN:DAYLIGHT\r\nDTSTART:20250330T010000\r\nTZOFFSETFROM:\+0000\r\nTZOFFSETTO:\+0100/
+    );
+  });
+
+  it('includes location, geo and confirmation numbers', () => {
+    const ics = service.exportItinerary(itinerary([hotel()]), { now: NOW });
+    const unfolded = ics.replace(/\r\n /g, '');
+
+    expect(unfolded).toContain(
+      'LOCATION:Hôtel des Grands Boulevards\\, 17 Boulevard Poissonnière\\, Paris\\, FR'
+    );
+    expect(unfolded).toContain('GEO:48.8709;2.3445');
+    expect(unfolded).toContain(
+      'DESCRIPTION:Confirmation: HTL-77\\n\\nAsk for a quiet room\\; late arrival'
+    );
+  });
+
+  it('adds a check-in reminder to flights only', () => {
+    const ics = service.exportItinerary(itinerary([flight(), hotel()]), { now: NOW });
+
+    expect(ics.match(/BEGIN:VALARM/g)).toHaveLength(1);
+    expect(ics).toContain('TRIGGER:-P1D');
+
+    const custom = service.exportItinerary(itinerary([flight()]), {
+      now: NOW,
+      checkInReminderMinutes: 90,
+    });
+    expect(custom).toContain('TRIGGER:-PT1H30M');
+
+    const none = service.exportItinerary(itinerary([flight()]), {
+      now: NOW,
+      checkInReminderMinutes: 0,
+    });
+    expect(none).not.toContain('BEGIN:VALARM');
+  });
+
+  it('keeps UIDs stable across re-exports', () => {
+    const trip = itinerary([flight(), hotel()]);
+    const uids = (ics: string) => ics.match(/^UID:.*$/gm);
+
+    const first = service.exportItinerary(trip, { now: NOW });
+    const second = service.exportItinerary(
+      { ...trip, version: 5 },
+      { now: new Date('2025-06-01T00:00:00Z') }
+    );
+
+    expect(uids(second)).toEqual(uids(first));
+  });
+
+  it('folds long lines to 75 octets', () => {
+    const segment = hotel();
+    segment.notes = 'Très bien situé. '.repeat(20);
+    const ics = service.exportItinerary(itinerary([segment]), { now: NOW });
+
+    for (const line of ics.split('\r\n')) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+  });
+
+  it('produces a calendar the ICS parser reads back', async () => {
+    const segment = flight();
+    const ics = service.exportItinerary(itinerary([segment]), { now: NOW });
+
+    const parsed = await ical.async.parseICS(ics);
+    const event = parsed[`${segment.id}@itinerizer`];
+
+    expect(event?.type).toBe('VEVENT');
+    if (event?.type !== 'VEVENT') return;
+    expect(event.start.toISOString()).toBe('2025-07-01T17:30:00.000Z');
+    expect(event.end.toISOString()).toBe('2025-07-01T19:50:00.000Z');
+  });
+
+  it('falls back to UTC when a location has no known timezone', () => {
+    const segment = hotel();
+    segment.location = { name: 'Somewhere' };
+    const ics = service.exportItinerary(itinerary([segment]), { now: NOW });
+
+    expect(ics).toContain('DTSTART:20250701T130000Z');
+    expect(ics).not.toContain('BEGIN:VTIMEZONE');
+  });
+});
+
+describe('getCalendarFilename', () => {
+  it('slugifies the itinerary title', () => {
+    expect(getCalendarFilename('Été à Paris & Lyon')).toBe('ete-a-paris-lyon.ics');
+    expect(getCalendarFilename('!!!')).toBe('itinerary.ics');
+  });
+});
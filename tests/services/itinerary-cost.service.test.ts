@@ -0,0 +1,241 @@
+/**
+ * Tests for ItineraryCostService and exchange rate providers
+ */
+
+import { join } from 'node:path';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { TravelerId } from '../../src/domain/types/branded.js';
+import type { Itinerary } from '../../src/domain/types/itinerary.js';
+import type { Money } from '../../src/domain/types/money.js';
+import type { FlightSegment, HotelSegment } from '../../src/domain/types/segment.js';
+import type { Traveler } from '../../src/domain/types/traveler.js';
+import {
+  REFERENCE_EXCHANGE_RATES,
+  StaticExchangeRateProvider,
+  loadExchangeRateProvider,
+} from '../../src/services/exchange-rate.service.js';
+import { ItineraryCostService } from '../../src/services/itinerary-cost.service.js';
+import {
+  createTestActivity,
+  createTestFlight,
+  createTestHotel,
+  createTestItinerary,
+  createTestTraveler,
+} from '../helpers/builders.js';
+
+const RATES_FILE = join(__dirname, '../fixtures/exchange-rates/rates.json');
+
+function traveler(firstName: string): Traveler {
+  return createTestTraveler({ firstName });
+}
+
+function flight(totalPrice: Money, travelerIds: TravelerId[] = []): FlightSegment {
+  return createTestFlight({
+    startDatetime: new Date('2025-03-01T08:00:00Z'),
+    endDatetime: new Date('2025-03-01T12:00:00Z'),
+    travelerIds,
+    airline: { name: 'British Airways', code: 'BA' },
+    flightNumber: 'BA117',
+    destination: { name: 'JFK', code: 'JFK' },
+    totalPrice,
+  });
+}
+
+function hotel(extra: Partial<HotelSegment>): HotelSegment {
+  return createTestHotel({
+    startDatetime: new Date('2025-03-01T15:00:00Z'),
+    endDatetime: new Date('2025-03-04T11:00:00Z'),
+    property: { name: 'The Plaza' },
+    location: { name: 'The Plaza' },
+    checkInDate: new Date('2025-03-01'),
+    checkOutDate: new Date('2025-03-04'),
+    ...extra,
+  });
+}
+
+function itinerary(segments: Itinerary['segments'], travelers: Traveler[] = []): Itinerary {
+  return createTestItinerary({
+    title: 'Cost test',
+    status: 'CONFIRMED',
+    travelers,
+    segments,
+    currency: 'EUR',
+  });
+}
+
+describe('StaticExchangeRateProvider', () => {
+  it('should derive cross rates through the base currency', async () => {
+    const provider = new StaticExchangeRateProvider({
+      base: 'EUR',
+      rates: { USD: 1.25, GBP: 0.8 },
+    });
+
+    const result = await provider.getRate('GBP', 'USD');
+
+    expect(result.success && result.value).toBeCloseTo(1.5625);
+  });
+
+  it('should report missing rates', async () => {
+    const provider = new StaticExchangeRateProvider({ base: 'EUR', rates: { USD: 1.25 } });
+
+    const result = await provider.getRate('USD', 'CHF');
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.code).toBe('RATE_UNAVAILABLE');
+    }
+  });
+
+  it('should load a rate table from a file', async () => {
+    const result = await StaticExchangeRateProvider.fromFile(RATES_FILE);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const rate = await result.value.getRate('EUR', 'JPY');
+    expect(rate.success && rate.value).toBe(160);
+    expect(result.value.asOf).toBe('2025-01-02');
+  });
+
+  it('should fail for unreadable files', async () => {
+    const result = await StaticExchangeRateProvider.fromFile('/nonexistent/rates.json');
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.code).toBe('RATE_SOURCE_ERROR');
+    }
+  });
+});
+
+describe('loadExchangeRateProvider', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should load the configured rate table', async () => {
+    const result = await loadExchangeRateProvider(RATES_FILE);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const rate = await result.value.getRate('EUR', 'JPY');
+    expect(rate.success && rate.value).toBe(160);
+  });
+
+  it('should fall back to the reference rates with a warning', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const result = await loadExchangeRateProvider('');
+
+    expect(result.success && result.value.asOf).toBe(REFERENCE_EXCHANGE_RATES.asOf);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('EXCHANGE_RATES_FILE'));
+  });
+
+  it('should fail when the configured file cannot be loaded', async () => {
+    const result = await loadExchangeRateProvider('/nonexistent/rates.json');
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('ItineraryCostService', () => {
+  let service: ItineraryCostService;
+
+  beforeAll(async () => {
+    const provider = await StaticExchangeRateProvider.fromFile(RATES_FILE);
+    if (!provider.success) throw new Error(provider.error.message);
+    service = new ItineraryCostService(provider.value);
+  });
+
+  it('should convert segment totals into the itinerary currency', async () => {
+    const trip = itinerary([
+      flight({ amount: 50000, currency: 'USD' }),
+      hotel({ totalPrice: { amount: 48000, currency: 'JPY' } }),
+    ]);
+
+    const result = await service.rollup(trip);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.value.currency).toBe('EUR');
+    expect(result.value.total).toEqual({ amount: 70000, currency: 'EUR' });
+    expect(result.value.byType).toEqual({
+      FLIGHT: { amount: 40000, currency: 'EUR' },
+      HOTEL: { amount: 30000, currency: 'EUR' },
+    });
+    expect(result.value.unassigned.amount).toBe(70000);
+  });
+
+  it('should sum price, taxes and fees when there is no total', async () => {
+    const trip = itinerary([
+      hotel({
+        price: { amount: 10000, currency: 'GBP' },
+        taxes: { amount: 1250, currency: 'USD' },
+        fees: { amount: 500, currency: 'EUR' },
+      }),
+    ]);
+
+    const result = await service.rollup(trip);
+
+    expect(result.success && result.value.total.amount).toBe(14000);
+  });
+
+  it('should split costs between travelers', async () => {
+    const alice = traveler('Alice');
+    const bob = traveler('Bob');
+    const carol = traveler('Carol');
+    const trip = itinerary(
+      [
+        flight({ amount: 10000, currency: 'EUR' }, [alice.id]),
+        hotel({ totalPrice: { amount: 10000, currency: 'EUR' } }),
+      ],
+      [alice, bob, carol]
+    );
+
+    const result = await service.rollup(trip);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.value.byTraveler).toEqual({
+      [alice.id]: { amount: 13334, currency: 'EUR' },
+      [bob.id]: { amount: 3333, currency: 'EUR' },
+      [carol.id]: { amount: 3333, currency: 'EUR' },
+    });
+    expect(result.value.unassigned.amount).toBe(0);
+  });
+
+  it('should skip cancelled segments and list unpriced ones', async () => {
+    const cancelled = flight({ amount: 10000, currency: 'EUR' });
+    cancelled.status = 'CANCELLED';
+    const unpriced = createTestActivity({
+      startDatetime: new Date('2025-03-02T10:00:00Z'),
+      endDatetime: new Date('2025-03-02T12:00:00Z'),
+      name: 'Museum visit',
+      location: { name: 'MoMA' },
+    });
+
+    const result = await service.rollup(itinerary([cancelled, unpriced]));
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.value.total.amount).toBe(0);
+    expect(result.value.unpricedSegmentIds).toEqual([unpriced.id]);
+  });
+
+  it('should honour an explicit target currency', async () => {
+    const trip = itinerary([flight({ amount: 1000, currency: 'KWD' })]);
+
+    const result = await service.rollup(trip, { currency: 'JPY' });
+
+    expect(result.success && result.value.total).toEqual({ amount: 500, currency: 'JPY' });
+  });
+
+  it('should fail when a rate is unavailable', async () => {
+    const trip = itinerary([flight({ amount: 1000, currency: 'CHF' })]);
+
+    const result = await service.rollup(trip);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.code).toBe('RATE_UNAVAILABLE');
+    }
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Tests for ItineraryHistoryService and storage revision logs
+ */
+
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateItineraryId } from '../../src/domain/types/branded.js';
+import type { ItineraryId } from '../../src/domain/types/branded.js';
+import type { Itinerary } from '../../src/domain/types/itinerary.js';
+import type { FlightSegment } from '../../src/domain/types/segment.js';
+import { ItineraryCollectionService } from '../../src/services/itinerary-collection.service.js';
+import {
+  ItineraryHistoryService,
+  diffItineraries,
+} from '../../src/services/itinerary-history.service.js';
+import { SegmentService } from '../../src/services/segment.service.js';
+import { InMemoryItineraryStorage } from '../../src/storage/in-memory-storage.js';
+import { JsonItineraryStorage } from '../../src/storage/json-storage.js';
+import { createTestFlight, createTestItinerary } from '../helpers/builders.js';
+
+function flight(flightNumber: string, day: number): FlightSegment {
+  return createTestFlight({
+    startDatetime: new Date(`2025-06-0${day}T09:00:00Z`),
+    endDatetime: new Date(`2025-06-0${day}T11:00:00Z`),
+    flightNumber,
+  });
+}
+
+describe('ItineraryHistoryService', () => {
+  let dataDir: string;
+  let storage: JsonItineraryStorage;
+  let collectionService: ItineraryCollectionService;
+  let segmentService: SegmentService;
+  let historyService: ItineraryHistoryService;
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(join(tmpdir(), 'itinerary-history-'));
+    storage = new JsonItineraryStorage(dataDir);
+    await storage.initialize();
+    collectionService = new ItineraryCollectionService(storage);
+    segmentService = new SegmentService(storage);
+    historyService = new ItineraryHistoryService(storage);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  async function createTrip(): Promise<ItineraryId> {
+    const result = await collectionService.createItinerary({
+      title: 'Paris',
+      startDate: new Date('2025-06-01'),
+      endDate: new Date('2025-06-09'),
+    });
+    if (!result.success) throw new Error(result.error.message);
+    return result.value.id;
+  }
+
+  it('records every save with its author and cause', async () => {
+    const id = await createTrip();
+    await segmentService.add(id, flight('AF1', 2));
+    await segmentService.add(id, flight('AF2', 5), {
+      author: 'agent',
+      cause: 'add_flight tool call',
+      actor: 'session-1',
+    });
+
+    const result = await historyService.listRevisions(id);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.value.map((r) => [r.revision, r.version, r.author, r.cause])).toEqual([
+      [1, 1, 'user', 'Itinerary created'],
+      [2, 2, 'user', 'Segment added'],
+      [3, 3, 'agent', 'add_flight tool call'],
+    ]);
+    expect(result.value[2]?.actor).toBe('session-1');
+    expect(result.value[2]?.segmentCount).toBe(2);
+    expect(result.value[0]?.savedAt).toBeInstanceOf(Date);
+  });
+
+  it('diffs added, removed and changed segments', async () => {
+    const id = await createTrip();
+    const first = flight('AF1', 2);
+    const second = flight('AF2', 5);
+    await segmentService.add(id, first);
+    await segmentService.add(id, second);
+    await segmentService.delete(id, first.id);
+    await segmentService.update(id, second.id, { flightNumber: 'AF22' });
+    await collectionService.updateMetadata(id, { title: 'Paris & Lyon' });
+
+    const result = await historyService.diff(id, 2);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const diff = result.value;
+    expect(diff.fromRevision).toBe(2);
+    expect(diff.toRevision).toBe(6);
+    expect(diff.fields).toEqual([{ path: 'title', before: 'Paris', after: 'Paris & Lyon' }]);
+    expect(diff.segments.added.map((s) => s.id)).toEqual([second.id]);
+    expect(diff.segments.removed.map((s) => s.id)).toEqual([first.id]);
+    expect(diff.segments.changed).toEqual([]);
+
+    const between = await historyService.diff(id, 3, 5);
+    expect(between.success).toBe(true);
+    if (!between.success) return;
+    expect(between.value.segments.changed).toHaveLength(1);
+    expect(between.value.segments.changed[0]?.changes).toEqual([
+      { path: 'flightNumber', before: 'AF2', after: 'AF22' },
+    ]);
+  });
+
+  it('restores a deleted segment as a new version', async () => {
+    const id = await createTrip();
+    const segment = flight('AF1', 2);
+    await segmentService.add(id, segment);
+    await segmentService.delete(id, segment.id, { author: 'agent', cause: 'delete_segment' });
+
+    const restored = await historyService.restore(id, 2);
+
+    expect(restored.success).toBe(true);
+    if (!restored.success) return;
+    expect(restored.value.segments.map((s) => s.id)).toEqual([segment.id]);
+    expect(restored.value.version).toBe(4);
+
+    const loaded = await storage.load(id);
+    expect(loaded.success && loaded.value.segments).toHaveLength(1);
+
+    const revisions = await historyService.listRevisions(id);
+    expect(revisions.success && revisions.value.at(-1)).toMatchObject({
+      revision: 4,
+      author: 'user',
+      cause: 'Restored revision 2',
+    });
+  });
+
+  it('keeps the current owner, collaborators and calendar feeds on restore', async () => {
+    const id = await createTrip();
+    const loaded = await storage.load(id);
+    if (!loaded.success) throw new Error(loaded.error.message);
+    const shared: Itinerary = {
+      ...loaded.value,
+      createdBy: 'ana@example.com',
+      collaborators: [{ email: 'bo@example.com', role: 'owner', invitedAt: new Date() }],
+      calendarFeeds: [{ token: 'revoked-token', scope: 'itinerary', createdAt: new Date() }],
+      version: 2,
+    };
+    await storage.save(shared);
+    await storage.save({
+      ...shared,
+      createdBy: 'cy@example.com',
+      collaborators: [],
+      calendarFeeds: [],
+      version: 3,
+    });
+
+    const restored = await historyService.restore(id, 2);
+
+    expect(restored.success).toBe(true);
+    if (!restored.success) return;
+    expect(restored.value.createdBy).toBe('cy@example.com');
+    expect(restored.value.collaborators).toEqual([]);
+    expect(restored.value.calendarFeeds).toEqual([]);
+  });
+
+  it('keeps calendar feed tokens out of revision snapshots', async () => {
+    const id = await createTrip();
+    const loaded = await storage.load(id);
+    if (!loaded.success) throw new Error(loaded.error.message);
+    await storage.save({
+      ...loaded.value,
+      calendarFeeds: [{ token: 'feed-token', scope: 'itinerary', createdAt: new Date() }],
+      version: 2,
+    });
+
+    const snapshot = await readFile(join(dataDir, '.history', id, '2.json'), 'utf-8');
+    const revision = await storage.loadRevision(id, 2);
+
+    expect(snapshot).not.toContain('feed-token');
+    expect(revision.success).toBe(true);
+    expect(revision.success && revision.value.calendarFeeds).toBeUndefined();
+  });
+
+  it('returns NOT_FOUND for unknown revisions and itineraries', async () => {
+    const id = await createTrip();
+
+    const missingRevision = await historyService.restore(id, 9);
+    expect(!missingRevision.success && missingRevision.error.code).toBe('NOT_FOUND');
+
+    const missingItinerary = await historyService.listRevisions(generateItineraryId());
+    expect(!missingItinerary.success && missingItinerary.error.code).toBe('NOT_FOUND');
+  });
+
+  it('keeps a save that succeeded when the history write fails', async () => {
+    const id = await createTrip();
+    // A file where the history directory should be makes every history write fail
+    await rm(join(dataDir, '.history', id), { recursive: true, force: true });
+    await writeFile(join(dataDir, '.history', id), 'not a directory');
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const result = await segmentService.add(id, flight('AF1', 2));
+
+    expect(result.success).toBe(true);
+    const loaded = await storage.load(id);
+    expect(loaded.success && loaded.value.segments).toHaveLength(1);
+  });
+
+  it('removes the history when the itinerary is deleted', async () => {
+    const id = await createTrip();
+    await storage.delete(id);
+
+    const result = await storage.listRevisions(id);
+    expect(!result.success && result.error.code).toBe('NOT_FOUND');
+  });
+});
+
+describe('InMemoryItineraryStorage revisions', () => {
+  it('keeps snapshots independent of later changes', async () => {
+    const storage = new InMemoryItineraryStorage();
+    const segmentService = new SegmentService(storage);
+    const trip = createTestItinerary({ title: 'Lisbon' });
+    const id = trip.id;
+    await storage.save(trip);
+    await segmentService.add(id, flight('TP1', 3));
+
+    const first = await storage.loadRevision(id, 1);
+    const second = await storage.loadRevision(id, 2);
+
+    expect(first.success && first.value.segments).toHaveLength(0);
+    expect(second.success && second.value.segments).toHaveLength(1);
+  });
+});
+
+describe('diffItineraries', () => {
+  it('detects reordered segments and ignores version bumps', () => {
+    const a = flight('AF1', 2);
+    const b = flight('AF2', 5);
+    const before = {
+      id: generateItineraryId(),
+      version: 1,
+      updatedAt: new Date('2025-01-01'),
+      segments: [a, b],
+    } as unknown as Itinerary;
+    const after = {
+      ...before,
+      version: 2,
+      updatedAt: new Date('2025-01-02'),
+      segments: [b, a],
+    } as Itinerary;
+
+    const diff = diffItineraries(before, after);
+
+    expect(diff.fields).toEqual([]);
+    expect(diff.segments.reordered).toBe(true);
+    expect(diff.segments.changed).toEqual([]);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Tests for itinerary search across storage backends
+ */
+
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { itineraryQueryParamsSchema } from '../../src/domain/schemas/itinerary-query.schema.js';
+import type { SegmentStatus } from '../../src/domain/types/common.js';
+import type { Itinerary } from '../../src/domain/types/itinerary.js';
+import type { HotelSegment } from '../../src/domain/types/segment.js';
+import { ItineraryCollectionService } from '../../src/services/itinerary-collection.service.js';
+import { InMemoryItineraryStorage } from '../../src/storage/in-memory-storage.js';
+import { SqliteItineraryStorage } from '../../src/storage/sqlite-storage.js';
+import type { ItineraryQuery, ItineraryStorage } from '../../src/storage/storage.interface.js';
+import { createTestHotel, createTestItinerary, createTestTraveler } from '../helpers/builders.js';
+
+function hotel(status: SegmentStatus): HotelSegment {
+  return createTestHotel({
+    status,
+    endDatetime: new Date('2025-06-03T11:00:00Z'),
+    source: 'user',
+    property: { name: 'Hotel' },
+    location: { name: 'Hotel' },
+    checkOutDate: new Date('2025-06-03'),
+  });
+}
+
+function itinerary(overrides: Partial<Itinerary>): Itinerary {
+  const now = new Date('2025-01-01T00:00:00Z');
+  return createTestItinerary({
+    createdAt: now,
+    updatedAt: now,
+    title: 'Trip',
+    status: 'PLANNED',
+    createdBy: 'owner@example.com',
+    ...overrides,
+  });
+}
+
+const lisbon = itinerary({
+  title: 'Lisbon offsite',
+  tripType: 'BUSINESS',
+  startDate: new Date('2025-06-01T00:00:00Z'),
+  endDate: new Date('2025-06-05T00:00:00Z'),
+  destinations: [{ name: 'Lisbon', code: 'LIS', address: { city: 'Lisbon', country: 'PT' } }],
+  travelers: [
+    createTestTraveler({ firstName: 'Ana', lastName: 'Silva', email: 'ana@example.com' }),
+  ],
+  segments: [hotel('TENTATIVE')],
+  tags: ['work', 'Europe'],
+});
+
+const tokyo = itinerary({
+  title: 'Tokyo holiday',
+  tripType: 'LEISURE',
+  status: 'CONFIRMED',
+  startDate: new Date('2025-09-10T00:00:00Z'),
+  endDate: new Date('2025-09-20T00:00:00Z'),
+  destinations: [{ name: 'Tokyo', code: 'HND', address: { city: 'Tokyo', country: 'JP' } }],
+  segments: [hotel('CONFIRMED')],
+  tags: ['europe-free'],
+});
+
+const undated = itinerary({ title: 'Someday', status: 'DRAFT' });
+
+const other = itinerary({
+  title: 'Lisbon again',
+  createdBy: 'someone-else@example.com',
+  startDate: new Date('2025-06-02T00:00:00Z'),
+});
+
+let dir: string;
+
+const backends: Array<[string, () => ItineraryStorage]> = [
+  ['InMemoryItineraryStorage', () => new InMemoryItineraryStorage()],
+  ['SqliteItineraryStorage', () => new SqliteItineraryStorage(join(dir, 'itineraries.db'))],
+];
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'itinerizer-query-'));
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe.each(backends)('ItineraryCollectionService.queryItineraries (%s)', (_name, create) => {
+  let service: ItineraryCollectionService;
+
+  beforeAll(async () => {
+    const storage = create();
+    await storage.initialize();
+    for (const entry of [other, undated, tokyo, lisbon]) {
+      await storage.importItinerary(entry, []);
+    }
+    service = new ItineraryCollectionService(storage);
+  });
+
+  async function titles(query: ItineraryQuery): Promise<string[]> {
+    const result = await service.queryItineraries({ createdBy: 'OWNER@example.com', ...query });
+    if (!result.success) {
+      throw new Error(result.error.message);
+    }
+    return result.value.items.map((item) => item.title);
+  }
+
+  it('scopes to the owner and sorts by title', async () => {
+    expect(await titles({ sortBy: 'title' })).toEqual([
+      'Lisbon offsite',
+      'Someday',
+      'Tokyo holiday',
+    ]);
+  });
+
+  it('matches trips overlapping a date range', async () => {
+    expect(
+      await titles({ from: new Date('2025-06-04T00:00:00Z'), to: new Date('2025-09-10T00:00:00Z') })
+    ).toEqual(expect.arrayContaining(['Lisbon offsite', 'Tokyo holiday']));
+    expect(await titles({ from: new Date('2025-06-06T00:00:00Z') })).toEqual(['Tokyo holiday']);
+  });
+
+  it('matches destinations by city, country or IATA code', async () => {
+    expect(await titles({ destination: 'lis' })).toEqual(['Lisbon offsite']);
+    expect(await titles({ destination: 'JP' })).toEqual(['Tokyo holiday']);
+    expect(await titles({ destination: 'HND' })).toEqual(['Tokyo holiday']);
+  });
+
+  it('matches travelers, tags, trip type and title text', async () => {
+    expect(await titles({ traveler: 'silva' })).toEqual(['Lisbon offsite']);
+    expect(await titles({ traveler: 'ana@example' })).toEqual(['Lisbon offsite']);
+    expect(await titles({ tags: ['europe', 'WORK'] })).toEqual(['Lisbon offsite']);
+    expect(await titles({ tripType: 'LEISURE' })).toEqual(['Tokyo holiday']);
+    expect(await titles({ text: 'HOLI' })).toEqual(['Tokyo holiday']);
+  });
+
+  it('finds trips with unconfirmed hotels', async () => {
+    expect(
+      await titles({ segmentType: 'HOTEL', segmentStatus: ['TENTATIVE', 'WAITLISTED'] })
+    ).toEqual(['Lisbon offsite']);
+  });
+
+  it('sorts undated trips last and paginates with a total', async () => {
+    const result = await service.queryItineraries({
+      createdBy: 'owner@example.com',
+      sortBy: 'startDate',
+      sortOrder: 'asc',
+      limit: 2,
+      offset: 1,
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.value.total).toBe(3);
+      expect(result.value.items.map((item) => item.title)).toEqual(['Tokyo holiday', 'Someday']);
+    }
+  });
+});
+
+describe('itineraryQueryParamsSchema', () => {
+  it('parses list, enum and date parameters', () => {
+    const result = itineraryQueryParamsSchema.safeParse({
+      status: 'planned,confirmed',
+      tag: ['work', 'europe'],
+      from: '2025-06-01',
+      to: '2025-06-30',
+      segmentType: 'hotel',
+      unconfirmed: 'true',
+      q: ' offsite ',
+      limit: '20',
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual({
+        status: ['PLANNED', 'CONFIRMED'],
+        tags: ['work', 'europe'],
+        from: new Date('2025-06-01T00:00:00.000Z'),
+        to: new Date('2025-06-30T23:59:59.999Z'),
+        segmentType: 'HOTEL',
+        segmentStatus: ['TENTATIVE', 'WAITLISTED'],
+        text: 'offsite',
+        limit: 20,
+      });
+    }
+  });
+
+  it('rejects unknown values and inverted date ranges', () => {
+    expect(itineraryQueryParamsSchema.safeParse({ status: 'SOMEDAY' }).success).toBe(false);
+    expect(itineraryQueryParamsSchema.safeParse({ sortBy: 'price' }).success).toBe(false);
+    expect(itineraryQueryParamsSchema.safeParse({ limit: '0' }).success).toBe(false);
+    expect(
+      itineraryQueryParamsSchema.safeParse({ from: '2025-07-01', to: '2025-06-01' }).success
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Tests for itinerary templates and cloning
+ */
+
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  generateItineraryId,
+  generateSegmentId,
+  generateTravelerId,
+} from '../../src/domain/types/branded.js';
+import type { Itinerary } from '../../src/domain/types/itinerary.js';
+import type { FlightSegment, HotelSegment } from '../../src/domain/types/segment.js';
+import {
+  cloneItinerary,
+  createTemplate,
+  instantiateTemplate,
+} from '../../src/domain/utils/itinerary-template.js';
+import { ItineraryCollectionService } from '../../src/services/itinerary-collection.service.js';
+import { InMemoryItineraryStorage } from '../../src/storage/in-memory-storage.js';
+import { JsonTemplateStorage } from '../../src/storage/json-template-storage.js';
+import { InMemoryTemplateStorage } from '../../src/storage/template-storage.js';
+
+const travelerId = generateTravelerId();
+
+function conferenceTrip(): Itinerary {
+  const flight: FlightSegment = {
+    id: generateSegmentId(),
+    type: 'FLIGHT',
+    status: 'CONFIRMED',
+    startDatetime: new Date('2025-03-10T08:30:00Z'),
+    endDatetime: new Date('2025-03-10T11:00:00Z'),
+    travelerIds: [travelerId],
+    source: 'user',
+    metadata: {},
+    confirmationNumber: 'ABC123',
+    price: { amount: 450, currency: 'USD' },
+    seatAssignments: { [travelerId]: '12A' },
+    airline: { name: 'United', code: 'UA' },
+    flightNumber: 'UA100',
+    origin: { name: 'San Francisco', code: 'SFO' },
+    destination: { name: 'Austin', code: 'AUS' },
+  };
+
+  const hotel: HotelSegment = {
+    id: generateSegmentId(),
+    type: 'HOTEL',
+    status: 'CONFIRMED',
+    startDatetime: new Date('2025-03-10T15:00:00Z'),
+    endDatetime: new Date('2025-03-13T11:00:00Z'),
+    travelerIds: [travelerId],
+    source: 'user',
+    metadata: {},
+    confirmationNumber: 'H-778',
+    totalPrice: { amount: 900, currency: 'USD' },
+    dependsOn: [flight.id],
+    property: { name: 'Conference Hotel' },
+    location: { name: 'Conference Hotel' },
+    checkInDate: new Date('2025-03-10T00:00:00Z'),
+    checkOutDate: new Date('2025-03-13T00:00:00Z'),
+    roomCount: 1,
+    amenities: [],
+  };
+
+  return {
+    id: generateItineraryId(),
+    version: 4,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-05T00:00:00Z'),
+    title: 'SXSW 2025',
+    status: 'CONFIRMED',
+    startDate: new Date('2025-03-10T00:00:00Z'),
+    endDate: new Date('2025-03-13T00:00:00Z'),
+    destinations: [{ name: 'Austin', code: 'AUS' }],
+    travelers: [
+      {
+        id: travelerId,
+        type: 'ADULT',
+        firstName: 'Ana',
+        lastName: 'Silva',
+        loyaltyPrograms: [],
+        metadata: {},
+      },
+    ],
+    segments: [flight, hotel],
+    tags: ['conference'],
+    calendarFeeds: [{ token: 'secret', scope: 'itinerary', createdAt: new Date() }],
+    metadata: {},
+    createdBy: 'owner@example.com',
+  };
+}
+
+describe('createTemplate', () => {
+  it('strips travelers, bookings and prices and stores day offsets', () => {
+    const template = createTemplate(conferenceTrip());
+
+    expect(template.name).toBe('SXSW 2025');
+    expect(template.durationDays).toBe(4);
+    expect(template.tags).toEqual(['conference']);
+
+    const [flight, hotel] = template.segments;
+    expect(flight).toMatchObject({
+      type: 'FLIGHT',
+      flightNumber: 'UA100',
+      start: { day: 0, time: '08:30' },
+      end: { day: 0, time: '11:00' },
+    });
+    expect(hotel).toMatchObject({
+      start: { day: 0, time: '15:00' },
+      end: { day: 3, time: '11:00' },
+    });
+
+    for (const segment of template.segments) {
+      for (const field of [
+        'travelerIds',
+        'confirmationNumber',
+        'price',
+        'totalPrice',
+        'seatAssignments',
+        'startDatetime',
+        'checkInDate',
+      ]) {
+        expect(segment).not.toHaveProperty(field);
+      }
+    }
+  });
+});
+
+describe('instantiateTemplate', () => {
+  it('places segments on the new start date with fresh, remapped IDs', () => {
+    const source = conferenceTrip();
+    const template = createTemplate(source);
+
+    const trip = instantiateTemplate(template, {
+      startDate: new Date('2026-03-16'),
+      createdBy: 'new@example.com',
+    });
+
+    expect(trip.status).toBe('DRAFT');
+    expect(trip.travelers).toEqual([]);
+    expect(trip.createdBy).toBe('new@example.com');
+    expect(trip.startDate).toEqual(new Date('2026-03-16T00:00:00Z'));
+    expect(trip.endDate).toEqual(new Date('2026-03-19T00:00:00Z'));
+
+    const [flight, hotel] = trip.segments;
+    expect(flight?.startDatetime).toEqual(new Date('2026-03-16T08:30:00Z'));
+    expect(hotel?.endDatetime).toEqual(new Date('2026-03-19T11:00:00Z'));
+    expect(hotel).toMatchObject({
+      status: 'TENTATIVE',
+      travelerIds: [],
+      checkInDate: new Date('2026-03-16T00:00:00Z'),
+      checkOutDate: new Date('2026-03-19T00:00:00Z'),
+    });
+
+    const sourceIds = source.segments.map((segment) => segment.id);
+    expect(sourceIds).not.toContain(flight?.id);
+    expect(hotel?.dependsOn).toEqual([flight?.id]);
+  });
+});
+
+describe('cloneItinerary', () => {
+  it('shifts every date by whole days and keeps travelers and prices', () => {
+    const source = conferenceTrip();
+
+    const copy = cloneItinerary(source, { startDate: new Date('2026-03-16'), title: 'SXSW 2026' });
+
+    expect(copy.id).not.toBe(source.id);
+    expect(copy.version).toBe(1);
+    expect(copy.title).toBe('SXSW 2026');
+    expect(copy.status).toBe('DRAFT');
+    expect(copy.travelers).toEqual(source.travelers);
+    expect(copy.calendarFeeds).toBeUndefined();
+    expect(copy.metadata.clonedFrom).toBe(source.id);
+    expect(copy.endDate).toEqual(new Date('2026-03-19T00:00:00Z'));
+
+    const [flight, hotel] = copy.segments;
+    expect(flight).toMatchObject({
+      status: 'TENTATIVE',
+      travelerIds: [travelerId],
+      price: { amount: 450, currency: 'USD' },
+      startDatetime: new Date('2026-03-16T08:30:00Z'),
+    });
+    expect(flight).not.toHaveProperty('confirmationNumber');
+    expect(flight).not.toHaveProperty('seatAssignments');
+    expect(hotel).toMatchObject({
+      checkInDate: new Date('2026-03-16T00:00:00Z'),
+      checkOutDate: new Date('2026-03-19T00:00:00Z'),
+      dependsOn: [flight?.id],
+    });
+  });
+});
+
+describe('ItineraryCollectionService templates', () => {
+  let storage: InMemoryItineraryStorage;
+  let service: ItineraryCollectionService;
+  let source: Itinerary;
+
+  beforeEach(async () => {
+    storage = new InMemoryItineraryStorage();
+    service = new ItineraryCollectionService(storage, new InMemoryTemplateStorage());
+    source = conferenceTrip();
+    await storage.save(source);
+  });
+
+  it('saves, lists, instantiates and deletes templates', async () => {
+    const saved = await service.saveAsTemplate(source.id, { name: 'Yearly SXSW' });
+    expect(saved.success).toBe(true);
+    if (!saved.success) return;
+
+    const list = await service.listTemplates('OWNER@example.com');
+    expect(list.success && list.value.map((t) => t.name)).toEqual(['Yearly SXSW']);
+
+    const created = await service.instantiateTemplate(saved.value.id, {
+      startDate: new Date('2026-03-16'),
+    });
+    expect(created.success).toBe(true);
+    if (created.success) {
+      const loaded = await storage.load(created.value.id);
+      expect(loaded.success && loaded.value.segments).toHaveLength(2);
+    }
+
+    expect((await service.deleteTemplate(saved.value.id)).success).toBe(true);
+    expect((await service.getTemplate(saved.value.id)).success).toBe(false);
+  });
+
+  it('clones and persists an itinerary', async () => {
+    const result = await service.cloneItinerary(source.id, { startDate: new Date('2026-03-16') });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect((await storage.load(result.value.id)).success).toBe(true);
+    }
+  });
+
+  it('fails template operations without template storage', async () => {
+    const withoutTemplates = new ItineraryCollectionService(storage);
+
+    const result = await withoutTemplates.saveAsTemplate(source.id);
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('JsonTemplateStorage', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'itinerizer-templates-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips templates with dates', async () => {
+    const templates = new JsonTemplateStorage(dir);
+    const template = createTemplate(conferenceTrip(), { createdBy: 'owner@example.com' });
+
+    expect((await templates.save(template)).success).toBe(true);
+
+    const loaded = await templates.load(template.id);
+    expect(loaded.success && loaded.value).toEqual(template);
+
+    const mine = await templates.list('owner@example.com');
+    const theirs = await templates.list('other@example.com');
+    expect(mine.success && mine.value).toHaveLength(1);
+    expect(theirs.success && theirs.value).toEqual([]);
+  });
+});
@@ -0,0 +1,520 @@
+/**
+ * Tests for mailbox sources and MailboxImportService
+ */
+
+import { appendFile, mkdir, mkdtemp, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { createServer } from 'node:net';
+import type { AddressInfo, Server } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateItineraryId } from '../../src/domain/types/branded.js';
+import type { ItineraryId } from '../../src/domain/types/branded.js';
+import type { Itinerary } from '../../src/domain/types/itinerary.js';
+import { LLMExtractor } from '../../src/services/import/extractors/llm.extractor.js';
+import { ImportService } from '../../src/services/import/index.js';
+import {
+  ImapMailboxSource,
+  MaildirMailboxSource,
+  MboxMailboxSource,
+  parseMailMessage,
+} from '../../src/services/import/mailbox/index.js';
+import { ItineraryCollectionService } from '../../src/services/itinerary-collection.service.js';
+import { MailboxImportService } from '../../src/services/mailbox-import.service.js';
+import { SegmentService } from '../../src/services/segment.service.js';
+import { InMemoryItineraryStorage } from '../../src/storage/in-memory-storage.js';
+
+function email(subject: string, body: string, contentType = 'text/plain'): string {
+  return [
+    'From: Bookings <bookings@airline.example>',
+    'To: ana@example.com',
+    `Subject: ${subject}`,
+    'Date: Tue, 03 Jun 2025 09:30:00 +0000',
+    `Content-Type: ${contentType}; charset=utf-8`,
+    '',
+    body,
+    '',
+  ].join('\n');
+}
+
+function flightEmail(confirmation: string, flightNumber: string): string {
+  const reservation = {
+    '@context': 'http://schema.org',
+    '@type': 'FlightReservation',
+    reservationNumber: confirmation,
+    reservationStatus: 'http://schema.org/ReservationConfirmed',
+    reservationFor: {
+      '@type': 'Flight',
+      flightNumber,
+      airline: { '@type': 'Airline', name: 'British Airways', iataCode: 'BA' },
+      departureAirport: { '@type': 'Airport', name: 'Heathrow', iataCode: 'LHR' },
+      departureTime: '2025-07-01T08:00:00Z',
+      arrivalAirport: { '@type': 'Airport', name: 'Charles de Gaulle', iataCode: 'CDG' },
+      arrivalTime: '2025-07-01T10:15:00Z',
+    },
+  };
+  return email(
+    `Your flight ${flightNumber} is confirmed`,
+    `<html><head><script type="application/ld+json">${JSON.stringify(reservation)}</script></head><body>Booking confirmed</body></html>`,
+    'text/html'
+  );
+}
+
+function mbox(...messages: string[]): string {
+  return messages
+    .map((message) => `From MAILER-DAEMON Tue Jun  3 09:30:00 2025\n${message}`)
+    .join('\n');
+}
+
+describe('parseMailMessage', () => {
+  it('decodes multipart bodies, encoded headers and attachments', () => {
+    const raw = [
+      'From: "Doe, Jane" <jane@example.com>',
+      'To: ana@example.com, "Bob" <bob@example.com>',
+      'Subject: =?UTF-8?B?QnVjaHVuZyBiZXN0w6R0aWd0?=',
+      'Message-ID: <abc123@example.com>',
+      'Content-Type: multipart/mixed; boundary="outer"',
+      '',
+      '--outer',
+      'Content-Type: multipart/alternative; boundary=inner',
+      '',
+      '--inner',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'Gep=C3=A4ck inklusive, sehr lange Zeile die umbrochen =',
+      'wird',
+      '--inner',
+      'Content-Type: text/html; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      Buffer.from('<p>Gepäck</p>').toString('base64'),
+      '--inner--',
+      '--outer',
+      'Content-Type: application/pdf; name="ticket.pdf"',
+      'Content-Disposition: attachment; filename="ticket.pdf"',
+      'Content-Transfer-Encoding: base64',
+      '',
+      Buffer.from('%PDF-1.4').toString('base64'),
+      '--outer--',
+      '',
+    ].join('\r\n');
+
+    const message = parseMailMessage(raw);
+
+    expect(message.subject).toBe('Buchung bestätigt');
+    expect(message.from).toEqual({ address: 'jane@example.com', name: 'Doe, Jane' });
+    expect(message.to.map((address) => address.address)).toEqual([
+      'ana@example.com',
+      'bob@example.com',
+    ]);
+    expect(message.messageId).toBe('abc123@example.com');
+    expect(message.textBody).toBe('Gepäck inklusive, sehr lange Zeile die umbrochen wird');
+    expect(message.htmlBody).toBe('<p>Gepäck</p>');
+    expect(message.attachments).toHaveLength(1);
+    expect(message.attachments[0]?.filename).toBe('ticket.pdf');
+    expect(message.attachments[0]?.contentType).toBe('application/pdf');
+    expect(message.attachments[0]?.content.toString()).toBe('%PDF-1.4');
+  });
+});
+
+describe('local mailbox sources', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'itinerizer-mailbox-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads an mbox file and resumes after appended mail', async () => {
+    const path = join(dir, 'travel.mbox');
+    await writeFile(path, mbox(email('One', 'first'), email('Two', '>From the desk of')));
+    const source = new MboxMailboxSource(path);
+
+    const first = await source.read();
+    expect(first.success).toBe(true);
+    if (!first.success) return;
+    expect(first.value.map((m) => parseMailMessage(m.raw).subject)).toEqual(['One', 'Two']);
+    const [, second] = first.value;
+    expect(second && parseMailMessage(second.raw).textBody).toContain('From the desk of');
+
+    const watermark = second?.position;
+    const unchanged = await source.read(watermark);
+    expect(unchanged.success && unchanged.value).toEqual([]);
+
+    await appendFile(path, `\n${mbox(email('Three', 'third'))}`);
+    const next = await source.read(watermark);
+    expect(next.success && next.value.map((m) => parseMailMessage(m.raw).subject)).toEqual([
+      'Three',
+    ]);
+  });
+
+  it('reports a missing mbox file', async () => {
+    const result = await new MboxMailboxSource(join(dir, 'missing.mbox')).read();
+    expect(!result.success && result.error.code).toBe('NOT_FOUND');
+  });
+
+  it('reads a Maildir in delivery order and ignores flag changes', async () => {
+    await mkdir(join(dir, 'new'));
+    await mkdir(join(dir, 'cur'));
+    await writeFile(join(dir, 'cur', '1717400000.1.host:2,S'), email('Older', 'a'));
+    await writeFile(join(dir, 'new', '1717400100.2.host'), email('Newer', 'b'));
+    const source = new MaildirMailboxSource(dir);
+
+    const first = await source.read();
+    expect(first.success && first.value.map((m) => parseMailMessage(m.raw).subject)).toEqual([
+      'Older',
+      'Newer',
+    ]);
+    const watermark = first.success ? first.value[1]?.position : undefined;
+    expect(watermark).toBe('1717400100.2.host');
+
+    // Reading the message moves it to cur/ with flags
+    await rename(join(dir, 'new', '1717400100.2.host'), join(dir, 'cur', '1717400100.2.host:2,S'));
+    await writeFile(join(dir, 'new', '1717400200.3.host'), email('Newest', 'c'));
+
+    const next = await source.read(watermark);
+    expect(next.success && next.value.map((m) => m.key)).toEqual(['1717400200.3.host']);
+  });
+
+  it('rejects a directory that is not a Maildir', async () => {
+    const result = await new MaildirMailboxSource(dir).read();
+    expect(!result.success && result.error.code).toBe('NOT_FOUND');
+  });
+});
+
+describe('ImapMailboxSource', () => {
+  let server: Server;
+  let port: number;
+  let commands: string[];
+  let capabilities: string;
+  const folder = new Map<number, string>([
+    [3, email('First', 'one')],
+    [5, email('Second', 'two')],
+  ]);
+
+  beforeEach(async () => {
+    commands = [];
+    capabilities = 'IMAP4rev1';
+    // Local stand-in for an IMAP server
+    server = createServer((socket) => {
+      let buffer = '';
+      socket.write('* OK IMAP4rev1 ready\r\n');
+      socket.on('data', (chunk) => {
+        buffer += chunk.toString('latin1');
+        let lineEnd = buffer.indexOf('\r\n');
+        while (lineEnd !== -1) {
+          const line = buffer.slice(0, lineEnd);
+          buffer = buffer.slice(lineEnd + 2);
+          lineEnd = buffer.indexOf('\r\n');
+
+          const [tag, ...rest] = line.split(' ');
+          const command = rest.join(' ');
+          commands.push(command);
+          if (command === 'CAPABILITY') {
+            socket.write(`* CAPABILITY ${capabilities}\r\n${tag} OK CAPABILITY completed\r\n`);
+          } else if (command.startsWith('LOGIN')) {
+            socket.write(
+              command === 'LOGIN "ana" "secret"'
+                ? `${tag} OK LOGIN completed\r\n`
+                : `${tag} NO [AUTHENTICATIONFAILED] Invalid credentials\r\n`
+            );
+          } else if (command.startsWith('EXAMINE')) {
+            socket.write(`* ${folder.size} EXISTS\r\n* OK [UIDVALIDITY 42] UIDs valid\r\n`);
+            socket.write(`${tag} OK [READ-ONLY] EXAMINE completed\r\n`);
+          } else if (command.startsWith('UID SEARCH')) {
+            const from = Number(/UID (\d+):\*/.exec(command)?.[1]);
+            const uids = [...folder.keys()];
+            const found = uids.filter((uid) => uid >= from);
+            // "n:*" matches the highest UID even when it is below n
+            socket.write(`* SEARCH ${(found.length > 0 ? found : uids.slice(-1)).join(' ')}\r\n`);
+            socket.write(`${tag} OK SEARCH completed\r\n`);
+          } else if (command.startsWith('UID FETCH')) {
+            const uid = Number(command.split(' ')[2]);
+            const raw = Buffer.from(folder.get(uid) ?? '', 'utf8');
+            socket.write(`* 1 FETCH (UID ${uid} BODY[] {${raw.length}}\r\n`);
+            socket.write(raw);
+            socket.write(`)\r\n${tag} OK FETCH completed\r\n`);
+          } else if (command === 'LOGOUT') {
+            socket.end(`* BYE logging out\r\n${tag} OK LOGOUT completed\r\n`);
+          } else {
+            socket.write(`${tag} BAD unknown command\r\n`);
+          }
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function source(password = 'secret'): ImapMailboxSource {
+    return new ImapMailboxSource({
+      host: '127.0.0.1',
+      port,
+      secure: false,
+      user: 'ana',
+      password,
+      timeoutMs: 5000,
+    });
+  }
+
+  it('reads new messages read-only and resumes from the UID watermark', async () => {
+    const first = await source().read();
+    expect(first.success).toBe(true);
+    if (!first.success) return;
+    expect(first.value.map((m) => parseMailMessage(m.raw).subject)).toEqual(['First', 'Second']);
+    expect(first.value.map((m) => m.position)).toEqual(['42:3', '42:5']);
+    expect(commands).toContain('EXAMINE "INBOX"');
+    expect(commands).toContain('UID FETCH 3 (BODY.PEEK[])');
+    expect(commands.at(-1)).toBe('LOGOUT');
+
+    const again = await source().read('42:5');
+    expect(again.success && again.value).toEqual([]);
+
+    // A different UIDVALIDITY means the folder was rebuilt
+    const rebuilt = await source().read('41:5');
+    expect(rebuilt.success && rebuilt.value).toHaveLength(2);
+  });
+
+  it('reports rejected credentials', async () => {
+    const result = await source('wrong').read();
+    expect(!result.success && result.error.code).toBe('AUTH_ERROR');
+  });
+
+  it('never sends credentials that could inject commands', async () => {
+    const result = await source('secret"\r\nA999 DELETE INBOX').read();
+    expect(!result.success && result.error.code).toBe('AUTH_ERROR');
+    expect(commands.some((command) => command.startsWith('LOGIN'))).toBe(false);
+    expect(commands).not.toContain('A999 DELETE INBOX');
+  });
+
+  it('does not log in when the server disables LOGIN', async () => {
+    capabilities = 'IMAP4rev1 STARTTLS LOGINDISABLED';
+    const result = await source().read();
+    expect(!result.success && result.error.code).toBe('AUTH_ERROR');
+    expect(commands.some((command) => command.startsWith('LOGIN'))).toBe(false);
+  });
+
+  it('refuses to send a password without TLS to a remote host', async () => {
+    const result = await new ImapMailboxSource({
+      host: 'imap.example.com',
+      secure: false,
+      user: 'ana',
+      password: 'secret',
+    }).read();
+    expect(!result.success && result.error.code).toBe('AUTH_ERROR');
+    expect(!result.success && result.error.message).toContain('without TLS');
+  });
+
+  it('reports an unreachable server', async () => {
+    const closed = createServer();
+    await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+    const closedPort = (closed.address() as AddressInfo).port;
+    await new Promise((resolve) => closed.close(resolve));
+
+    const result = await new ImapMailboxSource({
+      host: '127.0.0.1',
+      port: closedPort,
+      secure: false,
+      user: 'ana',
+      password: 'secret',
+    }).read();
+    expect(!result.success && result.error.code).toBe('CONNECTION_ERROR');
+  });
+});
+
+describe('MailboxImportService', () => {
+  let dir: string;
+  let statePath: string;
+  let storage: InMemoryItineraryStorage;
+  let importService: ImportService;
+  let itineraryId: ItineraryId;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'itinerizer-mailbox-'));
+    statePath = join(dir, 'state.json');
+    storage = new InMemoryItineraryStorage();
+    importService = new ImportService({
+      apiKey: 'test-key',
+      itineraryCollection: new ItineraryCollectionService(storage),
+      segmentService: new SegmentService(storage),
+    });
+
+    const trip: Itinerary = {
+      id: generateItineraryId(),
+      version: 1,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      title: 'Paris',
+      status: 'DRAFT',
+      destinations: [],
+      travelers: [],
+      segments: [],
+      tags: [],
+      metadata: {},
+      createdBy: 'ana@example.com',
+    };
+    await storage.save(trip);
+    itineraryId = trip.id;
+
+    // Emails without schema.org markup fall back to the LLM
+    vi.spyOn(LLMExtractor.prototype, 'extract').mockResolvedValue({
+      success: true,
+      format: 'email',
+      segments: [],
+      confidence: 0,
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('imports bookings, skips repeated confirmation numbers and resumes from the watermark', async () => {
+    const path = join(dir, 'travel.mbox');
+    await writeFile(
+      path,
+      mbox(
+        flightEmail('ABC123', 'BA304'),
+        email('Newsletter', 'Summer deals'),
+        flightEmail('abc123', 'BA304')
+      )
+    );
+    const service = new MailboxImportService({ importService, statePath });
+    const source = new MboxMailboxSource(path);
+
+    const first = await service.importMailbox(source, { itineraryId });
+    expect(first.success).toBe(true);
+    if (!first.success) return;
+    expect(first.value.messages.map((m) => m.status)).toEqual([
+      'imported',
+      'no_bookings',
+      'duplicate',
+    ]);
+    expect(first.value.messages[2]?.duplicates).toEqual(['abc123']);
+    expect(first.value.totals.imported).toBe(1);
+
+    const saved = await storage.load(itineraryId);
+    expect(saved.success && saved.value.segments).toHaveLength(1);
+
+    const state = JSON.parse(await readFile(statePath, 'utf-8'));
+    expect(state.confirmationNumbers).toEqual(['ABC123']);
+    expect(state.sources[source.id].watermark).toBe(first.value.watermark);
+
+    // Nothing new: nothing processed
+    const rerun = await service.importMailbox(source, { itineraryId });
+    expect(rerun.success && rerun.value.messages).toEqual([]);
+
+    // New mail only; its booking was already imported from another email
+    await appendFile(
+      path,
+      `\n${mbox(flightEmail('ABC123', 'BA304'), flightEmail('XYZ789', 'BA318'))}`
+    );
+    const next = await service.importMailbox(source, { itineraryId });
+    expect(next.success && next.value.messages.map((m) => m.status)).toEqual([
+      'duplicate',
+      'imported',
+    ]);
+  });
+
+  it('retries a failed message without re-importing the messages after it', async () => {
+    vi.mocked(LLMExtractor.prototype.extract)
+      .mockResolvedValueOnce({
+        success: false,
+        format: 'email',
+        segments: [],
+        confidence: 0,
+        errors: ['LLM returned empty response'],
+      })
+      .mockResolvedValueOnce({
+        success: true,
+        format: 'email',
+        // No confirmation number, so only the stored message position prevents a second copy
+        segments: [
+          {
+            type: 'ACTIVITY',
+            status: 'CONFIRMED',
+            startDatetime: new Date('2025-07-02T10:00:00Z'),
+            endDatetime: new Date('2025-07-02T12:00:00Z'),
+            name: 'Louvre tour',
+            location: { name: 'Louvre' },
+            confidence: 0.8,
+          } as never,
+        ],
+        confidence: 0.8,
+      });
+    const path = join(dir, 'travel.mbox');
+    await writeFile(
+      path,
+      mbox(
+        flightEmail('ABC123', 'BA304'),
+        email('Hotel', 'Your stay'),
+        email('Tour', 'Your Louvre tour')
+      )
+    );
+    const service = new MailboxImportService({ importService, statePath });
+    const source = new MboxMailboxSource(path);
+
+    const first = await service.importMailbox(source, { itineraryId });
+    expect(first.success && first.value.messages.map((m) => m.status)).toEqual([
+      'imported',
+      'failed',
+      'imported',
+    ]);
+
+    const retry = await service.importMailbox(source, { itineraryId });
+    expect(retry.success && retry.value.messages.map((m) => m.status)).toEqual(['no_bookings']);
+
+    const saved = await storage.load(itineraryId);
+    expect(saved.success && saved.value.segments.map((segment) => segment.type)).toEqual([
+      'FLIGHT',
+      'ACTIVITY',
+    ]);
+    const state = JSON.parse(await readFile(statePath, 'utf-8'));
+    expect(state.sources[source.id].completed).toBeUndefined();
+  });
+
+  it('saves progress after each message', async () => {
+    let stateDuringRun: { confirmationNumbers: string[] } | undefined;
+    vi.mocked(LLMExtractor.prototype.extract).mockImplementationOnce(async () => {
+      stateDuringRun = JSON.parse(await readFile(statePath, 'utf-8'));
+      return { success: false, format: 'email', segments: [], confidence: 0 };
+    });
+    const path = join(dir, 'travel.mbox');
+    await writeFile(path, mbox(flightEmail('ABC123', 'BA304'), email('Newsletter', 'Deals')));
+    const service = new MailboxImportService({ importService, statePath });
+
+    const result = await service.importMailbox(new MboxMailboxSource(path), { itineraryId });
+
+    expect(result.success && result.value.totals.imported).toBe(1);
+    expect(stateDuringRun?.confirmationNumbers).toEqual(['ABC123']);
+  });
+
+  it('leaves itineraries and state untouched on a dry run', async () => {
+    const path = join(dir, 'travel.mbox');
+    await writeFile(path, mbox(flightEmail('ABC123', 'BA304')));
+    const service = new MailboxImportService({ importService, statePath });
+
+    const result = await service.importMailbox(new MboxMailboxSource(path), {
+      itineraryId,
+      dryRun: true,
+    });
+
+    expect(result.success && result.value.messages.map((m) => m.status)).toEqual(['pending']);
+    expect(result.success && result.value.messages[0]?.segments[0]?.confirmationNumber).toBe(
+      'ABC123'
+    );
+    const saved = await storage.load(itineraryId);
+    expect(saved.success && saved.value.segments).toHaveLength(0);
+    await expect(readFile(statePath, 'utf-8')).rejects.toThrow();
+  });
+});
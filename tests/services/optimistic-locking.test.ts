@@ -0,0 +1,175 @@
+/**
+ * Tests for version-checked itinerary saves
+ */
+
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { isVersionConflictError } from '../../src/core/errors.js';
+import type { Itinerary } from '../../src/domain/types/itinerary.js';
+import type { FlightSegment } from '../../src/domain/types/segment.js';
+import { parseIfMatch } from '../../src/server/optimistic-locking.js';
+import { ItineraryCollectionService } from '../../src/services/itinerary-collection.service.js';
+import { SegmentService } from '../../src/services/segment.service.js';
+import { InMemoryItineraryStorage } from '../../src/storage/in-memory-storage.js';
+import { JsonItineraryStorage } from '../../src/storage/json-storage.js';
+import type { ItineraryStorage } from '../../src/storage/storage.interface.js';
+import { createTestFlight, createTestItinerary, createTestTraveler } from '../helpers/builders.js';
+
+function itinerary(): Itinerary {
+  return createTestItinerary({ title: 'Lisbon' });
+}
+
+function flight(flightNumber: string): FlightSegment {
+  return createTestFlight({
+    startDatetime: new Date('2025-06-02T09:00:00Z'),
+    endDatetime: new Date('2025-06-02T11:00:00Z'),
+    airline: { name: 'TAP Air Portugal', code: 'TP' },
+    flightNumber,
+    destination: { name: 'Humberto Delgado', code: 'LIS' },
+  });
+}
+
+const tempDirs: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(tempDirs.splice(0).map((dir) => rm(dir, { recursive: true, force: true })));
+});
+
+describe.each([
+  ['InMemoryItineraryStorage', async () => new InMemoryItineraryStorage()],
+  [
+    'JsonItineraryStorage',
+    async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'optimistic-locking-'));
+      tempDirs.push(dir);
+      const storage = new JsonItineraryStorage(dir);
+      await storage.initialize();
+      return storage;
+    },
+  ],
+] as const)('%s versioned save', (_name, createStorage) => {
+  let storage: ItineraryStorage;
+
+  beforeEach(async () => {
+    storage = await createStorage();
+  });
+
+  it('saves when the expected version matches', async () => {
+    const trip = itinerary();
+    await storage.save(trip);
+
+    const result = await storage.save({ ...trip, title: 'Porto', version: 2 }, undefined, 1);
+
+    expect(result.success).toBe(true);
+    const loaded = await storage.load(trip.id);
+    expect(loaded.success && loaded.value.title).toBe('Porto');
+  });
+
+  it('rejects a stale expected version without writing', async () => {
+    const trip = itinerary();
+    await storage.save(trip);
+    await storage.save({ ...trip, title: 'Porto', version: 2 }, undefined, 1);
+
+    const result = await storage.save({ ...trip, title: 'Faro', version: 2 }, undefined, 1);
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(isVersionConflictError(result.error)).toBe(true);
+    expect(result.error).toMatchObject({
+      code: 'VERSION_CONFLICT',
+      expectedVersion: 1,
+      currentVersion: 2,
+    });
+    const loaded = await storage.load(trip.id);
+    expect(loaded.success && loaded.value.title).toBe('Porto');
+  });
+
+  it('accepts only one of several concurrent saves expecting the same version', async () => {
+    const trip = itinerary();
+    await storage.save(trip);
+    await storage.save({ ...trip, title: 'Porto', version: 2 }, undefined, 1);
+
+    // A stale save holds the lock first, so the other two queue behind it
+    const [stale, ...results] = await Promise.all([
+      storage.save({ ...trip, title: 'Faro', version: 2 }, undefined, 1),
+      storage.save({ ...trip, title: 'Braga', version: 3 }, undefined, 2),
+      storage.save({ ...trip, title: 'Coimbra', version: 3 }, undefined, 2),
+    ]);
+
+    expect(stale?.success).toBe(false);
+    const saved = results.flatMap((result) => (result.success ? [result.value] : []));
+    expect(saved).toHaveLength(1);
+    const loaded = await storage.load(trip.id);
+    expect(loaded.success && loaded.value.title).toBe(saved[0]?.title);
+  });
+
+  it('returns NOT_FOUND when a versioned save targets a missing itinerary', async () => {
+    const result = await storage.save(itinerary(), undefined, 1);
+
+    expect(!result.success && result.error.code).toBe('NOT_FOUND');
+  });
+});
+
+describe('services with an expected version', () => {
+  it('rejects a segment update based on an outdated version', async () => {
+    const storage = new InMemoryItineraryStorage();
+    const segmentService = new SegmentService(storage);
+    const collectionService = new ItineraryCollectionService(storage);
+    const trip = itinerary();
+    await storage.save(trip);
+    const segment = flight('TP1');
+    await segmentService.add(trip.id, segment);
+    await collectionService.updateMetadata(trip.id, { title: 'Porto' });
+
+    const result = await segmentService.update(
+      trip.id,
+      segment.id,
+      { flightNumber: 'TP2' },
+      undefined,
+      2
+    );
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toMatchObject({
+      code: 'VERSION_CONFLICT',
+      expectedVersion: 2,
+      currentVersion: 3,
+    });
+  });
+
+  it('accepts a traveler change based on the current version', async () => {
+    const storage = new InMemoryItineraryStorage();
+    const collectionService = new ItineraryCollectionService(storage);
+    const trip = itinerary();
+    await storage.save(trip);
+
+    const result = await collectionService.addTraveler(
+      trip.id,
+      createTestTraveler({ firstName: 'Ana', lastName: 'Silva' }),
+      1
+    );
+
+    expect(result.success && result.value.version).toBe(2);
+  });
+});
+
+describe('parseIfMatch', () => {
+  it('reads plain, quoted and weak versions', () => {
+    expect(parseIfMatch('3')).toBe(3);
+    expect(parseIfMatch('"3"')).toBe(3);
+    expect(parseIfMatch('W/"3"')).toBe(3);
+  });
+
+  it('treats a missing header or * as any version', () => {
+    expect(parseIfMatch(undefined)).toBeUndefined();
+    expect(parseIfMatch(null)).toBeUndefined();
+    expect(parseIfMatch('*')).toBeUndefined();
+  });
+
+  it('returns null for malformed headers', () => {
+    expect(parseIfMatch('"abc"')).toBeNull();
+    expect(parseIfMatch('1.5')).toBeNull();
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Tests for RescheduleService and ItineraryService.reschedule
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { rescheduleRequestSchema } from '../../src/domain/schemas/reschedule.schema.js';
+import { generateItineraryId, generateSegmentId } from '../../src/domain/types/branded.js';
+import type { Itinerary } from '../../src/domain/types/itinerary.js';
+import type {
+  ActivitySegment,
+  FlightSegment,
+  HotelSegment,
+  TransferSegment,
+} from '../../src/domain/types/segment.js';
+import { ItineraryService } from '../../src/services/itinerary.service.js';
+import { RescheduleService } from '../../src/services/reschedule.service.js';
+import { InMemoryItineraryStorage } from '../../src/storage/in-memory-storage.js';
+
+/**
+ * New York trip spanning the 2025-03-09 daylight saving change when moved a week
+ */
+function newYorkTrip(): Itinerary {
+  const flight: FlightSegment = {
+    id: generateSegmentId(),
+    type: 'FLIGHT',
+    status: 'CONFIRMED',
+    // 09:00 Chicago (CST) to 12:30 New York (EST)
+    startDatetime: new Date('2025-03-03T15:00:00Z'),
+    endDatetime: new Date('2025-03-03T17:30:00Z'),
+    travelerIds: [],
+    metadata: {},
+    confirmationNumber: 'UA-55',
+    airline: { name: 'United', code: 'UA' },
+    flightNumber: 'UA55',
+    origin: { name: "O'Hare", code: 'ORD' },
+    destination: { name: 'LaGuardia', code: 'LGA' },
+  };
+
+  const transfer: TransferSegment = {
+    id: generateSegmentId(),
+    type: 'TRANSFER',
+    status: 'TENTATIVE',
+    startDatetime: new Date('2025-03-03T17:45:00Z'),
+    endDatetime: new Date('2025-03-03T18:30:00Z'),
+    travelerIds: [],
+    metadata: {},
+    transferType: 'TAXI',
+    pickupLocation: { name: 'LaGuardia', code: 'LGA' },
+    dropoffLocation: { name: 'Midtown Hotel', code: 'LGA' },
+    dependsOn: [flight.id],
+  };
+
+  const hotel: HotelSegment = {
+    id: generateSegmentId(),
+    type: 'HOTEL',
+    status: 'CONFIRMED',
+    startDatetime: new Date('2025-03-03T20:00:00Z'),
+    endDatetime: new Date('2025-03-06T16:00:00Z'),
+    travelerIds: [],
+    metadata: {},
+    property: { name: 'Midtown Hotel' },
+    location: { name: 'Midtown Hotel', timezone: 'America/New_York' },
+    checkInDate: new Date('2025-03-03T00:00:00Z'),
+    checkOutDate: new Date('2025-03-06T00:00:00Z'),
+    roomCount: 1,
+    amenities: [],
+  };
+
+  const museum: ActivitySegment = {
+    id: generateSegmentId(),
+    type: 'ACTIVITY',
+    status: 'TENTATIVE',
+    // 10:00-12:00 New York
+    startDatetime: new Date('2025-03-05T15:00:00Z'),
+    endDatetime: new Date('2025-03-05T17:00:00Z'),
+    travelerIds: [],
+    metadata: {},
+    name: 'MoMA',
+    location: { name: 'MoMA', timezone: 'America/New_York' },
+  };
+
+  return {
+    id: generateItineraryId(),
+    version: 1,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-01T00:00:00Z'),
+    title: 'New York',
+    status: 'CONFIRMED',
+    startDate: new Date('2025-03-03T00:00:00Z'),
+    endDate: new Date('2025-03-06T00:00:00Z'),
+    destinations: [{ name: 'New York', code: 'NYC' }],
+    travelers: [],
+    segments: [flight, transfer, hotel, museum],
+    tags: [],
+    metadata: {},
+  };
+}
+
+function parse(body: unknown) {
+  return rescheduleRequestSchema.parse(body);
+}
+
+describe('RescheduleService', () => {
+  const service = new RescheduleService();
+
+  it('moves the whole trip keeping local times across daylight saving', () => {
+    const trip = newYorkTrip();
+
+    const result = service.plan(trip, parse({ days: 7 }));
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const { itinerary, moved, needsRebooking } = result.value;
+    const [flight, , hotel, museum] = itinerary.segments;
+
+    // Still 09:00 in Chicago and 12:30 in New York, now on daylight time
+    expect(flight?.startDatetime).toEqual(new Date('2025-03-10T14:00:00Z'));
+    expect(flight?.endDatetime).toEqual(new Date('2025-03-10T16:30:00Z'));
+    expect(museum?.startDatetime).toEqual(new Date('2025-03-12T14:00:00Z'));
+    expect(hotel).toMatchObject({
+      checkInDate: new Date('2025-03-10T00:00:00Z'),
+      checkOutDate: new Date('2025-03-13T00:00:00Z'),
+    });
+
+    expect(itinerary.startDate).toEqual(new Date('2025-03-10T00:00:00Z'));
+    expect(itinerary.endDate).toEqual(new Date('2025-03-13T00:00:00Z'));
+    expect(moved).toHaveLength(4);
+    expect(needsRebooking.map((s) => s.segmentId)).toEqual([flight?.id, hotel?.id]);
+  });
+
+  it('moves one day to a new date along with its dependents and widens the trip', () => {
+    const trip = newYorkTrip();
+    const [flight, transfer, hotel] = trip.segments;
+
+    const result = service.plan(trip, parse({ day: '2025-03-03', toStartDate: '2025-03-02' }));
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const movedIds = result.value.moved.map((s) => s.segmentId);
+    expect(movedIds).toEqual([flight?.id, transfer?.id, hotel?.id]);
+    expect(result.value.itinerary.segments[3]).toEqual(trip.segments[3]);
+    expect(result.value.itinerary.startDate).toEqual(new Date('2025-03-02T00:00:00Z'));
+    expect(result.value.itinerary.endDate).toEqual(new Date('2025-03-06T00:00:00Z'));
+  });
+
+  it('moves only the selected segments without cascade', () => {
+    const trip = newYorkTrip();
+    const flight = trip.segments[0];
+
+    const result = service.plan(
+      trip,
+      parse({ segmentIds: [flight?.id], hours: -2, cascade: false })
+    );
+
+    expect(result.success && result.value.moved.map((s) => s.segmentId)).toEqual([flight?.id]);
+  });
+
+  it('rejects a shift that makes a flight overlap a transfer', () => {
+    const trip = newYorkTrip();
+    const flight = trip.segments[0];
+
+    const result = service.plan(
+      trip,
+      parse({ segmentIds: [flight?.id], minutes: 60, cascade: false })
+    );
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error.code).toBe('ADJUSTMENT_FAILED');
+  });
+
+  it('rejects a day without segments', () => {
+    const result = service.plan(newYorkTrip(), parse({ day: '2025-04-01', days: 1 }));
+
+    expect(!result.success && result.error.code).toBe('CONSTRAINT_VIOLATION');
+  });
+});
+
+describe('rescheduleRequestSchema', () => {
+  it('requires either a duration or a start date', () => {
+    expect(rescheduleRequestSchema.safeParse({}).success).toBe(false);
+    expect(rescheduleRequestSchema.safeParse({ days: 1, toStartDate: '2025-05-01' }).success).toBe(
+      false
+    );
+    expect(parse({ days: 1, hours: 2 }).shift).toEqual({ kind: 'offset', minutes: 26 * 60 });
+  });
+});
+
+describe('ItineraryService.reschedule', () => {
+  let storage: InMemoryItineraryStorage;
+  let itineraryService: ItineraryService;
+  let trip: Itinerary;
+
+  beforeEach(async () => {
+    storage = new InMemoryItineraryStorage();
+    itineraryService = new ItineraryService(storage);
+    trip = newYorkTrip();
+    await storage.save(trip);
+  });
+
+  it('saves the rescheduled itinerary as a new version', async () => {
+    const result = await itineraryService.reschedule(trip.id, parse({ days: 7 }));
+
+    expect(result.success).toBe(true);
+    const loaded = await storage.load(trip.id);
+    expect(loaded.success && loaded.value.version).toBe(trip.version + 1);
+    expect(loaded.success && loaded.value.startDate).toEqual(new Date('2025-03-10T00:00:00Z'));
+  });
+
+  it('does not save a dry run', async () => {
+    const result = await itineraryService.reschedule(trip.id, parse({ days: 7, dryRun: true }));
+
+    expect(result.success && result.value.moved).toHaveLength(4);
+    const loaded = await storage.load(trip.id);
+    expect(loaded.success && loaded.value.version).toBe(trip.version);
+  });
+});
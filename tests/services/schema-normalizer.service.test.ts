@@ -83,6 +83,46 @@ describe('Schema Normalizer Service', () => {
       expect(result.segments[0].origin.code).toBeUndefined();
       expect(result.segments[0].destination.code).toBeUndefined();
     });
+
+    it('should convert known ICAO codes to IATA', () => {
+      const input = {
+        segments: [
+          {
+            type: 'FLIGHT',
+            origin: { name: 'New York JFK', code: 'KJFK' },
+            destination: { name: 'London Heathrow', code: 'EGLL' },
+            startDatetime: '2024-01-01T10:00:00Z',
+            endDatetime: '2024-01-01T18:00:00Z',
+          },
+        ],
+      };
+
+      const result = normalizeImportData(input);
+
+      expect(result.segments[0].origin.code).toBe('JFK');
+      expect(result.segments[0].destination.code).toBe('LHR');
+    });
+
+    it('should fill in airport details from the reference dataset', () => {
+      const input = {
+        segments: [
+          {
+            type: 'FLIGHT',
+            origin: { name: 'Milan Malpensa', code: 'MXP' },
+            destination: { name: 'Heathrow' },
+            startDatetime: '2024-01-01T10:00:00Z',
+            endDatetime: '2024-01-01T12:00:00Z',
+          },
+        ],
+      };
+
+      const result = normalizeImportData(input);
+
+      expect(result.segments[0].origin.address).toEqual({ city: 'Milan', country: 'IT' });
+      expect(result.segments[0].origin.coordinates.latitude).toBeCloseTo(45.63, 1);
+      expect(result.segments[0].destination.address.country).toBe('GB');
+      expect(result.segments[0].destination.timezone).toBe('Europe/London');
+    });
   });
 
   describe('Transfer type normalization', () => {
@@ -414,6 +454,47 @@ describe('Schema Normalizer Service', () => {
       expect(result.segments[0].startDatetime).toBe('2024-01-01T10:00:00+01:00');
       expect(result.segments[0].endDatetime).toBe('2024-01-01T12:00:00+01:00');
     });
+
+    it('should read flight times as local to each airport', () => {
+      const input = {
+        segments: [
+          {
+            type: 'FLIGHT',
+            origin: { name: 'New York JFK', code: 'JFK' },
+            destination: { name: 'London Heathrow', code: 'LHR' },
+            startDatetime: '2024-01-15T18:00:00',
+            endDatetime: '2024-01-16T06:30:00',
+          },
+        ],
+      };
+
+      const result = normalizeImportData(input);
+
+      expect(result.segments[0].startDatetime).toBe('2024-01-15T23:00:00.000Z');
+      expect(result.segments[0].endDatetime).toBe('2024-01-16T06:30:00.000Z');
+      expect(result.segments[0].durationMinutes).toBe(450);
+      expect(result.segments[0].origin.timezone).toBe('America/New_York');
+      expect(result.segments[0].destination.timezone).toBe('Europe/London');
+    });
+
+    it('should flag naive times at locations with unknown timezones as floating', () => {
+      const input = {
+        segments: [
+          {
+            type: 'ACTIVITY',
+            name: 'City Tour',
+            location: { name: 'Downtown' },
+            startDatetime: '2024-01-01T10:00:00',
+            endDatetime: '2024-01-01T12:00:00',
+          },
+        ],
+      };
+
+      const result = normalizeImportData(input);
+
+      expect(result.segments[0].startDatetime).toBe('2024-01-01T10:00:00Z');
+      expect(result.segments[0].metadata.floatingTimes).toBe(true);
+    });
   });
 
   describe('Complex scenarios', () => {
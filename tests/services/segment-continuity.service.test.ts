@@ -5,7 +5,15 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import { SegmentContinuityService, GapType } from '../../src/services/segment-continuity.service.js';
-import type { FlightSegment, HotelSegment, TransferSegment, Segment } from '../../src/domain/types/segment.js';
+import type {
+  CarRentalSegment,
+  CustomSegment,
+  FlightSegment,
+  HotelSegment,
+  RailSegment,
+  TransferSegment,
+  Segment,
+} from '../../src/domain/types/segment.js';
 import { generateSegmentId } from '../../src/domain/types/branded.js';
 
 describe('SegmentContinuityService', () => {
@@ -74,6 +82,26 @@ describe('SegmentContinuityService', () => {
       const location = service.getStartLocation(transfer);
       expect(location?.name).toBe('Milan Malpensa Airport');
     });
+
+    it('should extract departure station from rail segment', () => {
+      const rail: RailSegment = {
+        id: generateSegmentId(),
+        type: 'RAIL',
+        status: 'CONFIRMED',
+        startDatetime: new Date('2024-01-05T09:01:00Z'),
+        endDatetime: new Date('2024-01-05T12:20:00Z'),
+        travelerIds: [],
+        source: 'user',
+        metadata: {},
+        operator: { name: 'Eurostar' },
+        trainNumber: '9014',
+        origin: { name: 'London St Pancras International', address: { city: 'London', country: 'GB' } },
+        destination: { name: 'Paris Gare du Nord', address: { city: 'Paris', country: 'FR' } },
+      };
+
+      expect(service.getStartLocation(rail)?.name).toBe('London St Pancras International');
+      expect(service.getEndLocation(rail)?.name).toBe('Paris Gare du Nord');
+    });
   });
 
   describe('getEndLocation', () => {
@@ -284,6 +312,132 @@ describe('SegmentContinuityService', () => {
     });
   });
 
+  describe('car rentals', () => {
+    const makeHotel = (name: string, city: string, checkIn: string, checkOut: string): HotelSegment => ({
+      id: generateSegmentId(),
+      type: 'HOTEL',
+      status: 'CONFIRMED',
+      startDatetime: new Date(`${checkIn}T15:00:00Z`),
+      endDatetime: new Date(`${checkOut}T11:00:00Z`),
+      travelerIds: [],
+      source: 'user',
+      metadata: {},
+      property: { name },
+      location: { name, address: { city, country: 'US' } },
+      checkInDate: new Date(checkIn),
+      checkOutDate: new Date(checkOut),
+      roomCount: 1,
+      amenities: [],
+    });
+
+    const rental: CarRentalSegment = {
+      id: generateSegmentId(),
+      type: 'CAR_RENTAL',
+      status: 'CONFIRMED',
+      startDatetime: new Date('2024-06-01T12:00:00Z'),
+      endDatetime: new Date('2024-06-05T13:00:00Z'),
+      travelerIds: [],
+      source: 'user',
+      metadata: {},
+      rentalCompany: { name: 'Hertz' },
+      pickupLocation: { name: 'Hertz Los Angeles Airport', code: 'LAX', address: { city: 'Los Angeles', country: 'US' } },
+      returnLocation: { name: 'Hertz San Francisco Airport', code: 'SFO', address: { city: 'San Francisco', country: 'US' } },
+    };
+
+    it('should use pickup and return offices as start and end locations', () => {
+      expect(service.getStartLocation(rental)?.code).toBe('LAX');
+      expect(service.getEndLocation(rental)?.code).toBe('SFO');
+    });
+
+    it('should not report gaps between hotels visited with the rental car', () => {
+      const santaBarbara = makeHotel('Canary Hotel', 'Santa Barbara', '2024-06-01', '2024-06-03');
+      const bigSur = makeHotel('Post Ranch Inn', 'Big Sur', '2024-06-03', '2024-06-05');
+
+      const gaps = service.detectLocationGaps([rental, santaBarbara, bigSur]);
+
+      expect(gaps).toHaveLength(0);
+    });
+
+    it('should continue from the return office after the rental ends', () => {
+      const bigSur = makeHotel('Post Ranch Inn', 'Big Sur', '2024-06-03', '2024-06-05');
+      const flight: FlightSegment = {
+        id: generateSegmentId(),
+        type: 'FLIGHT',
+        status: 'CONFIRMED',
+        startDatetime: new Date('2024-06-05T16:00:00Z'),
+        endDatetime: new Date('2024-06-05T22:00:00Z'),
+        travelerIds: [],
+        source: 'user',
+        metadata: {},
+        airline: { name: 'United Airlines', code: 'UA' },
+        flightNumber: 'UA100',
+        origin: { name: 'San Francisco International', code: 'SFO', address: { country: 'US' } },
+        destination: { name: 'Newark Liberty', code: 'EWR', address: { country: 'US' } },
+      };
+
+      const gaps = service.detectLocationGaps([rental, bigSur, flight]);
+
+      expect(gaps).toHaveLength(0);
+    });
+  });
+
+  describe('connecting flights', () => {
+    const makeLeg = (
+      flightNumber: string,
+      origin: string,
+      destination: string,
+      start: string,
+      end: string
+    ): FlightSegment => ({
+      id: generateSegmentId(),
+      type: 'FLIGHT',
+      status: 'CONFIRMED',
+      startDatetime: new Date(start),
+      endDatetime: new Date(end),
+      travelerIds: [],
+      source: 'import',
+      metadata: {},
+      bookingReference: 'PNR123',
+      airline: { name: 'British Airways', code: 'BA' },
+      flightNumber,
+      origin: { name: `${origin} Airport`, code: origin, address: { city: 'London', country: 'GB' } },
+      destination: { name: `${destination} Airport`, code: destination, address: { city: 'London', country: 'GB' } },
+    });
+
+    it('should not report gaps for segments during a same-airport layover', () => {
+      const leg1 = makeLeg('BA178', 'JFK', 'LHR', '2024-03-01T18:00:00Z', '2024-03-02T06:00:00Z');
+      const lounge: CustomSegment = {
+        id: generateSegmentId(),
+        type: 'CUSTOM',
+        status: 'CONFIRMED',
+        startDatetime: new Date('2024-03-02T06:30:00Z'),
+        endDatetime: new Date('2024-03-02T08:00:00Z'),
+        travelerIds: [],
+        source: 'import',
+        metadata: {},
+        title: 'Lounge access',
+        location: { name: 'Galleries Lounge', address: { city: 'London', country: 'GB' } },
+        customData: {},
+      };
+      const leg2 = makeLeg('BA342', 'LHR', 'NCE', '2024-03-02T08:30:00Z', '2024-03-02T10:30:00Z');
+
+      const gaps = service.detectLocationGaps([leg1, lounge, leg2]);
+
+      expect(gaps).toHaveLength(0);
+    });
+
+    it('should suggest a ground transfer for a cross-airport connection', () => {
+      const leg1 = makeLeg('BA178', 'JFK', 'LHR', '2024-03-01T18:00:00Z', '2024-03-02T06:00:00Z');
+      const leg2 = makeLeg('BA2562', 'LGW', 'NCE', '2024-03-02T11:00:00Z', '2024-03-02T13:00:00Z');
+
+      const gaps = service.detectLocationGaps([leg1, leg2]);
+
+      expect(gaps).toHaveLength(1);
+      expect(gaps[0]?.gapType).toBe(GapType.LOCAL_TRANSFER);
+      expect(gaps[0]?.suggestedType).toBe('TRANSFER');
+    });
+  });
+
   describe('sortSegments', () => {
     it('should sort segments by start datetime', () => {
       const segment1: Segment = {
@@ -0,0 +1,109 @@
+/**
+ * Tests for StorageMigrationService
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { createStorageError } from '../../src/core/errors.js';
+import { err } from '../../src/core/result.js';
+import { generateItineraryId } from '../../src/domain/types/branded.js';
+import type { Itinerary } from '../../src/domain/types/itinerary.js';
+import { StorageMigrationService } from '../../src/services/storage-migration.service.js';
+import { InMemoryItineraryStorage } from '../../src/storage/in-memory-storage.js';
+
+function createItinerary(title: string): Itinerary {
+  const now = new Date('2025-03-01T10:00:00.000Z');
+  return {
+    id: generateItineraryId(),
+    version: 1,
+    createdAt: now,
+    updatedAt: now,
+    title,
+    status: 'DRAFT',
+    destinations: [],
+    travelers: [],
+    segments: [],
+    tags: [],
+    metadata: {},
+  };
+}
+
+describe('StorageMigrationService', () => {
+  it('copies itineraries with their revision history and timestamps', async () => {
+    const source = new InMemoryItineraryStorage();
+    const target = new InMemoryItineraryStorage();
+    const itinerary = createItinerary('Tokyo');
+    const saved = await source.save(itinerary);
+    await source.save({ ...itinerary, version: 2, title: 'Tokyo & Kyoto' }, { author: 'agent' });
+
+    const result = await new StorageMigrationService(source, target).migrate();
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.value).toMatchObject({ total: 1, copied: [itinerary.id], revisions: 2 });
+    }
+    expect(await target.load(itinerary.id)).toEqual(await source.load(itinerary.id));
+    expect(await target.listRevisions(itinerary.id)).toEqual(
+      await source.listRevisions(itinerary.id)
+    );
+    const first = await target.loadRevision(itinerary.id, 1);
+    expect(first.success && saved.success && first.value).toEqual(saved.success && saved.value);
+  });
+
+  it('skips itineraries already in the target unless overwrite is set', async () => {
+    const source = new InMemoryItineraryStorage();
+    const target = new InMemoryItineraryStorage();
+    const itinerary = createItinerary('Rome');
+    await source.save(itinerary);
+    await target.save({ ...itinerary, title: 'Stale copy' });
+    const migration = new StorageMigrationService(source, target);
+
+    const skipped = await migration.migrate();
+    expect(skipped.success && skipped.value.skipped).toEqual([itinerary.id]);
+    const kept = await target.load(itinerary.id);
+    expect(kept.success && kept.value.title).toBe('Stale copy');
+
+    const overwritten = await migration.migrate({ overwrite: true });
+    expect(overwritten.success && overwritten.value.copied).toEqual([itinerary.id]);
+    const loaded = await target.load(itinerary.id);
+    expect(loaded.success && loaded.value.title).toBe('Rome');
+  });
+
+  it('copies an itinerary without the revisions whose snapshots are missing', async () => {
+    const source = new InMemoryItineraryStorage();
+    const target = new InMemoryItineraryStorage();
+    const itinerary = createItinerary('Lima');
+    await source.save(itinerary);
+    await source.save({ ...itinerary, version: 2, title: 'Lima & Cusco' });
+    const loadRevision = source.loadRevision.bind(source);
+    vi.spyOn(source, 'loadRevision').mockImplementation(async (id, revision) =>
+      revision === 1
+        ? err(createStorageError('NOT_FOUND', `Revision 1 of itinerary ${id} not found`))
+        : loadRevision(id, revision)
+    );
+
+    const result = await new StorageMigrationService(source, target).migrate();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.value).toMatchObject({ copied: [itinerary.id], failed: [], revisions: 1 });
+    expect(result.value.missingRevisions).toEqual([
+      { itineraryId: itinerary.id, revision: 1, error: expect.stringContaining('not found') },
+    ]);
+    const loaded = await target.load(itinerary.id);
+    expect(loaded.success && loaded.value.title).toBe('Lima & Cusco');
+    const revisions = await target.listRevisions(itinerary.id);
+    expect(revisions.success && revisions.value.map((r) => r.revision)).toEqual([2]);
+  });
+
+  it('writes nothing in a dry run', async () => {
+    const source = new InMemoryItineraryStorage();
+    const target = new InMemoryItineraryStorage();
+    await source.save(createItinerary('Oslo'));
+
+    const result = await new StorageMigrationService(source, target).migrate({ dryRun: true });
+
+    expect(result.success && result.value.copied).toHaveLength(1);
+    const listed = await target.list();
+    expect(listed.success && listed.value).toEqual([]);
+  });
+});
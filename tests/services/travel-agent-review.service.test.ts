@@ -5,7 +5,12 @@
 import { describe, it, expect } from 'vitest';
 import { TravelAgentReviewService } from '../../src/services/travel-agent-review.service.js';
 import type { Itinerary } from '../../src/domain/types/itinerary.js';
-import type { FlightSegment, HotelSegment, TransferSegment } from '../../src/domain/types/segment.js';
+import type {
+  CustomSegment,
+  FlightSegment,
+  HotelSegment,
+  TransferSegment,
+} from '../../src/domain/types/segment.js';
 import { SegmentType, SegmentStatus } from '../../src/domain/types/common.js';
 import { generateItineraryId, generateSegmentId, generateTravelerId } from '../../src/domain/types/branded.js';
 
@@ -330,4 +335,92 @@ describe('TravelAgentReviewService', () => {
       expect(transfer?.pickupLocation.code).toBe('JFK');
     });
   });
+
+  describe('connecting flights', () => {
+    const leg = (
+      flightNumber: string,
+      origin: string,
+      destination: string,
+      start: string,
+      end: string
+    ): FlightSegment => ({
+      id: generateSegmentId(),
+      type: SegmentType.FLIGHT,
+      status: SegmentStatus.CONFIRMED,
+      startDatetime: new Date(start),
+      endDatetime: new Date(end),
+      travelerIds: [],
+      source: 'import',
+      bookingReference: 'PNR123',
+      airline: { name: 'British Airways', code: 'BA' },
+      flightNumber,
+      origin: { name: origin, code: origin, type: 'AIRPORT' },
+      destination: { name: destination, code: destination, type: 'AIRPORT' },
+      metadata: {},
+    });
+
+    const itineraryOf = (segments: Itinerary['segments']): Itinerary => ({
+      id: generateItineraryId(),
+      title: 'Connecting Trip',
+      status: 'PLANNED',
+      startDate: new Date('2025-03-01'),
+      endDate: new Date('2025-03-02'),
+      travelers: [],
+      segments,
+      metadata: {},
+    });
+
+    it('should NOT flag a transfer at a same-airport connection', () => {
+      const leg1 = leg('BA178', 'JFK', 'LHR', '2025-03-01T18:00:00Z', '2025-03-02T06:00:00Z');
+      const lounge: CustomSegment = {
+        id: generateSegmentId(),
+        type: SegmentType.CUSTOM,
+        status: SegmentStatus.CONFIRMED,
+        startDatetime: new Date('2025-03-02T06:30:00Z'),
+        endDatetime: new Date('2025-03-02T08:00:00Z'),
+        travelerIds: [],
+        source: 'import',
+        title: 'Lounge access',
+        location: { name: 'Galleries Lounge' },
+        customData: {},
+        metadata: {},
+      };
+      const leg2 = leg('BA342', 'LHR', 'NCE', '2025-03-02T08:30:00Z', '2025-03-02T10:30:00Z');
+
+      const result = reviewService.reviewItinerary(itineraryOf([leg1, lounge, leg2]));
+
+      expect(result.issues.filter((i) => i.type === 'MISSING_AIRPORT_TRANSFER')).toHaveLength(0);
+    });
+
+    it('should flag a connection shorter than the minimum connection time', () => {
+      const leg1 = leg('BA178', 'JFK', 'LHR', '2025-03-01T18:00:00Z', '2025-03-02T06:00:00Z');
+      const leg2 = leg('BA342', 'LHR', 'NCE', '2025-03-02T06:40:00Z', '2025-03-02T08:40:00Z');
+
+      const result = reviewService.reviewItinerary(itineraryOf([leg1, leg2]));
+
+      const issue = result.issues.find((i) => i.type === 'INSUFFICIENT_CONNECTION_TIME');
+      expect(issue).toBeDefined();
+      expect(issue?.severity).toBe('HIGH');
+      expect(issue?.segmentIndices).toEqual([0, 1]);
+    });
+
+    it('should suggest a transfer for a cross-airport connection', () => {
+      const leg1 = leg('BA178', 'JFK', 'LHR', '2025-03-01T18:00:00Z', '2025-03-02T06:00:00Z');
+      const leg2 = leg('BA2562', 'LGW', 'NCE', '2025-03-02T11:00:00Z', '2025-03-02T13:00:00Z');
+      const itinerary = itineraryOf([leg1, leg2]);
+
+      const result = reviewService.reviewItinerary(itinerary);
+
+      const issue = result.issues.find((i) => i.type === 'MISSING_AIRPORT_TRANSFER');
+      expect(issue).toBeDefined();
+      expect(issue?.description).toContain('LHR');
+      expect(issue?.description).toContain('LGW');
+
+      const fixed = reviewService.autoFixIssues(itinerary, result);
+      const transfer = fixed.segments[1] as TransferSegment;
+      expect(transfer.type).toBe(SegmentType.TRANSFER);
+      expect(transfer.pickupLocation.code).toBe('LHR');
+      expect(transfer.dropoffLocation.code).toBe('LGW');
+    });
+  });
 });
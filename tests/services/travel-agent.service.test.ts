@@ -7,9 +7,22 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { TravelAgentService } from '../../src/services/travel-agent.service.js';
 import type { LocationGap } from '../../src/services/segment-continuity.service.js';
 import { GapType } from '../../src/services/segment-continuity.service.js';
-import type { FlightSegment, HotelSegment, Segment } from '../../src/domain/types/segment.js';
+import type {
+  ActivitySegment,
+  FlightSegment,
+  HotelSegment,
+  MeetingSegment,
+  Segment,
+} from '../../src/domain/types/segment.js';
 import { CabinClass, SegmentType, SegmentStatus } from '../../src/domain/types/common.js';
-import { generateSegmentId } from '../../src/domain/types/branded.js';
+import {
+  generateItineraryId,
+  generateSegmentId,
+  generateTravelerId,
+} from '../../src/domain/types/branded.js';
+import type { Itinerary } from '../../src/domain/types/itinerary.js';
+import type { Traveler } from '../../src/domain/types/traveler.js';
+import { FixtureTravelSearchProvider } from '../../src/services/travel-search/index.js';
 
 // Mock fetch globally
 global.fetch = vi.fn();
@@ -274,6 +287,71 @@ describe('TravelAgentService', () => {
     });
   });
 
+  describe('buildFlightQuery', () => {
+    const legs = [{ origin: 'JFK', destination: 'LHR', date: '2026-03-10' }];
+
+    it('derives cabin, passengers, loyalty airlines and currency from the itinerary', () => {
+      const itinerary = createItinerary({
+        currency: 'GBP',
+        segments: [createFlightSegment({ cabinClass: CabinClass.BUSINESS })],
+        travelers: [
+          createTraveler('ADULT', [
+            { carrier: 'ba', number: '123', tier: 'Gold' },
+            { carrier: 'MAR', number: '456' },
+          ]),
+          createTraveler('SENIOR', [{ carrier: 'BA', number: '789' }]),
+          createTraveler('CHILD'),
+          createTraveler('INFANT'),
+        ],
+      });
+
+      const query = service.buildFlightQuery(itinerary, legs);
+
+      expect(query).toEqual({
+        legs,
+        cabinClass: CabinClass.BUSINESS,
+        passengers: { adults: 2, children: 1, infants: 1 },
+        preferredAirlines: ['BA'],
+        currency: 'GBP',
+      });
+    });
+
+    it('searches for one adult when the itinerary has no travelers', () => {
+      const query = service.buildFlightQuery(createItinerary({}), legs, {
+        cabinClass: CabinClass.FIRST,
+        maxStops: 0,
+      });
+
+      expect(query.passengers).toEqual({ adults: 1, children: 0, infants: 0 });
+      expect(query.cabinClass).toBe(CabinClass.FIRST);
+      expect(query.maxStops).toBe(0);
+      expect(query.preferredAirlines).toBeUndefined();
+    });
+  });
+
+  describe('searchFlightOffers', () => {
+    it('ranks offers for every leg of a round trip', async () => {
+      const fixtureService = new TravelAgentService({
+        searchProvider: new FixtureTravelSearchProvider(),
+      });
+
+      const result = await fixtureService.searchFlightOffers({
+        legs: [
+          { origin: 'JFK', destination: 'LHR', date: '2026-03-10' },
+          { origin: 'LHR', destination: 'JFK', date: '2026-03-17' },
+        ],
+        passengers: { adults: 2, children: 0, infants: 0 },
+      });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.value.tripType).toBe('round_trip');
+      expect(result.value.legs).toHaveLength(2);
+      expect(result.value.legs[1]?.offers[0]?.offer.origin.code).toBe('LHR');
+      expect(result.value.legs[0]?.offers.map((ranked) => ranked.rank)).toEqual([1, 2, 3]);
+    });
+  });
+
   describe('searchHotel', () => {
     it('should search for hotels and create hotel segment', async () => {
       const location = {
@@ -398,6 +476,113 @@ describe('TravelAgentService', () => {
       expect(result.found).toBe(false);
       expect(result.error).toContain('No suitable hotels found');
     });
+
+    it('recommends hotels for the itinerary and explains the pick', async () => {
+      const fixtureService = new TravelAgentService({
+        searchProvider: new FixtureTravelSearchProvider({
+          flights: [],
+          transfers: [],
+          hotels: [
+            {
+              location: 'London',
+              name: 'Central Hotel',
+              starRating: 4,
+              rating: 4.4,
+              pricePerNight: { amount: 150, currency: 'GBP' },
+              coordinates: { latitude: 51.5136, longitude: -0.1365 },
+            },
+            {
+              location: 'London',
+              name: 'Aloft London ExCeL',
+              starRating: 4,
+              rating: 4.1,
+              pricePerNight: { amount: 170, currency: 'GBP' },
+              coordinates: { latitude: 51.5085, longitude: 0.0245 },
+            },
+          ],
+        }),
+      });
+      const traveler = createTraveler('ADULT', [{ carrier: 'MAR', number: '1', tier: 'Gold' }]);
+      const itinerary = createItinerary({
+        travelers: [traveler],
+        segments: [
+          createMeetingSegment('Keynote', new Date('2026-03-11T09:00:00Z'), {
+            latitude: 51.5081,
+            longitude: 0.0295,
+          }),
+        ],
+      });
+      const preferences = service.inferPreferences([]);
+
+      const result = await fixtureService.searchHotel(
+        { name: 'London', address: { city: 'London', country: 'GB' } },
+        new Date('2026-03-10'),
+        new Date('2026-03-12'),
+        preferences,
+        itinerary
+      );
+
+      expect(result.found).toBe(true);
+      const hotelSegment = result.segment as HotelSegment;
+      expect(hotelSegment.property.name).toBe('Aloft London ExCeL');
+      expect(hotelSegment.travelerIds).toEqual([traveler.id]);
+      expect(hotelSegment.notes).toContain('Marriott Bonvoy Gold, 350 m from Keynote');
+      expect(result.alternatives?.[0]?.description).toContain('Central Hotel');
+    });
+  });
+
+  describe('buildHotelCriteria', () => {
+    it('derives tier, chains, loyalty, needs and planned places from the itinerary', () => {
+      const venue = { latitude: 51.5081, longitude: 0.0295 };
+      const itinerary = createItinerary({
+        preferences: { hotelChainPreference: ['Marriott'], accessibility: ['Step-free access'] },
+        tripPreferences: {
+          accommodationPreference: 'boutique',
+          mobilityRestrictions: 'Wheelchair',
+        },
+        travelers: [
+          createTraveler('ADULT', [
+            { carrier: 'BA', number: '1' },
+            { carrier: 'MAR', number: '2', tier: 'Gold' },
+          ]),
+        ],
+        segments: [
+          createHotelSegment({ propertyName: 'The Westin' }),
+          createMeetingSegment('Keynote', new Date('2026-03-11T09:00:00Z'), venue),
+          createActivitySegment('Harbour cruise', new Date('2026-03-12T18:00:00Z'), venue),
+          createActivitySegment('Museum visit', new Date('2026-03-15T10:00:00Z'), venue),
+        ],
+      });
+
+      const criteria = service.buildHotelCriteria(
+        itinerary,
+        new Date('2026-03-10'),
+        new Date('2026-03-12')
+      );
+
+      expect(criteria).toEqual({
+        starRating: 4,
+        preferredChains: ['Marriott'],
+        loyaltyPrograms: [{ carrier: 'MAR', number: '2', tier: 'Gold' }],
+        accessibility: ['Step-free access', 'Wheelchair'],
+        accommodationType: 'boutique',
+        places: [
+          { name: 'Keynote', coordinates: venue },
+          { name: 'Harbour cruise', coordinates: venue },
+        ],
+      });
+    });
+
+    it('leaves the tier open when the itinerary has no hotels', () => {
+      const criteria = service.buildHotelCriteria(
+        createItinerary({}),
+        new Date('2026-03-10'),
+        new Date('2026-03-12'),
+        { accommodationType: 'resort' }
+      );
+
+      expect(criteria).toEqual({ accommodationType: 'resort' });
+    });
   });
 
   describe('searchTransfer', () => {
@@ -504,6 +689,38 @@ describe('TravelAgentService', () => {
 
 // Helper functions to create test data
 
+function createTraveler(
+  type: Traveler['type'],
+  loyaltyPrograms: Traveler['loyaltyPrograms'] = []
+): Traveler {
+  return {
+    id: generateTravelerId(),
+    type,
+    firstName: 'Test',
+    lastName: 'Traveler',
+    loyaltyPrograms,
+    specialRequests: [],
+    metadata: {},
+  };
+}
+
+function createItinerary(overrides: Partial<Itinerary>): Itinerary {
+  return {
+    id: generateItineraryId(),
+    version: 1,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    title: 'Test Trip',
+    status: 'DRAFT',
+    destinations: [],
+    travelers: [],
+    segments: [],
+    tags: [],
+    metadata: {},
+    ...overrides,
+  };
+}
+
 function createFlightSegment(overrides: Partial<FlightSegment> = {}): FlightSegment {
   return {
     id: generateSegmentId(),
@@ -539,6 +756,43 @@ function createHotelSegment(overrides: { propertyName: string }): HotelSegment {
   };
 }
 
+function createMeetingSegment(
+  title: string,
+  start: Date,
+  coordinates: { latitude: number; longitude: number }
+): MeetingSegment {
+  return {
+    id: generateSegmentId(),
+    type: SegmentType.MEETING,
+    status: SegmentStatus.CONFIRMED,
+    startDatetime: start,
+    endDatetime: new Date(start.getTime() + 2 * 60 * 60 * 1000),
+    travelerIds: [],
+    metadata: {},
+    title,
+    location: { name: 'ExCeL London', coordinates },
+    attendees: [],
+  };
+}
+
+function createActivitySegment(
+  name: string,
+  start: Date,
+  coordinates: { latitude: number; longitude: number }
+): ActivitySegment {
+  return {
+    id: generateSegmentId(),
+    type: SegmentType.ACTIVITY,
+    status: SegmentStatus.CONFIRMED,
+    startDatetime: start,
+    endDatetime: new Date(start.getTime() + 2 * 60 * 60 * 1000),
+    travelerIds: [],
+    metadata: {},
+    name,
+    location: { name, coordinates },
+  };
+}
+
 function createGap(
   overrides: Partial<LocationGap> & {
     endLocation?: { name: string; code?: string; address?: { country?: string } };
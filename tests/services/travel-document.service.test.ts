@@ -0,0 +1,126 @@
+/**
+ * Tests for PDF travel documents
+ */
+
+import { createRequire } from 'node:module';
+import { describe, expect, it } from 'vitest';
+import type { Itinerary } from '../../src/domain/types/itinerary.js';
+import type { FlightSegment, HotelSegment } from '../../src/domain/types/segment.js';
+import type { Traveler } from '../../src/domain/types/traveler.js';
+import {
+  TravelDocumentService,
+  getTravelDocumentFilename,
+} from '../../src/services/travel-document.service.js';
+import { ViewerService } from '../../src/services/viewer.service.js';
+import {
+  createTestFlight,
+  createTestHotel,
+  createTestItinerary,
+  createTestTraveler,
+} from '../helpers/builders.js';
+
+const require = createRequire(import.meta.url);
+const pdfParse = require('pdf-parse') as (
+  data: Buffer
+) => Promise<{ numpages: number; text: string }>;
+
+function traveler(): Traveler {
+  return createTestTraveler({
+    firstName: 'Ana',
+    lastName: 'Doe',
+    email: 'ana@example.com',
+    phone: '+1 555 0100',
+    loyaltyPrograms: [{ carrier: 'AF', number: 'FB123456', tier: 'Gold' }],
+  });
+}
+
+function flight(): FlightSegment {
+  return createTestFlight({
+    startDatetime: new Date('2025-06-30T21:30:00Z'),
+    endDatetime: new Date('2025-07-01T09:40:00Z'),
+    confirmationNumber: 'ABC123',
+    flightNumber: '7',
+    origin: { name: 'John F. Kennedy International', code: 'JFK' },
+    destination: { name: 'Charles de Gaulle', code: 'CDG' },
+  });
+}
+
+function hotel(): HotelSegment {
+  return createTestHotel({
+    status: 'TENTATIVE',
+    startDatetime: new Date('2025-07-01T13:00:00Z'),
+    endDatetime: new Date('2025-07-03T09:00:00Z'),
+    source: 'user',
+    bookingReference: 'HTL-77',
+    property: { name: 'Hôtel du Louvre' },
+    location: { name: 'Hôtel du Louvre', timezone: 'Europe/Paris' },
+    checkInDate: new Date('2025-07-01'),
+    checkOutDate: new Date('2025-07-03'),
+  });
+}
+
+function itinerary(segments: Itinerary['segments'], travelers: Traveler[] = []): Itinerary {
+  return createTestItinerary({
+    version: 2,
+    createdAt: new Date('2025-05-01T00:00:00Z'),
+    updatedAt: new Date('2025-05-02T00:00:00Z'),
+    title: 'Paris → Summer ✈️',
+    status: 'CONFIRMED',
+    startDate: new Date('2025-06-30'),
+    endDate: new Date('2025-07-03'),
+    travelers,
+    segments,
+  });
+}
+
+describe('TravelDocumentService', () => {
+  const service = new TravelDocumentService();
+
+  it('renders the cover, schedule, confirmations and contact sheet', async () => {
+    const pdf = await service.generate(itinerary([flight(), hotel()], [traveler()]), {
+      brandName: 'Acme Travel',
+      now: new Date('2025-06-01T12:00:00Z'),
+    });
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    const { numpages, text } = await pdfParse(pdf);
+
+    expect(numpages).toBeGreaterThanOrEqual(4);
+    expect(text).toContain('Paris -> Summer');
+    expect(text).toContain('Acme Travel');
+    expect(text).toContain('Day-by-day schedule');
+    expect(text).toContain('Conf. ABC123');
+    expect(text).toContain('PNR HTL-77');
+    expect(text).toContain('ana@example.com');
+    expect(text).toContain('AF FB123456 (Gold)');
+    expect(text).toContain(`Page ${numpages} of ${numpages}`);
+  });
+
+  it('still renders the sections for an empty itinerary', async () => {
+    const { text } = await pdfParse(await service.generate(itinerary([])));
+
+    expect(text).toContain('No segments scheduled yet.');
+    expect(text).toContain('No confirmation numbers recorded.');
+    expect(text).toContain('No travelers on this itinerary.');
+  });
+
+  it('encodes lookup URLs in confirmation QR codes', () => {
+    const trip = itinerary([flight(), hotel()]);
+    const view = new ViewerService().transformToView(trip);
+
+    const rows = service.getConfirmationRows(
+      view,
+      'https://example.com/trips/{itineraryId}/bookings/{confirmation}'
+    );
+
+    expect(rows.map((row) => row.lookup)).toEqual([
+      `https://example.com/trips/${trip.id}/bookings/ABC123`,
+      `https://example.com/trips/${trip.id}/bookings/HTL-77`,
+    ]);
+    expect(service.getConfirmationRows(view)[0]?.lookup).toContain('Confirmation: ABC123');
+  });
+
+  it('builds a download filename from the title', () => {
+    expect(getTravelDocumentFilename('Summer in Lisbon!')).toBe('summer-in-lisbon.pdf');
+  });
+});
@@ -0,0 +1,589 @@
+/**
+ * Tests for travel search providers
+ */
+
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { FlightOffer, HotelOffer } from '../../src/domain/types/travel-search.js';
+import {
+  FixtureTravelSearchProvider,
+  SerpApiTravelSearchProvider,
+  createTravelSearchProvider,
+  flightTripType,
+  rankFlightOffers,
+  rankHotelOffers,
+  searchFlightOffers,
+} from '../../src/services/travel-search/index.js';
+import type { TravelSearchProvider } from '../../src/services/travel-search/index.js';
+
+const FIXTURES_FILE = join(__dirname, '../fixtures/travel-search/offers.json');
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    statusText: status === 200 ? 'OK' : 'Too Many Requests',
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function flightOffer(
+  id: string,
+  overrides: Partial<Omit<FlightOffer, 'price'>> & { price?: number; currency?: string } = {}
+): FlightOffer {
+  const { price = 300, currency = 'USD', ...rest } = overrides;
+  return {
+    id,
+    provider: 'fixture',
+    airline: { name: 'Sample Airways', code: 'ZZ' },
+    flightNumber: `ZZ${id}`,
+    origin: { code: 'JFK', name: 'JFK' },
+    destination: { code: 'LHR', name: 'Heathrow' },
+    departureTime: new Date('2026-03-10T09:00:00Z'),
+    arrivalTime: new Date('2026-03-10T16:00:00Z'),
+    durationMinutes: 420,
+    stops: 0,
+    layovers: [],
+    price: { amount: price * 100, currency },
+    ...rest,
+  };
+}
+
+function hotelOffer(
+  name: string,
+  overrides: Partial<Omit<HotelOffer, 'pricePerNight'>> & { price?: number } = {}
+): HotelOffer {
+  const { price = 200, ...rest } = overrides;
+  return {
+    id: name.toLowerCase().replace(/\W+/g, '-'),
+    provider: 'fixture',
+    name,
+    starRating: 4,
+    rating: 4.2,
+    pricePerNight: { amount: price * 100, currency: 'GBP' },
+    amenities: [],
+    ...rest,
+  };
+}
+
+describe('FixtureTravelSearchProvider', () => {
+  const provider = new FixtureTravelSearchProvider(FIXTURES_FILE);
+
+  it('prefers route-specific flights over wildcard fixtures', async () => {
+    const result = await provider.searchFlights({
+      origin: 'JFK',
+      destination: 'LHR',
+      departureDate: '2026-03-10',
+      adults: 2,
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.value).toHaveLength(1);
+    const [offer] = result.value;
+    expect(offer?.flightNumber).toBe('BA178');
+    expect(offer?.departureTime.toISOString()).toBe('2026-03-10T09:30:00.000Z');
+    expect(offer?.arrivalTime.toISOString()).toBe('2026-03-10T16:25:00.000Z');
+    expect(offer?.stops).toBe(0);
+    // Fare per passenger, in minor units
+    expect(offer?.price).toEqual({ amount: 122500, currency: 'USD' });
+  });
+
+  it('falls back to wildcard flights and resolves city names', async () => {
+    const result = await provider.searchFlights({
+      origin: 'sfo',
+      destination: 'Tokyo',
+      departureDate: '2026-03-10',
+      cabinClass: 'BUSINESS',
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.value.map((offer) => offer.flightNumber)).toEqual(['ZZ101']);
+    expect(result.value[0]?.origin.code).toBe('SFO');
+    expect(result.value[0]?.cabinClass).toBe('BUSINESS');
+  });
+
+  it('rejects flight searches without resolvable airports', async () => {
+    const result = await provider.searchFlights({
+      origin: 'Somewhere unknown',
+      destination: 'LHR',
+      departureDate: '2026-03-10',
+    });
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error.code).toBe('INVALID_SEARCH');
+  });
+
+  it('prices hotels per night and for the whole stay', async () => {
+    const result = await provider.searchHotels({
+      location: 'Central London',
+      checkInDate: '2026-03-10',
+      checkOutDate: '2026-03-13',
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.value).toHaveLength(1);
+    const [hotel] = result.value;
+    expect(hotel?.name).toBe('The Savoy');
+    expect(hotel?.pricePerNight).toEqual({ amount: 65000, currency: 'GBP' });
+    expect(hotel?.totalPrice).toEqual({ amount: 195000, currency: 'GBP' });
+  });
+
+  it('fills placeholders from the search terms', async () => {
+    const hotels = await provider.searchHotels({
+      location: 'Lisbon',
+      checkInDate: '2026-03-10',
+      checkOutDate: '2026-03-11',
+    });
+    const transfers = await provider.searchTransfers({
+      origin: 'LHR',
+      destination: 'The Savoy',
+    });
+
+    expect(hotels.success && hotels.value[0]?.name).toBe('City Inn Lisbon');
+    expect(hotels.success && hotels.value[0]?.amenities).toEqual([]);
+    expect(transfers.success && transfers.value[0]?.description).toBe('Taxi from LHR to The Savoy');
+  });
+
+  it('serves the bundled sample offers by default', async () => {
+    const result = await new FixtureTravelSearchProvider().searchTransfers({
+      origin: 'Airport',
+      destination: 'Hotel',
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.value.map((offer) => offer.transferType)).toEqual(['TAXI', 'PUBLIC', 'PRIVATE']);
+  });
+
+  describe('fixture files', () => {
+    let dir: string | undefined;
+
+    afterEach(async () => {
+      if (dir) {
+        await rm(dir, { recursive: true, force: true });
+        dir = undefined;
+      }
+    });
+
+    it('reports a missing fixture file', async () => {
+      const result = await new FixtureTravelSearchProvider('/nonexistent/offers.json').searchHotels(
+        { location: 'Paris', checkInDate: '2026-03-10', checkOutDate: '2026-03-11' }
+      );
+
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.error.code).toBe('NOT_CONFIGURED');
+    });
+
+    it('reports a malformed fixture file', async () => {
+      dir = await mkdtemp(join(tmpdir(), 'travel-search-'));
+      const file = join(dir, 'offers.json');
+      await writeFile(file, JSON.stringify({ flights: { origin: '*' } }));
+
+      const result = await new FixtureTravelSearchProvider(file).searchTransfers({
+        origin: 'A',
+        destination: 'B',
+      });
+
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.error.message).toContain('Malformed');
+    });
+  });
+});
+
+describe('SerpApiTravelSearchProvider', () => {
+  const provider = new SerpApiTravelSearchProvider({ apiKey: 'test-key', currency: 'EUR' });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('maps Google Flights options to offers', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      jsonResponse({
+        best_flights: [
+          {
+            flights: [
+              {
+                departure_airport: { id: 'JFK', name: 'John F. Kennedy', time: '2026-03-10 09:30' },
+                arrival_airport: { id: 'KEF', name: 'Keflavik', time: '2026-03-10 19:00' },
+                airline: 'Icelandair',
+                flight_number: 'FI 614',
+                duration: 330,
+                travel_class: 'Business',
+              },
+              {
+                departure_airport: { id: 'KEF', name: 'Keflavik', time: '2026-03-10 20:00' },
+                arrival_airport: { id: 'LHR', name: 'Heathrow', time: '2026-03-10 23:10' },
+                airline: 'Icelandair',
+                flight_number: 'FI 454',
+                duration: 190,
+              },
+            ],
+            layovers: [{ id: 'KEF', duration: 60 }],
+            total_duration: 580,
+            price: 1450,
+          },
+        ],
+      })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await provider.searchFlights({
+      origin: 'JFK',
+      destination: 'LHR',
+      departureDate: '2026-03-10',
+      cabinClass: 'BUSINESS',
+    });
+
+    const url = new URL(fetchMock.mock.calls[0]?.[0] as string);
+    expect(url.searchParams.get('engine')).toBe('google_flights');
+    expect(url.searchParams.get('type')).toBe('2');
+    expect(url.searchParams.get('travel_class')).toBe('3');
+    expect(url.searchParams.get('currency')).toBe('EUR');
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const [offer] = result.value;
+    expect(offer?.flightNumber).toBe('FI614');
+    expect(offer?.airline).toEqual({ name: 'Icelandair', code: 'FI' });
+    expect(offer?.stops).toBe(1);
+    expect(offer?.layovers).toEqual(['KEF']);
+    expect(offer?.durationMinutes).toBe(580);
+    expect(offer?.cabinClass).toBe('BUSINESS');
+    expect(offer?.price).toEqual({ amount: 145000, currency: 'EUR' });
+  });
+
+  it('passes passengers, stops and currency to Google Flights', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ best_flights: [] }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await provider.searchFlights({
+      origin: 'JFK',
+      destination: 'LHR',
+      departureDate: '2026-03-10',
+      adults: 2,
+      children: 1,
+      infants: 1,
+      maxStops: 0,
+      currency: 'GBP',
+    });
+
+    const url = new URL(fetchMock.mock.calls[0]?.[0] as string);
+    expect(url.searchParams.get('adults')).toBe('2');
+    expect(url.searchParams.get('children')).toBe('1');
+    expect(url.searchParams.get('infants_on_lap')).toBe('1');
+    expect(url.searchParams.get('stops')).toBe('1');
+    expect(url.searchParams.get('currency')).toBe('GBP');
+  });
+
+  it('maps Google Hotels properties to offers', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(
+        jsonResponse({
+          properties: [
+            {
+              name: 'Hotel Lisboa',
+              extracted_hotel_class: 4,
+              overall_rating: 4.5,
+              rate_per_night: { extracted_lowest: 180 },
+              check_in_time: '3:00 PM',
+              check_out_time: '11:00 AM',
+              amenities: ['Pool'],
+            },
+          ],
+        })
+      )
+    );
+
+    const result = await provider.searchHotels({
+      location: 'Lisbon',
+      checkInDate: '2026-03-10',
+      checkOutDate: '2026-03-12',
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.value[0]).toMatchObject({
+      name: 'Hotel Lisboa',
+      starRating: 4,
+      pricePerNight: { amount: 18000, currency: 'EUR' },
+      totalPrice: { amount: 36000, currency: 'EUR' },
+      checkInTime: '15:00',
+      checkOutTime: '11:00',
+    });
+  });
+
+  it('treats "no results" as an empty search', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi
+        .fn()
+        .mockResolvedValue(
+          jsonResponse({ error: "Google Hotels hasn't returned any results for this query." })
+        )
+    );
+
+    const result = await provider.searchHotels({
+      location: 'Nowhere',
+      checkInDate: '2026-03-10',
+      checkOutDate: '2026-03-11',
+    });
+
+    expect(result).toEqual({ success: true, value: [] });
+  });
+
+  it('reports HTTP failures as provider errors', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse({}, 429)));
+
+    const result = await provider.searchTransfers({ origin: 'LHR', destination: 'Soho' });
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error.code).toBe('PROVIDER_ERROR');
+    expect(result.error.message).toContain('429');
+  });
+});
+
+describe('createTravelSearchProvider', () => {
+  it('uses SerpAPI when a key is configured', () => {
+    const result = createTravelSearchProvider({ serpapiKey: 'key' });
+    expect(result.success && result.value.name).toBe('serpapi');
+  });
+
+  it('uses fixtures without a key', () => {
+    const result = createTravelSearchProvider();
+    expect(result.success && result.value.name).toBe('fixture');
+  });
+
+  it('honours an explicit provider', () => {
+    const result = createTravelSearchProvider({ provider: 'fixture', serpapiKey: 'key' });
+    expect(result.success && result.value.name).toBe('fixture');
+  });
+
+  it('requires a key for SerpAPI', () => {
+    const result = createTravelSearchProvider({ provider: 'serpapi' });
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error.code).toBe('NOT_CONFIGURED');
+  });
+});
+
+describe('rankFlightOffers', () => {
+  it('scores price, duration and stops against the best offer', () => {
+    const ranked = rankFlightOffers([
+      flightOffer('slow-cheap', { price: 200, durationMinutes: 600, stops: 1, layovers: ['KEF'] }),
+      flightOffer('fast', { price: 400, durationMinutes: 400 }),
+      flightOffer('balanced', { price: 250, durationMinutes: 420 }),
+    ]);
+
+    // 0.886 vs 0.8 vs 0.75: price carries half the weight
+    expect(ranked.map((entry) => entry.offer.id)).toEqual(['balanced', 'slow-cheap', 'fast']);
+    expect(ranked[0]).toMatchObject({
+      rank: 1,
+      score: 0.886,
+      labels: ['best', 'fewest_stops'],
+      scores: { price: 0.8, duration: 0.952, stops: 1, airline: 0 },
+    });
+    expect(ranked[1]?.labels).toEqual(['cheapest']);
+    expect(ranked[1]?.scores.stops).toBe(0.5);
+    expect(ranked[2]?.labels).toEqual(['fastest', 'fewest_stops']);
+  });
+
+  it('boosts preferred airlines and drops offers over the stop limit', () => {
+    const ranked = rankFlightOffers(
+      [
+        flightOffer('other', { price: 300 }),
+        flightOffer('loyal', { price: 320, airline: { name: 'British Airways', code: 'BA' } }),
+        flightOffer('connecting', { price: 150, stops: 1, layovers: ['DUB'] }),
+      ],
+      { preferredAirlines: ['ba'], maxStops: 0 }
+    );
+
+    expect(ranked.map((entry) => entry.offer.id)).toEqual(['loyal', 'other']);
+    expect(ranked[0]?.labels).toContain('preferred_airline');
+  });
+
+  it('only compares fares in the most common currency', () => {
+    const ranked = rankFlightOffers([
+      flightOffer('usd-1', { price: 300 }),
+      flightOffer('usd-2', { price: 310 }),
+      flightOffer('eur', { price: 100, currency: 'EUR' }),
+    ]);
+
+    expect(ranked.find((entry) => entry.offer.id === 'eur')?.scores.price).toBe(0);
+    expect(ranked[0]?.offer.id).toBe('usd-1');
+  });
+});
+
+describe('searchFlightOffers', () => {
+  const fixtures = new FixtureTravelSearchProvider(FIXTURES_FILE);
+
+  it('searches each leg of a multi-city trip', async () => {
+    const result = await searchFlightOffers(fixtures, {
+      legs: [
+        { origin: 'JFK', destination: 'LHR', date: '2026-03-10' },
+        { origin: 'LHR', destination: 'CDG', date: '2026-03-14' },
+      ],
+      passengers: { adults: 1, children: 1, infants: 1 },
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.value.tripType).toBe('multi_city');
+    const [outbound, onward] = result.value.legs;
+    expect(outbound?.offers[0]?.offer.flightNumber).toBe('BA178');
+    // Lap infants fly free
+    expect(outbound?.offers[0]?.offer.price).toEqual({ amount: 122500, currency: 'USD' });
+    expect(onward?.offers[0]?.offer.flightNumber).toBe('ZZ101');
+  });
+
+  it('searches a date window and keeps offer IDs unique', async () => {
+    const result = await searchFlightOffers(fixtures, {
+      legs: [{ origin: 'SFO', destination: 'SEA', date: '2026-03-10' }],
+      dateWindowDays: 1,
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const [leg] = result.value.legs;
+    expect(leg?.searchedDates).toEqual(['2026-03-10', '2026-03-09', '2026-03-11']);
+    const ids = leg?.offers.map((ranked) => ranked.offer.id) ?? [];
+    expect(ids).toHaveLength(3);
+    expect(new Set(ids).size).toBe(3);
+  });
+
+  it('keeps dates that succeed when others fail', async () => {
+    let calls = 0;
+    const flaky: TravelSearchProvider = {
+      name: 'fixture',
+      searchHotels: fixtures.searchHotels.bind(fixtures),
+      searchTransfers: fixtures.searchTransfers.bind(fixtures),
+      searchFlights: async (request) => {
+        calls++;
+        return calls === 1
+          ? { success: false, error: { code: 'PROVIDER_ERROR', message: 'rate limited' } }
+          : fixtures.searchFlights(request);
+      },
+    };
+
+    const result = await searchFlightOffers(flaky, {
+      legs: [{ origin: 'JFK', destination: 'LHR', date: '2026-03-10' }],
+      dateWindowDays: 1,
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.value.legs[0]?.offers).toHaveLength(2);
+  });
+
+  it('rejects legs out of order', async () => {
+    const result = await searchFlightOffers(fixtures, {
+      legs: [
+        { origin: 'JFK', destination: 'LHR', date: '2026-03-10' },
+        { origin: 'LHR', destination: 'JFK', date: '2026-03-01' },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error.code).toBe('INVALID_SEARCH');
+  });
+
+  it('recognizes round trips by city or code', () => {
+    expect(
+      flightTripType([
+        { origin: 'JFK', destination: 'LHR', date: '2026-03-10' },
+        { origin: 'lhr', destination: 'jfk', date: '2026-03-17' },
+      ])
+    ).toBe('round_trip');
+    expect(flightTripType([{ origin: 'JFK', destination: 'LHR', date: '2026-03-10' }])).toBe(
+      'one_way'
+    );
+  });
+});
+
+describe('rankHotelOffers', () => {
+  const venue = { name: 'Keynote', coordinates: { latitude: 51.5081, longitude: 0.0295 } };
+
+  it('explains loyalty status and distance to the planned places', () => {
+    const ranked = rankHotelOffers(
+      [
+        hotelOffer('Hilton London Tower Bridge', {
+          price: 160,
+          rating: 4.6,
+          coordinates: { latitude: 51.504, longitude: -0.079 },
+        }),
+        hotelOffer('Aloft London ExCeL', {
+          price: 180,
+          coordinates: { latitude: 51.5085, longitude: 0.0245 },
+        }),
+        hotelOffer('Budget Inn', { price: 60, starRating: 2 }),
+      ],
+      {
+        starRating: 4,
+        loyaltyPrograms: [{ carrier: 'MAR', number: '123', tier: 'Gold' }],
+        places: [venue],
+      }
+    );
+
+    expect(ranked.map((entry) => entry.offer.name)).toEqual([
+      'Aloft London ExCeL',
+      'Hilton London Tower Bridge',
+    ]);
+    expect(ranked[0]).toMatchObject({
+      rank: 1,
+      chain: 'Marriott',
+      reasons: ['Marriott Bonvoy Gold', '350 m from Keynote'],
+      nearestPlace: { name: 'Keynote' },
+    });
+    expect(ranked[1]?.reasons).toEqual([
+      '7.5 km from Keynote',
+      'Lowest nightly rate',
+      'Guest rating 4.6',
+    ]);
+  });
+
+  it('keeps accessible hotels when accessibility is needed', () => {
+    const offers = [
+      hotelOffer('Riverside Hotel', { amenities: ['Wheelchair accessible rooms'] }),
+      hotelOffer('Townhouse Hotel', { price: 120 }),
+    ];
+
+    const ranked = rankHotelOffers(offers, { accessibility: ['Wheelchair user'] });
+    expect(ranked.map((entry) => entry.offer.name)).toEqual(['Riverside Hotel']);
+    expect(ranked[0]?.reasons).toEqual(['Wheelchair accessible rooms']);
+
+    // Nothing to filter on: keep everything and say so
+    const unlisted = rankHotelOffers(offers.slice(1), { accessibility: ['Wheelchair user'] });
+    expect(unlisted[0]?.reasons).toContain('Accessibility not listed, check with the hotel');
+  });
+
+  it('matches preferred chains by brand and the accommodation type', () => {
+    const ranked = rankHotelOffers(
+      [
+        hotelOffer('Andaz London Liverpool Street'),
+        hotelOffer('The Hoxton', { description: 'Boutique hotel in Shoreditch' }),
+        hotelOffer('Station Hotel'),
+      ],
+      { preferredChains: ['Hyatt'], accommodationType: 'Boutique' }
+    );
+
+    expect(ranked.map((entry) => entry.offer.name)).toEqual([
+      'Andaz London Liverpool Street',
+      'The Hoxton',
+      'Station Hotel',
+    ]);
+    expect(ranked[0]?.reasons).toEqual(['Preferred chain (Hyatt)']);
+    expect(ranked[0]?.chain).toBe('Hyatt');
+    expect(ranked[1]?.reasons).toEqual(['Matches boutique preference']);
+    expect(ranked[2]?.scores).toMatchObject({ chain: 0, accommodation: 0 });
+  });
+});
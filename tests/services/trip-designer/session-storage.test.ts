@@ -0,0 +1,186 @@
+/**
+ * Tests for durable trip designer session storage
+ */
+
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateItineraryId } from '../../../src/domain/types/branded.js';
+import type { ItineraryId } from '../../../src/domain/types/branded.js';
+import type { SessionId, TripDesignerSession } from '../../../src/domain/types/trip-designer.js';
+import { generateSessionId } from '../../../src/domain/types/trip-designer.js';
+import { BlobSessionStorage } from '../../../src/services/trip-designer/blob-session-storage.js';
+import { JsonSessionStorage } from '../../../src/services/trip-designer/json-session-storage.js';
+import { createSessionStorage } from '../../../src/services/trip-designer/session-storage.js';
+import { SessionManager, deserializeSession } from '../../../src/services/trip-designer/session.js';
+
+function createSession(itineraryId: ItineraryId, content: string, lastActiveAt: Date) {
+  const session: TripDesignerSession = {
+    id: generateSessionId(),
+    itineraryId,
+    messages: [
+      { role: 'user', content, timestamp: new Date('2025-03-01T10:00:00Z') },
+      {
+        role: 'assistant',
+        content: 'Sounds great!',
+        timestamp: new Date('2025-03-01T10:00:05Z'),
+        tokens: { input: 120, output: 30 },
+      },
+    ],
+    tripProfile: {
+      travelers: { count: 2 },
+      extractedAt: new Date('2025-03-01T10:00:00Z'),
+      confidence: 0.4,
+    },
+    createdAt: new Date('2025-03-01T09:59:00Z'),
+    lastActiveAt,
+    metadata: {
+      messageCount: 2,
+      totalTokens: 150,
+      lastCompactedAt: new Date('2025-03-01T10:05:00Z'),
+      costUSD: 0.0123,
+    },
+  };
+  return session;
+}
+
+describe('JsonSessionStorage', () => {
+  let dir: string;
+  let storage: JsonSessionStorage;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'itinerizer-sessions-'));
+    storage = new JsonSessionStorage(dir);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips sessions with dates and metadata across instances', async () => {
+    const session = createSession(generateItineraryId(), 'Plan a week in Kyoto', new Date());
+    expect((await storage.save(session)).success).toBe(true);
+
+    const reloaded = await new JsonSessionStorage(dir).load(session.id);
+
+    expect(reloaded.success).toBe(true);
+    if (!reloaded.success) return;
+    expect(reloaded.value).toEqual(session);
+    expect(reloaded.value.metadata.lastCompactedAt).toBeInstanceOf(Date);
+    expect(reloaded.value.messages[0]?.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('lists sessions by itinerary, most recently active first', async () => {
+    const kyoto = generateItineraryId();
+    const older = createSession(kyoto, 'Temples please', new Date('2025-03-01T12:00:00Z'));
+    const newer = createSession(kyoto, 'Add a tea ceremony', new Date('2025-03-02T12:00:00Z'));
+    const other = createSession(generateItineraryId(), 'Lisbon trip', new Date());
+    for (const session of [older, newer, other]) {
+      await storage.save(session);
+    }
+
+    const result = await storage.list(kyoto);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.value.map((summary) => summary.id)).toEqual([newer.id, older.id]);
+    expect(result.value[0]?.preview).toBe('Add a tea ceremony');
+
+    const all = await storage.list();
+    expect(all.success && all.value).toHaveLength(3);
+  });
+
+  it('deletes sessions individually and by itinerary', async () => {
+    const kyoto = generateItineraryId();
+    const first = createSession(kyoto, 'One', new Date());
+    const second = createSession(kyoto, 'Two', new Date());
+    const other = createSession(generateItineraryId(), 'Three', new Date());
+    for (const session of [first, second, other]) {
+      await storage.save(session);
+    }
+
+    expect((await storage.delete(first.id)).success).toBe(true);
+    const missing = await storage.delete(first.id);
+    expect(!missing.success && missing.error.code).toBe('NOT_FOUND');
+
+    const deleted = await storage.deleteByItineraryId(kyoto);
+    expect(deleted.success && deleted.value).toBe(1);
+    expect((await storage.load(second.id)).success).toBe(false);
+    expect((await storage.load(other.id)).success).toBe(true);
+  });
+
+  it('rejects session IDs that are not plain file names', async () => {
+    const result = await storage.load('../itineraries/secret' as SessionId);
+
+    expect(!result.success && result.error.code).toBe('NOT_FOUND');
+  });
+
+  it('migrates metadata stored in older formats', async () => {
+    const session = createSession(generateItineraryId(), 'Legacy chat', new Date());
+    const legacy = JSON.parse(JSON.stringify(session));
+    legacy.metadata = {
+      lastCompactedAt: new Date('2025-03-01T10:05:00Z').getTime(),
+      costUSD: '0.5',
+    };
+    await writeFile(join(dir, `${session.id}.json`), JSON.stringify(legacy), 'utf-8');
+
+    const result = await storage.load(session.id);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.value.metadata).toEqual({
+      messageCount: 2,
+      totalTokens: 150,
+      lastCompactedAt: new Date('2025-03-01T10:05:00Z'),
+      costUSD: 0.5,
+    });
+  });
+
+  it('keeps chat history when the session manager is recreated', async () => {
+    const itineraryId = generateItineraryId();
+    const created = await new SessionManager(storage).createSession(itineraryId);
+    expect(created.success).toBe(true);
+    if (!created.success) return;
+    await new SessionManager(storage).addMessage(created.value.id, {
+      role: 'user',
+      content: 'Hello again',
+    });
+
+    const restarted = await new SessionManager(new JsonSessionStorage(dir)).getSession(
+      created.value.id
+    );
+
+    expect(restarted.success && restarted.value.messages.map((m) => m.content)).toEqual([
+      'Hello again',
+    ]);
+    const file = await readFile(join(dir, `${created.value.id}.json`), 'utf-8');
+    expect(JSON.parse(file).itineraryId).toBe(itineraryId);
+  });
+});
+
+describe('deserializeSession', () => {
+  it('rejects data that is not a session', () => {
+    const result = deserializeSession('{"title":"Not a session"}');
+
+    expect(!result.success && result.error.code).toBe('VALIDATION_ERROR');
+  });
+});
+
+describe('createSessionStorage', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('creates JsonSessionStorage when BLOB_READ_WRITE_TOKEN is not set', () => {
+    vi.stubEnv('BLOB_READ_WRITE_TOKEN', undefined);
+
+    expect(createSessionStorage('./data/test-sessions')).toBeInstanceOf(JsonSessionStorage);
+  });
+
+  it('creates BlobSessionStorage when BLOB_READ_WRITE_TOKEN is set', () => {
+    vi.stubEnv('BLOB_READ_WRITE_TOKEN', 'test-token');
+
+    expect(createSessionStorage()).toBeInstanceOf(BlobSessionStorage);
+  });
+});
@@ -8,6 +8,13 @@ import { TripDesignerService, InMemorySessionStorage } from '../../../src/servic
 import type { ItineraryId } from '../../../src/domain/types/branded.js';
 import type { Itinerary } from '../../../src/domain/types/itinerary.js';
 import { ok } from '../../../src/core/result.js';
+import { generateSegmentId } from '../../../src/domain/types/branded.js';
+import type { FlightSegment } from '../../../src/domain/types/segment.js';
+import { InMemoryItineraryStorage } from '../../../src/storage/in-memory-storage.js';
+import { ItineraryCollectionService } from '../../../src/services/itinerary-collection.service.js';
+import { ItineraryHistoryService } from '../../../src/services/itinerary-history.service.js';
+import { ItineraryService } from '../../../src/services/itinerary.service.js';
+import { SegmentService } from '../../../src/services/segment.service.js';
 
 describe('TripDesignerService', () => {
   let service: TripDesignerService;
@@ -260,4 +267,163 @@ describe('TripDesignerService', () => {
       expect(session.messages.length).toBe(0);
     });
   });
+
+  describe('undoMessage', () => {
+    let storage: InMemoryItineraryStorage;
+    let segmentService: SegmentService;
+    let historyService: ItineraryHistoryService;
+    let designer: TripDesignerService;
+    let itineraryId: ItineraryId;
+    let flight: FlightSegment;
+
+    /**
+     * Replace the OpenRouter client with one that calls delete_segment once,
+     * then answers in plain text
+     */
+    function mockDeleteSegmentTurn(segmentId: string) {
+      const create = vi
+        .fn()
+        .mockResolvedValueOnce({
+          choices: [
+            {
+              message: {
+                role: 'assistant',
+                content: '',
+                tool_calls: [
+                  {
+                    id: 'call_1',
+                    type: 'function',
+                    function: { name: 'delete_segment', arguments: JSON.stringify({ segmentId }) },
+                  },
+                ],
+              },
+            },
+          ],
+          usage: { prompt_tokens: 10, completion_tokens: 5 },
+        })
+        .mockResolvedValueOnce({
+          choices: [{ message: { role: 'assistant', content: 'I removed the flight.' } }],
+          usage: { prompt_tokens: 10, completion_tokens: 5 },
+        });
+      (designer as unknown as { client: unknown }).client = { chat: { completions: { create } } };
+    }
+
+    beforeEach(async () => {
+      storage = new InMemoryItineraryStorage();
+      segmentService = new SegmentService(storage);
+      historyService = new ItineraryHistoryService(storage);
+
+      const created = await new ItineraryCollectionService(storage).createItinerary({
+        title: 'Paris',
+        startDate: new Date('2025-06-01'),
+        endDate: new Date('2025-06-09'),
+      });
+      if (!created.success) throw new Error(created.error.message);
+      itineraryId = created.value.id;
+
+      flight = {
+        id: generateSegmentId(),
+        type: 'FLIGHT',
+        status: 'CONFIRMED',
+        startDatetime: new Date('2025-06-02T09:00:00Z'),
+        endDatetime: new Date('2025-06-02T11:00:00Z'),
+        travelerIds: [],
+        source: 'import',
+        metadata: {},
+        airline: { name: 'Air France', code: 'AF' },
+        flightNumber: 'AF1',
+        origin: { name: 'Heathrow', code: 'LHR', type: 'AIRPORT' },
+        destination: { name: 'Charles de Gaulle', code: 'CDG', type: 'AIRPORT' },
+      };
+      await segmentService.add(itineraryId, flight);
+
+      designer = new TripDesignerService({ apiKey: 'test-api-key' }, new InMemorySessionStorage(), {
+        itineraryService: new ItineraryService(storage),
+        segmentService,
+        historyService,
+      });
+    });
+
+    async function chatDeletingFlight() {
+      const sessionResult = await designer.createSession(itineraryId);
+      if (!sessionResult.success) throw new Error('Failed to create session');
+      mockDeleteSegmentTurn(flight.id);
+      const chatResult = await designer.chat(sessionResult.value, 'Remove my flight');
+      if (!chatResult.success) throw new Error(JSON.stringify(chatResult.error));
+      return { sessionId: sessionResult.value, response: chatResult.value };
+    }
+
+    it('attaches a changeset to turns that modify the itinerary', async () => {
+      const { sessionId, response } = await chatDeletingFlight();
+
+      expect(response.changeset).toMatchObject({
+        itineraryId,
+        baseRevision: 2,
+        headRevision: 3,
+        tools: ['delete_segment'],
+      });
+
+      const session = await designer.getSession(sessionId);
+      if (!session.success || response.messageIndex === undefined) throw new Error('No session');
+      expect(session.value.messages[response.messageIndex]?.changeset).toEqual(response.changeset);
+    });
+
+    it('starts the history of an itinerary that has none so its first turn can be undone', async () => {
+      const loaded = await storage.load(itineraryId);
+      if (!loaded.success) throw new Error(loaded.error.message);
+      await storage.importItinerary(loaded.value, []);
+
+      const { sessionId, response } = await chatDeletingFlight();
+
+      expect(response.changeset).toMatchObject({ baseRevision: 1, headRevision: 2 });
+      if (response.messageIndex === undefined) throw new Error('No message index');
+      const result = await designer.undoMessage(sessionId, response.messageIndex);
+      expect(result.success && result.value.itinerary.segments.map((s) => s.id)).toEqual([
+        flight.id,
+      ]);
+    });
+
+    it('restores the itinerary to its state before the turn', async () => {
+      const { sessionId, response } = await chatDeletingFlight();
+      if (response.messageIndex === undefined) throw new Error('No message index');
+
+      const result = await designer.undoMessage(sessionId, response.messageIndex, 3);
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.value.itinerary.segments.map((s) => s.id)).toEqual([flight.id]);
+      expect(result.value.changeset.undoneAt).toBeInstanceOf(Date);
+      expect(result.value.changeset.undoRevision).toBe(4);
+
+      const revisions = await historyService.listRevisions(itineraryId);
+      expect(revisions.success && revisions.value.at(-1)).toMatchObject({
+        author: 'user',
+        actor: sessionId,
+      });
+
+      const again = await designer.undoMessage(sessionId, response.messageIndex);
+      expect(!again.success && again.error.type).toBe('undo_conflict');
+    });
+
+    it('refuses to undo when the itinerary changed afterwards', async () => {
+      const { sessionId, response } = await chatDeletingFlight();
+      if (response.messageIndex === undefined) throw new Error('No message index');
+      await segmentService.add(itineraryId, { ...flight, id: generateSegmentId() });
+
+      const result = await designer.undoMessage(sessionId, response.messageIndex);
+
+      expect(!result.success && result.error.type).toBe('undo_conflict');
+    });
+
+    it('rejects messages without changes and stale head revisions', async () => {
+      const { sessionId, response } = await chatDeletingFlight();
+      if (response.messageIndex === undefined) throw new Error('No message index');
+
+      const userMessage = await designer.undoMessage(sessionId, 0);
+      expect(!userMessage.success && userMessage.error.type).toBe('undo_unavailable');
+
+      const stale = await designer.undoMessage(sessionId, response.messageIndex, 7);
+      expect(!stale.success && stale.error.type).toBe('message_not_found');
+    });
+  });
 });
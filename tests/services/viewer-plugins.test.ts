@@ -0,0 +1,249 @@
+/**
+ * Tests for the calendar, timeline, map and print viewer plugins
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { Itinerary } from '../../src/domain/types/itinerary.js';
+import type {
+  ActivitySegment,
+  FlightSegment,
+  HotelSegment,
+} from '../../src/domain/types/segment.js';
+import type { Traveler } from '../../src/domain/types/traveler.js';
+import { ViewerService } from '../../src/services/viewer.service.js';
+import { CalendarViewer } from '../../src/services/viewers/calendar.viewer.js';
+import { MapViewer } from '../../src/services/viewers/map.viewer.js';
+import { PrintViewer } from '../../src/services/viewers/print.viewer.js';
+import { TimelineViewer } from '../../src/services/viewers/timeline.viewer.js';
+import {
+  createTestActivity,
+  createTestFlight,
+  createTestHotel,
+  createTestItinerary,
+  createTestTraveler,
+} from '../helpers/builders.js';
+
+function traveler(firstName: string): Traveler {
+  return createTestTraveler({ firstName });
+}
+
+function flight(): FlightSegment {
+  return createTestFlight({
+    startDatetime: new Date('2025-06-30T21:30:00Z'),
+    endDatetime: new Date('2025-07-01T09:40:00Z'),
+    confirmationNumber: 'ABC123',
+    flightNumber: '7',
+    origin: { name: 'John F. Kennedy International', code: 'JFK' },
+    destination: { name: 'Charles de Gaulle', code: 'CDG' },
+  });
+}
+
+function hotel(): HotelSegment {
+  return createTestHotel({
+    startDatetime: new Date('2025-07-01T13:00:00Z'),
+    endDatetime: new Date('2025-07-03T09:00:00Z'),
+    source: 'user',
+    confirmationNumber: 'HTL-77',
+    property: { name: 'Hôtel du Louvre' },
+    location: {
+      name: 'Hôtel du Louvre',
+      coordinates: { latitude: 48.8625, longitude: 2.3358 },
+      timezone: 'Europe/Paris',
+    },
+    checkInDate: new Date('2025-07-01'),
+    checkOutDate: new Date('2025-07-03'),
+  });
+}
+
+function activity(name: string, travelerIds: Traveler['id'][]): ActivitySegment {
+  return createTestActivity({
+    startDatetime: new Date('2025-07-02T08:00:00Z'),
+    endDatetime: new Date('2025-07-02T10:00:00Z'),
+    travelerIds,
+    name,
+    location: { name: 'Atlantis', timezone: 'Europe/Paris' },
+  });
+}
+
+function itinerary(segments: Itinerary['segments'], travelers: Traveler[] = []): Itinerary {
+  return createTestItinerary({
+    version: 3,
+    createdAt: new Date('2025-05-01T00:00:00Z'),
+    updatedAt: new Date('2025-05-02T00:00:00Z'),
+    title: 'Paris <summer>',
+    status: 'CONFIRMED',
+    startDate: new Date('2025-06-30'),
+    endDate: new Date('2025-07-03'),
+    travelers,
+    segments,
+  });
+}
+
+function createViewerService(): ViewerService {
+  const service = new ViewerService();
+  service.registerPlugin(new CalendarViewer());
+  service.registerPlugin(new TimelineViewer());
+  service.registerPlugin(new MapViewer());
+  service.registerPlugin(new PrintViewer());
+  return service;
+}
+
+describe('CalendarViewer', () => {
+  const service = createViewerService();
+
+  it('places segments on the local dates they cover', () => {
+    const stay = hotel();
+    const view = service.transformToView(itinerary([flight(), stay]));
+    const grid = new CalendarViewer().buildGrid(view, 'month');
+
+    expect(grid.periods.map((period) => period.label)).toEqual(['June 2025', 'July 2025']);
+    const days = grid.periods.flatMap((period) => period.weeks.flat()).filter((d) => d.inPeriod);
+    const day = (date: string) => days.find((d) => d.date === date);
+
+    // 5:30 PM in New York on June 30, even though it is already July 1 in UTC
+    expect(day('2025-06-30')?.entries.map((e) => e.time)).toEqual(['5:30 PM']);
+    expect(day('2025-07-02')?.entries).toEqual([
+      expect.objectContaining({ segmentId: stay.id, continued: true }),
+    ]);
+    expect(day('2025-07-03')?.inTrip).toBe(true);
+    expect(day('2025-07-04')?.inTrip).toBe(false);
+  });
+
+  it('builds Monday-first week periods', () => {
+    const view = service.transformToView(itinerary([flight(), hotel()]));
+    const grid = new CalendarViewer().buildGrid(view, 'week');
+
+    expect(grid.periods).toHaveLength(1);
+    expect(grid.periods[0]?.label).toBe('Week of Jun 30, 2025');
+    expect(grid.periods[0]?.weeks[0]?.map((d) => d.date)).toEqual([
+      '2025-06-30',
+      '2025-07-01',
+      '2025-07-02',
+      '2025-07-03',
+      '2025-07-04',
+      '2025-07-05',
+      '2025-07-06',
+    ]);
+  });
+
+  it('renders html, json and markdown', async () => {
+    const trip = itinerary([flight(), hotel()]);
+
+    const html = await service.render(trip, { type: 'calendar', format: 'html' });
+    expect(html.content).toContain('<table class="calendar-grid">');
+    expect(html.content).toContain('Paris &lt;summer&gt;');
+
+    const json = await service.render(trip, { type: 'calendar', format: 'json' });
+    expect(JSON.parse(json.content).mode).toBe('month');
+
+    const markdown = await service.render(trip, { type: 'calendar', format: 'markdown' });
+    expect(markdown.content).toContain('| Mon | Tue | Wed | Thu | Fri | Sat | Sun |');
+  });
+});
+
+describe('TimelineViewer', () => {
+  const service = createViewerService();
+
+  it('gives each traveler a lane with their own and shared segments', () => {
+    const ana = traveler('Ana');
+    const bo = traveler('Bo');
+    const tour = activity('Louvre tour', [ana.id]);
+    const view = service.transformToView(itinerary([flight(), hotel(), tour], [ana, bo]));
+
+    const timeline = new TimelineViewer().buildTimeline(view);
+
+    expect(timeline.lanes.map((lane) => lane.label)).toEqual(['Ana Doe', 'Bo Doe']);
+    expect(timeline.lanes[0]?.bars).toHaveLength(3);
+    expect(timeline.lanes[1]?.bars.map((bar) => bar.segmentId)).not.toContain(tour.id);
+    expect(timeline.start).toBe('2025-06-30T00:00:00.000Z');
+    expect(timeline.end).toBe('2025-07-04T00:00:00.000Z');
+  });
+
+  it('stacks overlapping segments into separate rows', () => {
+    const view = service.transformToView(itinerary([hotel(), activity('Louvre tour', [])]));
+
+    const [lane] = new TimelineViewer().buildTimeline(view).lanes;
+
+    expect(lane?.label).toBe('All travelers');
+    expect(lane?.rowCount).toBe(2);
+    expect(lane?.bars.map((bar) => bar.row)).toEqual([0, 1]);
+    expect(lane?.bars[0]?.offsetPercent).toBeGreaterThan(0);
+  });
+
+  it('renders a Mermaid Gantt chart as markdown', async () => {
+    const output = await service.render(itinerary([flight()]), {
+      type: 'timeline',
+      format: 'markdown',
+    });
+
+    expect(output.content).toContain('```mermaid\ngantt\n');
+    expect(output.content).toContain('2025-06-30 21:30, 2025-07-01 09:40');
+  });
+});
+
+describe('MapViewer', () => {
+  const service = createViewerService();
+
+  it('plots places from coordinates and airport codes', () => {
+    const view = service.transformToView(
+      itinerary([flight(), hotel(), activity('Lost city tour', [])])
+    );
+
+    const map = new MapViewer().buildMap(view);
+
+    expect(map.points.map((point) => point.name)).toEqual([
+      'John F. Kennedy International (JFK)',
+      'Charles de Gaulle (CDG)',
+      'Hôtel du Louvre',
+    ]);
+    expect(map.routes).toHaveLength(1);
+    expect(map.routes[0]?.distanceKm).toBeGreaterThan(5800);
+    expect(map.routes[0]?.distanceKm).toBeLessThan(5900);
+    expect(map.unplaced).toEqual([
+      expect.objectContaining({ title: 'Lost city tour', location: 'Atlantis' }),
+    ]);
+
+    for (const point of map.points) {
+      expect(point.x).toBeGreaterThanOrEqual(0);
+      expect(point.x).toBeLessThanOrEqual(map.width);
+      expect(point.y).toBeGreaterThanOrEqual(0);
+      expect(point.y).toBeLessThanOrEqual(map.height);
+    }
+    // West is left, north is up
+    const [jfk, cdg] = map.points;
+    expect(jfk && cdg && jfk.x < cdg.x).toBe(true);
+  });
+
+  it('renders an SVG map without external resources', async () => {
+    const output = await service.render(itinerary([flight(), hotel()]), {
+      type: 'map',
+      format: 'html',
+    });
+
+    expect(output.content).toContain('<svg class="trip-map"');
+    expect(output.content).toContain('class="route route-flight"');
+    expect(output.content).not.toMatch(/https?:\/\/(?!www\.w3\.org)/);
+  });
+});
+
+describe('PrintViewer', () => {
+  const service = createViewerService();
+
+  it('renders a cover page and one page per day', async () => {
+    const trip = itinerary([flight(), hotel(), activity('Louvre tour', [])]);
+    const view = service.transformToView(trip);
+
+    const output = await service.render(trip, { type: 'print', format: 'html', theme: 'dark' });
+
+    expect(output.content.match(/<section class="page day">/g)).toHaveLength(view.days.length);
+    expect(output.content).toContain('<section class="page cover">');
+    expect(output.content).toContain('Confirmation: ABC123');
+    expect(output.content).toContain('data-theme="light"');
+  });
+
+  it('does not offer json output', async () => {
+    await expect(
+      service.render(itinerary([flight()]), { type: 'print', format: 'json' })
+    ).rejects.toThrow('does not support format: json');
+  });
+});
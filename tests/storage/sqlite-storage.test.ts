@@ -0,0 +1,240 @@
+/**
+ * Tests for SQLite storage implementation
+ */
+
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { isVersionConflictError } from '../../src/core/errors.js';
+import {
+  generateItineraryId,
+  generateSegmentId,
+  generateTravelerId,
+} from '../../src/domain/types/branded.js';
+import type { Itinerary } from '../../src/domain/types/itinerary.js';
+import type { HotelSegment } from '../../src/domain/types/segment.js';
+import { SqliteItineraryStorage } from '../../src/storage/sqlite-storage.js';
+
+describe('SqliteItineraryStorage', () => {
+  let dir: string;
+  let storage: SqliteItineraryStorage;
+
+  const hotel = (): HotelSegment => ({
+    id: generateSegmentId(),
+    type: 'HOTEL',
+    status: 'CONFIRMED',
+    startDatetime: new Date('2025-06-01T15:00:00Z'),
+    endDatetime: new Date('2025-06-05T11:00:00Z'),
+    travelerIds: [],
+    source: 'user',
+    metadata: {},
+    property: { name: 'Hotel Lisboa' },
+    location: { name: 'Hotel Lisboa', address: { city: 'Lisbon', country: 'PT' } },
+    checkInDate: new Date('2025-06-01'),
+    checkOutDate: new Date('2025-06-05'),
+    roomCount: 1,
+    amenities: [],
+  });
+
+  const createTestItinerary = (overrides: Partial<Itinerary> = {}): Itinerary => {
+    const now = new Date();
+    return {
+      id: generateItineraryId(),
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+      title: 'Lisbon Trip',
+      status: 'DRAFT',
+      startDate: new Date('2025-06-01'),
+      endDate: new Date('2025-06-05'),
+      destinations: [{ name: 'Lisbon', code: 'LIS', address: { city: 'Lisbon', country: 'PT' } }],
+      travelers: [
+        {
+          id: generateTravelerId(),
+          type: 'ADULT',
+          firstName: 'Ana',
+          lastName: 'Silva',
+          loyaltyPrograms: [],
+          metadata: {},
+        },
+      ],
+      segments: [hotel()],
+      tags: ['work', 'Europe'],
+      metadata: {},
+      createdBy: 'Ana@Example.com',
+      ...overrides,
+    };
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'itinerizer-sqlite-'));
+    storage = new SqliteItineraryStorage(join(dir, 'itineraries.db'));
+    await storage.initialize();
+  });
+
+  afterEach(async () => {
+    storage.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips an itinerary with its segments and dates', async () => {
+    const itinerary = createTestItinerary();
+    await storage.save(itinerary);
+
+    const result = await storage.load(itinerary.id);
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.value.title).toBe('Lisbon Trip');
+      expect(result.value.startDate).toEqual(itinerary.startDate);
+      expect(result.value.segments).toHaveLength(1);
+      expect(result.value.segments[0]?.startDatetime).toBeInstanceOf(Date);
+      expect(result.value.tags).toEqual(['work', 'Europe']);
+    }
+  });
+
+  it('lists summaries from indexed columns, most recently updated first', async () => {
+    const older = createTestItinerary({ title: 'Older' });
+    const newer = createTestItinerary({ title: 'Newer', startDate: undefined });
+    await storage.save(older);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await storage.save(newer);
+
+    const result = await storage.list();
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.value.map((s) => s.title)).toEqual(['Newer', 'Older']);
+      expect(result.value[0]?.startDate).toBeUndefined();
+      expect(result.value[1]).toMatchObject({
+        travelerCount: 1,
+        segmentCount: 1,
+        createdBy: 'Ana@Example.com',
+      });
+    }
+  });
+
+  it('filters by user case-insensitively', async () => {
+    await storage.save(createTestItinerary());
+    await storage.save(createTestItinerary({ createdBy: 'someone@example.com' }));
+
+    const result = await storage.listByUser(' ana@example.com ');
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.value).toHaveLength(1);
+    }
+  });
+
+  it('lists and queries itineraries shared with a user', async () => {
+    const shared = createTestItinerary({
+      title: 'Shared',
+      createdBy: 'someone@example.com',
+      collaborators: [{ email: 'Ana@Example.com', role: 'viewer', invitedAt: new Date() }],
+    });
+    await storage.save(shared);
+    await storage.save(createTestItinerary({ title: 'Private', createdBy: 'other@example.com' }));
+
+    const listed = await storage.listByUser('ana@example.com');
+    const queried = await storage.query({ accessibleBy: 'ANA@example.com' });
+
+    expect(listed.success && listed.value.map((s) => s.title)).toEqual(['Shared']);
+    expect(listed.success && listed.value[0]?.collaborators).toEqual([
+      { email: 'Ana@Example.com', role: 'viewer' },
+    ]);
+    expect(queried.success && queried.value.items.map((s) => s.title)).toEqual(['Shared']);
+
+    const loaded = await storage.load(shared.id);
+    expect(loaded.success && loaded.value.collaborators?.[0]?.invitedAt).toBeInstanceOf(Date);
+  });
+
+  it('rejects a save with a stale expected version', async () => {
+    const itinerary = createTestItinerary();
+    await storage.save(itinerary);
+    await storage.save({ ...itinerary, version: 2 }, undefined, 1);
+
+    const result = await storage.save({ ...itinerary, version: 2 }, undefined, 1);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(isVersionConflictError(result.error)).toBe(true);
+    }
+  });
+
+  it('records a revision per save and deletes history with the itinerary', async () => {
+    const itinerary = createTestItinerary();
+    await storage.save(itinerary);
+    await storage.save({ ...itinerary, version: 2, title: 'Renamed' }, { author: 'agent' });
+
+    const revisions = await storage.listRevisions(itinerary.id);
+    expect(revisions.success && revisions.value.map((r) => [r.revision, r.author])).toEqual([
+      [1, 'user'],
+      [2, 'agent'],
+    ]);
+    const first = await storage.loadRevision(itinerary.id, 1);
+    expect(first.success && first.value.title).toBe('Lisbon Trip');
+
+    expect((await storage.delete(itinerary.id)).success).toBe(true);
+    expect(await storage.exists(itinerary.id)).toBe(false);
+    expect((await storage.listRevisions(itinerary.id)).success).toBe(false);
+  });
+
+  it('keeps calendar feed tokens out of revision snapshots', async () => {
+    const itinerary = createTestItinerary();
+    await storage.save({
+      ...itinerary,
+      calendarFeeds: [{ token: 'feed-token', scope: 'itinerary', createdAt: new Date() }],
+    });
+
+    const loaded = await storage.load(itinerary.id);
+    const revision = await storage.loadRevision(itinerary.id, 1);
+    expect(loaded.success && loaded.value.calendarFeeds).toHaveLength(1);
+    expect(revision.success).toBe(true);
+    expect(revision.success && revision.value.calendarFeeds).toBeUndefined();
+  });
+
+  it('imports an itinerary and its history without touching timestamps', async () => {
+    const itinerary = createTestItinerary({ updatedAt: new Date('2024-01-02T03:04:05.000Z') });
+    const entry = {
+      itineraryId: itinerary.id,
+      revision: 1,
+      version: 1,
+      savedAt: itinerary.updatedAt,
+      author: 'import' as const,
+      title: itinerary.title,
+      segmentCount: 1,
+    };
+
+    const result = await storage.importItinerary(itinerary, [{ entry, snapshot: itinerary }]);
+
+    expect(result.success).toBe(true);
+    const loaded = await storage.load(itinerary.id);
+    expect(loaded.success && loaded.value.updatedAt).toEqual(itinerary.updatedAt);
+    const revisions = await storage.listRevisions(itinerary.id);
+    expect(revisions.success && revisions.value).toEqual([entry]);
+  });
+
+  it('numbers a save after the highest imported revision when history has gaps', async () => {
+    const itinerary = createTestItinerary();
+    const entry = (revision: number) => ({
+      itineraryId: itinerary.id,
+      revision,
+      version: revision,
+      savedAt: itinerary.updatedAt,
+      author: 'import' as const,
+      title: itinerary.title,
+      segmentCount: 1,
+    });
+    await storage.importItinerary(itinerary, [
+      { entry: entry(1), snapshot: itinerary },
+      { entry: entry(3), snapshot: itinerary },
+    ]);
+
+    const result = await storage.save({ ...itinerary, version: 2, title: 'Renamed' });
+
+    expect(result.success).toBe(true);
+    const revisions = await storage.listRevisions(itinerary.id);
+    expect(revisions.success && revisions.value.map((r) => r.revision)).toEqual([1, 3, 4]);
+  });
+});
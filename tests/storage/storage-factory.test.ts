@@ -7,13 +7,17 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { createItineraryStorage } from '../../src/storage/index.js';
 import { JsonItineraryStorage } from '../../src/storage/json-storage.js';
 import { BlobItineraryStorage } from '../../src/storage/blob-storage.js';
+import { SqliteItineraryStorage } from '../../src/storage/sqlite-storage.js';
 
 describe('createItineraryStorage', () => {
   let originalToken: string | undefined;
+  let originalBackend: string | undefined;
 
   beforeEach(() => {
     // Save original token
     originalToken = process.env.BLOB_READ_WRITE_TOKEN;
+    originalBackend = process.env.ITINERARY_STORAGE_BACKEND;
+    delete process.env.ITINERARY_STORAGE_BACKEND;
   });
 
   afterEach(() => {
@@ -23,6 +27,11 @@ describe('createItineraryStorage', () => {
     } else {
       delete process.env.BLOB_READ_WRITE_TOKEN;
     }
+    if (originalBackend !== undefined) {
+      process.env.ITINERARY_STORAGE_BACKEND = originalBackend;
+    } else {
+      delete process.env.ITINERARY_STORAGE_BACKEND;
+    }
   });
 
   describe('environment detection', () => {
@@ -42,6 +51,15 @@ describe('createItineraryStorage', () => {
       expect(storage).toBeInstanceOf(BlobItineraryStorage);
     });
 
+    it('creates SqliteItineraryStorage when ITINERARY_STORAGE_BACKEND is sqlite', () => {
+      process.env.BLOB_READ_WRITE_TOKEN = 'test-token';
+      process.env.ITINERARY_STORAGE_BACKEND = 'sqlite';
+
+      const storage = createItineraryStorage('./data/test');
+
+      expect(storage).toBeInstanceOf(SqliteItineraryStorage);
+    });
+
     it('uses provided basePath for JsonItineraryStorage', () => {
       delete process.env.BLOB_READ_WRITE_TOKEN;
 
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import {
+  findAirportForLocation,
+  findNearestAirport,
+  getAirport,
+  getCity,
+  getCityAirports,
+  isAirportLocation,
+  lookupPlace,
+  resolveAirport,
+  searchAirports,
+  searchCities,
+} from '../../src/utils/airports.js';
+
+describe('airport reference lookups', () => {
+  describe('getAirport', () => {
+    it('should look up airports by IATA and ICAO code', () => {
+      expect(getAirport('lhr')?.name).toBe('London Heathrow Airport');
+      expect(getAirport('KJFK')?.iata).toBe('JFK');
+      expect(getAirport('NRT')).toMatchObject({
+        city: 'Tokyo',
+        country: 'JP',
+        timezone: 'Asia/Tokyo',
+      });
+    });
+
+    it('should return undefined for unknown codes', () => {
+      expect(getAirport('XXX')).toBeUndefined();
+      expect(getAirport('')).toBeUndefined();
+    });
+  });
+
+  describe('getCity', () => {
+    it('should look up cities by name, alias and metro code', () => {
+      expect(getCity('Munich')?.country).toBe('DE');
+      expect(getCity('München')?.name).toBe('Munich');
+      expect(getCity('LON')?.name).toBe('London');
+    });
+
+    it('should list the airports serving a city, main airport first', () => {
+      expect(getCityAirports('New York').map((airport) => airport.iata)).toEqual([
+        'JFK',
+        'LGA',
+        'EWR',
+      ]);
+    });
+  });
+
+  describe('searchAirports', () => {
+    it('should match airport names', () => {
+      expect(searchAirports('heathrow')[0]?.airport.iata).toBe('LHR');
+    });
+
+    it('should tolerate typos', () => {
+      expect(searchAirports('Frankfrt')[0]?.airport.iata).toBe('FRA');
+    });
+
+    it('should rank the main airport first for a city', () => {
+      expect(searchAirports('Paris')[0]?.airport.iata).toBe('CDG');
+    });
+
+    it('should find codes embedded in text', () => {
+      expect(searchAirports('New York (LGA)')[0]).toMatchObject({
+        airport: { iata: 'LGA' },
+        score: 1,
+      });
+    });
+  });
+
+  describe('searchCities', () => {
+    it('should match local spellings and typos', () => {
+      expect(searchCities('Lisboa')[0]?.city.name).toBe('Lisbon');
+      expect(searchCities('Barcelna')[0]?.city.name).toBe('Barcelona');
+    });
+  });
+
+  describe('resolveAirport', () => {
+    it('should resolve codes, names and cities', () => {
+      expect(resolveAirport('JFK')?.iata).toBe('JFK');
+      expect(resolveAirport('Milan Malpensa')?.iata).toBe('MXP');
+      expect(resolveAirport('Munich')?.iata).toBe('MUC');
+    });
+
+    it('should not guess for unrelated text', () => {
+      expect(resolveAirport('Grand Hotel')).toBeUndefined();
+    });
+  });
+
+  describe('findAirportForLocation', () => {
+    it('should accept a code whose name agrees with the airport', () => {
+      expect(findAirportForLocation({ name: 'Milan', code: 'MXP' })?.iata).toBe('MXP');
+    });
+
+    it('should ignore codes that collide with unrelated place names', () => {
+      expect(findAirportForLocation({ name: 'Manhattan', code: 'MAN' })).toBeUndefined();
+    });
+
+    it('should resolve names when the location is assumed to be an airport', () => {
+      expect(findAirportForLocation({ name: 'Heathrow' }, true)?.iata).toBe('LHR');
+    });
+
+    it('should treat airport-named locations as airports', () => {
+      expect(isAirportLocation({ name: 'Narita Airport' })).toBe(true);
+      expect(isAirportLocation({ name: 'Park Hyatt Tokyo' })).toBe(false);
+    });
+  });
+
+  describe('findNearestAirport', () => {
+    it('should find the closest airport within range', () => {
+      const nearest = findNearestAirport(48.8566, 2.3522, 100);
+      expect(nearest?.airport.iata).toBe('ORY');
+      expect(nearest?.distanceKm).toBeLessThan(20);
+    });
+
+    it('should return undefined when nothing is within range', () => {
+      expect(findNearestAirport(0, -140, 500)).toBeUndefined();
+    });
+  });
+
+  describe('lookupPlace', () => {
+    it('should prefer an airport for airport queries', () => {
+      expect(lookupPlace('JFK Airport, New York')?.airport?.iata).toBe('JFK');
+    });
+
+    it('should return a city for city queries', () => {
+      const place = lookupPlace('Kyoto');
+      expect(place?.city?.name).toBe('Kyoto');
+      expect(place?.timezone).toBe('Asia/Tokyo');
+    });
+  });
+});
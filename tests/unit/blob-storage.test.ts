@@ -0,0 +1,151 @@
+/**
+ * Tests for BlobItineraryStorage revision history, against an in-memory blob store
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateItineraryId } from '../../src/domain/types/branded.js';
+import type { Itinerary } from '../../src/domain/types/itinerary.js';
+
+const store = vi.hoisted(() => ({
+  blobs: new Map<string, string>(),
+  /** Small pages so history listings span several */
+  pageSize: 3,
+  failPut: undefined as ((pathname: string) => boolean) | undefined,
+}));
+
+vi.mock('@vercel/blob', () => {
+  const url = (pathname: string) => `https://blob.test/${pathname}`;
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  return {
+    BlobPreconditionFailedError: class BlobPreconditionFailedError extends Error {},
+    head: vi.fn(async (pathname: string) => {
+      await tick();
+      if (!store.blobs.has(pathname)) {
+        throw new Error('Blob not found');
+      }
+      return { pathname, url: url(pathname), etag: 'etag' };
+    }),
+    list: vi.fn(async ({ prefix, cursor }: { prefix: string; cursor?: string }) => {
+      await tick();
+      const pathnames = [...store.blobs.keys()].filter((key) => key.startsWith(prefix)).sort();
+      const start = cursor ? Number(cursor) : 0;
+      const end = start + store.pageSize;
+      return {
+        blobs: pathnames.slice(start, end).map((pathname) => ({ pathname, url: url(pathname) })),
+        hasMore: end < pathnames.length,
+        ...(end < pathnames.length ? { cursor: String(end) } : {}),
+      };
+    }),
+    put: vi.fn(async (pathname: string, body: string, options: { allowOverwrite?: boolean }) => {
+      await tick();
+      if (store.failPut?.(pathname)) {
+        throw new Error('Blob service unavailable');
+      }
+      if (store.blobs.has(pathname) && options.allowOverwrite === false) {
+        throw new Error('This blob already exists');
+      }
+      store.blobs.set(pathname, body);
+      return { pathname, url: url(pathname) };
+    }),
+    del: vi.fn(async (urls: string | string[]) => {
+      await tick();
+      for (const target of Array.isArray(urls) ? urls : [urls]) {
+        store.blobs.delete(target.replace('https://blob.test/', ''));
+      }
+    }),
+  };
+});
+
+const { BlobItineraryStorage } = await import('../../src/storage/blob-storage.js');
+
+function createItinerary(): Itinerary {
+  return {
+    id: generateItineraryId(),
+    version: 1,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-01T00:00:00Z'),
+    title: 'Lisbon',
+    status: 'DRAFT',
+    destinations: [],
+    travelers: [],
+    segments: [],
+    tags: [],
+    metadata: {},
+  };
+}
+
+describe('BlobItineraryStorage revision history', () => {
+  const fetchMock = vi.fn(async (url: string) => {
+    const body = store.blobs.get(url.replace('https://blob.test/', ''));
+    return body === undefined
+      ? new Response('not found', { status: 404 })
+      : new Response(body, { status: 200 });
+  });
+
+  beforeEach(() => {
+    store.blobs.clear();
+    store.failPut = undefined;
+    vi.stubEnv('BLOB_READ_WRITE_TOKEN', 'test-token');
+    vi.stubGlobal('fetch', fetchMock);
+    fetchMock.mockClear();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('numbers revisions past the first page of history without fetching entries', async () => {
+    const storage = new BlobItineraryStorage();
+    const itinerary = createItinerary();
+
+    for (let index = 0; index < 4; index++) {
+      const saved = await storage.save(itinerary);
+      expect(saved.success).toBe(true);
+    }
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    const revisions = await storage.listRevisions(itinerary.id);
+    expect(revisions.success && revisions.value.map((entry) => entry.revision)).toEqual([
+      1, 2, 3, 4,
+    ]);
+  });
+
+  it('gives concurrent saves distinct revision numbers', async () => {
+    const storage = new BlobItineraryStorage();
+    const itinerary = createItinerary();
+    await storage.save(itinerary);
+
+    const results = await Promise.all([
+      storage.save({ ...itinerary, title: 'Lisbon and Porto' }),
+      storage.save({ ...itinerary, title: 'Lisbon and Sintra' }),
+    ]);
+    expect(results.every((result) => result.success)).toBe(true);
+
+    const revisions = await storage.listRevisions(itinerary.id);
+    expect(revisions.success && revisions.value.map((entry) => entry.revision)).toEqual([1, 2, 3]);
+    const titles = await Promise.all(
+      [2, 3].map(async (revision) => {
+        const loaded = await storage.loadRevision(itinerary.id, revision);
+        return loaded.success ? loaded.value.title : undefined;
+      })
+    );
+    expect(titles.sort()).toEqual(['Lisbon and Porto', 'Lisbon and Sintra']);
+  });
+
+  it('reports a save as successful when only the history write fails', async () => {
+    const storage = new BlobItineraryStorage();
+    const itinerary = createItinerary();
+    store.failPut = (pathname) => pathname.startsWith('itinerary-history/');
+
+    const saved = await storage.save({ ...itinerary, title: 'Porto' });
+
+    expect(saved.success).toBe(true);
+    const loaded = await storage.load(itinerary.id);
+    expect(loaded.success && loaded.value.title).toBe('Porto');
+  });
+});
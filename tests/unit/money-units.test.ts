@@ -0,0 +1,94 @@
+/**
+ * Tests for reading itineraries stored before per-currency minor units
+ */
+
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { generateItineraryId, generateSegmentId } from '../../src/domain/types/branded.js';
+import { JsonItineraryStorage } from '../../src/storage/json-storage.js';
+import { upgradeStoredMoney } from '../../src/storage/money-units.js';
+
+function storedItinerary(extra: Record<string, unknown> = {}) {
+  return {
+    id: generateItineraryId(),
+    version: 1,
+    createdAt: '2025-03-01T10:00:00.000Z',
+    updatedAt: '2025-03-01T10:00:00.000Z',
+    title: 'Tokyo',
+    status: 'DRAFT',
+    destinations: [],
+    travelers: [],
+    segments: [
+      {
+        id: generateSegmentId(),
+        type: 'ACTIVITY',
+        status: 'CONFIRMED',
+        startDatetime: '2025-04-02T01:00:00.000Z',
+        endDatetime: '2025-04-02T03:00:00.000Z',
+        travelerIds: [],
+        source: 'user',
+        metadata: {},
+        name: 'Tea ceremony',
+        location: { name: 'Uji' },
+        price: { amount: 450000, currency: 'JPY' },
+        fees: { amount: 1500, currency: 'KWD' },
+      },
+    ],
+    totalPrice: { amount: 1050, currency: 'USD' },
+    tags: [],
+    metadata: {},
+    ...extra,
+  };
+}
+
+describe('upgradeStoredMoney', () => {
+  it('rescales amounts of unmarked itineraries from hundredths', () => {
+    const upgraded = upgradeStoredMoney(storedItinerary()) as ReturnType<typeof storedItinerary>;
+
+    expect(upgraded.segments[0]?.price).toEqual({ amount: 4500, currency: 'JPY' });
+    expect(upgraded.segments[0]?.fees).toEqual({ amount: 15000, currency: 'KWD' });
+    expect(upgraded.totalPrice).toEqual({ amount: 1050, currency: 'USD' });
+  });
+
+  it('leaves marked itineraries alone', () => {
+    const stored = storedItinerary({ moneyUnits: 'iso4217' });
+
+    expect(upgradeStoredMoney(stored)).toBe(stored);
+  });
+});
+
+describe('JsonItineraryStorage with itineraries stored in hundredths', () => {
+  let dir: string;
+  let storage: JsonItineraryStorage;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'money-units-'));
+    storage = new JsonItineraryStorage(dir);
+    await storage.initialize();
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads old amounts correctly and writes them back marked', async () => {
+    const stored = storedItinerary();
+    await writeFile(join(dir, `${stored.id}.json`), JSON.stringify(stored), 'utf-8');
+
+    const loaded = await storage.load(stored.id);
+    if (!loaded.success) throw new Error(loaded.error.message);
+    expect(loaded.value.segments[0]?.price).toEqual({ amount: 4500, currency: 'JPY' });
+
+    await storage.save({ ...loaded.value, version: 2 });
+    const written = JSON.parse(await readFile(join(dir, `${stored.id}.json`), 'utf-8'));
+    expect(written.moneyUnits).toBe('iso4217');
+
+    const reloaded = await storage.load(stored.id);
+    expect(reloaded.success && reloaded.value.segments[0]?.price).toEqual({
+      amount: 4500,
+      currency: 'JPY',
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addMoney,
+  convertMoney,
+  createMoney,
+  formatMoney,
+  fromLegacyMinorUnits,
+  fromMajorUnits,
+  getMinorUnits,
+  sumMoney,
+  toMajorUnits,
+} from '../../src/domain/types/money.js';
+
+describe('money utilities', () => {
+  describe('minor units', () => {
+    it('should know currencies that do not use two decimal places', () => {
+      expect(getMinorUnits('USD')).toBe(2);
+      expect(getMinorUnits('jpy')).toBe(0);
+      expect(getMinorUnits('KWD')).toBe(3);
+    });
+
+    it('should convert between major and minor units per currency', () => {
+      expect(fromMajorUnits(10.5, 'USD')).toBe(1050);
+      expect(fromMajorUnits(1500, 'JPY')).toBe(1500);
+      expect(fromMajorUnits(1.234, 'KWD')).toBe(1234);
+      expect(toMajorUnits(createMoney(1500, 'JPY'))).toBe(1500);
+      expect(toMajorUnits(createMoney(1234, 'KWD'))).toBe(1.234);
+    });
+
+    it('should convert amounts stored in hundredths to the currency minor units', () => {
+      expect(fromLegacyMinorUnits(createMoney(150000, 'JPY'))).toEqual(createMoney(1500, 'JPY'));
+      expect(fromLegacyMinorUnits(createMoney(12345, 'KWD'))).toEqual(createMoney(123450, 'KWD'));
+      expect(fromLegacyMinorUnits(createMoney(1050, 'USD'))).toEqual(createMoney(1050, 'USD'));
+    });
+  });
+
+  describe('formatMoney', () => {
+    it('should format with the currency decimal places', () => {
+      expect(formatMoney(createMoney(1050, 'USD'))).toBe('$10.50');
+      expect(formatMoney(createMoney(150000, 'JPY'))).toBe('¥150,000');
+      expect(formatMoney(createMoney(1234, 'KWD'))).toBe('KWD 1.234');
+    });
+
+    it('should use locale separators', () => {
+      expect(formatMoney(createMoney(123456, 'EUR'), 'de-DE')).toBe('1.234,56 €');
+    });
+
+    it('should fall back to a plain rendering for unknown currencies', () => {
+      expect(formatMoney(createMoney(1050, 'XX1'))).toBe('10.50 XX1');
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('should add and sum amounts in the same currency', () => {
+      expect(addMoney(createMoney(100, 'USD'), createMoney(250, 'USD')).amount).toBe(350);
+      expect(sumMoney([createMoney(100, 'EUR'), createMoney(5, 'EUR')], 'EUR').amount).toBe(105);
+      expect(sumMoney([], 'GBP')).toEqual(createMoney(0, 'GBP'));
+    });
+
+    it('should refuse to add different currencies', () => {
+      expect(() => addMoney(createMoney(100, 'USD'), createMoney(100, 'EUR'))).toThrow();
+    });
+
+    it('should convert across currencies with different minor units', () => {
+      expect(convertMoney(createMoney(1000, 'USD'), 150, 'JPY')).toEqual(createMoney(1500, 'JPY'));
+      expect(convertMoney(createMoney(1500, 'JPY'), 0.002, 'KWD')).toEqual(
+        createMoney(3000, 'KWD')
+      );
+    });
+  });
+});
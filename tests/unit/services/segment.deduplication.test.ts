@@ -9,7 +9,13 @@ import { JsonItineraryStorage } from '../../../src/storage/json-storage.js';
 import { createItineraryId, createTravelerId } from '../../../src/domain/types/branded.js';
 import { SegmentStatus, SegmentType } from '../../../src/domain/types/common.js';
 import type { Itinerary } from '../../../src/domain/types/itinerary.js';
-import type { ActivitySegment, FlightSegment, HotelSegment, TransferSegment } from '../../../src/domain/types/segment.js';
+import type {
+  ActivitySegment,
+  CarRentalSegment,
+  FlightSegment,
+  HotelSegment,
+  TransferSegment,
+} from '../../../src/domain/types/segment.js';
 
 describe('SegmentService - Deduplication', () => {
   let testItinerary: Itinerary;
@@ -391,6 +397,73 @@ describe('SegmentService - Deduplication', () => {
     });
   });
 
+  describe('Car Rental Segment Deduplication', () => {
+    it('should prevent adding the same rental confirmation twice', async () => {
+      const rental1: Omit<CarRentalSegment, 'id'> = {
+        type: SegmentType.CAR_RENTAL,
+        status: SegmentStatus.CONFIRMED,
+        rentalCompany: { name: 'Hertz' },
+        pickupLocation: { name: 'Hertz LAX', code: 'LAX' },
+        returnLocation: { name: 'Hertz SFO', code: 'SFO' },
+        startDatetime: new Date('2025-01-10T12:00:00Z'),
+        endDatetime: new Date('2025-01-14T12:00:00Z'),
+        confirmationNumber: 'H12345',
+        travelerIds: [createTravelerId(randomUUID())],
+        source: 'import',
+        metadata: {},
+      };
+
+      const storage = new JsonItineraryStorage(':memory:');
+      await storage.save(testItinerary);
+      const segService = new SegmentService(storage);
+
+      const result1 = await segService.add(testItinerary.id, rental1);
+      expect(result1.success).toBe(true);
+
+      // Same booking re-imported with a differently spelled pickup office
+      const rental2: Omit<CarRentalSegment, 'id'> = {
+        ...rental1,
+        pickupLocation: { name: 'Los Angeles International Airport', code: 'LAX' },
+      };
+
+      const result2 = await segService.add(testItinerary.id, rental2);
+      expect(result2.success).toBe(false);
+      if (!result2.success) {
+        expect(result2.error.message).toContain('Hertz');
+      }
+    });
+
+    it('should allow a second rental from a different company', async () => {
+      const rental1: Omit<CarRentalSegment, 'id'> = {
+        type: SegmentType.CAR_RENTAL,
+        status: SegmentStatus.CONFIRMED,
+        rentalCompany: { name: 'Hertz' },
+        pickupLocation: { name: 'Hertz LAX' },
+        returnLocation: { name: 'Hertz LAX' },
+        startDatetime: new Date('2025-01-10T12:00:00Z'),
+        endDatetime: new Date('2025-01-12T12:00:00Z'),
+        travelerIds: [createTravelerId(randomUUID())],
+        source: 'agent',
+        metadata: {},
+      };
+
+      const storage = new JsonItineraryStorage(':memory:');
+      await storage.save(testItinerary);
+      const segService = new SegmentService(storage);
+
+      const result1 = await segService.add(testItinerary.id, rental1);
+      expect(result1.success).toBe(true);
+
+      const result2 = await segService.add(testItinerary.id, {
+        ...rental1,
+        rentalCompany: { name: 'Sixt' },
+        pickupLocation: { name: 'Sixt LAX' },
+        returnLocation: { name: 'Sixt LAX' },
+      });
+      expect(result2.success).toBe(true);
+    });
+  });
+
   describe('Cross-Type Segments', () => {
     it('should allow different segment types with same name/location', async () => {
       const activity: Omit<ActivitySegment, 'id'> = {
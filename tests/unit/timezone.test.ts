@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addLocalDays,
+  formatUtcOffset,
+  getAirportTimezone,
+  inferTimezone,
+  parseZonedDateTime,
+  reinterpretAsZoned,
+  toLocalDateKey,
+  wallClockToInstant,
+} from '../../src/utils/timezone.js';
+
+describe('timezone utilities', () => {
+  describe('inferTimezone', () => {
+    it('should prefer an explicit timezone', () => {
+      expect(inferTimezone({ name: 'JFK', code: 'JFK', timezone: 'Europe/Paris' })).toBe(
+        'Europe/Paris'
+      );
+    });
+
+    it('should infer the zone from an airport code', () => {
+      expect(getAirportTimezone('jfk')).toBe('America/New_York');
+      expect(inferTimezone({ name: 'Heathrow', code: 'LHR' })).toBe('Europe/London');
+    });
+
+    it('should infer the zone from coordinates near a known airport', () => {
+      expect(
+        inferTimezone({ name: 'Eiffel Tower', coordinates: { latitude: 48.858, longitude: 2.294 } })
+      ).toBe('Europe/Paris');
+    });
+
+    it('should prefer the country over a fixed offset far from known airports', () => {
+      expect(
+        inferTimezone({
+          name: 'Hotel de Sèze',
+          coordinates: { latitude: 44.843, longitude: -0.575 },
+          address: { city: 'Bordeaux', country: 'FR' },
+        })
+      ).toBe('Europe/Paris');
+    });
+
+    it('should use the nearest airport in a multi-zone country before a fixed offset', () => {
+      expect(
+        inferTimezone({
+          name: 'Union Station',
+          coordinates: { latitude: 39.085, longitude: -94.586 },
+          address: { city: 'Kansas City', country: 'US' },
+        })
+      ).toBe('America/Chicago');
+    });
+
+    it('should fall back to a fixed offset when only coordinates are known', () => {
+      expect(
+        inferTimezone({
+          name: 'Union Station',
+          coordinates: { latitude: 39.085, longitude: -94.586 },
+        })
+      ).toBe('Etc/GMT+6');
+    });
+
+    it('should return undefined when nothing is known', () => {
+      expect(inferTimezone({ name: 'Somewhere' })).toBeUndefined();
+    });
+  });
+
+  describe('wallClockToInstant', () => {
+    it('should convert a wall-clock time to UTC', () => {
+      expect(wallClockToInstant('2025-01-15T18:00:00', 'America/New_York')?.toISOString()).toBe(
+        '2025-01-15T23:00:00.000Z'
+      );
+    });
+
+    it('should honor daylight saving time', () => {
+      expect(wallClockToInstant('2025-07-15T18:00', 'America/New_York')?.toISOString()).toBe(
+        '2025-07-15T22:00:00.000Z'
+      );
+    });
+
+    it('should reject strings that carry an offset', () => {
+      expect(wallClockToInstant('2025-01-15T18:00:00Z', 'America/New_York')).toBeUndefined();
+    });
+  });
+
+  describe('parseZonedDateTime', () => {
+    it('should keep explicit offsets', () => {
+      expect(parseZonedDateTime('2025-01-15T18:00:00+01:00', 'Asia/Tokyo').toISOString()).toBe(
+        '2025-01-15T17:00:00.000Z'
+      );
+    });
+  });
+
+  describe('reinterpretAsZoned', () => {
+    it('should move a floating UTC time into its zone', () => {
+      const floating = new Date('2025-01-15T09:00:00Z');
+      expect(reinterpretAsZoned(floating, 'Asia/Tokyo').toISOString()).toBe(
+        '2025-01-15T00:00:00.000Z'
+      );
+    });
+  });
+
+  describe('toLocalDateKey', () => {
+    it('should place a red-eye arrival on the local calendar date', () => {
+      // Lands 06:30 in London, which is still the previous day in Los Angeles
+      const arrival = new Date('2025-03-02T06:30:00Z');
+      expect(toLocalDateKey(arrival, 'Europe/London')).toBe('2025-03-02');
+      expect(toLocalDateKey(arrival, 'America/Los_Angeles')).toBe('2025-03-01');
+    });
+
+    it('should fall back to UTC without a zone', () => {
+      expect(toLocalDateKey(new Date('2025-03-01T23:30:00Z'))).toBe('2025-03-01');
+    });
+  });
+
+  describe('addLocalDays', () => {
+    it('should keep the local time across a daylight saving change', () => {
+      // 09:00 in New York before and after clocks spring forward on 2025-03-09
+      const before = new Date('2025-03-08T14:00:00Z');
+      expect(addLocalDays(before, 1, 'America/New_York')).toEqual(new Date('2025-03-09T13:00:00Z'));
+      expect(addLocalDays(before, -1, 'America/New_York')).toEqual(
+        new Date('2025-03-07T14:00:00Z')
+      );
+    });
+
+    it('should add whole 24-hour days without a zone', () => {
+      expect(addLocalDays(new Date('2025-03-08T14:00:00Z'), 2)).toEqual(
+        new Date('2025-03-10T14:00:00Z')
+      );
+    });
+  });
+
+  describe('formatUtcOffset', () => {
+    it('should format whole, fractional and zero offsets', () => {
+      const date = new Date('2025-01-15T12:00:00Z');
+      expect(formatUtcOffset(date, 'America/New_York')).toBe('GMT-5');
+      expect(formatUtcOffset(date, 'Asia/Kolkata')).toBe('GMT+5:30');
+      expect(formatUtcOffset(date, 'Europe/London')).toBe('GMT');
+    });
+  });
+});
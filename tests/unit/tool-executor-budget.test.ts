@@ -0,0 +1,105 @@
+/**
+ * Test the get_budget_status tool
+ */
+import { beforeEach, describe, expect, it } from 'vitest';
+import { generateItineraryId, generateSegmentId } from '../../src/domain/types/branded.js';
+import type { ItineraryId } from '../../src/domain/types/branded.js';
+import type { Itinerary } from '../../src/domain/types/itinerary.js';
+import { generateSessionId } from '../../src/domain/types/trip-designer.js';
+import { BudgetService } from '../../src/services/budget.service.js';
+import { StaticExchangeRateProvider } from '../../src/services/exchange-rate.service.js';
+import { ItineraryService } from '../../src/services/itinerary.service.js';
+import { ToolExecutor } from '../../src/services/trip-designer/tool-executor.js';
+import { InMemoryItineraryStorage } from '../../src/storage/in-memory-storage.js';
+
+describe('ToolExecutor - get_budget_status', () => {
+  let storage: InMemoryItineraryStorage;
+  let toolExecutor: ToolExecutor;
+  let itineraryId: ItineraryId;
+
+  function createItinerary(budget?: Itinerary['tripPreferences']): Itinerary {
+    return {
+      id: itineraryId,
+      version: 1,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      title: 'Lisbon',
+      status: 'PLANNED',
+      startDate: new Date('2025-09-10'),
+      endDate: new Date('2025-09-12'),
+      destinations: [],
+      travelers: [],
+      segments: [
+        {
+          id: generateSegmentId(),
+          type: 'HOTEL',
+          status: 'CONFIRMED',
+          startDatetime: new Date('2025-09-10T15:00:00Z'),
+          endDatetime: new Date('2025-09-12T10:00:00Z'),
+          travelerIds: [],
+          source: 'user',
+          metadata: {},
+          property: { name: 'Memmo Alfama' },
+          location: { name: 'Memmo Alfama', timezone: 'Europe/Lisbon' },
+          checkInDate: new Date('2025-09-10'),
+          checkOutDate: new Date('2025-09-12'),
+          roomCount: 1,
+          amenities: [],
+          totalPrice: { amount: 59000, currency: 'EUR' },
+        },
+      ],
+      tags: [],
+      metadata: {},
+      ...(budget && { tripPreferences: budget }),
+    };
+  }
+
+  async function callTool() {
+    return toolExecutor.execute({
+      sessionId: generateSessionId(),
+      itineraryId,
+      toolCall: {
+        id: 'call-1',
+        type: 'function',
+        function: { name: 'get_budget_status', arguments: '' },
+      },
+    });
+  }
+
+  beforeEach(async () => {
+    storage = new InMemoryItineraryStorage();
+    await storage.initialize();
+    itineraryId = generateItineraryId();
+    toolExecutor = new ToolExecutor({
+      itineraryService: new ItineraryService(storage),
+      budgetService: new BudgetService(
+        new StaticExchangeRateProvider({ base: 'EUR', asOf: '2025-09-01', rates: { USD: 1 } })
+      ),
+    });
+  });
+
+  it('should report overruns by category', async () => {
+    await storage.save(
+      createItinerary({ budget: { amount: 500, currency: 'EUR', period: 'total' } })
+    );
+
+    const result = await callTool();
+
+    expect(result.success).toBe(true);
+    expect(result.result).toMatchObject({
+      hasBudget: true,
+      total: { percentUsed: 118, status: 'over' },
+      ratesAsOf: '2025-09-01',
+      overruns: expect.arrayContaining(['18% over budget on hotels (€90.00 over)']),
+    });
+  });
+
+  it('should tell the agent when no budget is set', async () => {
+    await storage.save(createItinerary());
+
+    const result = await callTool();
+
+    expect(result.success).toBe(true);
+    expect(result.result).toMatchObject({ hasBudget: false });
+  });
+});
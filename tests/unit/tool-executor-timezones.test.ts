@@ -0,0 +1,133 @@
+/**
+ * Test that segment tools read wall-clock times in the location's timezone,
+ * whatever timezone the server runs in
+ */
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateItineraryId } from '../../src/domain/types/branded.js';
+import type { ItineraryId } from '../../src/domain/types/branded.js';
+import type { Itinerary } from '../../src/domain/types/itinerary.js';
+import type { Segment } from '../../src/domain/types/segment.js';
+import { generateSessionId } from '../../src/domain/types/trip-designer.js';
+import { ItineraryService } from '../../src/services/itinerary.service.js';
+import { SegmentService } from '../../src/services/segment.service.js';
+import { ToolExecutor } from '../../src/services/trip-designer/tool-executor.js';
+import { InMemoryItineraryStorage } from '../../src/storage/in-memory-storage.js';
+
+describe('ToolExecutor - segment timezones', () => {
+  let storage: InMemoryItineraryStorage;
+  let toolExecutor: ToolExecutor;
+  let itineraryId: ItineraryId;
+
+  // A server far from the trip: Tokyo wall-clock times must not be read as Los Angeles times
+  beforeAll(() => {
+    vi.stubEnv('TZ', 'America/Los_Angeles');
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  beforeEach(async () => {
+    storage = new InMemoryItineraryStorage();
+    await storage.initialize();
+    itineraryId = generateItineraryId();
+    const itinerary: Itinerary = {
+      id: itineraryId,
+      version: 1,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      title: 'Tokyo',
+      status: 'PLANNED',
+      startDate: new Date('2025-03-31'),
+      endDate: new Date('2025-04-06'),
+      destinations: [],
+      travelers: [],
+      segments: [],
+      tags: [],
+      metadata: {},
+    };
+    await storage.save(itinerary);
+
+    toolExecutor = new ToolExecutor({
+      itineraryService: new ItineraryService(storage),
+      segmentService: new SegmentService(storage),
+    });
+  });
+
+  async function addSegment(name: string, args: Record<string, unknown>): Promise<Segment> {
+    const result = await toolExecutor.execute({
+      sessionId: generateSessionId(),
+      itineraryId,
+      toolCall: {
+        id: `call-${name}`,
+        type: 'function',
+        function: { name, arguments: JSON.stringify(args) },
+      },
+    });
+    expect(result.error).toBeUndefined();
+    expect(result.success).toBe(true);
+
+    const loaded = await storage.load(itineraryId);
+    if (!loaded.success) throw loaded.error;
+    const segment = loaded.value.segments.at(-1);
+    if (!segment) throw new Error('No segment added');
+    return segment;
+  }
+
+  const tokyo = { name: 'Shinjuku', address: { city: 'Tokyo', country: 'JP' } };
+
+  it('runs in a non-UTC server timezone', () => {
+    expect(new Date('2025-04-02T00:00:00Z').getTimezoneOffset()).toBe(420);
+  });
+
+  it('reads activity times in the activity location zone', async () => {
+    const segment = await addSegment('add_activity', {
+      name: 'Robot show',
+      location: tokyo,
+      startTime: '2025-04-02T19:00:00',
+      endTime: '2025-04-02T21:00:00',
+    });
+
+    expect(segment.startDatetime).toEqual(new Date('2025-04-02T10:00:00Z'));
+    expect(segment.endDatetime).toEqual(new Date('2025-04-02T12:00:00Z'));
+  });
+
+  it('reads transfer pickup time in the pickup location zone', async () => {
+    const segment = await addSegment('add_transfer', {
+      transferType: 'TAXI',
+      pickupLocation: { name: 'Narita Airport', code: 'NRT' },
+      dropoffLocation: tokyo,
+      pickupTime: '2025-04-01T08:30:00',
+      estimatedDurationMinutes: 60,
+    });
+
+    expect(segment.startDatetime).toEqual(new Date('2025-03-31T23:30:00Z'));
+    expect(segment.endDatetime).toEqual(new Date('2025-04-01T00:30:00Z'));
+  });
+
+  it('reads meeting times in the meeting location zone', async () => {
+    const segment = await addSegment('add_meeting', {
+      title: 'Kickoff',
+      location: tokyo,
+      startTime: '2025-04-03T09:00:00',
+      endTime: '2025-04-03T10:00:00',
+    });
+
+    expect(segment.startDatetime).toEqual(new Date('2025-04-03T00:00:00Z'));
+    expect(segment.endDatetime).toEqual(new Date('2025-04-03T01:00:00Z'));
+  });
+
+  it('sets hotel check-in and check-out hours in the hotel zone', async () => {
+    const segment = await addSegment('add_hotel', {
+      property: { name: 'Park Hyatt Tokyo' },
+      location: tokyo,
+      checkInDate: '2025-04-01',
+      checkOutDate: '2025-04-05',
+      checkOutTime: '12:00',
+    });
+
+    expect(segment.startDatetime).toEqual(new Date('2025-04-01T06:00:00Z'));
+    expect(segment.endDatetime).toEqual(new Date('2025-04-05T03:00:00Z'));
+    expect(segment.type === 'HOTEL' && segment.location.timezone).toBe('Asia/Tokyo');
+  });
+});
@@ -18,18 +18,27 @@
 
 import type { Handle } from '@sveltejs/kit';
 import { join } from 'node:path';
-import { createItineraryStorage } from '../../src/storage/index.js';
-import type { ItineraryStorage } from '../../src/storage/index.js';
+import { createItineraryStorage, createTemplateStorage } from '../../src/storage/index.js';
+import type { ItineraryStorage, TemplateStorage } from '../../src/storage/index.js';
 import { ItineraryService } from '../../src/services/itinerary.service.js';
 import { ItineraryCollectionService } from '../../src/services/itinerary-collection.service.js';
 import { SegmentService } from '../../src/services/segment.service.js';
 import { DependencyService } from '../../src/services/dependency.service.js';
+import { BudgetService } from '../../src/services/budget.service.js';
+import { loadExchangeRateProvider } from '../../src/services/exchange-rate.service.js';
+import { ICSExportService } from '../../src/services/ics-export.service.js';
+import { CalendarFeedService } from '../../src/services/calendar-feed.service.js';
+import { CollaborationService } from '../../src/services/collaboration.service.js';
+import { TravelDocumentService } from '../../src/services/travel-document.service.js';
+import { ItineraryHistoryService } from '../../src/services/itinerary-history.service.js';
 
 // Type-only imports for optional services (don't load modules)
 import type { DocumentImportService } from '../../src/services/document-import.service.js';
 import type { ImportConfig } from '../../src/domain/types/import.js';
 import type { TravelAgentService } from '../../src/services/travel-agent.service.js';
 import type { TravelAgentConfig } from '../../src/services/travel-agent.service.js';
+import type { TravelSearchProvider } from '../../src/services/travel-search/index.js';
+import type { TravelSearchProviderName } from '../../src/domain/types/travel-search.js';
 import type { TravelAgentFacade } from '../../src/services/travel-agent-facade.service.js';
 import type { TripDesignerService } from '../../src/services/trip-designer/trip-designer.service.js';
 import type { TripDesignerConfig } from '../../src/domain/types/trip-designer.js';
@@ -43,11 +52,19 @@ import type { SessionStorage } from '../../src/services/trip-designer/session.js
  */
 interface Services {
 	storage: ItineraryStorage;
+	templateStorage: TemplateStorage;
 	itineraryService: ItineraryService;
 	collectionService: ItineraryCollectionService;
 	segmentService: SegmentService;
 	dependencyService: DependencyService;
+	budgetService: BudgetService;
+	icsExportService: ICSExportService;
+	calendarFeedService: CalendarFeedService;
+	collaborationService: CollaborationService;
+	travelDocumentService: TravelDocumentService;
+	historyService: ItineraryHistoryService;
 	importService: DocumentImportService | null;
+	travelSearchProvider: TravelSearchProvider | null;
 	travelAgentService: TravelAgentService | null;
 	travelAgentFacade: TravelAgentFacade;
 	tripDesignerService: TripDesignerService | null;
@@ -57,23 +74,41 @@ interface Services {
 let servicesInstance: Services | null = null;
 
 /**
- * Global session storage that survives HMR
- * All TripDesignerService instances share this storage to prevent session loss
+ * Shared session storage
+ * All TripDesignerService instances use the same durable storage, so chat
+ * history survives restarts, cold starts and HMR reloads
  */
 let globalSessionStorage: SessionStorage | null = null;
 
+/**
+ * Get the shared session storage, creating it on first use
+ * Auto-detects Blob vs JSON based on BLOB_READ_WRITE_TOKEN
+ */
+async function getSessionStorage(): Promise<SessionStorage> {
+	if (!globalSessionStorage) {
+		const { createSessionStorage } = await import(
+			'../../src/services/trip-designer/session-storage.js'
+		);
+		globalSessionStorage = createSessionStorage(
+			process.env.BLOB_READ_WRITE_TOKEN
+				? undefined // Blob storage doesn't need a path
+				: join(process.cwd(), '..', 'data', 'sessions')
+		);
+		console.log('✅ Session storage initialized');
+	}
+	return globalSessionStorage;
+}
+
 /**
  * Cache for TripDesignerService instances keyed by API key
  * Ensures session persistence across requests with the same API key
  */
 const tripDesignerCache = new Map<string, TripDesignerService>();
 
-// Preserve session storage across HMR in development
+// Drop cached services on HMR so they pick up code changes (sessions are persisted)
 if (import.meta.hot) {
 	import.meta.hot.dispose(() => {
-		console.log('[HMR] Clearing TripDesigner service cache (sessions preserved)');
-		// Clear the service cache, but keep globalSessionStorage intact
-		// This ensures sessions survive HMR reloads
+		console.log('[HMR] Clearing TripDesigner service cache');
 		tripDesignerCache.clear();
 	});
 }
@@ -115,11 +150,29 @@ async function initializeServices(): Promise<Services> {
 		}
 		console.log('✅ Storage initialized');
 
+		// Templates live next to the itineraries (or in Blob)
+		const templateStorage = createTemplateStorage(
+			process.env.BLOB_READ_WRITE_TOKEN ? undefined : join(process.cwd(), '..', 'data', 'templates')
+		);
+
 		// Core services
 		const itineraryService = new ItineraryService(storage);
-		const collectionService = new ItineraryCollectionService(storage);
+		const collectionService = new ItineraryCollectionService(storage, templateStorage);
 		const segmentService = new SegmentService(storage);
 		const dependencyService = new DependencyService(storage);
+
+		// Exchange rates for budget conversion (EXCHANGE_RATES_FILE)
+		const ratesResult = await loadExchangeRateProvider();
+		if (!ratesResult.success) {
+			throw new Error(ratesResult.error.message);
+		}
+		const budgetService = new BudgetService(ratesResult.value);
+
+		const icsExportService = new ICSExportService();
+		const calendarFeedService = new CalendarFeedService(storage, icsExportService);
+		const collaborationService = new CollaborationService(storage);
+		const travelDocumentService = new TravelDocumentService();
+		const historyService = new ItineraryHistoryService(storage);
 		console.log('✅ Core services initialized');
 
 		// OPTIONAL SERVICES - Only initialize if API keys are configured
@@ -143,21 +196,49 @@ async function initializeServices(): Promise<Services> {
 			console.log('⚠️  Import service disabled (no OPENROUTER_API_KEY)');
 		}
 
-		// Travel Agent service - requires SERPAPI_KEY
-		let travelAgentService: TravelAgentService | null = null;
+		// Travel search - requires SERPAPI_KEY or TRAVEL_SEARCH_PROVIDER
+		// (TRAVEL_SEARCH_PROVIDER=fixture serves sample offers, optionally from TRAVEL_SEARCH_FIXTURES)
+		let travelSearchProvider: TravelSearchProvider | null = null;
 		const serpApiKey = process.env.SERPAPI_KEY;
+		const searchProviderName = process.env.TRAVEL_SEARCH_PROVIDER as
+			| TravelSearchProviderName
+			| undefined;
 
-		if (serpApiKey) {
+		if (serpApiKey || searchProviderName) {
+			const { createTravelSearchProvider } = await import(
+				'../../src/services/travel-search/index.js'
+			);
+			const providerResult = createTravelSearchProvider({
+				...(searchProviderName ? { provider: searchProviderName } : {}),
+				...(serpApiKey ? { serpapiKey: serpApiKey } : {}),
+				...(process.env.TRAVEL_SEARCH_FIXTURES
+					? { fixturePath: process.env.TRAVEL_SEARCH_FIXTURES }
+					: {}),
+			});
+			if (providerResult.success) {
+				travelSearchProvider = providerResult.value;
+				console.log(`✅ Travel search initialized (${travelSearchProvider.name})`);
+			} else {
+				console.log(`⚠️  Travel search disabled (${providerResult.error.message})`);
+			}
+		} else {
+			console.log('⚠️  Travel search disabled (no SERPAPI_KEY or TRAVEL_SEARCH_PROVIDER)');
+		}
+
+		// Travel Agent service - requires travel search
+		let travelAgentService: TravelAgentService | null = null;
+
+		if (travelSearchProvider) {
 			const { TravelAgentService: TravelAgentServiceClass } = await import(
 				'../../src/services/travel-agent.service.js'
 			);
 			const travelAgentConfig: TravelAgentConfig = {
-				apiKey: serpApiKey,
+				searchProvider: travelSearchProvider,
 			};
 			travelAgentService = new TravelAgentServiceClass(travelAgentConfig);
 			console.log('✅ Travel Agent service initialized');
 		} else {
-			console.log('⚠️  Travel Agent service disabled (no SERPAPI_KEY)');
+			console.log('⚠️  Travel Agent service disabled (no travel search)');
 		}
 
 		// Travel Agent Facade - always available (wraps review/continuity services)
@@ -204,27 +285,24 @@ async function initializeServices(): Promise<Services> {
 				'../../src/services/trip-designer/trip-designer.service.js'
 			);
 
-			// Initialize global session storage if needed (survives HMR)
-			if (!globalSessionStorage) {
-				const { InMemorySessionStorage } = await import(
-					'../../src/services/trip-designer/session.js'
-				);
-				globalSessionStorage = new InMemorySessionStorage();
-				console.log('✅ Global session storage initialized');
-			}
+			const sessionStorage = await getSessionStorage();
 
 			const tripDesignerConfig: TripDesignerConfig = {
 				apiKey: tripDesignerApiKey,
 			};
 			tripDesignerService = new TripDesignerServiceClass(
 				tripDesignerConfig,
-				globalSessionStorage, // Use global session storage (survives HMR)
+				sessionStorage,
 				{
 					itineraryService,
 					segmentService,
 					dependencyService,
 					knowledgeService: knowledgeService || undefined,
 					travelAgentFacade,
+					historyService,
+					templateStorage,
+					...(travelSearchProvider ? { travelSearchProvider } : {}),
+					budgetService,
 				}
 			);
 			console.log('✅ Trip Designer service initialized');
@@ -234,11 +312,19 @@ async function initializeServices(): Promise<Services> {
 
 		servicesInstance = {
 			storage,
+			templateStorage,
 			itineraryService,
 			collectionService,
 			segmentService,
 			dependencyService,
+			budgetService,
+			icsExportService,
+			calendarFeedService,
+			collaborationService,
+			travelDocumentService,
+			historyService,
 			importService,
+			travelSearchProvider,
 			travelAgentService,
 			travelAgentFacade,
 			tripDesignerService,
@@ -266,6 +352,12 @@ const USER_EMAIL_COOKIE_NAME = 'itinerizer_user_email';
 // Public routes that don't require authentication
 const PUBLIC_ROUTES = ['/login', '/api/auth', '/api/health', '/api/v1/health'];
 
+/**
+ * Calendar feed URLs are fetched by calendar apps, which cannot log in;
+ * the token in the URL authorizes them instead
+ */
+const CALENDAR_FEED_ROUTE = /^\/api\/v1\/feeds\/.+\.ics$/;
+
 /**
  * SvelteKit handle hook - Authentication + Services
  */
@@ -296,7 +388,9 @@ export const handle: Handle = async ({ event, resolve }) => {
 		console.log('[hooks] userEmail:', event.locals.userEmail);
 
 		// Check if route requires authentication
-		const isPublicRoute = PUBLIC_ROUTES.some(route => event.url.pathname.startsWith(route));
+		const isPublicRoute =
+			PUBLIC_ROUTES.some(route => event.url.pathname.startsWith(route)) ||
+			(event.request.method === 'GET' && CALENDAR_FEED_ROUTE.test(event.url.pathname));
 
 		// Redirect to login if not authenticated and not on a public route
 		if (!event.locals.isAuthenticated && !isPublicRoute) {
@@ -379,13 +473,8 @@ export const handle: Handle = async ({ event, resolve }) => {
  * Create a TripDesignerService on-demand with a custom API key
  * Used when client provides API key in request headers
  *
- * IMPORTANT: Uses global session storage to maintain session persistence across:
- * - HMR reloads in development
- * - API key changes
- * - Service instance recreation
- *
- * All TripDesignerService instances share the same session storage, ensuring
- * sessions survive even if the service instance is recreated.
+ * All TripDesignerService instances share the same durable session storage,
+ * so sessions survive API key changes and service instance recreation.
  */
 export async function createTripDesignerWithKey(
 	apiKey: string,
@@ -403,25 +492,24 @@ export async function createTripDesignerWithKey(
 		'../../src/services/trip-designer/trip-designer.service.js'
 	);
 
-	// Initialize global session storage if needed (survives HMR)
-	if (!globalSessionStorage) {
-		const { InMemorySessionStorage } = await import(
-			'../../src/services/trip-designer/session.js'
-		);
-		globalSessionStorage = new InMemorySessionStorage();
-		console.log('✅ Global session storage initialized (createTripDesignerWithKey)');
-	}
+	const sessionStorage = await getSessionStorage();
 
 	const config: TripDesignerConfig = {
 		apiKey,
 	};
 
-	const service = new TripDesignerServiceClass(config, globalSessionStorage, {
+	const service = new TripDesignerServiceClass(config, sessionStorage, {
 		itineraryService: services.itineraryService,
 		segmentService: services.segmentService,
 		dependencyService: services.dependencyService,
 		travelAgentFacade: services.travelAgentFacade,
 		knowledgeService: services.knowledgeService || undefined,
+		historyService: services.historyService,
+		templateStorage: services.templateStorage,
+		...(services.travelSearchProvider
+			? { travelSearchProvider: services.travelSearchProvider }
+			: {}),
+		budgetService: services.budgetService,
 	});
 
 	// Cache the service instance to preserve SessionManager across requests
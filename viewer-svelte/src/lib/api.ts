@@ -1,4 +1,12 @@
-import type { Itinerary, ItineraryListItem, ModelConfig, AgentResponse, ChatStreamEvent } from './types';
+import type {
+  Itinerary,
+  ItineraryListItem,
+  ModelConfig,
+  AgentResponse,
+  CalendarFeed,
+  ChatStreamEvent,
+  MessageUndoResult,
+} from './types';
 
 // For SvelteKit deployment, use relative URLs (same origin)
 // For standalone Express server, use VITE_API_URL (defaults to localhost:5177)
@@ -88,6 +96,10 @@ const API_V1 = {
   DESIGNER: {
     SESSIONS: '/api/v1/designer/sessions',
   },
+  FEEDS: {
+    ITINERARIES: '/api/v1/feeds/itineraries',
+    USERS: '/api/v1/feeds/users',
+  },
   AGENT: {
     IMPORT_PDF: '/api/v1/agent/import/pdf',
     COSTS: '/api/v1/agent/costs',
@@ -95,23 +107,102 @@ const API_V1 = {
   },
 } as const;
 
+/**
+ * Thrown when a write was based on an outdated itinerary version (HTTP 409).
+ * `latest` is set when the client refreshed the itinerary but could not merge the change.
+ */
+export class VersionConflictError extends Error {
+  readonly currentVersion: number | undefined;
+  latest: Itinerary | undefined;
+
+  constructor(message: string, currentVersion?: number, latest?: Itinerary) {
+    super(message);
+    this.name = 'VersionConflictError';
+    this.currentVersion = currentVersion;
+    this.latest = latest;
+  }
+}
+
 async function handleResponse<T>(response: Response): Promise<T> {
   if (!response.ok) {
     // Try to extract error message from response body
     let errorMessage = `${response.status} ${response.statusText}`;
+    let currentVersion: number | undefined;
     try {
       const errorData = await response.json();
       if (errorData.message) {
         errorMessage = errorData.message;
       }
+      currentVersion = errorData.currentVersion;
     } catch {
       // If JSON parsing fails, use status text
     }
+    // Other 409s (e.g. an undo conflict) are not about the itinerary version
+    if (response.status === 409 && currentVersion !== undefined) {
+      throw new VersionConflictError(errorMessage, currentVersion);
+    }
     throw new Error(errorMessage);
   }
   return response.json();
 }
 
+/**
+ * Send an itinerary write guarded by the version of the itinerary it was based on.
+ * On a version conflict the latest itinerary is fetched. If the part of it the write
+ * touches is unchanged since `base`, the write is replayed once against the latest
+ * version; otherwise the conflict is rethrown with the latest itinerary attached.
+ * @param url - Request URL
+ * @param init - Request options (headers are added here)
+ * @param base - Itinerary the change was made against (no version check if omitted)
+ * @param touched - Selects the part of the itinerary the write depends on
+ */
+async function sendItineraryWrite(
+  url: string,
+  init: RequestInit,
+  base: Itinerary | undefined,
+  touched: (itinerary: Itinerary) => unknown
+): Promise<Itinerary> {
+  const send = async (version?: number): Promise<Itinerary> => {
+    const headers: Record<string, string> = { ...(getBaseHeaders() as Record<string, string>) };
+    if (version !== undefined) {
+      headers['If-Match'] = `"${version}"`;
+    }
+    return handleResponse<Itinerary>(await fetch(url, { ...init, headers }));
+  };
+
+  if (base?.version === undefined) {
+    return send();
+  }
+
+  try {
+    return await send(base.version);
+  } catch (error) {
+    if (!(error instanceof VersionConflictError)) {
+      throw error;
+    }
+
+    const latest = await apiClient.getItinerary(base.id);
+    if (JSON.stringify(touched(base)) !== JSON.stringify(touched(latest))) {
+      error.latest = latest;
+      throw error;
+    }
+
+    try {
+      return await send(latest.version);
+    } catch (retryError) {
+      if (retryError instanceof VersionConflictError) {
+        retryError.latest = latest;
+      }
+      throw retryError;
+    }
+  }
+}
+
+/** Pick the listed fields of an itinerary, for comparing the part a write touches */
+function pickFields(itinerary: Itinerary, fields: string[]): unknown[] {
+  return fields.map((field) => itinerary[field as keyof Itinerary]);
+}
+
 export const apiClient = {
   // Health check
   async checkHealth(): Promise<{ status: string; timestamp: string; service: string }> {
@@ -163,14 +254,15 @@ export const apiClient = {
       status?: string;
       tripType?: string;
       tags?: string[];
-    }
+    },
+    base?: Itinerary
   ): Promise<Itinerary> {
-    const response = await fetch(`${API_BASE_URL}${API_V1.ITINERARIES}/${id}`, {
-      method: 'PATCH',
-      headers: getBaseHeaders(),
-      body: JSON.stringify(data),
-    });
-    return handleResponse<Itinerary>(response);
+    return sendItineraryWrite(
+      `${API_BASE_URL}${API_V1.ITINERARIES}/${id}`,
+      { method: 'PATCH', body: JSON.stringify(data) },
+      base,
+      (itinerary) => pickFields(itinerary, Object.keys(data))
+    );
   },
 
   // Delete itinerary
@@ -195,36 +287,47 @@ export const apiClient = {
   },
 
   // Add segment to itinerary
-  async addSegment(itineraryId: string, segmentData: Partial<import('./types').Segment>): Promise<import('./types').Itinerary> {
-    const response = await fetch(`${API_BASE_URL}${API_V1.ITINERARIES}/${itineraryId}/segments`, {
-      method: 'POST',
-      headers: getBaseHeaders(),
-      body: JSON.stringify(segmentData),
-    });
-    return handleResponse<import('./types').Itinerary>(response);
+  async addSegment(
+    itineraryId: string,
+    segmentData: Partial<import('./types').Segment>,
+    base?: Itinerary
+  ): Promise<import('./types').Itinerary> {
+    // Adding never overwrites another change, so it can always be replayed
+    return sendItineraryWrite(
+      `${API_BASE_URL}${API_V1.ITINERARIES}/${itineraryId}/segments`,
+      { method: 'POST', body: JSON.stringify(segmentData) },
+      base,
+      () => null
+    );
   },
 
   // Update segment
   async updateSegment(
     itineraryId: string,
     segmentId: string,
-    segmentData: Partial<import('./types').Segment>
+    segmentData: Partial<import('./types').Segment>,
+    base?: Itinerary
   ): Promise<import('./types').Itinerary> {
-    const response = await fetch(`${API_BASE_URL}${API_V1.ITINERARIES}/${itineraryId}/segments/${segmentId}`, {
-      method: 'PATCH',
-      headers: getBaseHeaders(),
-      body: JSON.stringify(segmentData),
-    });
-    return handleResponse<import('./types').Itinerary>(response);
+    return sendItineraryWrite(
+      `${API_BASE_URL}${API_V1.ITINERARIES}/${itineraryId}/segments/${segmentId}`,
+      { method: 'PATCH', body: JSON.stringify(segmentData) },
+      base,
+      (itinerary) => itinerary.segments.find((segment) => segment.id === segmentId)
+    );
   },
 
   // Delete segment
-  async deleteSegment(itineraryId: string, segmentId: string): Promise<import('./types').Itinerary> {
-    const response = await fetch(`${API_BASE_URL}${API_V1.ITINERARIES}/${itineraryId}/segments/${segmentId}`, {
-      method: 'DELETE',
-      headers: getBaseHeaders(),
-    });
-    return handleResponse<import('./types').Itinerary>(response);
+  async deleteSegment(
+    itineraryId: string,
+    segmentId: string,
+    base?: Itinerary
+  ): Promise<import('./types').Itinerary> {
+    return sendItineraryWrite(
+      `${API_BASE_URL}${API_V1.ITINERARIES}/${itineraryId}/segments/${segmentId}`,
+      { method: 'DELETE' },
+      base,
+      (itinerary) => itinerary.segments.find((segment) => segment.id === segmentId)
+    );
   },
 
   // Add traveler
@@ -236,14 +339,16 @@ export const apiClient = {
       type?: string;
       email?: string;
       phone?: string;
-    }
+    },
+    base?: Itinerary
   ): Promise<import('./types').Itinerary> {
-    const response = await fetch(`${API_BASE_URL}${API_V1.ITINERARIES}/${itineraryId}/travelers`, {
-      method: 'POST',
-      headers: getBaseHeaders(),
-      body: JSON.stringify(travelerData),
-    });
-    return handleResponse<import('./types').Itinerary>(response);
+    // Adding never overwrites another change, so it can always be replayed
+    return sendItineraryWrite(
+      `${API_BASE_URL}${API_V1.ITINERARIES}/${itineraryId}/travelers`,
+      { method: 'POST', body: JSON.stringify(travelerData) },
+      base,
+      () => null
+    );
   },
 
   // Update traveler
@@ -256,36 +361,111 @@ export const apiClient = {
       type?: string;
       email?: string;
       phone?: string;
-    }
+    },
+    base?: Itinerary
   ): Promise<import('./types').Itinerary> {
-    const response = await fetch(`${API_BASE_URL}${API_V1.ITINERARIES}/${itineraryId}/travelers/${travelerId}`, {
-      method: 'PATCH',
-      headers: getBaseHeaders(),
-      body: JSON.stringify(travelerData),
-    });
-    return handleResponse<import('./types').Itinerary>(response);
+    return sendItineraryWrite(
+      `${API_BASE_URL}${API_V1.ITINERARIES}/${itineraryId}/travelers/${travelerId}`,
+      { method: 'PATCH', body: JSON.stringify(travelerData) },
+      base,
+      (itinerary) => itinerary.travelers?.find((traveler) => traveler.id === travelerId)
+    );
   },
 
   // Delete traveler
-  async deleteTraveler(itineraryId: string, travelerId: string): Promise<import('./types').Itinerary> {
-    const response = await fetch(`${API_BASE_URL}${API_V1.ITINERARIES}/${itineraryId}/travelers/${travelerId}`, {
-      method: 'DELETE',
-      headers: getBaseHeaders(),
-    });
-    return handleResponse<import('./types').Itinerary>(response);
+  async deleteTraveler(
+    itineraryId: string,
+    travelerId: string,
+    base?: Itinerary
+  ): Promise<import('./types').Itinerary> {
+    return sendItineraryWrite(
+      `${API_BASE_URL}${API_V1.ITINERARIES}/${itineraryId}/travelers/${travelerId}`,
+      { method: 'DELETE' },
+      base,
+      (itinerary) => itinerary.travelers?.find((traveler) => traveler.id === travelerId)
+    );
   },
 
   // Update trip preferences
   async updateTripPreferences(
     itineraryId: string,
-    preferences: Record<string, unknown>
+    preferences: Record<string, unknown>,
+    base?: Itinerary
   ): Promise<import('./types').Itinerary> {
-    const response = await fetch(`${API_BASE_URL}${API_V1.ITINERARIES}/${itineraryId}/preferences`, {
-      method: 'PATCH',
+    return sendItineraryWrite(
+      `${API_BASE_URL}${API_V1.ITINERARIES}/${itineraryId}/preferences`,
+      { method: 'PATCH', body: JSON.stringify(preferences) },
+      base,
+      (itinerary) => itinerary.tripPreferences
+    );
+  },
+
+  // List calendar feeds of an itinerary
+  async getItineraryFeeds(itineraryId: string): Promise<CalendarFeed[]> {
+    const response = await fetch(`${API_BASE_URL}${API_V1.FEEDS.ITINERARIES}/${itineraryId}`, {
       headers: getBaseHeaders(),
-      body: JSON.stringify(preferences),
     });
-    return handleResponse<import('./types').Itinerary>(response);
+    return handleResponse<CalendarFeed[]>(response);
+  },
+
+  // Issue a calendar feed for an itinerary
+  async createItineraryFeed(itineraryId: string): Promise<CalendarFeed> {
+    const response = await fetch(`${API_BASE_URL}${API_V1.FEEDS.ITINERARIES}/${itineraryId}`, {
+      method: 'POST',
+      headers: getBaseHeaders(),
+    });
+    return handleResponse<CalendarFeed>(response);
+  },
+
+  // Revoke an itinerary calendar feed
+  async revokeItineraryFeed(itineraryId: string, token: string): Promise<void> {
+    const response = await fetch(
+      `${API_BASE_URL}${API_V1.FEEDS.ITINERARIES}/${itineraryId}/${encodeURIComponent(token)}`,
+      {
+        method: 'DELETE',
+        headers: getBaseHeaders(),
+      }
+    );
+    if (!response.ok) {
+      await handleResponse(response);
+    }
+  },
+
+  // List the current user's aggregated calendar feeds
+  async getUserFeeds(): Promise<CalendarFeed[]> {
+    const response = await fetch(`${API_BASE_URL}${API_V1.FEEDS.USERS}`, {
+      headers: getBaseHeaders(),
+    });
+    return handleResponse<CalendarFeed[]>(response);
+  },
+
+  // Issue an aggregated calendar feed for the current user
+  async createUserFeed(): Promise<CalendarFeed> {
+    const response = await fetch(`${API_BASE_URL}${API_V1.FEEDS.USERS}`, {
+      method: 'POST',
+      headers: getBaseHeaders(),
+    });
+    return handleResponse<CalendarFeed>(response);
+  },
+
+  // Revoke one of the current user's aggregated calendar feeds
+  async revokeUserFeed(token: string): Promise<void> {
+    const response = await fetch(
+      `${API_BASE_URL}${API_V1.FEEDS.USERS}/${encodeURIComponent(token)}`,
+      {
+        method: 'DELETE',
+        headers: getBaseHeaders(),
+      }
+    );
+    if (!response.ok) {
+      await handleResponse(response);
+    }
+  },
+
+  // Build the webcal:// subscription URL of a feed
+  getFeedSubscriptionUrl(feed: CalendarFeed): string {
+    const origin = API_BASE_URL || (typeof window !== 'undefined' ? window.location.origin : '');
+    return `${origin.replace(/^https?:\/\//, 'webcal://').replace(/\/+$/, '')}${feed.path}`;
   },
 
   // Get available models
@@ -361,6 +541,22 @@ export const apiClient = {
     return handleResponse<AgentResponse>(response);
   },
 
+  async undoChatMessage(
+    sessionId: string,
+    messageIndex: number,
+    headRevision?: number
+  ): Promise<MessageUndoResult> {
+    const response = await fetch(
+      `${API_BASE_URL}${API_V1.DESIGNER.SESSIONS}/${sessionId}/messages/${messageIndex}/undo`,
+      {
+        method: 'POST',
+        headers: getAIHeaders(),
+        body: JSON.stringify({ headRevision }),
+      }
+    );
+    return handleResponse<MessageUndoResult>(response);
+  },
+
   async getChatSession(sessionId: string): Promise<unknown> {
     const response = await fetch(`${API_BASE_URL}${API_V1.DESIGNER.SESSIONS}/${sessionId}`, {
       headers: getAIHeaders(),
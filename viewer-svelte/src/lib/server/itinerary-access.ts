@@ -0,0 +1,86 @@
+/**
+ * Collaborator role checks for itinerary routes
+ *
+ * Mirrors the Express middleware: viewers can read an itinerary, editors can
+ * change it and owners can delete or share it. Replaces the per-route
+ * ownership checks, which only let the creator in.
+ */
+
+import { error } from '@sveltejs/kit';
+import type { ItineraryId, SessionId } from '$domain/types/branded.js';
+import type { CollaboratorRole } from '$domain/types/itinerary.js';
+import type { AuthorizedItinerary } from '../../../../src/services/collaboration.service.js';
+import type { TripDesignerService } from '../../../../src/services/trip-designer/trip-designer.service.js';
+
+/**
+ * Require the current user to hold at least a role on an itinerary
+ * @param locals - Request locals (services and signed-in user)
+ * @param id - Itinerary ID
+ * @param required - Minimum role the route needs
+ * @param action - Verb for the error message (e.g. "view", "update")
+ * @returns The itinerary, the user's role on it and the user's email
+ * @throws 403 if the user is signed out, the itinerary is not shared with them or their role is too low
+ */
+export async function requireItineraryRole(
+	locals: App.Locals,
+	id: ItineraryId,
+	required: CollaboratorRole,
+	action: string
+): Promise<AuthorizedItinerary & { userEmail: string }> {
+	const denied = `Access denied: You do not have permission to ${action} this itinerary`;
+
+	if (!locals.userEmail) {
+		throw error(403, { message: denied });
+	}
+
+	const result = await locals.services.collaborationService.authorize(
+		id,
+		locals.userEmail,
+		required
+	);
+
+	if (!result.success) {
+		if (result.error.code === 'FORBIDDEN') {
+			throw error(403, { message: `${denied} (${result.error.message})` });
+		}
+		if (result.error.code === 'NOT_FOUND') {
+			throw error(403, { message: denied });
+		}
+		throw error(500, { message: `Failed to check access: ${result.error.message}` });
+	}
+
+	return { ...result.value, userEmail: locals.userEmail };
+}
+
+/**
+ * Require the current user to hold at least a role on a chat session's itinerary
+ * Help sessions without an itinerary, and unknown sessions (reported by the
+ * route itself), pass through.
+ * @param locals - Request locals (services and signed-in user)
+ * @param tripDesignerService - Service holding the session
+ * @param sessionId - Chat session ID
+ * @param required - Minimum role the route needs
+ * @param action - Verb for the error message (e.g. "view", "update")
+ * @returns Whether the user can only view the session's itinerary
+ * @throws 403 if the user lacks the role
+ */
+export async function requireSessionRole(
+	locals: App.Locals,
+	tripDesignerService: TripDesignerService,
+	sessionId: SessionId,
+	required: CollaboratorRole,
+	action: string
+): Promise<{ readOnly: boolean }> {
+	const sessionResult = await tripDesignerService.getSession(sessionId);
+	if (!sessionResult.success || !sessionResult.value.itineraryId) {
+		return { readOnly: false };
+	}
+
+	const { role } = await requireItineraryRole(
+		locals,
+		sessionResult.value.itineraryId,
+		required,
+		action
+	);
+	return { readOnly: role === 'viewer' };
+}
@@ -0,0 +1,44 @@
+/**
+ * Optimistic locking helpers for itinerary write routes
+ *
+ * Mirrors the Express helpers: clients send the itinerary version their change is
+ * based on in an `If-Match` header, and stale writes get 409 with the current version.
+ */
+
+import { error, json } from '@sveltejs/kit';
+import type { VersionConflictError } from '../../../../src/core/errors.js';
+import { parseIfMatch } from '../../../../src/server/optimistic-locking.js';
+
+export { isVersionConflictError } from '../../../../src/core/errors.js';
+
+/**
+ * Read the expected itinerary version from a request's If-Match header
+ * @param request - Incoming request
+ * @returns The expected version, or undefined if any version matches
+ * @throws 400 if the header is malformed
+ */
+export function getExpectedVersion(request: Request): number | undefined {
+  const expectedVersion = parseIfMatch(request.headers.get('If-Match'));
+  if (expectedVersion === null) {
+    throw error(400, {
+      message: 'Invalid If-Match header: If-Match must be an itinerary version number',
+    });
+  }
+  return expectedVersion;
+}
+
+/**
+ * Build the 409 response for a write based on a stale itinerary version
+ * @param conflict - Version conflict from the storage layer
+ */
+export function versionConflict(conflict: VersionConflictError): Response {
+  return json(
+    {
+      error: 'Version conflict',
+      message: conflict.message,
+      expectedVersion: conflict.expectedVersion,
+      currentVersion: conflict.currentVersion,
+    },
+    { status: 409 }
+  );
+}
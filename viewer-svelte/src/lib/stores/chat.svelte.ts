@@ -109,6 +109,8 @@ class ChatStore {
           role: 'assistant',
           content: cleanMessageContent(response.message),
           timestamp: new Date(),
+          messageIndex: response.messageIndex,
+          changeset: response.changeset,
         },
       ]);
 
@@ -257,6 +259,8 @@ class ChatStore {
                   role: 'assistant',
                   content: messageContent,
                   timestamp: new Date(),
+                  messageIndex: event.messageIndex,
+                  changeset: event.changeset,
                 },
               ]);
             }
@@ -423,6 +427,8 @@ class ChatStore {
                   role: 'assistant',
                   content: messageContent,
                   timestamp: new Date(),
+                  messageIndex: event.messageIndex,
+                  changeset: event.changeset,
                 },
               ]);
             }
@@ -468,6 +474,49 @@ class ChatStore {
     }
   }
 
+  /**
+   * Undo the itinerary changes made by an assistant message
+   * @param messageIndex - Server-side index of the assistant message
+   * @returns True if the changes were undone
+   */
+  async undoMessage(messageIndex: number): Promise<boolean> {
+    const sessionId = get(this.sessionId);
+
+    if (!sessionId) {
+      this.error.set('No active chat session');
+      return false;
+    }
+
+    const target = get(this.messages).find((m) => m.messageIndex === messageIndex);
+    if (!target?.changeset) {
+      return false;
+    }
+
+    this.error.set(null);
+
+    try {
+      const result = await apiClient.undoChatMessage(
+        sessionId,
+        messageIndex,
+        target.changeset.headRevision
+      );
+
+      this.messages.update((messages) =>
+        messages.map((m) =>
+          m.messageIndex === messageIndex ? { ...m, changeset: result.changeset } : m
+        )
+      );
+
+      // Trigger an itinerary reload in the chat panel
+      this.itineraryUpdated.set(true);
+      return true;
+    } catch (error) {
+      console.error('Failed to undo message:', error);
+      this.error.set(error instanceof Error ? error.message : 'Failed to undo changes');
+      return false;
+    }
+  }
+
   /**
    * Delete a session on the backend
    * @param sessionId - Session ID to delete
@@ -557,6 +606,10 @@ export async function sendContextMessage(message: string): Promise<void> {
   await chatStore.sendContextMessage(message);
 }
 
+export async function undoChatMessage(messageIndex: number): Promise<boolean> {
+  return await chatStore.undoMessage(messageIndex);
+}
+
 export async function resetChat(deleteBackendSession = false): Promise<void> {
   await chatStore.reset(deleteBackendSession);
 }
@@ -10,7 +10,7 @@
 
 import { writable, derived, get } from 'svelte/store';
 import type { Itinerary, ItineraryListItem, ModelConfig, Segment } from '../types';
-import { apiClient } from '../api';
+import { apiClient, VersionConflictError } from '../api';
 import { eventBus } from './events';
 
 /**
@@ -120,7 +120,7 @@ class ItinerariesStore {
    * @param data - Update data
    */
   async update(id: string, data: UpdateItineraryData): Promise<void> {
-    await apiClient.updateItinerary(id, data);
+    await this.withConflictRefresh(() => apiClient.updateItinerary(id, data, this.baseFor(id)));
     // Reload the list to reflect updates
     await this.loadAll();
     // Refresh selected if it was updated
@@ -150,7 +150,9 @@ class ItinerariesStore {
    * @param segmentData - Segment data to add
    */
   async addSegment(itineraryId: string, segmentData: Partial<Segment>): Promise<void> {
-    const updatedItinerary = await apiClient.addSegment(itineraryId, segmentData);
+    const updatedItinerary = await this.withConflictRefresh(() =>
+      apiClient.addSegment(itineraryId, segmentData, this.baseFor(itineraryId))
+    );
     // Update the selected itinerary if it matches
     if (get(selectedItineraryId) === itineraryId) {
       selectedItinerary.set(updatedItinerary);
@@ -170,7 +172,9 @@ class ItinerariesStore {
     segmentId: string,
     segmentData: Partial<Segment>
   ): Promise<void> {
-    const updatedItinerary = await apiClient.updateSegment(itineraryId, segmentId, segmentData);
+    const updatedItinerary = await this.withConflictRefresh(() =>
+      apiClient.updateSegment(itineraryId, segmentId, segmentData, this.baseFor(itineraryId))
+    );
     // Update the selected itinerary if it matches
     if (get(selectedItineraryId) === itineraryId) {
       selectedItinerary.set(updatedItinerary);
@@ -185,7 +189,9 @@ class ItinerariesStore {
    * @param segmentId - Segment ID to delete
    */
   async deleteSegment(itineraryId: string, segmentId: string): Promise<void> {
-    const updatedItinerary = await apiClient.deleteSegment(itineraryId, segmentId);
+    const updatedItinerary = await this.withConflictRefresh(() =>
+      apiClient.deleteSegment(itineraryId, segmentId, this.baseFor(itineraryId))
+    );
     // Update the selected itinerary if it matches
     if (get(selectedItineraryId) === itineraryId) {
       selectedItinerary.set(updatedItinerary);
@@ -194,6 +200,31 @@ class ItinerariesStore {
     await this.loadAll();
   }
 
+  /**
+   * Get the selected itinerary as the base version for a write, if it is the one being changed
+   * @param id - Itinerary ID being changed
+   */
+  private baseFor(id: string): Itinerary | undefined {
+    const selected = get(selectedItinerary);
+    return selected?.id === id ? selected : undefined;
+  }
+
+  /**
+   * Run a versioned write; if it conflicts with a change made elsewhere,
+   * show the latest itinerary before rethrowing so the user can redo their edit
+   * @param write - Write to run
+   */
+  private async withConflictRefresh<T>(write: () => Promise<T>): Promise<T> {
+    try {
+      return await write();
+    } catch (error) {
+      if (error instanceof VersionConflictError && error.latest) {
+        selectedItinerary.set(error.latest);
+      }
+      throw error;
+    }
+  }
+
   /**
    * Load available import models
    */
@@ -13,7 +13,7 @@ export interface Location {
   };
 }
 
-export type SegmentType = 'FLIGHT' | 'HOTEL' | 'MEETING' | 'ACTIVITY' | 'TRANSFER' | 'CUSTOM';
+export type SegmentType = 'FLIGHT' | 'HOTEL' | 'MEETING' | 'ACTIVITY' | 'TRANSFER' | 'RAIL' | 'CAR_RENTAL' | 'CUSTOM';
 export type SegmentSource = 'import' | 'agent' | 'manual';
 export type SegmentStatus = 'TENTATIVE' | 'CONFIRMED' | 'WAITLISTED' | 'CANCELLED' | 'COMPLETED';
 
@@ -30,6 +30,11 @@ export interface BaseSegment {
     mode?: string;
     confidence?: number;
     timestamp?: string;
+    emailParts?: Array<{
+      kind: 'body' | 'attachment';
+      filename?: string;
+      contentType?: string;
+    }>;
   };
   notes?: string;
   metadata?: Record<string, unknown>;
@@ -74,13 +79,46 @@ export interface TransferSegment extends BaseSegment {
   dropoffLocation: Location;
 }
 
+export interface RailSegment extends BaseSegment {
+  type: 'RAIL';
+  operator: {
+    name: string;
+    code?: string;
+  };
+  trainNumber: string;
+  origin: Location;
+  destination: Location;
+  departurePlatform?: string;
+  arrivalPlatform?: string;
+  coach?: string;
+  seatAssignments?: Record<string, string>;
+  fareClass?: string;
+}
+
+export interface CarRentalSegment extends BaseSegment {
+  type: 'CAR_RENTAL';
+  rentalCompany: {
+    name: string;
+    code?: string;
+  };
+  pickupLocation: Location;
+  returnLocation: Location;
+  carClass?: string;
+  vehicleDescription?: string;
+  primaryDriver?: string;
+  additionalDrivers?: string[];
+  insurance?: string[];
+  includedMileage?: string;
+  fuelPolicy?: string;
+}
+
 export interface CustomSegment extends BaseSegment {
   type: 'CUSTOM';
   title: string;
   description?: string;
 }
 
-export type Segment = FlightSegment | HotelSegment | ActivitySegment | TransferSegment | CustomSegment;
+export type Segment = FlightSegment | HotelSegment | ActivitySegment | TransferSegment | RailSegment | CarRentalSegment | CustomSegment;
 
 export interface Traveler {
   id: string;
@@ -111,6 +149,8 @@ export interface TripTravelerPreferences {
 
 export interface Itinerary {
   id: string;
+  /** Incremented on every save; sent back as If-Match to detect concurrent edits */
+  version?: number;
   title: string;
   description?: string;
   startDate?: string;
@@ -126,6 +166,16 @@ export interface Itinerary {
   updatedAt: string;
 }
 
+/**
+ * Subscribable calendar feed (path is relative to the API origin)
+ */
+export interface CalendarFeed {
+  token: string;
+  scope: 'itinerary' | 'user';
+  createdAt: string;
+  path: string;
+}
+
 export interface ItineraryListItem {
   id: string;
   title: string;
@@ -170,6 +220,26 @@ export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  /** Index of the message in the server-side session (assistant messages only) */
+  messageIndex?: number;
+  /** Undoable itinerary changes made during this turn */
+  changeset?: MessageChangeset;
+}
+
+/** Itinerary revisions produced by the tool calls of a single chat turn */
+export interface MessageChangeset {
+  itineraryId: string;
+  baseRevision: number;
+  headRevision: number;
+  tools: string[];
+  undoneAt?: string;
+  undoRevision?: number;
+}
+
+export interface MessageUndoResult {
+  messageIndex: number;
+  changeset: MessageChangeset;
+  itinerary: Itinerary;
 }
 
 export interface QuestionOption {
@@ -204,6 +274,8 @@ export interface AgentResponse {
   structuredQuestions?: StructuredQuestion[];
   itineraryUpdated?: boolean;
   segmentsModified?: string[];
+  messageIndex?: number;
+  changeset?: MessageChangeset;
 }
 
 // Token usage data
@@ -227,5 +299,5 @@ export type ChatStreamEvent =
   | { type: 'tool_call'; name: string; arguments: Record<string, unknown> }
   | { type: 'tool_result'; name: string; result: unknown; success: boolean }
   | { type: 'structured_questions'; questions: StructuredQuestion[] }
-  | { type: 'done'; itineraryUpdated: boolean; segmentsModified?: string[]; tokens?: TokenUsage; cost?: CostData }
+  | { type: 'done'; itineraryUpdated: boolean; segmentsModified?: string[]; tokens?: TokenUsage; cost?: CostData; messageIndex?: number; changeset?: MessageChangeset }
   | { type: 'error'; message: string; retryable?: boolean };
@@ -1,5 +1,6 @@
 /**
  * Trip Designer - Sessions routes
+ * GET /api/v1/designer/sessions?itineraryId=... - List chat sessions for an itinerary
  * POST /api/v1/designer/sessions - Create new chat session
  */
 
@@ -7,6 +8,46 @@ import { json, error } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import type { ItineraryId } from '$domain/types/branded.js';
 import { createTripDesignerWithKey } from '$hooks/hooks.server.js';
+import { requireItineraryRole } from '$lib/server/itinerary-access.js';
+
+/**
+ * GET /api/v1/designer/sessions?itineraryId=...
+ * List the chat sessions of an itinerary shared with the current user, most recently active first
+ * Response: { sessions: SessionSummary[] }
+ * Headers: X-OpenRouter-API-Key (optional, overrides env var)
+ */
+export const GET: RequestHandler = async ({ request, url, locals }) => {
+	const headerApiKey = request.headers.get('X-OpenRouter-API-Key');
+	let tripDesignerService = locals.services.tripDesignerService;
+	if (headerApiKey) {
+		tripDesignerService = await createTripDesignerWithKey(headerApiKey, locals.services);
+	}
+
+	if (!tripDesignerService) {
+		throw error(503, {
+			message: 'Trip Designer disabled: No API key provided. Set your OpenRouter API key in Profile settings.'
+		});
+	}
+
+	const itineraryId = url.searchParams.get('itineraryId');
+	if (!itineraryId) {
+		throw error(400, {
+			message: 'Missing itineraryId: itineraryId query parameter is required'
+		});
+	}
+
+	// Everyone the itinerary is shared with may see its conversations
+	await requireItineraryRole(locals, itineraryId as ItineraryId, 'viewer', 'view');
+
+	const listResult = await tripDesignerService.listSessions(itineraryId as ItineraryId);
+	if (!listResult.success) {
+		throw error(500, {
+			message: 'Failed to list sessions: ' + listResult.error.message
+		});
+	}
+
+	return json({ sessions: listResult.value });
+};
 
 /**
  * POST /api/v1/designer/sessions
@@ -58,6 +99,9 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 				message: `Itinerary not found: No itinerary found with id: ${itineraryId}`
 			});
 		}
+
+		// Viewers can chat about a shared itinerary too; tool calls that change it are refused
+		await requireItineraryRole(locals, itineraryId as ItineraryId, 'viewer', 'view');
 	}
 
 	// Create session with mode
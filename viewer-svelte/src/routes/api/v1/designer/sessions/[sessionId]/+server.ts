@@ -9,6 +9,7 @@ import { json, error } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import type { SessionId } from '$domain/types/branded.js';
 import { createTripDesignerWithKey } from '$hooks/hooks.server.js';
+import { requireItineraryRole, requireSessionRole } from '$lib/server/itinerary-access.js';
 
 /**
  * GET /api/v1/designer/sessions/:sessionId
@@ -41,6 +42,11 @@ export const GET: RequestHandler = async ({ params, request, locals }) => {
 		});
 	}
 
+	// Everyone the itinerary is shared with may read its conversations
+	if (sessionResult.value.itineraryId) {
+		await requireItineraryRole(locals, sessionResult.value.itineraryId, 'viewer', 'view');
+	}
+
 	return json(sessionResult.value);
 };
 
@@ -67,6 +73,9 @@ export const DELETE: RequestHandler = async ({ params, request, locals }) => {
 
 	const sessionId = params.sessionId as SessionId;
 
+	// Viewers may not discard conversations about a shared itinerary
+	await requireSessionRole(locals, tripDesignerService, sessionId, 'editor', 'update');
+
 	// Delete the session
 	const deleteResult = await tripDesignerService.deleteSession(sessionId);
 
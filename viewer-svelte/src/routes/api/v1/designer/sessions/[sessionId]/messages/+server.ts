@@ -10,6 +10,7 @@ import { json, error } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import type { SessionId } from '$domain/types/branded.js';
 import { createTripDesignerWithKey } from '$hooks/hooks.server.js';
+import { requireSessionRole } from '$lib/server/itinerary-access.js';
 
 /**
  * POST /api/v1/designer/sessions/:sessionId/messages
@@ -40,6 +41,9 @@ export const POST: RequestHandler = async ({ params, request, locals }) => {
 
 	const sessionId = params.sessionId as SessionId;
 
+	// Viewers can chat, but the assistant won't change the itinerary for them
+	const access = await requireSessionRole(locals, tripDesignerService, sessionId, 'viewer', 'view');
+
 	const body = await request.json();
 	const { message } = body;
 
@@ -50,7 +54,7 @@ export const POST: RequestHandler = async ({ params, request, locals }) => {
 	}
 
 	// Send message and get response
-	const chatResult = await tripDesignerService.chat(sessionId, message);
+	const chatResult = await tripDesignerService.chat(sessionId, message, access);
 
 	if (!chatResult.success) {
 		const err = chatResult.error;
@@ -0,0 +1,110 @@
+/**
+ * Trip Designer - Message undo route
+ * POST /api/v1/designer/sessions/:sessionId/messages/:index/undo
+ * Body: { headRevision?: number } (head revision of the message's changeset, if known)
+ * Response: MessageUndoResult
+ * Headers: X-OpenRouter-API-Key (optional, overrides env var)
+ */
+
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import type { SessionId } from '$domain/types/branded.js';
+import { createTripDesignerWithKey } from '$hooks/hooks.server.js';
+import { requireSessionRole } from '$lib/server/itinerary-access.js';
+
+/**
+ * POST /api/v1/designer/sessions/:sessionId/messages/:index/undo
+ * Undo the itinerary changes made by a chat turn
+ */
+export const POST: RequestHandler = async ({ params, request, locals }) => {
+	// Get API key from header or use cached service
+	const headerApiKey = request.headers.get('X-OpenRouter-API-Key');
+	let tripDesignerService = locals.services.tripDesignerService;
+
+	// Validate API key from header (reject empty/whitespace keys)
+	if (headerApiKey !== null && headerApiKey.trim() === '') {
+		throw error(400, {
+			message: 'Invalid API key: API key cannot be empty. Please add your OpenRouter API key in Profile settings.'
+		});
+	}
+
+	// Create on-demand service if header key provided
+	if (headerApiKey) {
+		tripDesignerService = await createTripDesignerWithKey(headerApiKey, locals.services);
+	}
+
+	if (!tripDesignerService) {
+		throw error(503, {
+			message: 'Trip Designer disabled: No API key provided. Set your OpenRouter API key in Profile settings.'
+		});
+	}
+
+	const sessionId = params.sessionId as SessionId;
+	const messageIndex = Number(params.index);
+
+	if (!Number.isInteger(messageIndex) || messageIndex < 0) {
+		throw error(400, {
+			message: 'Invalid message index: index must be a non-negative integer'
+		});
+	}
+
+	// Body is optional
+	const body = await request.json().catch(() => ({}));
+	const { headRevision } = body as { headRevision?: unknown };
+
+	if (headRevision !== undefined && !Number.isInteger(headRevision)) {
+		throw error(400, {
+			message: 'Invalid head revision: headRevision must be an integer'
+		});
+	}
+
+	// Undoing reverts the itinerary, so editors and up only
+	await requireSessionRole(locals, tripDesignerService, sessionId, 'editor', 'update');
+
+	const undoResult = await tripDesignerService.undoMessage(
+		sessionId,
+		messageIndex,
+		headRevision as number | undefined
+	);
+
+	if (!undoResult.success) {
+		const err = undoResult.error;
+
+		if (err.type === 'session_not_found') {
+			throw error(404, {
+				message: `Session not found: No session found with id: ${sessionId}`
+			});
+		}
+
+		if (err.type === 'message_not_found') {
+			throw error(404, {
+				message: `Message not found: No undoable message at index ${messageIndex}`
+			});
+		}
+
+		if (err.type === 'itinerary_not_found') {
+			throw error(404, {
+				message: `Itinerary not found: No itinerary found with id: ${err.itineraryId}`
+			});
+		}
+
+		if (err.type === 'undo_conflict') {
+			throw error(409, {
+				message: 'Undo conflict: ' + err.reason
+			});
+		}
+
+		if (err.type === 'undo_unavailable') {
+			throw error(400, {
+				message: 'Undo unavailable: ' + err.reason
+			});
+		}
+
+		// Generic error
+		throw error(500, {
+			message: 'Undo failed: ' + JSON.stringify(err)
+		});
+	}
+
+	return json(undoResult.value);
+};
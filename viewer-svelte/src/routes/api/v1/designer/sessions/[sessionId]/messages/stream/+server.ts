@@ -10,6 +10,7 @@ import { error } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import type { SessionId } from '$domain/types/branded.js';
 import { createTripDesignerWithKey } from '$hooks/hooks.server.js';
+import { requireSessionRole } from '$lib/server/itinerary-access.js';
 
 /**
  * POST /api/v1/designer/sessions/:sessionId/messages/stream
@@ -40,6 +41,9 @@ export const POST: RequestHandler = async ({ params, request, locals }) => {
 
 	const sessionId = params.sessionId as SessionId;
 
+	// Viewers can chat, but the assistant won't change the itinerary for them
+	const access = await requireSessionRole(locals, tripDesignerService, sessionId, 'viewer', 'view');
+
 	const body = await request.json();
 	const { message } = body;
 
@@ -65,7 +69,7 @@ export const POST: RequestHandler = async ({ params, request, locals }) => {
 				writeEvent('connected', { status: 'connected' });
 
 				// Stream the chat response
-				for await (const event of tripDesignerService.chatStream(sessionId, message)) {
+				for await (const event of tripDesignerService.chatStream(sessionId, message, access)) {
 					// Map StreamEvent to SSE format
 					switch (event.type) {
 						case 'text':
@@ -93,7 +97,9 @@ export const POST: RequestHandler = async ({ params, request, locals }) => {
 								itineraryUpdated: event.itineraryUpdated,
 								segmentsModified: event.segmentsModified || [],
 								tokens: event.tokens,
-								cost: event.cost
+								cost: event.cost,
+								messageIndex: event.messageIndex,
+								changeset: event.changeset
 							});
 							break;
 
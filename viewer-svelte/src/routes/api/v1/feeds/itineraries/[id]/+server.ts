@@ -0,0 +1,51 @@
+/**
+ * Itinerary calendar feed routes
+ * GET  /api/v1/feeds/itineraries/:id - List the itinerary's active feeds
+ * POST /api/v1/feeds/itineraries/:id - Issue a new feed token
+ */
+
+import type { ItineraryId } from '$domain/types/branded.js';
+import { requireItineraryRole } from '$lib/server/itinerary-access.js';
+import { error, json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+/**
+ * GET /api/v1/feeds/itineraries/:id
+ * List the active feeds of an itinerary
+ */
+export const GET: RequestHandler = async ({ params, locals }) => {
+  const { calendarFeedService } = locals.services;
+  const id = params.id as ItineraryId;
+
+  await requireItineraryRole(locals, id, 'owner', 'share');
+
+  const result = await calendarFeedService.listItineraryFeeds(id);
+  if (!result.success) {
+    throw error(404, {
+      message: `Itinerary not found: ${result.error.message}`,
+    });
+  }
+
+  return json(result.value);
+};
+
+/**
+ * POST /api/v1/feeds/itineraries/:id
+ * Issue a feed token; the response path is subscribable as a webcal:// URL
+ */
+export const POST: RequestHandler = async ({ params, locals }) => {
+  const { calendarFeedService } = locals.services;
+  const id = params.id as ItineraryId;
+
+  await requireItineraryRole(locals, id, 'owner', 'share');
+
+  const result = await calendarFeedService.createItineraryFeed(id);
+  if (!result.success) {
+    const statusCode = result.error.code === 'NOT_FOUND' ? 404 : 500;
+    throw error(statusCode, {
+      message: `Failed to create calendar feed: ${result.error.message}`,
+    });
+  }
+
+  return json(result.value, { status: 201 });
+};
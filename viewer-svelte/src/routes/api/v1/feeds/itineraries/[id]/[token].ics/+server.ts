@@ -0,0 +1,35 @@
+/**
+ * Itinerary calendar feed
+ * GET /api/v1/feeds/itineraries/:id/:token.ics - Subscribable calendar of one itinerary
+ *
+ * Public route: calendar apps cannot log in, so the token authorizes the request.
+ */
+
+import type { ItineraryId } from '$domain/types/branded.js';
+import { error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+/**
+ * GET /api/v1/feeds/itineraries/:id/:token.ics
+ * Regenerated from current storage on every request
+ */
+export const GET: RequestHandler = async ({ params, locals }) => {
+  const { calendarFeedService } = locals.services;
+
+  const result = await calendarFeedService.renderItineraryFeed(
+    params.id as ItineraryId,
+    params.token
+  );
+  if (!result.success) {
+    throw error(404, {
+      message: 'Calendar feed not found',
+    });
+  }
+
+  return new Response(result.value, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Cache-Control': 'no-cache',
+    },
+  });
+};
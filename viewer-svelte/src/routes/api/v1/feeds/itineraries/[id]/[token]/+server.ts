@@ -0,0 +1,30 @@
+/**
+ * Itinerary calendar feed token route
+ * DELETE /api/v1/feeds/itineraries/:id/:token - Revoke a feed token
+ */
+
+import type { ItineraryId } from '$domain/types/branded.js';
+import { requireItineraryRole } from '$lib/server/itinerary-access.js';
+import { error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+/**
+ * DELETE /api/v1/feeds/itineraries/:id/:token
+ * Revoke a feed token; subscribed calendars stop updating
+ */
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+  const { calendarFeedService } = locals.services;
+  const id = params.id as ItineraryId;
+
+  await requireItineraryRole(locals, id, 'owner', 'share');
+
+  const result = await calendarFeedService.revokeItineraryFeed(id, params.token);
+  if (!result.success) {
+    const statusCode = result.error.code === 'NOT_FOUND' ? 404 : 500;
+    throw error(statusCode, {
+      message: `Failed to revoke calendar feed: ${result.error.message}`,
+    });
+  }
+
+  return new Response(null, { status: 204 });
+};
@@ -0,0 +1,57 @@
+/**
+ * User calendar feed routes
+ * GET  /api/v1/feeds/users - List the current user's aggregated feeds
+ * POST /api/v1/feeds/users - Issue a feed token covering all of the user's itineraries
+ */
+
+import { error, json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+/**
+ * GET /api/v1/feeds/users
+ * List the current user's aggregated feeds
+ */
+export const GET: RequestHandler = async ({ locals }) => {
+  const { calendarFeedService } = locals.services;
+  const { userEmail } = locals;
+
+  if (!userEmail) {
+    throw error(401, {
+      message: 'Not logged in: A user email is required to manage calendar feeds',
+    });
+  }
+
+  const result = await calendarFeedService.listUserFeeds(userEmail);
+  if (!result.success) {
+    throw error(500, {
+      message: `Failed to list calendar feeds: ${result.error.message}`,
+    });
+  }
+
+  return json(result.value);
+};
+
+/**
+ * POST /api/v1/feeds/users
+ * Issue an aggregated feed token; the response path is subscribable as a webcal:// URL
+ */
+export const POST: RequestHandler = async ({ locals }) => {
+  const { calendarFeedService } = locals.services;
+  const { userEmail } = locals;
+
+  if (!userEmail) {
+    throw error(401, {
+      message: 'Not logged in: A user email is required to manage calendar feeds',
+    });
+  }
+
+  const result = await calendarFeedService.createUserFeed(userEmail);
+  if (!result.success) {
+    const statusCode = result.error.code === 'NOT_FOUND' ? 404 : 500;
+    throw error(statusCode, {
+      message: `Failed to create calendar feed: ${result.error.message}`,
+    });
+  }
+
+  return json(result.value, { status: 201 });
+};
@@ -0,0 +1,31 @@
+/**
+ * User calendar feed
+ * GET /api/v1/feeds/users/:email/:token.ics - Subscribable calendar of all of a user's itineraries
+ *
+ * Public route: calendar apps cannot log in, so the token authorizes the request.
+ */
+
+import { error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+/**
+ * GET /api/v1/feeds/users/:email/:token.ics
+ * Regenerated from current storage on every request
+ */
+export const GET: RequestHandler = async ({ params, locals }) => {
+  const { calendarFeedService } = locals.services;
+
+  const result = await calendarFeedService.renderUserFeed(params.email, params.token);
+  if (!result.success) {
+    throw error(404, {
+      message: 'Calendar feed not found',
+    });
+  }
+
+  return new Response(result.value, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Cache-Control': 'no-cache',
+    },
+  });
+};
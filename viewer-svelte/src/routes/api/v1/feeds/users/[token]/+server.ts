@@ -0,0 +1,32 @@
+/**
+ * User calendar feed token route
+ * DELETE /api/v1/feeds/users/:token - Revoke one of the current user's feed tokens
+ */
+
+import { error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+/**
+ * DELETE /api/v1/feeds/users/:token
+ * Revoke an aggregated feed token; subscribed calendars stop updating
+ */
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+  const { calendarFeedService } = locals.services;
+  const { userEmail } = locals;
+
+  if (!userEmail) {
+    throw error(401, {
+      message: 'Not logged in: A user email is required to manage calendar feeds',
+    });
+  }
+
+  const result = await calendarFeedService.revokeUserFeed(userEmail, params.token);
+  if (!result.success) {
+    const statusCode = result.error.code === 'NOT_FOUND' ? 404 : 500;
+    throw error(statusCode, {
+      message: `Failed to revoke calendar feed: ${result.error.message}`,
+    });
+  }
+
+  return new Response(null, { status: 204 });
+};
@@ -6,7 +6,9 @@
 import { json, error } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { ImportService } from '$services/import/index.js';
+import type { ImportAttachment } from '$services/import/index.js';
 import { generateSegmentId } from '$domain/types/branded.js';
+import { getItineraryRole, hasRole } from '$domain/utils/collaborators.js';
 
 /**
  * Inbound.new webhook payload structure
@@ -41,6 +43,42 @@ interface InboundWebhookPayload {
   };
 }
 
+/** Attachments larger than this are not downloaded */
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Download the email's attachments for extraction
+ * Inline images are skipped; failed downloads are logged and left out.
+ */
+async function fetchAttachments(
+  attachments: InboundWebhookPayload['email']['parsedData']['attachments']
+): Promise<ImportAttachment[]> {
+  const downloaded: ImportAttachment[] = [];
+
+  for (const attachment of attachments ?? []) {
+    if (attachment.contentType.startsWith('image/') || attachment.size > MAX_ATTACHMENT_BYTES) {
+      continue;
+    }
+
+    try {
+      const response = await fetch(attachment.url);
+      if (!response.ok) {
+        console.error('[POST /import/email] Attachment download failed:', attachment.filename, response.status);
+        continue;
+      }
+      downloaded.push({
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        content: Buffer.from(await response.arrayBuffer()),
+      });
+    } catch (err) {
+      console.error('[POST /import/email] Attachment download failed:', attachment.filename, err);
+    }
+  }
+
+  return downloaded;
+}
+
 /**
  * POST /api/v1/import/email
  * Webhook endpoint for inbound.new email service
@@ -48,7 +86,7 @@ interface InboundWebhookPayload {
  * Flow:
  * 1. Validate webhook signature/API key
  * 2. Extract sender email to find matching user
- * 3. Pass email to LLM for booking extraction
+ * 3. Extract bookings from the email body and attachments (PDF, ICS, pkpass)
  * 4. Find or create itinerary for user
  * 5. Add extracted segments to itinerary
  * 6. Return 200 OK to inbound.new
@@ -112,13 +150,15 @@ export const POST: RequestHandler = async ({ request, locals }) => {
     // Use HTML body for better Schema.org extraction, fallback to text
     const emailContent = payload.email.parsedData.htmlBody || payload.email.parsedData.textBody;
 
+    const attachments = await fetchAttachments(payload.email.parsedData.attachments);
+
     // Extract bookings from email
-    console.log('[POST /import/email] Extracting bookings...');
+    console.log('[POST /import/email] Extracting bookings...', { attachments: attachments.length });
     const extractionResult = await importService.importFromEmail(emailContent, {
       fromEmail: payload.email.parsedData.from.address,
       subject: payload.email.parsedData.subject,
       receivedAt: payload.email.parsedData.date,
-    });
+    }, attachments);
 
     if (!extractionResult.success) {
       console.error('[POST /import/email] Extraction failed:', extractionResult.errors);
@@ -159,7 +199,10 @@ export const POST: RequestHandler = async ({ request, locals }) => {
     }
 
     let itineraryId;
-    const itineraries = listResult.value;
+    // Trips shared read-only with the sender can't receive imported bookings
+    const itineraries = listResult.value.filter((summary) =>
+      hasRole(getItineraryRole(summary, senderEmail), 'editor')
+    );
 
     if (itineraries.length === 0) {
       // Create new itinerary for user
@@ -206,7 +249,10 @@ export const POST: RequestHandler = async ({ request, locals }) => {
         travelerIds: [], // Empty initially - user can assign later
       };
 
-      const addResult = await segmentService.add(itineraryId, segmentWithId);
+      const addResult = await segmentService.add(itineraryId, segmentWithId, {
+        author: 'import',
+        cause: 'Segment imported from email',
+      });
 
       if (addResult.success) {
         addedSegments.push(segmentWithId.id);
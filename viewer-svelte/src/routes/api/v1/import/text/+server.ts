@@ -81,7 +81,10 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 					travelerIds: [],
 				};
 
-				const addResult = await segmentService.add(itineraryId, segmentWithId);
+				const addResult = await segmentService.add(itineraryId, segmentWithId, {
+					author: 'import',
+					cause: 'Segment imported from text',
+				});
 				if (addResult.success) {
 					addedSegments.push(segmentWithId.id);
 				}
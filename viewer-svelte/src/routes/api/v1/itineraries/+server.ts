@@ -1,19 +1,25 @@
 /**
  * Itinerary collection routes
- * GET /api/v1/itineraries - List all itineraries (filtered by user)
+ * GET /api/v1/itineraries - Search itineraries (owned by or shared with the user)
  * POST /api/v1/itineraries - Create new itinerary (with user ownership)
  */
 
 import { json, error } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { itineraryCreateSchema } from '$domain/schemas/itinerary.schema.js';
+import { itineraryQueryParamsSchema } from '$domain/schemas/itinerary-query.schema.js';
+import { getItineraryRole } from '$domain/utils/collaborators.js';
 
 /**
  * GET /api/v1/itineraries
- * List itineraries for the current user (filtered by createdBy)
+ * List itineraries the current user created or that are shared with them;
+ * each item carries the user's `role` on it
+ * Query: status, from, to, destination, traveler, tag, tripType, segmentType,
+ * segmentStatus, unconfirmed, q, sortBy, sortOrder, limit, offset
+ * The total match count (before limit/offset) is sent in the X-Total-Count header
  */
-export const GET: RequestHandler = async ({ locals }) => {
-	const { storage } = locals.services;
+export const GET: RequestHandler = async ({ locals, url }) => {
+	const { collectionService } = locals.services;
 	const { userEmail } = locals;
 
 	console.log('[GET /itineraries] userEmail:', userEmail);
@@ -24,9 +30,27 @@ export const GET: RequestHandler = async ({ locals }) => {
 		return json([]);
 	}
 
-	// Use the storage layer's listByUser method for efficient filtering
-	console.log('[GET /itineraries] Calling listByUser with:', userEmail);
-	const result = await storage.listByUser(userEmail);
+	// Repeated parameters (tag=a&tag=b) arrive as arrays
+	const params: Record<string, string | string[]> = {};
+	for (const key of new Set(url.searchParams.keys())) {
+		const values = url.searchParams.getAll(key);
+		params[key] = values.length === 1 ? (values[0] ?? '') : values;
+	}
+
+	const validation = itineraryQueryParamsSchema.safeParse(params);
+	if (!validation.success) {
+		const errorMessages = validation.error.errors
+			.map((e) => `${e.path.join('.')}: ${e.message}`)
+			.join('; ');
+		throw error(400, {
+			message: `Invalid query parameters: ${errorMessages}`
+		});
+	}
+
+	const result = await collectionService.queryItineraries({
+		...validation.data,
+		accessibleBy: userEmail
+	});
 
 	if (!result.success) {
 		throw error(500, {
@@ -34,8 +58,20 @@ export const GET: RequestHandler = async ({ locals }) => {
 		});
 	}
 
-	console.log('[GET /itineraries] Returning', result.value.length, 'itineraries');
-	return json(result.value);
+	console.log(
+		'[GET /itineraries] Returning',
+		result.value.items.length,
+		'of',
+		result.value.total,
+		'itineraries'
+	);
+	const items = result.value.items.map((item) => ({
+		...item,
+		role: getItineraryRole(item, userEmail)
+	}));
+	return json(items, {
+		headers: { 'X-Total-Count': String(result.value.total) }
+	});
 };
 
 /**
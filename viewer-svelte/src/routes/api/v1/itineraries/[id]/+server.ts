@@ -1,70 +1,34 @@
 /**
  * Individual itinerary routes
- * GET /api/v1/itineraries/:id - Get itinerary with segments (ownership verified)
- * PATCH /api/v1/itineraries/:id - Update itinerary metadata (ownership verified)
- * DELETE /api/v1/itineraries/:id - Delete itinerary (ownership verified)
+ * GET /api/v1/itineraries/:id - Get itinerary with segments (viewers and up)
+ * PATCH /api/v1/itineraries/:id - Update itinerary metadata (editors and up)
+ * DELETE /api/v1/itineraries/:id - Delete itinerary (owners only)
  */
 
 import { json, error } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import type { ItineraryId } from '$domain/types/branded.js';
-
-/**
- * Verify that the current user owns the itinerary
- * @returns true if user owns itinerary, false otherwise
- */
-async function verifyOwnership(
-	id: ItineraryId,
-	userEmail: string | null,
-	storage: any
-): Promise<boolean> {
-	console.log('[verifyOwnership] Checking ownership:', { id, userEmail });
-
-	if (!userEmail) {
-		console.log('[verifyOwnership] No userEmail provided');
-		return false;
-	}
-
-	const loadResult = await storage.load(id);
-	if (!loadResult.success) {
-		console.log('[verifyOwnership] Failed to load itinerary:', loadResult.error?.message);
-		return false;
-	}
-
-	const itinerary = loadResult.value;
-	const createdBy = itinerary.createdBy?.toLowerCase().trim();
-	const reqUser = userEmail.toLowerCase().trim();
-	const isOwner = createdBy === reqUser;
-
-	console.log('[verifyOwnership] Comparison:', {
-		createdBy,
-		reqUser,
-		isOwner
-	});
-
-	return isOwner;
-}
+import {
+	getExpectedVersion,
+	isVersionConflictError,
+	versionConflict
+} from '$lib/server/optimistic-locking.js';
+import { requireItineraryRole } from '$lib/server/itinerary-access.js';
 
 /**
  * GET /api/v1/itineraries/:id
- * Get full itinerary with segments (ownership verified)
+ * Get full itinerary with segments (viewers and up)
  */
 export const GET: RequestHandler = async ({ params, locals }) => {
-	const { itineraryService, storage } = locals.services;
-	const { userEmail } = locals;
+	const { itineraryService } = locals.services;
 	const id = params.id as ItineraryId;
 
 	if (!id) {
 		throw error(400, { message: 'Missing ID parameter' });
 	}
 
-	// Verify ownership
-	const isOwner = await verifyOwnership(id, userEmail, storage);
-	if (!isOwner) {
-		throw error(403, {
-			message: 'Access denied: You do not have permission to view this itinerary'
-		});
-	}
+	// Verify access
+	await requireItineraryRole(locals, id, 'viewer', 'view');
 
 	// Use itineraryService for full itinerary (with segments)
 	const result = await itineraryService.getItinerary(id);
@@ -80,21 +44,17 @@ export const GET: RequestHandler = async ({ params, locals }) => {
 /**
  * PATCH /api/v1/itineraries/:id
  * Update itinerary metadata (title, description, dates, status, tags)
- * Ownership verified before update
+ * Editors and owners only
+ * Headers: If-Match (optional) - itinerary version the change is based on; 409 if stale
  */
 export const PATCH: RequestHandler = async ({ params, request, locals }) => {
-	const { collectionService, storage } = locals.services;
-	const { userEmail } = locals;
+	const { collectionService } = locals.services;
 	const id = params.id as ItineraryId;
 
-	// Verify ownership
-	const isOwner = await verifyOwnership(id, userEmail, storage);
-	if (!isOwner) {
-		throw error(403, {
-			message: 'Access denied: You do not have permission to update this itinerary'
-		});
-	}
+	// Verify access
+	await requireItineraryRole(locals, id, 'editor', 'update');
 
+	const expectedVersion = getExpectedVersion(request);
 	const body = await request.json();
 	const { title, description, startDate, endDate, status, tripType, tags } = body;
 
@@ -108,9 +68,12 @@ export const PATCH: RequestHandler = async ({ params, request, locals }) => {
 	if (tripType !== undefined) updates.tripType = tripType;
 	if (tags !== undefined) updates.tags = tags;
 
-	const result = await collectionService.updateMetadata(id, updates);
+	const result = await collectionService.updateMetadata(id, updates, expectedVersion);
 
 	if (!result.success) {
+		if (isVersionConflictError(result.error)) {
+			return versionConflict(result.error);
+		}
 		throw error(404, {
 			message: 'Failed to update itinerary: ' + result.error.message
 		});
@@ -121,20 +84,14 @@ export const PATCH: RequestHandler = async ({ params, request, locals }) => {
 
 /**
  * DELETE /api/v1/itineraries/:id
- * Delete itinerary (ownership verified)
+ * Delete itinerary (owners only)
  */
 export const DELETE: RequestHandler = async ({ params, locals }) => {
-	const { collectionService, storage, tripDesignerService } = locals.services;
-	const { userEmail } = locals;
+	const { collectionService, tripDesignerService } = locals.services;
 	const id = params.id as ItineraryId;
 
-	// Verify ownership
-	const isOwner = await verifyOwnership(id, userEmail, storage);
-	if (!isOwner) {
-		throw error(403, {
-			message: 'Access denied: You do not have permission to delete this itinerary'
-		});
-	}
+	// Verify access
+	await requireItineraryRole(locals, id, 'owner', 'delete');
 
 	const result = await collectionService.deleteItinerary(id);
 
@@ -146,7 +103,7 @@ export const DELETE: RequestHandler = async ({ params, locals }) => {
 
 	// Clean up any associated chat sessions to prevent orphaned sessions with stale context
 	if (tripDesignerService) {
-		tripDesignerService.deleteSessionsByItineraryId(id);
+		await tripDesignerService.deleteSessionsByItineraryId(id);
 	}
 
 	return new Response(null, { status: 204 });
@@ -0,0 +1,38 @@
+/**
+ * Budget routes
+ * GET /api/v1/itineraries/:id/budget - Compare spend with the trip budget
+ */
+
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import type { ItineraryId } from '$domain/types/branded.js';
+import { requireItineraryRole } from '$lib/server/itinerary-access.js';
+
+/**
+ * GET /api/v1/itineraries/:id/budget
+ * Actual and projected spend against the budget in the trip preferences
+ */
+export const GET: RequestHandler = async ({ params, locals }) => {
+	const { itineraryService, budgetService } = locals.services;
+	const id = params.id as ItineraryId;
+
+	// Verify access
+	await requireItineraryRole(locals, id, 'viewer', 'view');
+
+	const result = await itineraryService.getItinerary(id);
+	if (!result.success) {
+		throw error(404, {
+			message: 'Itinerary not found: ' + result.error.message
+		});
+	}
+
+	const analysis = await budgetService.analyze(result.value);
+	if (!analysis.success) {
+		const noBudget = analysis.error.code === 'MISSING_FIELD';
+		throw error(noBudget ? 404 : 422, {
+			message: (noBudget ? 'No budget set: ' : 'Failed to analyze budget: ') + analysis.error.message
+		});
+	}
+
+	return json(analysis.value);
+};
@@ -0,0 +1,36 @@
+/**
+ * Calendar export route
+ * GET /api/v1/itineraries/:id/calendar.ics - Export the itinerary as an iCalendar file
+ */
+
+import { error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import type { ItineraryId } from '$domain/types/branded.js';
+import { getCalendarFilename } from '$services/ics-export.service.js';
+import { requireItineraryRole } from '$lib/server/itinerary-access.js';
+
+/**
+ * GET /api/v1/itineraries/:id/calendar.ics
+ * One VEVENT per segment, with stable UIDs so re-imports update existing events
+ */
+export const GET: RequestHandler = async ({ params, locals }) => {
+	const { itineraryService, icsExportService } = locals.services;
+	const id = params.id as ItineraryId;
+
+	// Verify access
+	await requireItineraryRole(locals, id, 'viewer', 'view');
+
+	const result = await itineraryService.getItinerary(id);
+	if (!result.success) {
+		throw error(404, {
+			message: 'Itinerary not found: ' + result.error.message
+		});
+	}
+
+	return new Response(icsExportService.exportItinerary(result.value), {
+		headers: {
+			'Content-Type': 'text/calendar; charset=utf-8',
+			'Content-Disposition': `attachment; filename="${getCalendarFilename(result.value.title)}"`
+		}
+	});
+};
@@ -0,0 +1,47 @@
+/**
+ * Itinerary clone route
+ * POST /api/v1/itineraries/:id/clone - Copy an itinerary onto a new start date
+ */
+
+import { instantiateRequestSchema } from '$domain/schemas/template.schema.js';
+import type { ItineraryId } from '$domain/types/branded.js';
+import { requireItineraryRole } from '$lib/server/itinerary-access.js';
+import { error, json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+/**
+ * POST /api/v1/itineraries/:id/clone
+ * Copy an itinerary onto a new start date; every segment shifts by the same
+ * number of days and the copy is owned by the current user
+ * Body: { startDate, title? }
+ */
+export const POST: RequestHandler = async ({ params, request, locals }) => {
+  const { collectionService } = locals.services;
+  const id = params.id as ItineraryId;
+
+  // Verify access
+  const { userEmail } = await requireItineraryRole(locals, id, 'viewer', 'clone');
+
+  const validation = instantiateRequestSchema.safeParse(await request.json());
+  if (!validation.success) {
+    const errorMessages = validation.error.errors
+      .map((e) => `${e.path.join('.')}: ${e.message}`)
+      .join('; ');
+    throw error(400, {
+      message: `Invalid clone request: ${errorMessages}`,
+    });
+  }
+
+  const result = await collectionService.cloneItinerary(id, {
+    ...validation.data,
+    createdBy: userEmail,
+  });
+
+  if (!result.success) {
+    throw error(500, {
+      message: `Failed to clone itinerary: ${result.error.message}`,
+    });
+  }
+
+  return json(result.value, { status: 201 });
+};
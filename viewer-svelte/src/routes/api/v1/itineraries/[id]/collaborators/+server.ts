@@ -0,0 +1,76 @@
+/**
+ * Itinerary collaborator routes
+ * GET /api/v1/itineraries/:id/collaborators - List everyone with access (viewers and up)
+ * POST /api/v1/itineraries/:id/collaborators - Share by email or change a role (owners only)
+ */
+
+import { collaboratorInviteSchema } from '$domain/schemas/itinerary.schema.js';
+import type { ItineraryId } from '$domain/types/branded.js';
+import { requireItineraryRole } from '$lib/server/itinerary-access.js';
+import { isVersionConflictError, versionConflict } from '$lib/server/optimistic-locking.js';
+import { error, json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+/**
+ * GET /api/v1/itineraries/:id/collaborators
+ * List everyone with access to an itinerary, creator first
+ */
+export const GET: RequestHandler = async ({ params, locals }) => {
+  const { collaborationService } = locals.services;
+  const id = params.id as ItineraryId;
+
+  // Verify access
+  await requireItineraryRole(locals, id, 'viewer', 'view');
+
+  const result = await collaborationService.listCollaborators(id);
+  if (!result.success) {
+    throw error(result.error.code === 'NOT_FOUND' ? 404 : 500, {
+      message: `Failed to list collaborators: ${result.error.message}`,
+    });
+  }
+
+  return json(result.value);
+};
+
+/**
+ * POST /api/v1/itineraries/:id/collaborators
+ * Share an itinerary with a user, or change an existing collaborator's role;
+ * the trip shows up in the invitee's list when they sign in with that email
+ * Body: { email, role: 'owner' | 'editor' | 'viewer' }
+ */
+export const POST: RequestHandler = async ({ params, request, locals }) => {
+  const { collaborationService } = locals.services;
+  const id = params.id as ItineraryId;
+
+  // Verify access
+  const { userEmail } = await requireItineraryRole(locals, id, 'owner', 'share');
+
+  const validation = collaboratorInviteSchema.safeParse(await request.json());
+  if (!validation.success) {
+    const errorMessages = validation.error.errors
+      .map((e) => `${e.path.join('.')}: ${e.message}`)
+      .join('; ');
+    throw error(400, {
+      message: `Invalid invitation: ${errorMessages}`,
+    });
+  }
+
+  const result = await collaborationService.invite(id, validation.data, userEmail);
+
+  if (!result.success) {
+    if (isVersionConflictError(result.error)) {
+      return versionConflict(result.error);
+    }
+    const statusCode =
+      result.error.code === 'NOT_FOUND'
+        ? 404
+        : result.error.code === 'CONSTRAINT_VIOLATION'
+          ? 400
+          : 500;
+    throw error(statusCode, {
+      message: `Failed to share itinerary: ${result.error.message}`,
+    });
+  }
+
+  return json(result.value, { status: 201 });
+};
@@ -0,0 +1,48 @@
+/**
+ * Individual collaborator route
+ * DELETE /api/v1/itineraries/:id/collaborators/:email - Stop sharing with a user
+ */
+
+import type { ItineraryId } from '$domain/types/branded.js';
+import { normalizeEmail } from '$domain/utils/collaborators.js';
+import { requireItineraryRole } from '$lib/server/itinerary-access.js';
+import { isVersionConflictError, versionConflict } from '$lib/server/optimistic-locking.js';
+import { error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+/**
+ * DELETE /api/v1/itineraries/:id/collaborators/:email
+ * Owners can remove anyone; editors and viewers can only remove themselves
+ */
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+  const { collaborationService } = locals.services;
+  const id = params.id as ItineraryId;
+  const email = params.email;
+
+  // Verify access
+  const { role, userEmail } = await requireItineraryRole(locals, id, 'viewer', 'update');
+  if (role !== 'owner' && normalizeEmail(email) !== normalizeEmail(userEmail)) {
+    throw error(403, {
+      message: 'Access denied: Only owners can remove other collaborators',
+    });
+  }
+
+  const result = await collaborationService.remove(id, email, userEmail);
+
+  if (!result.success) {
+    if (isVersionConflictError(result.error)) {
+      return versionConflict(result.error);
+    }
+    const statusCode =
+      result.error.code === 'NOT_FOUND'
+        ? 404
+        : result.error.code === 'CONSTRAINT_VIOLATION'
+          ? 400
+          : 500;
+    throw error(statusCode, {
+      message: `Failed to remove collaborator: ${result.error.message}`,
+    });
+  }
+
+  return new Response(null, { status: 204 });
+};
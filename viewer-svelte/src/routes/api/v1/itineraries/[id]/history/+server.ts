@@ -0,0 +1,30 @@
+/**
+ * Revision history routes
+ * GET /api/v1/itineraries/:id/history - List saved revisions
+ */
+
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import type { ItineraryId } from '$domain/types/branded.js';
+import { requireItineraryRole } from '$lib/server/itinerary-access.js';
+
+/**
+ * GET /api/v1/itineraries/:id/history
+ * List saved revisions of an itinerary (oldest first)
+ */
+export const GET: RequestHandler = async ({ params, locals }) => {
+	const { historyService } = locals.services;
+	const id = params.id as ItineraryId;
+
+	// Verify access
+	await requireItineraryRole(locals, id, 'viewer', 'view');
+
+	const result = await historyService.listRevisions(id);
+	if (!result.success) {
+		throw error(result.error.code === 'NOT_FOUND' ? 404 : 500, {
+			message: 'Failed to list revisions: ' + result.error.message
+		});
+	}
+
+	return json(result.value);
+};
@@ -0,0 +1,37 @@
+/**
+ * Revision snapshot route
+ * GET /api/v1/itineraries/:id/history/:revision - Itinerary as of a revision
+ */
+
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import type { ItineraryId } from '$domain/types/branded.js';
+import { requireItineraryRole } from '$lib/server/itinerary-access.js';
+
+/**
+ * GET /api/v1/itineraries/:id/history/:revision
+ * Get the itinerary as it was at a revision
+ */
+export const GET: RequestHandler = async ({ params, locals }) => {
+	const { historyService } = locals.services;
+	const id = params.id as ItineraryId;
+	const revision = Number(params.revision);
+
+	// Verify access
+	await requireItineraryRole(locals, id, 'viewer', 'view');
+
+	if (!Number.isInteger(revision)) {
+		throw error(400, {
+			message: 'Invalid request: revision must be a number'
+		});
+	}
+
+	const result = await historyService.getRevision(id, revision);
+	if (!result.success) {
+		throw error(result.error.code === 'NOT_FOUND' ? 404 : 500, {
+			message: 'Failed to load revision: ' + result.error.message
+		});
+	}
+
+	return json(result.value);
+};
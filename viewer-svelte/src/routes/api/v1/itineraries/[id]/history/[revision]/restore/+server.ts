@@ -0,0 +1,41 @@
+/**
+ * Revision restore route
+ * POST /api/v1/itineraries/:id/history/:revision/restore - Restore a prior revision
+ */
+
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import type { ItineraryId } from '$domain/types/branded.js';
+import { requireItineraryRole } from '$lib/server/itinerary-access.js';
+
+/**
+ * POST /api/v1/itineraries/:id/history/:revision/restore
+ * Restore an itinerary to a prior revision (saved as a new version)
+ */
+export const POST: RequestHandler = async ({ params, locals }) => {
+	const { historyService } = locals.services;
+	const { userEmail } = locals;
+	const id = params.id as ItineraryId;
+	const revision = Number(params.revision);
+
+	// Verify access
+	await requireItineraryRole(locals, id, 'editor', 'update');
+
+	if (!Number.isInteger(revision)) {
+		throw error(400, {
+			message: 'Invalid request: revision must be a number'
+		});
+	}
+
+	const result = await historyService.restore(id, revision, {
+		author: 'user',
+		...(userEmail && { actor: userEmail })
+	});
+	if (!result.success) {
+		throw error(result.error.code === 'NOT_FOUND' ? 404 : 500, {
+			message: 'Failed to restore revision: ' + result.error.message
+		});
+	}
+
+	return json(result.value);
+};
@@ -0,0 +1,40 @@
+/**
+ * Revision diff route
+ * GET /api/v1/itineraries/:id/history/diff?from=1&to=3 - Diff two revisions
+ */
+
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import type { ItineraryId } from '$domain/types/branded.js';
+import { requireItineraryRole } from '$lib/server/itinerary-access.js';
+
+/**
+ * GET /api/v1/itineraries/:id/history/diff
+ * Structural diff between two revisions (to defaults to the latest)
+ */
+export const GET: RequestHandler = async ({ params, url, locals }) => {
+	const { historyService } = locals.services;
+	const id = params.id as ItineraryId;
+
+	// Verify access
+	await requireItineraryRole(locals, id, 'viewer', 'view');
+
+	const from = Number(url.searchParams.get('from'));
+	const toParam = url.searchParams.get('to');
+	const to = toParam === null ? undefined : Number(toParam);
+
+	if (!Number.isInteger(from) || (to !== undefined && !Number.isInteger(to))) {
+		throw error(400, {
+			message: 'Invalid request: from (and to, if given) must be revision numbers'
+		});
+	}
+
+	const result = await historyService.diff(id, from, to);
+	if (!result.success) {
+		throw error(result.error.code === 'NOT_FOUND' ? 404 : 500, {
+			message: 'Failed to diff revisions: ' + result.error.message
+		});
+	}
+
+	return json(result.value);
+};
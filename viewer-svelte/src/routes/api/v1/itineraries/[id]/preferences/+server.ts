@@ -6,49 +6,34 @@
 import { json, error } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import type { ItineraryId } from '$domain/types/branded.js';
-
-/**
- * Verify that the current user owns the itinerary
- */
-async function verifyOwnership(
-	id: ItineraryId,
-	userEmail: string | null,
-	storage: any
-): Promise<boolean> {
-	if (!userEmail) return false;
-
-	const loadResult = await storage.load(id);
-	if (!loadResult.success) return false;
-
-	const itinerary = loadResult.value;
-	const createdBy = itinerary.createdBy?.toLowerCase().trim();
-	const reqUser = userEmail.toLowerCase().trim();
-
-	return createdBy === reqUser;
-}
+import {
+	getExpectedVersion,
+	isVersionConflictError,
+	versionConflict
+} from '$lib/server/optimistic-locking.js';
+import { requireItineraryRole } from '$lib/server/itinerary-access.js';
 
 /**
  * PATCH /api/v1/itineraries/:id/preferences
  * Update trip preferences
+ * Headers: If-Match (optional) - itinerary version the change is based on; 409 if stale
  */
 export const PATCH: RequestHandler = async ({ params, request, locals }) => {
-	const { collectionService, storage } = locals.services;
-	const { userEmail } = locals;
+	const { collectionService } = locals.services;
 	const id = params.id as ItineraryId;
 
-	// Verify ownership
-	const isOwner = await verifyOwnership(id, userEmail, storage);
-	if (!isOwner) {
-		throw error(403, {
-			message: 'Access denied: You do not have permission to update this itinerary'
-		});
-	}
+	// Verify access
+	await requireItineraryRole(locals, id, 'editor', 'update');
 
+	const expectedVersion = getExpectedVersion(request);
 	const body = await request.json();
 
-	const result = await collectionService.updateTripPreferences(id, body);
+	const result = await collectionService.updateTripPreferences(id, body, expectedVersion);
 
 	if (!result.success) {
+		if (isVersionConflictError(result.error)) {
+			return versionConflict(result.error);
+		}
 		throw error(400, {
 			message: 'Failed to update preferences: ' + result.error.message
 		});
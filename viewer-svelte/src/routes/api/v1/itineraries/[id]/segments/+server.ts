@@ -8,6 +8,12 @@ import { json, error } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import type { ItineraryId } from '$domain/types/branded.js';
 import { segmentSchema } from '$domain/schemas/segment.schema.js';
+import {
+	getExpectedVersion,
+	isVersionConflictError,
+	versionConflict
+} from '$lib/server/optimistic-locking.js';
+import { requireItineraryRole } from '$lib/server/itinerary-access.js';
 
 /**
  * GET /api/v1/itineraries/:id/segments
@@ -17,6 +23,9 @@ export const GET: RequestHandler = async ({ params, locals }) => {
 	const { segmentService } = locals.services;
 	const itineraryId = params.id as ItineraryId;
 
+	// Verify access
+	await requireItineraryRole(locals, itineraryId, 'viewer', 'view');
+
 	const result = await segmentService.get(itineraryId);
 
 	if (!result.success) {
@@ -32,11 +41,16 @@ export const GET: RequestHandler = async ({ params, locals }) => {
  * POST /api/v1/itineraries/:id/segments
  * Add a new segment to an itinerary
  * Body: Segment (validated by segmentSchema)
+ * Headers: If-Match (optional) - itinerary version the change is based on; 409 if stale
  */
 export const POST: RequestHandler = async ({ params, request, locals }) => {
 	const { segmentService } = locals.services;
 	const itineraryId = params.id as ItineraryId;
 
+	// Verify access
+	await requireItineraryRole(locals, itineraryId, 'editor', 'update');
+
+	const expectedVersion = getExpectedVersion(request);
 	const segmentData = await request.json();
 
 	// Validate using Zod schema
@@ -58,9 +72,12 @@ export const POST: RequestHandler = async ({ params, request, locals }) => {
 		endDatetime: new Date(validation.data.endDatetime)
 	};
 
-	const result = await segmentService.add(itineraryId, segment);
+	const result = await segmentService.add(itineraryId, segment, undefined, expectedVersion);
 
 	if (!result.success) {
+		if (isVersionConflictError(result.error)) {
+			return versionConflict(result.error);
+		}
 		const statusCode = result.error.type === 'NOT_FOUND' ? 404 : 400;
 		throw error(statusCode, {
 			message: 'Failed to add segment: ' + result.error.message
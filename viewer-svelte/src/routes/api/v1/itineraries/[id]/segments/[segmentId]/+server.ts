@@ -8,6 +8,12 @@
 import { json, error } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import type { ItineraryId, SegmentId } from '$domain/types/branded.js';
+import {
+	getExpectedVersion,
+	isVersionConflictError,
+	versionConflict
+} from '$lib/server/optimistic-locking.js';
+import { requireItineraryRole } from '$lib/server/itinerary-access.js';
 
 /**
  * GET /api/v1/itineraries/:id/segments/:segmentId
@@ -18,6 +24,9 @@ export const GET: RequestHandler = async ({ params, locals }) => {
 	const itineraryId = params.id as ItineraryId;
 	const segmentId = params.segmentId as SegmentId;
 
+	// Verify access
+	await requireItineraryRole(locals, itineraryId, 'viewer', 'view');
+
 	const result = await segmentService.get(itineraryId);
 
 	if (!result.success) {
@@ -41,12 +50,17 @@ export const GET: RequestHandler = async ({ params, locals }) => {
  * PATCH /api/v1/itineraries/:id/segments/:segmentId
  * Update a segment
  * Body: Partial<Segment>
+ * Headers: If-Match (optional) - itinerary version the change is based on; 409 if stale
  */
 export const PATCH: RequestHandler = async ({ params, request, locals }) => {
 	const { segmentService } = locals.services;
 	const itineraryId = params.id as ItineraryId;
 	const segmentId = params.segmentId as SegmentId;
 
+	// Verify access
+	await requireItineraryRole(locals, itineraryId, 'editor', 'update');
+
+	const expectedVersion = getExpectedVersion(request);
 	const updates = await request.json();
 
 	// Convert date strings to Date objects if present
@@ -57,9 +71,18 @@ export const PATCH: RequestHandler = async ({ params, request, locals }) => {
 		updates.endDatetime = new Date(updates.endDatetime);
 	}
 
-	const result = await segmentService.update(itineraryId, segmentId, updates);
+	const result = await segmentService.update(
+		itineraryId,
+		segmentId,
+		updates,
+		undefined,
+		expectedVersion
+	);
 
 	if (!result.success) {
+		if (isVersionConflictError(result.error)) {
+			return versionConflict(result.error);
+		}
 		const statusCode = result.error.type === 'NOT_FOUND' ? 404 : 400;
 		throw error(statusCode, {
 			message: 'Failed to update segment: ' + result.error.message
@@ -72,15 +95,24 @@ export const PATCH: RequestHandler = async ({ params, request, locals }) => {
 /**
  * DELETE /api/v1/itineraries/:id/segments/:segmentId
  * Delete a segment
+ * Headers: If-Match (optional) - itinerary version the change is based on; 409 if stale
  */
-export const DELETE: RequestHandler = async ({ params, locals }) => {
+export const DELETE: RequestHandler = async ({ params, request, locals }) => {
 	const { segmentService } = locals.services;
 	const itineraryId = params.id as ItineraryId;
 	const segmentId = params.segmentId as SegmentId;
 
-	const result = await segmentService.delete(itineraryId, segmentId);
+	// Verify access
+	await requireItineraryRole(locals, itineraryId, 'editor', 'update');
+
+	const expectedVersion = getExpectedVersion(request);
+
+	const result = await segmentService.delete(itineraryId, segmentId, undefined, expectedVersion);
 
 	if (!result.success) {
+		if (isVersionConflictError(result.error)) {
+			return versionConflict(result.error);
+		}
 		const statusCode = result.error.type === 'NOT_FOUND' ? 404 : 400;
 		throw error(statusCode, {
 			message: 'Failed to delete segment: ' + result.error.message
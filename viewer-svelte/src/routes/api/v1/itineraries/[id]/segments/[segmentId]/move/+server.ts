@@ -7,6 +7,7 @@
 import { json, error } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import type { ItineraryId, SegmentId } from '$domain/types/branded.js';
+import { requireItineraryRole } from '$lib/server/itinerary-access.js';
 
 /**
  * POST /api/v1/itineraries/:id/segments/:segmentId/move
@@ -17,6 +18,9 @@ export const POST: RequestHandler = async ({ params, request, locals }) => {
 	const itineraryId = params.id as ItineraryId;
 	const segmentId = params.segmentId as SegmentId;
 
+	// Verify access
+	await requireItineraryRole(locals, itineraryId, 'editor', 'update');
+
 	const body = await request.json();
 	const { newStartDatetime, cascadeMode } = body;
 
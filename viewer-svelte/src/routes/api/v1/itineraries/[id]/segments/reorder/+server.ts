@@ -7,15 +7,26 @@
 import { json, error } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import type { ItineraryId, SegmentId } from '$domain/types/branded.js';
+import {
+	getExpectedVersion,
+	isVersionConflictError,
+	versionConflict
+} from '$lib/server/optimistic-locking.js';
+import { requireItineraryRole } from '$lib/server/itinerary-access.js';
 
 /**
  * POST /api/v1/itineraries/:id/segments/reorder
  * Reorder segments by providing new order
+ * Headers: If-Match (optional) - itinerary version the change is based on; 409 if stale
  */
 export const POST: RequestHandler = async ({ params, request, locals }) => {
 	const { segmentService } = locals.services;
 	const itineraryId = params.id as ItineraryId;
 
+	// Verify access
+	await requireItineraryRole(locals, itineraryId, 'editor', 'update');
+
+	const expectedVersion = getExpectedVersion(request);
 	const body = await request.json();
 	const { segmentIds } = body;
 
@@ -25,9 +36,17 @@ export const POST: RequestHandler = async ({ params, request, locals }) => {
 		});
 	}
 
-	const result = await segmentService.reorder(itineraryId, segmentIds as SegmentId[]);
+	const result = await segmentService.reorder(
+		itineraryId,
+		segmentIds as SegmentId[],
+		undefined,
+		expectedVersion
+	);
 
 	if (!result.success) {
+		if (isVersionConflictError(result.error)) {
+			return versionConflict(result.error);
+		}
 		const statusCode = result.error.type === 'NOT_FOUND' ? 404 : 400;
 		throw error(statusCode, {
 			message: 'Failed to reorder segments: ' + result.error.message
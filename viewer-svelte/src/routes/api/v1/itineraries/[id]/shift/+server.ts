@@ -0,0 +1,65 @@
+/**
+ * Itinerary shift route
+ * POST /api/v1/itineraries/:id/shift - Reschedule an itinerary, a day or selected segments
+ */
+
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import type { ItineraryId } from '$domain/types/branded.js';
+import { rescheduleRequestSchema } from '$domain/schemas/reschedule.schema.js';
+import {
+	getExpectedVersion,
+	isVersionConflictError,
+	versionConflict
+} from '$lib/server/optimistic-locking.js';
+import { requireItineraryRole } from '$lib/server/itinerary-access.js';
+
+/**
+ * POST /api/v1/itineraries/:id/shift
+ * Move the whole itinerary, one day or selected segments by a duration or to
+ * a new start date; local times are kept across timezones
+ * Body: { days?, hours?, minutes? | toStartDate?, day? | segmentIds?, cascade?, dryRun? }
+ * Headers: If-Match (optional) - itinerary version the change is based on; 409 if stale
+ */
+export const POST: RequestHandler = async ({ params, request, locals }) => {
+	const { itineraryService } = locals.services;
+	const id = params.id as ItineraryId;
+
+	// Verify access
+	const { userEmail } = await requireItineraryRole(locals, id, 'editor', 'modify');
+
+	const expectedVersion = getExpectedVersion(request);
+	const validation = rescheduleRequestSchema.safeParse(await request.json());
+	if (!validation.success) {
+		const errorMessages = validation.error.errors
+			.map((e) => `${e.path.join('.')}: ${e.message}`)
+			.join('; ');
+		throw error(400, {
+			message: `Invalid shift request: ${errorMessages}`
+		});
+	}
+
+	const result = await itineraryService.reschedule(
+		id,
+		validation.data,
+		{ author: 'user', actor: userEmail },
+		expectedVersion
+	);
+
+	if (!result.success) {
+		if (isVersionConflictError(result.error)) {
+			return versionConflict(result.error);
+		}
+		const statusCode =
+			result.error.code === 'NOT_FOUND'
+				? 404
+				: result.error.code === 'WRITE_ERROR' || result.error.code === 'READ_ERROR'
+					? 500
+					: 400;
+		throw error(statusCode, {
+			message: 'Failed to shift itinerary: ' + result.error.message
+		});
+	}
+
+	return json(result.value);
+};
@@ -0,0 +1,48 @@
+/**
+ * Save itinerary as template route
+ * POST /api/v1/itineraries/:id/template - Save an itinerary as a reusable template
+ */
+
+import { saveTemplateRequestSchema } from '$domain/schemas/template.schema.js';
+import type { ItineraryId } from '$domain/types/branded.js';
+import { requireItineraryRole } from '$lib/server/itinerary-access.js';
+import { error, json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+/**
+ * POST /api/v1/itineraries/:id/template
+ * Save an itinerary as a template (travelers, confirmation numbers and prices
+ * are stripped; segment times become day offsets)
+ * Body: { name?, description? }
+ */
+export const POST: RequestHandler = async ({ params, request, locals }) => {
+  const { collectionService } = locals.services;
+  const id = params.id as ItineraryId;
+
+  // Verify access
+  const { userEmail } = await requireItineraryRole(locals, id, 'viewer', 'copy');
+
+  const body = await request.json().catch(() => ({}));
+  const validation = saveTemplateRequestSchema.safeParse(body);
+  if (!validation.success) {
+    const errorMessages = validation.error.errors
+      .map((e) => `${e.path.join('.')}: ${e.message}`)
+      .join('; ');
+    throw error(400, {
+      message: `Invalid template request: ${errorMessages}`,
+    });
+  }
+
+  const result = await collectionService.saveAsTemplate(id, {
+    ...validation.data,
+    createdBy: userEmail,
+  });
+
+  if (!result.success) {
+    throw error(500, {
+      message: `Failed to save template: ${result.error.message}`,
+    });
+  }
+
+  return json(result.value, { status: 201 });
+};
@@ -0,0 +1,31 @@
+/**
+ * Itinerary template collection routes
+ * GET /api/v1/templates - List templates saved by the current user
+ */
+
+import { error, json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+/**
+ * GET /api/v1/templates
+ * List template summaries for the current user, most recent first
+ */
+export const GET: RequestHandler = async ({ locals }) => {
+  const { collectionService } = locals.services;
+  const { userEmail } = locals;
+
+  // If user is not logged in, return empty array
+  if (!userEmail) {
+    return json([]);
+  }
+
+  const result = await collectionService.listTemplates(userEmail);
+
+  if (!result.success) {
+    throw error(500, {
+      message: `Failed to list templates: ${result.error.message}`,
+    });
+  }
+
+  return json(result.value);
+};
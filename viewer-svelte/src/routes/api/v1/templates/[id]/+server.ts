@@ -0,0 +1,67 @@
+/**
+ * Individual template routes
+ * GET /api/v1/templates/:id - Get a template with its segments (ownership verified)
+ * DELETE /api/v1/templates/:id - Delete a template (ownership verified)
+ */
+
+import type { TemplateId } from '$domain/types/branded.js';
+import { error, json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+/**
+ * GET /api/v1/templates/:id
+ * Get a template with its segments
+ */
+export const GET: RequestHandler = async ({ params, locals }) => {
+  const { collectionService } = locals.services;
+  const { userEmail } = locals;
+
+  const result = await collectionService.getTemplate(params.id as TemplateId);
+  if (!result.success) {
+    throw error(404, {
+      message: 'Template not found',
+    });
+  }
+
+  const createdBy = result.value.createdBy?.toLowerCase().trim();
+  if (!userEmail || createdBy !== userEmail.toLowerCase().trim()) {
+    throw error(403, {
+      message: 'Access denied: You do not have permission to view this template',
+    });
+  }
+
+  return json(result.value);
+};
+
+/**
+ * DELETE /api/v1/templates/:id
+ * Delete a template
+ */
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+  const { collectionService } = locals.services;
+  const { userEmail } = locals;
+  const id = params.id as TemplateId;
+
+  const loadResult = await collectionService.getTemplate(id);
+  if (!loadResult.success) {
+    throw error(404, {
+      message: 'Template not found',
+    });
+  }
+
+  const createdBy = loadResult.value.createdBy?.toLowerCase().trim();
+  if (!userEmail || createdBy !== userEmail.toLowerCase().trim()) {
+    throw error(403, {
+      message: 'Access denied: You do not have permission to delete this template',
+    });
+  }
+
+  const result = await collectionService.deleteTemplate(id);
+  if (!result.success) {
+    throw error(500, {
+      message: `Failed to delete template: ${result.error.message}`,
+    });
+  }
+
+  return new Response(null, { status: 204 });
+};
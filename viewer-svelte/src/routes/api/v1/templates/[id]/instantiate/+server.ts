@@ -0,0 +1,62 @@
+/**
+ * Template instantiation route
+ * POST /api/v1/templates/:id/instantiate - Create an itinerary from a template
+ */
+
+import { instantiateRequestSchema } from '$domain/schemas/template.schema.js';
+import type { TemplateId } from '$domain/types/branded.js';
+import { error, json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+/**
+ * POST /api/v1/templates/:id/instantiate
+ * Create an itinerary owned by the current user from a template
+ * Body: { startDate, title? }
+ */
+export const POST: RequestHandler = async ({ params, request, locals }) => {
+  const { collectionService } = locals.services;
+  const { userEmail } = locals;
+  const id = params.id as TemplateId;
+
+  if (!userEmail) {
+    throw error(401, {
+      message: 'User must be logged in to create itineraries',
+    });
+  }
+
+  const templateResult = await collectionService.getTemplate(id);
+  if (!templateResult.success) {
+    throw error(404, {
+      message: 'Template not found',
+    });
+  }
+
+  if (templateResult.value.createdBy?.toLowerCase().trim() !== userEmail.toLowerCase().trim()) {
+    throw error(403, {
+      message: 'Access denied: You do not have permission to use this template',
+    });
+  }
+
+  const validation = instantiateRequestSchema.safeParse(await request.json());
+  if (!validation.success) {
+    const errorMessages = validation.error.errors
+      .map((e) => `${e.path.join('.')}: ${e.message}`)
+      .join('; ');
+    throw error(400, {
+      message: `Invalid instantiate request: ${errorMessages}`,
+    });
+  }
+
+  const result = await collectionService.instantiateTemplate(id, {
+    ...validation.data,
+    createdBy: userEmail,
+  });
+
+  if (!result.success) {
+    throw error(500, {
+      message: `Failed to create itinerary from template: ${result.error.message}`,
+    });
+  }
+
+  return json(result.value, { status: 201 });
+};